@@ -9,6 +9,7 @@ import { StrategyContext } from './strategies/base-strategy.js';
 import { StrategyRegistry } from './strategies/registry.js';
 import { AgentConfigStorageService } from '../graphql/services/agent-config-storage.service.js';
 import { LLMProvider } from '../shared/llm/provider.js';
+import { runWithTokenStream } from '../shared/llm/token-stream.js';
 
 export class ConfigurableSummarizer {
   private config: SummarizerConfig | null = null;
@@ -85,12 +86,12 @@ export class ConfigurableSummarizer {
 
         summary = result.data || '';
       } else {
-        // Multiple strategies - combine results
-        const results = await Promise.all(
+        // Multiple strategies - combine results (not streamed: concurrent outputs would interleave)
+        const results = await runWithTokenStream(undefined, () => Promise.all(
           summarizationStrategies.map(strategyName => 
             this.strategyRegistry.executeSummarizationStrategy(strategyName, analysis, query, context)
           )
-        );
+        ));
 
         const successfulResults = results.filter(r => r.success);
         if (successfulResults.length === 0) {
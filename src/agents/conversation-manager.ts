@@ -0,0 +1,183 @@
+/**
+ * Conversation Manager
+ * Runs multi-turn conversations on top of the Orchestrator, so follow-up
+ * questions resolve against earlier turns and their results
+ */
+
+import { randomUUID } from 'crypto';
+import { OrchestratorAgent, ProgressUpdate } from './orchestrator.js';
+import { FinalResponse, ToolResult } from '../shared/types/agent.js';
+import { Message, createMessage } from '../shared/context/types.js';
+import { ContextCompressor } from '../shared/context/compression/compressor.js';
+import { IntentClassifier, IntentResult } from '../shared/intent/classifier.js';
+import {
+  Conversation,
+  ConversationStore,
+  ConversationTurn,
+  ConversationTurnContext,
+  InMemoryConversationStore,
+  ResultSnapshot,
+} from '../shared/conversation/session.js';
+
+export interface ConversationManagerConfig {
+  tokenBudget: number; // History above this many tokens is compressed
+  maxResultItems: number; // Items kept per array result for follow-ups
+}
+
+export interface ConversationReply {
+  conversation: Conversation;
+  response: FinalResponse;
+  intent: IntentResult;
+}
+
+export class ConversationManager {
+  private config: ConversationManagerConfig;
+  private store: ConversationStore;
+  private compressor: ContextCompressor;
+  private classifier: IntentClassifier;
+
+  constructor(
+    private orchestrator: Pick<OrchestratorAgent, 'handleConversationTurn'>,
+    store?: ConversationStore,
+    compressor?: ContextCompressor,
+    config?: Partial<ConversationManagerConfig>
+  ) {
+    this.config = {
+      tokenBudget: parseInt(process.env.CONVERSATION_TOKEN_BUDGET || '2000'),
+      maxResultItems: parseInt(process.env.CONVERSATION_MAX_RESULT_ITEMS || '20'),
+      ...config,
+    };
+    this.store = store || new InMemoryConversationStore();
+    this.compressor = compressor || new ContextCompressor();
+    this.classifier = new IntentClassifier();
+  }
+
+  /**
+   * Start a new conversation
+   */
+  async startConversation(userId?: string, title?: string): Promise<Conversation> {
+    const now = new Date().toISOString();
+    const conversation: Conversation = {
+      conversationId: randomUUID(),
+      messages: [],
+      turns: [],
+      createdAt: now,
+      updatedAt: now,
+      ...(userId && { userId }),
+      ...(title && { title }),
+    };
+
+    await this.store.create(conversation);
+    console.log(`💬 [ConversationManager] Started conversation ${conversation.conversationId}`);
+    return conversation;
+  }
+
+  /**
+   * Get a conversation by ID
+   */
+  async getConversation(conversationId: string): Promise<Conversation | null> {
+    return this.store.get(conversationId);
+  }
+
+  /**
+   * Send a message and run it through the agent pipeline with the conversation as context
+   */
+  async sendMessage(
+    conversationId: string,
+    text: string,
+    progressCallback?: (update: ProgressUpdate) => void,
+    requestId?: string
+  ): Promise<ConversationReply> {
+    const conversation = await this.store.get(conversationId);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    const lastTurn = conversation.turns[conversation.turns.length - 1];
+    const intent = this.classifier.classify(text, lastTurn ? { lastQuery: lastTurn.query } : undefined);
+    console.log(`💬 [ConversationManager][${conversationId}] Turn ${conversation.turns.length + 1} (${intent.intent})`);
+
+    const turnContext = await this.buildTurnContext(conversation, intent, lastTurn);
+    const { response, results } = await this.orchestrator.handleConversationTurn(
+      text,
+      turnContext,
+      progressCallback,
+      requestId
+    );
+
+    const turn: ConversationTurn = {
+      requestId: response.metadata.request_id,
+      query: text,
+      intent: intent.intent,
+      response: response.message,
+      toolsUsed: response.tools_used,
+      results: this.snapshotResults(results),
+      timestamp: new Date().toISOString(),
+      ...(response.metadata.error && { error: true }),
+    };
+
+    const messages = [
+      createMessage('user', text, { requestId: turn.requestId, intent: intent.intent }),
+      createMessage('assistant', response.message, { requestId: turn.requestId, toolsUsed: turn.toolsUsed }),
+    ];
+
+    const updated = await this.store.appendTurn(conversationId, turn, messages);
+    if (!updated) {
+      throw new Error(`Conversation not found: ${conversationId}`);
+    }
+
+    return { conversation: updated, response, intent };
+  }
+
+  /**
+   * Build the planner context for a turn, compressing the history
+   * when it exceeds the token budget
+   */
+  private async buildTurnContext(
+    conversation: Conversation,
+    intent: IntentResult,
+    lastTurn: ConversationTurn | undefined
+  ): Promise<ConversationTurnContext> {
+    let history: Message[] = conversation.messages;
+    let compressed = false;
+
+    if (this.compressor.needsCompression(history, this.config.tokenBudget)) {
+      const result = await this.compressor.compress(history, this.config.tokenBudget);
+      history = result.compressed;
+      compressed = true;
+      console.log(`🗜️  [ConversationManager][${conversation.conversationId}] Compressed history with ${result.strategy}: ${result.originalTokens} → ${result.compressedTokens} tokens`);
+    }
+
+    return {
+      conversationId: conversation.conversationId,
+      intent: intent.intent,
+      history,
+      compressed,
+      ...(lastTurn && {
+        previousQuery: lastTurn.query,
+        previousResults: lastTurn.results,
+      }),
+    };
+  }
+
+  /**
+   * Keep a bounded copy of each result for follow-up questions
+   */
+  private snapshotResults(results: ToolResult[]): ResultSnapshot[] {
+    return results.map(result => {
+      const snapshot: ResultSnapshot = {
+        tool: result.tool,
+        params: result.resolved_params || {},
+        success: result.success,
+        data: result.data ?? null,
+      };
+
+      if (Array.isArray(result.data)) {
+        snapshot.totalItems = result.data.length;
+        snapshot.data = result.data.slice(0, this.config.maxResultItems);
+      }
+
+      return snapshot;
+    });
+  }
+}
@@ -7,6 +7,17 @@ import { Plan, PlanStep, ToolResult } from '../shared/types/agent.js';
 import { ToolRegistry } from '../shared/tool-registry.js';
 import { StepResultCache } from './executor/step-cache.js';
 import { StepReferenceResolver } from './executor/reference-resolver.js';
+import {
+  getCurrentSignal,
+  runWithSignal,
+  throwIfCancelled,
+} from '../shared/cancellation/registry.js';
+import { ApprovalGate } from './executor/approval-gate.js';
+import { DurationEstimator } from './executor/duration-estimator.js';
+import { HttpSandbox, runInSandbox } from '../shared/sandbox/http-sandbox.js';
+import { assertToolAllowed } from '../shared/auth/identity.js';
+import { PermissionDeniedError } from '../shared/utils/errors.js';
+import { randomUUID } from 'crypto';
 
 export interface ExecutorConfig {
   maxParallelExecutions: number;
@@ -18,15 +29,23 @@ export interface ExecutorConfig {
   stepTimeout: number; // Per-step timeout
 }
 
+export interface ExecuteOptions {
+  requestId?: string; // Used to address approvals for gated steps
+  signal?: AbortSignal; // Aborts execution when the request is cancelled
+  dryRun?: boolean; // Record write calls instead of sending them
+}
+
 export class ExecutorAgent {
   private config: ExecutorConfig;
   private stepCache: StepResultCache;
   private referenceResolver: StepReferenceResolver;
   private enableStepReferences: boolean;
+  private durationEstimator: DurationEstimator;
 
   constructor(
     private toolRegistry: ToolRegistry,
-    config?: Partial<ExecutorConfig>
+    config?: Partial<ExecutorConfig>,
+    private approvalGate?: ApprovalGate
   ) {
     this.config = {
       maxParallelExecutions: 5,
@@ -43,6 +62,7 @@ export class ExecutorAgent {
     this.stepCache = new StepResultCache();
     this.referenceResolver = new StepReferenceResolver();
     this.enableStepReferences = process.env.ENABLE_STEP_REFERENCES === 'true';
+    this.durationEstimator = new DurationEstimator();
     
     if (this.enableStepReferences) {
       console.log('[ExecutorAgent] Step reference resolution enabled');
@@ -51,13 +71,22 @@ export class ExecutorAgent {
     if (this.config.enableAggressiveParallelization) {
       console.log('[ExecutorAgent] Aggressive parallelization enabled');
     }
+
+    if (this.approvalGate) {
+      console.log('[ExecutorAgent] Approval gate enabled');
+    }
   }
 
   async execute(
     plan: Plan,
-    progressCallback?: (stepIndex: number, total: number, stepName: string) => void
+    progressCallback?: (stepIndex: number, total: number, stepName: string) => void,
+    options: ExecuteOptions = {}
   ): Promise<ToolResult[]> {
-    console.log(`⚡ [Executor] Executing plan with ${plan.steps.length} steps`);
+    const dryRun = options.dryRun === true;
+    console.log(`⚡ [Executor] ${dryRun ? 'Simulating' : 'Executing'} plan with ${plan.steps.length} steps`);
+    const signal = options.signal ?? getCurrentSignal();
+    const requestId = options.requestId ?? randomUUID();
+    throwIfCancelled(signal);
 
     // Clear cache for new execution
     this.stepCache.clear();
@@ -88,6 +117,9 @@ export class ExecutorAgent {
         : [readySteps];
 
       for (const batch of parallelBatches) {
+        // Stop before starting another batch if the request was cancelled
+        throwIfCancelled(signal);
+
         console.log(`⚡ [Executor] Executing ${batch.length} steps in parallel`);
 
         // Emit progress for each ready step
@@ -101,21 +133,34 @@ export class ExecutorAgent {
           }
         }
 
+        // Pause for approval of gated steps; rejected steps are not run.
+        // A dry run writes nothing, so there is nothing to approve.
+        const batchResults = dryRun
+          ? new Map<number, ToolResult>()
+          : await this.awaitApprovals(batch, optimizedSteps, requestId, signal);
+        const runnable = batch.filter(stepIndex => !batchResults.has(stepIndex));
+
         // Execute batch with enhanced timeout handling
-        const batchResults = await this.executeBatchWithTimeout(
-          batch,
-          optimizedSteps,
-          results
+        // (signal is ambient so tools abort their pending HTTP calls)
+        const runResults = await runWithSignal(signal, () =>
+          this.executeBatchWithTimeout(runnable, optimizedSteps, results, dryRun)
         );
+        runnable.forEach((stepIndex, i) => batchResults.set(stepIndex, runResults[i]!));
+
+        // Results of an aborted batch are incomplete - discard them
+        if (signal?.aborted) {
+          console.log(`🛑 [Executor] Execution cancelled after ${completed.size}/${optimizedSteps.length} steps`);
+          throwIfCancelled(signal);
+        }
 
         // Store results and mark as completed
         for (let i = 0; i < batch.length; i++) {
           const stepIndex = batch[i];
           if (stepIndex !== undefined) {
-            results[stepIndex] = batchResults[i]!;
+            results[stepIndex] = batchResults.get(stepIndex)!;
             completed.add(stepIndex);
 
-            const result = batchResults[i];
+            const result = batchResults.get(stepIndex);
             if (result) {
               const status = result.success ? '✅' : '❌';
               console.log(`${status} [Executor] Step ${stepIndex + 1} complete: ${result.success ? 'success' : 'failed'}`);
@@ -136,6 +181,94 @@ export class ExecutorAgent {
     return results;
   }
 
+  /**
+   * Estimate how long a simulated plan would take to run for real
+   */
+  estimatePlanDuration(plan: Plan, results: ToolResult[]): number {
+    const stepEstimates = plan.steps.map((_, index) => {
+      const result = results[index];
+      return result?.dry_run?.estimated_duration_ms ?? result?.metadata?.executionTime ?? 0;
+    });
+    return this.durationEstimator.estimatePlan(plan.steps, stepEstimates);
+  }
+
+  /**
+   * Wait for approval of the batch's gated steps.
+   * Returns failure results for steps that were rejected or timed out.
+   */
+  private async awaitApprovals(
+    batch: number[],
+    steps: PlanStep[],
+    requestId: string,
+    signal: AbortSignal | undefined
+  ): Promise<Map<number, ToolResult>> {
+    const rejected = new Map<number, ToolResult>();
+    const gate = this.approvalGate;
+    if (!gate) {
+      return rejected;
+    }
+
+    const gated = batch.filter(stepIndex => {
+      const step = steps[stepIndex];
+      return step !== undefined && gate.requiresApproval(step);
+    });
+
+    if (gated.length === 0) {
+      return rejected;
+    }
+
+    console.log(`⏸️  [Executor] Waiting for approval of ${gated.length} step(s)`);
+    const decisions = await Promise.all(
+      gated.map(stepIndex => gate.requestApproval(requestId, stepIndex, steps[stepIndex]!, signal))
+    );
+
+    gated.forEach((stepIndex, i) => {
+      const decision = decisions[i]!;
+      const step = steps[stepIndex]!;
+      if (decision.approved) {
+        return;
+      }
+
+      const message = decision.decision === 'timed_out'
+        ? `Step ${stepIndex} (${step.tool}) was not approved in time`
+        : `Step ${stepIndex} (${step.tool}) was rejected by ${decision.actor}${decision.reason ? `: ${decision.reason}` : ''}`;
+
+      rejected.set(stepIndex, {
+        success: false,
+        tool: step.tool,
+        error: {
+          code: decision.decision === 'timed_out' ? 'APPROVAL_TIMEOUT' : 'APPROVAL_REJECTED',
+          message,
+          details: {
+            approvalId: decision.approvalId,
+            actor: decision.actor,
+            reason: decision.reason,
+          }
+        },
+        metadata: {
+          executionTime: 0,
+          timestamp: new Date().toISOString(),
+        },
+        step_index: stepIndex,
+        resolved_params: step.params
+      });
+
+      // Cache failed result so dependent references fail cleanly
+      if (this.enableStepReferences) {
+        this.stepCache.set(stepIndex, {
+          success: false,
+          data: null,
+          error: message,
+          timestamp: new Date(),
+          tool: step.tool,
+          params: step.params
+        });
+      }
+    });
+
+    return rejected;
+  }
+
   private buildExecutionGraph(steps: PlanStep[]): Map<number, number[]> {
     const graph = new Map<number, number[]>();
 
@@ -230,14 +363,15 @@ export class ExecutorAgent {
   private async executeBatchWithTimeout(
     stepIndices: number[],
     steps: PlanStep[],
-    previousResults: ToolResult[]
+    previousResults: ToolResult[],
+    dryRun: boolean = false
   ): Promise<ToolResult[]> {
     const promises = stepIndices.map(index => {
       const step = steps[index];
       if (!step) {
         throw new Error(`Step at index ${index} not found`);
       }
-      return this.executeStepWithTimeout(step, index, previousResults);
+      return this.executeStepWithTimeout(step, index, previousResults, dryRun);
     });
 
     return Promise.all(promises);
@@ -246,13 +380,14 @@ export class ExecutorAgent {
   private async executeStepWithTimeout(
     step: PlanStep,
     index: number,
-    previousResults: ToolResult[]
+    previousResults: ToolResult[],
+    dryRun: boolean = false
   ): Promise<ToolResult> {
     const timeout = this.config.stepTimeout;
 
     try {
       return await Promise.race([
-        this.executeStep(step, index, previousResults),
+        this.executeStep(step, index, previousResults, dryRun),
         this.timeout(timeout)
       ]);
     } catch (error: any) {
@@ -381,10 +516,13 @@ export class ExecutorAgent {
   private async executeStep(
     step: PlanStep,
     index: number,
-    previousResults: ToolResult[]
+    previousResults: ToolResult[],
+    dryRun: boolean = false
   ): Promise<ToolResult> {
-    console.log(`[ExecutorAgent] Executing step ${index}: ${step.tool}`);
+    console.log(`[ExecutorAgent] ${dryRun ? 'Simulating' : 'Executing'} step ${index}: ${step.tool}`);
     const startTime = Date.now();
+    // Dry runs always resolve through the reference resolver so previews match real runs
+    const useStepReferences = this.enableStepReferences || dryRun;
 
     try {
       // Get tool from registry
@@ -393,6 +531,8 @@ export class ExecutorAgent {
         throw new Error(`Tool not found: ${step.tool}`);
       }
 
+      // Tools run with the requesting user's permissions
+      assertToolAllowed(step.tool);
 
       // Validate parameters against schema
       const schema = this.toolRegistry.getToolSchema(step.tool);
@@ -405,7 +545,7 @@ export class ExecutorAgent {
 
       // Resolve parameters using enhanced resolution if enabled
       let resolvedParams: Record<string, any>;
-      if (this.enableStepReferences) {
+      if (useStepReferences) {
         const resolutionResult = this.referenceResolver.resolveReferences(
           step.params || {},  // Ensure params is at least an empty object
           this.stepCache
@@ -430,9 +570,10 @@ export class ExecutorAgent {
       }
 
 
-      // Execute with retries
+      // Execute with retries (write calls are only recorded in a dry run)
+      const sandbox = dryRun ? new HttpSandbox() : null;
       const result = await this.executeWithRetry(
-        () => tool.execute(resolvedParams),
+        () => sandbox ? runInSandbox(sandbox, () => tool.execute(resolvedParams)) : tool.execute(resolvedParams),
         step.tool
       );
 
@@ -443,8 +584,20 @@ export class ExecutorAgent {
         resolved_params: resolvedParams
       };
 
+      if (sandbox) {
+        const requests = sandbox.getRequests();
+        enhancedResult.dry_run = {
+          requests,
+          estimated_duration_ms: this.durationEstimator.estimateStep(
+            step.tool,
+            result.metadata?.executionTime ?? Date.now() - startTime,
+            requests.length > 0
+          ),
+        };
+      }
+
       // Cache result for future reference resolution
-      if (this.enableStepReferences) {
+      if (useStepReferences) {
         this.stepCache.set(index, {
           success: result.success,
           data: result.data,
@@ -473,7 +626,7 @@ export class ExecutorAgent {
         success: false,
         tool: step.tool,
         error: {
-          code: 'EXECUTION_FAILED',
+          code: error instanceof PermissionDeniedError ? error.code : 'EXECUTION_FAILED',
           message: error.message,
           details: {
             httpStatus: error.response?.status,
@@ -490,7 +643,7 @@ export class ExecutorAgent {
       };
 
       // Cache failed result for reference resolution
-      if (this.enableStepReferences) {
+      if (useStepReferences) {
         this.stepCache.set(index, {
           success: false,
           data: null,
@@ -626,8 +779,11 @@ export class ExecutorAgent {
     toolName: string
   ): Promise<T> {
     let lastError: Error | null = null;
+    const signal = getCurrentSignal();
 
     for (let attempt = 1; attempt <= this.config.maxRetries; attempt++) {
+      throwIfCancelled(signal);
+
       try {
         // Add timeout
         const result = await Promise.race([
@@ -639,6 +795,12 @@ export class ExecutorAgent {
 
       } catch (error: any) {
         lastError = error;
+
+        // Never retry a cancelled request
+        if (signal?.aborted) {
+          throw error;
+        }
+
         console.error(
           `[ExecutorAgent] Tool ${toolName} attempt ${attempt}/${this.config.maxRetries} failed:`,
           error.message
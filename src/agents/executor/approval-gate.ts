@@ -0,0 +1,300 @@
+/**
+ * Approval Gate
+ * Pauses plan steps until a human approves or rejects them, and records every decision
+ */
+
+import { randomUUID } from 'crypto';
+import { PlanStep } from '../../shared/types/agent.js';
+import { CancellationError, PermissionDeniedError } from '../../shared/utils/errors.js';
+import { Role, hasRole, requiredToolRole } from '../../shared/auth/identity.js';
+import { ApprovalPolicy, ToolCategory } from './approval-policy.js';
+
+export type ApprovalDecisionType = 'approved' | 'rejected' | 'timed_out' | 'cancelled';
+
+/**
+ * A step waiting for approval
+ */
+export interface ApprovalRequest {
+  approvalId: string;
+  requestId: string;
+  stepIndex: number;
+  tool: string;
+  params: Record<string, any>;
+  category: ToolCategory;
+  reason: string;
+  requestedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Outcome of an approval request
+ */
+export interface ApprovalDecision {
+  approvalId: string;
+  decision: ApprovalDecisionType;
+  approved: boolean;
+  actor: string;
+  actorRole?: Role;
+  reason?: string;
+  decidedAt: string;
+}
+
+/**
+ * Audit trail entry (request + decision)
+ */
+export interface ApprovalAuditEntry extends ApprovalRequest {
+  decision: ApprovalDecisionType;
+  actor: string;
+  actorRole?: Role;
+  decisionReason?: string;
+  decidedAt: string;
+}
+
+/**
+ * Audit trail storage interface
+ */
+export interface ApprovalAuditStore {
+  record(entry: ApprovalAuditEntry): Promise<void>;
+  listByRequest(requestId: string): Promise<ApprovalAuditEntry[]>;
+}
+
+/**
+ * In-memory audit trail (default)
+ */
+export class InMemoryApprovalAuditStore implements ApprovalAuditStore {
+  private entries: ApprovalAuditEntry[] = [];
+
+  async record(entry: ApprovalAuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async listByRequest(requestId: string): Promise<ApprovalAuditEntry[]> {
+    return this.entries.filter(e => e.requestId === requestId);
+  }
+}
+
+export interface ApprovalGateConfig {
+  policy: ApprovalPolicy;
+  auditStore: ApprovalAuditStore;
+  timeoutMs: number;
+  onApprovalRequired?: (request: ApprovalRequest) => void;
+}
+
+/**
+ * The least role that may decide on a step: an operator, or the role the tool
+ * itself needs when that's higher (admins for deletes and resets)
+ */
+export function requiredApproverRole(tool: string): Role {
+  const toolRole = requiredToolRole(tool);
+  return hasRole(toolRole, 'operator') ? toolRole : 'operator';
+}
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve: (decision: ApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class ApprovalGate {
+  private config: ApprovalGateConfig;
+  private pending: Map<string, PendingApproval> = new Map();
+
+  constructor(config?: Partial<ApprovalGateConfig>) {
+    this.config = {
+      policy: new ApprovalPolicy(),
+      auditStore: new InMemoryApprovalAuditStore(),
+      timeoutMs: parseInt(process.env.APPROVAL_TIMEOUT_MS || '600000'),
+      ...config,
+    };
+  }
+
+  /**
+   * Check whether a step needs approval under the configured policy
+   */
+  requiresApproval(step: PlanStep): boolean {
+    return this.config.policy.requiresApproval(step);
+  }
+
+  getPolicy(): ApprovalPolicy {
+    return this.config.policy;
+  }
+
+  /**
+   * Pause until the step is approved, rejected, times out or the request is cancelled
+   */
+  async requestApproval(
+    requestId: string,
+    stepIndex: number,
+    step: PlanStep,
+    signal?: AbortSignal
+  ): Promise<ApprovalDecision> {
+    if (signal?.aborted) {
+      throw new CancellationError(requestId);
+    }
+
+    const now = Date.now();
+    const request: ApprovalRequest = {
+      approvalId: randomUUID(),
+      requestId,
+      stepIndex,
+      tool: step.tool,
+      params: step.params || {},
+      category: this.config.policy.getCategory(step.tool),
+      reason: this.config.policy.getReason(step),
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.config.timeoutMs).toISOString(),
+    };
+
+    const decision = await new Promise<ApprovalDecision>((resolve) => {
+      const onAbort = () => this.settle(request.approvalId, 'cancelled', 'system', 'Request cancelled');
+
+      const timer = setTimeout(
+        () => this.settle(request.approvalId, 'timed_out', 'system', `No decision within ${this.config.timeoutMs}ms`),
+        this.config.timeoutMs
+      );
+
+      this.pending.set(request.approvalId, {
+        request,
+        timer,
+        resolve: (result) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      console.log(`⏸️  [ApprovalGate] Step ${stepIndex} (${step.tool}) of ${requestId} awaiting approval`);
+      this.config.onApprovalRequired?.(request);
+    });
+
+    if (decision.decision === 'cancelled') {
+      throw new CancellationError(requestId);
+    }
+
+    return decision;
+  }
+
+  /**
+   * Approve a pending step. With an actor role, the role must be allowed to decide on the step's tool.
+   */
+  async approve(
+    requestId: string,
+    stepIndex: number,
+    actor: string,
+    reason?: string,
+    actorRole?: Role
+  ): Promise<ApprovalDecision> {
+    return this.decide(requestId, stepIndex, 'approved', actor, reason, actorRole);
+  }
+
+  /**
+   * Reject a pending step. With an actor role, the role must be allowed to decide on the step's tool.
+   */
+  async reject(
+    requestId: string,
+    stepIndex: number,
+    actor: string,
+    reason?: string,
+    actorRole?: Role
+  ): Promise<ApprovalDecision> {
+    return this.decide(requestId, stepIndex, 'rejected', actor, reason, actorRole);
+  }
+
+  /**
+   * List steps waiting for approval (optionally for one request)
+   */
+  getPending(requestId?: string): ApprovalRequest[] {
+    return Array.from(this.pending.values())
+      .map(p => p.request)
+      .filter(r => !requestId || r.requestId === requestId);
+  }
+
+  /**
+   * Get the audit trail for a request
+   */
+  async getAuditTrail(requestId: string): Promise<ApprovalAuditEntry[]> {
+    return this.config.auditStore.listByRequest(requestId);
+  }
+
+  private async decide(
+    requestId: string,
+    stepIndex: number,
+    decision: 'approved' | 'rejected',
+    actor: string,
+    reason?: string,
+    actorRole?: Role
+  ): Promise<ApprovalDecision> {
+    const pending = this.getPending(requestId).find(r => r.stepIndex === stepIndex);
+    if (!pending) {
+      throw new Error(`No pending approval for step ${stepIndex} of request ${requestId}`);
+    }
+
+    const required = requiredApproverRole(pending.tool);
+    if (actorRole && !hasRole(actorRole, required)) {
+      throw new PermissionDeniedError(`decide on ${pending.tool}`, actorRole, required);
+    }
+
+    const result = this.settle(pending.approvalId, decision, actor, reason, actorRole);
+    if (!result) {
+      throw new Error(`Approval ${pending.approvalId} was already decided`);
+    }
+    return result;
+  }
+
+  /**
+   * Resolve a pending approval and record the decision in the audit trail
+   */
+  private settle(
+    approvalId: string,
+    decision: ApprovalDecisionType,
+    actor: string,
+    reason?: string,
+    actorRole?: Role
+  ): ApprovalDecision | null {
+    const pending = this.pending.get(approvalId);
+    if (!pending) {
+      return null;
+    }
+
+    this.pending.delete(approvalId);
+    clearTimeout(pending.timer);
+
+    const result: ApprovalDecision = {
+      approvalId,
+      decision,
+      approved: decision === 'approved',
+      actor,
+      decidedAt: new Date().toISOString(),
+    };
+    if (actorRole) {
+      result.actorRole = actorRole;
+    }
+    if (reason) {
+      result.reason = reason;
+    }
+
+    const entry: ApprovalAuditEntry = {
+      ...pending.request,
+      decision,
+      actor,
+      decidedAt: result.decidedAt,
+    };
+    if (actorRole) {
+      entry.actorRole = actorRole;
+    }
+    if (reason) {
+      entry.decisionReason = reason;
+    }
+
+    // Don't block the executor on audit storage
+    this.config.auditStore.record(entry).catch((error: any) => {
+      console.error(`[ApprovalGate] Failed to record audit entry for ${approvalId}:`, error.message);
+    });
+
+    console.log(`${result.approved ? '▶️ ' : '⛔'} [ApprovalGate] Step ${pending.request.stepIndex} of ${pending.request.requestId} ${decision} by ${actor}`);
+    pending.resolve(result);
+
+    return result;
+  }
+}
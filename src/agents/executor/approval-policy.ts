@@ -0,0 +1,95 @@
+/**
+ * Approval Policy
+ * Decides which plan steps need human approval before they run, by tool category
+ */
+
+import { Plan, PlanStep } from '../../shared/types/agent.js';
+
+export type ToolCategory = 'read' | 'create' | 'update' | 'delete';
+
+export interface ApprovalPolicyConfig {
+  categories: ToolCategory[]; // Categories that always need approval
+  tools: string[]; // Individual tools that always need approval
+  exemptTools: string[]; // Tools that never need approval
+}
+
+// Tools whose category can't be derived from the name suffix
+const CATEGORY_OVERRIDES: Record<string, ToolCategory> = {
+  database_reset: 'delete',
+  shipments_transition: 'update',
+};
+
+export class ApprovalPolicy {
+  private config: ApprovalPolicyConfig;
+
+  constructor(config?: Partial<ApprovalPolicyConfig>) {
+    this.config = {
+      categories: parseList(process.env.APPROVAL_REQUIRED_CATEGORIES, ['delete', 'update']) as ToolCategory[],
+      tools: parseList(process.env.APPROVAL_REQUIRED_TOOLS, []),
+      exemptTools: parseList(process.env.APPROVAL_EXEMPT_TOOLS, []),
+      ...config,
+    };
+  }
+
+  /**
+   * Categorize a tool by its name
+   */
+  getCategory(toolName: string): ToolCategory {
+    const override = CATEGORY_OVERRIDES[toolName];
+    if (override) return override;
+
+    if (toolName.endsWith('_delete')) return 'delete';
+    if (toolName.endsWith('_update')) return 'update';
+    if (toolName.endsWith('_create')) return 'create';
+    return 'read';
+  }
+
+  /**
+   * Check whether a step needs approval before it runs
+   */
+  requiresApproval(step: PlanStep): boolean {
+    if (this.config.exemptTools.includes(step.tool)) {
+      return false;
+    }
+
+    if (step.requires_approval) {
+      return true;
+    }
+
+    return (
+      this.config.tools.includes(step.tool) ||
+      this.config.categories.includes(this.getCategory(step.tool))
+    );
+  }
+
+  /**
+   * Explain why a step needs approval
+   */
+  getReason(step: PlanStep): string {
+    if (this.config.tools.includes(step.tool)) {
+      return `Tool '${step.tool}' always requires approval`;
+    }
+    return `'${this.getCategory(step.tool)}' operations require approval`;
+  }
+
+  /**
+   * Mark the steps of a plan that need approval
+   */
+  applyToPlan(plan: Plan): Plan {
+    return {
+      ...plan,
+      steps: plan.steps.map(step =>
+        this.requiresApproval(step) ? { ...step, requires_approval: true } : step
+      ),
+    };
+  }
+
+  getConfig(): ApprovalPolicyConfig {
+    return { ...this.config };
+  }
+}
+
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  if (value === undefined) return fallback;
+  return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+}
@@ -0,0 +1,53 @@
+/**
+ * Duration Estimator
+ * Estimates how long a simulated (dry-run) plan would take to execute for real
+ */
+
+import { PlanStep } from '../../shared/types/agent.js';
+import { PerformanceTracker, getGlobalPerformanceTracker } from '../../shared/metrics/performance-tracker.js';
+
+export class DurationEstimator {
+  constructor(
+    private tracker: PerformanceTracker = getGlobalPerformanceTracker(),
+    private defaultWriteMs: number = parseInt(process.env.DRY_RUN_DEFAULT_WRITE_MS || '250')
+  ) {}
+
+  /**
+   * Estimate a single step.
+   * Reads really ran, so their measured time is used; sandboxed writes
+   * use the tool's historical average, or the default if it has none.
+   */
+  estimateStep(toolName: string, measuredMs: number, sandboxed: boolean): number {
+    if (!sandboxed) {
+      return measuredMs;
+    }
+    return this.tracker.getToolAverageDuration(toolName) ?? this.defaultWriteMs;
+  }
+
+  /**
+   * Estimate the whole plan as its critical path: steps in the same batch
+   * run in parallel, so a step finishes after its slowest dependency
+   */
+  estimatePlan(steps: PlanStep[], stepEstimates: number[]): number {
+    const finish: number[] = [];
+
+    const finishOf = (index: number): number => {
+      const cached = finish[index];
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const deps = steps[index]?.depends_on || [];
+      const start = deps.reduce((max, dep) => Math.max(max, finishOf(dep)), 0);
+      const end = start + (stepEstimates[index] ?? 0);
+      finish[index] = end;
+      return end;
+    };
+
+    let total = 0;
+    for (let i = 0; i < steps.length; i++) {
+      total = Math.max(total, finishOf(i));
+    }
+    return total;
+  }
+}
@@ -16,5 +16,8 @@ export { SummarizerAgent } from './summarizer.js';
 export type { SummarizerConfig } from './summarizer.js';
 
 export { OrchestratorAgent } from './orchestrator.js';
-export type { OrchestratorConfig } from './orchestrator.js';
+export type { OrchestratorConfig, OrchestratorState, OrchestratorPhase, PlanRecorder } from './orchestrator.js';
 
+
+export { ConversationManager } from './conversation-manager.js';
+export type { ConversationManagerConfig, ConversationReply } from './conversation-manager.js';
@@ -8,8 +8,16 @@ import { ExecutorAgent } from './executor.js';
 import { AnalyzerAgent } from './analyzer.js';
 import { SummarizerAgent } from './summarizer.js';
 import { MemoryManager } from '../shared/memory/manager.js';
-import { FinalResponse } from '../shared/types/agent.js';
+import { Analysis, FinalResponse, Plan, ReplanRound, ToolResult } from '../shared/types/agent.js';
 import { PerformanceTracker, getGlobalPerformanceTracker } from '../shared/metrics/performance-tracker.js';
+import { GraphBuilder, WorkflowGraph } from '../shared/workflow/graph/builder.js';
+import { WorkflowExecutor } from '../shared/workflow/execution/executor.js';
+import { CheckpointManager } from '../shared/workflow/checkpoint/manager.js';
+import { ConversationTurnContext } from '../shared/conversation/session.js';
+import { AgentResponse } from '../shared/response/builder.js';
+import { CancellationError, ClarificationNeededError } from '../shared/utils/errors.js';
+import { getCurrentSignal, isCancellationError } from '../shared/cancellation/registry.js';
+import { SummaryChunk, streamSummary } from '../shared/llm/token-stream.js';
 import { randomUUID } from 'crypto';
 
 export interface ProgressUpdate {
@@ -20,53 +28,240 @@ export interface ProgressUpdate {
   timestamp: string;
 }
 
+/**
+ * Pipeline phases, in execution order
+ */
+export type OrchestratorPhase =
+  | 'load_context'
+  | 'plan'
+  | 'execute'
+  | 'replan'
+  | 'analyze'
+  | 'summarize'
+  | 'store';
+
+export interface PhaseDurations {
+  contextLoading: number;
+  planning: number;
+  execution: number;
+  analysis: number;
+  summarization: number;
+}
+
+/**
+ * Workflow state, checkpointed after every completed phase
+ */
+export interface OrchestratorState {
+  requestId: string;
+  query: string;
+  context?: any;
+  conversation?: ConversationTurnContext;
+  plan?: Plan;
+  clarification?: AgentResponse; // Question the user must answer before planning can continue
+  results?: ToolResult[];
+  replans?: ReplanRound[];
+  analysis?: Analysis;
+  response?: FinalResponse;
+  durations: PhaseDurations;
+  resumeCount: number;
+}
+
+type EmitProgress = (phase: string, progress: number, message: string) => void;
+
+/**
+ * Outcome of a workflow run
+ */
+interface RunOutcome {
+  response: FinalResponse;
+  state: OrchestratorState;
+}
+
+/**
+ * Where plans and their replanning rounds are recorded (PlanStorageService in the GraphQL server)
+ */
+export interface PlanRecorder {
+  savePlan(requestId: string, query: string, plan: Plan, context?: any): Promise<unknown>;
+  appendReplanRound(requestId: string, round: ReplanRound): Promise<unknown>;
+}
+
 export interface OrchestratorConfig {
   enableMemory: boolean;
   maxRetries: number;
   timeout: number;
   enableContextLoading: boolean;
+  maxReplanRounds: number; // Repair rounds after failed steps (0 disables replanning)
+  onSummaryChunk?: (chunk: SummaryChunk) => void; // Streams the summary as it is generated
 }
 
 export class OrchestratorAgent {
   private config: OrchestratorConfig;
   private performanceTracker: PerformanceTracker;
+  private workflowExecutor: WorkflowExecutor<OrchestratorState>;
+  private checkpoints: CheckpointManager<OrchestratorState>;
 
   constructor(
-    private planner: PlannerAgent,
-    private executor: ExecutorAgent,
-    private analyzer: AnalyzerAgent,
-    private summarizer: SummarizerAgent,
+    private planner: Pick<PlannerAgent, 'plan'> & Partial<Pick<PlannerAgent, 'replan'>>,
+    private executor: Pick<ExecutorAgent, 'execute'>,
+    private analyzer: Pick<AnalyzerAgent, 'analyze'>,
+    private summarizer: Pick<SummarizerAgent, 'summarize'>,
     private memory: MemoryManager,
-    config?: Partial<OrchestratorConfig>
+    config?: Partial<OrchestratorConfig>,
+    checkpoints?: CheckpointManager<OrchestratorState>,
+    private planRecorder?: PlanRecorder
   ) {
     this.config = {
       enableMemory: true,
       maxRetries: 3,
       timeout: 60000,
       enableContextLoading: true,
+      maxReplanRounds: parseInt(process.env.MAX_REPLAN_ROUNDS || '2'),
       ...config,
     };
 
     this.performanceTracker = getGlobalPerformanceTracker();
+    this.workflowExecutor = new WorkflowExecutor<OrchestratorState>();
+    this.checkpoints = checkpoints || new CheckpointManager<OrchestratorState>();
   }
 
+  /**
+   * Run a query through the pipeline. Callers that cancel runs pass the request ID
+   * so they can register it before the run starts; otherwise one is generated.
+   */
   async handleQuery(
     query: string, 
-    progressCallback?: (update: ProgressUpdate) => void
+    progressCallback?: (update: ProgressUpdate) => void,
+    requestId?: string
   ): Promise<FinalResponse> {
-    const requestId = randomUUID();
-    const startTime = Date.now();
-    const phaseStartTimes = {
-      contextLoading: 0,
-      planning: 0,
-      execution: 0,
-      analysis: 0,
-      summarization: 0
+    const outcome = await this.startRun(query, progressCallback, undefined, requestId);
+    return outcome.response;
+  }
+
+  /**
+   * Handle one turn of a conversation. The conversation context is passed
+   * to the planner so follow-ups resolve against earlier results.
+   */
+  async handleConversationTurn(
+    query: string,
+    conversation: ConversationTurnContext,
+    progressCallback?: (update: ProgressUpdate) => void,
+    requestId?: string
+  ): Promise<{ response: FinalResponse; results: ToolResult[] }> {
+    const outcome = await this.startRun(query, progressCallback, conversation, requestId);
+    return {
+      response: outcome.response,
+      results: outcome.state.results || [],
     };
+  }
+
+  private async startRun(
+    query: string,
+    progressCallback?: (update: ProgressUpdate) => void,
+    conversation?: ConversationTurnContext,
+    requestId: string = randomUUID()
+  ): Promise<RunOutcome> {
 
     console.log(`🎯 [Orchestrator][${requestId}] Processing query: ${query}`);
 
-    const emitProgress = (phase: string, progress: number, message: string) => {
+    const initialState: OrchestratorState = {
+      requestId,
+      query,
+      ...(conversation && { conversation }),
+      durations: {
+        contextLoading: 0,
+        planning: 0,
+        execution: 0,
+        analysis: 0,
+        summarization: 0
+      },
+      resumeCount: 0,
+    };
+
+    // Checkpoint before the first phase so even an early failure can be resumed
+    const checkpointId = await this.saveCheckpoint(initialState, '__start__', 'load_context');
+
+    return this.runWorkflow(initialState, 'load_context', progressCallback, checkpointId);
+  }
+
+  /**
+   * Resume a request from its last completed phase
+   */
+  async resumeQuery(
+    requestId: string,
+    progressCallback?: (update: ProgressUpdate) => void
+  ): Promise<FinalResponse> {
+    const checkpoint = await this.checkpoints.getLatestCheckpoint(requestId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for request: ${requestId}`);
+    }
+
+    const nextNode: OrchestratorPhase | null = checkpoint.metadata?.nextNode ?? null;
+
+    // Already finished - nothing to resume
+    if (!nextNode) {
+      if (!checkpoint.state.response) {
+        throw new Error(`Checkpoint for request ${requestId} has no pending phase`);
+      }
+      console.log(`✅ [Orchestrator][${requestId}] Already complete, returning stored response`);
+      return checkpoint.state.response;
+    }
+
+    console.log(`🔁 [Orchestrator][${requestId}] Resuming at '${nextNode}' (last completed: ${checkpoint.currentNode})`);
+
+    const state: OrchestratorState = {
+      ...checkpoint.state,
+      resumeCount: (checkpoint.state.resumeCount || 0) + 1,
+    };
+
+    const outcome = await this.runWorkflow(state, nextNode, progressCallback, checkpoint.id);
+    return outcome.response;
+  }
+
+  /**
+   * Answer a clarification question and plan the original query again
+   */
+  async answerClarification(
+    requestId: string,
+    answer: string,
+    progressCallback?: (update: ProgressUpdate) => void
+  ): Promise<FinalResponse> {
+    const checkpoint = await this.checkpoints.getLatestCheckpoint(requestId);
+    if (!checkpoint) {
+      throw new Error(`No checkpoint found for request: ${requestId}`);
+    }
+
+    const { clarification, response: _response, ...rest } = checkpoint.state;
+    if (!clarification) {
+      throw new Error(`Request ${requestId} is not awaiting clarification`);
+    }
+
+    console.log(`💡 [Orchestrator][${requestId}] Clarified: ${answer}`);
+
+    const state: OrchestratorState = {
+      ...rest,
+      context: {
+        ...(rest.context || {}),
+        clarification: { question: clarification.content, answer },
+      },
+      resumeCount: (rest.resumeCount || 0) + 1,
+    };
+
+    const outcome = await this.runWorkflow(state, 'plan', progressCallback, checkpoint.id);
+    return outcome.response;
+  }
+
+  /**
+   * Run the pipeline from the given phase, checkpointing after each phase
+   */
+  private async runWorkflow(
+    initialState: OrchestratorState,
+    startNode: OrchestratorPhase,
+    progressCallback?: (update: ProgressUpdate) => void,
+    previousCheckpointId?: string
+  ): Promise<RunOutcome> {
+    const { requestId, query } = initialState;
+    const startTime = Date.now();
+
+    const emitProgress: EmitProgress = (phase, progress, message) => {
       const update = {
         requestId,
         phase,
@@ -78,135 +273,93 @@ export class OrchestratorAgent {
       progressCallback?.(update);
     };
 
-    try {
-      // 1. Load relevant context from memory (if enabled)
-      emitProgress('context-loading', 10, 'Loading relevant context...');
-      phaseStartTimes.contextLoading = Date.now();
-      let context = {};
-      if (this.config.enableMemory && this.config.enableContextLoading) {
-        context = await this.loadContext(query);
-        console.log(`🔍 [Orchestrator][${requestId}] Loaded context`);
+    let lastCheckpointId = previousCheckpointId;
+    const result = await this.workflowExecutor.execute(
+      this.buildWorkflow(emitProgress, startTime),
+      initialState,
+      {
+        startNode,
+        onNodeComplete: async (node, state, nextNode) => {
+          lastCheckpointId = await this.saveCheckpoint(state, node, nextNode, lastCheckpointId);
+        },
       }
-      const contextLoadingDuration = Date.now() - phaseStartTimes.contextLoading;
-
-      // 2. Generate execution plan
-      emitProgress('planning', 20, 'Generating execution plan...');
-      phaseStartTimes.planning = Date.now();
-      console.log(`🗺️  [Orchestrator][${requestId}] Planning...`);
-      const plan = await this.planner.plan(query, context);
-      console.log(`✅ [Orchestrator][${requestId}] Plan generated: ${plan.steps.length} steps`);
-      const planningDuration = Date.now() - phaseStartTimes.planning;
-
-      // 3. Execute plan
-      emitProgress('executing', 40, `Executing plan with ${plan.steps.length} steps...`);
-      phaseStartTimes.execution = Date.now();
-      console.log(`⚡ [Orchestrator][${requestId}] Executing plan...`);
-      
-      // Create executor progress callback
-      const executorProgress = (stepIndex: number, total: number, stepName: string) => {
-        const stepProgress = 40 + Math.floor((stepIndex / total) * 30);
-        emitProgress('executing', stepProgress, `Executing step ${stepIndex}/${total}: ${stepName}`);
-      };
-      
-      const results = await this.executor.execute(plan, executorProgress);
-      console.log(`✅ [Orchestrator][${requestId}] Execution complete. Results: ${results.length}`);
-      const executionDuration = Date.now() - phaseStartTimes.execution;
-
-      // 4. Analyze results
-      emitProgress('analyzing', 70, 'Analyzing results...');
-      phaseStartTimes.analysis = Date.now();
-      console.log(`📊 [Orchestrator][${requestId}] Analyzing results...`);
-      const analysis = await this.analyzer.analyze(results);
-      console.log(`✅ [Orchestrator][${requestId}] Analysis complete`);
-      const analysisDuration = Date.now() - phaseStartTimes.analysis;
-
-      // 5. Generate summary
-      emitProgress('summarizing', 85, 'Generating summary...');
-      phaseStartTimes.summarization = Date.now();
-      console.log(`📝 [Orchestrator][${requestId}] Generating summary...`);
-      const toolsUsed = results.map(r => r.tool);
-      const response = await this.summarizer.summarize(
-        query,
-        analysis,
-        toolsUsed
-      );
-      const summarizationDuration = Date.now() - phaseStartTimes.summarization;
+    );
 
-      // 6. Store in memory (if enabled)
-      emitProgress('storing', 95, 'Storing in memory...');
-      if (this.config.enableMemory) {
-        await this.storeInMemory({
-          requestId,
-          query,
-          plan,
-          results,
-          analysis,
-          response,
-        });
-      }
+    const finalState = result.finalState;
 
-      // 7. Update metadata
-      const totalDuration = Date.now() - startTime;
-      response.metadata = {
-        request_id: requestId,
-        total_duration_ms: totalDuration,
-        timestamp: new Date().toISOString(),
-      };
+    if (result.status === 'completed' && finalState.response) {
+      const response = finalState.response;
 
-      // 8. Track performance metrics
+      // Track performance metrics
       this.trackPerformanceMetrics({
         requestId,
-        totalDuration,
-        planningDuration,
-        executionDuration,
-        analysisDuration,
-        summarizationDuration,
-        contextLoadingDuration,
-        results,
+        totalDuration: response.metadata.total_duration_ms,
+        planningDuration: finalState.durations.planning,
+        executionDuration: finalState.durations.execution,
+        analysisDuration: finalState.durations.analysis,
+        summarizationDuration: finalState.durations.summarization,
+        contextLoadingDuration: finalState.durations.contextLoading,
+        results: finalState.results || [],
         success: true
       });
 
-      emitProgress('complete', 100, 'Query processing complete!');
-      console.log(`✅ [Orchestrator][${requestId}] Complete in ${response.metadata.total_duration_ms}ms`);
-
-      return response;
+      if (finalState.clarification) {
+        emitProgress('clarification', 100, 'Waiting for clarification');
+        console.log(`❓ [Orchestrator][${requestId}] Waiting for clarification`);
+      } else {
+        emitProgress('complete', 100, 'Query processing complete!');
+        console.log(`✅ [Orchestrator][${requestId}] Complete in ${response.metadata.total_duration_ms}ms`);
+      }
 
-    } catch (error: any) {
-      console.error(`[OrchestratorAgent][${requestId}] Error:`, error);
+      return { response, state: finalState };
+    }
 
-      // Track performance metrics for failed request
-      const totalDuration = Date.now() - startTime;
-      this.trackPerformanceMetrics({
-        requestId,
-        totalDuration,
-        planningDuration: 0,
-        executionDuration: 0,
-        analysisDuration: 0,
-        summarizationDuration: 0,
-        contextLoadingDuration: 0,
-        results: [],
-        success: false
-      });
+    // A cancelled run hasn't failed: hand the cancellation to the caller
+    // instead of answering with an error and remembering it as one
+    const signal = getCurrentSignal();
+    const cause = result.error?.cause;
+    if (signal?.aborted || isCancellationError(cause)) {
+      console.log(`🛑 [Orchestrator][${requestId}] Cancelled in '${result.error?.node}'`);
+      throw cause instanceof CancellationError ? cause : new CancellationError(requestId, signal?.reason?.message);
+    }
 
-      // Store error in memory for learning
-      if (this.config.enableMemory) {
-        await this.memory.storeEpisodic({
-          id: requestId,
-          type: 'error',
-          timestamp: new Date().toISOString(),
-          data: {
-            query,
-            error: {
-              message: error.message,
-              stack: error.stack,
-            },
+    const errorMessage = result.error?.message || `Workflow ended with status: ${result.status}`;
+    console.error(`[OrchestratorAgent][${requestId}] Error in '${result.error?.node}':`, errorMessage);
+
+    // Track performance metrics for failed request
+    const totalDuration = Date.now() - startTime;
+    this.trackPerformanceMetrics({
+      requestId,
+      totalDuration,
+      planningDuration: 0,
+      executionDuration: 0,
+      analysisDuration: 0,
+      summarizationDuration: 0,
+      contextLoadingDuration: 0,
+      results: [],
+      success: false
+    });
+
+    // Store error in memory for learning
+    if (this.config.enableMemory) {
+      await this.memory.storeEpisodic({
+        id: requestId,
+        type: 'error',
+        timestamp: new Date().toISOString(),
+        data: {
+          query,
+          error: {
+            message: errorMessage,
+            phase: result.error?.node,
           },
-        });
-      }
+        },
+      });
+    }
 
-      // Return error response
-      return {
-        message: `I encountered an error processing your request: ${error.message}`,
+    // Return error response
+    return {
+      response: {
+        message: `I encountered an error processing your request: ${errorMessage}`,
         tools_used: [],
         metadata: {
           request_id: requestId,
@@ -214,7 +367,322 @@ export class OrchestratorAgent {
           timestamp: new Date().toISOString(),
           error: true,
         },
+      },
+      state: finalState,
+    };
+  }
+
+  /**
+   * Build the pipeline graph: context → plan → execute → analyze → summarize → store
+   */
+  private buildWorkflow(
+    emitProgress: EmitProgress,
+    startTime: number
+  ): WorkflowGraph<OrchestratorState> {
+    return new GraphBuilder<OrchestratorState>()
+      .addNode('load_context', async (state) => {
+        // 1. Load relevant context from memory (if enabled)
+        emitProgress('context-loading', 10, 'Loading relevant context...');
+        const phaseStart = Date.now();
+        let context: any = {};
+        if (this.config.enableMemory && this.config.enableContextLoading) {
+          context = await this.loadContext(state.query);
+          console.log(`🔍 [Orchestrator][${state.requestId}] Loaded context`);
+        }
+        if (state.conversation) {
+          context = { ...context, conversation: state.conversation };
+        }
+        return {
+          ...state,
+          context,
+          durations: { ...state.durations, contextLoading: Date.now() - phaseStart },
+        };
+      })
+      .addNode('plan', async (state) => {
+        // 2. Generate execution plan
+        emitProgress('planning', 20, 'Generating execution plan...');
+        const phaseStart = Date.now();
+        console.log(`🗺️  [Orchestrator][${state.requestId}] Planning...`);
+        let plan: Plan;
+        try {
+          plan = await this.planner.plan(state.query, state.context || {});
+        } catch (error) {
+          if (!(error instanceof ClarificationNeededError)) {
+            throw error;
+          }
+          // End the run with the question; answerClarification plans again
+          return {
+            ...state,
+            clarification: error.clarification,
+            response: {
+              message: error.clarification.content,
+              tools_used: [],
+              clarification: error.clarification,
+              metadata: {
+                request_id: state.requestId,
+                total_duration_ms: Date.now() - startTime,
+                timestamp: new Date().toISOString(),
+              },
+            },
+            durations: { ...state.durations, planning: Date.now() - phaseStart },
+          };
+        }
+        console.log(`✅ [Orchestrator][${state.requestId}] Plan generated: ${plan.steps.length} steps`);
+        await this.recordPlan(state.requestId, () =>
+          this.planRecorder?.savePlan(state.requestId, state.query, plan, state.context)
+        );
+        return {
+          ...state,
+          plan,
+          durations: { ...state.durations, planning: Date.now() - phaseStart },
+        };
+      })
+      .addNode('execute', async (state) => {
+        // 3. Execute plan
+        const plan = this.requireState(state, 'plan');
+        emitProgress('executing', 40, `Executing plan with ${plan.steps.length} steps...`);
+        const phaseStart = Date.now();
+        console.log(`⚡ [Orchestrator][${state.requestId}] Executing plan...`);
+
+        // Create executor progress callback
+        const executorProgress = (stepIndex: number, total: number, stepName: string) => {
+          const stepProgress = 40 + Math.floor((stepIndex / total) * 30);
+          emitProgress('executing', stepProgress, `Executing step ${stepIndex}/${total}: ${stepName}`);
+        };
+
+        const results = await this.executor.execute(plan, executorProgress, {
+          requestId: state.requestId,
+        });
+        console.log(`✅ [Orchestrator][${state.requestId}] Execution complete. Results: ${results.length}`);
+        return {
+          ...state,
+          results,
+          durations: { ...state.durations, execution: Date.now() - phaseStart },
+        };
+      })
+      .addNode('replan', async (state) => {
+        // 3b. Repair failed steps with bounded replanning rounds
+        const results = this.requireState(state, 'results');
+        const phaseStart = Date.now();
+        const { results: repairedResults, replans } = await this.repairFailedSteps(state, results, emitProgress);
+        return {
+          ...state,
+          results: repairedResults,
+          replans,
+          durations: { ...state.durations, execution: state.durations.execution + Date.now() - phaseStart },
+        };
+      })
+      .addNode('analyze', async (state) => {
+        // 4. Analyze results
+        const results = this.requireState(state, 'results');
+        emitProgress('analyzing', 70, 'Analyzing results...');
+        const phaseStart = Date.now();
+        console.log(`📊 [Orchestrator][${state.requestId}] Analyzing results...`);
+        const analysis = await this.analyzer.analyze(results);
+        console.log(`✅ [Orchestrator][${state.requestId}] Analysis complete`);
+        return {
+          ...state,
+          analysis,
+          durations: { ...state.durations, analysis: Date.now() - phaseStart },
+        };
+      })
+      .addNode('summarize', async (state) => {
+        // 5. Generate summary
+        const results = this.requireState(state, 'results');
+        const analysis = this.requireState(state, 'analysis');
+        emitProgress('summarizing', 85, 'Generating summary...');
+        const phaseStart = Date.now();
+        console.log(`📝 [Orchestrator][${state.requestId}] Generating summary...`);
+        const toolsUsed = results.map(r => r.tool);
+        const summarize = () => this.summarizer.summarize(state.query, analysis, toolsUsed);
+        const response = this.config.onSummaryChunk
+          ? await streamSummary(state.requestId, this.config.onSummaryChunk, summarize)
+          : await summarize();
+        return {
+          ...state,
+          response,
+          durations: { ...state.durations, summarization: Date.now() - phaseStart },
+        };
+      })
+      .addNode('store', async (state) => {
+        // 6. Store in memory (if enabled)
+        const response = this.requireState(state, 'response');
+        emitProgress('storing', 95, 'Storing in memory...');
+        if (this.config.enableMemory) {
+          await this.storeInMemory({
+            requestId: state.requestId,
+            query: state.query,
+            plan: state.plan,
+            results: state.results,
+            analysis: state.analysis,
+            response,
+          });
+        }
+
+        // 7. Update metadata
+        return {
+          ...state,
+          response: {
+            ...response,
+            metadata: {
+              request_id: state.requestId,
+              total_duration_ms: Date.now() - startTime,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        };
+      })
+      .addEdge('load_context', 'plan')
+      // No edge for 'clarify': the run ends until the user answers
+      .addConditionalEdge('plan', (state) => state.clarification ? 'clarify' : 'execute', {
+        execute: 'execute',
+      })
+      .addConditionalEdge('execute', (state) => this.shouldReplan(state) ? 'replan' : 'analyze', {
+        replan: 'replan',
+        analyze: 'analyze',
+      })
+      .addEdge('replan', 'analyze')
+      .addEdge('analyze', 'summarize')
+      .addEdge('summarize', 'store')
+      .setEntryPoint('load_context')
+      .build();
+  }
+
+  /**
+   * Replan only when steps failed and the planner supports repair plans
+   */
+  private shouldReplan(state: OrchestratorState): boolean {
+    return (
+      this.config.maxReplanRounds > 0 &&
+      typeof this.planner.replan === 'function' &&
+      (state.results || []).some(r => !r.success)
+    );
+  }
+
+  /**
+   * Send failed steps back to the planner and execute its repair plans,
+   * until nothing fails, the planner gives up or the round limit is reached
+   */
+  private async repairFailedSteps(
+    state: OrchestratorState,
+    initialResults: ToolResult[],
+    emitProgress: EmitProgress
+  ): Promise<{ results: ToolResult[]; replans: ReplanRound[] }> {
+    const replans = [...(state.replans || [])];
+    let results = initialResults;
+    let currentPlan = replans[replans.length - 1]?.repair_plan ?? this.requireState(state, 'plan');
+
+    while (replans.length < this.config.maxReplanRounds) {
+      const failed = results.filter(r => !r.success);
+      if (failed.length === 0) {
+        break;
+      }
+
+      const roundNumber = replans.length + 1;
+      emitProgress('replanning', 70, `Replanning ${failed.length} failed step(s) (round ${roundNumber}/${this.config.maxReplanRounds})...`);
+      console.log(`🔁 [Orchestrator][${state.requestId}] Replanning round ${roundNumber}: ${failed.length} failed step(s)`);
+
+      let repairPlan: Plan;
+      try {
+        repairPlan = await this.planner.replan!(state.query, currentPlan, results, state.context || {});
+      } catch (error: any) {
+        // Analyze what we have rather than failing the whole request
+        console.error(`[OrchestratorAgent][${state.requestId}] Replanning failed:`, error.message);
+        break;
+      }
+
+      const round: ReplanRound = {
+        round: roundNumber,
+        failed_steps: failed.map(r => ({
+          step_index: r.step_index ?? -1,
+          tool: r.tool,
+          params: r.resolved_params || {},
+          error: r.error || { code: 'UNKNOWN', message: 'Step failed' },
+        })),
+        repair_plan: repairPlan,
+        succeeded: 0,
+        failed: 0,
+        timestamp: new Date().toISOString(),
       };
+
+      if (repairPlan.steps.length > 0) {
+        const repairResults = await this.executor.execute(repairPlan, undefined, {
+          requestId: state.requestId,
+        });
+        round.succeeded = repairResults.filter(r => r.success).length;
+        round.failed = repairResults.length - round.succeeded;
+
+        // Keep what already worked; the repair results replace the failures
+        results = [...results.filter(r => r.success), ...repairResults];
+        currentPlan = repairPlan;
+      }
+
+      replans.push(round);
+      console.log(`✅ [Orchestrator][${state.requestId}] Replanning round ${roundNumber}: ${round.succeeded} repaired, ${round.failed} still failing`);
+      await this.recordPlan(state.requestId, () =>
+        this.planRecorder?.appendReplanRound(state.requestId, round)
+      );
+
+      if (repairPlan.steps.length === 0) {
+        break;
+      }
+    }
+
+    return { results, replans };
+  }
+
+  /**
+   * Record plan history without failing the request
+   */
+  private async recordPlan(requestId: string, operation: () => Promise<unknown> | undefined): Promise<void> {
+    try {
+      await operation();
+    } catch (error: any) {
+      console.error(`[OrchestratorAgent][${requestId}] Failed to record plan history:`, error.message);
+    }
+  }
+
+  /**
+   * Get a value an earlier phase should have produced
+   */
+  private requireState<K extends 'plan' | 'results' | 'analysis' | 'response'>(
+    state: OrchestratorState,
+    key: K
+  ): NonNullable<OrchestratorState[K]> {
+    const value = state[key];
+    if (value === undefined || value === null) {
+      throw new Error(`Missing '${key}' in workflow state for request ${state.requestId}`);
+    }
+    return value as NonNullable<OrchestratorState[K]>;
+  }
+
+  /**
+   * Checkpoint the state after a phase, replacing the previous checkpoint.
+   * Returns the ID of the checkpoint that is now current.
+   */
+  private async saveCheckpoint(
+    state: OrchestratorState,
+    completedNode: string,
+    nextNode: string | null,
+    previousCheckpointId?: string
+  ): Promise<string | undefined> {
+    try {
+      const checkpoint = await this.checkpoints.createCheckpoint(
+        state.requestId,
+        completedNode,
+        state,
+        { nextNode }
+      );
+
+      if (previousCheckpointId) {
+        await this.checkpoints.deleteCheckpoint(previousCheckpointId);
+      }
+
+      return checkpoint.id;
+    } catch (error: any) {
+      // Don't fail the request if checkpointing fails
+      console.error(`[OrchestratorAgent] Failed to checkpoint after '${completedNode}':`, error.message);
+      return previousCheckpointId;
     }
   }
 
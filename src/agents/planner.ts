@@ -3,18 +3,37 @@
  * Converts natural language queries into structured, executable plans
  */
 
-import { Plan, Intent } from '../shared/types/agent.js';
+import { Plan, Intent, ToolResult } from '../shared/types/agent.js';
+import { z } from 'zod';
 import { LLMProvider } from '../shared/llm/provider.js';
-import { PlanSchema } from '../shared/validation/schemas.js';
+import { extractJSON } from '../shared/llm/structured-output.js';
+import { LLMResponse, LLMResponseFormat } from '../shared/types/llm.js';
+import { PlanSchema, PlanStepSchema } from '../shared/validation/schemas.js';
 import { ToolRegistry } from '../shared/tool-registry.js';
 import { IntentRecognizer } from './planner/intent-recognizer.js';
 import { PlanValidator } from './planner/plan-validator.js';
 import { ToolRelationshipManager } from './planner/tool-relationships.js';
+import { ClarificationChecker, ToolRegistryOptionsSource } from './planner/clarification-checker.js';
+import { ClarificationNeededError } from '../shared/utils/errors.js';
+
+const PLAN_FORMAT: LLMResponseFormat = {
+  name: 'plan',
+  schema: PlanSchema,
+  description: 'Tool calls that answer the query',
+};
+
+// A repair plan with no steps means the failures can't be repaired
+const REPAIR_PLAN_FORMAT: LLMResponseFormat = {
+  name: 'repair_plan',
+  schema: PlanSchema.extend({ steps: z.array(PlanStepSchema) }),
+  description: 'Replacement tool calls for the failed steps',
+};
 
 export interface PlannerConfig {
   temperature: number;
   maxRetries: number;
   validateToolAvailability: boolean;
+  enableClarification: boolean; // Ask instead of planning when the query is too vague
 }
 
 export class PlannerAgent {
@@ -23,6 +42,7 @@ export class PlannerAgent {
   private intentRecognizer: IntentRecognizer;
   private planValidator: PlanValidator;
   private toolRelationshipManager: ToolRelationshipManager;
+  private clarificationChecker: ClarificationChecker;
   private enableEnhancedPlanner: boolean;
 
   constructor(
@@ -34,6 +54,7 @@ export class PlannerAgent {
       temperature: 0.1, // Low temperature for deterministic planning
       maxRetries: 3,
       validateToolAvailability: true,
+      enableClarification: process.env.ENABLE_CLARIFICATION !== 'false',
       ...config,
     };
 
@@ -41,6 +62,7 @@ export class PlannerAgent {
     this.intentRecognizer = new IntentRecognizer();
     this.planValidator = new PlanValidator(this.toolRegistry);
     this.toolRelationshipManager = new ToolRelationshipManager();
+    this.clarificationChecker = new ClarificationChecker(new ToolRegistryOptionsSource(this.toolRegistry));
     this.enableEnhancedPlanner = process.env.ENABLE_ENHANCED_PLANNER === 'true';
 
     // Cache available tools from registry
@@ -72,13 +94,21 @@ export class PlannerAgent {
   async plan(query: string, context?: any): Promise<Plan> {
     console.log('[PlannerAgent] Planning for query:', query);
 
-    let intent: Intent | undefined;
+    // Step 1: Recognize intent
+    const intent: Intent = await this.intentRecognizer.recognizeIntent(query);
+
+    // Ask instead of guessing when the query is too vague to plan
+    if (this.config.enableClarification) {
+      const clarification = await this.clarificationChecker.check(query, intent, context);
+      if (clarification) {
+        console.log(`[PlannerAgent] Needs clarification (${clarification.metadata?.reason}):`, clarification.content);
+        throw new ClarificationNeededError(clarification);
+      }
+    }
 
     // Enhanced planning with intent recognition and validation
     if (this.enableEnhancedPlanner) {
       try {
-        // Step 1: Recognize intent
-        intent = await this.intentRecognizer.recognizeIntent(query);
         console.log('[PlannerAgent] Recognized intent:', intent);
 
         // Step 2: Generate plan using enhanced approach
@@ -126,6 +156,8 @@ export class PlannerAgent {
     if (context && Object.keys(context).length > 0) {
       userPrompt += `\n\nContext: ${JSON.stringify(context, null, 2)}`;
     }
+    userPrompt += this.buildConversationGuidance(context);
+    userPrompt += this.buildClarificationGuidance(context);
 
     // Call LLM with enhanced prompt
     let attempts = 0;
@@ -141,10 +173,11 @@ export class PlannerAgent {
             temperature: this.config.temperature,
             max_tokens: 1500, // Increased for more detailed plans
           },
+          response_format: PLAN_FORMAT,
         });
 
         // Extract JSON from response
-        const planJson = this.extractJSON(response.content);
+        const planJson = this.readPlanJSON(response);
 
         // Validate plan structure
         const plan = PlanSchema.parse(planJson);
@@ -180,6 +213,8 @@ export class PlannerAgent {
     if (context && Object.keys(context).length > 0) {
       userPrompt += `\n\nContext: ${JSON.stringify(context, null, 2)}`;
     }
+    userPrompt += this.buildConversationGuidance(context);
+    userPrompt += this.buildClarificationGuidance(context);
 
     // Call LLM to generate plan
     let attempts = 0;
@@ -195,10 +230,11 @@ export class PlannerAgent {
             temperature: this.config.temperature,
             max_tokens: 1000,
           },
+          response_format: PLAN_FORMAT,
         });
 
         // Extract JSON from response
-        const planJson = this.extractJSON(response.content);
+        const planJson = this.readPlanJSON(response);
 
         // Validate plan
         const plan = PlanSchema.parse(planJson);
@@ -230,6 +266,137 @@ export class PlannerAgent {
     throw new Error('Failed to generate plan');
   }
 
+  /**
+   * Generate a repair plan covering only the steps that failed.
+   * Returns a plan with no steps when the planner decides the failures can't be repaired.
+   */
+  async replan(query: string, plan: Plan, results: ToolResult[], context?: any): Promise<Plan> {
+    const failed = results.filter(r => !r.success);
+    console.log(`[PlannerAgent] Replanning ${failed.length} failed step(s) for query:`, query);
+
+    const systemPrompt = this.buildSystemPrompt();
+    let userPrompt = this.buildRepairPrompt(query, plan, results);
+    if (context && Object.keys(context).length > 0) {
+      userPrompt += `\n\nContext: ${JSON.stringify(context, null, 2)}`;
+    }
+
+    let attempts = 0;
+
+    while (attempts < this.config.maxRetries) {
+      try {
+        const response = await this.llm.generate({
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          config: {
+            temperature: this.config.temperature,
+            max_tokens: 1000,
+          },
+          response_format: REPAIR_PLAN_FORMAT,
+        });
+
+        const planJson = this.readPlanJSON(response);
+
+        // An empty plan means nothing can be repaired
+        if (Array.isArray(planJson?.steps) && planJson.steps.length === 0) {
+          console.log('[PlannerAgent] Planner found no repair for the failed steps');
+          return { steps: [] };
+        }
+
+        const repairPlan = PlanSchema.parse(planJson);
+
+        if (this.config.validateToolAvailability) {
+          this.validateToolsAvailable(repairPlan);
+        }
+
+        console.log(`[PlannerAgent] Repair plan generated: ${repairPlan.steps.length} steps`);
+        return repairPlan;
+
+      } catch (error: any) {
+        attempts++;
+        console.error(`[PlannerAgent] Replan attempt ${attempts}/${this.config.maxRetries} failed:`, error.message);
+
+        if (attempts >= this.config.maxRetries) {
+          throw new Error(`Failed to generate repair plan after ${attempts} attempts: ${error.message}`);
+        }
+
+        userPrompt += `\n\n[Previous attempt failed: ${error.message}. Please fix and try again.]`;
+      }
+    }
+
+    throw new Error('Failed to generate repair plan');
+  }
+
+  /**
+   * Tell the LLM how to use conversation context for follow-up queries
+   */
+  private buildConversationGuidance(context?: any): string {
+    const conversation = context?.conversation;
+    if (!conversation) {
+      return '';
+    }
+
+    let guidance = `\n\nThis query is part of a conversation (intent: ${conversation.intent}).`;
+    if (conversation.previousQuery) {
+      guidance += `\nPrevious query: ${conversation.previousQuery}`;
+    }
+    guidance += `\nIf the query refers to earlier results ("them", "those", "only the rejected ones"), ` +
+      `reuse the filters of the previous query and narrow them, or use IDs from context.conversation.previousResults.`;
+    return guidance;
+  }
+
+  private buildClarificationGuidance(context?: any): string {
+    const clarification = context?.clarification;
+    if (!clarification) {
+      return '';
+    }
+
+    return `\n\nThe query was too vague, so the user was asked: ${clarification.question}` +
+      `\nTheir answer: ${clarification.answer}` +
+      `\nUse the answer to fill in what the query left out (facility, date range, or what to look up).`;
+  }
+
+  private buildRepairPrompt(query: string, plan: Plan, results: ToolResult[]): string {
+    const succeeded = results
+      .filter(r => r.success)
+      .map(r => ({
+        step: r.step_index,
+        tool: r.tool,
+        params: r.resolved_params,
+        // Keep the prompt small - the planner only needs IDs and shapes
+        data: truncateData(r.data ?? null, 1500),
+      }));
+
+    const failed = results
+      .filter(r => !r.success)
+      .map(r => ({
+        step: r.step_index,
+        tool: r.tool,
+        params: r.resolved_params,
+        error: r.error,
+      }));
+
+    return `Query: ${query}
+
+The original plan was executed but some steps failed.
+
+ORIGINAL PLAN:
+${JSON.stringify(plan.steps, null, 2)}
+
+SUCCESSFUL STEPS (do NOT repeat these):
+${JSON.stringify(succeeded, null, 2)}
+
+FAILED STEPS:
+${JSON.stringify(failed, null, 2)}
+
+Create a REPAIR plan that covers ONLY what the failed steps were meant to provide.
+- Fix the cause shown in each error (wrong parameters, wrong tool, missing IDs)
+- Use literal values from the successful steps instead of referencing them
+- Step references (\${step[N]...}) and depends_on refer to steps of the repair plan
+- If the failures cannot be repaired, return {"steps": []}`;
+  }
+
   private buildEnhancedSystemPrompt(intent: Intent): string {
     const basePrompt = this.buildSystemPrompt();
 
@@ -721,25 +888,9 @@ RESPONSE FORMAT (JSON only):
 }`;
   }
 
-  private extractJSON(content: string): any {
-    // Try to parse as-is first
-    try {
-      return JSON.parse(content);
-    } catch (e) {
-      // Try to extract JSON from markdown code blocks
-      const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-      if (jsonMatch && jsonMatch[1]) {
-        return JSON.parse(jsonMatch[1]);
-      }
-
-      // Try to find JSON object in text
-      const objectMatch = content.match(/\{[\s\S]*\}/);
-      if (objectMatch && objectMatch[0]) {
-        return JSON.parse(objectMatch[0]);
-      }
-
-      throw new Error('Could not extract valid JSON from response');
-    }
+  private readPlanJSON(response: LLMResponse): any {
+    // The provider has already validated structured output against the schema
+    return response.parsed ?? extractJSON(response.content);
   }
 
   private validateToolsAvailable(plan: Plan): void {
@@ -925,3 +1076,7 @@ RESPONSE FORMAT (JSON only):
 
 }
 
+function truncateData(data: any, maxLength: number): any {
+  const json = JSON.stringify(data);
+  return json.length > maxLength ? `${json.slice(0, maxLength)}...` : data;
+}
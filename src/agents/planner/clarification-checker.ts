@@ -0,0 +1,210 @@
+/**
+ * Clarification Checker
+ * Decides when a query is too vague to plan and builds the question to ask instead
+ */
+
+import { Intent } from '../../shared/types/agent.js';
+import { ToolRegistry } from '../../shared/tool-registry.js';
+import { AgentResponse, ResponseBuilder } from '../../shared/response/builder.js';
+
+export type MissingParam = 'facility' | 'date_range';
+
+export type ClarificationReason = 'low_confidence' | 'missing_params';
+
+/**
+ * The user's answer to a clarification question (context.clarification when replanning)
+ */
+export interface ClarificationAnswer {
+  question: string;
+  answer: string;
+}
+
+/**
+ * Where suggested options come from
+ */
+export interface ClarificationOptionsSource {
+  getFacilityNames(limit: number): Promise<string[]>;
+  getProducerNames(limit: number): Promise<string[]>;
+}
+
+/**
+ * Reads facility and producer names through the list tools
+ */
+export class ToolRegistryOptionsSource implements ClarificationOptionsSource {
+  constructor(private toolRegistry: Pick<ToolRegistry, 'getToolInstance'>) {}
+
+  async getFacilityNames(limit: number): Promise<string[]> {
+    return this.listNames('facilities_list', limit);
+  }
+
+  async getProducerNames(limit: number): Promise<string[]> {
+    return this.listNames('waste_producers_list', limit);
+  }
+
+  private async listNames(toolName: string, limit: number): Promise<string[]> {
+    try {
+      const tool = this.toolRegistry.getToolInstance(toolName);
+      if (!tool) {
+        return [];
+      }
+
+      const result = await tool.execute({ limit });
+      if (!result.success || !Array.isArray(result.data)) {
+        return [];
+      }
+
+      return result.data
+        .map((item: any) => item?.name)
+        .filter((name: any): name is string => typeof name === 'string' && name.length > 0);
+    } catch (error: any) {
+      // Suggestions are best-effort - ask without them
+      console.warn(`[ClarificationChecker] Failed to load options from ${toolName}:`, error.message);
+      return [];
+    }
+  }
+}
+
+export interface ClarificationCheckerConfig {
+  confidenceThreshold: number; // Ask when intent confidence is below this (0 disables)
+  maxOptions: number;
+}
+
+// "the facility", "this facility" - a single facility the query doesn't name
+const SINGLE_FACILITY_PATTERN = /\b(the|this|that|a|my|our|which)\s+facility\b/i;
+const FACILITY_ID_PATTERN = /\b(fac|f)[-_]?\d+\b|\b[0-9a-f]{24}\b/i;
+
+// Queries about a period of time
+const PERIOD_PATTERN = /\b(trends?|over time|report|historical|between|period)\b/i;
+const TIME_PATTERN = new RegExp(
+  [
+    '\\b(today|yesterday|tonight|ytd)\\b',
+    '\\b(this|last|past|previous|next)\\s+(\\d+\\s+)?(days?|weeks?|months?|quarters?|years?)\\b',
+    '\\b\\d{4}-\\d{2}(-\\d{2})?\\b',
+    '\\b(since|until)\\s+\\S+',
+    '\\bq[1-4]\\b',
+    '\\b(january|february|march|april|may|june|july|august|september|october|november|december)\\b',
+  ].join('|'),
+  'i'
+);
+
+// Anything the tools can look up - the recognizer only knows singular entity names
+const DOMAIN_PATTERN = /\b(shipments?|facilit(y|ies)|contaminants?|contamination|inspections?|producers?|contracts?|loads?|waste|analytics|reports?|compositions?)\b/i;
+
+const DATE_RANGE_OPTIONS = ['today', 'this week', 'last 30 days', 'this year'];
+
+export class ClarificationChecker {
+  private config: ClarificationCheckerConfig;
+
+  constructor(
+    private optionsSource: ClarificationOptionsSource,
+    config?: Partial<ClarificationCheckerConfig>
+  ) {
+    this.config = {
+      confidenceThreshold: parseFloat(process.env.CLARIFICATION_CONFIDENCE_THRESHOLD || '0.4'),
+      maxOptions: 5,
+      ...config,
+    };
+  }
+
+  /**
+   * Return a clarification question when the query can't be planned as is,
+   * or null when planning can go ahead
+   */
+  async check(query: string, intent: Intent, context?: any): Promise<AgentResponse | null> {
+    // Ask once - an answered question is planned with whatever the user gave
+    if (context?.clarification) {
+      return null;
+    }
+
+    // Follow-ups are resolved against the previous turn instead
+    if (context?.conversation?.previousQuery) {
+      return null;
+    }
+
+    const missing = await this.findMissingParams(query, intent);
+    if (missing.length > 0) {
+      return this.askForParams(query, intent, missing);
+    }
+
+    if (intent.confidence < this.config.confidenceThreshold && !DOMAIN_PATTERN.test(query)) {
+      return this.askToRephrase(query, intent);
+    }
+
+    return null;
+  }
+
+  getConfig(): ClarificationCheckerConfig {
+    return { ...this.config };
+  }
+
+  private async findMissingParams(query: string, intent: Intent): Promise<MissingParam[]> {
+    const missing: MissingParam[] = [];
+
+    if (intent.type !== 'CREATE' && SINGLE_FACILITY_PATTERN.test(query) && !FACILITY_ID_PATTERN.test(query)) {
+      const names = await this.optionsSource.getFacilityNames(50);
+      const lower = query.toLowerCase();
+      if (!names.some(name => lower.includes(name.toLowerCase()))) {
+        missing.push('facility');
+      }
+    }
+
+    if (PERIOD_PATTERN.test(query) && !TIME_PATTERN.test(query)) {
+      missing.push('date_range');
+    }
+
+    return missing;
+  }
+
+  private async askForParams(query: string, intent: Intent, missing: MissingParam[]): Promise<AgentResponse> {
+    const suggestions: Partial<Record<MissingParam, string[]>> = {};
+    if (missing.includes('facility')) {
+      suggestions.facility = (await this.optionsSource.getFacilityNames(this.config.maxOptions))
+        .slice(0, this.config.maxOptions);
+    }
+    if (missing.includes('date_range')) {
+      suggestions.date_range = DATE_RANGE_OPTIONS;
+    }
+
+    const parts = missing.map(param => param === 'facility' ? 'which facility' : 'what date range');
+    const content = `To answer that I need to know ${parts.join(' and ')} you mean.`;
+
+    // Offer the options for the first missing param; all of them are in the metadata
+    const options = suggestions[missing[0]!] || [];
+    return this.build(content, options, query, intent, 'missing_params', missing, suggestions);
+  }
+
+  private async askToRephrase(query: string, intent: Intent): Promise<AgentResponse> {
+    const [facilities, producers] = await Promise.all([
+      this.optionsSource.getFacilityNames(2),
+      this.optionsSource.getProducerNames(2),
+    ]);
+
+    const options = [
+      ...facilities.map(name => `Show recent shipments to ${name}`),
+      ...producers.map(name => `Show contracts for ${name}`),
+    ].slice(0, this.config.maxOptions);
+
+    const content = "I'm not sure what you'd like me to look up. Could you say which shipments, facilities or producers you mean?";
+    return this.build(content, options, query, intent, 'low_confidence', [], {});
+  }
+
+  private build(
+    content: string,
+    options: string[],
+    query: string,
+    intent: Intent,
+    reason: ClarificationReason,
+    missing: MissingParam[],
+    suggestions: Partial<Record<MissingParam, string[]>>
+  ): AgentResponse {
+    const response = ResponseBuilder.question(content, options.length > 0 ? options : undefined);
+    response.confidence = intent.confidence;
+    response.metadata = {
+      reason,
+      missing,
+      suggestions,
+      originalQuery: query,
+    };
+    return response;
+  }
+}
@@ -425,7 +425,7 @@ export class PlanValidator {
     for (const entity of entities) {
       const entityLower = entity.toLowerCase();
       if (entityLower.includes('contract') || entityLower.includes('validation')) {
-        entityTools.push('contracts_list', 'contracts_get', 'shipments_validate_against_contract', 'contracts_get_with_producer');
+        entityTools.push('contracts_list', 'contracts_get', 'shipments_validate_against_contract', 'contracts_get_with_producer', 'contract_violations_list', 'contracts_usage');
       }
       if (entityLower.includes('producer') || entityLower.includes('compliance')) {
         entityTools.push('waste_producers_list', 'waste_producers_get', 'producers_get_compliance_report');
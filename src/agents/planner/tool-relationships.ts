@@ -180,6 +180,24 @@ export class ToolRelationshipManager {
       description: 'Validates shipments against contracts - requires contract and load data'
     });
 
+    this.relationships.set('contracts_usage', {
+      tool: 'contracts_usage',
+      complementaryTools: ['contracts_get', 'shipments_list'],
+      supportingTools: ['contracts_list'],
+      categories: ['contract-validation', 'compliance'],
+      intentTypes: ['READ', 'ANALYZE'],
+      description: 'Shows quota used, remaining and projected exhaustion - needs a contract id, e.g. from contracts_list'
+    });
+
+    this.relationships.set('contract_violations_list', {
+      tool: 'contract_violations_list',
+      complementaryTools: ['contracts_list', 'shipments_list'],
+      supportingTools: ['waste_producers_list', 'contracts_get'],
+      categories: ['contract-validation', 'compliance'],
+      intentTypes: ['READ', 'ANALYZE', 'REPORT'],
+      description: 'Lists violations recorded when shipments were checked against contracts at creation'
+    });
+
     this.relationships.set('contracts_get_with_producer', {
       tool: 'contracts_get_with_producer',
       complementaryTools: ['waste_producers_list', 'contracts_list'],
@@ -323,6 +341,16 @@ export class ToolRelationshipManager {
       intentTypes: ['READ', 'ANALYZE'],
       description: 'Lists contaminants - works with shipments and facilities'
     });
+
+    // Export Tools
+    this.relationships.set('data_export', {
+      tool: 'data_export',
+      complementaryTools: ['shipments_list', 'inspections_list'],
+      supportingTools: ['facilities_list'],
+      categories: ['shipment-management', 'inspection-management'],
+      intentTypes: ['READ', 'REPORT'],
+      description: 'Exports records as CSV or NDJSON with the same filters as the list tools - use when the user asks for a file or export'
+    });
   }
 
   /**
@@ -332,7 +360,7 @@ export class ToolRelationshipManager {
     this.categories.set('contract-validation', {
       name: 'contract-validation',
       description: 'Tools for validating shipments against contracts',
-      primaryTools: ['contracts_list', 'shipments_validate_against_contract', 'contracts_get_with_producer'],
+      primaryTools: ['contracts_list', 'shipments_validate_against_contract', 'contracts_get_with_producer', 'contract_violations_list'],
       supportingTools: ['shipment_loads_list', 'waste_producers_list', 'contracts_get'],
       requiredForIntents: ['VALIDATE', 'ANALYZE']
     });
@@ -8,6 +8,14 @@ import { ToolResult, Insight } from '../../../shared/types/agent.js';
 import { StrategyContext } from '../base-strategy.js';
 import { AnalyzerConfig } from '../../../shared/types/agent-config.js';
 import { LLMProvider } from '../../../shared/llm/provider.js';
+import { extractJSON } from '../../../shared/llm/structured-output.js';
+import { LLMResponse, LLMResponseFormat } from '../../../shared/types/llm.js';
+import { InsightListSchema } from '../../../shared/validation/schemas.js';
+
+const INSIGHTS_FORMAT: LLMResponseFormat = {
+  name: 'insights',
+  schema: InsightListSchema,
+};
 
 export class LLMBasedAnalysisStrategy extends BaseAnalysisStrategy {
   readonly name = 'llm-based';
@@ -78,16 +86,17 @@ export class LLMBasedAnalysisStrategy extends BaseAnalysisStrategy {
         { role: 'system', content: systemPrompt },
         {
           role: 'user',
-          content: `Step 3 - Analysis: Generate insights from these correlations:\n${correlationResponse.content}\n\nReturn JSON array of insights with type, description, confidence, and supporting_data.`
+          content: `Step 3 - Analysis: Generate insights from these correlations:\n${correlationResponse.content}\n\nReturn the insights with type, description, confidence, and supporting_data.`
         }
       ],
       config: {
         temperature: config.llmConfig.temperature,
         max_tokens: 1000
-      }
+      },
+      response_format: INSIGHTS_FORMAT
     });
 
-    return this.parseInsightsFromResponse(analysisResponse.content, config);
+    return this.parseInsightsFromResponse(analysisResponse, config);
   }
 
   private async analyzeWithDirectPrompt(results: ToolResult[], context: StrategyContext): Promise<Insight[]> {
@@ -99,40 +108,27 @@ export class LLMBasedAnalysisStrategy extends BaseAnalysisStrategy {
         { role: 'system', content: systemPrompt },
         {
           role: 'user',
-          content: `Analyze these tool results and generate insights:\n${JSON.stringify(results, null, 2)}\n\nReturn JSON array of insights with type, description, confidence, and supporting_data.`
+          content: `Analyze these tool results and generate insights:\n${JSON.stringify(results, null, 2)}\n\nReturn the insights with type, description, confidence, and supporting_data.`
         }
       ],
       config: {
         temperature: config.llmConfig.temperature,
         max_tokens: config.llmConfig.maxTokens
-      }
+      },
+      response_format: INSIGHTS_FORMAT
     });
 
-    return this.parseInsightsFromResponse(response.content, config);
+    return this.parseInsightsFromResponse(response, config);
   }
 
-  private parseInsightsFromResponse(response: string, config: AnalyzerConfig): Insight[] {
+  private parseInsightsFromResponse(response: LLMResponse, config: AnalyzerConfig): Insight[] {
     try {
-      // Extract JSON from response
-      let jsonStr = response.trim();
-      
-      // Remove markdown code blocks if present
-      if (jsonStr.startsWith('```json')) {
-        jsonStr = jsonStr.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      } else if (jsonStr.startsWith('```')) {
-        jsonStr = jsonStr.replace(/^```\s*/, '').replace(/\s*```$/, '');
-      }
-      
-      // Try to find JSON array in the response
-      const jsonMatch = jsonStr.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
-      }
-      
-      const insights = JSON.parse(jsonStr);
+      // The provider has already validated structured output against the schema
+      const parsed = response.parsed ?? extractJSON(response.content);
+      const insights = Array.isArray(parsed) ? parsed : parsed?.insights;
       
       if (!Array.isArray(insights)) {
-        throw new Error('Response is not an array');
+        throw new Error('Response has no insights array');
       }
 
       // Filter by confidence threshold
@@ -193,15 +189,17 @@ QUALITY CRITERIA:
 - No speculation without supporting evidence
 - Prioritize insights by severity and business impact
 
-Return JSON array of insights:
-[
-  {
-    "type": "contamination_pattern|capacity_risk|data_quality|compliance_risk|operational_efficiency",
-    "description": "Specific, actionable insight with clear business impact and supporting evidence",
-    "confidence": 0.0-1.0,
-    "supporting_data": [{"metric": "value", "entities": ["id1", "id2"], "context": "additional details"}]
-  }
-]`;
+Return insights as JSON:
+{
+  "insights": [
+    {
+      "type": "contamination_pattern|capacity_risk|data_quality|compliance_risk|operational_efficiency",
+      "description": "Specific, actionable insight with clear business impact and supporting evidence",
+      "confidence": 0.0-1.0,
+      "supporting_data": [{"metric": "value", "entities": ["id1", "id2"], "context": "additional details"}]
+    }
+  ]
+}`;
   }
 
   override validateConfig(config: any): boolean {
@@ -8,6 +8,14 @@ import { Analysis } from '../../../shared/types/agent.js';
 import { StrategyContext } from '../base-strategy.js';
 import { SummarizerConfig } from '../../../shared/types/agent-config.js';
 import { LLMProvider } from '../../../shared/llm/provider.js';
+import { generateStreamed } from '../../../shared/llm/token-stream.js';
+import { LLMResponseFormat } from '../../../shared/types/llm.js';
+import { KeyFindingsSchema } from '../../../shared/validation/schemas.js';
+
+const KEY_FINDINGS_FORMAT: LLMResponseFormat = {
+  name: 'key_findings',
+  schema: KeyFindingsSchema,
+};
 
 export class LLMBasedSummarizationStrategy extends BaseSummarizationStrategy {
   readonly name = 'llm-based';
@@ -57,7 +65,8 @@ export class LLMBasedSummarizationStrategy extends BaseSummarizationStrategy {
       config: {
         temperature: config.llmConfig.temperature,
         max_tokens: 800
-      }
+      },
+      response_format: KEY_FINDINGS_FORMAT
     });
 
     // Step 2: Prioritization
@@ -75,8 +84,8 @@ export class LLMBasedSummarizationStrategy extends BaseSummarizationStrategy {
       }
     });
 
-    // Step 3: Composition
-    const compositionResponse = await this.llm.generate({
+    // Step 3: Composition (streamed - this is what the user reads)
+    const compositionResponse = await generateStreamed(this.llm, {
       messages: [
         { role: 'system', content: systemPrompt },
         {
@@ -103,7 +112,7 @@ export class LLMBasedSummarizationStrategy extends BaseSummarizationStrategy {
 
     const userPrompt = this.buildUserPrompt(analysis, query, config);
 
-    const response = await this.llm.generate({
+    const response = await generateStreamed(this.llm, {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
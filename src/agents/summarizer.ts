@@ -5,8 +5,16 @@
 
 import { Analysis, FinalResponse, ReasoningStep, ValidationResult, ValidationIssue } from '../shared/types/agent.js';
 import { LLMProvider } from '../shared/llm/provider.js';
+import { LLMRequest, LLMResponseFormat } from '../shared/types/llm.js';
+import { generateStreamed } from '../shared/llm/token-stream.js';
+import { KeyFindingsSchema } from '../shared/validation/schemas.js';
 import { SUMMARIZER_MAX_REASONING_STEPS, CHAIN_OF_THOUGHT_TEMPERATURE } from '../shared/constants/config.js';
 
+const KEY_FINDINGS_FORMAT: LLMResponseFormat = {
+  name: 'key_findings',
+  schema: KeyFindingsSchema,
+};
+
 export interface SummarizerConfig {
   maxLength: number;
   format: 'plain' | 'markdown' | 'json';
@@ -71,7 +79,7 @@ Create a clear, direct response to the user's query.
         return await this.summarizeWithChainOfThought(query, analysis, toolsUsed);
       }
 
-      const response = await this.llm.generate({
+      const response = await generateStreamed(this.llm, {
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt },
@@ -253,7 +261,8 @@ Return ONLY the summary text, no preamble or meta-commentary.`;
         - Severity level and urgency
         - Business impact assessment
 
-        Return structured findings with priority rankings.`
+        Return structured findings with priority rankings.`,
+        { format: KEY_FINDINGS_FORMAT }
       );
       reasoningSteps.push(extractionStep);
 
@@ -349,7 +358,8 @@ Return ONLY the summary text, no preamble or meta-commentary.`;
         - Is the information complete and accurate?
         - Is it within length constraints?
 
-        Return the refined final summary.`
+        Return the refined final summary.`,
+        { stream: true }
       );
       reasoningSteps.push(refinementStep);
 
@@ -408,11 +418,15 @@ Return ONLY the summary text, no preamble or meta-commentary.`;
     stepNumber: number,
     description: string,
     input: any,
-    prompt: string
+    prompt: string,
+    options: {
+      stream?: boolean; // The final step is what the user reads
+      format?: LLMResponseFormat; // Steps that feed later steps can ask for JSON
+    } = {}
   ): Promise<ReasoningStep> {
     const startTime = new Date();
 
-    const response = await this.llm.generate({
+    const request: LLMRequest = {
       messages: [
         {
           role: 'system',
@@ -431,7 +445,12 @@ Return ONLY the summary text, no preamble or meta-commentary.`;
         temperature: CHAIN_OF_THOUGHT_TEMPERATURE,
         max_tokens: 1000,
       },
-    });
+      ...(options.format && { response_format: options.format }),
+    };
+
+    const response = options.stream
+      ? await generateStreamed(this.llm, request)
+      : await this.llm.generate(request);
 
     return {
       step_number: stepNumber,
@@ -1,5 +1,14 @@
 // MongoDB connection helper
-import mongoose from "mongoose";
+import { AsyncLocalStorage } from "async_hooks";
+import mongoose, { ClientSession } from "mongoose";
+
+// Queries run inside withTransaction pick up its session without passing it along
+mongoose.set("transactionAsyncLocalStorage", true);
+
+// Transactions need a replica set or a sharded cluster; a standalone server has none
+let transactions = false;
+
+const currentSession = new AsyncLocalStorage<ClientSession>();
 
 export async function connectDB(uri?: string): Promise<void> {
   // Check actual Mongoose connection state
@@ -23,6 +32,11 @@ export async function connectDB(uri?: string): Promise<void> {
   try {
     await mongoose.connect(mongoUri);
     console.log(`✓ Connected to MongoDB: ${mongoUri}`);
+    const hello = await mongoose.connection.db!.admin().command({ hello: 1 });
+    transactions = Boolean(hello.setName) || hello.msg === "isdbgrid";
+    if (!transactions) {
+      console.warn("MongoDB is standalone: changes, their audit entries and domain events are written without a transaction");
+    }
   } catch (error) {
     console.error("Failed to connect to MongoDB:", error);
     throw error;
@@ -36,6 +50,7 @@ export async function disconnectDB(): Promise<void> {
 
   try {
     await mongoose.disconnect();
+    transactions = false;
     console.log("✓ Disconnected from MongoDB");
   } catch (error) {
     console.error("Failed to disconnect from MongoDB:", error);
@@ -47,3 +62,31 @@ export function getConnectionStatus(): boolean {
   return mongoose.connection.readyState === 1;
 }
 
+
+/**
+ * Whether the connected server runs transactions (a replica set or sharded cluster)
+ */
+export function supportsTransactions(): boolean {
+  return transactions && mongoose.connection.readyState === 1;
+}
+
+/**
+ * The session of the withTransaction call this code runs in, if any
+ */
+export function currentTransaction(): ClientSession | undefined {
+  return currentSession.getStore();
+}
+
+/**
+ * Run a unit of work in one transaction, retried from the start on transient
+ * errors such as write conflicts with a concurrent change. Every query inside
+ * joins it, as do nested calls. The work may run more than once, so it must
+ * not have side effects outside the database. Without transactions (a
+ * standalone server) it just runs the work.
+ */
+export async function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  if (currentTransaction() || !supportsTransactions()) {
+    return work();
+  }
+  return mongoose.connection.transaction(session => currentSession.run(session, work));
+}
@@ -6,6 +6,13 @@ import { ContractModel } from "../models/Contract.js";
 import { WasteProducerModel } from "../models/WasteProducer.js";
 import { ShipmentCompositionModel } from "../models/ShipmentComposition.js";
 import { ShipmentLoadModel } from "../models/ShipmentLoad.js";
+import { ShipmentStatusHistoryModel } from "../models/ShipmentStatusHistory.js";
+import { FacilityOutflowModel } from "../models/FacilityOutflow.js";
+import { ContractViolationModel } from "../models/ContractViolation.js";
+import { ContractAlertModel } from "../models/ContractAlert.js";
+import { AuditEntryModel } from "../models/AuditEntry.js";
+import { OutboxEventModel } from "../models/OutboxEvent.js";
+import { WebhookDeliveryModel } from "../models/WebhookDelivery.js";
 import { generateFacilities, generateShipments, generateContaminants, generateInspections, generateWasteProducers, generateContracts, generateShipmentCompositions, generateShipmentLoads } from "./seed-generators.js";
 
 /**
@@ -20,6 +27,14 @@ export async function clearCollections() {
   await WasteProducerModel.deleteMany({});
   await ShipmentCompositionModel.deleteMany({});
   await ShipmentLoadModel.deleteMany({});
+  await ShipmentStatusHistoryModel.deleteMany({});
+  await FacilityOutflowModel.deleteMany({});
+  await ContractViolationModel.deleteMany({});
+  await ContractAlertModel.deleteMany({});
+  await AuditEntryModel.deleteMany({});
+  // Webhook subscriptions are configuration, so they survive a reset; their events and deliveries don't
+  await OutboxEventModel.deleteMany({});
+  await WebhookDeliveryModel.deleteMany({});
 }
 
 /**
@@ -0,0 +1,10 @@
+// Request actor - who a change is attributed to in the status history and audit log
+import { Request } from "express";
+
+// Who made a change: the authenticated caller, else the actor in the body, then the X-Actor header
+export function getActor(req: Request): string {
+  if (req.user && req.user.method !== "anonymous") {
+    return req.user.id;
+  }
+  return req.body?.actor || req.header("x-actor") || "api";
+}
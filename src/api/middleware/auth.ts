@@ -0,0 +1,42 @@
+// Authentication and role checks for API routes
+import { Request, Response, NextFunction } from "express";
+import { authenticate as authenticateCredentials } from "../../shared/auth/credentials.js";
+import { AuthIdentity, Role, hasRole } from "../../shared/auth/identity.js";
+import { PermissionDeniedError } from "../../shared/utils/errors.js";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthIdentity; // Set by authenticate
+    }
+  }
+}
+
+/**
+ * Resolve the caller from the X-API-Key or Authorization header into req.user.
+ * Bad or missing credentials are a 401 while authentication is on.
+ */
+export function authenticate(req: Request, _res: Response, next: NextFunction): void {
+  try {
+    req.user = authenticateCredentials({
+      authorization: req.header("authorization"),
+      apiKey: req.header("x-api-key"),
+    });
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Let the request through only for the given role or above (403 otherwise)
+ */
+export function requireRole(role: Role) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const current = req.user?.role;
+    if (!current || !hasRole(current, role)) {
+      return next(new PermissionDeniedError(`${req.method} ${req.baseUrl}${req.path}`, current ?? "none", role));
+    }
+    next();
+  };
+}
@@ -3,6 +3,7 @@ import { Request, Response, NextFunction } from "express";
 
 export interface ApiError extends Error {
   statusCode?: number;
+  code?: string; // Machine-readable reason, e.g. CAPACITY_EXCEEDED
   details?: any;
 }
 
@@ -21,6 +22,7 @@ export function errorHandler(
     success: false,
     error: {
       message,
+      ...(typeof err.code === "string" && { code: err.code }),
       ...(err.details && { details: err.details }),
       ...(process.env.NODE_ENV === "development" && { stack: err.stack }),
     },
@@ -34,6 +34,19 @@ export const idParamSchema = z.object({
   }),
 });
 
+// GET /:id, optionally as the record was at a past date (see services/audit-log.ts)
+export const recordQuerySchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  query: z.object({
+    as_of: z
+      .string()
+      .refine(value => !Number.isNaN(Date.parse(value)), "as_of must be a date or date-time")
+      .optional(),
+  }),
+});
+
 export const paginationSchema = z.object({
   query: z.object({
     limit: z.string().optional().transform((val: any) => (val ? parseInt(val, 10) : 100)),
@@ -41,3 +54,16 @@ export const paginationSchema = z.object({
   }),
 });
 
+// Bulk import and export (see services/bulk-transfer.ts)
+export const importQuerySchema = z.object({
+  query: z.object({
+    format: z.enum(["csv", "ndjson"]).optional(),
+    dry_run: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+export const exportQuerySchema = z.object({
+  query: z.object({
+    format: z.enum(["csv", "ndjson"]).optional(),
+  }),
+});
@@ -0,0 +1,107 @@
+// Audit Entry Mongoose Model
+import mongoose, { Schema, Document, MongooseQueryMiddleware } from "mongoose";
+
+export const AUDIT_ACTIONS = ["create", "update", "delete", "restore"] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export interface AuditFieldChange {
+  field: string;
+  from: any; // undefined when the field wasn't set
+  to: any;
+}
+
+export interface IAuditEntry {
+  entity: string; // Model name, e.g. Shipment
+  entity_id: string;
+  version: number; // 1 for the create, then one more per change
+  action: AuditAction;
+  actor: string;
+  changes: AuditFieldChange[];
+  snapshot: Record<string, any>; // The record after the change (as it was when deleted, for deletes)
+  timestamp: string;
+}
+
+export interface AuditEntryDocument extends IAuditEntry, Document {}
+
+const auditEntrySchema = new Schema<AuditEntryDocument>(
+  {
+    entity: { type: String, required: true },
+    entity_id: { type: String, required: true },
+    version: { type: Number, required: true, min: 1 },
+    action: { type: String, required: true, enum: AUDIT_ACTIONS },
+    actor: { type: String, required: true },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        from: { type: Schema.Types.Mixed },
+        to: { type: Schema.Types.Mixed },
+      },
+    ],
+    snapshot: { type: Schema.Types.Mixed, required: true },
+    timestamp: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+// One entry per version; versions are allocated from AuditVersionModel, so this only guards against bugs
+auditEntrySchema.index({ entity: 1, entity_id: 1, version: 1 }, { unique: true });
+auditEntrySchema.index({ entity: 1, entity_id: 1, timestamp: 1 });
+auditEntrySchema.index({ actor: 1, timestamp: -1 });
+
+// Append-only: entries can't be changed or removed one by one. deleteMany is left for database resets.
+const WRITE_HOOKS: MongooseQueryMiddleware[] = [
+  "updateOne",
+  "updateMany",
+  "findOneAndUpdate",
+  "replaceOne",
+  "findOneAndReplace",
+  "deleteOne",
+  "findOneAndDelete",
+];
+
+auditEntrySchema.pre(WRITE_HOOKS, function () {
+  throw new Error("The audit log is append-only");
+});
+
+auditEntrySchema.pre("save", function () {
+  if (!this.isNew) {
+    throw new Error("The audit log is append-only");
+  }
+});
+
+export interface IAuditVersion {
+  _id: string; // "<entity>:<entity_id>"
+  version: number;
+}
+
+// The last version handed out per record; a cache of the log's highest version, seeded from it when missing
+const auditVersionSchema = new Schema<IAuditVersion>(
+  {
+    _id: { type: String, required: true },
+    version: { type: Number, required: true },
+  },
+  { versionKey: false }
+);
+
+export const AuditVersionModel = mongoose.model<IAuditVersion>("AuditVersion", auditVersionSchema, "audit_versions");
+
+// Clearing entries (database resets) drops the counters too, so numbering restarts from what's left
+auditEntrySchema.post("deleteMany", async function () {
+  await AuditVersionModel.deleteMany({});
+});
+
+export const AuditEntryModel = mongoose.model<AuditEntryDocument>("AuditEntry", auditEntrySchema, "audit_log");
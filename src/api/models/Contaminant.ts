@@ -1,8 +1,10 @@
 // Contaminant Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 import { Contaminant as IContaminant } from "../../shared/types/tool.js";
 
-export interface ContaminantDocument extends Omit<IContaminant, "id">, Document {
+export interface ContaminantDocument extends Omit<IContaminant, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -57,6 +59,9 @@ contaminantSchema.index({ type: 1 });
 contaminantSchema.index({ risk_level: 1 });
 contaminantSchema.index({ detected_at: 1 });
 
+contaminantSchema.plugin(softDeletePlugin);
+contaminantSchema.plugin(auditPlugin);
+
 export const ContaminantModel = mongoose.model<ContaminantDocument>(
   "Contaminant",
   contaminantSchema
@@ -1,5 +1,7 @@
 // Contract Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 
 export interface IContract {
   id: string;
@@ -13,7 +15,7 @@ export interface IContract {
   terms: string;
 }
 
-export interface ContractDocument extends Omit<IContract, "id">, Document {
+export interface ContractDocument extends Omit<IContract, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -54,4 +56,7 @@ contractSchema.index({ status: 1 });
 contractSchema.index({ start_date: 1 });
 contractSchema.index({ end_date: 1 });
 
+contractSchema.plugin(softDeletePlugin);
+contractSchema.plugin(auditPlugin);
+
 export const ContractModel = mongoose.model<ContractDocument>("Contract", contractSchema);
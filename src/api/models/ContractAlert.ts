@@ -0,0 +1,58 @@
+// Contract Alert Mongoose Model - raised by the contract monitor
+import mongoose, { Schema, Document } from "mongoose";
+
+export const CONTRACT_ALERT_TYPES = ["quota_nearing", "quota_exhausted", "end_date_nearing", "auto_expired"] as const;
+
+export type ContractAlertType = (typeof CONTRACT_ALERT_TYPES)[number];
+
+export interface IContractAlert {
+  contract_id: string;
+  producer_id: string;
+  facility_id: string;
+  type: ContractAlertType;
+  message: string;
+  details?: Record<string, any>;
+  active: boolean; // false once the condition no longer holds
+  raised_at: string;
+  last_checked_at: string;
+  resolved_at?: string;
+}
+
+export interface ContractAlertDocument extends IContractAlert, Document {}
+
+const contractAlertSchema = new Schema<ContractAlertDocument>(
+  {
+    contract_id: { type: String, required: true },
+    producer_id: { type: String, required: true },
+    facility_id: { type: String, required: true },
+    type: { type: String, required: true, enum: CONTRACT_ALERT_TYPES },
+    message: { type: String, required: true },
+    details: { type: Schema.Types.Mixed },
+    active: { type: Boolean, required: true, default: true },
+    raised_at: { type: String, required: true },
+    last_checked_at: { type: String, required: true },
+    resolved_at: { type: String },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+// One alert per contract and condition
+contractAlertSchema.index({ contract_id: 1, type: 1 }, { unique: true });
+contractAlertSchema.index({ active: 1, raised_at: -1 });
+
+export const ContractAlertModel = mongoose.model<ContractAlertDocument>(
+  "ContractAlert",
+  contractAlertSchema,
+  "contract_alerts"
+);
@@ -0,0 +1,68 @@
+// Contract Violation Mongoose Model
+import mongoose, { Schema, Document } from "mongoose";
+
+export const CONTRACT_VIOLATION_TYPES = [
+  "no_contract",
+  "contract_suspended",
+  "contract_expired",
+  "outside_contract_period",
+  "undeclared_waste_type",
+  "weight_limit_exceeded",
+] as const;
+
+export type ContractViolationType = (typeof CONTRACT_VIOLATION_TYPES)[number];
+
+// rejected: the shipment was refused. flagged: it was accepted and marked for review.
+export type ContractViolationAction = "rejected" | "flagged";
+
+export interface IContractViolation {
+  shipment_id: string;
+  producer_id: string;
+  facility_id: string;
+  contract_id: string | null; // null when the producer has no contract with the facility
+  type: ContractViolationType;
+  message: string;
+  action: ContractViolationAction;
+  details?: Record<string, any>;
+  timestamp: string;
+}
+
+export interface ContractViolationDocument extends IContractViolation, Document {}
+
+const contractViolationSchema = new Schema<ContractViolationDocument>(
+  {
+    shipment_id: { type: String, required: true },
+    producer_id: { type: String, required: true },
+    facility_id: { type: String, required: true },
+    contract_id: { type: String, default: null },
+    type: { type: String, required: true, enum: CONTRACT_VIOLATION_TYPES },
+    message: { type: String, required: true },
+    action: { type: String, required: true, enum: ["rejected", "flagged"] },
+    details: { type: Schema.Types.Mixed },
+    timestamp: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+// Create indexes for common queries
+contractViolationSchema.index({ shipment_id: 1 });
+contractViolationSchema.index({ producer_id: 1, timestamp: -1 });
+contractViolationSchema.index({ contract_id: 1 });
+contractViolationSchema.index({ type: 1 });
+
+export const ContractViolationModel = mongoose.model<ContractViolationDocument>(
+  "ContractViolation",
+  contractViolationSchema,
+  "contract_violations"
+);
@@ -1,8 +1,10 @@
 // Facility Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 import { Facility as IFacility } from "../../shared/types/tool.js";
 
-export interface FacilityDocument extends Omit<IFacility, "id">, Document {
+export interface FacilityDocument extends Omit<IFacility, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -47,5 +49,28 @@ facilitySchema.index({ location: 1 });
 facilitySchema.index({ type: 1 });
 facilitySchema.index({ capacity_tons: 1 });
 
+facilitySchema.plugin(softDeletePlugin);
+facilitySchema.plugin(auditPlugin);
+
 export const FacilityModel = mongoose.model<FacilityDocument>("Facility", facilitySchema);
 
+export interface IFacilityIntakeLock {
+  _id: string; // The facility's id
+  checks: number;
+}
+
+// Written by every capacity check made in a transaction, so concurrent checks on a facility conflict
+const facilityIntakeLockSchema = new Schema<IFacilityIntakeLock>(
+  {
+    _id: { type: String, required: true },
+    checks: { type: Number, required: true },
+  },
+  { versionKey: false }
+);
+
+export const FacilityIntakeLockModel = mongoose.model<IFacilityIntakeLock>(
+  "FacilityIntakeLock",
+  facilityIntakeLockSchema,
+  "facility_intake_locks"
+);
+
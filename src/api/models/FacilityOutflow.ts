@@ -0,0 +1,49 @@
+// Facility Outflow Mongoose Model - material leaving a facility after processing
+import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
+
+export interface IFacilityOutflow {
+  id: string;
+  facility_id: string;
+  date: string;
+  weight_kg: number;
+  destination?: string;
+  notes?: string;
+}
+
+export interface FacilityOutflowDocument extends Omit<IFacilityOutflow, "id">, SoftDeleteFields, Document {
+  id: string;
+}
+
+const facilityOutflowSchema = new Schema<FacilityOutflowDocument>(
+  {
+    id: { type: String, required: true, unique: true },
+    facility_id: { type: String, required: true },
+    date: { type: String, required: true },
+    weight_kg: { type: Number, required: true, min: 0 },
+    destination: { type: String },
+    notes: { type: String },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+// Create indexes for common queries
+facilityOutflowSchema.index({ facility_id: 1 });
+facilityOutflowSchema.index({ date: 1 });
+
+facilityOutflowSchema.plugin(softDeletePlugin);
+facilityOutflowSchema.plugin(auditPlugin);
+
+export const FacilityOutflowModel = mongoose.model<FacilityOutflowDocument>("FacilityOutflow", facilityOutflowSchema);
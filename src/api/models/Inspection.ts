@@ -1,8 +1,10 @@
 // Inspection Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 import { Inspection as IInspection } from "../../shared/types/tool.js";
 
-export interface InspectionDocument extends Omit<IInspection, "id">, Document {
+export interface InspectionDocument extends Omit<IInspection, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -50,6 +52,9 @@ inspectionSchema.index({ facility_id: 1 });
 inspectionSchema.index({ date: 1 });
 inspectionSchema.index({ status: 1 });
 
+inspectionSchema.plugin(softDeletePlugin);
+inspectionSchema.plugin(auditPlugin);
+
 export const InspectionModel = mongoose.model<InspectionDocument>(
   "Inspection",
   inspectionSchema
@@ -0,0 +1,59 @@
+// Outbox Event Mongoose Model - domain events waiting to go out to webhook subscriptions
+import mongoose, { Schema, Document } from "mongoose";
+
+export const DOMAIN_EVENT_TYPES = [
+  "shipment.created",
+  "shipment.status_changed",
+  "shipment.rejected",
+  "contaminant.detected",
+  "inspection.follow_up_required",
+  "contract.status_changed",
+] as const;
+
+export type DomainEventType = (typeof DOMAIN_EVENT_TYPES)[number];
+
+export interface IOutboxEvent {
+  id: string;
+  type: DomainEventType;
+  entity: string; // Model name, e.g. Shipment
+  entity_id: string;
+  actor: string;
+  payload: Record<string, any>;
+  occurred_at: string;
+  dispatched_at?: string; // Set once deliveries were queued for every matching subscription
+}
+
+export interface OutboxEventDocument extends IOutboxEvent, Document {
+  id: string;
+}
+
+const outboxEventSchema = new Schema<OutboxEventDocument>(
+  {
+    id: { type: String, required: true, unique: true },
+    type: { type: String, required: true, enum: DOMAIN_EVENT_TYPES },
+    entity: { type: String, required: true },
+    entity_id: { type: String, required: true },
+    actor: { type: String, required: true },
+    payload: { type: Schema.Types.Mixed, required: true },
+    occurred_at: { type: String, required: true },
+    dispatched_at: { type: String },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+outboxEventSchema.index({ dispatched_at: 1, occurred_at: 1 });
+outboxEventSchema.index({ type: 1, occurred_at: -1 });
+
+export const OutboxEventModel = mongoose.model<OutboxEventDocument>("OutboxEvent", outboxEventSchema, "event_outbox");
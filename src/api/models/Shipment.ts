@@ -1,8 +1,25 @@
 // Shipment Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
-import { Shipment as IShipment } from "../../shared/types/tool.js";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
+import { Shipment as IShipment, ShipmentStatus } from "../../shared/types/tool.js";
 
-export interface ShipmentDocument extends Omit<IShipment, "id">, Document {
+export const SHIPMENT_STATUSES: ShipmentStatus[] = ["pending", "in_transit", "delivered", "rejected"];
+
+// Lifecycle: pending -> in_transit -> delivered, with rejection possible until the
+// facility has finished with it. Rejected is final.
+export const SHIPMENT_TRANSITIONS: Record<ShipmentStatus, ShipmentStatus[]> = {
+  pending: ["in_transit", "rejected"],
+  in_transit: ["delivered", "rejected"],
+  delivered: ["rejected"],
+  rejected: [],
+};
+
+export function canTransition(from: ShipmentStatus, to: ShipmentStatus): boolean {
+  return SHIPMENT_TRANSITIONS[from].includes(to);
+}
+
+export interface ShipmentDocument extends Omit<IShipment, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -10,11 +27,12 @@ const shipmentSchema = new Schema<ShipmentDocument>(
   {
     id: { type: String, required: true, unique: true },
     facility_id: { type: String, required: true },
+    producer_id: { type: String },
     date: { type: String, required: true },
     status: {
       type: String,
       required: true,
-      enum: ["pending", "in_transit", "delivered", "rejected"],
+      enum: SHIPMENT_STATUSES,
     },
     weight_kg: { type: Number, required: true },
     has_contaminants: { type: Boolean, required: true },
@@ -41,9 +59,13 @@ const shipmentSchema = new Schema<ShipmentDocument>(
 
 // Create indexes for common queries
 shipmentSchema.index({ facility_id: 1 });
+shipmentSchema.index({ producer_id: 1, facility_id: 1, date: 1 });
 shipmentSchema.index({ date: 1 });
 shipmentSchema.index({ status: 1 });
 shipmentSchema.index({ has_contaminants: 1 });
 
+shipmentSchema.plugin(softDeletePlugin);
+shipmentSchema.plugin(auditPlugin);
+
 export const ShipmentModel = mongoose.model<ShipmentDocument>("Shipment", shipmentSchema);
 
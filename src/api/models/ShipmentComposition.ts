@@ -1,5 +1,7 @@
 // Shipment Composition Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 
 export interface IShipmentComposition {
   id: string;
@@ -12,7 +14,7 @@ export interface IShipmentComposition {
   confidence: number;
 }
 
-export interface ShipmentCompositionDocument extends Omit<IShipmentComposition, "id">, Document {
+export interface ShipmentCompositionDocument extends Omit<IShipmentComposition, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -50,4 +52,7 @@ shipmentCompositionSchema.index({ shipment_id: 1 });
 shipmentCompositionSchema.index({ waste_code: 1 });
 shipmentCompositionSchema.index({ detected_by: 1 });
 
+shipmentCompositionSchema.plugin(softDeletePlugin);
+shipmentCompositionSchema.plugin(auditPlugin);
+
 export const ShipmentCompositionModel = mongoose.model<ShipmentCompositionDocument>("ShipmentComposition", shipmentCompositionSchema);
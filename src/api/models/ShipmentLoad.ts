@@ -1,5 +1,7 @@
 // Shipment Load Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 
 export interface IShipmentLoad {
   id: string;
@@ -13,7 +15,7 @@ export interface IShipmentLoad {
   matches_contract: boolean;
 }
 
-export interface ShipmentLoadDocument extends Omit<IShipmentLoad, "id">, Document {
+export interface ShipmentLoadDocument extends Omit<IShipmentLoad, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -49,4 +51,7 @@ shipmentLoadSchema.index({ camera_id: 1 });
 shipmentLoadSchema.index({ detected_at: 1 });
 shipmentLoadSchema.index({ matches_contract: 1 });
 
+shipmentLoadSchema.plugin(softDeletePlugin);
+shipmentLoadSchema.plugin(auditPlugin);
+
 export const ShipmentLoadModel = mongoose.model<ShipmentLoadDocument>("ShipmentLoad", shipmentLoadSchema);
@@ -0,0 +1,45 @@
+// Shipment Status History Mongoose Model
+import mongoose, { Schema, Document } from "mongoose";
+import { ShipmentStatus } from "../../shared/types/tool.js";
+
+export interface IShipmentStatusHistory {
+  shipment_id: string;
+  from_status: ShipmentStatus | null; // null for the status a shipment was created with
+  to_status: ShipmentStatus;
+  actor: string;
+  reason?: string;
+  timestamp: string;
+}
+
+export interface ShipmentStatusHistoryDocument extends IShipmentStatusHistory, Document {}
+
+const shipmentStatusHistorySchema = new Schema<ShipmentStatusHistoryDocument>(
+  {
+    shipment_id: { type: String, required: true },
+    from_status: { type: String, default: null },
+    to_status: { type: String, required: true },
+    actor: { type: String, required: true },
+    reason: { type: String },
+    timestamp: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+shipmentStatusHistorySchema.index({ shipment_id: 1, timestamp: 1 });
+
+export const ShipmentStatusHistoryModel = mongoose.model<ShipmentStatusHistoryDocument>(
+  "ShipmentStatusHistory",
+  shipmentStatusHistorySchema,
+  "shipment_status_history"
+);
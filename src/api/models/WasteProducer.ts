@@ -1,5 +1,7 @@
 // Waste Producer Mongoose Model
 import mongoose, { Schema, Document } from "mongoose";
+import { SoftDeleteFields, softDeletePlugin } from "./soft-delete.js";
+import { auditPlugin } from "./audit.js";
 
 export interface IWasteProducer {
   id: string;
@@ -12,7 +14,7 @@ export interface IWasteProducer {
   active_contracts: number;
 }
 
-export interface WasteProducerDocument extends Omit<IWasteProducer, "id">, Document {
+export interface WasteProducerDocument extends Omit<IWasteProducer, "id">, SoftDeleteFields, Document {
   id: string;
 }
 
@@ -51,4 +53,7 @@ wasteProducerSchema.index({ type: 1 });
 wasteProducerSchema.index({ location: 1 });
 wasteProducerSchema.index({ license_number: 1 });
 
+wasteProducerSchema.plugin(softDeletePlugin);
+wasteProducerSchema.plugin(auditPlugin);
+
 export const WasteProducerModel = mongoose.model<WasteProducerDocument>("WasteProducer", wasteProducerSchema);
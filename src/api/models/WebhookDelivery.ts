@@ -0,0 +1,74 @@
+// Webhook Delivery Mongoose Model - one event sent to one subscription, with every attempt
+import mongoose, { Schema, Document } from "mongoose";
+
+export const WEBHOOK_DELIVERY_STATUSES = ["pending", "delivered", "failed"] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export interface WebhookAttempt {
+  attempted_at: string;
+  status_code?: number; // Missing when the receiver couldn't be reached
+  error?: string;
+  duration_ms: number;
+}
+
+export interface IWebhookDelivery {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  status: WebhookDeliveryStatus; // failed once every attempt has been used
+  attempts: WebhookAttempt[];
+  next_attempt_at?: string; // Set while pending
+  delivered_at?: string;
+  failure_reason?: string;
+}
+
+export interface WebhookDeliveryDocument extends IWebhookDelivery, Document {
+  id: string;
+}
+
+const webhookDeliverySchema = new Schema<WebhookDeliveryDocument>(
+  {
+    id: { type: String, required: true, unique: true },
+    subscription_id: { type: String, required: true },
+    event_id: { type: String, required: true },
+    event_type: { type: String, required: true },
+    status: { type: String, required: true, enum: WEBHOOK_DELIVERY_STATUSES, default: "pending" },
+    attempts: [
+      {
+        _id: false,
+        attempted_at: { type: String, required: true },
+        status_code: { type: Number },
+        error: { type: String },
+        duration_ms: { type: Number, required: true },
+      },
+    ],
+    next_attempt_at: { type: String },
+    delivered_at: { type: String },
+    failure_reason: { type: String },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+// One delivery per event and subscription, so a re-run fan-out can't send twice
+webhookDeliverySchema.index({ event_id: 1, subscription_id: 1 }, { unique: true });
+webhookDeliverySchema.index({ status: 1, next_attempt_at: 1 });
+webhookDeliverySchema.index({ subscription_id: 1, createdAt: -1 });
+
+export const WebhookDeliveryModel = mongoose.model<WebhookDeliveryDocument>(
+  "WebhookDelivery",
+  webhookDeliverySchema,
+  "webhook_deliveries"
+);
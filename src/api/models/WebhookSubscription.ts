@@ -0,0 +1,48 @@
+// Webhook Subscription Mongoose Model
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IWebhookSubscription {
+  id: string;
+  url: string;
+  event_types: string[]; // Event types, "<entity>.*" or "*"
+  secret: string; // HMAC key for the X-Webhook-Signature header
+  active: boolean;
+  description?: string;
+}
+
+export interface WebhookSubscriptionDocument extends IWebhookSubscription, Document {
+  id: string;
+}
+
+const webhookSubscriptionSchema = new Schema<WebhookSubscriptionDocument>(
+  {
+    id: { type: String, required: true, unique: true },
+    url: { type: String, required: true },
+    event_types: { type: [String], required: true },
+    secret: { type: String, required: true },
+    active: { type: Boolean, required: true, default: true },
+    description: { type: String },
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      // The secret is only shown once, when the subscription is created
+      transform: (_: any, ret: any) => {
+        delete ret._id;
+        delete ret.__v;
+        delete ret.secret;
+        delete ret.createdAt;
+        delete ret.updatedAt;
+        return ret;
+      },
+    },
+  }
+);
+
+webhookSubscriptionSchema.index({ active: 1 });
+
+export const WebhookSubscriptionModel = mongoose.model<WebhookSubscriptionDocument>(
+  "WebhookSubscription",
+  webhookSubscriptionSchema,
+  "webhook_subscriptions"
+);
@@ -0,0 +1,350 @@
+// Audit plugin - every create, update and delete goes into the audit log with field diffs and actor
+import mongoose, { ClientSession, Document, Model, MongooseQueryMiddleware, Query, Schema } from "mongoose";
+import { currentTransaction, supportsTransactions } from "../db/connection.js";
+import { AuditAction, AuditEntryModel, AuditFieldChange, AuditVersionModel, IAuditEntry } from "./AuditEntry.js";
+import { appendOutboxEvents } from "./domain-events.js";
+
+export const SYSTEM_ACTOR = "system";
+
+// Internals and timestamps aren't part of a record's history
+const UNTRACKED_FIELDS = new Set(["_id", "__v", "createdAt", "updatedAt"]);
+
+const QUERY_UPDATES: MongooseQueryMiddleware[] = ["findOneAndUpdate", "updateOne", "updateMany"];
+const QUERY_DELETES: MongooseQueryMiddleware[] = ["findOneAndDelete", "deleteOne"];
+const SINGLE_RECORD_QUERIES: MongooseQueryMiddleware[] = ["findOneAndUpdate", "updateOne", ...QUERY_DELETES];
+
+interface RecordChange {
+  before: Record<string, any> | null; // null for creates
+  after: Record<string, any> | null; // null for hard deletes
+}
+
+// Records as they were before a query changed them
+const pendingQueries = new WeakMap<object, Record<string, any>[]>();
+
+// Transactions the plugin opened for a write, settled once its entries and events are recorded
+const ownTransactions = new WeakMap<object, ClientSession>();
+
+/**
+ * A record's tracked fields, without internals and timestamps
+ */
+export function auditSnapshot(record: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([field, value]) => !UNTRACKED_FIELDS.has(field) && value !== undefined)
+  );
+}
+
+/**
+ * Top-level fields that differ between two snapshots (nested objects and arrays compare as a whole)
+ */
+export function diffRecords(before: Record<string, any>, after: Record<string, any>): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...fields]
+    .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+    .map(field => ({ field, from: before[field], to: after[field] }));
+}
+
+function auditAction({ before, after }: RecordChange): AuditAction {
+  if (!before) return "create";
+  if (!after) return "delete";
+  if (before.deleted_at == null && after.deleted_at != null) return "delete";
+  if (before.deleted_at != null && after.deleted_at == null) return "restore";
+  return "update";
+}
+
+/**
+ * Reserve as many versions per record as it appears in `entityIds`, with an
+ * atomic increment per record so concurrent writes never get the same one.
+ * Returns each record's first reserved version. A record without a counter
+ * starts from its highest entry in the log.
+ */
+async function allocateVersions(
+  entity: string,
+  entityIds: string[],
+  session: ClientSession | null
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+  for (const id of entityIds) {
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+
+  const latest = await AuditEntryModel.aggregate<{ _id: string; version: number }>([
+    { $match: { entity, entity_id: { $in: [...counts.keys()] } } },
+    { $group: { _id: "$entity_id", version: { $max: "$version" } } },
+  ]).session(session);
+  const seeds = new Map(latest.map(({ _id, version }) => [_id, version]));
+
+  const first = new Map<string, number>();
+  for (const [id, count] of counts) {
+    const counter = await AuditVersionModel.findOneAndUpdate(
+      { _id: `${entity}:${id}` },
+      [{ $set: { version: { $add: [{ $ifNull: ["$version", seeds.get(id) ?? 0] }, count] } } }],
+      { upsert: true, new: true, session }
+    ).lean();
+    first.set(id, counter!.version - count + 1);
+  }
+  return first;
+}
+
+/**
+ * Append entries for changed records, numbering each record's versions on from its last entry
+ */
+async function appendEntries(
+  model: Model<any>,
+  actor: string,
+  changes: RecordChange[],
+  session: ClientSession | null = null
+): Promise<void> {
+  const entries = changes
+    .map(change => {
+      const before = change.before ? auditSnapshot(change.before) : {};
+      const after = change.after ? auditSnapshot(change.after) : null;
+      return {
+        action: auditAction(change),
+        entity_id: String((after ?? before).id),
+        changes: after ? diffRecords(before, after) : [],
+        snapshot: after ?? before,
+      };
+    })
+    .filter(entry => entry.action !== "update" || entry.changes.length > 0);
+
+  if (entries.length === 0) {
+    return;
+  }
+
+  const versions = await allocateVersions(
+    model.modelName,
+    entries.map(entry => entry.entity_id),
+    session
+  );
+  const timestamp = new Date().toISOString();
+
+  await AuditEntryModel.insertMany(
+    entries.map((entry): IAuditEntry => {
+      const version = versions.get(entry.entity_id)!;
+      versions.set(entry.entity_id, version + 1);
+      return { entity: model.modelName, version, actor, timestamp, ...entry };
+    }),
+    { session }
+  );
+}
+
+/**
+ * Record changes in the audit log and their domain events in the outbox
+ */
+async function recordChanges(
+  model: Model<any>,
+  actor: string,
+  changes: RecordChange[],
+  session: ClientSession | null
+): Promise<void> {
+  await appendEntries(model, actor, changes, session);
+  await appendOutboxEvents(model.modelName, actor, changes, session);
+}
+
+// A transaction commit whose outcome is unknown can be committed again
+const COMMIT_ATTEMPTS = 3;
+
+/**
+ * The session a write runs in: the caller's if it has one (its own or the
+ * withTransaction it runs in), otherwise a transaction opened for it here
+ * (none on a standalone server). Writes outside withTransaction aren't retried
+ * when their transaction conflicts with a concurrent one.
+ */
+async function beginTransaction(write: object, current: ClientSession | null | undefined): Promise<ClientSession | null> {
+  if (current) {
+    return current;
+  }
+  if (!supportsTransactions()) {
+    return null;
+  }
+
+  const session = await mongoose.startSession();
+  session.startTransaction();
+  ownTransactions.set(write, session);
+  return session;
+}
+
+async function settleTransaction(write: object, commit: boolean): Promise<void> {
+  const session = ownTransactions.get(write);
+  if (!session) {
+    return;
+  }
+
+  ownTransactions.delete(write);
+  try {
+    if (commit) {
+      await commitWithRetry(session);
+    } else if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
+  } finally {
+    await session.endSession();
+  }
+}
+
+async function commitWithRetry(session: ClientSession): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await session.commitTransaction();
+      return;
+    } catch (error: any) {
+      if (attempt >= COMMIT_ATTEMPTS || !error?.hasErrorLabel?.("UnknownTransactionCommitResult")) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Record a write's changes and commit the transaction it runs in; if they
+ * can't be recorded the write is rolled back and fails
+ */
+async function recordAndCommit(write: object, record: () => Promise<void>): Promise<void> {
+  try {
+    await record();
+  } catch (error) {
+    await settleTransaction(write, false);
+    throw error;
+  }
+  await settleTransaction(write, true);
+}
+
+function querySession(query: Query<unknown, unknown>): ClientSession | null {
+  return query.getOptions().session ?? currentTransaction() ?? null;
+}
+
+function findBefore(query: Query<unknown, unknown>) {
+  return query.model
+    .find(query.getFilter())
+    .setOptions({ withDeleted: true })
+    .session(querySession(query))
+    .lean<Record<string, any>[]>();
+}
+
+function queryActor(query: Query<unknown, unknown>): string {
+  return query.getOptions().actor ?? SYSTEM_ACTOR;
+}
+
+/**
+ * Record every create, update and delete of a model in the audit log. The
+ * actor comes from the query option `actor` (findOneAndUpdate(filter, update,
+ * { actor }) or .setOptions({ actor })) or, for saves, doc.$locals.actor; it's
+ * "system" otherwise. Updates that change nothing aren't recorded, and
+ * neither is deleteMany, which is left for database resets. The domain events
+ * a change raises go into the outbox in the same hook. On a replica set the
+ * change, its entries and its events are written in one transaction (the
+ * caller's session or withTransaction if the write has one), so a change is
+ * never kept without them; a standalone server writes them one after the
+ * other. Run writes that may race in withTransaction, which retries conflicts.
+ */
+export function auditPlugin(schema: Schema): void {
+  schema.pre("save", async function (this: Document) {
+    const session = await beginTransaction(this, this.$session() ?? currentTransaction());
+    if (ownTransactions.has(this)) {
+      this.$session(session);
+    }
+    this.$locals.auditBefore = this.isNew
+      ? null
+      : await (this.constructor as Model<any>)
+          .findById(this._id)
+          .setOptions({ withDeleted: true })
+          .session(session)
+          .lean();
+  });
+
+  schema.post("save", async function (this: Document) {
+    const before = (this.$locals.auditBefore as Record<string, any> | null) ?? null;
+    const actor = (this.$locals.actor as string | undefined) ?? SYSTEM_ACTOR;
+    const session = this.$session() ?? currentTransaction() ?? null;
+    const owned = ownTransactions.has(this);
+    try {
+      await recordAndCommit(this, () =>
+        recordChanges(this.constructor as Model<any>, actor, [{ before, after: this.toObject() }], session)
+      );
+    } finally {
+      if (owned) {
+        this.$session(null); // the document outlives the transaction opened for this save
+      }
+    }
+  });
+
+  schema.post("save", async function (this: Document, error: Error, _doc: unknown, next: (error?: Error) => void) {
+    if (ownTransactions.has(this)) {
+      await settleTransaction(this, false);
+      this.$session(null);
+    }
+    next(error);
+  });
+
+  // Bulk inserts are seed data, so they're audited but raise no domain events
+  schema.post("insertMany", async function (this: Model<any>, docs: any) {
+    await appendEntries(
+      this,
+      SYSTEM_ACTOR,
+      (docs as Array<Document | Record<string, any>>).map(doc => ({
+        before: null,
+        after: doc instanceof Document ? doc.toObject() : doc, // lean inserts hand back plain objects
+      }))
+    );
+  });
+
+  // updateMany changes every match; the others change the first
+  schema.pre(SINGLE_RECORD_QUERIES, async function (this: Query<unknown, unknown>) {
+    this.session(await beginTransaction(this, querySession(this)));
+    pendingQueries.set(this, await findBefore(this).limit(1));
+  });
+
+  schema.pre("updateMany", async function (this: Query<unknown, unknown>) {
+    this.session(await beginTransaction(this, querySession(this)));
+    pendingQueries.set(this, await findBefore(this));
+  });
+
+  schema.post(
+    [...QUERY_UPDATES, ...QUERY_DELETES],
+    async function (this: Query<unknown, unknown>, error: Error, _res: unknown, next: (error?: Error) => void) {
+      pendingQueries.delete(this);
+      await settleTransaction(this, false);
+      next(error);
+    }
+  );
+
+  schema.post(QUERY_UPDATES, async function (this: Query<unknown, unknown>) {
+    const before = pendingQueries.get(this) ?? [];
+    pendingQueries.delete(this);
+    const session = querySession(this);
+
+    await recordAndCommit(this, async () => {
+      if (before.length === 0) {
+        return;
+      }
+
+      const after = await this.model
+        .find({ _id: { $in: before.map(record => record._id) } })
+        .setOptions({ withDeleted: true })
+        .session(session)
+        .lean<Record<string, any>[]>();
+      const afterById = new Map(after.map(record => [String(record._id), record]));
+
+      await recordChanges(
+        this.model,
+        queryActor(this),
+        before.map(record => ({ before: record, after: afterById.get(String(record._id)) ?? null })),
+        session
+      );
+    });
+  });
+
+  schema.post(QUERY_DELETES, async function (this: Query<unknown, unknown>) {
+    const before = pendingQueries.get(this) ?? [];
+    pendingQueries.delete(this);
+    const session = querySession(this);
+    await recordAndCommit(this, () =>
+      recordChanges(
+        this.model,
+        queryActor(this),
+        before.map(record => ({ before: record, after: null })),
+        session
+      )
+    );
+  });
+}
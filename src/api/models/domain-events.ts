@@ -0,0 +1,123 @@
+// Domain events - what a record change means to downstream systems, written to the outbox with the change
+import { randomUUID } from "crypto";
+import { ClientSession } from "mongoose";
+import { DomainEventType, IOutboxEvent, OutboxEventModel } from "./OutboxEvent.js";
+
+export interface DomainEvent {
+  type: DomainEventType;
+  entity_id: string;
+  payload: Record<string, any>;
+}
+
+type RecordState = Record<string, any> | null; // null before a create
+
+// A change of one field, ignoring records that are deleted or being deleted
+function changed(before: RecordState, after: RecordState, field: string): boolean {
+  return Boolean(after && after.deleted_at == null && before?.[field] !== after[field]);
+}
+
+// A record that didn't exist, or was deleted, before this change
+function created(before: RecordState, after: RecordState): boolean {
+  return Boolean(after && after.deleted_at == null && !before);
+}
+
+const DERIVERS: Record<string, (before: RecordState, after: RecordState) => DomainEvent[]> = {
+  Shipment: (before, after) => {
+    const events: DomainEvent[] = [];
+    if (!after) return events;
+    const base = { shipment_id: after.id, facility_id: after.facility_id, producer_id: after.producer_id };
+
+    if (created(before, after)) {
+      events.push({ type: "shipment.created", entity_id: after.id, payload: { ...base, status: after.status, weight_kg: after.weight_kg } });
+    } else if (changed(before, after, "status")) {
+      events.push({ type: "shipment.status_changed", entity_id: after.id, payload: { ...base, from: before?.status, to: after.status } });
+    }
+    if (changed(before, after, "status") && after.status === "rejected") {
+      events.push({ type: "shipment.rejected", entity_id: after.id, payload: { ...base, from: before?.status ?? null } });
+    }
+    return events;
+  },
+
+  Contaminant: (before, after) =>
+    after && created(before, after)
+      ? [
+          {
+            type: "contaminant.detected",
+            entity_id: after.id,
+            payload: {
+              contaminant_id: after.id,
+              shipment_id: after.shipment_id,
+              facility_id: after.facility_id,
+              type: after.type,
+              risk_level: after.risk_level,
+              concentration_ppm: after.concentration_ppm,
+              detected_at: after.detected_at,
+            },
+          },
+        ]
+      : [],
+
+  Inspection: (before, after) =>
+    after?.follow_up_required === true && changed(before, after, "follow_up_required")
+      ? [
+          {
+            type: "inspection.follow_up_required",
+            entity_id: after.id,
+            payload: {
+              inspection_id: after.id,
+              shipment_id: after.shipment_id,
+              facility_id: after.facility_id,
+              status: after.status,
+              inspector: after.inspector,
+              notes: after.notes,
+            },
+          },
+        ]
+      : [],
+
+  Contract: (before, after) =>
+    after && before && changed(before, after, "status")
+      ? [
+          {
+            type: "contract.status_changed",
+            entity_id: after.id,
+            payload: {
+              contract_id: after.id,
+              producer_id: after.producer_id,
+              facility_id: after.facility_id,
+              from: before.status,
+              to: after.status,
+            },
+          },
+        ]
+      : [],
+};
+
+/**
+ * The domain events a change to a record raises (none for models without any)
+ */
+export function deriveDomainEvents(entity: string, before: RecordState, after: RecordState): DomainEvent[] {
+  return DERIVERS[entity]?.(before, after) ?? [];
+}
+
+/**
+ * Write the events for a batch of changes to the outbox, where the webhook
+ * dispatcher picks them up, in the session of the write that made them
+ */
+export async function appendOutboxEvents(
+  entity: string,
+  actor: string,
+  changes: Array<{ before: RecordState; after: RecordState }>,
+  session: ClientSession | null = null
+): Promise<void> {
+  const occurredAt = new Date().toISOString();
+  const events = changes.flatMap(({ before, after }) => deriveDomainEvents(entity, before, after));
+  if (events.length === 0) {
+    return;
+  }
+
+  await OutboxEventModel.insertMany(
+    events.map((event): IOutboxEvent => ({ id: `evt_${randomUUID()}`, entity, actor, occurred_at: occurredAt, ...event })),
+    { session }
+  );
+}
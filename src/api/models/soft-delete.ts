@@ -0,0 +1,42 @@
+// Soft delete plugin - deleted_at marks a record as deleted without removing it
+import { Aggregate, MongooseQueryMiddleware, Query, Schema } from "mongoose";
+
+export interface SoftDeleteFields {
+  deleted_at?: Date;
+}
+
+// Reads and updates skip soft-deleted records. deleteMany is left alone so resets still clear everything.
+const QUERY_HOOKS: MongooseQueryMiddleware[] = [
+  "find",
+  "findOne",
+  "countDocuments",
+  "distinct",
+  "findOneAndUpdate",
+  "findOneAndDelete",
+  "updateOne",
+  "updateMany",
+];
+
+/**
+ * Add deleted_at to a schema and hide records that have it. Pass
+ * setOptions({ withDeleted: true }) (or option({ withDeleted: true }) on an
+ * aggregate) to include them, or filter on deleted_at explicitly.
+ */
+export function softDeletePlugin(schema: Schema): void {
+  schema.add({ deleted_at: { type: Date } });
+  schema.index({ deleted_at: 1 }, { sparse: true });
+
+  schema.pre(QUERY_HOOKS, function (this: Query<unknown, unknown>) {
+    if (this.getOptions().withDeleted || "deleted_at" in this.getFilter()) {
+      return;
+    }
+    this.where({ deleted_at: null });
+  });
+
+  schema.pre("aggregate", function (this: Aggregate<unknown>) {
+    if ((this.options as Record<string, unknown>).withDeleted) {
+      return;
+    }
+    this.pipeline().unshift({ $match: { deleted_at: null } });
+  });
+}
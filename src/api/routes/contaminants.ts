@@ -1,8 +1,15 @@
 // Contaminants route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { ContaminantModel } from "../models/Contaminant.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { assertReferences, deleteWithPolicies, restoreWithPolicies } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -47,44 +54,103 @@ const updateContaminantSchema = z.object({
   }),
 });
 
+// Filters shared by the list and export endpoints
+function contaminantFilter(params: Request["query"]): Record<string, any> {
+  const { shipment_ids, facility_id, date_from, date_to, type, risk_level } = params;
+
+  const query: any = {};
+
+  if (shipment_ids) {
+    const idArray = (shipment_ids as string).split(",");
+    query.shipment_id = { $in: idArray };
+  }
+  if (facility_id) query.facility_id = facility_id;
+  if (date_from || date_to) {
+    query.detected_at = {};
+    if (date_from) query.detected_at.$gte = date_from;
+    if (date_to) query.detected_at.$lte = date_to;
+  }
+  if (type) query.type = type;
+  if (risk_level) query.risk_level = risk_level;
+
+  return query;
+}
+
 // GET /api/contaminants-detected - List contaminants with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { shipment_ids, facility_id, date_from, date_to, type, risk_level } = req.query;
+    const page = await listDocuments(ContaminantModel, contaminantFilter(req.query), req.query);
 
-    const query: any = {};
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (shipment_ids) {
-      const idArray = (shipment_ids as string).split(",");
-      query.shipment_id = { $in: idArray };
-    }
-    if (facility_id) query.facility_id = facility_id;
-    if (date_from || date_to) {
-      query.detected_at = {};
-      if (date_from) query.detected_at.$gte = date_from;
-      if (date_to) query.detected_at.$lte = date_to;
+// GET /api/contaminants-detected/export - Stream contaminants as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await streamExport(res, ContaminantModel, contaminantFilter(req.query), req.query, "contaminants-detected");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/contaminants-detected/import - Create contaminants from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: ContaminantModel,
+        schema: createContaminantSchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
     }
-    if (type) query.type = type;
-    if (risk_level) query.risk_level = risk_level;
+  }
+);
 
-    const contaminants = await ContaminantModel.find(query);
+// GET /api/contaminants-detected/:id - Get single contaminant (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const contaminant = await findRecord(ContaminantModel, req.params.id!, req.query.as_of as string | undefined);
+
+    if (!contaminant) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Contaminant not found" },
+      });
+      return;
+    }
 
     res.json({
       success: true,
-      data: contaminants,
-      count: contaminants.length,
+      data: contaminant,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/contaminants-detected/:id - Get single contaminant
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/contaminants-detected/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const contaminant = await ContaminantModel.findOne({ id: req.params.id });
+    const versions = await getVersions(ContaminantModel, req.params.id!);
 
-    if (!contaminant) {
+    if (versions.length === 0) {
       res.status(404).json({
         success: false,
         error: { message: "Contaminant not found" },
@@ -94,7 +160,8 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
 
     res.json({
       success: true,
-      data: contaminant,
+      data: versions,
+      count: versions.length,
     });
   } catch (error) {
     next(error);
@@ -102,10 +169,12 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
 });
 
 // POST /api/contaminants-detected - Create contaminant detection
-router.post("/", validateRequest(createContaminantSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("inspector"), validateRequest(createContaminantSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    await assertReferences(ContaminantModel, req.body);
     const contaminant = new ContaminantModel(req.body);
-    await contaminant.save();
+    contaminant.$locals.actor = getActor(req);
+    await withTransaction(() => contaminant.save());
 
     res.status(201).json({
       success: true,
@@ -125,12 +194,15 @@ router.post("/", validateRequest(createContaminantSchema), async (req: Request,
 });
 
 // PUT /api/contaminants-detected/:id - Update contaminant
-router.put("/:id", validateRequest(updateContaminantSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("inspector"), validateRequest(updateContaminantSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const contaminant = await ContaminantModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    await assertReferences(ContaminantModel, req.body);
+    const contaminant = await withTransaction(() =>
+      ContaminantModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!contaminant) {
@@ -151,12 +223,12 @@ router.put("/:id", validateRequest(updateContaminantSchema), async (req: Request
   }
 });
 
-// DELETE /api/contaminants-detected/:id - Delete contaminant
-router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// DELETE /api/contaminants-detected/:id - Soft-delete contaminant
+router.delete("/:id", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const contaminant = await ContaminantModel.findOneAndDelete({ id: req.params.id });
+    const result = await deleteWithPolicies(ContaminantModel, req.params.id!, getActor(req));
 
-    if (!contaminant) {
+    if (!result) {
       res.status(404).json({
         success: false,
         error: { message: "Contaminant not found" },
@@ -166,6 +238,7 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
 
     res.json({
       success: true,
+      data: { cascaded: result.cascaded },
       message: "Contaminant deleted successfully",
     });
   } catch (error) {
@@ -173,5 +246,29 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
   }
 });
 
+// POST /api/contaminants-detected/:id/restore - Undo a delete, with everything deleted along with it
+router.post("/:id/restore", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await restoreWithPolicies(ContaminantModel, req.params.id!, getActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "No deleted contaminant with this ID" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.restored,
+      restored: result.dependents,
+      message: "Contaminant restored successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
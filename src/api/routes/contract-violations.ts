@@ -0,0 +1,47 @@
+// Contract violations route handlers
+import { Router, Request, Response, NextFunction } from "express";
+import { ContractViolationModel } from "../models/ContractViolation.js";
+import { listDocuments } from "../services/list-query.js";
+
+const router = Router();
+
+// GET /api/contract-violations - List recorded violations, newest first
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const {
+      shipment_id,
+      producer_id,
+      facility_id,
+      contract_id,
+      type,
+      action,
+      date_from,
+      date_to,
+    } = req.query;
+
+    const query: any = {};
+
+    if (shipment_id) query.shipment_id = shipment_id;
+    if (producer_id) query.producer_id = producer_id;
+    if (facility_id) query.facility_id = facility_id;
+    if (contract_id) query.contract_id = contract_id;
+    if (type) query.type = type;
+    if (action) query.action = action;
+    if (date_from || date_to) {
+      query.timestamp = {};
+      if (date_from) query.timestamp.$gte = date_from;
+      if (date_to) query.timestamp.$lte = date_to;
+    }
+
+    const page = await listDocuments(ContractViolationModel, query, req.query, { defaultSort: "-timestamp" });
+
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
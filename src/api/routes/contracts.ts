@@ -1,8 +1,18 @@
 // Contracts route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { ContractModel } from "../models/Contract.js";
+import { ContractAlertModel } from "../models/ContractAlert.js";
+import { getContractUsage } from "../services/contract-usage.js";
+import { runContractMonitor } from "../services/contract-monitor.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { assertReferences, deleteWithPolicies, restoreWithPolicies } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -37,49 +47,159 @@ const updateContractSchema = z.object({
   }),
 });
 
+const usageSchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  query: z.object({
+    as_of: z
+      .string()
+      .refine(value => !Number.isNaN(Date.parse(value)), "as_of must be a date")
+      .optional(),
+  }),
+});
+
+// Filters shared by the list and export endpoints
+function contractFilter(params: Request["query"]): Record<string, any> {
+  const { 
+    producer_id, 
+    facility_id, 
+    status, 
+    start_date, 
+    end_date, 
+    waste_type
+  } = params;
+
+  const query: any = {};
+
+  if (producer_id) query.producer_id = producer_id;
+  if (facility_id) query.facility_id = facility_id;
+  if (status) query.status = status;
+  if (start_date || end_date) {
+    query.start_date = {};
+    if (start_date) query.start_date.$gte = start_date;
+    if (end_date) query.end_date.$lte = end_date;
+  }
+  if (waste_type) {
+    query.waste_types_declared = { $in: [waste_type] };
+  }
+
+  return query;
+}
+
 // GET /api/contracts - List contracts with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { 
-      producer_id, 
-      facility_id, 
-      status, 
-      start_date, 
-      end_date, 
-      waste_type,
-      limit = "100" 
-    } = req.query;
+    const page = await listDocuments(ContractModel, contractFilter(req.query), req.query);
+
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/contracts/export - Stream contracts as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await streamExport(res, ContractModel, contractFilter(req.query), req.query, "contracts");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/contracts/import - Create contracts from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: ContractModel,
+        schema: createContractSchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/contracts/alerts - Quota and expiry alerts raised by the contract monitor (active only by default)
+router.get("/alerts", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { contract_id, producer_id, facility_id, type, active = "true" } = req.query;
 
     const query: any = {};
 
+    if (contract_id) query.contract_id = contract_id;
     if (producer_id) query.producer_id = producer_id;
     if (facility_id) query.facility_id = facility_id;
-    if (status) query.status = status;
-    if (start_date || end_date) {
-      query.start_date = {};
-      if (start_date) query.start_date.$gte = start_date;
-      if (end_date) query.end_date.$lte = end_date;
-    }
-    if (waste_type) {
-      query.waste_types_declared = { $in: [waste_type] };
-    }
+    if (type) query.type = type;
+    if (active !== "all") query.active = active !== "false";
+
+    const page = await listDocuments(ContractAlertModel, query, req.query, { defaultSort: "-raised_at" });
 
-    const contracts = await ContractModel.find(query).limit(parseInt(limit as string, 10));
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/contracts/monitor - Run the contract monitor now
+router.post("/monitor", requireRole("operator"), async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await runContractMonitor();
 
     res.json({
       success: true,
-      data: contracts,
-      count: contracts.length,
+      data: result,
+      message: `Checked ${result.checked} contract(s)`,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/contracts/:id - Get single contract
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/contracts/:id/usage - Consumption ledger from delivered shipments, with quota projections
+router.get("/:id/usage", validateRequest(usageSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const contract = await ContractModel.findOne({ id: req.params.id });
+    const asOf = req.query.as_of ? new Date(req.query.as_of as string) : undefined;
+    const usage = await getContractUsage(req.params.id!, asOf);
+
+    if (!usage) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Contract not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: usage,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/contracts/:id - Get single contract (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const contract = await findRecord(ContractModel, req.params.id!, req.query.as_of as string | undefined);
 
     if (!contract) {
       res.status(404).json({
@@ -98,11 +218,36 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
   }
 });
 
+// GET /api/contracts/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const versions = await getVersions(ContractModel, req.params.id!);
+
+    if (versions.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Contract not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/contracts - Create contract
-router.post("/", validateRequest(createContractSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("operator"), validateRequest(createContractSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    await assertReferences(ContractModel, req.body);
     const contract = new ContractModel(req.body);
-    await contract.save();
+    contract.$locals.actor = getActor(req);
+    await withTransaction(() => contract.save());
 
     res.status(201).json({
       success: true,
@@ -122,12 +267,15 @@ router.post("/", validateRequest(createContractSchema), async (req: Request, res
 });
 
 // PUT /api/contracts/:id - Update contract
-router.put("/:id", validateRequest(updateContractSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("operator"), validateRequest(updateContractSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const contract = await ContractModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    await assertReferences(ContractModel, req.body);
+    const contract = await withTransaction(() =>
+      ContractModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!contract) {
@@ -148,12 +296,12 @@ router.put("/:id", validateRequest(updateContractSchema), async (req: Request, r
   }
 });
 
-// DELETE /api/contracts/:id - Delete contract
-router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// DELETE /api/contracts/:id - Soft-delete contract
+router.delete("/:id", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const contract = await ContractModel.findOneAndDelete({ id: req.params.id });
+    const result = await deleteWithPolicies(ContractModel, req.params.id!, getActor(req));
 
-    if (!contract) {
+    if (!result) {
       res.status(404).json({
         success: false,
         error: { message: "Contract not found" },
@@ -163,6 +311,7 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
 
     res.json({
       success: true,
+      data: { cascaded: result.cascaded },
       message: "Contract deleted successfully",
     });
   } catch (error) {
@@ -170,4 +319,28 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
   }
 });
 
+// POST /api/contracts/:id/restore - Undo a delete, with everything deleted along with it
+router.post("/:id/restore", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await restoreWithPolicies(ContractModel, req.params.id!, getActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "No deleted contract with this ID" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.restored,
+      restored: result.dependents,
+      message: "Contract restored successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
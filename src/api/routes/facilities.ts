@@ -1,8 +1,17 @@
 // Facilities route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { FacilityModel } from "../models/Facility.js";
+import { FacilityOutflowModel } from "../models/FacilityOutflow.js";
+import { computeFacilityLoad, forecastCapacity, reconcileFacilityLoad } from "../services/facility-capacity.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { deleteWithPolicies, restoreWithPolicies } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -53,39 +62,111 @@ const updateFacilitySchema = z.object({
   }),
 });
 
+const createOutflowSchema = z.object({
+  body: z.object({
+    id: z.string().min(1),
+    date: z.string(),
+    weight_kg: z.number().positive(),
+    destination: z.string().optional(),
+    notes: z.string().optional(),
+  }),
+  params: z.object({
+    id: z.string().min(1),
+  }),
+});
+
+// Filters shared by the list and export endpoints
+function facilityFilter(params: Request["query"]): Record<string, any> {
+  const { location, type, min_capacity, ids } = params;
+
+  const query: any = {};
+
+  if (location) query.location = new RegExp(location as string, "i");
+  if (type) query.type = type;
+  if (min_capacity) query.capacity_tons = { $gte: parseFloat(min_capacity as string) };
+  if (ids) {
+    const idArray = (ids as string).split(",");
+    query.id = { $in: idArray };
+  }
+
+  return query;
+}
+
 // GET /api/facilities - List facilities with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { location, type, min_capacity, ids } = req.query;
+    const page = await listDocuments(FacilityModel, facilityFilter(req.query), req.query);
 
-    const query: any = {};
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/facilities/export - Stream facilities as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await streamExport(res, FacilityModel, facilityFilter(req.query), req.query, "facilities");
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (location) query.location = new RegExp(location as string, "i");
-    if (type) query.type = type;
-    if (min_capacity) query.capacity_tons = { $gte: parseFloat(min_capacity as string) };
-    if (ids) {
-      const idArray = (ids as string).split(",");
-      query.id = { $in: idArray };
+// POST /api/facilities/import - Create facilities from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: FacilityModel,
+        schema: createFacilitySchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
     }
+  }
+);
 
-    const facilities = await FacilityModel.find(query);
+// GET /api/facilities/:id - Get single facility (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const facility = await findRecord(FacilityModel, req.params.id!, req.query.as_of as string | undefined);
+
+    if (!facility) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Facility not found" },
+      });
+      return;
+    }
 
     res.json({
       success: true,
-      data: facilities,
-      count: facilities.length,
+      data: facility,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/facilities/:id - Get single facility
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/facilities/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const facility = await FacilityModel.findOne({ id: req.params.id });
+    const versions = await getVersions(FacilityModel, req.params.id!);
 
-    if (!facility) {
+    if (versions.length === 0) {
       res.status(404).json({
         success: false,
         error: { message: "Facility not found" },
@@ -95,7 +176,8 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
 
     res.json({
       success: true,
-      data: facility,
+      data: versions,
+      count: versions.length,
     });
   } catch (error) {
     next(error);
@@ -103,10 +185,11 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
 });
 
 // POST /api/facilities - Create facility
-router.post("/", validateRequest(createFacilitySchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("operator"), validateRequest(createFacilitySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const facility = new FacilityModel(req.body);
-    await facility.save();
+    facility.$locals.actor = getActor(req);
+    await withTransaction(() => facility.save());
 
     res.status(201).json({
       success: true,
@@ -126,12 +209,14 @@ router.post("/", validateRequest(createFacilitySchema), async (req: Request, res
 });
 
 // PUT /api/facilities/:id - Update facility
-router.put("/:id", validateRequest(updateFacilitySchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("operator"), validateRequest(updateFacilitySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const facility = await FacilityModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    const facility = await withTransaction(() =>
+      FacilityModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!facility) {
@@ -152,12 +237,38 @@ router.put("/:id", validateRequest(updateFacilitySchema), async (req: Request, r
   }
 });
 
-// DELETE /api/facilities/:id - Delete facility
-router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/facilities/:id/capacity-forecast - Project utilization from pending and in-transit shipments
+router.get(
+  "/:id/capacity-forecast",
+  validateRequest(idParamSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const forecast = await forecastCapacity(req.params.id!);
+
+      if (!forecast) {
+        res.status(404).json({
+          success: false,
+          error: { message: "Facility not found" },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: forecast,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/facilities/:id/reconcile - Recompute current load from delivered shipments and outflows
+router.post("/:id/reconcile", requireRole("operator"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const facility = await FacilityModel.findOneAndDelete({ id: req.params.id });
+    const load = await reconcileFacilityLoad(req.params.id!);
 
-    if (!facility) {
+    if (!load) {
       res.status(404).json({
         success: false,
         error: { message: "Facility not found" },
@@ -167,6 +278,102 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
 
     res.json({
       success: true,
+      data: load,
+      message: "Facility load reconciled",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/facilities/:id/outflows - Processed material that left the facility
+router.get("/:id/outflows", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const outflows = await FacilityOutflowModel.find({ facility_id: req.params.id }).sort({ date: 1 });
+
+    res.json({
+      success: true,
+      data: outflows,
+      count: outflows.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/facilities/:id/outflows - Record processed material leaving the facility
+router.post(
+  "/:id/outflows",
+  requireRole("operator"),
+  validateRequest(createOutflowSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const facilityId = req.params.id!;
+      const facility = await FacilityModel.findOne({ id: facilityId });
+
+      if (!facility) {
+        res.status(404).json({
+          success: false,
+          error: { message: "Facility not found" },
+        });
+        return;
+      }
+
+      // Can't ship out more than is there
+      const load = await computeFacilityLoad(facilityId);
+      if (req.body.weight_kg / 1000 > load.current_load_tons) {
+        res.status(409).json({
+          success: false,
+          error: {
+            message: "Outflow exceeds the facility's current load",
+            code: "OUTFLOW_EXCEEDS_LOAD",
+            details: { current_load_tons: load.current_load_tons, requested_tons: req.body.weight_kg / 1000 },
+          },
+        });
+        return;
+      }
+
+      const outflow = new FacilityOutflowModel({ ...req.body, facility_id: facilityId });
+      outflow.$locals.actor = getActor(req);
+      const reconciled = await withTransaction(async () => {
+        await outflow.save();
+        return reconcileFacilityLoad(facilityId);
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { outflow, load: reconciled },
+        message: "Outflow recorded successfully",
+      });
+    } catch (error: any) {
+      if (error.code === 11000) {
+        res.status(409).json({
+          success: false,
+          error: { message: "Outflow with this ID already exists" },
+        });
+        return;
+      }
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/facilities/:id - Soft-delete facility
+router.delete("/:id", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await deleteWithPolicies(FacilityModel, req.params.id!, getActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Facility not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { cascaded: result.cascaded },
       message: "Facility deleted successfully",
     });
   } catch (error) {
@@ -174,5 +381,29 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
   }
 });
 
+// POST /api/facilities/:id/restore - Undo a delete, with everything deleted along with it
+router.post("/:id/restore", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await restoreWithPolicies(FacilityModel, req.params.id!, getActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "No deleted facility with this ID" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.restored,
+      restored: result.dependents,
+      message: "Facility restored successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
@@ -7,9 +7,12 @@ import inspectionsRouter from "./inspections.js";
 import analyticsRouter from "./analytics.js";
 import resetRouter from "./reset.js";
 import contractsRouter from "./contracts.js";
+import contractViolationsRouter from "./contract-violations.js";
 import wasteProducersRouter from "./waste-producers.js";
 import shipmentCompositionsRouter from "./shipment-compositions.js";
 import shipmentLoadsRouter from "./shipment-loads.js";
+import integrityRouter from "./integrity.js";
+import webhooksRouter from "./webhooks.js";
 
 const router = Router();
 
@@ -21,9 +24,12 @@ router.use("/inspections", inspectionsRouter);
 router.use("/analytics", analyticsRouter);
 router.use("/reset", resetRouter);
 router.use("/contracts", contractsRouter);
+router.use("/contract-violations", contractViolationsRouter);
 router.use("/waste-producers", wasteProducersRouter);
 router.use("/shipment-compositions", shipmentCompositionsRouter);
 router.use("/shipment-loads", shipmentLoadsRouter);
+router.use("/integrity-report", integrityRouter);
+router.use("/webhooks", webhooksRouter);
 
 export default router;
 
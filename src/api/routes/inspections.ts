@@ -1,8 +1,15 @@
 // Inspections route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { InspectionModel } from "../models/Inspection.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { assertReferences, deleteWithPolicies, restoreWithPolicies } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -47,43 +54,102 @@ const updateInspectionSchema = z.object({
   }),
 });
 
+// Filters shared by the list and export endpoints
+function inspectionFilter(params: Request["query"]): Record<string, any> {
+  const { date_from, date_to, status, facility_id, shipment_id, has_risk_contaminants } = params;
+
+  const query: any = {};
+
+  if (date_from || date_to) {
+    query.date = {};
+    if (date_from) query.date.$gte = date_from;
+    if (date_to) query.date.$lte = date_to;
+  }
+  if (status) query.status = status;
+  if (facility_id) query.facility_id = facility_id;
+  if (shipment_id) query.shipment_id = shipment_id;
+  if (has_risk_contaminants === "true") {
+    query.contaminants_detected = { $exists: true, $ne: [] };
+  }
+
+  return query;
+}
+
 // GET /api/inspections - List inspections with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { date_from, date_to, status, facility_id, shipment_id, has_risk_contaminants } = req.query;
+    const page = await listDocuments(InspectionModel, inspectionFilter(req.query), req.query);
 
-    const query: any = {};
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (date_from || date_to) {
-      query.date = {};
-      if (date_from) query.date.$gte = date_from;
-      if (date_to) query.date.$lte = date_to;
-    }
-    if (status) query.status = status;
-    if (facility_id) query.facility_id = facility_id;
-    if (shipment_id) query.shipment_id = shipment_id;
-    if (has_risk_contaminants === "true") {
-      query.contaminants_detected = { $exists: true, $ne: [] };
+// GET /api/inspections/export - Stream inspections as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await streamExport(res, InspectionModel, inspectionFilter(req.query), req.query, "inspections");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/inspections/import - Create inspections from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: InspectionModel,
+        schema: createInspectionSchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
     }
+  }
+);
 
-    const inspections = await InspectionModel.find(query);
+// GET /api/inspections/:id - Get single inspection (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const inspection = await findRecord(InspectionModel, req.params.id!, req.query.as_of as string | undefined);
+
+    if (!inspection) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Inspection not found" },
+      });
+      return;
+    }
 
     res.json({
       success: true,
-      data: inspections,
-      count: inspections.length,
+      data: inspection,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/inspections/:id - Get single inspection
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/inspections/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const inspection = await InspectionModel.findOne({ id: req.params.id });
+    const versions = await getVersions(InspectionModel, req.params.id!);
 
-    if (!inspection) {
+    if (versions.length === 0) {
       res.status(404).json({
         success: false,
         error: { message: "Inspection not found" },
@@ -93,7 +159,8 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
 
     res.json({
       success: true,
-      data: inspection,
+      data: versions,
+      count: versions.length,
     });
   } catch (error) {
     next(error);
@@ -101,10 +168,12 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
 });
 
 // POST /api/inspections - Create inspection
-router.post("/", validateRequest(createInspectionSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("inspector"), validateRequest(createInspectionSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    await assertReferences(InspectionModel, req.body);
     const inspection = new InspectionModel(req.body);
-    await inspection.save();
+    inspection.$locals.actor = getActor(req);
+    await withTransaction(() => inspection.save());
 
     res.status(201).json({
       success: true,
@@ -124,12 +193,15 @@ router.post("/", validateRequest(createInspectionSchema), async (req: Request, r
 });
 
 // PUT /api/inspections/:id - Update inspection
-router.put("/:id", validateRequest(updateInspectionSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("inspector"), validateRequest(updateInspectionSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const inspection = await InspectionModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    await assertReferences(InspectionModel, req.body);
+    const inspection = await withTransaction(() =>
+      InspectionModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!inspection) {
@@ -150,12 +222,12 @@ router.put("/:id", validateRequest(updateInspectionSchema), async (req: Request,
   }
 });
 
-// DELETE /api/inspections/:id - Delete inspection
-router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// DELETE /api/inspections/:id - Soft-delete inspection
+router.delete("/:id", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const inspection = await InspectionModel.findOneAndDelete({ id: req.params.id });
+    const result = await deleteWithPolicies(InspectionModel, req.params.id!, getActor(req));
 
-    if (!inspection) {
+    if (!result) {
       res.status(404).json({
         success: false,
         error: { message: "Inspection not found" },
@@ -165,6 +237,7 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
 
     res.json({
       success: true,
+      data: { cascaded: result.cascaded },
       message: "Inspection deleted successfully",
     });
   } catch (error) {
@@ -172,5 +245,29 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
   }
 });
 
+// POST /api/inspections/:id/restore - Undo a delete, with everything deleted along with it
+router.post("/:id/restore", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await restoreWithPolicies(InspectionModel, req.params.id!, getActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "No deleted inspection with this ID" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.restored,
+      restored: result.dependents,
+      message: "Inspection restored successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
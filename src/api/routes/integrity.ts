@@ -0,0 +1,19 @@
+// Integrity report route handlers
+import { Router, Request, Response, NextFunction } from "express";
+import { buildIntegrityReport } from "../services/referential-integrity.js";
+
+const router = Router();
+
+// GET /api/integrity-report - Records whose foreign keys point at nothing, per relation
+router.get("/", async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    res.json({
+      success: true,
+      data: await buildIntegrityReport(),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from "express";
 import { seedCollections } from "../db/seed-collections.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -10,7 +11,7 @@ const router = Router();
  * WARNING: This endpoint deletesssss ALL data in the database!
  * Use only in development/testing environments.
  */
-router.post("/", async (_req: Request, res: Response) => {
+router.post("/", requireRole("admin"), async (_req: Request, res: Response) => {
   try {
     console.log("🔄 Database reset requested...");
 
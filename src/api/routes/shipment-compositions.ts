@@ -1,8 +1,15 @@
 // Shipment Compositions route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { ShipmentCompositionModel } from "../models/ShipmentComposition.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { assertReferences } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -35,45 +42,81 @@ const updateShipmentCompositionSchema = z.object({
   }),
 });
 
+// Filters shared by the list and export endpoints
+function shipmentCompositionFilter(params: Request["query"]): Record<string, any> {
+  const { 
+    shipment_id, 
+    waste_code, 
+    detected_by,
+    min_confidence,
+    max_confidence
+  } = params;
+
+  const query: any = {};
+
+  if (shipment_id) query.shipment_id = shipment_id;
+  if (waste_code) query.waste_code = waste_code;
+  if (detected_by) query.detected_by = detected_by;
+  if (min_confidence || max_confidence) {
+    query.confidence = {};
+    if (min_confidence) query.confidence.$gte = parseFloat(min_confidence as string);
+    if (max_confidence) query.confidence.$lte = parseFloat(max_confidence as string);
+  }
+
+  return query;
+}
+
 // GET /api/shipment-compositions - List shipment compositions with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { 
-      shipment_id, 
-      waste_code, 
-      detected_by,
-      min_confidence,
-      max_confidence,
-      limit = "100" 
-    } = req.query;
-
-    const query: any = {};
-
-    if (shipment_id) query.shipment_id = shipment_id;
-    if (waste_code) query.waste_code = waste_code;
-    if (detected_by) query.detected_by = detected_by;
-    if (min_confidence || max_confidence) {
-      query.confidence = {};
-      if (min_confidence) query.confidence.$gte = parseFloat(min_confidence as string);
-      if (max_confidence) query.confidence.$lte = parseFloat(max_confidence as string);
-    }
-
-    const compositions = await ShipmentCompositionModel.find(query).limit(parseInt(limit as string, 10));
+    const page = await listDocuments(ShipmentCompositionModel, shipmentCompositionFilter(req.query), req.query);
 
     res.json({
       success: true,
-      data: compositions,
-      count: compositions.length,
+      ...page,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/shipment-compositions/:id - Get single shipment composition
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/shipment-compositions/export - Stream shipment compositions as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await streamExport(res, ShipmentCompositionModel, shipmentCompositionFilter(req.query), req.query, "shipment-compositions");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/shipment-compositions/import - Create shipment compositions from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: ShipmentCompositionModel,
+        schema: createShipmentCompositionSchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/shipment-compositions/:id - Get single shipment composition (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const composition = await ShipmentCompositionModel.findOne({ id: req.params.id });
+    const composition = await findRecord(ShipmentCompositionModel, req.params.id!, req.query.as_of as string | undefined);
 
     if (!composition) {
       res.status(404).json({
@@ -92,11 +135,36 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
   }
 });
 
+// GET /api/shipment-compositions/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const versions = await getVersions(ShipmentCompositionModel, req.params.id!);
+
+    if (versions.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Shipment composition not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/shipment-compositions - Create shipment composition
-router.post("/", validateRequest(createShipmentCompositionSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("operator"), validateRequest(createShipmentCompositionSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    await assertReferences(ShipmentCompositionModel, req.body);
     const composition = new ShipmentCompositionModel(req.body);
-    await composition.save();
+    composition.$locals.actor = getActor(req);
+    await withTransaction(() => composition.save());
 
     res.status(201).json({
       success: true,
@@ -116,12 +184,15 @@ router.post("/", validateRequest(createShipmentCompositionSchema), async (req: R
 });
 
 // PUT /api/shipment-compositions/:id - Update shipment composition
-router.put("/:id", validateRequest(updateShipmentCompositionSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("operator"), validateRequest(updateShipmentCompositionSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const composition = await ShipmentCompositionModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    await assertReferences(ShipmentCompositionModel, req.body);
+    const composition = await withTransaction(() =>
+      ShipmentCompositionModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!composition) {
@@ -1,8 +1,15 @@
 // Shipment Loads route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { ShipmentLoadModel } from "../models/ShipmentLoad.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { assertReferences } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -37,58 +44,94 @@ const updateShipmentLoadSchema = z.object({
   }),
 });
 
+// Filters shared by the list and export endpoints
+function shipmentLoadFilter(params: Request["query"]): Record<string, any> {
+  const { 
+    shipment_id, 
+    camera_id, 
+    detected_at_from,
+    detected_at_to,
+    waste_code,
+    matches_contract,
+    min_confidence,
+    max_confidence
+  } = params;
+
+  const query: any = {};
+
+  if (shipment_id) query.shipment_id = shipment_id;
+  if (camera_id) query.camera_id = camera_id;
+  if (detected_at_from || detected_at_to) {
+    query.detected_at = {};
+    if (detected_at_from) query.detected_at.$gte = detected_at_from;
+    if (detected_at_to) query.detected_at.$lte = detected_at_to;
+  }
+  if (waste_code) {
+    query.waste_codes_detected = { $in: [waste_code] };
+  }
+  if (matches_contract !== undefined) {
+    query.matches_contract = matches_contract === "true";
+  }
+  if (min_confidence || max_confidence) {
+    query.analysis_confidence = {};
+    if (min_confidence) query.analysis_confidence.$gte = parseFloat(min_confidence as string);
+    if (max_confidence) query.analysis_confidence.$lte = parseFloat(max_confidence as string);
+  }
+
+  return query;
+}
+
 // GET /api/shipment-loads - List shipment loads with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { 
-      shipment_id, 
-      camera_id, 
-      detected_at_from,
-      detected_at_to,
-      waste_code,
-      matches_contract,
-      min_confidence,
-      max_confidence,
-      limit = "100" 
-    } = req.query;
-
-    const query: any = {};
-
-    if (shipment_id) query.shipment_id = shipment_id;
-    if (camera_id) query.camera_id = camera_id;
-    if (detected_at_from || detected_at_to) {
-      query.detected_at = {};
-      if (detected_at_from) query.detected_at.$gte = detected_at_from;
-      if (detected_at_to) query.detected_at.$lte = detected_at_to;
-    }
-    if (waste_code) {
-      query.waste_codes_detected = { $in: [waste_code] };
-    }
-    if (matches_contract !== undefined) {
-      query.matches_contract = matches_contract === "true";
-    }
-    if (min_confidence || max_confidence) {
-      query.analysis_confidence = {};
-      if (min_confidence) query.analysis_confidence.$gte = parseFloat(min_confidence as string);
-      if (max_confidence) query.analysis_confidence.$lte = parseFloat(max_confidence as string);
-    }
-
-    const loads = await ShipmentLoadModel.find(query).limit(parseInt(limit as string, 10));
+    const page = await listDocuments(ShipmentLoadModel, shipmentLoadFilter(req.query), req.query);
 
     res.json({
       success: true,
-      data: loads,
-      count: loads.length,
+      ...page,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/shipment-loads/:id - Get single shipment load
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/shipment-loads/export - Stream shipment loads as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await streamExport(res, ShipmentLoadModel, shipmentLoadFilter(req.query), req.query, "shipment-loads");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/shipment-loads/import - Create shipment loads from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: ShipmentLoadModel,
+        schema: createShipmentLoadSchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/shipment-loads/:id - Get single shipment load (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const load = await ShipmentLoadModel.findOne({ id: req.params.id });
+    const load = await findRecord(ShipmentLoadModel, req.params.id!, req.query.as_of as string | undefined);
 
     if (!load) {
       res.status(404).json({
@@ -107,11 +150,36 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
   }
 });
 
+// GET /api/shipment-loads/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const versions = await getVersions(ShipmentLoadModel, req.params.id!);
+
+    if (versions.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Shipment load not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/shipment-loads - Create shipment load
-router.post("/", validateRequest(createShipmentLoadSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("operator"), validateRequest(createShipmentLoadSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
+    await assertReferences(ShipmentLoadModel, req.body);
     const load = new ShipmentLoadModel(req.body);
-    await load.save();
+    load.$locals.actor = getActor(req);
+    await withTransaction(() => load.save());
 
     res.status(201).json({
       success: true,
@@ -131,12 +199,15 @@ router.post("/", validateRequest(createShipmentLoadSchema), async (req: Request,
 });
 
 // PUT /api/shipment-loads/:id - Update shipment load
-router.put("/:id", validateRequest(updateShipmentLoadSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("operator"), validateRequest(updateShipmentLoadSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const load = await ShipmentLoadModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    await assertReferences(ShipmentLoadModel, req.body);
+    const load = await withTransaction(() =>
+      ShipmentLoadModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!load) {
@@ -1,8 +1,33 @@
 // Shipments route handlers
 import { Router, Request, Response, NextFunction } from "express";
-import { ShipmentModel } from "../models/Shipment.js";
+import { withTransaction } from "../db/connection.js";
+import { ShipmentModel, ShipmentDocument, SHIPMENT_TRANSITIONS, canTransition } from "../models/Shipment.js";
+import { ShipmentStatusHistoryModel } from "../models/ShipmentStatusHistory.js";
+import { ShipmentStatus } from "../../shared/types/tool.js";
+import {
+  CapacityExceededError,
+  assertIntake,
+  checkIntake,
+  reconcileFacilityLoads,
+} from "../services/facility-capacity.js";
+import {
+  ContractCheckedShipment,
+  ContractViolationError,
+  ContractViolationFinding,
+  UnsavedShipment,
+  checkShipmentContract,
+  enforceShipmentContract,
+  getContractEnforcementMode,
+  recordContractViolations,
+} from "../services/contract-enforcement.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { assertReferences, deleteWithPolicies, restoreWithPolicies } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -11,6 +36,7 @@ const createShipmentSchema = z.object({
   body: z.object({
     id: z.string().min(1),
     facility_id: z.string().min(1),
+    producer_id: z.string().min(1).optional(),
     date: z.string(),
     status: z.enum(["pending", "in_transit", "delivered", "rejected"]),
     weight_kg: z.number().positive(),
@@ -27,6 +53,7 @@ const createShipmentSchema = z.object({
 const updateShipmentSchema = z.object({
   body: z.object({
     facility_id: z.string().min(1).optional(),
+    producer_id: z.string().min(1).optional(),
     date: z.string().optional(),
     status: z.enum(["pending", "in_transit", "delivered", "rejected"]).optional(),
     weight_kg: z.number().positive().optional(),
@@ -43,40 +70,285 @@ const updateShipmentSchema = z.object({
   }),
 });
 
-// GET /api/shipments - List shipments with filters
-router.get("/", async (req: Request, res: Response, next: NextFunction) => {
-  try {
-    const { date_from, date_to, facility_id, status, has_contaminants, limit = "100" } = req.query;
+const transitionShipmentSchema = z.object({
+  body: z.object({
+    status: z.enum(["pending", "in_transit", "delivered", "rejected"]),
+    reason: z.string().optional(),
+    actor: z.string().min(1).optional(),
+  }),
+  params: z.object({
+    id: z.string().min(1),
+  }),
+});
+
+async function recordTransition(
+  shipmentId: string,
+  from: ShipmentStatus | null,
+  to: ShipmentStatus,
+  actor: string,
+  reason?: string
+): Promise<void> {
+  await ShipmentStatusHistoryModel.create({
+    shipment_id: shipmentId,
+    from_status: from,
+    to_status: to,
+    actor,
+    ...(reason && { reason }),
+    timestamp: new Date().toISOString(),
+  });
+}
+
+interface IntakeChange {
+  facility_id: string;
+  weight_kg: number; // what the change adds to the facility
+  mode: "delivery" | "booking";
+}
+
+/**
+ * What an update adds to a facility: a delivered shipment adds to its load,
+ * a pending or in-transit one to what's booked. Only the extra weight counts
+ * when a delivered shipment stays at the same facility. Null if it adds nothing.
+ */
+function intakeChange(current: ShipmentDocument, update: Record<string, any>): IntakeChange | null {
+  const status: ShipmentStatus = update.status ?? current.status;
+  const facilityId: string = update.facility_id ?? current.facility_id;
+  const weightKg: number = update.weight_kg ?? current.weight_kg;
+  const sameFacility = facilityId === current.facility_id;
+
+  if (status === "delivered") {
+    if (current.status !== "delivered" || !sameFacility) {
+      return { facility_id: facilityId, weight_kg: weightKg, mode: "delivery" };
+    }
+    return weightKg > current.weight_kg
+      ? { facility_id: facilityId, weight_kg: weightKg - current.weight_kg, mode: "delivery" }
+      : null;
+  }
+
+  if (status === "pending" || status === "in_transit") {
+    // Booked shipments are checked whole, without their own booking
+    return !sameFacility || weightKg > current.weight_kg
+      ? { facility_id: facilityId, weight_kg: weightKg, mode: "booking" }
+      : null;
+  }
+
+  return null;
+}
+
+type StatusChangeResult =
+  | { ok: true; shipment: ShipmentDocument }
+  | { ok: false; statusCode: 404 | 409; message: string; details?: any };
+
+/**
+ * Apply an update that may change the status. Status changes must follow the
+ * lifecycle and are recorded in the status history. The update only applies if
+ * the status is still the one checked, so concurrent changes can't skip a step.
+ * Deliveries, and weight or facility changes, that would overfill the facility
+ * throw CapacityExceededError. The check and the write run in one transaction.
+ */
+async function applyStatusChange(
+  id: string,
+  update: Record<string, any>,
+  actor: string,
+  reason?: string
+): Promise<StatusChangeResult> {
+  return withTransaction(() => writeStatusChange(id, update, actor, reason));
+}
+
+async function writeStatusChange(
+  id: string,
+  update: Record<string, any>,
+  actor: string,
+  reason?: string
+): Promise<StatusChangeResult> {
+  const current = await ShipmentModel.findOne({ id });
+  if (!current) {
+    return { ok: false, statusCode: 404, message: "Shipment not found" };
+  }
+
+  await assertReferences(ShipmentModel, update);
+
+  const from = current.status;
+  const to: ShipmentStatus | undefined = update.status;
+  const changesStatus = to !== undefined && to !== from;
+
+  if (changesStatus && !canTransition(from, to)) {
+    return {
+      ok: false,
+      statusCode: 409,
+      message: `Invalid status transition: ${from} -> ${to}`,
+      details: { from, to, allowed: SHIPMENT_TRANSITIONS[from] },
+    };
+  }
+
+  const intake = intakeChange(current, update);
+  if (intake) {
+    await assertIntake(intake.facility_id, intake.weight_kg, intake.mode, id);
+  }
+
+  const shipment = await ShipmentModel.findOneAndUpdate(
+    { id, status: from },
+    { $set: update },
+    { new: true, runValidators: true, actor }
+  );
+
+  if (!shipment) {
+    return { ok: false, statusCode: 409, message: "Shipment status was changed by another request" };
+  }
+
+  if (changesStatus) {
+    await recordTransition(id, from, to, actor, reason);
+  }
 
-    const query: any = {};
+  if (from === "delivered" || shipment.status === "delivered") {
+    await reconcileFacilityLoads([current.facility_id, shipment.facility_id]);
+  }
+
+  return { ok: true, shipment };
+}
+
+/**
+ * Create a shipment: its facility and producer must exist (throws
+ * InvalidReferenceError), and it's checked against the producer's contract
+ * (throws ContractViolationError in reject mode) and the facility's capacity
+ * (throws CapacityExceededError), in the transaction that saves it. Returns the
+ * contract violations flagged in flag mode.
+ */
+async function createShipment(
+  data: Record<string, any>,
+  actor: string
+): Promise<{ shipment: ShipmentDocument; violations: ContractViolationFinding[] }> {
+  await assertReferences(ShipmentModel, data);
 
-    if (date_from || date_to) {
-      query.date = {};
-      if (date_from) query.date.$gte = date_from;
-      if (date_to) query.date.$lte = date_to;
+  // Outside the transaction: violations that reject the shipment are recorded all the same
+  const contractCheck = await enforceShipmentContract(data as ContractCheckedShipment);
+
+  const shipment = await withTransaction(async () => {
+    if (data.status !== "rejected") {
+      await assertIntake(data.facility_id, data.weight_kg, data.status === "delivered" ? "delivery" : "booking");
     }
-    if (facility_id) query.facility_id = facility_id;
-    if (status) query.status = status;
-    if (has_contaminants !== undefined) {
-      query.has_contaminants = has_contaminants === "true";
+
+    const created = new ShipmentModel(data);
+    created.$locals.actor = actor;
+    await created.save();
+    await recordTransition(created.id, null, created.status, actor, "Created");
+
+    if (created.status === "delivered") {
+      await reconcileFacilityLoads([created.facility_id]);
     }
+    return created;
+  });
+
+  const violations = contractCheck?.violations ?? [];
+  if (contractCheck && violations.length > 0) {
+    await recordContractViolations(contractCheck, "flagged");
+  }
+
+  return { shipment, violations };
+}
+
+/**
+ * Why createShipment would reject a shipment, without recording anything (for
+ * import dry runs). `accepted` are the rows before it that would have been
+ * created, which count toward contract limits and capacity like saved shipments.
+ */
+async function previewShipment(data: Record<string, any>, accepted: Record<string, any>[] = []): Promise<string[]> {
+  const problems: string[] = [];
+
+  const contractCheck = await checkShipmentContract(data as ContractCheckedShipment, accepted as UnsavedShipment[]);
+  if (contractCheck && contractCheck.violations.length > 0 && getContractEnforcementMode() === "reject") {
+    problems.push(new ContractViolationError(contractCheck).message);
+  }
+
+  if (data.status !== "rejected") {
+    const mode = data.status === "delivered" ? "delivery" : "booking";
+    // Deliveries count against the load; bookings against the load and what's on its way
+    const batchKg = accepted
+      .filter(row => row.facility_id === data.facility_id)
+      .filter(row => (mode === "delivery" ? row.status === "delivered" : row.status !== "rejected"))
+      .reduce((total, row) => total + row.weight_kg, 0);
+    const intake = await checkIntake(data.facility_id, data.weight_kg + batchKg, mode);
+    if (intake && !intake.fits) {
+      problems.push(new CapacityExceededError(intake).message);
+    }
+  }
+
+  return problems;
+}
+
+// Filters shared by the list and export endpoints
+function shipmentFilter(params: Request["query"]): Record<string, any> {
+  const { date_from, date_to, facility_id, status, has_contaminants } = params;
 
-    const shipments = await ShipmentModel.find(query).limit(parseInt(limit as string, 10));
+  const query: any = {};
+
+  if (date_from || date_to) {
+    query.date = {};
+    if (date_from) query.date.$gte = date_from;
+    if (date_to) query.date.$lte = date_to;
+  }
+  if (facility_id) query.facility_id = facility_id;
+  if (status) query.status = status;
+  if (has_contaminants !== undefined) {
+    query.has_contaminants = has_contaminants === "true";
+  }
+
+  return query;
+}
+
+// GET /api/shipments - List shipments with filters
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const page = await listDocuments(ShipmentModel, shipmentFilter(req.query), req.query);
 
     res.json({
       success: true,
-      data: shipments,
-      count: shipments.length,
+      ...page,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/shipments/:id - Get single shipment
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/shipments/export - Stream shipments as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const shipment = await ShipmentModel.findOne({ id: req.params.id });
+    await streamExport(res, ShipmentModel, shipmentFilter(req.query), req.query, "shipments");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/shipments/import - Create shipments from CSV or NDJSON rows (?dry_run=true only validates),
+// each checked like POST /api/shipments
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: ShipmentModel,
+        schema: createShipmentSchema.shape.body,
+        create: data => createShipment(data, getActor(req)),
+        preview: previewShipment,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/shipments/:id - Get single shipment (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const shipment = await findRecord(ShipmentModel, req.params.id!, req.query.as_of as string | undefined);
 
     if (!shipment) {
       res.status(404).json({
@@ -95,16 +367,42 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
   }
 });
 
-// POST /api/shipments - Create shipment
-router.post("/", validateRequest(createShipmentSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/shipments/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const versions = await getVersions(ShipmentModel, req.params.id!);
+
+    if (versions.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Shipment not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/shipments - Create shipment (checked against the producer's contract and the facility's capacity)
+router.post("/", requireRole("operator"), validateRequest(createShipmentSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const shipment = new ShipmentModel(req.body);
-    await shipment.save();
+    const { shipment, violations } = await createShipment(req.body, getActor(req));
 
     res.status(201).json({
       success: true,
       data: shipment,
-      message: "Shipment created successfully",
+      message:
+        violations.length > 0
+          ? `Shipment created with ${violations.length} contract violation(s) flagged`
+          : "Shipment created successfully",
+      ...(violations.length > 0 && { contract_violations: violations }),
     });
   } catch (error: any) {
     if (error.code === 11000) {
@@ -118,14 +416,63 @@ router.post("/", validateRequest(createShipmentSchema), async (req: Request, res
   }
 });
 
-// PUT /api/shipments/:id - Update shipment
-router.put("/:id", validateRequest(updateShipmentSchema), async (req: Request, res: Response, next: NextFunction) => {
+// PUT /api/shipments/:id - Update shipment (status changes follow the lifecycle)
+router.put("/:id", requireRole("operator"), validateRequest(updateShipmentSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { actor: _actor, ...update } = req.body;
+    const result = await applyStatusChange(req.params.id!, update, getActor(req));
+
+    if (!result.ok) {
+      res.status(result.statusCode).json({
+        success: false,
+        error: { message: result.message, ...(result.details && { details: result.details }) },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.shipment,
+      message: "Shipment updated successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/shipments/:id/transition - Move a shipment to a new status
+router.post(
+  "/:id/transition",
+  requireRole("operator"),
+  validateRequest(transitionShipmentSchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { status, reason } = req.body;
+      const result = await applyStatusChange(req.params.id!, { status }, getActor(req), reason);
+
+      if (!result.ok) {
+        res.status(result.statusCode).json({
+          success: false,
+          error: { message: result.message, ...(result.details && { details: result.details }) },
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: result.shipment,
+        message: `Shipment moved to ${status}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/shipments/:id/history - Status transitions, oldest first
+router.get("/:id/history", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const shipment = await ShipmentModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
-    );
+    const shipment = await ShipmentModel.findOne({ id: req.params.id });
 
     if (!shipment) {
       res.status(404).json({
@@ -135,22 +482,25 @@ router.put("/:id", validateRequest(updateShipmentSchema), async (req: Request, r
       return;
     }
 
+    const history = await ShipmentStatusHistoryModel.find({ shipment_id: req.params.id }).sort({ timestamp: 1 });
+
     res.json({
       success: true,
-      data: shipment,
-      message: "Shipment updated successfully",
+      data: history,
+      count: history.length,
+      allowed_transitions: SHIPMENT_TRANSITIONS[shipment.status],
     });
   } catch (error) {
     next(error);
   }
 });
 
-// DELETE /api/shipments/:id - Delete shipment
-router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// DELETE /api/shipments/:id - Soft-delete shipment
+router.delete("/:id", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const shipment = await ShipmentModel.findOneAndDelete({ id: req.params.id });
+    const result = await deleteWithPolicies(ShipmentModel, req.params.id!, getActor(req));
 
-    if (!shipment) {
+    if (!result) {
       res.status(404).json({
         success: false,
         error: { message: "Shipment not found" },
@@ -158,8 +508,13 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
       return;
     }
 
+    if (result.deleted.status === "delivered") {
+      await reconcileFacilityLoads([result.deleted.facility_id]);
+    }
+
     res.json({
       success: true,
+      data: { cascaded: result.cascaded },
       message: "Shipment deleted successfully",
     });
   } catch (error) {
@@ -167,5 +522,41 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
   }
 });
 
+// POST /api/shipments/:id/restore - Undo a delete, with everything deleted along with it
+router.post("/:id/restore", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await withTransaction(async () => {
+      // A restored shipment counts against its facility again, like a new one
+      const deleted = await ShipmentModel.findOne({ id: req.params.id!, deleted_at: { $ne: null } });
+      if (deleted && deleted.status !== "rejected") {
+        await assertIntake(deleted.facility_id, deleted.weight_kg, deleted.status === "delivered" ? "delivery" : "booking");
+      }
+
+      const restored = await restoreWithPolicies(ShipmentModel, req.params.id!, getActor(req));
+      if (restored?.restored?.status === "delivered") {
+        await reconcileFacilityLoads([restored.restored.facility_id]);
+      }
+      return restored;
+    });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "No deleted shipment with this ID" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.restored,
+      restored: result.dependents,
+      message: "Shipment restored successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
 
@@ -1,8 +1,15 @@
 // Waste Producers route handlers
 import { Router, Request, Response, NextFunction } from "express";
+import { withTransaction } from "../db/connection.js";
 import { WasteProducerModel } from "../models/WasteProducer.js";
+import { listDocuments } from "../services/list-query.js";
+import { findRecord, getVersions } from "../services/audit-log.js";
+import { deleteWithPolicies, restoreWithPolicies } from "../services/referential-integrity.js";
+import { describeImport, importBody, importFromRequest, streamExport } from "../services/bulk-transfer.js";
 import { z } from "zod";
-import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { validateRequest, idParamSchema, recordQuerySchema, importQuerySchema, exportQuerySchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
 
 const router = Router();
 
@@ -35,45 +42,81 @@ const updateWasteProducerSchema = z.object({
   }),
 });
 
+// Filters shared by the list and export endpoints
+function wasteProducerFilter(params: Request["query"]): Record<string, any> {
+  const { 
+    type, 
+    location, 
+    license_number,
+    min_contracts,
+    max_contracts
+  } = params;
+
+  const query: any = {};
+
+  if (type) query.type = type;
+  if (location) query.location = { $regex: location, $options: "i" };
+  if (license_number) query.license_number = license_number;
+  if (min_contracts || max_contracts) {
+    query.active_contracts = {};
+    if (min_contracts) query.active_contracts.$gte = parseInt(min_contracts as string, 10);
+    if (max_contracts) query.active_contracts.$lte = parseInt(max_contracts as string, 10);
+  }
+
+  return query;
+}
+
 // GET /api/waste-producers - List waste producers with filters
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { 
-      type, 
-      location, 
-      license_number,
-      min_contracts,
-      max_contracts,
-      limit = "100" 
-    } = req.query;
-
-    const query: any = {};
-
-    if (type) query.type = type;
-    if (location) query.location = { $regex: location, $options: "i" };
-    if (license_number) query.license_number = license_number;
-    if (min_contracts || max_contracts) {
-      query.active_contracts = {};
-      if (min_contracts) query.active_contracts.$gte = parseInt(min_contracts as string, 10);
-      if (max_contracts) query.active_contracts.$lte = parseInt(max_contracts as string, 10);
-    }
-
-    const producers = await WasteProducerModel.find(query).limit(parseInt(limit as string, 10));
+    const page = await listDocuments(WasteProducerModel, wasteProducerFilter(req.query), req.query);
 
     res.json({
       success: true,
-      data: producers,
-      count: producers.length,
+      ...page,
     });
   } catch (error) {
     next(error);
   }
 });
 
-// GET /api/waste-producers/:id - Get single waste producer
-router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// GET /api/waste-producers/export - Stream waste producers as CSV or NDJSON (?format=), with the list filters
+router.get("/export", validateRequest(exportQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const producer = await WasteProducerModel.findOne({ id: req.params.id });
+    await streamExport(res, WasteProducerModel, wasteProducerFilter(req.query), req.query, "waste-producers");
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/waste-producers/import - Create waste producers from CSV or NDJSON rows (?dry_run=true only validates)
+router.post(
+  "/import",
+  requireRole("admin"),
+  importBody,
+  validateRequest(importQuerySchema),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const report = await importFromRequest(req, {
+        model: WasteProducerModel,
+        schema: createWasteProducerSchema.shape.body,
+      });
+
+      res.json({
+        success: true,
+        data: report,
+        message: describeImport(report),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/waste-producers/:id - Get single waste producer (?as_of= for a past state)
+router.get("/:id", validateRequest(recordQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const producer = await findRecord(WasteProducerModel, req.params.id!, req.query.as_of as string | undefined);
 
     if (!producer) {
       res.status(404).json({
@@ -92,11 +135,35 @@ router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Res
   }
 });
 
+// GET /api/waste-producers/:id/versions - Audit history, oldest first
+router.get("/:id/versions", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const versions = await getVersions(WasteProducerModel, req.params.id!);
+
+    if (versions.length === 0) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Waste producer not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // POST /api/waste-producers - Create waste producer
-router.post("/", validateRequest(createWasteProducerSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.post("/", requireRole("operator"), validateRequest(createWasteProducerSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
     const producer = new WasteProducerModel(req.body);
-    await producer.save();
+    producer.$locals.actor = getActor(req);
+    await withTransaction(() => producer.save());
 
     res.status(201).json({
       success: true,
@@ -116,12 +183,14 @@ router.post("/", validateRequest(createWasteProducerSchema), async (req: Request
 });
 
 // PUT /api/waste-producers/:id - Update waste producer
-router.put("/:id", validateRequest(updateWasteProducerSchema), async (req: Request, res: Response, next: NextFunction) => {
+router.put("/:id", requireRole("operator"), validateRequest(updateWasteProducerSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const producer = await WasteProducerModel.findOneAndUpdate(
-      { id: req.params.id },
-      { $set: req.body },
-      { new: true, runValidators: true }
+    const producer = await withTransaction(() =>
+      WasteProducerModel.findOneAndUpdate(
+        { id: req.params.id },
+        { $set: req.body },
+        { new: true, runValidators: true, actor: getActor(req) }
+      )
     );
 
     if (!producer) {
@@ -142,12 +211,12 @@ router.put("/:id", validateRequest(updateWasteProducerSchema), async (req: Reque
   }
 });
 
-// DELETE /api/waste-producers/:id - Delete waste producer
-router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+// DELETE /api/waste-producers/:id - Soft-delete waste producer
+router.delete("/:id", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const producer = await WasteProducerModel.findOneAndDelete({ id: req.params.id });
+    const result = await deleteWithPolicies(WasteProducerModel, req.params.id!, getActor(req));
 
-    if (!producer) {
+    if (!result) {
       res.status(404).json({
         success: false,
         error: { message: "Waste producer not found" },
@@ -157,6 +226,7 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
 
     res.json({
       success: true,
+      data: { cascaded: result.cascaded },
       message: "Waste producer deleted successfully",
     });
   } catch (error) {
@@ -164,4 +234,28 @@ router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res:
   }
 });
 
+// POST /api/waste-producers/:id/restore - Undo a delete, with everything deleted along with it
+router.post("/:id/restore", requireRole("admin"), validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await restoreWithPolicies(WasteProducerModel, req.params.id!, getActor(req));
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        error: { message: "No deleted waste producer with this ID" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result.restored,
+      restored: result.dependents,
+      message: "Waste producer restored successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
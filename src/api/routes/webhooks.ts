@@ -0,0 +1,272 @@
+// Webhook route handlers - subscriptions, their delivery log and the event outbox
+import { Router, Request, Response, NextFunction } from "express";
+import { randomBytes, randomUUID } from "crypto";
+import { z } from "zod";
+import { WebhookSubscriptionModel } from "../models/WebhookSubscription.js";
+import { WebhookDeliveryModel, WEBHOOK_DELIVERY_STATUSES } from "../models/WebhookDelivery.js";
+import { OutboxEventModel } from "../models/OutboxEvent.js";
+import { listDocuments } from "../services/list-query.js";
+import { getWebhookDispatcherOptions, isEventTypePattern, redeliverWebhook, sendWebhook } from "../services/webhooks.js";
+import { validateRequest, idParamSchema } from "../middleware/validation.js";
+import { getActor } from "../middleware/actor.js";
+import { requireRole } from "../middleware/auth.js";
+
+const router = Router();
+
+// Subscriptions hold secrets and point at other systems, so they're admin-only
+router.use(requireRole("admin"));
+
+// Validation schemas
+const eventTypesSchema = z
+  .array(z.string().refine(isEventTypePattern, "Unknown event type (use an event type, <entity>.* or *)"))
+  .min(1);
+
+const createSubscriptionSchema = z.object({
+  body: z.object({
+    id: z.string().min(1).optional(),
+    url: z.string().url(),
+    event_types: eventTypesSchema,
+    secret: z.string().min(16).optional(),
+    active: z.boolean().optional(),
+    description: z.string().optional(),
+  }),
+});
+
+const updateSubscriptionSchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  body: z.object({
+    url: z.string().url().optional(),
+    event_types: eventTypesSchema.optional(),
+    secret: z.string().min(16).optional(),
+    active: z.boolean().optional(),
+    description: z.string().optional(),
+  }),
+});
+
+const deliveriesQuerySchema = z.object({
+  params: z.object({
+    id: z.string().min(1),
+  }),
+  query: z.object({
+    status: z.enum(WEBHOOK_DELIVERY_STATUSES).optional(),
+    event_type: z.string().optional(),
+  }),
+});
+
+const subscriptionNotFound = (res: Response) =>
+  res.status(404).json({
+    success: false,
+    error: { message: "Webhook subscription not found" },
+  });
+
+// GET /api/webhooks/events - The event outbox, newest first
+router.get("/events", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { type, entity_id, date_from, date_to } = req.query;
+
+    const query: any = {};
+
+    if (type) query.type = type;
+    if (entity_id) query.entity_id = entity_id;
+    if (date_from || date_to) {
+      query.occurred_at = {};
+      if (date_from) query.occurred_at.$gte = date_from;
+      if (date_to) query.occurred_at.$lte = date_to;
+    }
+
+    const page = await listDocuments(OutboxEventModel, query, req.query, { defaultSort: "-occurred_at" });
+
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/webhooks/deliveries/:id/redeliver - Send a delivery again now (one attempt)
+router.post("/deliveries/:id/redeliver", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const delivery = await redeliverWebhook(req.params.id!);
+
+    if (!delivery) {
+      res.status(404).json({
+        success: false,
+        error: { message: "Webhook delivery not found" },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: delivery,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/webhooks - List subscriptions
+router.get("/", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query: any = {};
+
+    if (req.query.active !== undefined) query.active = req.query.active === "true";
+
+    const page = await listDocuments(WebhookSubscriptionModel, query, req.query, { defaultSort: "id" });
+
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/webhooks/:id - Get subscription by ID
+router.get("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscription = await WebhookSubscriptionModel.findOne({ id: req.params.id });
+
+    if (!subscription) {
+      subscriptionNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: subscription,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/webhooks - Create subscription. The response is the only place its secret is shown.
+router.post("/", validateRequest(createSubscriptionSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscription = await WebhookSubscriptionModel.create({
+      id: `wh_${randomUUID()}`,
+      secret: randomBytes(32).toString("hex"),
+      ...req.body,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { ...subscription.toJSON(), secret: subscription.secret },
+      message: "Webhook subscription created successfully",
+    });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      res.status(409).json({
+        success: false,
+        error: { message: "Webhook subscription with this ID already exists" },
+      });
+      return;
+    }
+    next(error);
+  }
+});
+
+// PUT /api/webhooks/:id - Update subscription (deactivating it fails its pending deliveries)
+router.put("/:id", validateRequest(updateSubscriptionSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscription = await WebhookSubscriptionModel.findOneAndUpdate({ id: req.params.id }, req.body, {
+      new: true,
+      runValidators: true,
+    });
+
+    if (!subscription) {
+      subscriptionNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: subscription,
+      message: "Webhook subscription updated successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/webhooks/:id - Delete subscription (its delivery log is kept)
+router.delete("/:id", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscription = await WebhookSubscriptionModel.findOneAndDelete({ id: req.params.id });
+
+    if (!subscription) {
+      subscriptionNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: subscription,
+      message: "Webhook subscription deleted successfully",
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/webhooks/:id/deliveries - Delivery log, newest first, with every attempt
+router.get("/:id/deliveries", validateRequest(deliveriesQuerySchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const query: any = { subscription_id: req.params.id };
+
+    if (req.query.status) query.status = req.query.status;
+    if (req.query.event_type) query.event_type = req.query.event_type;
+
+    const page = await listDocuments(WebhookDeliveryModel, query, req.query, { defaultSort: "-_id" });
+
+    res.json({
+      success: true,
+      ...page,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/webhooks/:id/test - Send a signed webhook.test event now and report how the receiver answered
+router.post("/:id/test", validateRequest(idParamSchema), async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const subscription = await WebhookSubscriptionModel.findOne({ id: req.params.id });
+
+    if (!subscription) {
+      subscriptionNotFound(res);
+      return;
+    }
+
+    const attempt = await sendWebhook(
+      subscription,
+      {
+        id: `evt_test_${randomUUID()}`,
+        type: "webhook.test",
+        entity: "WebhookSubscription",
+        entity_id: subscription.id,
+        actor: getActor(req),
+        occurred_at: new Date().toISOString(),
+        data: { message: "Test delivery" },
+      },
+      `whd_test_${randomUUID()}`,
+      getWebhookDispatcherOptions().timeoutMs
+    );
+
+    // 502 when the receiver couldn't be reached or didn't answer 2xx
+    res.status(attempt.error ? 502 : 200).json({
+      success: !attempt.error,
+      data: attempt,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
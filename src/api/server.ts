@@ -8,7 +8,12 @@ import swaggerUi from "swagger-ui-express";
 import { connectDB } from "./db/connection.js";
 import routes from "./routes/index.js";
 import { errorHandler, notFoundHandler } from "./middleware/errorHandler.js";
+import { authenticate } from "./middleware/auth.js";
+import { isAuthEnabled } from "../shared/auth/credentials.js";
 import { swaggerSpec } from "./swagger.js";
+import { startContractMonitor } from "./services/contract-monitor.js";
+import { startWebhookDispatcher } from "./services/webhooks.js";
+import { getRelations } from "./services/referential-integrity.js";
 
 // Load environment variables
 dotenv.config();
@@ -17,8 +22,11 @@ const app: Express = express();
 const PORT = parseInt(process.env.PORT || '4000');
 
 // Middleware
+// Browsers may call from CORS_ORIGINS (comma-separated) only; any origin when it's unset
+const corsOrigins = process.env.CORS_ORIGINS?.split(',').map(origin => origin.trim()).filter(Boolean);
+
 app.use(cors({
-  origin: '*',
+  origin: corsOrigins && corsOrigins.length > 0 ? corsOrigins : '*',
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowedHeaders: [
@@ -27,6 +35,8 @@ app.use(cors({
     'Content-Type',
     'Accept',
     'Authorization',
+    'X-API-Key',
+    'X-Actor',
     'Cache-Control',
     'Pragma'
   ],
@@ -71,8 +81,8 @@ app.get("/swagger.json", (_req: any, res: any) => {
   res.send(swaggerSpec);
 });
 
-// API routes
-app.use("/api", routes);
+// API routes (every caller is authenticated; write routes also check the role)
+app.use("/api", authenticate, routes);
 
 // Error handlers (must be last)
 app.use(notFoundHandler);
@@ -81,9 +91,18 @@ app.use(errorHandler);
 // Start server
 async function startServer() {
   try {
+    // Fail on a bad REFERENTIAL_DELETE_POLICIES before taking requests
+    getRelations();
+
     // Connect to MongoDB
     await connectDB();
 
+    // Expire past-end contracts and raise quota/expiry alerts on a schedule
+    startContractMonitor();
+
+    // Send outbox events to webhook subscriptions, retrying failed deliveries
+    startWebhookDispatcher();
+
     // Start listening on 0.0.0.0 for Railway/cloud deployments
     app.listen(PORT, '0.0.0.0', () => {
       const host = process.env.NODE_ENV === 'production' 
@@ -94,12 +113,17 @@ async function startServer() {
       console.log(`✓ Health check: ${host}/health`);
       console.log(`✓ API Documentation: ${host}/api-docs`);
       console.log(`✓ API endpoints: ${host}/api`);
+      if (!isAuthEnabled()) {
+        console.warn("⚠ Authentication is off - set API_KEYS or JWT_SECRET to require credentials");
+      }
       console.log("\nAvailable endpoints:");
       console.log(`  - GET/POST/PUT/DELETE /api/shipments`);
       console.log(`  - GET/POST/PUT/DELETE /api/facilities`);
       console.log(`  - GET/POST/PUT/DELETE /api/contaminants-detected`);
       console.log(`  - GET/POST/PUT/DELETE /api/inspections`);
       console.log(`  - GET /api/analytics/*`);
+      console.log(`  - GET /api/contracts/:id/usage, GET /api/contracts/alerts`);
+      console.log(`  - GET/POST/PUT/DELETE /api/webhooks, GET /api/webhooks/events`);
       console.log("\nPress Ctrl+C to stop\n");
     });
   } catch (error) {
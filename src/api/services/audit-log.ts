@@ -0,0 +1,37 @@
+// Audit log - a record's versions and its state at a point in time
+import { Model } from "mongoose";
+import { AuditEntryDocument, AuditEntryModel } from "../models/AuditEntry.js";
+
+/**
+ * Every audit entry for a record, oldest first. Deleted records keep theirs.
+ */
+export async function getVersions(model: Model<any>, id: string): Promise<AuditEntryDocument[]> {
+  return AuditEntryModel.find({ entity: model.modelName, entity_id: id }).sort({ version: 1 });
+}
+
+/**
+ * A record as it was at asOf (any date Date.parse accepts), from the last
+ * audit entry at or before then. Null when it didn't exist yet or was deleted.
+ */
+export async function getRecordAsOf(
+  model: Model<any>,
+  id: string,
+  asOf: string
+): Promise<Record<string, any> | null> {
+  const entry = await AuditEntryModel.findOne({
+    entity: model.modelName,
+    entity_id: id,
+    timestamp: { $lte: new Date(asOf).toISOString() },
+  })
+    .sort({ version: -1 })
+    .lean();
+
+  return entry && entry.action !== "delete" ? entry.snapshot : null;
+}
+
+/**
+ * The record with this id: as it is now, or as it was at asOf when given
+ */
+export async function findRecord(model: Model<any>, id: string, asOf?: string): Promise<any> {
+  return asOf ? getRecordAsOf(model, id, asOf) : model.findOne({ id });
+}
@@ -0,0 +1,393 @@
+// Bulk transfer - CSV and NDJSON imports validated row by row, and streamed exports
+import { once } from "events";
+import express, { Request, Response } from "express";
+import { Model } from "mongoose";
+import { z } from "zod";
+import { withTransaction } from "../db/connection.js";
+import { ApiError } from "../middleware/errorHandler.js";
+import { getActor } from "../middleware/actor.js";
+import { SYSTEM_ACTOR } from "../models/audit.js";
+import { formatCSVRow, parseCSV } from "../../shared/utils/csv.js";
+import { numericRangeFilter, parseFields, parseSort } from "./list-query.js";
+import { findMissingReferences } from "./referential-integrity.js";
+
+export const BULK_FORMATS = ["csv", "ndjson"] as const;
+export type BulkFormat = (typeof BULK_FORMATS)[number];
+
+export const MAX_IMPORT_ROWS = 10000;
+
+// Timestamps and internals aren't part of an entity's data
+const INTERNAL_PATHS = new Set(["_id", "__v", "createdAt", "updatedAt", "deleted_at"]);
+
+/**
+ * Everything wrong with one row. Rows are numbered from 1 in file order (a CSV header isn't a row).
+ */
+export interface ImportRowError {
+  row: number;
+  id?: string;
+  errors: string[];
+}
+
+export interface ImportReport {
+  dry_run: boolean;
+  format: BulkFormat;
+  total_rows: number;
+  valid_rows: number;
+  imported: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+export interface ImportOptions<T> {
+  model: Model<any>;
+  schema: z.ZodType<T>; // The create endpoint's body schema
+  format: BulkFormat;
+  dryRun: boolean;
+  create?: (row: T) => Promise<unknown>; // Defaults to saving a new model document; throw to reject a row
+  actor?: string; // Who the default create attributes records to in the audit log
+  preview?: (row: T, accepted: T[]) => Promise<string[]>; // On dry runs, why create would reject a row after the rows accepted before it
+}
+
+export interface ParsedRow {
+  row: number;
+  value?: Record<string, any>;
+  errors?: string[];
+}
+
+export class BulkTransferError extends Error implements ApiError {
+  statusCode = 400;
+  code = "INVALID_IMPORT";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "BulkTransferError";
+  }
+}
+
+// Import bodies arrive as text; JSON bodies are already handled by express.json
+export const importBody = express.text({
+  type: ["text/csv", "application/x-ndjson", "application/ndjson", "text/plain"],
+  limit: "10mb",
+});
+
+/**
+ * The format from ?format=, falling back to the Content-Type
+ */
+export function detectImportFormat(contentType: string | undefined, format?: unknown): BulkFormat {
+  if (format !== undefined) {
+    if (!BULK_FORMATS.includes(format as BulkFormat)) {
+      throw new BulkTransferError(`format must be one of: ${BULK_FORMATS.join(", ")}`);
+    }
+    return format as BulkFormat;
+  }
+  if (contentType?.includes("csv")) return "csv";
+  if (contentType?.includes("ndjson")) return "ndjson";
+  throw new BulkTransferError("Send text/csv or application/x-ndjson, or set ?format=csv|ndjson");
+}
+
+/**
+ * The model's data fields, with nested fields as dotted paths (e.g. coordinates.lat)
+ */
+export function exportColumns(model: Model<any>): string[] {
+  const columns: string[] = [];
+  model.schema.eachPath(path => {
+    if (!INTERNAL_PATHS.has(path)) {
+      columns.push(path);
+    }
+  });
+  return columns;
+}
+
+// CSV cells are text; turn them into the types the model declares so the zod schema sees real values
+function parseCell(model: Model<any>, column: string, cell: string): unknown {
+  switch (model.schema.path(column)?.instance) {
+    case "Number": {
+      const number = Number(cell);
+      return Number.isNaN(number) ? cell : number;
+    }
+    case "Boolean": {
+      const lower = cell.toLowerCase();
+      return lower === "true" ? true : lower === "false" ? false : cell;
+    }
+    case "Array":
+      return cell.split(";").map(item => item.trim()).filter(Boolean);
+    case "Mixed":
+      try {
+        return JSON.parse(cell);
+      } catch {
+        return cell;
+      }
+    default:
+      return cell;
+  }
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split(".");
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    node = node[key] ??= {};
+  }
+  node[last] = value;
+}
+
+function getPath(source: Record<string, any>, path: string): unknown {
+  return path.split(".").reduce<any>((node, key) => node?.[key], source);
+}
+
+/**
+ * Split an import body into rows. Malformed rows carry their errors; a bad
+ * header or unreadable file throws BulkTransferError.
+ */
+export function parseImportRows(model: Model<any>, body: string, format: BulkFormat): ParsedRow[] {
+  if (format === "ndjson") {
+    return body
+      .split(/\r?\n/)
+      .filter(line => line.trim() !== "")
+      .map((line, index) => {
+        const row = index + 1;
+        try {
+          const value = JSON.parse(line);
+          if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            return { row, errors: ["Each line must be a JSON object"] };
+          }
+          return { row, value };
+        } catch {
+          return { row, errors: ["Invalid JSON"] };
+        }
+      });
+  }
+
+  let records: string[][];
+  try {
+    records = parseCSV(body);
+  } catch (error: any) {
+    throw new BulkTransferError(`Invalid CSV: ${error.message}`);
+  }
+
+  const [header = [], ...rows] = records;
+  const columns = header.map(column => column.trim());
+  const known = new Set(exportColumns(model));
+  const unknown = columns.filter(column => !known.has(column));
+  if (unknown.length > 0) {
+    throw new BulkTransferError(`Unknown columns: ${unknown.join(", ")}`);
+  }
+
+  return rows.map((cells, index) => {
+    const row = index + 1;
+    if (cells.length !== columns.length) {
+      return { row, errors: [`Expected ${columns.length} cells, got ${cells.length}`] };
+    }
+    const value: Record<string, any> = {};
+    columns.forEach((column, i) => {
+      // Empty cells are missing values, so optional fields can be left blank
+      if (cells[i] !== "") {
+        setPath(value, column, parseCell(model, column, cells[i]!));
+      }
+    });
+    return { row, value };
+  });
+}
+
+function rowId(value: Record<string, any> | undefined): string | undefined {
+  return typeof value?.id === "string" ? value.id : undefined;
+}
+
+/**
+ * Validate rows with the entity's schema, check ids against the file and the
+ * database and foreign keys against the database, then create the valid ones (unless it's a dry run). Rows that fail
+ * are reported and skipped; the rest are still imported. Dry runs check rows
+ * against the data as it is, without the rows before them.
+ */
+export async function importDocuments<T>(rows: ParsedRow[], options: ImportOptions<T>): Promise<ImportReport> {
+  if (rows.length === 0) {
+    throw new BulkTransferError("No rows to import");
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new BulkTransferError(`Imports are limited to ${MAX_IMPORT_ROWS} rows, got ${rows.length}`);
+  }
+
+  const { model, schema, dryRun } = options;
+  const failures = new Map<number, ImportRowError>();
+  const fail = (row: number, id: string | undefined, errors: string[]) => {
+    const entry = failures.get(row) ?? { row, ...(id && { id }), errors: [] };
+    entry.errors.push(...errors);
+    failures.set(row, entry);
+  };
+
+  const valid: Array<{ row: number; id: string | undefined; data: T }> = [];
+  const firstRowById = new Map<string, number>();
+
+  for (const parsed of rows) {
+    const id = rowId(parsed.value);
+    if (parsed.errors) {
+      fail(parsed.row, id, parsed.errors);
+      continue;
+    }
+
+    const result = schema.safeParse(parsed.value);
+    if (!result.success) {
+      fail(
+        parsed.row,
+        id,
+        result.error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+      );
+      continue;
+    }
+
+    if (id !== undefined) {
+      const first = firstRowById.get(id);
+      if (first !== undefined) {
+        fail(parsed.row, id, [`Duplicate id ${id} (first used on row ${first})`]);
+        continue;
+      }
+      firstRowById.set(id, parsed.row);
+    }
+    valid.push({ row: parsed.row, id, data: result.data });
+  }
+
+  const existing = new Set<string>(
+    firstRowById.size > 0
+      ? (await model.find({ id: { $in: [...firstRowById.keys()] } }, "id").lean()).map((doc: any) => doc.id)
+      : []
+  );
+
+  // Rows are created one at a time, so each sees the rows imported before it
+  const create =
+    options.create ??
+    ((data: T) => {
+      const doc = new model(data);
+      doc.$locals.actor = options.actor ?? SYSTEM_ACTOR;
+      return withTransaction(() => doc.save());
+    });
+  let validRows = 0;
+  let imported = 0;
+  const accepted: T[] = []; // Dry runs stand in for the rows created so far
+  for (const entry of valid) {
+    if (entry.id !== undefined && existing.has(entry.id)) {
+      fail(entry.row, entry.id, [`id ${entry.id} already exists`]);
+      continue;
+    }
+    try {
+      const missing = await findMissingReferences(model, entry.data as Record<string, any>);
+      if (missing.length > 0) {
+        fail(
+          entry.row,
+          entry.id,
+          missing.map(ref => `${ref.field}: ${ref.value} does not match any ${ref.references}`)
+        );
+        continue;
+      }
+
+      if (dryRun) {
+        const problems = options.preview ? await options.preview(entry.data, accepted) : [];
+        if (problems.length > 0) {
+          fail(entry.row, entry.id, problems);
+          continue;
+        }
+        accepted.push(entry.data);
+      } else {
+        await create(entry.data);
+        imported++;
+      }
+      validRows++;
+    } catch (error: any) {
+      fail(entry.row, entry.id, [error.code === 11000 ? `id ${entry.id} already exists` : error.message]);
+    }
+  }
+
+  const errors = [...failures.values()].sort((a, b) => a.row - b.row);
+  return {
+    dry_run: dryRun,
+    format: options.format,
+    total_rows: rows.length,
+    valid_rows: validRows,
+    imported,
+    failed: errors.length,
+    errors,
+  };
+}
+
+/**
+ * Import a request's body, reading ?format= and ?dry_run=true from its query
+ */
+export async function importFromRequest<T>(
+  req: Request,
+  options: Omit<ImportOptions<T>, "format" | "dryRun">
+): Promise<ImportReport> {
+  const format = detectImportFormat(req.header("content-type"), req.query.format);
+  if (typeof req.body !== "string") {
+    throw new BulkTransferError("Send the rows as text/csv or application/x-ndjson");
+  }
+  const rows = parseImportRows(options.model, req.body, format);
+  return importDocuments(rows, { actor: getActor(req), ...options, format, dryRun: req.query.dry_run === "true" });
+}
+
+export function describeImport(report: ImportReport): string {
+  return report.dry_run
+    ? `Dry run: ${report.valid_rows} of ${report.total_rows} rows would be imported`
+    : `Imported ${report.imported} of ${report.total_rows} rows`;
+}
+
+function csvCell(value: unknown): string | number | boolean | null | undefined {
+  if (Array.isArray(value)) return value.join(";");
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return value as string | number | boolean | null | undefined;
+}
+
+/**
+ * Stream every document matching the filter as CSV or NDJSON. Takes the list
+ * endpoints' sort, fields and <field>_min/<field>_max parameters.
+ */
+export async function streamExport(
+  res: Response,
+  model: Model<any>,
+  filter: Record<string, any>,
+  query: Record<string, any>,
+  name: string
+): Promise<void> {
+  const format = (query.format ?? "csv") as BulkFormat;
+  if (!BULK_FORMATS.includes(format)) {
+    throw new BulkTransferError(`format must be one of: ${BULK_FORMATS.join(", ")}`);
+  }
+
+  // Parse everything before the headers go out, so bad parameters still get a 400
+  const sort = parseSort(model, query.sort);
+  const fields = parseFields(model, query.fields);
+  const ranges = numericRangeFilter(model, query);
+  const where = Object.keys(ranges).length > 0 ? { $and: [filter, ranges] } : filter;
+  const columns = exportColumns(model).filter(
+    column => !fields || column === "id" || fields.some(field => column === field || column.startsWith(`${field}.`))
+  );
+
+  res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/x-ndjson; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${name}.${format}"`);
+
+  const write = async (chunk: string) => {
+    if (!res.write(chunk)) {
+      await once(res, "drain");
+    }
+  };
+
+  try {
+    if (format === "csv") {
+      await write(formatCSVRow(columns) + "\n");
+    }
+
+    for await (const doc of model.find(where).sort(Object.fromEntries(sort)).cursor()) {
+      const json = doc.toJSON();
+      if (format === "csv") {
+        await write(formatCSVRow(columns.map(column => csvCell(getPath(json, column)))) + "\n");
+      } else {
+        const picked = fields ? Object.fromEntries(Object.entries(json).filter(([key]) => key === "id" || fields.includes(key))) : json;
+        await write(JSON.stringify(picked) + "\n");
+      }
+    }
+    res.end();
+  } catch (error) {
+    // The status is already sent, so all that's left is cutting the response short
+    console.error(`[ERROR] Export of ${name} failed:`, error);
+    res.destroy(error as Error);
+  }
+}
@@ -0,0 +1,248 @@
+// Contract enforcement - check new shipments against the producer's contract
+import { ContractModel, ContractDocument, IContract } from "../models/Contract.js";
+import { ShipmentModel } from "../models/Shipment.js";
+import {
+  ContractViolationModel,
+  ContractViolationAction,
+  ContractViolationType,
+} from "../models/ContractViolation.js";
+import { ApiError } from "../middleware/errorHandler.js";
+import { Shipment } from "../../shared/types/tool.js";
+
+// reject: refuse shipments that break their contract. flag: accept them and record the violations.
+export type ContractEnforcementMode = "reject" | "flag";
+
+export type ContractCheckedShipment = Pick<
+  Shipment,
+  "id" | "facility_id" | "producer_id" | "date" | "weight_kg" | "waste_type" | "waste_code"
+>;
+
+// A shipment that counts toward its contract before it's saved
+export type UnsavedShipment = ContractCheckedShipment & Pick<Shipment, "status">;
+
+export interface ContractViolationFinding {
+  type: ContractViolationType;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface ContractCheck {
+  shipment_id: string;
+  producer_id: string;
+  facility_id: string;
+  contract_id: string | null;
+  violations: ContractViolationFinding[];
+}
+
+export class ContractViolationError extends Error implements ApiError {
+  statusCode = 422;
+  code = "CONTRACT_VIOLATION";
+  details: ContractCheck;
+
+  constructor(check: ContractCheck) {
+    super(
+      `Shipment ${check.shipment_id} violates ${check.contract_id ? `contract ${check.contract_id}` : "its producer's contract terms"}: ${check.violations.map(v => v.message).join("; ")}`
+    );
+    this.name = "ContractViolationError";
+    this.details = check;
+  }
+}
+
+/**
+ * Enforcement mode from CONTRACT_ENFORCEMENT_MODE (defaults to reject)
+ */
+export function getContractEnforcementMode(): ContractEnforcementMode {
+  return process.env.CONTRACT_ENFORCEMENT_MODE === "flag" ? "flag" : "reject";
+}
+
+// Dates are stored as ISO strings, so the day compares lexicographically
+function day(date: string): string {
+  return date.slice(0, 10);
+}
+
+function covers(contract: Pick<IContract, "start_date" | "end_date">, date: string): boolean {
+  return day(contract.start_date) <= day(date) && day(date) <= day(contract.end_date);
+}
+
+/**
+ * Pick the contract a shipment falls under: an active one covering its date,
+ * then any covering its date, then the one that ended last
+ */
+export function selectContract<T extends IContract>(contracts: T[], date: string): T | null {
+  return (
+    contracts.find(c => c.status === "active" && covers(c, date)) ??
+    contracts.find(c => covers(c, date)) ??
+    [...contracts].sort((a, b) => day(b.end_date).localeCompare(day(a.end_date)))[0] ??
+    null
+  );
+}
+
+/**
+ * Check a shipment against a contract. usedKg is what the producer has already
+ * shipped to the facility within the contract period.
+ */
+export function findContractViolations(
+  shipment: ContractCheckedShipment,
+  contract: IContract | null,
+  usedKg: number
+): ContractViolationFinding[] {
+  if (!contract) {
+    return [
+      {
+        type: "no_contract",
+        message: `Producer ${shipment.producer_id} has no contract with facility ${shipment.facility_id}`,
+      },
+    ];
+  }
+
+  const violations: ContractViolationFinding[] = [];
+
+  if (contract.status === "suspended") {
+    violations.push({ type: "contract_suspended", message: `Contract ${contract.id} is suspended` });
+  } else if (contract.status === "expired") {
+    violations.push({ type: "contract_expired", message: `Contract ${contract.id} has expired` });
+  }
+
+  if (!covers(contract, shipment.date)) {
+    violations.push({
+      type: "outside_contract_period",
+      message: `Shipment date ${day(shipment.date)} is outside the contract period ${day(contract.start_date)} to ${day(contract.end_date)}`,
+      details: { date: shipment.date, start_date: contract.start_date, end_date: contract.end_date },
+    });
+  }
+
+  // Declared types may be waste codes or waste types; only check what the shipment states
+  const stated = [shipment.waste_code, shipment.waste_type].filter((value): value is string => !!value);
+  if (stated.length > 0 && !stated.some(value => contract.waste_types_declared.includes(value))) {
+    violations.push({
+      type: "undeclared_waste_type",
+      message: `Waste ${stated.join(" / ")} is not declared in contract ${contract.id}`,
+      details: { stated, declared: contract.waste_types_declared },
+    });
+  }
+
+  const projectedKg = usedKg + shipment.weight_kg;
+  if (projectedKg > contract.max_weight_kg) {
+    violations.push({
+      type: "weight_limit_exceeded",
+      message: `Shipment would bring contract ${contract.id} to ${projectedKg}kg, over its ${contract.max_weight_kg}kg limit`,
+      details: { used_kg: usedKg, shipment_kg: shipment.weight_kg, projected_kg: projectedKg, max_weight_kg: contract.max_weight_kg },
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Query for the producer's shipments to the facility within the contract period
+ */
+export function contractShipmentsFilter(contract: IContract): Record<string, any> {
+  return {
+    producer_id: contract.producer_id,
+    facility_id: contract.facility_id,
+    date: { $gte: day(contract.start_date), $lte: `${day(contract.end_date)}T23:59:59.999Z` },
+  };
+}
+
+/**
+ * Weight the producer has shipped to the facility within the contract period
+ * (rejected shipments don't count)
+ */
+export async function contractShippedKg(contract: IContract, excludeShipmentId?: string): Promise<number> {
+  const [result] = await ShipmentModel.aggregate([
+    {
+      $match: {
+        ...contractShipmentsFilter(contract),
+        status: { $ne: "rejected" },
+        ...(excludeShipmentId && { id: { $ne: excludeShipmentId } }),
+      },
+    },
+    { $group: { _id: null, total: { $sum: "$weight_kg" } } },
+  ]);
+  return result?.total ?? 0;
+}
+
+/**
+ * What unsaved shipments add to the producer's shipments to the facility
+ * within the contract period (rejected ones don't count)
+ */
+function unsavedShippedKg(contract: IContract, shipments: UnsavedShipment[]): number {
+  return shipments
+    .filter(
+      s =>
+        s.producer_id === contract.producer_id &&
+        s.facility_id === contract.facility_id &&
+        s.status !== "rejected" &&
+        covers(contract, s.date)
+    )
+    .reduce((total, s) => total + s.weight_kg, 0);
+}
+
+/**
+ * Check a shipment against its producer's contract with the facility.
+ * `alsoShipped` are shipments not saved yet (earlier rows of an import dry
+ * run) that count toward the contract's weight limit like saved ones.
+ * Returns null for shipments without a producer, which have no contract to check.
+ */
+export async function checkShipmentContract(
+  shipment: ContractCheckedShipment,
+  alsoShipped: UnsavedShipment[] = []
+): Promise<ContractCheck | null> {
+  if (!shipment.producer_id) {
+    return null;
+  }
+
+  const contracts: ContractDocument[] = await ContractModel.find({
+    producer_id: shipment.producer_id,
+    facility_id: shipment.facility_id,
+  });
+  const contract = selectContract(contracts, shipment.date);
+  const usedKg = contract ? (await contractShippedKg(contract, shipment.id)) + unsavedShippedKg(contract, alsoShipped) : 0;
+
+  return {
+    shipment_id: shipment.id,
+    producer_id: shipment.producer_id,
+    facility_id: shipment.facility_id,
+    contract_id: contract?.id ?? null,
+    violations: findContractViolations(shipment, contract, usedKg),
+  };
+}
+
+/**
+ * Write a check's violations to the contract_violations collection
+ */
+export async function recordContractViolations(check: ContractCheck, action: ContractViolationAction): Promise<void> {
+  if (check.violations.length === 0) {
+    return;
+  }
+
+  const timestamp = new Date().toISOString();
+  await ContractViolationModel.insertMany(
+    check.violations.map(violation => ({
+      shipment_id: check.shipment_id,
+      producer_id: check.producer_id,
+      facility_id: check.facility_id,
+      contract_id: check.contract_id,
+      ...violation,
+      action,
+      timestamp,
+    }))
+  );
+}
+
+/**
+ * Check a new shipment. In reject mode violations are recorded and thrown as a
+ * ContractViolationError; in flag mode the check is returned for the caller to
+ * record once the shipment is saved.
+ */
+export async function enforceShipmentContract(
+  shipment: ContractCheckedShipment,
+  mode: ContractEnforcementMode = getContractEnforcementMode()
+): Promise<ContractCheck | null> {
+  const check = await checkShipmentContract(shipment);
+  if (check && check.violations.length > 0 && mode === "reject") {
+    await recordContractViolations(check, "rejected");
+    throw new ContractViolationError(check);
+  }
+  return check;
+}
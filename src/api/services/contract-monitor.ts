@@ -0,0 +1,186 @@
+// Contract monitor - scheduled job that expires past-end contracts and raises quota and expiry alerts
+import { withTransaction } from "../db/connection.js";
+import { ContractModel } from "../models/Contract.js";
+import { ContractAlertModel, ContractAlertType } from "../models/ContractAlert.js";
+import { ContractUsage, computeContractUsage } from "./contract-usage.js";
+import { getEnvBoolean, getEnvNumber } from "../../shared/utils/env.js";
+
+export interface ContractMonitorOptions {
+  enabled: boolean;
+  intervalMs: number;
+  quotaAlertPct: number; // Alert once this share of max_weight_kg is delivered
+  expiryAlertDays: number; // Alert this many days before end_date
+}
+
+export interface ContractAlertFinding {
+  contract_id: string;
+  producer_id: string;
+  facility_id: string;
+  type: ContractAlertType;
+  message: string;
+  details?: Record<string, any>;
+}
+
+export interface ContractMonitorResult {
+  ran_at: string;
+  checked: number;
+  expired: string[];
+  alerts: ContractAlertFinding[];
+  resolved: number;
+}
+
+export function getContractMonitorOptions(): ContractMonitorOptions {
+  return {
+    enabled: getEnvBoolean("CONTRACT_MONITOR_ENABLED", true),
+    intervalMs: getEnvNumber("CONTRACT_MONITOR_INTERVAL_MINUTES", 60) * 60 * 1000,
+    quotaAlertPct: getEnvNumber("CONTRACT_QUOTA_ALERT_PCT", 90),
+    expiryAlertDays: getEnvNumber("CONTRACT_EXPIRY_ALERT_DAYS", 30),
+  };
+}
+
+/**
+ * Alerts for an active contract's usage
+ */
+export function evaluateContractAlerts(
+  usage: ContractUsage,
+  options: Pick<ContractMonitorOptions, "quotaAlertPct" | "expiryAlertDays">
+): ContractAlertFinding[] {
+  const base = { contract_id: usage.contract_id, producer_id: usage.producer_id, facility_id: usage.facility_id };
+  const alerts: ContractAlertFinding[] = [];
+
+  if (usage.used_pct >= 100) {
+    alerts.push({
+      ...base,
+      type: "quota_exhausted",
+      message: `Contract ${usage.contract_id} has used its full ${usage.max_weight_kg}kg quota`,
+      details: { used_kg: usage.used_kg, max_weight_kg: usage.max_weight_kg, exhausted_on: usage.exhausted_on },
+    });
+  } else if (usage.used_pct >= options.quotaAlertPct) {
+    alerts.push({
+      ...base,
+      type: "quota_nearing",
+      message: `Contract ${usage.contract_id} has used ${usage.used_pct}% of its quota`,
+      details: {
+        used_kg: usage.used_kg,
+        remaining_kg: usage.remaining_kg,
+        used_pct: usage.used_pct,
+        projected_exhaustion_date: usage.projected_exhaustion_date,
+      },
+    });
+  }
+
+  if (usage.days_remaining <= options.expiryAlertDays) {
+    alerts.push({
+      ...base,
+      type: "end_date_nearing",
+      message: `Contract ${usage.contract_id} ends in ${usage.days_remaining} day(s), on ${usage.end_date}`,
+      details: { end_date: usage.end_date, days_remaining: usage.days_remaining },
+    });
+  }
+
+  return alerts;
+}
+
+async function saveAlert(alert: ContractAlertFinding, ranAt: string): Promise<void> {
+  const existing = await ContractAlertModel.findOne({ contract_id: alert.contract_id, type: alert.type });
+
+  // A condition that comes back after being resolved is a new alert
+  const raisedAt = existing?.active ? existing.raised_at : ranAt;
+
+  await ContractAlertModel.updateOne(
+    { contract_id: alert.contract_id, type: alert.type },
+    {
+      $set: { ...alert, active: true, raised_at: raisedAt, last_checked_at: ranAt },
+      $unset: { resolved_at: "" },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Mark contracts past their end date as expired, then check every active
+ * contract's quota and end date. Alerts that no longer apply are resolved.
+ */
+export async function runContractMonitor(
+  now: Date = new Date(),
+  options: Pick<ContractMonitorOptions, "quotaAlertPct" | "expiryAlertDays"> = getContractMonitorOptions()
+): Promise<ContractMonitorResult> {
+  const ranAt = now.toISOString();
+  const today = ranAt.slice(0, 10);
+  const alerts: ContractAlertFinding[] = [];
+
+  const pastEnd = await ContractModel.find({ status: { $ne: "expired" }, end_date: { $lt: today } });
+  if (pastEnd.length > 0) {
+    await withTransaction(() =>
+      ContractModel.updateMany({ id: { $in: pastEnd.map(c => c.id) } }, { $set: { status: "expired" } })
+    );
+  }
+  for (const contract of pastEnd) {
+    alerts.push({
+      contract_id: contract.id,
+      producer_id: contract.producer_id,
+      facility_id: contract.facility_id,
+      type: "auto_expired",
+      message: `Contract ${contract.id} ended on ${contract.end_date} and was marked expired`,
+      details: { end_date: contract.end_date, previous_status: contract.status },
+    });
+  }
+
+  const active = await ContractModel.find({ status: "active", end_date: { $gte: today } });
+  for (const contract of active) {
+    const usage = await computeContractUsage(contract, now);
+    alerts.push(...evaluateContractAlerts(usage, options));
+  }
+
+  for (const alert of alerts) {
+    await saveAlert(alert, ranAt);
+  }
+
+  // auto_expired alerts record a one-off change, so they stay as they are
+  const resolved = await ContractAlertModel.updateMany(
+    { active: true, type: { $ne: "auto_expired" }, last_checked_at: { $ne: ranAt } },
+    { $set: { active: false, resolved_at: ranAt } }
+  );
+
+  return {
+    ran_at: ranAt,
+    checked: pastEnd.length + active.length,
+    expired: pastEnd.map(c => c.id),
+    alerts,
+    resolved: resolved.modifiedCount,
+  };
+}
+
+/**
+ * Run the monitor now and then on an interval. Returns a function that stops it.
+ */
+export function startContractMonitor(options: ContractMonitorOptions = getContractMonitorOptions()): () => void {
+  if (!options.enabled) {
+    return () => {};
+  }
+
+  let running = false;
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const result = await runContractMonitor(new Date(), options);
+      if (result.expired.length > 0 || result.alerts.length > 0) {
+        console.log(
+          `✓ Contract monitor: ${result.expired.length} expired, ${result.alerts.length} alert(s), ${result.resolved} resolved`
+        );
+      }
+    } catch (error: any) {
+      console.error("Contract monitor failed:", error.message);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, options.intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,137 @@
+// Contract usage - consumption ledger and quota projections from delivered shipments
+import { ContractModel, IContract } from "../models/Contract.js";
+import { ShipmentModel } from "../models/Shipment.js";
+import { contractShipmentsFilter } from "./contract-enforcement.js";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface ContractLedgerEntry {
+  shipment_id: string;
+  date: string;
+  weight_kg: number;
+  cumulative_kg: number;
+}
+
+export interface ContractUsage {
+  contract_id: string;
+  producer_id: string;
+  facility_id: string;
+  status: IContract["status"];
+  start_date: string;
+  end_date: string;
+  max_weight_kg: number;
+  used_kg: number;
+  remaining_kg: number;
+  used_pct: number;
+  shipment_count: number;
+  burn_rate_kg_per_day: number; // Average since the contract started
+  days_elapsed: number;
+  days_remaining: number;
+  projected_exhaustion_date: string | null; // null when nothing has been shipped yet
+  exhausted_on?: string; // Delivery date that used up the quota
+  exhausts_before_end: boolean;
+  as_of: string;
+  ledger: ContractLedgerEntry[];
+}
+
+type Delivery = { id: string; date: string; weight_kg: number };
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function parseDay(date: string): number {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00.000Z`);
+}
+
+function daysBetween(from: number, to: number): number {
+  return Math.round((to - from) / MS_PER_DAY);
+}
+
+/**
+ * Build a contract's usage from its delivered shipments, as of a given day.
+ * Deliveries after that day are left out.
+ */
+export function buildContractUsage(contract: IContract, deliveries: Delivery[], asOf: Date = new Date()): ContractUsage {
+  const asOfDay = toDay(asOf);
+  const today = parseDay(asOfDay);
+  const start = parseDay(contract.start_date);
+  const end = parseDay(contract.end_date);
+
+  let cumulative = 0;
+  let exhaustedOn: string | undefined;
+  const ledger = deliveries
+    .filter(delivery => delivery.date.slice(0, 10) <= asOfDay)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(delivery => {
+      cumulative += delivery.weight_kg;
+      if (exhaustedOn === undefined && cumulative >= contract.max_weight_kg) {
+        exhaustedOn = delivery.date.slice(0, 10);
+      }
+      return {
+        shipment_id: delivery.id,
+        date: delivery.date,
+        weight_kg: delivery.weight_kg,
+        cumulative_kg: cumulative,
+      };
+    });
+
+  const usedKg = cumulative;
+  const remainingKg = Math.max(0, contract.max_weight_kg - usedKg);
+
+  // Days the contract has been running, counting today
+  const daysElapsed = today < start ? 0 : daysBetween(start, Math.min(today, end)) + 1;
+  const burnRate = daysElapsed > 0 ? usedKg / daysElapsed : 0;
+
+  let projected: string | null = exhaustedOn ?? null;
+  if (!projected && burnRate > 0) {
+    projected = toDay(new Date(Math.max(today, start) + Math.ceil(remainingKg / burnRate) * MS_PER_DAY));
+  }
+
+  return {
+    contract_id: contract.id,
+    producer_id: contract.producer_id,
+    facility_id: contract.facility_id,
+    status: contract.status,
+    start_date: contract.start_date,
+    end_date: contract.end_date,
+    max_weight_kg: contract.max_weight_kg,
+    used_kg: usedKg,
+    remaining_kg: remainingKg,
+    used_pct: contract.max_weight_kg > 0 ? Math.round((usedKg / contract.max_weight_kg) * 1000) / 10 : 0,
+    shipment_count: ledger.length,
+    burn_rate_kg_per_day: Math.round(burnRate * 100) / 100,
+    days_elapsed: daysElapsed,
+    days_remaining: Math.max(0, daysBetween(today, end)),
+    projected_exhaustion_date: projected,
+    ...(exhaustedOn && { exhausted_on: exhaustedOn }),
+    exhausts_before_end: projected !== null && parseDay(projected) <= end,
+    as_of: asOfDay,
+    ledger,
+  };
+}
+
+/**
+ * Usage for a contract from its delivered shipments. Returns null for unknown contracts.
+ */
+export async function getContractUsage(contractId: string, asOf?: Date): Promise<ContractUsage | null> {
+  const contract = await ContractModel.findOne({ id: contractId });
+  if (!contract) {
+    return null;
+  }
+  return computeContractUsage(contract, asOf);
+}
+
+/**
+ * Usage for an already loaded contract
+ */
+export async function computeContractUsage(contract: IContract, asOf: Date = new Date()): Promise<ContractUsage> {
+  const deliveries = await ShipmentModel.find(
+    {
+      $and: [contractShipmentsFilter(contract), { date: { $lte: `${toDay(asOf)}T23:59:59.999Z` } }],
+      status: "delivered",
+    },
+    { id: 1, date: 1, weight_kg: 1 }
+  ).lean();
+  return buildContractUsage(contract, deliveries, asOf);
+}
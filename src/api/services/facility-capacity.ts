@@ -0,0 +1,255 @@
+// Facility capacity - load reconciliation, intake checks and utilization forecasts
+import mongoose from "mongoose";
+import { currentTransaction, withTransaction } from "../db/connection.js";
+import { FacilityIntakeLockModel, FacilityModel } from "../models/Facility.js";
+import { ShipmentModel } from "../models/Shipment.js";
+import { FacilityOutflowModel } from "../models/FacilityOutflow.js";
+import { ApiError } from "../middleware/errorHandler.js";
+
+const KG_PER_TON = 1000;
+
+/**
+ * Load derived from what was delivered minus what left after processing
+ */
+export interface FacilityLoad {
+  facility_id: string;
+  delivered_tons: number;
+  outflow_tons: number;
+  current_load_tons: number;
+}
+
+// delivery: the shipment is arriving now. booking: it's being scheduled, so
+// everything else already on its way counts too.
+export type IntakeMode = "delivery" | "booking";
+
+export interface CapacityCheck {
+  facility_id: string;
+  mode: IntakeMode;
+  capacity_tons: number;
+  current_load_tons: number;
+  inbound_tons: number;
+  requested_tons: number;
+  projected_load_tons: number;
+  available_tons: number;
+  fits: boolean;
+}
+
+export interface CapacityForecastPoint {
+  date: string;
+  inbound_tons: number;
+  projected_load_tons: number;
+  utilization_pct: number;
+}
+
+export interface CapacityForecast {
+  facility_id: string;
+  capacity_tons: number;
+  current_load_tons: number;
+  utilization_pct: number;
+  inbound: {
+    pending_tons: number;
+    in_transit_tons: number;
+    shipment_count: number;
+  };
+  projected_load_tons: number;
+  projected_utilization_pct: number;
+  available_tons: number;
+  will_exceed_capacity: boolean;
+  exceeds_on?: string; // First shipment date the projected load goes over capacity
+  timeline: CapacityForecastPoint[];
+}
+
+export class CapacityExceededError extends Error implements ApiError {
+  statusCode = 409;
+  code = "CAPACITY_EXCEEDED";
+
+  constructor(public details: CapacityCheck) {
+    super(
+      `Facility ${details.facility_id} would exceed capacity: ${details.projected_load_tons}t projected, ${details.capacity_tons}t capacity`
+    );
+    this.name = "CapacityExceededError";
+  }
+}
+
+function round(tons: number): number {
+  return Math.round(tons * 1000) / 1000;
+}
+
+function utilization(loadTons: number, capacityTons: number): number {
+  return capacityTons > 0 ? Math.round((loadTons / capacityTons) * 1000) / 10 : 0;
+}
+
+async function sumWeightKg(model: mongoose.Model<any>, match: Record<string, any>): Promise<number> {
+  const [result] = await model.aggregate([
+    { $match: match },
+    { $group: { _id: null, total: { $sum: "$weight_kg" } } },
+  ]);
+  return result?.total ?? 0;
+}
+
+async function inboundKg(facilityId: string, excludeShipmentId?: string): Promise<number> {
+  return sumWeightKg(ShipmentModel, {
+    facility_id: facilityId,
+    status: { $in: ["pending", "in_transit"] },
+    ...(excludeShipmentId && { id: { $ne: excludeShipmentId } }),
+  });
+}
+
+/**
+ * Compute a facility's load from delivered shipments and processing outflows
+ */
+export async function computeFacilityLoad(facilityId: string): Promise<FacilityLoad> {
+  // Sequential, as this runs inside transactions, which can't take parallel operations
+  const deliveredKg = await sumWeightKg(ShipmentModel, { facility_id: facilityId, status: "delivered" });
+  const outflowKg = await sumWeightKg(FacilityOutflowModel, { facility_id: facilityId });
+
+  return {
+    facility_id: facilityId,
+    delivered_tons: round(deliveredKg / KG_PER_TON),
+    outflow_tons: round(outflowKg / KG_PER_TON),
+    current_load_tons: round(Math.max(0, deliveredKg - outflowKg) / KG_PER_TON),
+  };
+}
+
+/**
+ * Recompute and store a facility's current load. Returns null for unknown facilities.
+ */
+export async function reconcileFacilityLoad(facilityId: string): Promise<FacilityLoad | null> {
+  return withTransaction(async () => {
+    const load = await computeFacilityLoad(facilityId);
+    const facility = await FacilityModel.findOneAndUpdate(
+      { id: facilityId },
+      { $set: { current_load_tons: load.current_load_tons } }
+    );
+    return facility ? load : null;
+  });
+}
+
+/**
+ * Reconcile every facility a change touched
+ */
+export async function reconcileFacilityLoads(facilityIds: Array<string | undefined>): Promise<void> {
+  const unique = [...new Set(facilityIds.filter((id): id is string => !!id))];
+  for (const id of unique) {
+    await reconcileFacilityLoad(id);
+  }
+}
+
+/**
+ * Check whether a facility can take a shipment. Returns null for unknown
+ * facilities, which have no capacity to enforce.
+ */
+export async function checkIntake(
+  facilityId: string,
+  weightKg: number,
+  mode: IntakeMode,
+  excludeShipmentId?: string
+): Promise<CapacityCheck | null> {
+  const facility = await FacilityModel.findOne({ id: facilityId });
+  if (!facility) {
+    return null;
+  }
+
+  const load = await computeFacilityLoad(facilityId);
+  const inbound = mode === "booking" ? await inboundKg(facilityId, excludeShipmentId) : 0;
+
+  const requestedTons = round(weightKg / KG_PER_TON);
+  const inboundTons = round(inbound / KG_PER_TON);
+  const projected = round(load.current_load_tons + inboundTons + requestedTons);
+
+  return {
+    facility_id: facilityId,
+    mode,
+    capacity_tons: facility.capacity_tons,
+    current_load_tons: load.current_load_tons,
+    inbound_tons: inboundTons,
+    requested_tons: requestedTons,
+    projected_load_tons: projected,
+    available_tons: round(Math.max(0, facility.capacity_tons - load.current_load_tons - inboundTons)),
+    fits: projected <= facility.capacity_tons,
+  };
+}
+
+/**
+ * Throw CapacityExceededError when the shipment doesn't fit. Inside
+ * withTransaction, checks on the same facility conflict with each other, so
+ * concurrent transactions are retried one after the other and two shipments
+ * can't both take the last of the capacity; write the shipment in the same
+ * transaction.
+ */
+export async function assertIntake(
+  facilityId: string,
+  weightKg: number,
+  mode: IntakeMode,
+  excludeShipmentId?: string
+): Promise<void> {
+  if (currentTransaction()) {
+    await FacilityIntakeLockModel.updateOne({ _id: facilityId }, { $inc: { checks: 1 } }, { upsert: true });
+  }
+  const check = await checkIntake(facilityId, weightKg, mode, excludeShipmentId);
+  if (check && !check.fits) {
+    throw new CapacityExceededError(check);
+  }
+}
+
+/**
+ * Project utilization as pending and in-transit shipments arrive, in shipment date order.
+ * Returns null for unknown facilities.
+ */
+export async function forecastCapacity(facilityId: string): Promise<CapacityForecast | null> {
+  const facility = await FacilityModel.findOne({ id: facilityId });
+  if (!facility) {
+    return null;
+  }
+
+  const [load, inbound] = await Promise.all([
+    computeFacilityLoad(facilityId),
+    ShipmentModel.find({ facility_id: facilityId, status: { $in: ["pending", "in_transit"] } }).sort({ date: 1 }),
+  ]);
+
+  const capacity = facility.capacity_tons;
+  const inboundByDate = new Map<string, number>();
+  let pendingKg = 0;
+  let inTransitKg = 0;
+
+  for (const shipment of inbound) {
+    if (shipment.status === "pending") pendingKg += shipment.weight_kg;
+    else inTransitKg += shipment.weight_kg;
+    inboundByDate.set(shipment.date, (inboundByDate.get(shipment.date) ?? 0) + shipment.weight_kg);
+  }
+
+  let running = load.current_load_tons;
+  let exceedsOn: string | undefined;
+  const timeline: CapacityForecastPoint[] = [];
+
+  for (const [date, kg] of inboundByDate) {
+    running = round(running + kg / KG_PER_TON);
+    if (exceedsOn === undefined && running > capacity) {
+      exceedsOn = date;
+    }
+    timeline.push({
+      date,
+      inbound_tons: round(kg / KG_PER_TON),
+      projected_load_tons: running,
+      utilization_pct: utilization(running, capacity),
+    });
+  }
+
+  return {
+    facility_id: facilityId,
+    capacity_tons: capacity,
+    current_load_tons: load.current_load_tons,
+    utilization_pct: utilization(load.current_load_tons, capacity),
+    inbound: {
+      pending_tons: round(pendingKg / KG_PER_TON),
+      in_transit_tons: round(inTransitKg / KG_PER_TON),
+      shipment_count: inbound.length,
+    },
+    projected_load_tons: running,
+    projected_utilization_pct: utilization(running, capacity),
+    available_tons: round(Math.max(0, capacity - running)),
+    will_exceed_capacity: exceedsOn !== undefined,
+    ...(exceedsOn && { exceeds_on: exceedsOn }),
+    timeline,
+  };
+}
@@ -0,0 +1,221 @@
+// List queries - cursor pagination, sorting, field projection and numeric range filters shared by list endpoints
+import mongoose, { Model } from "mongoose";
+import { ApiError } from "../middleware/errorHandler.js";
+
+export const DEFAULT_LIST_LIMIT = 100;
+export const MAX_LIST_LIMIT = 1000;
+
+/**
+ * One page of a list endpoint. count is the page size, total matches the filters.
+ */
+export interface ListPage<T = any> {
+  data: T[];
+  count: number;
+  total: number;
+  next_cursor: string | null;
+}
+
+export interface ListOptions {
+  defaultSort?: string; // Same syntax as the sort parameter, e.g. "-timestamp"
+}
+
+export type SortSpec = Array<[field: string, direction: 1 | -1]>;
+
+export class ListQueryError extends Error implements ApiError {
+  statusCode = 400;
+  code = "INVALID_LIST_QUERY";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ListQueryError";
+  }
+}
+
+function hasField(model: Model<any>, field: string): boolean {
+  return field === "_id" || model.schema.pathType(field) !== "adhocOrUndefined";
+}
+
+function splitList(value: unknown): string[] {
+  return typeof value === "string" ? value.split(",").map(item => item.trim()).filter(Boolean) : [];
+}
+
+export function parseLimit(value: unknown): number {
+  if (value === undefined || value === "") {
+    return DEFAULT_LIST_LIMIT;
+  }
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+    throw new ListQueryError(`limit must be an integer from 1 to ${MAX_LIST_LIMIT}`);
+  }
+  return limit;
+}
+
+/**
+ * Parse "-date,weight_kg" into sort fields. _id is always added last so the
+ * order is total, which the cursor relies on.
+ */
+export function parseSort(model: Model<any>, sort: unknown, defaultSort?: string): SortSpec {
+  const spec: SortSpec = [];
+  for (const item of splitList(sort ?? defaultSort)) {
+    const field = item.replace(/^[-+]/, "");
+    if (!hasField(model, field)) {
+      throw new ListQueryError(`Cannot sort by unknown field: ${field}`);
+    }
+    if (!spec.some(([existing]) => existing === field)) {
+      spec.push([field, item.startsWith("-") ? -1 : 1]);
+    }
+  }
+  if (!spec.some(([field]) => field === "_id")) {
+    spec.push(["_id", 1]);
+  }
+  return spec;
+}
+
+/**
+ * Parse "id,date,status" into the top-level fields to return (null returns everything)
+ */
+export function parseFields(model: Model<any>, fields: unknown): string[] | null {
+  const list = splitList(fields);
+  if (list.length === 0) {
+    return null;
+  }
+  const unknown = list.filter(field => field === "_id" || field.includes(".") || !hasField(model, field));
+  if (unknown.length > 0) {
+    throw new ListQueryError(`Unknown fields: ${unknown.join(", ")}`);
+  }
+  return list;
+}
+
+/**
+ * <field>_min and <field>_max for every numeric field of the model, e.g. weight_kg_min=1000
+ */
+export function numericRangeFilter(model: Model<any>, query: Record<string, any>): Record<string, any> {
+  const filter: Record<string, any> = {};
+  for (const [key, value] of Object.entries(query)) {
+    const match = key.match(/^(.+)_(min|max)$/);
+    if (!match || model.schema.path(match[1]!)?.instance !== "Number") {
+      continue;
+    }
+    const bound = Number(value);
+    if (value === "" || Number.isNaN(bound)) {
+      throw new ListQueryError(`${key} must be a number`);
+    }
+    const field = match[1]!;
+    filter[field] = { ...filter[field], [match[2] === "min" ? "$gte" : "$lte"]: bound };
+  }
+  return filter;
+}
+
+// Cursors hold the last item's sort values, so pages stay stable while data is added
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeCursor(model: Model<any>, cursor: string, sort: SortSpec): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new ListQueryError("Invalid cursor");
+  }
+  if (!Array.isArray(values) || values.length !== sort.length) {
+    throw new ListQueryError("Invalid cursor (it must come from a request with the same sort)");
+  }
+
+  return sort.map(([field], index) => {
+    const value = values[index];
+    if (field === "_id") {
+      if (typeof value !== "string" || !mongoose.Types.ObjectId.isValid(value)) {
+        throw new ListQueryError("Invalid cursor");
+      }
+      return new mongoose.Types.ObjectId(value);
+    }
+    return model.schema.path(field)?.instance === "Date" && typeof value === "string" ? new Date(value) : value;
+  });
+}
+
+/**
+ * Items after the cursor: greater on the first sort field, or equal on it and
+ * greater on the next, and so on (less for descending fields).
+ *
+ * Null and missing values sort before everything else, as in MongoDB: after a
+ * null, an ascending field continues with every set value and a descending
+ * one has nothing left; before a set value, a descending field still has the
+ * nulls to come.
+ */
+export function cursorFilter(sort: SortSpec, values: unknown[]): Record<string, any> {
+  const conditions = sort.flatMap(([field, direction], index) => {
+    const value = values[index] ?? null;
+    if (value === null && direction === -1) {
+      return [];
+    }
+
+    const condition: Record<string, any> = {};
+    sort.slice(0, index).forEach(([previous], previousIndex) => {
+      condition[previous] = values[previousIndex] ?? null;
+    });
+    if (value === null) {
+      condition[field] = { $ne: null };
+    } else if (direction === 1) {
+      condition[field] = { $gt: value };
+    } else {
+      condition.$or = [{ [field]: { $lt: value } }, { [field]: null }];
+    }
+    return [condition];
+  });
+  return { $or: conditions };
+}
+
+function cursorValue(value: unknown): unknown {
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (value instanceof Date) return value.toISOString();
+  return value ?? null;
+}
+
+/**
+ * Run a list query with the shared paging parameters: limit, cursor, sort,
+ * fields and <field>_min/<field>_max ranges
+ */
+export async function listDocuments(
+  model: Model<any>,
+  filter: Record<string, any>,
+  query: Record<string, any>,
+  options: ListOptions = {}
+): Promise<ListPage> {
+  const limit = parseLimit(query.limit);
+  const sort = parseSort(model, query.sort, options.defaultSort);
+  const fields = parseFields(model, query.fields);
+
+  const ranges = numericRangeFilter(model, query);
+  const where = Object.keys(ranges).length > 0 ? { $and: [filter, ranges] } : filter;
+  const pageFilter =
+    typeof query.cursor === "string" && query.cursor
+      ? { $and: [where, cursorFilter(sort, decodeCursor(model, query.cursor, sort))] }
+      : where;
+
+  // Sort fields are needed to build the next cursor even when they aren't returned
+  const returned = fields && (hasField(model, "id") && !fields.includes("id") ? ["id", ...fields] : fields);
+  const projection = returned ? [...new Set([...returned, ...sort.map(([field]) => field)])].join(" ") : undefined;
+
+  const [docs, total] = await Promise.all([
+    model
+      .find(pageFilter, projection)
+      .sort(Object.fromEntries(sort))
+      .limit(limit + 1),
+    model.countDocuments(where),
+  ]);
+
+  const page = docs.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor =
+    docs.length > limit && last ? encodeCursor(sort.map(([field]) => cursorValue(last.get(field)))) : null;
+
+  const data = returned
+    ? page.map(doc => {
+        const json = doc.toJSON();
+        return Object.fromEntries(returned.filter(field => field in json).map(field => [field, json[field]]));
+      })
+    : page;
+
+  return { data, count: data.length, total, next_cursor: nextCursor };
+}
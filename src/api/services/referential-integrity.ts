@@ -0,0 +1,377 @@
+// Referential integrity - foreign key checks, delete policies and orphan reports across the API models
+import { Model } from "mongoose";
+import { ApiError } from "../middleware/errorHandler.js";
+import { withTransaction } from "../db/connection.js";
+import { SYSTEM_ACTOR } from "../models/audit.js";
+import { ShipmentModel } from "../models/Shipment.js";
+import { FacilityModel } from "../models/Facility.js";
+import { ContaminantModel } from "../models/Contaminant.js";
+import { InspectionModel } from "../models/Inspection.js";
+import { ContractModel } from "../models/Contract.js";
+import { ContractAlertModel } from "../models/ContractAlert.js";
+import { WasteProducerModel } from "../models/WasteProducer.js";
+import { ShipmentCompositionModel } from "../models/ShipmentComposition.js";
+import { ShipmentLoadModel } from "../models/ShipmentLoad.js";
+import { FacilityOutflowModel } from "../models/FacilityOutflow.js";
+import { ShipmentStatusHistoryModel } from "../models/ShipmentStatusHistory.js";
+
+export const DELETE_POLICIES = ["restrict", "cascade"] as const;
+
+/**
+ * What deleting a record does to the records that reference it: restrict
+ * refuses while any exist, cascade deletes them with it. Deletes are soft
+ * (deleted_at is set, so records stay in the database but drop out of
+ * queries), so there is no separate soft-delete policy: "soft-delete" is
+ * accepted as another name for cascade.
+ */
+export type DeletePolicy = (typeof DELETE_POLICIES)[number];
+
+const POLICY_ALIASES: Record<string, DeletePolicy> = { "soft-delete": "cascade" };
+
+/**
+ * A foreign key: model.field holds the id of a references record
+ */
+export interface Relation {
+  model: Model<any>;
+  field: string;
+  references: Model<any>;
+  policy: DeletePolicy;
+}
+
+export interface MissingReference {
+  field: string;
+  value: string;
+  references: string;
+}
+
+export interface BlockingReference {
+  model: string;
+  field: string;
+  count: number;
+}
+
+export interface DeleteOutcome {
+  model: string;
+  count: number;
+}
+
+export interface DeleteResult {
+  deleted: any;
+  cascaded: DeleteOutcome[];
+}
+
+export interface RestoreResult {
+  restored: any;
+  dependents: DeleteOutcome[]; // Records deleted along with it and restored with it
+}
+
+export interface OrphanReport {
+  model: string;
+  field: string;
+  references: string;
+  policy: DeletePolicy;
+  orphan_count: number;
+  orphans: Array<Record<string, any>>; // First ORPHAN_SAMPLE_SIZE, with id (or _id) and the dangling value
+}
+
+export interface IntegrityReport {
+  generated_at: string;
+  total_orphans: number;
+  relations: OrphanReport[];
+}
+
+const ORPHAN_SAMPLE_SIZE = 100;
+
+// Contract violations aren't here: they're an audit log, and rejected shipments are never created
+const RELATIONS: Relation[] = [
+  { model: ShipmentModel, field: "facility_id", references: FacilityModel, policy: "restrict" },
+  { model: ShipmentModel, field: "producer_id", references: WasteProducerModel, policy: "restrict" },
+  { model: ContaminantModel, field: "shipment_id", references: ShipmentModel, policy: "cascade" },
+  { model: ContaminantModel, field: "facility_id", references: FacilityModel, policy: "restrict" },
+  { model: InspectionModel, field: "shipment_id", references: ShipmentModel, policy: "cascade" },
+  { model: InspectionModel, field: "facility_id", references: FacilityModel, policy: "restrict" },
+  { model: ContractModel, field: "producer_id", references: WasteProducerModel, policy: "restrict" },
+  { model: ContractModel, field: "facility_id", references: FacilityModel, policy: "restrict" },
+  { model: ContractAlertModel, field: "contract_id", references: ContractModel, policy: "cascade" },
+  { model: ShipmentCompositionModel, field: "shipment_id", references: ShipmentModel, policy: "cascade" },
+  { model: ShipmentLoadModel, field: "shipment_id", references: ShipmentModel, policy: "cascade" },
+  { model: FacilityOutflowModel, field: "facility_id", references: FacilityModel, policy: "cascade" },
+  { model: ShipmentStatusHistoryModel, field: "shipment_id", references: ShipmentModel, policy: "cascade" },
+];
+
+export class InvalidReferenceError extends Error implements ApiError {
+  statusCode = 422;
+  code = "INVALID_REFERENCE";
+
+  constructor(public details: MissingReference[]) {
+    super(details.map(missing => `${missing.field} ${missing.value} does not match any ${missing.references}`).join("; "));
+    this.name = "InvalidReferenceError";
+  }
+}
+
+export class ReferenceConstraintError extends Error implements ApiError {
+  statusCode = 409;
+  code = "REFERENCE_CONSTRAINT";
+
+  constructor(modelName: string, id: string, public details: BlockingReference[]) {
+    super(
+      `${modelName} ${id} is still referenced by ${details.map(ref => `${ref.count} ${ref.model} (${ref.field})`).join(", ")}`
+    );
+    this.name = "ReferenceConstraintError";
+  }
+}
+
+function relationKey(relation: Pick<Relation, "model" | "field">): string {
+  return `${relation.model.modelName}.${relation.field}`;
+}
+
+/**
+ * Policy overrides from REFERENTIAL_DELETE_POLICIES, e.g.
+ * "Shipment.facility_id=cascade,Inspection.shipment_id=restrict". Throws on an
+ * entry that isn't <Model>.<field>=<policy> for a known relation and policy.
+ */
+export function getDeletePolicyOverrides(value = process.env.REFERENTIAL_DELETE_POLICIES): Map<string, DeletePolicy> {
+  const relations = new Set(RELATIONS.map(relationKey));
+  const overrides = new Map<string, DeletePolicy>();
+  for (const entry of (value ?? "").split(",").filter(e => e.trim())) {
+    const [key, name, ...rest] = entry.split("=").map(part => part.trim());
+    const policy = POLICY_ALIASES[name ?? ""] ?? name;
+    if (!key || !policy || rest.length > 0) {
+      throw new Error(`Invalid REFERENTIAL_DELETE_POLICIES entry: ${entry} (use <Model>.<field>=<policy>)`);
+    }
+    if (!relations.has(key)) {
+      throw new Error(`Unknown relation in REFERENTIAL_DELETE_POLICIES: ${key} (use one of ${[...relations].join(", ")})`);
+    }
+    if (!DELETE_POLICIES.includes(policy as DeletePolicy)) {
+      throw new Error(`Unknown delete policy in REFERENTIAL_DELETE_POLICIES: ${name} (use ${DELETE_POLICIES.join(" or ")})`);
+    }
+    overrides.set(key, policy as DeletePolicy);
+  }
+  return overrides;
+}
+
+/**
+ * Every foreign key between the models, with its delete policy
+ */
+export function getRelations(): Relation[] {
+  const overrides = getDeletePolicyOverrides();
+  return RELATIONS.map(relation => ({
+    ...relation,
+    policy: overrides.get(relationKey(relation)) ?? relation.policy,
+  }));
+}
+
+/**
+ * Foreign keys in data (a create body or the fields an update sets) that don't
+ * match an existing record. Empty values aren't references, so they're skipped.
+ */
+export async function findMissingReferences(model: Model<any>, data: Record<string, any>): Promise<MissingReference[]> {
+  const relations = getRelations().filter(
+    relation => relation.model === model && typeof data[relation.field] === "string" && data[relation.field] !== ""
+  );
+
+  // One at a time: this runs inside transactions, which can't take parallel operations
+  const missing: MissingReference[] = [];
+  for (const relation of relations) {
+    const value: string = data[relation.field];
+    if (!(await relation.references.exists({ id: value }))) {
+      missing.push({ field: relation.field, value, references: relation.references.modelName });
+    }
+  }
+  return missing;
+}
+
+/**
+ * Throw InvalidReferenceError when data points at records that don't exist
+ */
+export async function assertReferences(model: Model<any>, data: Record<string, any>): Promise<void> {
+  const missing = await findMissingReferences(model, data);
+  if (missing.length > 0) {
+    throw new InvalidReferenceError(missing);
+  }
+}
+
+function supportsSoftDelete(model: Model<any>): boolean {
+  return model.schema.path("deleted_at") !== undefined;
+}
+
+interface DeletePlan {
+  cascade: Map<Model<any>, Set<string>>; // _ids deleted through cascade relations
+  blocked: BlockingReference[];
+}
+
+// Walk down the references. Models without deleted_at (logs like the status
+// history) are kept as they are.
+async function planDelete(model: Model<any>, ids: string[], plan: DeletePlan): Promise<void> {
+  for (const relation of getRelations().filter(relation => relation.references === model)) {
+    const dependents = await relation.model.find({ [relation.field]: { $in: ids } }, "_id id").lean<any[]>();
+    if (dependents.length === 0) {
+      continue;
+    }
+
+    if (relation.policy === "restrict") {
+      plan.blocked.push({ model: relation.model.modelName, field: relation.field, count: dependents.length });
+      continue;
+    }
+
+    if (!supportsSoftDelete(relation.model)) {
+      continue;
+    }
+    const planned = plan.cascade.get(relation.model) ?? new Set<string>();
+    const fresh = dependents.filter(doc => !planned.has(String(doc._id)));
+    fresh.forEach(doc => planned.add(String(doc._id)));
+    plan.cascade.set(relation.model, planned);
+
+    const childIds = fresh.map(doc => doc.id).filter((id): id is string => typeof id === "string");
+    if (childIds.length > 0) {
+      await planDelete(relation.model, childIds, plan);
+    }
+  }
+}
+
+/**
+ * Soft-delete a record by id (set its deleted_at), applying the delete policy
+ * of every relation that points at it (recursively). Deletes are soft all the
+ * way down, so cascade relations mark their records deleted, with the same
+ * deleted_at as the record, and restoreWithPolicies brings them back together. Nothing is deleted when a restrict relation still
+ * has records: that throws ReferenceConstraintError. Returns null when there's
+ * no such record.
+ */
+export async function deleteWithPolicies(
+  model: Model<any>,
+  id: string,
+  actor: string = SYSTEM_ACTOR
+): Promise<DeleteResult | null> {
+  return withTransaction(async () => {
+    const record = await model.findOne({ id });
+    if (!record) {
+      return null;
+    }
+
+    const plan: DeletePlan = { cascade: new Map(), blocked: [] };
+    await planDelete(model, [id], plan);
+    if (plan.blocked.length > 0) {
+      throw new ReferenceConstraintError(model.modelName, id, plan.blocked);
+    }
+
+    const deletedAt = new Date();
+    const cascaded: DeleteOutcome[] = [];
+    for (const [dependent, ids] of plan.cascade) {
+      await dependent.updateMany({ _id: { $in: [...ids] } }, { $set: { deleted_at: deletedAt } }).setOptions({ actor });
+      cascaded.push({ model: dependent.modelName, count: ids.size });
+    }
+
+    const deleted = await model.findOneAndUpdate({ id }, { $set: { deleted_at: deletedAt } }, { new: true, actor });
+    return { deleted: deleted ?? record, cascaded };
+  });
+}
+
+// Records deleted along with a record carry its deleted_at
+async function restoreDependents(
+  model: Model<any>,
+  ids: string[],
+  deletedAt: Date,
+  actor: string,
+  outcomes: DeleteOutcome[]
+): Promise<void> {
+  const relations = getRelations().filter(relation => relation.references === model && supportsSoftDelete(relation.model));
+  for (const relation of relations) {
+    const filter = { [relation.field]: { $in: ids }, deleted_at: deletedAt };
+    const dependents = await relation.model.find(filter, "_id id").lean<any[]>();
+    if (dependents.length === 0) {
+      continue;
+    }
+
+    await relation.model.updateMany(filter, { $unset: { deleted_at: 1 } }).setOptions({ actor });
+    outcomes.push({ model: relation.model.modelName, count: dependents.length });
+
+    const childIds = dependents.map(doc => doc.id).filter((id): id is string => typeof id === "string");
+    if (childIds.length > 0) {
+      await restoreDependents(relation.model, childIds, deletedAt, actor, outcomes);
+    }
+  }
+}
+
+/**
+ * Undo a soft delete: clear the record's deleted_at, and that of everything
+ * deleted along with it. The records it references must still exist (throws
+ * InvalidReferenceError). Returns null when there's no deleted record with
+ * that id.
+ */
+export async function restoreWithPolicies(
+  model: Model<any>,
+  id: string,
+  actor: string = SYSTEM_ACTOR
+): Promise<RestoreResult | null> {
+  return withTransaction(async () => {
+    const record = await model.findOne({ id, deleted_at: { $ne: null } }).lean<Record<string, any>>();
+    if (!record) {
+      return null;
+    }
+
+    await assertReferences(model, record);
+
+    const dependents: DeleteOutcome[] = [];
+    await restoreDependents(model, [id], record.deleted_at, actor, dependents);
+    const restored = await model.findOneAndUpdate(
+      { id, deleted_at: record.deleted_at },
+      { $unset: { deleted_at: 1 } },
+      { new: true, actor }
+    );
+    return { restored, dependents };
+  });
+}
+
+/**
+ * Records whose foreign keys point at nothing. Soft-deleted records don't
+ * count as orphans, and still count as something to point at.
+ */
+export async function buildIntegrityReport(): Promise<IntegrityReport> {
+  const relations = await Promise.all(
+    getRelations().map(async (relation): Promise<OrphanReport> => {
+      const [result] = await relation.model.aggregate([
+        { $match: { [relation.field]: { $nin: [null, ""] } } },
+        {
+          $lookup: {
+            from: relation.references.collection.name,
+            let: { ref: `$${relation.field}` },
+            pipeline: [
+              { $match: { $expr: { $eq: ["$id", "$$ref"] } } },
+              { $limit: 1 },
+              { $project: { _id: 1 } },
+            ],
+            as: "_parent",
+          },
+        },
+        { $match: { _parent: { $size: 0 } } },
+        {
+          $facet: {
+            count: [{ $count: "total" }],
+            sample: [{ $limit: ORPHAN_SAMPLE_SIZE }, { $project: { _id: 1, id: 1, [relation.field]: 1 } }],
+          },
+        },
+      ]);
+
+      // Logs like the status history have no id of their own
+      const orphans = (result?.sample ?? []).map((doc: any) => ({
+        ...(doc.id !== undefined ? { id: doc.id } : { _id: String(doc._id) }),
+        [relation.field]: doc[relation.field],
+      }));
+
+      return {
+        model: relation.model.modelName,
+        field: relation.field,
+        references: relation.references.modelName,
+        policy: relation.policy,
+        orphan_count: result?.count[0]?.total ?? 0,
+        orphans,
+      };
+    })
+  );
+
+  return {
+    generated_at: new Date().toISOString(),
+    total_orphans: relations.reduce((sum, relation) => sum + relation.orphan_count, 0),
+    relations,
+  };
+}
@@ -0,0 +1,71 @@
+// Webhook receiver - a minimal local endpoint that checks signatures, for trying webhooks out and for tests
+import { createServer, IncomingMessage, Server } from "http";
+import { verifyWebhookSignature } from "./webhook-signing.js";
+import type { WebhookMessage } from "./webhooks.js";
+
+export interface ReceivedWebhook {
+  delivery_id: string;
+  signature_valid: boolean;
+  message: WebhookMessage;
+}
+
+export interface WebhookReceiverOptions {
+  secret?: string; // Without one, deliveries are accepted unchecked
+  status?: number | ((received: ReceivedWebhook) => number); // Answer to give, 200 by default
+  onDelivery?: (received: ReceivedWebhook) => void;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * An HTTP server that takes webhook deliveries on any path. Deliveries with a
+ * bad signature are answered 401 when a secret is given.
+ */
+export function createWebhookReceiver(options: WebhookReceiverOptions = {}): Server {
+  return createServer(async (req, res) => {
+    if (req.method !== "POST") {
+      res.writeHead(405).end();
+      return;
+    }
+
+    let body: string;
+    try {
+      body = await readBody(req);
+    } catch {
+      // The request broke off before its body arrived
+      res.writeHead(400).end();
+      return;
+    }
+    const timestamp = String(req.headers["x-webhook-timestamp"] ?? "");
+    const signature = String(req.headers["x-webhook-signature"] ?? "");
+    let message: WebhookMessage;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const received: ReceivedWebhook = {
+      delivery_id: String(req.headers["x-webhook-id"] ?? ""),
+      signature_valid: options.secret ? verifyWebhookSignature(options.secret, timestamp, body, signature) : true,
+      message,
+    };
+    options.onDelivery?.(received);
+
+    const status = !received.signature_valid
+      ? 401
+      : typeof options.status === "function"
+        ? options.status(received)
+        : options.status ?? 200;
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ received: status < 300 }));
+  });
+}
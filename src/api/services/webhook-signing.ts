@@ -0,0 +1,19 @@
+// Webhook signatures - HMAC-SHA256 over the timestamp and body, shared by the dispatcher and receivers
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * The X-Webhook-Signature value for a body sent at timestamp (ISO string)
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Check a delivery's signature. Receivers should also refuse stale timestamps
+ * so a captured delivery can't be replayed later.
+ */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
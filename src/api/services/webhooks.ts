@@ -0,0 +1,334 @@
+// Webhook dispatcher - scheduled job that fans outbox events out to subscriptions and delivers them with retries
+import axios from "axios";
+import { randomUUID } from "crypto";
+import { DOMAIN_EVENT_TYPES, IOutboxEvent, OutboxEventModel } from "../models/OutboxEvent.js";
+import { IWebhookSubscription, WebhookSubscriptionModel } from "../models/WebhookSubscription.js";
+import { IWebhookDelivery, WebhookAttempt, WebhookDeliveryDocument, WebhookDeliveryModel } from "../models/WebhookDelivery.js";
+import { signWebhookPayload } from "./webhook-signing.js";
+import { ApiError } from "../middleware/errorHandler.js";
+import { getEnvBoolean, getEnvNumber } from "../../shared/utils/env.js";
+
+export interface WebhookDispatcherOptions {
+  enabled: boolean;
+  intervalMs: number;
+  maxAttempts: number; // A delivery fails for good after this many attempts
+  backoffBaseMs: number; // Wait before the second attempt; doubles for each one after
+  timeoutMs: number;
+  batchSize: number; // Events fanned out, and deliveries attempted, per run
+}
+
+export interface WebhookDispatchResult {
+  ran_at: string;
+  queued: number;
+  delivered: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * The JSON body of a delivery
+ */
+export interface WebhookMessage {
+  id: string; // Event id; the same across retries, so receivers can drop duplicates
+  type: string;
+  entity: string;
+  entity_id: string;
+  actor: string;
+  occurred_at: string;
+  data: Record<string, any>;
+}
+
+// Longest wait between attempts
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export function getWebhookDispatcherOptions(): WebhookDispatcherOptions {
+  return {
+    enabled: getEnvBoolean("WEBHOOKS_ENABLED", true),
+    intervalMs: getEnvNumber("WEBHOOK_DISPATCH_INTERVAL_SECONDS", 10) * 1000,
+    maxAttempts: getEnvNumber("WEBHOOK_MAX_ATTEMPTS", 6),
+    backoffBaseMs: getEnvNumber("WEBHOOK_BACKOFF_BASE_SECONDS", 30) * 1000,
+    timeoutMs: getEnvNumber("WEBHOOK_TIMEOUT_MS", 10000),
+    batchSize: 100,
+  };
+}
+
+/**
+ * Whether a subscription pattern is an event type, "<entity>.*" for all of an entity's events, or "*"
+ */
+export function isEventTypePattern(pattern: string): boolean {
+  if (pattern === "*") return true;
+  if (pattern.endsWith(".*")) {
+    const prefix = pattern.slice(0, -1);
+    return DOMAIN_EVENT_TYPES.some(type => type.startsWith(prefix));
+  }
+  return (DOMAIN_EVENT_TYPES as readonly string[]).includes(pattern);
+}
+
+export function matchesEventType(patterns: string[], type: string): boolean {
+  return patterns.some(
+    pattern => pattern === "*" || pattern === type || (pattern.endsWith(".*") && type.startsWith(pattern.slice(0, -1)))
+  );
+}
+
+/**
+ * Wait after a failed attempt (1-based): the base, then doubling, up to six hours
+ */
+export function retryDelayMs(attempt: number, backoffBaseMs: number): number {
+  return Math.min(backoffBaseMs * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+export function webhookMessage(event: IOutboxEvent): WebhookMessage {
+  return {
+    id: event.id,
+    type: event.type,
+    entity: event.entity,
+    entity_id: event.entity_id,
+    actor: event.actor,
+    occurred_at: event.occurred_at,
+    data: event.payload,
+  };
+}
+
+/**
+ * POST a message to a subscription's URL, signed with its secret and stamped
+ * with the time it's sent. Any 2xx is a success; the attempt comes back either way.
+ */
+export async function sendWebhook(
+  subscription: Pick<IWebhookSubscription, "url" | "secret">,
+  message: WebhookMessage,
+  deliveryId: string,
+  timeoutMs: number
+): Promise<WebhookAttempt> {
+  const body = JSON.stringify(message);
+  const timestamp = new Date().toISOString();
+  const started = Date.now();
+
+  try {
+    const response = await axios.post(subscription.url, body, {
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "wasteer-webhooks/1.0",
+        "X-Webhook-Id": deliveryId,
+        "X-Webhook-Event": message.type,
+        "X-Webhook-Timestamp": timestamp,
+        "X-Webhook-Signature": signWebhookPayload(subscription.secret, timestamp, body),
+      },
+      timeout: timeoutMs,
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+    const ok = response.status >= 200 && response.status < 300;
+    return {
+      attempted_at: timestamp,
+      status_code: response.status,
+      ...(!ok && { error: `Receiver answered ${response.status}` }),
+      duration_ms: Date.now() - started,
+    };
+  } catch (error: any) {
+    return { attempted_at: timestamp, error: error.message, duration_ms: Date.now() - started };
+  }
+}
+
+/**
+ * Queue a delivery for every active subscription that wants each undispatched event
+ */
+export async function queueDeliveries(now: Date = new Date(), batchSize: number = 100): Promise<number> {
+  const events = await OutboxEventModel.find({ dispatched_at: null }).sort({ occurred_at: 1 }).limit(batchSize).lean();
+  if (events.length === 0) {
+    return 0;
+  }
+
+  const subscriptions = await WebhookSubscriptionModel.find({ active: true }).lean();
+  const nowIso = now.toISOString();
+  const deliveries: IWebhookDelivery[] = events.flatMap(event =>
+    subscriptions
+      .filter(subscription => matchesEventType(subscription.event_types, event.type))
+      .map(subscription => ({
+        id: `whd_${randomUUID()}`,
+        subscription_id: subscription.id,
+        event_id: event.id,
+        event_type: event.type,
+        status: "pending" as const,
+        attempts: [],
+        next_attempt_at: nowIso,
+      }))
+  );
+
+  if (deliveries.length > 0) {
+    // Deliveries left over from a run that stopped part-way are already queued
+    await WebhookDeliveryModel.insertMany(deliveries, { ordered: false }).catch((error: any) => {
+      if (error.code !== 11000) throw error;
+    });
+  }
+  await OutboxEventModel.updateMany({ id: { $in: events.map(event => event.id) } }, { $set: { dispatched_at: nowIso } });
+
+  return deliveries.length;
+}
+
+type DeliveryOutcome = "delivered" | "retrying" | "failed";
+
+/**
+ * Send a delivery once and log the attempt. A failure is retried after a
+ * backoff, counted from when the attempt was made, while attempts remain; a
+ * manual redelivery isn't retried.
+ */
+async function attemptDelivery(
+  delivery: Pick<IWebhookDelivery, "id" | "attempts">,
+  subscription: IWebhookSubscription,
+  event: IOutboxEvent,
+  options: Pick<WebhookDispatcherOptions, "maxAttempts" | "backoffBaseMs" | "timeoutMs">,
+  retry: boolean = true
+): Promise<DeliveryOutcome> {
+  const attempt = await sendWebhook(subscription, webhookMessage(event), delivery.id, options.timeoutMs);
+  const attempts = delivery.attempts.length + 1;
+
+  if (!attempt.error) {
+    await WebhookDeliveryModel.updateOne(
+      { id: delivery.id },
+      {
+        $push: { attempts: attempt },
+        $set: { status: "delivered", delivered_at: attempt.attempted_at },
+        $unset: { next_attempt_at: 1, failure_reason: 1 },
+      }
+    );
+    return "delivered";
+  }
+
+  if (!retry || attempts >= options.maxAttempts) {
+    await WebhookDeliveryModel.updateOne(
+      { id: delivery.id },
+      {
+        $push: { attempts: attempt },
+        $set: { status: "failed", failure_reason: retry ? "Every attempt failed" : "Redelivery failed" },
+        $unset: { next_attempt_at: 1 },
+      }
+    );
+    return "failed";
+  }
+
+  const nextAttemptAt = new Date(Date.parse(attempt.attempted_at) + retryDelayMs(attempts, options.backoffBaseMs)).toISOString();
+  await WebhookDeliveryModel.updateOne(
+    { id: delivery.id },
+    { $push: { attempts: attempt }, $set: { next_attempt_at: nextAttemptAt } }
+  );
+  return "retrying";
+}
+
+/**
+ * Attempt every pending delivery that's due at `now`. Failures are retried with
+ * exponential backoff until maxAttempts; deliveries whose subscription was
+ * removed or deactivated fail without an attempt.
+ */
+export async function deliverDueWebhooks(
+  now: Date = new Date(),
+  options: Pick<WebhookDispatcherOptions, "maxAttempts" | "backoffBaseMs" | "timeoutMs" | "batchSize"> = getWebhookDispatcherOptions()
+): Promise<Record<DeliveryOutcome, number>> {
+  const result: Record<DeliveryOutcome, number> = { delivered: 0, retrying: 0, failed: 0 };
+  const due = await WebhookDeliveryModel.find({ status: "pending", next_attempt_at: { $lte: now.toISOString() } })
+    .sort({ next_attempt_at: 1 })
+    .limit(options.batchSize)
+    .lean();
+  if (due.length === 0) {
+    return result;
+  }
+
+  const subscriptions = await WebhookSubscriptionModel.find({ id: { $in: due.map(d => d.subscription_id) } }).lean();
+  const subscriptionsById = new Map(subscriptions.map(subscription => [subscription.id, subscription]));
+  const events = await OutboxEventModel.find({ id: { $in: due.map(d => d.event_id) } }).lean();
+  const eventsById = new Map(events.map(event => [event.id, event]));
+
+  for (const delivery of due) {
+    const subscription = subscriptionsById.get(delivery.subscription_id);
+    const event = eventsById.get(delivery.event_id);
+    if (!subscription?.active || !event) {
+      const reason = !event ? "Event no longer exists" : subscription ? "Subscription is inactive" : "Subscription was removed";
+      await WebhookDeliveryModel.updateOne(
+        { id: delivery.id },
+        { $set: { status: "failed", failure_reason: reason }, $unset: { next_attempt_at: 1 } }
+      );
+      result.failed++;
+      continue;
+    }
+
+    result[await attemptDelivery(delivery, subscription, event, options)]++;
+  }
+
+  return result;
+}
+
+/**
+ * Queue deliveries for new events, then attempt the ones that are due
+ */
+export async function runWebhookDispatcher(
+  now: Date = new Date(),
+  options: WebhookDispatcherOptions = getWebhookDispatcherOptions()
+): Promise<WebhookDispatchResult> {
+  const queued = await queueDeliveries(now, options.batchSize);
+  const attempted = await deliverDueWebhooks(now, options);
+  return { ran_at: now.toISOString(), queued, ...attempted };
+}
+
+export class WebhookRedeliveryError extends Error implements ApiError {
+  statusCode = 409;
+  code = "WEBHOOK_REDELIVERY_UNAVAILABLE";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookRedeliveryError";
+  }
+}
+
+/**
+ * Send a delivery again now, once, whatever happened to it before. Null when
+ * there's no such delivery.
+ */
+export async function redeliverWebhook(id: string): Promise<WebhookDeliveryDocument | null> {
+  const delivery = await WebhookDeliveryModel.findOne({ id }).lean();
+  if (!delivery) {
+    return null;
+  }
+
+  const subscription = await WebhookSubscriptionModel.findOne({ id: delivery.subscription_id }).lean();
+  if (!subscription) {
+    throw new WebhookRedeliveryError(`Subscription ${delivery.subscription_id} was removed`);
+  }
+  const event = await OutboxEventModel.findOne({ id: delivery.event_id }).lean();
+  if (!event) {
+    throw new WebhookRedeliveryError(`Event ${delivery.event_id} no longer exists`);
+  }
+
+  await attemptDelivery(delivery, subscription, event, getWebhookDispatcherOptions(), false);
+  return WebhookDeliveryModel.findOne({ id });
+}
+
+/**
+ * Run the dispatcher now and then on an interval. Returns a function that stops it.
+ */
+export function startWebhookDispatcher(options: WebhookDispatcherOptions = getWebhookDispatcherOptions()): () => void {
+  if (!options.enabled) {
+    return () => {};
+  }
+
+  let running = false;
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const result = await runWebhookDispatcher(new Date(), options);
+      if (result.delivered > 0 || result.failed > 0) {
+        console.log(`✓ Webhooks: ${result.delivered} delivered, ${result.retrying} retrying, ${result.failed} failed`);
+      }
+    } catch (error: any) {
+      console.error("Webhook dispatcher failed:", error.message);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, options.intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -7,7 +7,10 @@ const options: swaggerJsdoc.Options = {
     info: {
       title: "Waste Management API",
       version: "1.0.0",
-      description: "A RESTful API for managing waste management operations including shipments, facilities, contaminants, and inspections with advanced analytics.",
+      description:
+        "A RESTful API for managing waste management operations including shipments, facilities, contaminants, and inspections with advanced analytics.\n\n" +
+        "Roles: viewer reads; inspector also records inspections and contaminants; operator also writes every other record; " +
+        "admin also deletes, restores, imports and resets. Failures are 401 (no valid credential) or 403 (role too low).",
       contact: {
         name: "API Support",
       },
@@ -35,16 +38,50 @@ const options: swaggerJsdoc.Options = {
         name: "Inspections",
         description: "Inspection management",
       },
+      {
+        name: "Contracts",
+        description: "Producer contracts and violations",
+      },
       {
         name: "Analytics",
         description: "Analytics and reporting endpoints",
       },
+      {
+        name: "Webhooks",
+        description: "Domain event outbox and webhook subscriptions (admin only)",
+      },
       {
         name: "Database",
         description: "Database management operations (development/testing only)",
       },
     ],
+    // Every /api route needs a credential once API_KEYS or JWT_SECRET is set
+    security: [{ ApiKeyAuth: [] }, { BearerAuth: [] }],
     components: {
+      securitySchemes: {
+        ApiKeyAuth: {
+          type: "apiKey",
+          in: "header",
+          name: "X-API-Key",
+          description: "An API key from API_KEYS (also accepted as a bearer token)",
+        },
+        BearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "HS256 token signed with JWT_SECRET, with sub and role (viewer, inspector, operator or admin) claims",
+        },
+      },
+      responses: {
+        Unauthorized: {
+          description: "Missing, unknown or expired credentials",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+        },
+        Forbidden: {
+          description: "The caller's role may not use this route",
+          content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+        },
+      },
       schemas: {
         Shipment: {
           type: "object",
@@ -60,6 +97,11 @@ const options: swaggerJsdoc.Options = {
               description: "ID of the destination facility",
               example: "F1",
             },
+            producer_id: {
+              type: "string",
+              description: "ID of the waste producer; shipments with one are checked against the producer's contract",
+              example: "producer-1",
+            },
             date: {
               type: "string",
               format: "date",
@@ -364,6 +406,154 @@ const options: swaggerJsdoc.Options = {
             },
           },
         },
+        ShipmentStatusTransition: {
+          type: "object",
+          properties: {
+            shipment_id: { type: "string", example: "S1" },
+            from_status: {
+              type: "string",
+              nullable: true,
+              enum: ["pending", "in_transit", "delivered", "rejected"],
+              description: "Previous status (null for the status the shipment was created with)",
+            },
+            to_status: {
+              type: "string",
+              enum: ["pending", "in_transit", "delivered", "rejected"],
+            },
+            actor: { type: "string", example: "dispatcher@example.com" },
+            reason: { type: "string", example: "Picked up by carrier" },
+            timestamp: { type: "string", format: "date-time" },
+          },
+        },
+        FacilityOutflow: {
+          type: "object",
+          required: ["id", "date", "weight_kg"],
+          properties: {
+            id: { type: "string", example: "O1" },
+            facility_id: { type: "string", example: "F1", description: "Set from the path" },
+            date: { type: "string", format: "date", example: "2025-01-20" },
+            weight_kg: { type: "number", example: 1200 },
+            destination: { type: "string", example: "Regional Recycler" },
+            notes: { type: "string" },
+          },
+        },
+        CapacityForecast: {
+          type: "object",
+          properties: {
+            facility_id: { type: "string", example: "F1" },
+            capacity_tons: { type: "number", example: 1000 },
+            current_load_tons: { type: "number", example: 450 },
+            utilization_pct: { type: "number", example: 45 },
+            inbound: {
+              type: "object",
+              properties: {
+                pending_tons: { type: "number" },
+                in_transit_tons: { type: "number" },
+                shipment_count: { type: "number" },
+              },
+            },
+            projected_load_tons: { type: "number", example: 620 },
+            projected_utilization_pct: { type: "number", example: 62 },
+            available_tons: { type: "number", example: 380 },
+            will_exceed_capacity: { type: "boolean" },
+            exceeds_on: {
+              type: "string",
+              format: "date",
+              description: "First shipment date the projected load goes over capacity",
+            },
+            timeline: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  date: { type: "string", format: "date" },
+                  inbound_tons: { type: "number" },
+                  projected_load_tons: { type: "number" },
+                  utilization_pct: { type: "number" },
+                },
+              },
+            },
+          },
+        },
+        ContractUsage: {
+          type: "object",
+          properties: {
+            contract_id: { type: "string", example: "contract-1" },
+            producer_id: { type: "string", example: "producer-1" },
+            facility_id: { type: "string", example: "F1" },
+            status: { type: "string", enum: ["active", "expired", "suspended"] },
+            start_date: { type: "string", format: "date" },
+            end_date: { type: "string", format: "date" },
+            max_weight_kg: { type: "number", example: 10000 },
+            used_kg: { type: "number", example: 4000 },
+            remaining_kg: { type: "number", example: 6000 },
+            used_pct: { type: "number", example: 40 },
+            shipment_count: { type: "number", example: 2 },
+            burn_rate_kg_per_day: { type: "number", example: 400, description: "Average since the contract started" },
+            days_elapsed: { type: "number" },
+            days_remaining: { type: "number" },
+            projected_exhaustion_date: { type: "string", format: "date", nullable: true },
+            exhausted_on: { type: "string", format: "date", description: "Delivery date that used up the quota" },
+            exhausts_before_end: { type: "boolean" },
+            as_of: { type: "string", format: "date" },
+            ledger: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  shipment_id: { type: "string" },
+                  date: { type: "string", format: "date" },
+                  weight_kg: { type: "number" },
+                  cumulative_kg: { type: "number" },
+                },
+              },
+            },
+          },
+        },
+        ContractAlert: {
+          type: "object",
+          properties: {
+            contract_id: { type: "string", example: "contract-1" },
+            producer_id: { type: "string", example: "producer-1" },
+            facility_id: { type: "string", example: "F1" },
+            type: { type: "string", enum: ["quota_nearing", "quota_exhausted", "end_date_nearing", "auto_expired"] },
+            message: { type: "string", example: "Contract contract-1 has used 92.5% of its quota" },
+            details: { type: "object" },
+            active: { type: "boolean" },
+            raised_at: { type: "string", format: "date-time" },
+            last_checked_at: { type: "string", format: "date-time" },
+            resolved_at: { type: "string", format: "date-time" },
+          },
+        },
+        ContractViolation: {
+          type: "object",
+          properties: {
+            shipment_id: { type: "string", example: "S1" },
+            producer_id: { type: "string", example: "producer-1" },
+            facility_id: { type: "string", example: "F1" },
+            contract_id: {
+              type: "string",
+              nullable: true,
+              description: "Contract checked (null when the producer has no contract with the facility)",
+              example: "contract-1",
+            },
+            type: {
+              type: "string",
+              enum: [
+                "no_contract",
+                "contract_suspended",
+                "contract_expired",
+                "outside_contract_period",
+                "undeclared_waste_type",
+                "weight_limit_exceeded",
+              ],
+            },
+            message: { type: "string", example: "Contract contract-1 is suspended" },
+            action: { type: "string", enum: ["rejected", "flagged"] },
+            details: { type: "object" },
+            timestamp: { type: "string", format: "date-time" },
+          },
+        },
         Error: {
           type: "object",
           properties: {
@@ -378,8 +568,173 @@ const options: swaggerJsdoc.Options = {
                   type: "string",
                   example: "Resource not found",
                 },
+                code: {
+                  type: "string",
+                  example: "CAPACITY_EXCEEDED",
+                },
+                details: {
+                  type: "object",
+                },
+              },
+            },
+          },
+        },
+        ImportReport: {
+          type: "object",
+          properties: {
+            dry_run: { type: "boolean" },
+            format: { type: "string", enum: ["csv", "ndjson"] },
+            total_rows: { type: "number" },
+            valid_rows: { type: "number", description: "Rows that passed validation (on dry runs, that would be imported)" },
+            imported: { type: "number" },
+            failed: { type: "number" },
+            errors: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  row: { type: "number", description: "Row number, from 1 (a CSV header isn't a row)" },
+                  id: { type: "string" },
+                  errors: { type: "array", items: { type: "string" } },
+                },
+              },
+            },
+          },
+        },
+        AuditEntry: {
+          type: "object",
+          properties: {
+            entity: { type: "string", example: "Shipment" },
+            entity_id: { type: "string", example: "S1" },
+            version: { type: "number", description: "1 for the create, then one more per change" },
+            action: { type: "string", enum: ["create", "update", "delete", "restore"] },
+            actor: { type: "string", description: "From the X-Actor header (or actor in the body); system for internal changes" },
+            changes: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  field: { type: "string" },
+                  from: { description: "Absent when the field wasn't set" },
+                  to: { description: "Absent when the field was removed" },
+                },
+              },
+            },
+            snapshot: { type: "object", description: "The record after the change (as it was when deleted, for deletes)" },
+            timestamp: { type: "string", format: "date-time" },
+          },
+        },
+        DeleteResult: {
+          type: "object",
+          properties: {
+            success: { type: "boolean" },
+            message: { type: "string" },
+            data: {
+              type: "object",
+              properties: {
+                cascaded: {
+                  type: "array",
+                  description: "Dependent records deleted with it (cascade relations)",
+                  items: {
+                    type: "object",
+                    properties: { model: { type: "string" }, count: { type: "number" } },
+                  },
+                },
+              },
+            },
+          },
+        },
+        IntegrityReport: {
+          type: "object",
+          properties: {
+            generated_at: { type: "string", format: "date-time" },
+            total_orphans: { type: "number" },
+            relations: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  model: { type: "string", example: "Inspection" },
+                  field: { type: "string", example: "shipment_id" },
+                  references: { type: "string", example: "Shipment" },
+                  policy: { type: "string", enum: ["restrict", "cascade"] },
+                  orphan_count: { type: "number" },
+                  orphans: {
+                    type: "array",
+                    description: "Up to 100 orphans: the record's id and the value that matches nothing",
+                    items: { type: "object" },
+                  },
+                },
+              },
+            },
+          },
+        },
+        OutboxEvent: {
+          type: "object",
+          properties: {
+            id: { type: "string", example: "evt_4f1c..." },
+            type: {
+              type: "string",
+              enum: [
+                "shipment.created",
+                "shipment.status_changed",
+                "shipment.rejected",
+                "contaminant.detected",
+                "inspection.follow_up_required",
+                "contract.status_changed",
+              ],
+            },
+            entity: { type: "string", example: "Contaminant" },
+            entity_id: { type: "string", example: "CT1" },
+            actor: { type: "string" },
+            payload: { type: "object", description: "Event data, e.g. risk_level for contaminant.detected" },
+            occurred_at: { type: "string", format: "date-time" },
+            dispatched_at: { type: "string", format: "date-time", description: "When deliveries were queued for it" },
+          },
+        },
+        WebhookSubscription: {
+          type: "object",
+          required: ["url", "event_types"],
+          properties: {
+            id: { type: "string", example: "wh_2b7e..." },
+            url: { type: "string", format: "uri", example: "http://localhost:4100/hooks" },
+            event_types: {
+              type: "array",
+              items: { type: "string" },
+              description: "Event types, <entity>.* for all of an entity's events, or *",
+              example: ["shipment.rejected", "contaminant.*"],
+            },
+            secret: {
+              type: "string",
+              description: "HMAC signing secret. Generated when not given, and only returned by the create call.",
+            },
+            active: { type: "boolean", default: true },
+            description: { type: "string" },
+          },
+        },
+        WebhookDelivery: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            subscription_id: { type: "string" },
+            event_id: { type: "string" },
+            event_type: { type: "string" },
+            status: { type: "string", enum: ["pending", "delivered", "failed"] },
+            attempts: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  attempted_at: { type: "string", format: "date-time" },
+                  status_code: { type: "number", description: "Absent when the receiver couldn't be reached" },
+                  error: { type: "string" },
+                  duration_ms: { type: "number" },
+                },
               },
             },
+            next_attempt_at: { type: "string", format: "date-time" },
+            delivered_at: { type: "string", format: "date-time" },
+            failure_reason: { type: "string" },
           },
         },
         SuccessResponse: {
@@ -399,6 +754,56 @@ const options: swaggerJsdoc.Options = {
           },
         },
       },
+      parameters: {
+        AsOf: {
+          name: "as_of",
+          in: "query",
+          schema: { type: "string", format: "date-time" },
+          description: "Return the record as it was at this date or time, from the audit log",
+        },
+        Limit: {
+          name: "limit",
+          in: "query",
+          schema: { type: "integer", minimum: 1, maximum: 1000, default: 100 },
+          description: "Page size",
+        },
+        Cursor: {
+          name: "cursor",
+          in: "query",
+          schema: { type: "string" },
+          description: "next_cursor from the previous page (use the same filters and sort)",
+        },
+        Sort: {
+          name: "sort",
+          in: "query",
+          schema: { type: "string" },
+          description: "Comma-separated fields, prefix with - for descending (e.g. -date,weight_kg)",
+        },
+        ExportFormat: {
+          name: "format",
+          in: "query",
+          schema: { type: "string", enum: ["csv", "ndjson"], default: "csv" },
+          description: "File format",
+        },
+        ImportFormat: {
+          name: "format",
+          in: "query",
+          schema: { type: "string", enum: ["csv", "ndjson"] },
+          description: "Body format (defaults to the Content-Type)",
+        },
+        DryRun: {
+          name: "dry_run",
+          in: "query",
+          schema: { type: "string", enum: ["true", "false"], default: "false" },
+          description: "Validate the rows and report errors without creating anything",
+        },
+        Fields: {
+          name: "fields",
+          in: "query",
+          schema: { type: "string" },
+          description: "Comma-separated top-level fields to return (id is always included)",
+        },
+      },
     },
     paths: {
       "/api/shipments": {
@@ -437,6 +842,22 @@ const options: swaggerJsdoc.Options = {
               schema: { type: "boolean" },
               description: "Filter by contamination status",
             },
+            {
+              name: "weight_kg_min",
+              in: "query",
+              schema: { type: "number" },
+              description: "Minimum weight in kilograms",
+            },
+            {
+              name: "weight_kg_max",
+              in: "query",
+              schema: { type: "number" },
+              description: "Maximum weight in kilograms",
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
           ],
           responses: {
             "200": {
@@ -451,7 +872,13 @@ const options: swaggerJsdoc.Options = {
                         type: "array",
                         items: { $ref: "#/components/schemas/Shipment" },
                       },
-                      count: { type: "number" },
+                      count: { type: "number", description: "Items on this page" },
+                      total: { type: "number", description: "Items matching the filters" },
+                      next_cursor: {
+                        type: "string",
+                        nullable: true,
+                        description: "Cursor for the next page (null on the last page)",
+                      },
                     },
                   },
                 },
@@ -462,6 +889,8 @@ const options: swaggerJsdoc.Options = {
         post: {
           tags: ["Shipments"],
           summary: "Create a new shipment",
+          description:
+            "Shipments with a producer_id are checked against the producer's contract with the facility. Depending on CONTRACT_ENFORCEMENT_MODE, violations either reject the shipment (422) or are flagged in contract_violations on the response. Either way they are recorded.",
           requestBody: {
             required: true,
             content: {
@@ -479,6 +908,103 @@ const options: swaggerJsdoc.Options = {
                 },
               },
             },
+            "409": {
+              description: "Facility would exceed capacity (code CAPACITY_EXCEEDED)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+            "422": {
+              description:
+                "Shipment violates the producer's contract (code CONTRACT_VIOLATION), or its facility_id or producer_id matches nothing (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/shipments/export": {
+        get: {
+          tags: ["Shipments"],
+          summary: "Export shipments",
+          description: "Streams every matching record as CSV (arrays are ;-separated, nested fields are dotted columns) or NDJSON. Takes the list endpoint's filters, sort, fields and <field>_min/<field>_max ranges.",
+          parameters: [
+            { $ref: "#/components/parameters/ExportFormat" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Export file",
+              content: {
+                "text/csv": {
+                  schema: { type: "string" },
+                },
+                "application/x-ndjson": {
+                  schema: { type: "string" },
+                },
+              },
+            },
+            "400": {
+              description: "Invalid format, sort or fields",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/shipments/import": {
+        post: {
+          tags: ["Shipments"],
+          summary: "Import shipments",
+          description: "Creates one record per CSV row or NDJSON line, validated like the create endpoint. Rows that fail are reported and skipped; the rest are imported.",
+          parameters: [
+            { $ref: "#/components/parameters/ImportFormat" },
+            { $ref: "#/components/parameters/DryRun" },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": {
+                schema: { type: "string" },
+              },
+              "application/x-ndjson": {
+                schema: { type: "string" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Import report",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/ImportReport" },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "400": {
+              description: "Unreadable file, unknown columns or too many rows",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
           },
         },
       },
@@ -494,6 +1020,7 @@ const options: swaggerJsdoc.Options = {
               schema: { type: "string" },
               description: "Shipment ID",
             },
+            { $ref: "#/components/parameters/AsOf" },
           ],
           responses: {
             "200": {
@@ -548,11 +1075,21 @@ const options: swaggerJsdoc.Options = {
                 },
               },
             },
+            "409": {
+              description: "Status change not allowed from the current status",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
           },
         },
         delete: {
           tags: ["Shipments"],
-          summary: "Delete a shipment",
+          summary: "Soft-delete a shipment",
+          description:
+            "Soft delete: the record gets a deleted_at and drops out of queries, and can be restored. Records that reference it are handled by their delete policy: restrict refuses (409), cascade deletes them with it.",
           parameters: [
             {
               name: "id",
@@ -564,26 +1101,37 @@ const options: swaggerJsdoc.Options = {
           responses: {
             "200": {
               description: "Shipment deleted successfully",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/DeleteResult" },
+                },
+              },
+            },
+            "404": {
+              description: "Shipment not found",
+            },
+            "409": {
+              description: "Still referenced through a restrict relation (code REFERENCE_CONSTRAINT)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
             },
           },
         },
       },
-      "/api/facilities": {
+      "/api/shipments/{id}/versions": {
         get: {
-          tags: ["Facilities"],
-          summary: "List all facilities",
+          tags: ["Shipments"],
+          summary: "Get a shipment's audit history",
+          description: "Every create, update, delete and restore, oldest first, with field diffs and actor. Deleted records keep their history.",
           parameters: [
             {
-              name: "location",
-              in: "query",
+              name: "id",
+              in: "path",
+              required: true,
               schema: { type: "string" },
-              description: "Filter by location",
-            },
-            {
-              name: "type",
-              in: "query",
-              schema: { type: "string", enum: ["sorting", "processing", "disposal"] },
-              description: "Filter by facility type",
             },
           ],
           responses: {
@@ -595,40 +1143,24 @@ const options: swaggerJsdoc.Options = {
                     type: "object",
                     properties: {
                       success: { type: "boolean" },
-                      data: {
-                        type: "array",
-                        items: { $ref: "#/components/schemas/Facility" },
-                      },
+                      data: { type: "array", items: { $ref: "#/components/schemas/AuditEntry" } },
                       count: { type: "number" },
                     },
                   },
                 },
               },
             },
+            "404": {
+              description: "No history for this ID",
+            },
           },
         },
+      },
+      "/api/shipments/{id}/restore": {
         post: {
-          tags: ["Facilities"],
-          summary: "Create a new facility",
-          requestBody: {
-            required: true,
-            content: {
-              "application/json": {
-                schema: { $ref: "#/components/schemas/Facility" },
-              },
-            },
-          },
-          responses: {
-            "201": {
-              description: "Facility created successfully",
-            },
-          },
-        },
-      },
-      "/api/facilities/{id}": {
-        get: {
-          tags: ["Facilities"],
-          summary: "Get a facility by ID",
+          tags: ["Shipments"],
+          summary: "Restore a deleted shipment",
+          description: "Clears deleted_at on the record and on everything deleted along with it. The records it references must still exist.",
           parameters: [
             {
               name: "id",
@@ -639,24 +1171,48 @@ const options: swaggerJsdoc.Options = {
           ],
           responses: {
             "200": {
-              description: "Successful response",
+              description: "Shipment restored successfully",
               content: {
                 "application/json": {
                   schema: {
                     type: "object",
                     properties: {
                       success: { type: "boolean" },
-                      data: { $ref: "#/components/schemas/Facility" },
+                      data: { $ref: "#/components/schemas/Shipment" },
+                      restored: {
+                        type: "array",
+                        description: "Records deleted along with it and restored with it",
+                        items: {
+                          type: "object",
+                          properties: { model: { type: "string" }, count: { type: "number" } },
+                        },
+                      },
+                      message: { type: "string" },
                     },
                   },
                 },
               },
             },
+            "404": {
+              description: "No deleted shipment with this ID",
+            },
+            "422": {
+              description: "A record it references no longer exists (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
           },
         },
-        put: {
-          tags: ["Facilities"],
-          summary: "Update a facility",
+      },
+      "/api/shipments/{id}/transition": {
+        post: {
+          tags: ["Shipments"],
+          summary: "Change a shipment's status",
+          description:
+            "Moves a shipment along its lifecycle: pending -> in_transit -> delivered, or rejected from any status before it. Rejected is final.",
           parameters: [
             {
               name: "id",
@@ -664,24 +1220,57 @@ const options: swaggerJsdoc.Options = {
               required: true,
               schema: { type: "string" },
             },
+            {
+              name: "X-Actor",
+              in: "header",
+              required: false,
+              schema: { type: "string" },
+              description: "Who made the change (when actor isn't in the body)",
+            },
           ],
           requestBody: {
             required: true,
             content: {
               "application/json": {
-                schema: { $ref: "#/components/schemas/Facility" },
+                schema: {
+                  type: "object",
+                  required: ["status"],
+                  properties: {
+                    status: { type: "string", enum: ["pending", "in_transit", "delivered", "rejected"] },
+                    reason: { type: "string" },
+                    actor: { type: "string" },
+                  },
+                },
               },
             },
           },
           responses: {
             "200": {
-              description: "Facility updated successfully",
+              description: "Status changed",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/SuccessResponse" },
+                },
+              },
+            },
+            "404": {
+              description: "Shipment not found",
+            },
+            "409": {
+              description: "Transition not allowed from the current status",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
             },
           },
         },
-        delete: {
-          tags: ["Facilities"],
-          summary: "Delete a facility",
+      },
+      "/api/shipments/{id}/history": {
+        get: {
+          tags: ["Shipments"],
+          summary: "Get a shipment's status history",
           parameters: [
             {
               name: "id",
@@ -692,27 +1281,75 @@ const options: swaggerJsdoc.Options = {
           ],
           responses: {
             "200": {
-              description: "Facility deleted successfully",
+              description: "Status transitions, oldest first",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/ShipmentStatusTransition" },
+                      },
+                      count: { type: "number" },
+                      allowed_transitions: { type: "array", items: { type: "string" } },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "Shipment not found",
             },
           },
         },
       },
-      "/api/contaminants-detected": {
+      "/api/facilities": {
         get: {
-          tags: ["Contaminants"],
-          summary: "List all contaminants",
+          tags: ["Facilities"],
+          summary: "List all facilities",
           parameters: [
             {
-              name: "shipment_ids",
+              name: "location",
               in: "query",
               schema: { type: "string" },
-              description: "Comma-separated shipment IDs",
+              description: "Filter by location",
             },
             {
-              name: "risk_level",
+              name: "type",
               in: "query",
-              schema: { type: "string", enum: ["low", "medium", "high", "critical"] },
+              schema: { type: "string", enum: ["sorting", "processing", "disposal"] },
+              description: "Filter by facility type",
+            },
+            {
+              name: "capacity_tons_min",
+              in: "query",
+              schema: { type: "number" },
+              description: "Minimum capacity in tons",
+            },
+            {
+              name: "capacity_tons_max",
+              in: "query",
+              schema: { type: "number" },
+              description: "Maximum capacity in tons",
+            },
+            {
+              name: "current_load_tons_min",
+              in: "query",
+              schema: { type: "number" },
+              description: "Minimum current load in tons",
+            },
+            {
+              name: "current_load_tons_max",
+              in: "query",
+              schema: { type: "number" },
+              description: "Maximum current load in tons",
             },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
           ],
           responses: {
             "200": {
@@ -725,9 +1362,15 @@ const options: swaggerJsdoc.Options = {
                       success: { type: "boolean" },
                       data: {
                         type: "array",
-                        items: { $ref: "#/components/schemas/Contaminant" },
+                        items: { $ref: "#/components/schemas/Facility" },
+                      },
+                      count: { type: "number", description: "Items on this page" },
+                      total: { type: "number", description: "Items matching the filters" },
+                      next_cursor: {
+                        type: "string",
+                        nullable: true,
+                        description: "Cursor for the next page (null on the last page)",
                       },
-                      count: { type: "number" },
                     },
                   },
                 },
@@ -736,27 +1379,107 @@ const options: swaggerJsdoc.Options = {
           },
         },
         post: {
-          tags: ["Contaminants"],
-          summary: "Create a new contaminant record",
+          tags: ["Facilities"],
+          summary: "Create a new facility",
           requestBody: {
             required: true,
             content: {
               "application/json": {
-                schema: { $ref: "#/components/schemas/Contaminant" },
+                schema: { $ref: "#/components/schemas/Facility" },
               },
             },
           },
           responses: {
             "201": {
-              description: "Contaminant created successfully",
+              description: "Facility created successfully",
             },
           },
         },
       },
-      "/api/contaminants-detected/{id}": {
+      "/api/facilities/export": {
         get: {
-          tags: ["Contaminants"],
-          summary: "Get a contaminant by ID",
+          tags: ["Facilities"],
+          summary: "Export facilities",
+          description: "Streams every matching record as CSV (arrays are ;-separated, nested fields are dotted columns) or NDJSON. Takes the list endpoint's filters, sort, fields and <field>_min/<field>_max ranges.",
+          parameters: [
+            { $ref: "#/components/parameters/ExportFormat" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Export file",
+              content: {
+                "text/csv": {
+                  schema: { type: "string" },
+                },
+                "application/x-ndjson": {
+                  schema: { type: "string" },
+                },
+              },
+            },
+            "400": {
+              description: "Invalid format, sort or fields",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/facilities/import": {
+        post: {
+          tags: ["Facilities"],
+          summary: "Import facilities",
+          description: "Creates one record per CSV row or NDJSON line, validated like the create endpoint. Rows that fail are reported and skipped; the rest are imported.",
+          parameters: [
+            { $ref: "#/components/parameters/ImportFormat" },
+            { $ref: "#/components/parameters/DryRun" },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": {
+                schema: { type: "string" },
+              },
+              "application/x-ndjson": {
+                schema: { type: "string" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Import report",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/ImportReport" },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "400": {
+              description: "Unreadable file, unknown columns or too many rows",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/facilities/{id}": {
+        get: {
+          tags: ["Facilities"],
+          summary: "Get a facility by ID",
           parameters: [
             {
               name: "id",
@@ -764,6 +1487,7 @@ const options: swaggerJsdoc.Options = {
               required: true,
               schema: { type: "string" },
             },
+            { $ref: "#/components/parameters/AsOf" },
           ],
           responses: {
             "200": {
@@ -774,7 +1498,7 @@ const options: swaggerJsdoc.Options = {
                     type: "object",
                     properties: {
                       success: { type: "boolean" },
-                      data: { $ref: "#/components/schemas/Contaminant" },
+                      data: { $ref: "#/components/schemas/Facility" },
                     },
                   },
                 },
@@ -783,8 +1507,8 @@ const options: swaggerJsdoc.Options = {
           },
         },
         put: {
-          tags: ["Contaminants"],
-          summary: "Update a contaminant",
+          tags: ["Facilities"],
+          summary: "Update a facility",
           parameters: [
             {
               name: "id",
@@ -797,19 +1521,21 @@ const options: swaggerJsdoc.Options = {
             required: true,
             content: {
               "application/json": {
-                schema: { $ref: "#/components/schemas/Contaminant" },
+                schema: { $ref: "#/components/schemas/Facility" },
               },
             },
           },
           responses: {
             "200": {
-              description: "Contaminant updated successfully",
+              description: "Facility updated successfully",
             },
           },
         },
         delete: {
-          tags: ["Contaminants"],
-          summary: "Delete a contaminant",
+          tags: ["Facilities"],
+          summary: "Soft-delete a facility",
+          description:
+            "Soft delete: the record gets a deleted_at and drops out of queries, and can be restored. Records that reference it are handled by their delete policy: restrict refuses (409), cascade deletes them with it.",
           parameters: [
             {
               name: "id",
@@ -820,24 +1546,37 @@ const options: swaggerJsdoc.Options = {
           ],
           responses: {
             "200": {
-              description: "Contaminant deleted successfully",
+              description: "Facility deleted successfully",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/DeleteResult" },
+                },
+              },
+            },
+            "404": {
+              description: "Facility not found",
+            },
+            "409": {
+              description: "Still referenced through a restrict relation (code REFERENCE_CONSTRAINT)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
             },
           },
         },
       },
-      "/api/inspections": {
+      "/api/facilities/{id}/versions": {
         get: {
-          tags: ["Inspections"],
-          summary: "List all inspections",
+          tags: ["Facilities"],
+          summary: "Get a facility's audit history",
+          description: "Every create, update, delete and restore, oldest first, with field diffs and actor. Deleted records keep their history.",
           parameters: [
             {
-              name: "status",
-              in: "query",
-              schema: { type: "string", enum: ["accepted", "rejected", "pending"] },
-            },
-            {
-              name: "facility_id",
-              in: "query",
+              name: "id",
+              in: "path",
+              required: true,
               schema: { type: "string" },
             },
           ],
@@ -850,40 +1589,24 @@ const options: swaggerJsdoc.Options = {
                     type: "object",
                     properties: {
                       success: { type: "boolean" },
-                      data: {
-                        type: "array",
-                        items: { $ref: "#/components/schemas/Inspection" },
-                      },
+                      data: { type: "array", items: { $ref: "#/components/schemas/AuditEntry" } },
                       count: { type: "number" },
                     },
                   },
                 },
               },
             },
-          },
-        },
-        post: {
-          tags: ["Inspections"],
-          summary: "Create a new inspection",
-          requestBody: {
-            required: true,
-            content: {
-              "application/json": {
-                schema: { $ref: "#/components/schemas/Inspection" },
-              },
-            },
-          },
-          responses: {
-            "201": {
-              description: "Inspection created successfully",
+            "404": {
+              description: "No history for this ID",
             },
           },
         },
       },
-      "/api/inspections/{id}": {
-        get: {
-          tags: ["Inspections"],
-          summary: "Get an inspection by ID",
+      "/api/facilities/{id}/restore": {
+        post: {
+          tags: ["Facilities"],
+          summary: "Restore a deleted facility",
+          description: "Clears deleted_at on the record and on everything deleted along with it. The records it references must still exist.",
           parameters: [
             {
               name: "id",
@@ -894,24 +1617,1249 @@ const options: swaggerJsdoc.Options = {
           ],
           responses: {
             "200": {
-              description: "Successful response",
+              description: "Facility restored successfully",
               content: {
                 "application/json": {
                   schema: {
                     type: "object",
                     properties: {
                       success: { type: "boolean" },
-                      data: { $ref: "#/components/schemas/Inspection" },
-                    },
-                  },
+                      data: { $ref: "#/components/schemas/Facility" },
+                      restored: {
+                        type: "array",
+                        description: "Records deleted along with it and restored with it",
+                        items: {
+                          type: "object",
+                          properties: { model: { type: "string" }, count: { type: "number" } },
+                        },
+                      },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "No deleted facility with this ID",
+            },
+            "422": {
+              description: "A record it references no longer exists (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/facilities/{id}/capacity-forecast": {
+        get: {
+          tags: ["Facilities"],
+          summary: "Forecast a facility's capacity utilization",
+          description:
+            "Current load (delivered shipments minus processing outflows) plus pending and in-transit shipments, accumulated by shipment date.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Capacity forecast",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/CapacityForecast" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "Facility not found",
+            },
+          },
+        },
+      },
+      "/api/facilities/{id}/reconcile": {
+        post: {
+          tags: ["Facilities"],
+          summary: "Recompute a facility's current load",
+          description: "Sets current_load_tons from delivered shipments minus processing outflows.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Load reconciled",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/SuccessResponse" },
+                },
+              },
+            },
+            "404": {
+              description: "Facility not found",
+            },
+          },
+        },
+      },
+      "/api/facilities/{id}/outflows": {
+        get: {
+          tags: ["Facilities"],
+          summary: "List processing outflows for a facility",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Outflows, oldest first",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/FacilityOutflow" },
+                      },
+                      count: { type: "number" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ["Facilities"],
+          summary: "Record material leaving a facility after processing",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/FacilityOutflow" },
+              },
+            },
+          },
+          responses: {
+            "201": {
+              description: "Outflow recorded and load reconciled",
+            },
+            "404": {
+              description: "Facility not found",
+            },
+            "409": {
+              description: "Outflow is larger than the facility's current load",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contracts/{id}/usage": {
+        get: {
+          tags: ["Contracts"],
+          summary: "Get a contract's quota usage",
+          description:
+            "Consumption ledger from the producer's delivered shipments to the facility within the contract period, with remaining quota, average daily burn rate and projected exhaustion date.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+            {
+              name: "as_of",
+              in: "query",
+              schema: { type: "string", format: "date" },
+              description: "Compute usage as of this date (default: today)",
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Contract usage",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/ContractUsage" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "Contract not found",
+            },
+          },
+        },
+      },
+      "/api/contracts/alerts": {
+        get: {
+          tags: ["Contracts"],
+          summary: "List contract alerts",
+          description: "Quota and end date alerts raised by the contract monitor, newest first",
+          parameters: [
+            {
+              name: "contract_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by contract ID",
+            },
+            {
+              name: "producer_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by producer ID",
+            },
+            {
+              name: "facility_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by facility ID",
+            },
+            {
+              name: "type",
+              in: "query",
+              schema: { type: "string", enum: ["quota_nearing", "quota_exhausted", "end_date_nearing", "auto_expired"] },
+              description: "Filter by alert type",
+            },
+            {
+              name: "active",
+              in: "query",
+              schema: { type: "string", enum: ["true", "false", "all"], default: "true" },
+              description: "Active alerts, resolved ones, or both",
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/ContractAlert" },
+                      },
+                      count: { type: "number", description: "Items on this page" },
+                      total: { type: "number", description: "Items matching the filters" },
+                      next_cursor: {
+                        type: "string",
+                        nullable: true,
+                        description: "Cursor for the next page (null on the last page)",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contracts/monitor": {
+        post: {
+          tags: ["Contracts"],
+          summary: "Run the contract monitor now",
+          description:
+            "Marks contracts past their end date as expired, raises alerts for active contracts nearing their quota or end date, and resolves alerts that no longer apply. Also runs on a schedule.",
+          responses: {
+            "200": {
+              description: "Monitor run summary",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/SuccessResponse" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contract-violations": {
+        get: {
+          tags: ["Contracts"],
+          summary: "List contract violations",
+          description: "Violations recorded when shipments were checked against contracts, newest first",
+          parameters: [
+            {
+              name: "shipment_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by shipment ID",
+            },
+            {
+              name: "producer_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by producer ID",
+            },
+            {
+              name: "facility_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by facility ID",
+            },
+            {
+              name: "contract_id",
+              in: "query",
+              schema: { type: "string" },
+              description: "Filter by contract ID",
+            },
+            {
+              name: "type",
+              in: "query",
+              schema: {
+                type: "string",
+                enum: [
+                  "no_contract",
+                  "contract_suspended",
+                  "contract_expired",
+                  "outside_contract_period",
+                  "undeclared_waste_type",
+                  "weight_limit_exceeded",
+                ],
+              },
+              description: "Filter by violation type",
+            },
+            {
+              name: "action",
+              in: "query",
+              schema: { type: "string", enum: ["rejected", "flagged"] },
+              description: "Filter by what happened to the shipment",
+            },
+            {
+              name: "date_from",
+              in: "query",
+              schema: { type: "string", format: "date-time" },
+              description: "Recorded on or after this time",
+            },
+            {
+              name: "date_to",
+              in: "query",
+              schema: { type: "string", format: "date-time" },
+              description: "Recorded on or before this time",
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/ContractViolation" },
+                      },
+                      count: { type: "number", description: "Items on this page" },
+                      total: { type: "number", description: "Items matching the filters" },
+                      next_cursor: {
+                        type: "string",
+                        nullable: true,
+                        description: "Cursor for the next page (null on the last page)",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contaminants-detected": {
+        get: {
+          tags: ["Contaminants"],
+          summary: "List all contaminants",
+          parameters: [
+            {
+              name: "shipment_ids",
+              in: "query",
+              schema: { type: "string" },
+              description: "Comma-separated shipment IDs",
+            },
+            {
+              name: "risk_level",
+              in: "query",
+              schema: { type: "string", enum: ["low", "medium", "high", "critical"] },
+            },
+            {
+              name: "concentration_ppm_min",
+              in: "query",
+              schema: { type: "number" },
+              description: "Minimum concentration in ppm",
+            },
+            {
+              name: "concentration_ppm_max",
+              in: "query",
+              schema: { type: "number" },
+              description: "Maximum concentration in ppm",
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/Contaminant" },
+                      },
+                      count: { type: "number", description: "Items on this page" },
+                      total: { type: "number", description: "Items matching the filters" },
+                      next_cursor: {
+                        type: "string",
+                        nullable: true,
+                        description: "Cursor for the next page (null on the last page)",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ["Contaminants"],
+          summary: "Create a new contaminant record",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Contaminant" },
+              },
+            },
+          },
+          responses: {
+            "201": {
+              description: "Contaminant created successfully",
+            },
+            "422": {
+              description: "shipment_id or facility_id matches nothing (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contaminants-detected/export": {
+        get: {
+          tags: ["Contaminants"],
+          summary: "Export contaminant detections",
+          description: "Streams every matching record as CSV (arrays are ;-separated, nested fields are dotted columns) or NDJSON. Takes the list endpoint's filters, sort, fields and <field>_min/<field>_max ranges.",
+          parameters: [
+            { $ref: "#/components/parameters/ExportFormat" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Export file",
+              content: {
+                "text/csv": {
+                  schema: { type: "string" },
+                },
+                "application/x-ndjson": {
+                  schema: { type: "string" },
+                },
+              },
+            },
+            "400": {
+              description: "Invalid format, sort or fields",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contaminants-detected/import": {
+        post: {
+          tags: ["Contaminants"],
+          summary: "Import contaminant detections",
+          description: "Creates one record per CSV row or NDJSON line, validated like the create endpoint. Rows that fail are reported and skipped; the rest are imported.",
+          parameters: [
+            { $ref: "#/components/parameters/ImportFormat" },
+            { $ref: "#/components/parameters/DryRun" },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": {
+                schema: { type: "string" },
+              },
+              "application/x-ndjson": {
+                schema: { type: "string" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Import report",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/ImportReport" },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "400": {
+              description: "Unreadable file, unknown columns or too many rows",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contaminants-detected/{id}": {
+        get: {
+          tags: ["Contaminants"],
+          summary: "Get a contaminant by ID",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+            { $ref: "#/components/parameters/AsOf" },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/Contaminant" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        put: {
+          tags: ["Contaminants"],
+          summary: "Update a contaminant",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Contaminant" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Contaminant updated successfully",
+            },
+          },
+        },
+        delete: {
+          tags: ["Contaminants"],
+          summary: "Soft-delete a contaminant",
+          description:
+            "Soft delete: the record gets a deleted_at and drops out of queries, and can be restored. Records that reference it are handled by their delete policy: restrict refuses (409), cascade deletes them with it.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Contaminant deleted successfully",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/DeleteResult" },
+                },
+              },
+            },
+            "404": {
+              description: "Contaminant not found",
+            },
+            "409": {
+              description: "Still referenced through a restrict relation (code REFERENCE_CONSTRAINT)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/contaminants-detected/{id}/versions": {
+        get: {
+          tags: ["Contaminants"],
+          summary: "Get a contaminant's audit history",
+          description: "Every create, update, delete and restore, oldest first, with field diffs and actor. Deleted records keep their history.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { type: "array", items: { $ref: "#/components/schemas/AuditEntry" } },
+                      count: { type: "number" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "No history for this ID",
+            },
+          },
+        },
+      },
+      "/api/contaminants-detected/{id}/restore": {
+        post: {
+          tags: ["Contaminants"],
+          summary: "Restore a deleted contaminant",
+          description: "Clears deleted_at on the record and on everything deleted along with it. The records it references must still exist.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Contaminant restored successfully",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/Contaminant" },
+                      restored: {
+                        type: "array",
+                        description: "Records deleted along with it and restored with it",
+                        items: {
+                          type: "object",
+                          properties: { model: { type: "string" }, count: { type: "number" } },
+                        },
+                      },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "No deleted contaminant with this ID",
+            },
+            "422": {
+              description: "A record it references no longer exists (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/inspections": {
+        get: {
+          tags: ["Inspections"],
+          summary: "List all inspections",
+          parameters: [
+            {
+              name: "status",
+              in: "query",
+              schema: { type: "string", enum: ["accepted", "rejected", "pending"] },
+            },
+            {
+              name: "facility_id",
+              in: "query",
+              schema: { type: "string" },
+            },
+            {
+              name: "duration_minutes_min",
+              in: "query",
+              schema: { type: "number" },
+              description: "Minimum duration in minutes",
+            },
+            {
+              name: "duration_minutes_max",
+              in: "query",
+              schema: { type: "number" },
+              description: "Maximum duration in minutes",
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/Inspection" },
+                      },
+                      count: { type: "number", description: "Items on this page" },
+                      total: { type: "number", description: "Items matching the filters" },
+                      next_cursor: {
+                        type: "string",
+                        nullable: true,
+                        description: "Cursor for the next page (null on the last page)",
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ["Inspections"],
+          summary: "Create a new inspection",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Inspection" },
+              },
+            },
+          },
+          responses: {
+            "201": {
+              description: "Inspection created successfully",
+            },
+            "422": {
+              description: "shipment_id or facility_id matches nothing (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/inspections/export": {
+        get: {
+          tags: ["Inspections"],
+          summary: "Export inspections",
+          description: "Streams every matching record as CSV (arrays are ;-separated, nested fields are dotted columns) or NDJSON. Takes the list endpoint's filters, sort, fields and <field>_min/<field>_max ranges.",
+          parameters: [
+            { $ref: "#/components/parameters/ExportFormat" },
+            { $ref: "#/components/parameters/Sort" },
+            { $ref: "#/components/parameters/Fields" },
+          ],
+          responses: {
+            "200": {
+              description: "Export file",
+              content: {
+                "text/csv": {
+                  schema: { type: "string" },
+                },
+                "application/x-ndjson": {
+                  schema: { type: "string" },
+                },
+              },
+            },
+            "400": {
+              description: "Invalid format, sort or fields",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/inspections/import": {
+        post: {
+          tags: ["Inspections"],
+          summary: "Import inspections",
+          description: "Creates one record per CSV row or NDJSON line, validated like the create endpoint. Rows that fail are reported and skipped; the rest are imported.",
+          parameters: [
+            { $ref: "#/components/parameters/ImportFormat" },
+            { $ref: "#/components/parameters/DryRun" },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "text/csv": {
+                schema: { type: "string" },
+              },
+              "application/x-ndjson": {
+                schema: { type: "string" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Import report",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/ImportReport" },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "400": {
+              description: "Unreadable file, unknown columns or too many rows",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/inspections/{id}": {
+        get: {
+          tags: ["Inspections"],
+          summary: "Get an inspection by ID",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+            { $ref: "#/components/parameters/AsOf" },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/Inspection" },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        put: {
+          tags: ["Inspections"],
+          summary: "Update an inspection",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Inspection" },
+              },
+            },
+          },
+          responses: {
+            "200": {
+              description: "Inspection updated successfully",
+            },
+          },
+        },
+        delete: {
+          tags: ["Inspections"],
+          summary: "Soft-delete an inspection",
+          description:
+            "Soft delete: the record gets a deleted_at and drops out of queries, and can be restored. Records that reference it are handled by their delete policy: restrict refuses (409), cascade deletes them with it.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Inspection deleted successfully",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/DeleteResult" },
+                },
+              },
+            },
+            "404": {
+              description: "Inspection not found",
+            },
+            "409": {
+              description: "Still referenced through a restrict relation (code REFERENCE_CONSTRAINT)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/inspections/{id}/versions": {
+        get: {
+          tags: ["Inspections"],
+          summary: "Get a inspection's audit history",
+          description: "Every create, update, delete and restore, oldest first, with field diffs and actor. Deleted records keep their history.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { type: "array", items: { $ref: "#/components/schemas/AuditEntry" } },
+                      count: { type: "number" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "No history for this ID",
+            },
+          },
+        },
+      },
+      "/api/inspections/{id}/restore": {
+        post: {
+          tags: ["Inspections"],
+          summary: "Restore a deleted inspection",
+          description: "Clears deleted_at on the record and on everything deleted along with it. The records it references must still exist.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Inspection restored successfully",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/Inspection" },
+                      restored: {
+                        type: "array",
+                        description: "Records deleted along with it and restored with it",
+                        items: {
+                          type: "object",
+                          properties: { model: { type: "string" }, count: { type: "number" } },
+                        },
+                      },
+                      message: { type: "string" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "No deleted inspection with this ID",
+            },
+            "422": {
+              description: "A record it references no longer exists (code INVALID_REFERENCE)",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/Error" },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/analytics/contamination-rate": {
+        get: {
+          tags: ["Analytics"],
+          summary: "Get contamination rate statistics",
+          description: "Returns overall contamination statistics including rate percentage and risk level distribution",
+          responses: {
+            "200": {
+              description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: {
+                        type: "object",
+                        properties: {
+                          total_shipments: { type: "number" },
+                          contaminated_shipments: { type: "number" },
+                          clean_shipments: { type: "number" },
+                          contamination_rate_percent: { type: "number" },
+                          risk_level_distribution: { type: "object" },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/analytics/facility-performance": {
+        get: {
+          tags: ["Analytics"],
+          summary: "Get facility performance metrics",
+          description: "Returns acceptance and rejection rates for all facilities",
+          responses: {
+            "200": {
+              description: "Successful response",
+            },
+          },
+        },
+      },
+      "/api/analytics/waste-type-distribution": {
+        get: {
+          tags: ["Analytics"],
+          summary: "Get waste type distribution",
+          description: "Returns breakdown of shipments by waste type with contamination rates",
+          responses: {
+            "200": {
+              description: "Successful response",
+            },
+          },
+        },
+      },
+      "/api/analytics/risk-trends": {
+        get: {
+          tags: ["Analytics"],
+          summary: "Get contaminant risk trends over time",
+          description: "Returns daily breakdown of contaminants by risk level",
+          parameters: [
+            {
+              name: "days",
+              in: "query",
+              schema: { type: "number", default: 30 },
+              description: "Number of days to look back",
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Successful response",
+            },
+          },
+        },
+      },
+      "/api/webhooks": {
+        get: {
+          tags: ["Webhooks"],
+          summary: "List webhook subscriptions",
+          parameters: [
+            {
+              name: "active",
+              in: "query",
+              schema: { type: "boolean" },
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+          ],
+          responses: {
+            "200": {
+              description: "Subscriptions",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { type: "array", items: { $ref: "#/components/schemas/WebhookSubscription" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: {
+          tags: ["Webhooks"],
+          summary: "Create a webhook subscription",
+          description: "The response includes the signing secret; it isn't shown again.",
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/WebhookSubscription" },
+              },
+            },
+          },
+          responses: {
+            "201": {
+              description: "Subscription created",
+            },
+            "409": {
+              description: "Subscription with this ID already exists",
+            },
+          },
+        },
+      },
+      "/api/webhooks/{id}": {
+        get: {
+          tags: ["Webhooks"],
+          summary: "Get a webhook subscription",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
+          responses: {
+            "200": {
+              description: "Subscription",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/WebhookSubscription" },
+                    },
+                  },
                 },
               },
             },
+            "404": {
+              description: "Webhook subscription not found",
+            },
           },
         },
         put: {
-          tags: ["Inspections"],
-          summary: "Update an inspection",
+          tags: ["Webhooks"],
+          summary: "Update a webhook subscription",
+          description: "Deactivating a subscription fails its pending deliveries.",
           parameters: [
             {
               name: "id",
@@ -924,19 +2872,34 @@ const options: swaggerJsdoc.Options = {
             required: true,
             content: {
               "application/json": {
-                schema: { $ref: "#/components/schemas/Inspection" },
+                schema: { $ref: "#/components/schemas/WebhookSubscription" },
               },
             },
           },
           responses: {
             "200": {
-              description: "Inspection updated successfully",
+              description: "Subscription updated",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/WebhookSubscription" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "Webhook subscription not found",
             },
           },
         },
         delete: {
-          tags: ["Inspections"],
-          summary: "Delete an inspection",
+          tags: ["Webhooks"],
+          summary: "Delete a webhook subscription",
+          description: "Its delivery log is kept.",
           parameters: [
             {
               name: "id",
@@ -947,35 +2910,60 @@ const options: swaggerJsdoc.Options = {
           ],
           responses: {
             "200": {
-              description: "Inspection deleted successfully",
+              description: "Subscription deleted",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/WebhookSubscription" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "Webhook subscription not found",
             },
           },
         },
       },
-      "/api/analytics/contamination-rate": {
+      "/api/webhooks/{id}/deliveries": {
         get: {
-          tags: ["Analytics"],
-          summary: "Get contamination rate statistics",
-          description: "Returns overall contamination statistics including rate percentage and risk level distribution",
+          tags: ["Webhooks"],
+          summary: "List a subscription's deliveries",
+          description: "The delivery log, newest first, with every attempt",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+            {
+              name: "status",
+              in: "query",
+              schema: { type: "string", enum: ["pending", "delivered", "failed"] },
+            },
+            {
+              name: "event_type",
+              in: "query",
+              schema: { type: "string" },
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
+          ],
           responses: {
             "200": {
-              description: "Successful response",
+              description: "Deliveries",
               content: {
                 "application/json": {
                   schema: {
                     type: "object",
                     properties: {
                       success: { type: "boolean" },
-                      data: {
-                        type: "object",
-                        properties: {
-                          total_shipments: { type: "number" },
-                          contaminated_shipments: { type: "number" },
-                          clean_shipments: { type: "number" },
-                          contamination_rate_percent: { type: "number" },
-                          risk_level_distribution: { type: "object" },
-                        },
-                      },
+                      data: { type: "array", items: { $ref: "#/components/schemas/WebhookDelivery" } },
                     },
                   },
                 },
@@ -984,46 +2972,136 @@ const options: swaggerJsdoc.Options = {
           },
         },
       },
-      "/api/analytics/facility-performance": {
-        get: {
-          tags: ["Analytics"],
-          summary: "Get facility performance metrics",
-          description: "Returns acceptance and rejection rates for all facilities",
+      "/api/webhooks/{id}/test": {
+        post: {
+          tags: ["Webhooks"],
+          summary: "Send a test event",
+          description: "Sends a signed webhook.test event now and reports how the receiver answered. Not logged.",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
           responses: {
             "200": {
-              description: "Successful response",
+              description: "The receiver answered 2xx",
+            },
+            "404": {
+              description: "Webhook subscription not found",
+            },
+            "502": {
+              description: "The receiver couldn't be reached or didn't answer 2xx",
             },
           },
         },
       },
-      "/api/analytics/waste-type-distribution": {
-        get: {
-          tags: ["Analytics"],
-          summary: "Get waste type distribution",
-          description: "Returns breakdown of shipments by waste type with contamination rates",
+      "/api/webhooks/deliveries/{id}/redeliver": {
+        post: {
+          tags: ["Webhooks"],
+          summary: "Redeliver a webhook",
+          description: "Sends a delivery again now, once, whether it was delivered or failed before",
+          parameters: [
+            {
+              name: "id",
+              in: "path",
+              required: true,
+              schema: { type: "string" },
+            },
+          ],
           responses: {
             "200": {
-              description: "Successful response",
+              description: "The delivery after the attempt",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/WebhookDelivery" },
+                    },
+                  },
+                },
+              },
+            },
+            "404": {
+              description: "Webhook delivery not found",
+            },
+            "409": {
+              description: "The subscription or event no longer exists",
             },
           },
         },
       },
-      "/api/analytics/risk-trends": {
+      "/api/webhooks/events": {
         get: {
-          tags: ["Analytics"],
-          summary: "Get contaminant risk trends over time",
-          description: "Returns daily breakdown of contaminants by risk level",
+          tags: ["Webhooks"],
+          summary: "List domain events",
+          description: "The event outbox, newest first",
           parameters: [
             {
-              name: "days",
+              name: "type",
               in: "query",
-              schema: { type: "number", default: 30 },
-              description: "Number of days to look back",
+              schema: { type: "string" },
+            },
+            {
+              name: "entity_id",
+              in: "query",
+              schema: { type: "string" },
+            },
+            {
+              name: "date_from",
+              in: "query",
+              schema: { type: "string", format: "date-time" },
             },
+            {
+              name: "date_to",
+              in: "query",
+              schema: { type: "string", format: "date-time" },
+            },
+            { $ref: "#/components/parameters/Limit" },
+            { $ref: "#/components/parameters/Cursor" },
           ],
+          responses: {
+            "200": {
+              description: "Events",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { type: "array", items: { $ref: "#/components/schemas/OutboxEvent" } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      "/api/integrity-report": {
+        get: {
+          tags: ["Analytics"],
+          summary: "Find orphaned records",
+          description:
+            "For every foreign key between the entities, the records whose value matches nothing, with their delete policy",
           responses: {
             "200": {
               description: "Successful response",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      success: { type: "boolean" },
+                      data: { $ref: "#/components/schemas/IntegrityReport" },
+                    },
+                  },
+                },
+              },
             },
           },
         },
@@ -0,0 +1,96 @@
+/**
+ * MongoDB Approval Audit Model
+ * Schema for the audit trail of approval decisions on gated plan steps
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IApprovalAuditDocument extends Document {
+  approvalId: string;
+  requestId: string;
+  stepIndex: number;
+  tool: string;
+  params: Record<string, any>;
+  category: 'read' | 'create' | 'update' | 'delete';
+  reason: string;
+  requestedAt: Date;
+  expiresAt: Date;
+  decision: 'approved' | 'rejected' | 'timed_out' | 'cancelled';
+  actor: string;
+  actorRole?: 'viewer' | 'inspector' | 'operator' | 'admin';
+  decisionReason?: string;
+  decidedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const approvalAuditSchema = new Schema<IApprovalAuditDocument>({
+  approvalId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  requestId: {
+    type: String,
+    required: true
+  },
+  stepIndex: {
+    type: Number,
+    required: true
+  },
+  tool: {
+    type: String,
+    required: true
+  },
+  params: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  category: {
+    type: String,
+    enum: ['read', 'create', 'update', 'delete'],
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+  requestedAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  decision: {
+    type: String,
+    enum: ['approved', 'rejected', 'timed_out', 'cancelled'],
+    required: true
+  },
+  actor: {
+    type: String,
+    required: true
+  },
+  actorRole: {
+    type: String,
+    enum: ['viewer', 'inspector', 'operator', 'admin']
+  },
+  decisionReason: {
+    type: String
+  },
+  decidedAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+// Indexes for better query performance
+approvalAuditSchema.index({ requestId: 1, decidedAt: 1 });
+approvalAuditSchema.index({ actor: 1, decidedAt: -1 });
+approvalAuditSchema.index({ decision: 1 });
+
+export const ApprovalAuditModel = mongoose.model<IApprovalAuditDocument>('ApprovalAudit', approvalAuditSchema);
@@ -0,0 +1,57 @@
+/**
+ * MongoDB Checkpoint Model
+ * Schema for storing workflow checkpoints so orchestrator runs can be resumed
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ICheckpointDocument extends Document {
+  checkpointId: string;
+  workflowId: string;
+  currentNode: string;
+  state: any;
+  timestamp: Date;
+  metadata?: Record<string, any>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Checkpoints are only useful for resuming recent runs
+const CHECKPOINT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const checkpointSchema = new Schema<ICheckpointDocument>({
+  checkpointId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  workflowId: {
+    type: String,
+    required: true
+  },
+  currentNode: {
+    type: String,
+    required: true
+  },
+  state: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    required: true
+  },
+  metadata: {
+    type: Schema.Types.Mixed,
+    default: null
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+// Indexes for better query performance
+checkpointSchema.index({ workflowId: 1, timestamp: -1 });
+checkpointSchema.index({ createdAt: 1 }, { expireAfterSeconds: CHECKPOINT_TTL_SECONDS });
+
+export const CheckpointModel = mongoose.model<ICheckpointDocument>('Checkpoint', checkpointSchema);
@@ -0,0 +1,50 @@
+/**
+ * MongoDB Conversation Model
+ * Schema for multi-turn conversation sessions
+ */
+
+import mongoose, { Document, Schema } from 'mongoose';
+import { Message } from '../../shared/context/types.js';
+import { ConversationTurn } from '../../shared/conversation/session.js';
+
+export interface IConversationDocument extends Document {
+  conversationId: string;
+  userId?: string;
+  title?: string;
+  messages: Message[];
+  turns: ConversationTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const conversationSchema = new Schema<IConversationDocument>({
+  conversationId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: String,
+    default: null
+  },
+  title: {
+    type: String,
+    default: null
+  },
+  messages: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  turns: {
+    type: Schema.Types.Mixed,
+    default: []
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+// Indexes for better query performance
+conversationSchema.index({ userId: 1, updatedAt: -1 });
+
+export const ConversationModel = mongoose.model<IConversationDocument>('Conversation', conversationSchema);
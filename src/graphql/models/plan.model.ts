@@ -4,14 +4,15 @@
  */
 
 import mongoose, { Document, Schema } from 'mongoose';
-import { Plan } from '../../shared/types/agent.js';
+import { Plan, ReplanRound } from '../../shared/types/agent.js';
 
 export interface IPlanDocument extends Document {
   requestId: string;
   query: string;
   plan: Plan;
   context?: any;
-  status: 'pending' | 'executing' | 'completed' | 'failed';
+  replanHistory: ReplanRound[];
+  status: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
   createdAt: Date;
   updatedAt: Date;
 }
@@ -35,9 +36,13 @@ const planSchema = new Schema<IPlanDocument>({
     type: Schema.Types.Mixed,
     default: null
   },
+  replanHistory: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
   status: {
     type: String,
-    enum: ['pending', 'executing', 'completed', 'failed'],
+    enum: ['pending', 'executing', 'completed', 'failed', 'cancelled'],
     default: 'pending'
   },
   createdAt: {
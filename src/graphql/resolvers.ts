@@ -9,7 +9,22 @@ import { ExecutionStorageService } from './services/execution-storage.service.js
 import { AnalysisStorageService } from './services/analysis-storage.service.js';
 import { AgentConfigStorageService } from './services/agent-config-storage.service.js';
 import { TrainingStorageService } from './services/training-storage.service.js';
+import { OrchestratorAgent } from '../agents/orchestrator.js';
+import { ApprovalGate } from '../agents/executor/approval-gate.js';
+import { ConversationManager } from '../agents/conversation-manager.js';
+import { Conversation } from '../shared/conversation/session.js';
+import { Analysis, FinalResponse, ReplanRound } from '../shared/types/agent.js';
+import { AgentResponse } from '../shared/response/builder.js';
+import { streamSummary } from '../shared/llm/token-stream.js';
 import GraphQLJSON from 'graphql-type-json';
+import {
+  CancellationRegistry,
+  getGlobalCancellationRegistry,
+  isCancellationError,
+} from '../shared/cancellation/registry.js';
+import { AuthIdentity, hasRole, runAsUser } from '../shared/auth/identity.js';
+import { PermissionDeniedError } from '../shared/utils/errors.js';
+import { MemoryDeletionReport } from '../shared/types/memory.js';
 
 const pubsub = new PubSub();
 
@@ -86,6 +101,113 @@ interface Context {
   trainingStorage: TrainingStorageService;
   strategyRegistry: any;
   pubsub?: PubSub;
+  cancellation?: CancellationRegistry;
+  orchestrator?: OrchestratorAgent;
+  approvalGate?: ApprovalGate;
+  conversations?: ConversationManager;
+  user?: AuthIdentity; // The authenticated caller
+}
+
+/**
+ * Throw a PermissionDeniedError unless the caller is an admin
+ */
+function requireAdmin(ctx: Context, action: string): void {
+  if (ctx.user && !hasRole(ctx.user.role, 'admin')) {
+    throw new PermissionDeniedError(action, ctx.user.role, 'admin');
+  }
+}
+
+function formatDeletionReport(report: MemoryDeletionReport) {
+  return {
+    subject: report.subject,
+    episodic: { deleted: report.episodic.deleted, byType: report.episodic.by_type, ids: report.episodic.ids },
+    semantic: report.semantic,
+    startedAt: report.started_at,
+    completedAt: report.completed_at,
+  };
+}
+
+/**
+ * Who a request is recorded for: the signed-in user, else the userId argument
+ * (the only source while authentication is off)
+ */
+function requesterId(ctx: Context | undefined, userId?: string): string | undefined {
+  return ctx?.user && ctx.user.method !== 'anonymous' ? ctx.user.id : userId;
+}
+
+/**
+ * Throw unless the signed-in caller started the conversation. Admins may open
+ * any conversation; with authentication off there is no one to check.
+ */
+function assertConversationOwner(ctx: Context, conversation: Conversation): void {
+  const callerId = requesterId(ctx);
+  if (!callerId || hasRole(ctx.user!.role, 'admin')) {
+    return;
+  }
+  if (conversation.userId !== callerId) {
+    throw new PermissionDeniedError(`access conversation ${conversation.conversationId}`, ctx.user!.role, 'admin');
+  }
+}
+
+// Who each request belongs to (in production, use database)
+const requestOwners = new Map<string, string>();
+
+/**
+ * Throw unless the signed-in caller owns the request. Admins may act on any
+ * request; with authentication off there is no one to check. A request with
+ * no recorded owner is refused unless `allowUnowned` is set.
+ */
+function assertRequestOwner(ctx: Context | undefined, requestId: string, allowUnowned = false): void {
+  const callerId = requesterId(ctx);
+  if (!callerId || hasRole(ctx!.user!.role, 'admin')) {
+    return;
+  }
+  const ownerId = requestOwners.get(requestId);
+  if (ownerId === callerId || (ownerId === undefined && allowUnowned)) {
+    return;
+  }
+  throw new PermissionDeniedError(`access request ${requestId}`, ctx!.user!.role, 'admin');
+}
+
+/**
+ * Record the caller as the owner of a request. The first caller to use a
+ * requestId (to run it, cancel it ahead of time or subscribe to it) owns it;
+ * anyone else but an admin is refused.
+ */
+function claimRequest(ctx: Context | undefined, requestId: string, userId?: string): void {
+  assertRequestOwner(ctx, requestId, true);
+  const ownerId = requesterId(ctx, userId);
+  if (ownerId && !requestOwners.has(requestId)) {
+    requestOwners.set(requestId, ownerId);
+  }
+}
+
+/**
+ * Map a conversation to its GraphQL shape
+ */
+function formatConversation(conversation: Conversation) {
+  return {
+    conversationId: conversation.conversationId,
+    userId: conversation.userId || null,
+    title: conversation.title || null,
+    messages: conversation.messages.map(m => ({
+      role: m.role,
+      content: m.content,
+      timestamp: m.timestamp,
+      metadata: m.metadata || null,
+    })),
+    turns: conversation.turns.map(t => ({
+      requestId: t.requestId,
+      query: t.query,
+      intent: t.intent,
+      response: t.response,
+      toolsUsed: t.toolsUsed,
+      error: t.error || false,
+      timestamp: t.timestamp,
+    })),
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+  };
 }
 
 // Store for request history (in production, use database)
@@ -100,6 +222,96 @@ const metrics = {
   startTime: Date.now(),
 };
 
+// Convert internal analysis to GraphQL format
+function formatAnalysis(analysis: Analysis) {
+  return {
+    summary: analysis.summary,
+    insights: analysis.insights.map((i: any) => ({
+      type: i.type,
+      description: i.description,
+      confidence: i.confidence,
+      supportingData: Array.isArray(i.supporting_data) ? i.supporting_data : [i.supporting_data],
+    })),
+    entities: analysis.entities.map((e: any) => ({
+      id: e.id,
+      type: e.type,
+      name: e.name,
+      attributes: e.attributes,
+      relationships: e.relationships || [],
+    })),
+    anomalies: analysis.anomalies.map((a: any) => ({
+      type: a.type,
+      description: a.description,
+      severity: a.severity,
+      affectedEntities: a.affected_entities,
+      data: a.data,
+    })),
+    metadata: {
+      toolResultsCount: analysis.metadata.tool_results_count,
+      successfulResults: analysis.metadata.successful_results,
+      failedResults: analysis.metadata.failed_results,
+      analysisTimeMs: analysis.metadata.analysis_time_ms,
+    },
+  };
+}
+
+// Convert an orchestrator response to an ExecutionResult and record it
+function formatClarification(clarification: AgentResponse) {
+  return {
+    question: clarification.content,
+    options: clarification.options || [],
+    reason: clarification.metadata?.reason || 'low_confidence',
+    missing: clarification.metadata?.missing || [],
+    suggestions: clarification.metadata?.suggestions || null,
+    confidence: clarification.confidence ?? null,
+  };
+}
+
+function recordOrchestratorResponse(
+  query: string,
+  response: FinalResponse,
+  userId?: string
+) {
+  const requestId = response.metadata.request_id;
+  const isError = response.metadata.error || false;
+
+  const result = {
+    requestId,
+    message: response.message,
+    toolsUsed: response.tools_used,
+    data: response.data ?? null,
+    analysis: response.analysis ? formatAnalysis(response.analysis) : null,
+    clarification: response.clarification ? formatClarification(response.clarification) : null,
+    metadata: {
+      requestId,
+      totalDurationMs: response.metadata.total_duration_ms,
+      timestamp: response.metadata.timestamp,
+      error: isError,
+    },
+  };
+
+  // Update metrics
+  metrics.totalRequests++;
+  metrics.totalDuration += response.metadata.total_duration_ms;
+  if (isError) {
+    metrics.failedRequests++;
+  } else {
+    metrics.successfulRequests++;
+  }
+
+  // Keep the original userId when a request is resumed
+  const previous = requestHistory.get(requestId);
+  requestHistory.set(requestId, {
+    requestId,
+    query,
+    response: result,
+    timestamp: new Date().toISOString(),
+    userId: userId ?? previous?.userId,
+  });
+
+  return result;
+}
+
 export const resolvers = {
   JSON: GraphQLJSON,
 
@@ -185,6 +397,7 @@ export const resolvers = {
               params: step.params,
               dependsOn: step.depends_on || [],
               parallel: step.parallel || false,
+              requiresApproval: step.requires_approval || false,
             })),
           },
           metadata: {
@@ -193,6 +406,31 @@ export const resolvers = {
             estimatedDurationMs: plan.plan.metadata?.estimated_duration_ms || null,
           },
           status: plan.status,
+          replanHistory: (plan.replanHistory || []).map((round: ReplanRound) => ({
+            round: round.round,
+            failedSteps: round.failed_steps.map(step => ({
+              stepIndex: step.step_index,
+              tool: step.tool,
+              params: step.params,
+              error: {
+                code: step.error.code,
+                message: step.error.message,
+                details: step.error.details || null,
+              },
+            })),
+            repairPlan: {
+              steps: round.repair_plan.steps.map((step: any) => ({
+                tool: step.tool,
+                params: step.params,
+                dependsOn: step.depends_on || [],
+                parallel: step.parallel || false,
+                requiresApproval: step.requires_approval || false,
+              })),
+            },
+            repairedSteps: round.succeeded,
+            unrepairedSteps: round.failed,
+            timestamp: round.timestamp,
+          })),
         };
       } catch (error: any) {
         console.error('Error in getPlan:', error);
@@ -498,6 +736,43 @@ export const resolvers = {
         throw new Error(`Failed to get training stats: ${error.message}`);
       }
     },
+
+    // Step Approval Queries
+    listPendingApprovals: (_: any, { requestId }: { requestId?: string }, context: Context) => {
+      return context.approvalGate?.getPending(requestId) || [];
+    },
+
+    getApprovalAuditTrail: async (_: any, { requestId }: { requestId: string }, context: Context) => {
+      try {
+        if (!context.approvalGate) {
+          return [];
+        }
+        return await context.approvalGate.getAuditTrail(requestId);
+      } catch (error: any) {
+        throw new Error(`Failed to get approval audit trail: ${error.message}`);
+      }
+    },
+
+    // Conversation Queries
+    getConversation: async (_: any, { conversationId }: { conversationId: string }, context: Context) => {
+      try {
+        if (!context.conversations) {
+          throw new Error('Conversations not available in context');
+        }
+        const conversation = await context.conversations.getConversation(conversationId);
+        if (!conversation) {
+          return null;
+        }
+        assertConversationOwner(context, conversation);
+        return formatConversation(conversation);
+      } catch (error: any) {
+        if (error instanceof PermissionDeniedError) {
+          throw error;
+        }
+        console.error('Error in getConversation:', error);
+        throw new Error(`Failed to get conversation: ${error.message}`);
+      }
+    },
   },
 
   Mutation: {
@@ -549,8 +824,11 @@ export const resolvers = {
           },
         });
 
-        // Call planner
-        const plan = await planner.plan(query, fullContext);
+        // Call planner and mark steps that will need approval
+        let plan = await planner.plan(query, fullContext);
+        if (ctx.approvalGate) {
+          plan = ctx.approvalGate.getPolicy().applyToPlan(plan);
+        }
 
         // Store plan in MongoDB
         await ctx.planStorage.savePlan(requestId, query, plan, fullContext);
@@ -574,6 +852,7 @@ export const resolvers = {
               params: step.params,
               dependsOn: step.depends_on || [],
               parallel: step.parallel || false,
+              requiresApproval: step.requires_approval || false,
             })),
           },
           metadata: {
@@ -591,7 +870,7 @@ export const resolvers = {
 
     executeTools: async (
       _: any,
-      { requestId }: { requestId: string },
+      { requestId, dryRun = false }: { requestId: string; dryRun?: boolean },
       ctx: Context
     ) => {
       const startTime = Date.now();
@@ -603,8 +882,10 @@ export const resolvers = {
           throw new Error(`Plan not found for requestId: ${requestId}`);
         }
 
-        // Update plan status to executing
-        await ctx.planStorage.updatePlanStatus(requestId, 'executing');
+        // A dry run previews the plan - it leaves the stored plan untouched
+        if (!dryRun) {
+          await ctx.planStorage.updatePlanStatus(requestId, 'executing');
+        }
 
         // Get executor from context
         const executor = ctx.executor;
@@ -622,7 +903,7 @@ export const resolvers = {
             requestId,
             phase: 'executing',
             progress: 0,
-            message: `Executing ${internalPlan.steps.length} steps...`,
+            message: `${dryRun ? 'Simulating' : 'Executing'} ${internalPlan.steps.length} steps...`,
             currentStep: null,
             timestamp: new Date().toISOString(),
           },
@@ -643,13 +924,19 @@ export const resolvers = {
           });
         };
 
-        const results = await executor.execute(internalPlan, progressCallback);
+        // Run as a tracked request so cancelQuery can abort it
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        const results = await cancellation.run<any[]>(requestId, (signal) =>
+          runAsUser(ctx.user, () => executor.execute(internalPlan, progressCallback, { requestId, signal, dryRun }))
+        );
 
         // Update plan status based on execution results
         const successfulSteps = results.filter((r: any) => r.success).length;
         const failedSteps = results.filter((r: any) => !r.success).length;
         const finalStatus = failedSteps === 0 ? 'completed' : 'failed';
-        await ctx.planStorage.updatePlanStatus(requestId, finalStatus);
+        if (!dryRun) {
+          await ctx.planStorage.updatePlanStatus(requestId, finalStatus);
+        }
 
         // Publish completion
         pubsubInstance.publish('EXECUTOR_PROGRESS', {
@@ -665,13 +952,15 @@ export const resolvers = {
 
         const duration = Date.now() - startTime;
 
-        // Save execution results to storage
-        await ctx.executionStorage.saveExecution(requestId, results, {
-          totalDurationMs: duration,
-          successfulSteps,
-          failedSteps,
-          timestamp: new Date().toISOString()
-        });
+        // Save execution results to storage (a dry run must not replace real results)
+        if (!dryRun) {
+          await ctx.executionStorage.saveExecution(requestId, results, {
+            totalDurationMs: duration,
+            successfulSteps,
+            failedSteps,
+            timestamp: new Date().toISOString()
+          });
+        }
 
         return {
           requestId,
@@ -689,22 +978,33 @@ export const resolvers = {
               timestamp: r.metadata.timestamp,
               retries: r.metadata.retries || 0,
             },
+            dryRun: r.dry_run ? {
+              stepIndex: r.step_index ?? null,
+              resolvedParams: r.resolved_params || null,
+              requests: r.dry_run.requests,
+              estimatedDurationMs: r.dry_run.estimated_duration_ms,
+            } : null,
           })),
           metadata: {
             totalDurationMs: duration,
             successfulSteps,
             failedSteps,
             timestamp: new Date().toISOString(),
+            dryRun,
+            estimatedDurationMs: dryRun ? executor.estimatePlanDuration(internalPlan, results) : null,
           },
         };
       } catch (error: any) {
         console.error('Error in executeTools:', error);
 
-        // Update plan status to failed
-        try {
-          await ctx.planStorage.updatePlanStatus(requestId, 'failed');
-        } catch (statusError) {
-          console.error('Failed to update plan status to failed:', statusError);
+        // Update plan status to cancelled or failed
+        const status = isCancellationError(error) ? 'cancelled' : 'failed';
+        if (!dryRun) {
+          try {
+            await ctx.planStorage.updatePlanStatus(requestId, status);
+          } catch (statusError) {
+            console.error(`Failed to update plan status to ${status}:`, statusError);
+          }
         }
 
         throw new Error(`Failed to execute tools: ${error.message}`);
@@ -778,7 +1078,10 @@ export const resolvers = {
         });
 
         // Analyze results
-        const analysis = await analyzer.analyze(internalResults, requestId);
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        const analysis = await cancellation.run<any>(requestId, () =>
+          analyzer.analyze(internalResults, requestId)
+        );
 
         // Store analysis results
         await ctx.analysisStorage.saveAnalysis(requestId, analysis, query);
@@ -796,35 +1099,7 @@ export const resolvers = {
 
         return {
           requestId,
-          analysis: {
-            summary: analysis.summary,
-            insights: analysis.insights.map((i: any) => ({
-              type: i.type,
-              description: i.description,
-              confidence: i.confidence,
-              supportingData: Array.isArray(i.supporting_data) ? i.supporting_data : [i.supporting_data],
-            })),
-            entities: analysis.entities.map((e: any) => ({
-              id: e.id,
-              type: e.type,
-              name: e.name,
-              attributes: e.attributes,
-              relationships: e.relationships || [],
-            })),
-            anomalies: analysis.anomalies.map((a: any) => ({
-              type: a.type,
-              description: a.description,
-              severity: a.severity,
-              affectedEntities: a.affected_entities,
-              data: a.data,
-            })),
-            metadata: {
-              toolResultsCount: analysis.metadata.tool_results_count,
-              successfulResults: analysis.metadata.successful_results,
-              failedResults: analysis.metadata.failed_results,
-              analysisTimeMs: analysis.metadata.analysis_time_ms,
-            },
-          },
+          analysis: formatAnalysis(analysis),
           metadata: {
             toolResultsCount: analysis.metadata.tool_results_count,
             successfulResults: analysis.metadata.successful_results,
@@ -908,7 +1183,14 @@ export const resolvers = {
         });
 
         // Summarize
-        const summary = await summarizer.summarize(query, analysis, toolsUsed, requestId);
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        const summary = await cancellation.run<any>(requestId, () =>
+          streamSummary(
+            requestId,
+            (chunk) => pubsubInstance.publish('SUMMARY_STREAM', { summaryStream: chunk }),
+            () => summarizer.summarize(query, analysis, toolsUsed, requestId)
+          )
+        );
 
         // Publish completion
         pubsubInstance.publish('SUMMARIZER_PROGRESS', {
@@ -939,12 +1221,302 @@ export const resolvers = {
     },
 
 
-    cancelQuery: async (_: any, { requestId }: { requestId: string }) => {
-      // In a real implementation, this would cancel the ongoing request
-      console.log(`Cancelling request: ${requestId}`);
+    executeQuery: async (
+      _: any,
+      { query, userId, requestId: givenRequestId }: { query: string; userId?: string; requestId?: string },
+      ctx: Context
+    ) => {
+      const startTime = Date.now();
+      const { randomUUID } = await import('crypto');
+      // Known before the run starts, so cancelQuery can stop it
+      const requestId = givenRequestId || randomUUID();
+      claimRequest(ctx, requestId, userId);
+
+      try {
+        if (!ctx.orchestrator) {
+          throw new Error('Orchestrator not available in context');
+        }
+
+        const orchestrator = ctx.orchestrator;
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        // The agent's tool calls run with the caller's permissions
+        const response = await cancellation.run(requestId, () =>
+          runAsUser(ctx.user, () => orchestrator.handleQuery(query, undefined, requestId))
+        );
+        const result = recordOrchestratorResponse(query, response, requesterId(ctx, userId));
+
+        // Publish completion
+        const pubsubInstance = ctx.pubsub || pubsub;
+        pubsubInstance.publish('QUERY_PROGRESS', {
+          queryProgress: {
+            requestId: result.requestId,
+            phase: result.metadata.error ? 'failed' : 'completed',
+            progress: 100,
+            message: result.metadata.error ? 'Query failed (resumable)' : 'Query completed',
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return result;
+      } catch (error: any) {
+        console.error('Error in executeQuery:', error);
+
+        return recordOrchestratorResponse(query, {
+          message: `Error: ${error.message}`,
+          tools_used: [],
+          metadata: {
+            request_id: requestId,
+            total_duration_ms: Date.now() - startTime,
+            timestamp: new Date().toISOString(),
+            error: true,
+          },
+        }, requesterId(ctx, userId));
+      }
+    },
+
+    resumeQuery: async (
+      _: any,
+      { requestId }: { requestId: string },
+      ctx: Context
+    ) => {
+      assertRequestOwner(ctx, requestId);
+      try {
+        if (!ctx.orchestrator) {
+          throw new Error('Orchestrator not available in context');
+        }
+
+        // Stream progress of the resumed run
+        const pubsubInstance = ctx.pubsub || pubsub;
+        const orchestrator = ctx.orchestrator;
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        const response = await cancellation.run(requestId, () =>
+          runAsUser(ctx.user, () =>
+            orchestrator.resumeQuery(requestId, (update) => {
+              pubsubInstance.publish('QUERY_PROGRESS', { queryProgress: update });
+            })
+          )
+        );
+
+        const query = requestHistory.get(requestId)?.query || '';
+        return recordOrchestratorResponse(query, response);
+      } catch (error: any) {
+        console.error('Error in resumeQuery:', error);
+        throw new Error(`Failed to resume query: ${error.message}`);
+      }
+    },
+
+    answerClarification: async (
+      _: any,
+      { requestId, answer }: { requestId: string; answer: string },
+      ctx: Context
+    ) => {
+      assertRequestOwner(ctx, requestId);
+      try {
+        if (!ctx.orchestrator) {
+          throw new Error('Orchestrator not available in context');
+        }
+        if (!answer || answer.trim().length === 0) {
+          throw new Error('Answer cannot be empty');
+        }
+
+        const pubsubInstance = ctx.pubsub || pubsub;
+        const orchestrator = ctx.orchestrator;
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        const response = await cancellation.run(requestId, () =>
+          runAsUser(ctx.user, () =>
+            orchestrator.answerClarification(requestId, answer, (update) => {
+              pubsubInstance.publish('QUERY_PROGRESS', { queryProgress: update });
+            })
+          )
+        );
+
+        const query = requestHistory.get(requestId)?.query || '';
+        return recordOrchestratorResponse(query, response);
+      } catch (error: any) {
+        console.error('Error in answerClarification:', error);
+        throw new Error(`Failed to answer clarification: ${error.message}`);
+      }
+    },
+
+    cancelQuery: async (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
+      // Cancelling ahead of time claims the requestId, so no one else can run it
+      claimRequest(ctx, requestId);
+      const cancellation = ctx?.cancellation || getGlobalCancellationRegistry();
+      const wasRunning = cancellation.cancel(requestId);
+      console.log(`🛑 Cancelling request: ${requestId} (${wasRunning ? 'in flight' : 'not running'})`);
+
+      // Publish final cancelled events so subscribers can stop waiting
+      const pubsubInstance = ctx?.pubsub || pubsub;
+      const timestamp = new Date().toISOString();
+      const message = wasRunning ? 'Request cancelled' : 'Request cancelled before it started';
+
+      pubsubInstance.publish('QUERY_PROGRESS', {
+        queryProgress: {
+          requestId,
+          phase: 'cancelled',
+          progress: 100,
+          message,
+          timestamp,
+        },
+      });
+      pubsubInstance.publish('EXECUTOR_PROGRESS', {
+        executorProgress: {
+          requestId,
+          phase: 'cancelled',
+          progress: 100,
+          message,
+          currentStep: null,
+          timestamp,
+        },
+      });
+
       return true;
     },
 
+    // Conversation Mutations
+    startConversation: async (
+      _: any,
+      { userId, title }: { userId?: string; title?: string },
+      ctx: Context
+    ) => {
+      try {
+        if (!ctx.conversations) {
+          throw new Error('Conversations not available in context');
+        }
+        const conversation = await ctx.conversations.startConversation(requesterId(ctx, userId), title);
+        return formatConversation(conversation);
+      } catch (error: any) {
+        console.error('Error in startConversation:', error);
+        throw new Error(`Failed to start conversation: ${error.message}`);
+      }
+    },
+
+    sendMessage: async (
+      _: any,
+      { conversationId, text, requestId: givenRequestId }: { conversationId: string; text: string; requestId?: string },
+      ctx: Context
+    ) => {
+      try {
+        if (!ctx.conversations) {
+          throw new Error('Conversations not available in context');
+        }
+        if (!text || text.trim().length === 0) {
+          throw new Error('Message text cannot be empty');
+        }
+
+        const conversations = ctx.conversations;
+        const conversation = await conversations.getConversation(conversationId);
+        if (!conversation) {
+          throw new Error(`Conversation not found: ${conversationId}`);
+        }
+        assertConversationOwner(ctx, conversation);
+
+        const { randomUUID } = await import('crypto');
+        const requestId = givenRequestId || randomUUID();
+        claimRequest(ctx, requestId, conversation.userId);
+        const cancellation = ctx.cancellation || getGlobalCancellationRegistry();
+        const reply = await cancellation.run(requestId, () =>
+          runAsUser(ctx.user, () => conversations.sendMessage(conversationId, text, undefined, requestId))
+        );
+        const result = recordOrchestratorResponse(text, reply.response, reply.conversation.userId);
+
+        // Publish completion
+        const pubsubInstance = ctx.pubsub || pubsub;
+        pubsubInstance.publish('QUERY_PROGRESS', {
+          queryProgress: {
+            requestId: result.requestId,
+            phase: result.metadata.error ? 'failed' : 'completed',
+            progress: 100,
+            message: result.metadata.error ? 'Query failed (resumable)' : 'Query completed',
+            timestamp: new Date().toISOString(),
+          },
+        });
+
+        return {
+          conversation: formatConversation(reply.conversation),
+          intent: reply.intent.intent,
+          result,
+        };
+      } catch (error: any) {
+        if (error instanceof PermissionDeniedError) {
+          throw error;
+        }
+        console.error('Error in sendMessage:', error);
+        throw new Error(`Failed to send message: ${error.message}`);
+      }
+    },
+
+    // Step Approval Mutations
+    approveStep: async (
+      _: any,
+      { requestId, stepIndex, actor, reason }: { requestId: string; stepIndex: number; actor?: string; reason?: string },
+      context: Context
+    ) => {
+      try {
+        if (!context.approvalGate) {
+          throw new Error('Approval gate not available in context');
+        }
+        return await context.approvalGate.approve(
+          requestId,
+          stepIndex,
+          requesterId(context, actor) || 'anonymous',
+          reason,
+          context.user?.role
+        );
+      } catch (error: any) {
+        // Callers below the step's approver role get the permission error as is
+        if (error instanceof PermissionDeniedError) {
+          throw error;
+        }
+        throw new Error(`Failed to approve step: ${error.message}`);
+      }
+    },
+
+    rejectStep: async (
+      _: any,
+      { requestId, stepIndex, actor, reason }: { requestId: string; stepIndex: number; actor?: string; reason?: string },
+      context: Context
+    ) => {
+      try {
+        if (!context.approvalGate) {
+          throw new Error('Approval gate not available in context');
+        }
+        return await context.approvalGate.reject(
+          requestId,
+          stepIndex,
+          requesterId(context, actor) || 'anonymous',
+          reason,
+          context.user?.role
+        );
+      } catch (error: any) {
+        if (error instanceof PermissionDeniedError) {
+          throw error;
+        }
+        throw new Error(`Failed to reject step: ${error.message}`);
+      }
+    },
+
+    // Memory Mutations
+    forgetUserMemory: async (_: any, { userId }: { userId: string }, context: Context) => {
+      requireAdmin(context, 'forget memory');
+      try {
+        return formatDeletionReport(await context.memory.forgetUser(userId));
+      } catch (error: any) {
+        console.error('Error in forgetUserMemory:', error);
+        throw new Error(`Failed to forget user memory: ${error.message}`);
+      }
+    },
+
+    forgetEntityMemory: async (_: any, { entityId }: { entityId: string }, context: Context) => {
+      requireAdmin(context, 'forget memory');
+      try {
+        return formatDeletionReport(await context.memory.forgetEntity(entityId));
+      } catch (error: any) {
+        console.error('Error in forgetEntityMemory:', error);
+        throw new Error(`Failed to forget entity memory: ${error.message}`);
+      }
+    },
+
     // Agent Configuration Mutations
     createAgentConfig: async (_: any, { input }: { input: any }, context: Context) => {
       try {
@@ -1037,8 +1609,9 @@ export const resolvers = {
 
   Subscription: {
     queryProgress: {
-      subscribe: (_: any, { requestId }: { requestId: string }) => {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
         console.log(`🔔 [Subscription] Client subscribing to progress for request: ${requestId}`);
+        claimRequest(ctx, requestId);
 
         // Create async iterator that filters by requestId
         const iterator = createAsyncIterator(pubsub, 'QUERY_PROGRESS');
@@ -1077,8 +1650,9 @@ export const resolvers = {
 
     // Per-agent subscriptions
     plannerProgress: {
-      subscribe: (_: any, { requestId }: { requestId: string }) => {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
         console.log(`🔔 [Subscription] Client subscribing to planner progress for request: ${requestId}`);
+        claimRequest(ctx, requestId);
 
         const iterator = createAsyncIterator(pubsub, 'PLANNER_PROGRESS');
 
@@ -1107,8 +1681,9 @@ export const resolvers = {
     },
 
     executorProgress: {
-      subscribe: (_: any, { requestId }: { requestId: string }) => {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
         console.log(`🔔 [Subscription] Client subscribing to executor progress for request: ${requestId}`);
+        claimRequest(ctx, requestId);
 
         const iterator = createAsyncIterator(pubsub, 'EXECUTOR_PROGRESS');
 
@@ -1137,8 +1712,9 @@ export const resolvers = {
     },
 
     analyzerProgress: {
-      subscribe: (_: any, { requestId }: { requestId: string }) => {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
         console.log(`🔔 [Subscription] Client subscribing to analyzer progress for request: ${requestId}`);
+        claimRequest(ctx, requestId);
 
         const iterator = createAsyncIterator(pubsub, 'ANALYZER_PROGRESS');
 
@@ -1167,8 +1743,9 @@ export const resolvers = {
     },
 
     summarizerProgress: {
-      subscribe: (_: any, { requestId }: { requestId: string }) => {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
         console.log(`🔔 [Subscription] Client subscribing to summarizer progress for request: ${requestId}`);
+        claimRequest(ctx, requestId);
 
         const iterator = createAsyncIterator(pubsub, 'SUMMARIZER_PROGRESS');
 
@@ -1195,6 +1772,67 @@ export const resolvers = {
         };
       },
     },
+
+    summaryStream: {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
+        console.log(`🔔 [Subscription] Client subscribing to summary stream for request: ${requestId}`);
+        claimRequest(ctx, requestId);
+
+        const iterator = createAsyncIterator(pubsub, 'SUMMARY_STREAM');
+
+        return {
+          [Symbol.asyncIterator]() {
+            const originalIterator = iterator[Symbol.asyncIterator]();
+            return {
+              async next(): Promise<IteratorResult<any>> {
+                while (true) {
+                  const result = await originalIterator.next();
+                  if (result.done) return result;
+
+                  const value = result.value as any;
+                  if (value?.summaryStream?.requestId === requestId) {
+                    return result;
+                  }
+                }
+              },
+              return: originalIterator.return?.bind(originalIterator),
+              throw: originalIterator.throw?.bind(originalIterator),
+            };
+          },
+        };
+      },
+    },
+
+    approvalRequired: {
+      subscribe: (_: any, { requestId }: { requestId: string }, ctx?: Context) => {
+        console.log(`🔔 [Subscription] Client subscribing to approval requests for request: ${requestId}`);
+        claimRequest(ctx, requestId);
+
+        const iterator = createAsyncIterator(pubsub, 'APPROVAL_REQUIRED');
+
+        return {
+          [Symbol.asyncIterator]() {
+            const originalIterator = iterator[Symbol.asyncIterator]();
+            return {
+              async next(): Promise<IteratorResult<any>> {
+                while (true) {
+                  const result = await originalIterator.next();
+                  if (result.done) return result;
+
+                  const value = result.value as any;
+                  if (value?.approvalRequired?.requestId === requestId) {
+                    console.log(`📤 [Subscription] Sending approval request for ${requestId}: step ${value.approvalRequired.stepIndex}`);
+                    return result;
+                  }
+                }
+              },
+              return: originalIterator.return?.bind(originalIterator),
+              throw: originalIterator.throw?.bind(originalIterator),
+            };
+          },
+        };
+      },
+    },
   },
 };
 
@@ -73,6 +73,17 @@ export const typeDefs = `#graphql
 
     """Get training statistics for a configuration"""
     getTrainingStats(configId: ID!): TrainingStats
+
+    # Step Approvals
+    """List plan steps waiting for approval"""
+    listPendingApprovals(requestId: ID): [ApprovalRequest!]!
+
+    """Get the approval decisions recorded for a request"""
+    getApprovalAuditTrail(requestId: ID!): [ApprovalAuditEntry!]!
+
+    # Conversations
+    """Get a conversation with its messages and turns"""
+    getConversation(conversationId: ID!): Conversation
   }
 
   type Mutation {
@@ -80,8 +91,8 @@ export const typeDefs = `#graphql
     """Generate an execution plan for a query"""
     planQuery(query: String!, context: JSON): PlanResult!
 
-    """Execute tools based on a stored plan"""
-    executeTools(requestId: ID!): ExecutionResults!
+    """Execute tools based on a stored plan (dryRun records write calls instead of sending them)"""
+    executeTools(requestId: ID!, dryRun: Boolean): ExecutionResults!
 
     """Analyze tool execution results"""
     analyzeResults(requestId: ID!, analyzerConfigId: ID): AnalysisResult!
@@ -89,9 +100,40 @@ export const typeDefs = `#graphql
     """Summarize analysis into a response"""
     summarizeResponse(requestId: ID!, summarizerConfigId: ID): SummaryResult!
 
+    # Full pipeline (checkpointed after every phase)
+    """Run a query through the full agent pipeline (pass a requestId to be able to cancel it while it runs)"""
+    executeQuery(query: String!, userId: String, requestId: ID): ExecutionResult!
+
+    """Resume a failed or interrupted query from its last completed phase"""
+    resumeQuery(requestId: ID!): ExecutionResult!
+
+    """Answer a clarification question and plan the original query again"""
+    answerClarification(requestId: ID!, answer: String!): ExecutionResult!
+
     """Cancel an in-progress query"""
     cancelQuery(requestId: ID!): Boolean!
 
+    # Conversations
+    """Start a multi-turn conversation"""
+    startConversation(userId: String, title: String): Conversation!
+
+    """Send a message in a conversation (follow-ups resolve against earlier turns; pass a requestId to be able to cancel it)"""
+    sendMessage(conversationId: ID!, text: String!, requestId: ID): ConversationReply!
+
+    # Step Approvals
+    """Approve a plan step that is waiting for approval"""
+    approveStep(requestId: ID!, stepIndex: Int!, actor: String, reason: String): ApprovalDecision!
+
+    """Reject a plan step that is waiting for approval (the step is not run)"""
+    rejectStep(requestId: ID!, stepIndex: Int!, actor: String, reason: String): ApprovalDecision!
+
+    # Memory (admin only)
+    """Remove everything memory holds for a user (right to forget)"""
+    forgetUserMemory(userId: String!): MemoryDeletionReport!
+
+    """Remove every memory record mentioning an entity, e.g. a waste producer"""
+    forgetEntityMemory(entityId: String!): MemoryDeletionReport!
+
     # Agent Configuration Management
     """Create a new agent configuration"""
     createAgentConfig(input: CreateAgentConfigInput!): AgentConfig!
@@ -139,6 +181,12 @@ export const typeDefs = `#graphql
 
     """Subscribe to summarizer progress updates"""
     summarizerProgress(requestId: ID!): SummarizerUpdate!
+
+    """Subscribe to the summary text as it is generated"""
+    summaryStream(requestId: ID!): SummaryChunk!
+
+    """Subscribe to plan steps that need approval before they run"""
+    approvalRequired(requestId: ID!): ApprovalRequest!
   }
 
   type ExecutionResult {
@@ -147,9 +195,54 @@ export const typeDefs = `#graphql
     toolsUsed: [String!]!
     data: JSON
     analysis: Analysis
+    clarification: Clarification
     metadata: ResponseMetadata!
   }
 
+  """Question asked instead of planning a query that is too vague"""
+  type Clarification {
+    question: String!
+    options: [String!]!
+    reason: String!
+    missing: [String!]!
+    suggestions: JSON
+    confidence: Float
+  }
+
+  # Conversation types
+  type Conversation {
+    conversationId: ID!
+    userId: String
+    title: String
+    messages: [ConversationMessage!]!
+    turns: [ConversationTurn!]!
+    createdAt: String!
+    updatedAt: String!
+  }
+
+  type ConversationMessage {
+    role: String!
+    content: String!
+    timestamp: String!
+    metadata: JSON
+  }
+
+  type ConversationTurn {
+    requestId: ID!
+    query: String!
+    intent: String!
+    response: String!
+    toolsUsed: [String!]!
+    error: Boolean
+    timestamp: String!
+  }
+
+  type ConversationReply {
+    conversation: Conversation!
+    intent: String!
+    result: ExecutionResult!
+  }
+
   type ProgressUpdate {
     requestId: ID!
     phase: String!
@@ -257,6 +350,23 @@ export const typeDefs = `#graphql
     plan: Plan!
     metadata: PlanMetadata!
     status: String
+    replanHistory: [ReplanRound!]
+  }
+
+  type ReplanRound {
+    round: Int!
+    failedSteps: [FailedStep!]!
+    repairPlan: Plan!
+    repairedSteps: Int!
+    unrepairedSteps: Int!
+    timestamp: String!
+  }
+
+  type FailedStep {
+    stepIndex: Int!
+    tool: String!
+    params: JSON
+    error: ErrorDetails!
   }
 
   type Plan {
@@ -268,6 +378,71 @@ export const typeDefs = `#graphql
     params: JSON!
     dependsOn: [Int!]
     parallel: Boolean
+    requiresApproval: Boolean
+  }
+
+  # Step approval types
+  type ApprovalRequest {
+    approvalId: ID!
+    requestId: ID!
+    stepIndex: Int!
+    tool: String!
+    params: JSON!
+    category: String!
+    reason: String!
+    requestedAt: String!
+    expiresAt: String!
+  }
+
+  type ApprovalDecision {
+    approvalId: ID!
+    decision: String!
+    approved: Boolean!
+    actor: String!
+    actorRole: String
+    reason: String
+    decidedAt: String!
+  }
+
+  """What a right-to-forget request removed from episodic and semantic memory"""
+  type MemoryDeletionReport {
+    subject: MemoryDeletionSubject!
+    episodic: EpisodicDeletion!
+    semantic: SemanticDeletion!
+    startedAt: String!
+    completedAt: String!
+  }
+
+  type MemoryDeletionSubject {
+    type: String!
+    id: String!
+  }
+
+  type EpisodicDeletion {
+    deleted: Int!
+    byType: JSON!
+    ids: [String!]!
+  }
+
+  type SemanticDeletion {
+    deleted: Int!
+    ids: [String!]!
+  }
+
+  type ApprovalAuditEntry {
+    approvalId: ID!
+    requestId: ID!
+    stepIndex: Int!
+    tool: String!
+    params: JSON!
+    category: String!
+    reason: String!
+    requestedAt: String!
+    decision: String!
+    actor: String!
+    actorRole: String
+    decisionReason: String
+    decidedAt: String!
   }
 
   type PlanMetadata {
@@ -288,6 +463,20 @@ export const typeDefs = `#graphql
     data: JSON
     error: ErrorDetails
     metadata: ToolResultMetadata!
+    dryRun: DryRunStep
+  }
+
+  type DryRunStep {
+    stepIndex: Int
+    resolvedParams: JSON
+    requests: [DryRunRequest!]!
+    estimatedDurationMs: Int!
+  }
+
+  type DryRunRequest {
+    method: String!
+    url: String!
+    body: JSON
   }
 
   type ErrorDetails {
@@ -307,6 +496,8 @@ export const typeDefs = `#graphql
     successfulSteps: Int!
     failedSteps: Int!
     timestamp: String!
+    dryRun: Boolean
+    estimatedDurationMs: Int
   }
 
   type ExecutionListResult {
@@ -444,6 +635,16 @@ export const typeDefs = `#graphql
     timestamp: String!
   }
 
+  type SummaryChunk {
+    requestId: ID!
+    chunk: String!
+    index: Int!
+    done: Boolean!
+    text: String
+    error: Boolean
+    timestamp: String!
+  }
+
   scalar JSON
 
   # Agent Configuration Types
@@ -20,6 +20,9 @@ import { ExecutorAgent } from '../agents/executor.js';
 import { ConfigurableAnalyzer } from '../agents/configurable-analyzer.js';
 import { ConfigurableSummarizer } from '../agents/configurable-summarizer.js';
 import { TrainerAgent } from '../agents/trainer.js';
+import { OrchestratorAgent } from '../agents/orchestrator.js';
+import { ApprovalGate } from '../agents/executor/approval-gate.js';
+import { ConversationManager } from '../agents/conversation-manager.js';
 import { StrategyRegistry } from '../agents/strategies/registry.js';
 import { MemoryManager } from '../shared/memory/manager.js';
 import { PlanStorageService } from './services/plan-storage.service.js';
@@ -27,6 +30,9 @@ import { ExecutionStorageService } from './services/execution-storage.service.js
 import { AnalysisStorageService } from './services/analysis-storage.service.js';
 import { AgentConfigStorageService } from './services/agent-config-storage.service.js';
 import { TrainingStorageService } from './services/training-storage.service.js';
+import { RequestCredentials, authenticate } from '../shared/auth/credentials.js';
+import { AuthIdentity } from '../shared/auth/identity.js';
+import { AuthenticationError } from '../shared/utils/errors.js';
 
 export interface GraphQLServerConfig {
   port: number;
@@ -42,6 +48,9 @@ export interface GraphQLServerConfig {
   agentConfigStorage: AgentConfigStorageService;
   trainingStorage: TrainingStorageService;
   strategyRegistry: StrategyRegistry;
+  orchestrator?: OrchestratorAgent;
+  approvalGate?: ApprovalGate;
+  conversations?: ConversationManager;
 }
 
 export class GraphQLAgentServer {
@@ -73,21 +82,16 @@ export class GraphQLAgentServer {
     const serverCleanup = useServer(
       {
         schema,
-        context: () => ({
-          planner: this.config.planner,
-          executor: this.config.executor,
-          analyzer: this.config.analyzer,
-          summarizer: this.config.summarizer,
-          trainer: this.config.trainer,
-          memory: this.config.memory,
-          planStorage: this.config.planStorage,
-          executionStorage: this.config.executionStorage,
-          analysisStorage: this.config.analysisStorage,
-          agentConfigStorage: this.config.agentConfigStorage,
-          trainingStorage: this.config.trainingStorage,
-          strategyRegistry: this.config.strategyRegistry,
-          pubsub,
-        }),
+        // Subscriptions authenticate once, from the connection_init payload
+        onConnect: (ctx) => {
+          try {
+            authenticate(connectionCredentials(ctx.connectionParams));
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        context: (ctx) => this.buildContext(authenticate(connectionCredentials(ctx.connectionParams))),
       },
       wsServer
     );
@@ -135,7 +139,7 @@ export class GraphQLAgentServer {
       ],
       credentials: true,
       methods: ['GET', 'POST', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
     };
 
     // Global CORS for WebSocket handshake
@@ -153,6 +157,18 @@ export class GraphQLAgentServer {
     });
 
     this.app.post('/graphql', async (req, res) => {
+      let user: AuthIdentity;
+      try {
+        user = authenticate({
+          authorization: req.header('authorization'),
+          apiKey: req.header('x-api-key'),
+        });
+      } catch (error) {
+        const { statusCode, message, code } = error as AuthenticationError;
+        res.status(statusCode).json({ errors: [{ message, extensions: { code } }] });
+        return;
+      }
+
       try {
         const { query, variables, operationName } = req.body;
 
@@ -163,21 +179,7 @@ export class GraphQLAgentServer {
             operationName,
           },
           {
-            contextValue: {
-              planner: this.config.planner,
-              executor: this.config.executor,
-              analyzer: this.config.analyzer,
-              summarizer: this.config.summarizer,
-              trainer: this.config.trainer,
-              memory: this.config.memory,
-              planStorage: this.config.planStorage,
-              executionStorage: this.config.executionStorage,
-              analysisStorage: this.config.analysisStorage,
-              agentConfigStorage: this.config.agentConfigStorage,
-              trainingStorage: this.config.trainingStorage,
-              strategyRegistry: this.config.strategyRegistry,
-              pubsub,
-            },
+            contextValue: this.buildContext(user),
           }
         );
 
@@ -206,6 +208,31 @@ export class GraphQLAgentServer {
     });
   }
 
+  /**
+   * Resolver context for a request made by the given user
+   */
+  private buildContext(user: AuthIdentity) {
+    return {
+      planner: this.config.planner,
+      executor: this.config.executor,
+      analyzer: this.config.analyzer,
+      summarizer: this.config.summarizer,
+      trainer: this.config.trainer,
+      memory: this.config.memory,
+      planStorage: this.config.planStorage,
+      executionStorage: this.config.executionStorage,
+      analysisStorage: this.config.analysisStorage,
+      agentConfigStorage: this.config.agentConfigStorage,
+      trainingStorage: this.config.trainingStorage,
+      strategyRegistry: this.config.strategyRegistry,
+      orchestrator: this.config.orchestrator,
+      approvalGate: this.config.approvalGate,
+      conversations: this.config.conversations,
+      pubsub,
+      user,
+    };
+  }
+
   async stop(): Promise<void> {
     if (this.apolloServer) {
       await this.apolloServer.stop();
@@ -224,3 +251,17 @@ export class GraphQLAgentServer {
   }
 }
 
+/**
+ * Credentials from a subscription's connection_init payload, which carries
+ * the same headers as an HTTP request
+ */
+function connectionCredentials(params: Record<string, unknown> | undefined): RequestCredentials {
+  const value = (key: string) => {
+    const entry = params?.[key];
+    return typeof entry === 'string' ? entry : undefined;
+  };
+  return {
+    authorization: value('Authorization') ?? value('authorization'),
+    apiKey: value('X-API-Key') ?? value('apiKey'),
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Approval Audit Storage Service
+ * MongoDB-backed audit trail for approval decisions
+ */
+
+import { ApprovalAuditEntry, ApprovalAuditStore } from '../../agents/executor/approval-gate.js';
+import { ApprovalAuditModel, IApprovalAuditDocument } from '../models/approval-audit.model.js';
+
+export class ApprovalAuditStorageService implements ApprovalAuditStore {
+  /**
+   * Record an approval decision (append-only)
+   */
+  async record(entry: ApprovalAuditEntry): Promise<void> {
+    try {
+      await ApprovalAuditModel.create({
+        ...entry,
+        requestedAt: new Date(entry.requestedAt),
+        expiresAt: new Date(entry.expiresAt),
+        decidedAt: new Date(entry.decidedAt)
+      });
+      console.log(`[ApprovalAuditStorage] Recorded ${entry.decision} for step ${entry.stepIndex} of ${entry.requestId}`);
+    } catch (error: any) {
+      console.error(`[ApprovalAuditStorage] Failed to record approval ${entry.approvalId}:`, error);
+      throw new Error(`Failed to record approval decision: ${error.message}`);
+    }
+  }
+
+  /**
+   * List decisions for a request (oldest first)
+   */
+  async listByRequest(requestId: string): Promise<ApprovalAuditEntry[]> {
+    try {
+      const docs = await ApprovalAuditModel.find({ requestId })
+        .sort({ decidedAt: 1 })
+        .lean<IApprovalAuditDocument[]>();
+      return docs.map(doc => this.toEntry(doc));
+    } catch (error: any) {
+      console.error(`[ApprovalAuditStorage] Failed to list approvals for ${requestId}:`, error);
+      throw new Error(`Failed to list approval decisions: ${error.message}`);
+    }
+  }
+
+  private toEntry(doc: IApprovalAuditDocument): ApprovalAuditEntry {
+    const entry: ApprovalAuditEntry = {
+      approvalId: doc.approvalId,
+      requestId: doc.requestId,
+      stepIndex: doc.stepIndex,
+      tool: doc.tool,
+      params: doc.params || {},
+      category: doc.category,
+      reason: doc.reason,
+      requestedAt: new Date(doc.requestedAt).toISOString(),
+      expiresAt: new Date(doc.expiresAt).toISOString(),
+      decision: doc.decision,
+      actor: doc.actor,
+      decidedAt: new Date(doc.decidedAt).toISOString(),
+    };
+
+    if (doc.actorRole) {
+      entry.actorRole = doc.actorRole;
+    }
+    if (doc.decisionReason) {
+      entry.decisionReason = doc.decisionReason;
+    }
+
+    return entry;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Checkpoint Storage Service
+ * MongoDB-backed CheckpointStorage for resumable workflow runs
+ */
+
+import { Checkpoint, CheckpointStorage } from '../../shared/workflow/checkpoint/manager.js';
+import { CheckpointModel, ICheckpointDocument } from '../models/checkpoint.model.js';
+
+export class CheckpointStorageService implements CheckpointStorage {
+  /**
+   * Save a checkpoint
+   */
+  async save(checkpoint: Checkpoint<any>): Promise<void> {
+    try {
+      await CheckpointModel.findOneAndUpdate(
+        { checkpointId: checkpoint.id },
+        {
+          checkpointId: checkpoint.id,
+          workflowId: checkpoint.workflowId,
+          currentNode: checkpoint.currentNode,
+          state: checkpoint.state,
+          timestamp: new Date(checkpoint.timestamp),
+          metadata: checkpoint.metadata || null
+        },
+        { upsert: true, new: true }
+      );
+      console.log(`[CheckpointStorage] Saved checkpoint ${checkpoint.id} for workflow: ${checkpoint.workflowId} (${checkpoint.currentNode})`);
+    } catch (error: any) {
+      console.error(`[CheckpointStorage] Failed to save checkpoint ${checkpoint.id}:`, error);
+      throw new Error(`Failed to save checkpoint: ${error.message}`);
+    }
+  }
+
+  /**
+   * Load a checkpoint by ID
+   */
+  async load(checkpointId: string): Promise<Checkpoint<any> | null> {
+    try {
+      const doc = await CheckpointModel.findOne({ checkpointId }).lean<ICheckpointDocument>();
+      return doc ? this.toCheckpoint(doc) : null;
+    } catch (error: any) {
+      console.error(`[CheckpointStorage] Failed to load checkpoint ${checkpointId}:`, error);
+      throw new Error(`Failed to load checkpoint: ${error.message}`);
+    }
+  }
+
+  /**
+   * List all checkpoints for a workflow (newest first)
+   */
+  async list(workflowId: string): Promise<Checkpoint<any>[]> {
+    try {
+      const docs = await CheckpointModel.find({ workflowId })
+        .sort({ timestamp: -1, createdAt: -1 })
+        .lean<ICheckpointDocument[]>();
+      return docs.map(doc => this.toCheckpoint(doc));
+    } catch (error: any) {
+      console.error(`[CheckpointStorage] Failed to list checkpoints for ${workflowId}:`, error);
+      throw new Error(`Failed to list checkpoints: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete a checkpoint by ID
+   */
+  async delete(checkpointId: string): Promise<void> {
+    try {
+      await CheckpointModel.deleteOne({ checkpointId });
+    } catch (error: any) {
+      console.error(`[CheckpointStorage] Failed to delete checkpoint ${checkpointId}:`, error);
+      throw new Error(`Failed to delete checkpoint: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete all checkpoints for a workflow
+   */
+  async deleteByWorkflow(workflowId: string): Promise<void> {
+    try {
+      const result = await CheckpointModel.deleteMany({ workflowId });
+      console.log(`[CheckpointStorage] Deleted ${result.deletedCount} checkpoints for workflow: ${workflowId}`);
+    } catch (error: any) {
+      console.error(`[CheckpointStorage] Failed to delete checkpoints for ${workflowId}:`, error);
+      throw new Error(`Failed to delete checkpoints: ${error.message}`);
+    }
+  }
+
+  /**
+   * Convert a stored document back to a checkpoint
+   */
+  private toCheckpoint(doc: ICheckpointDocument): Checkpoint<any> {
+    const checkpoint: Checkpoint<any> = {
+      id: doc.checkpointId,
+      workflowId: doc.workflowId,
+      currentNode: doc.currentNode,
+      state: doc.state,
+      timestamp: new Date(doc.timestamp).toISOString(),
+    };
+
+    if (doc.metadata) {
+      checkpoint.metadata = doc.metadata;
+    }
+
+    return checkpoint;
+  }
+}
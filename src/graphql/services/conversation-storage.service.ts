@@ -0,0 +1,96 @@
+/**
+ * Conversation Storage Service
+ * MongoDB-backed storage for multi-turn conversation sessions
+ */
+
+import { Message } from '../../shared/context/types.js';
+import {
+  Conversation,
+  ConversationStore,
+  ConversationTurn,
+} from '../../shared/conversation/session.js';
+import { ConversationModel, IConversationDocument } from '../models/conversation.model.js';
+
+export class ConversationStorageService implements ConversationStore {
+  /**
+   * Create a new conversation
+   */
+  async create(conversation: Conversation): Promise<void> {
+    try {
+      await ConversationModel.create({
+        conversationId: conversation.conversationId,
+        userId: conversation.userId || null,
+        title: conversation.title || null,
+        messages: conversation.messages,
+        turns: conversation.turns,
+      });
+      console.log(`[ConversationStorage] Created conversation ${conversation.conversationId}`);
+    } catch (error: any) {
+      console.error(`[ConversationStorage] Failed to create conversation ${conversation.conversationId}:`, error);
+      throw new Error(`Failed to create conversation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a conversation by ID
+   */
+  async get(conversationId: string): Promise<Conversation | null> {
+    try {
+      const doc = await ConversationModel.findOne({ conversationId }).lean<IConversationDocument>();
+      return doc ? this.toConversation(doc) : null;
+    } catch (error: any) {
+      console.error(`[ConversationStorage] Failed to get conversation ${conversationId}:`, error);
+      throw new Error(`Failed to retrieve conversation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Append a turn and its messages to a conversation
+   */
+  async appendTurn(
+    conversationId: string,
+    turn: ConversationTurn,
+    messages: Message[]
+  ): Promise<Conversation | null> {
+    try {
+      const doc = await ConversationModel.findOneAndUpdate(
+        { conversationId },
+        { $push: { turns: turn, messages: { $each: messages } } },
+        { new: true }
+      ).lean<IConversationDocument>();
+
+      if (!doc) {
+        console.log(`[ConversationStorage] Conversation not found for turn: ${conversationId}`);
+        return null;
+      }
+
+      console.log(`[ConversationStorage] Appended turn ${doc.turns.length} to conversation ${conversationId}`);
+      return this.toConversation(doc);
+    } catch (error: any) {
+      console.error(`[ConversationStorage] Failed to append turn to ${conversationId}:`, error);
+      throw new Error(`Failed to append conversation turn: ${error.message}`);
+    }
+  }
+
+  /**
+   * Convert a stored document back to a conversation
+   */
+  private toConversation(doc: IConversationDocument): Conversation {
+    const conversation: Conversation = {
+      conversationId: doc.conversationId,
+      messages: doc.messages || [],
+      turns: doc.turns || [],
+      createdAt: new Date(doc.createdAt).toISOString(),
+      updatedAt: new Date(doc.updatedAt).toISOString(),
+    };
+
+    if (doc.userId) {
+      conversation.userId = doc.userId;
+    }
+    if (doc.title) {
+      conversation.title = doc.title;
+    }
+
+    return conversation;
+  }
+}
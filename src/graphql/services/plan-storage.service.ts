@@ -3,11 +3,11 @@
  * Service layer for managing execution plans in MongoDB
  */
 
-import { Plan } from '../../shared/types/agent.js';
+import { Plan, ReplanRound } from '../../shared/types/agent.js';
 import { PlanModel, IPlanDocument } from '../models/plan.model.js';
 
 export interface PlanFilters {
-  status?: 'pending' | 'executing' | 'completed' | 'failed';
+  status?: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled';
   limit?: number;
   offset?: number;
   startDate?: Date;
@@ -71,7 +71,7 @@ export class PlanStorageService {
    */
   async updatePlanStatus(
     requestId: string,
-    status: 'pending' | 'executing' | 'completed' | 'failed'
+    status: 'pending' | 'executing' | 'completed' | 'failed' | 'cancelled'
   ): Promise<IPlanDocument | null> {
     try {
       const updatedPlan = await PlanModel.findOneAndUpdate(
@@ -93,6 +93,30 @@ export class PlanStorageService {
     }
   }
 
+  /**
+   * Record a replanning round in the plan's history
+   */
+  async appendReplanRound(requestId: string, round: ReplanRound): Promise<IPlanDocument | null> {
+    try {
+      const updatedPlan = await PlanModel.findOneAndUpdate(
+        { requestId },
+        { $push: { replanHistory: round }, updatedAt: new Date() },
+        { new: true }
+      );
+
+      if (updatedPlan) {
+        console.log(`[PlanStorage] Recorded replan round ${round.round} for requestId: ${requestId}`);
+      } else {
+        console.log(`[PlanStorage] Plan not found for replan round: ${requestId}`);
+      }
+
+      return updatedPlan;
+    } catch (error: any) {
+      console.error(`[PlanStorage] Failed to record replan round for ${requestId}:`, error);
+      throw new Error(`Failed to record replan round: ${error.message}`);
+    }
+  }
+
   /**
    * Delete a plan (for cleanup purposes)
    */
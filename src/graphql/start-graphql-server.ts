@@ -16,8 +16,13 @@ import { LLMBasedAnalysisStrategy } from '../agents/strategies/analysis/llm-base
 import { TemplateBasedSummarizationStrategy } from '../agents/strategies/summarization/template-based.strategy.js';
 import { LLMBasedSummarizationStrategy } from '../agents/strategies/summarization/llm-based.strategy.js';
 import { TrainerAgent } from '../agents/trainer.js';
+import { OrchestratorAgent, OrchestratorState } from '../agents/orchestrator.js';
+import { CheckpointManager } from '../shared/workflow/checkpoint/manager.js';
 import { MemoryManager } from '../shared/memory/manager.js';
+import { loadMemoryBackendConfig } from '../shared/memory/backends.js';
+import { startMemoryRetention } from '../shared/memory/retention.js';
 import { LLMProvider } from '../shared/llm/provider.js';
+import { LangfuseTracer } from '../shared/observability/langfuse.js';
 import { MCPServer } from '../mcp/server.js';
 import { getLLMConfigs } from '../shared/llm/config.js';
 import { registerAllTools } from '../tools/index.js';
@@ -28,6 +33,14 @@ import { ExecutionStorageService } from './services/execution-storage.service.js
 import { AnalysisStorageService } from './services/analysis-storage.service.js';
 import { AgentConfigStorageService } from './services/agent-config-storage.service.js';
 import { TrainingStorageService } from './services/training-storage.service.js';
+import { CheckpointStorageService } from './services/checkpoint-storage.service.js';
+import { ApprovalAuditStorageService } from './services/approval-audit-storage.service.js';
+import { ConversationStorageService } from './services/conversation-storage.service.js';
+import { ApprovalGate } from '../agents/executor/approval-gate.js';
+import { ApprovalPolicy } from '../agents/executor/approval-policy.js';
+import { ConversationManager } from '../agents/conversation-manager.js';
+import { ContextCompressor } from '../shared/context/compression/compressor.js';
+import { pubsub } from './resolvers.js';
 import { ToolRegistry } from '../shared/tool-registry.js';
 import axios from 'axios';
 import dotenv from 'dotenv';
@@ -56,14 +69,26 @@ async function main() {
     // 1. Initialize LLM Provider
     console.log('📡 Initializing LLM Provider...');
     const llmConfigs = getLLMConfigs();
-    const llm = new LLMProvider(llmConfigs);
+    const llm = new LLMProvider(llmConfigs, {
+      tracer: new LangfuseTracer({
+        enabled: !!(process.env.LANGFUSE_PUBLIC_KEY && process.env.LANGFUSE_SECRET_KEY),
+      }),
+    });
     console.log('✓ LLM Provider ready\n');
 
-    // 2. Initialize Memory Manager
+    // 2. Initialize MongoDB Connection (before memory, whose MongoDB backend shares it)
+    console.log('🗄️  Initializing MongoDB connection...');
+    await connectDB();
+    console.log('✓ MongoDB connected\n');
+
+    // 3. Initialize Memory Manager
     console.log('🧠 Initializing Memory Manager...');
     const isProduction = process.env.NODE_ENV === 'production';
 
+    const memoryBackends = loadMemoryBackendConfig();
+
     const memory = new MemoryManager({
+      ...memoryBackends,
       neo4j: {
         uri: isProduction
           ? process.env.NEO4J_CLOUD_URI!
@@ -84,12 +109,10 @@ async function main() {
     });
 
     await memory.connect();
-    console.log('✓ Memory Manager connected (Neo4j + Pinecone)\n');
+    console.log(`✓ Memory Manager connected (${memoryBackends.episodic_backend} + ${memoryBackends.semantic_backend})\n`);
 
-    // 3. Initialize MongoDB Connection
-    console.log('🗄️  Initializing MongoDB connection...');
-    await connectDB();
-    console.log('✓ MongoDB connected\n');
+    // Expire old memory by type, compacting episodes into daily digests
+    startMemoryRetention(memory);
 
     // 4. Initialize MCP Server with Tools
     console.log('🔧 Initializing MCP Tools...');
@@ -137,15 +160,46 @@ async function main() {
     const analysisStorage = new AnalysisStorageService();
     const agentConfigStorage = new AgentConfigStorageService();
     const trainingStorage = new TrainingStorageService();
+    const checkpointStorage = new CheckpointStorageService();
+    const approvalAuditStorage = new ApprovalAuditStorageService();
+    const conversationStorage = new ConversationStorageService();
     console.log('✓ Storage Services ready\n');
 
     // 7. Create Agent Pipeline
     console.log('🤖 Creating Agent Pipeline...');
     const planner = new PlannerAgent(llm, toolRegistry);
-    const executor = new ExecutorAgent(toolRegistry);
+    const approvalPolicy = new ApprovalPolicy();
+    const approvalGate = new ApprovalGate({
+      policy: approvalPolicy,
+      auditStore: approvalAuditStorage,
+      onApprovalRequired: (request) => {
+        pubsub.publish('APPROVAL_REQUIRED', { approvalRequired: request });
+      },
+    });
+    console.log(`✓ Approval required for: ${approvalPolicy.getConfig().categories.join(', ') || 'none'}`);
+    const executor = new ExecutorAgent(toolRegistry, {}, approvalGate);
     const analyzer = new ConfigurableAnalyzer(llm, agentConfigStorage, strategyRegistry);
     const summarizer = new ConfigurableSummarizer(llm, agentConfigStorage, strategyRegistry);
     const trainer = new TrainerAgent(agentConfigStorage, trainingStorage, llm);
+    const orchestrator = new OrchestratorAgent(
+      planner,
+      executor,
+      analyzer,
+      summarizer,
+      memory,
+      {
+        onSummaryChunk: (chunk) => {
+          pubsub.publish('SUMMARY_STREAM', { summaryStream: chunk });
+        },
+      },
+      new CheckpointManager<OrchestratorState>(checkpointStorage),
+      planStorage
+    );
+    const conversations = new ConversationManager(
+      orchestrator,
+      conversationStorage,
+      new ContextCompressor(llm)
+    );
     console.log('✓ Agent Pipeline ready\n');
 
     // 8. Start GraphQL Server
@@ -165,6 +219,9 @@ async function main() {
       agentConfigStorage,
       trainingStorage,
       strategyRegistry,
+      orchestrator,
+      approvalGate,
+      conversations,
     });
 
     await server.start();
@@ -3,11 +3,28 @@
 // Main entry point for the MCP server
 import { MCPServer } from "./mcp/server.js";
 import { registerAllTools } from "./tools/index.js";
+import { registerAllResources } from "./mcp/resources.js";
+import { registerAllPrompts } from "./mcp/prompts.js";
+import { isAuthEnabled } from "./shared/auth/credentials.js";
 import dotenv from "dotenv";
 
 // Load environment variables
 dotenv.config();
 
+// Closes the HTTP transport on shutdown (stdio needs nothing)
+let stop: (() => Promise<void>) | undefined;
+
+// stdio (default) for local IDEs, http (or --http) for remote clients
+function selectTransport(): "stdio" | "http" {
+  const transport = process.argv.includes("--http")
+    ? "http"
+    : process.env.MCP_TRANSPORT || "stdio";
+  if (transport !== "stdio" && transport !== "http") {
+    throw new Error(`Unknown MCP_TRANSPORT: ${transport} (use stdio or http)`);
+  }
+  return transport;
+}
+
 async function main() {
   try {
     // Get configuration from environment
@@ -20,13 +37,29 @@ async function main() {
     console.error(`API Base URL: ${apiBaseUrl}`);
 
     // Create and configure server
-    const server = new MCPServer(serverName, serverVersion);
+    const server = new MCPServer(serverName, serverVersion, {
+      resourcePollMs: parseInt(process.env.MCP_RESOURCE_POLL_SECONDS || "30", 10) * 1000,
+    });
 
-    // Register all tools
+    // Register all tools, and the resources and prompts for browsing domain data
     registerAllTools(server, apiBaseUrl);
+    registerAllResources(server, apiBaseUrl);
+    registerAllPrompts(server);
 
     // Start the server
-    await server.start();
+    if (selectTransport() === "http") {
+      if (!isAuthEnabled()) {
+        console.error("⚠ Authentication is off (no API_KEYS or JWT_SECRET): anyone who can reach the server can call the tools");
+      }
+      const http = await server.startHttp({
+        port: parseInt(process.env.MCP_HTTP_PORT || "3100", 10),
+        host: process.env.MCP_HTTP_HOST || (process.env.NODE_ENV === "production" ? "0.0.0.0" : "localhost"),
+        sessionIdleMs: parseInt(process.env.MCP_SESSION_IDLE_MINUTES || "30", 10) * 60 * 1000,
+      });
+      stop = http.close;
+    } else {
+      await server.start();
+    }
 
     console.error("✓ MCP Server is ready");
   } catch (error) {
@@ -36,15 +69,14 @@ async function main() {
 }
 
 // Handle graceful shutdown
-process.on("SIGINT", () => {
+async function shutdown() {
   console.error("\nShutting down MCP server...");
+  await stop?.();
   process.exit(0);
-});
+}
 
-process.on("SIGTERM", () => {
-  console.error("\nShutting down MCP server...");
-  process.exit(0);
-});
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
 
 // Start the server
 main();
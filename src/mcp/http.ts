@@ -0,0 +1,156 @@
+// MCP over Streamable HTTP: remote clients get their own MCP session, signed in
+// with the same bearer credentials as the API
+import { randomUUID } from "crypto";
+import { createServer, Server as HttpServer } from "http";
+import { AddressInfo } from "net";
+import express, { Request, Response } from "express";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { authenticate } from "../shared/auth/credentials.js";
+import { AuthIdentity } from "../shared/auth/identity.js";
+import { AuthenticationError } from "../shared/utils/errors.js";
+import type { MCPServer } from "./server.js";
+
+export interface MCPHttpOptions {
+  port: number; // 0 picks a free port
+  host?: string; // Default: localhost
+  path?: string; // Default: /mcp
+  sessionIdleMs?: number; // Sessions without a request for this long are closed (default: 30 minutes)
+}
+
+export interface MCPHttpServer {
+  url: string;
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  user: AuthIdentity;
+  lastSeen: number;
+}
+
+const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+function sendError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+/**
+ * Serve an MCP server's tools over Streamable HTTP. Clients POST JSON-RPC
+ * messages to the path (responses may stream back as SSE), GET it for a
+ * stream of server messages, and DELETE it to end their session.
+ */
+export async function startMCPHttpServer(
+  mcp: MCPServer,
+  options: MCPHttpOptions
+): Promise<MCPHttpServer> {
+  const host = options.host ?? "localhost";
+  const path = options.path ?? "/mcp";
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const sessions = new Map<string, Session>();
+
+  const app = express();
+  app.use(path, express.json({ limit: "4mb" }));
+
+  app.get("/health", (_req, res) => {
+    res.json({
+      status: "ok",
+      timestamp: new Date().toISOString(),
+      transport: "streamable-http",
+      sessions: sessions.size,
+      tools: mcp.getToolCount(),
+    });
+  });
+
+  app.all(path, async (req: Request, res: Response) => {
+    let user: AuthIdentity;
+    try {
+      user = authenticate({
+        authorization: req.header("authorization"),
+        apiKey: req.header("x-api-key"),
+      });
+    } catch (error) {
+      const { statusCode, message } = error as AuthenticationError;
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendError(res, statusCode, -32001, message);
+      return;
+    }
+
+    const sessionId = req.header("mcp-session-id");
+    let transport: StreamableHTTPServerTransport;
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        // Clients start a new session when theirs is gone
+        sendError(res, 404, -32001, "Session not found");
+        return;
+      }
+      if (session.user.id !== user.id) {
+        sendError(res, 403, -32001, "Session belongs to another user");
+        return;
+      }
+      session.lastSeen = Date.now();
+      transport = session.transport;
+    } else if (req.method === "POST" && isInitializeRequest(req.body)) {
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport: created, user, lastSeen: Date.now() });
+        },
+      });
+      created.onclose = () => {
+        if (created.sessionId) sessions.delete(created.sessionId);
+      };
+      await mcp.connect(created);
+      transport = created;
+    } else {
+      sendError(res, 400, -32000, "Bad request: no session, and not an initialize request");
+      return;
+    }
+
+    // Tool calls run as this user (see MCPServer's call handler)
+    const authenticated = Object.assign(req, {
+      auth: { token: user.credential ?? "", clientId: user.id, scopes: [user.role], extra: { user } },
+    });
+
+    try {
+      await transport.handleRequest(authenticated, res, req.body);
+    } catch (error: any) {
+      console.error("MCP request failed:", error.message);
+      if (!res.headersSent) {
+        sendError(res, 500, -32603, "Internal server error");
+      }
+    }
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - sessionIdleMs;
+    for (const session of sessions.values()) {
+      if (session.lastSeen < cutoff) void session.transport.close();
+    }
+  }, Math.min(sessionIdleMs, 60 * 1000));
+  sweep.unref();
+
+  const httpServer: HttpServer = createServer(app);
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, host, () => resolve());
+  });
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://${host}:${port}${path}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all(Array.from(sessions.values()).map((session) => session.transport.close()));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        // Open SSE streams would otherwise hold the server open
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
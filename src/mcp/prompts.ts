@@ -0,0 +1,90 @@
+// Wasteer prompts: common workflows for MCP clients, with the records they start
+// from attached as resources
+import { MCPServer } from "./server.js";
+import { MCPPrompt } from "../shared/types/mcp.js";
+
+export const facilityComplianceReviewPrompt: MCPPrompt = {
+  name: "facility_compliance_review",
+  description: "Review a facility's compliance: rejected or contaminated shipments, inspection results, capacity and contracts",
+  arguments: [
+    { name: "facility_id", description: "Facility to review", required: true },
+    { name: "period_days", description: "How many days back to look (default 30)" },
+  ],
+  render: async (args, readResource) => {
+    const facilityId = args.facility_id!;
+    const days = args.period_days || "30";
+
+    return [
+      {
+        role: "user",
+        content: { type: "resource", resource: await readResource(`wasteer://facilities/${facilityId}`) },
+      },
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: [
+            `Review the compliance of facility ${facilityId} over the last ${days} days.`,
+            "",
+            "Gather:",
+            `1. Inspections at the facility (inspections_list with facility_id=${facilityId}), counting accepted, rejected and pending ones.`,
+            `2. Contaminants detected there (contaminants_list with facility_id=${facilityId}), by type and risk level.`,
+            `3. Its activity and capacity (facilities_get_with_activity and facilities_capacity_forecast with id=${facilityId}).`,
+            "4. Its active contracts (the wasteer://contracts/active resource), for waste types it receives without a contract covering them.",
+            "",
+            "Then report:",
+            "- A compliance verdict (compliant, at risk or non-compliant) and why",
+            "- Each finding with the shipment, inspection or contaminant ids behind it",
+            "- Waste types received that the facility doesn't accept or no contract declares",
+            "- Recommended actions, most urgent first",
+          ].join("\n"),
+        },
+      },
+    ];
+  },
+};
+
+export const contaminationIncidentReportPrompt: MCPPrompt = {
+  name: "contamination_incident_report",
+  description: "Write an incident report for a contaminated shipment: what was found, its risk, who is affected and what to do",
+  arguments: [
+    { name: "shipment_id", description: "Contaminated shipment", required: true },
+  ],
+  render: async (args, readResource) => {
+    const shipmentId = args.shipment_id!;
+
+    return [
+      {
+        role: "user",
+        content: { type: "resource", resource: await readResource(`wasteer://shipments/${shipmentId}`) },
+      },
+      {
+        role: "user",
+        content: {
+          type: "text",
+          text: [
+            `Write a contamination incident report for shipment ${shipmentId}.`,
+            "",
+            "Gather:",
+            `1. The contaminants found (shipments_get_with_contaminants with id=${shipmentId}).`,
+            `2. Its inspections (inspections_list with shipment_id=${shipmentId}).`,
+            `3. Its status history (shipments_history with id=${shipmentId}).`,
+            "4. The destination facility (the wasteer://facilities/{id} resource for its facility_id).",
+            "",
+            "Then write the report with these sections:",
+            "- Summary: what happened, when and where",
+            "- Contaminants: each with concentration, hazard and risk level",
+            "- Impact: the facility, the producer and any other shipments affected",
+            "- Timeline: from the status history and inspections",
+            "- Actions: immediate containment, follow-up with the producer, and prevention",
+          ].join("\n"),
+        },
+      },
+    ];
+  },
+};
+
+export function registerAllPrompts(server: MCPServer): void {
+  server.registerPrompt(facilityComplianceReviewPrompt);
+  server.registerPrompt(contaminationIncidentReportPrompt);
+}
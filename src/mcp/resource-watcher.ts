@@ -0,0 +1,127 @@
+// Resource change notifications: reads a session's subscribed resources, and the
+// resource list once the client has asked for it, again every so often and tells
+// the client what changed
+import { createHash } from "crypto";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { AuthIdentity, runAsUser } from "../shared/auth/identity.js";
+import { MCPResourceContents, MCPResourceEntry } from "../shared/types/mcp.js";
+
+// MCP's error code for a resource URI that names nothing
+export const RESOURCE_NOT_FOUND = -32002;
+
+export interface ResourceSource {
+  listResources(): Promise<MCPResourceEntry[]>;
+  readResource(uri: string): Promise<MCPResourceContents>;
+}
+
+// The session's protocol server
+export interface ResourceListener {
+  sendResourceUpdated(params: { uri: string }): Promise<void>;
+  sendResourceListChanged(): Promise<void>;
+}
+
+interface Watched {
+  user: AuthIdentity | undefined; // Reads run as the user who asked
+  digest: string;
+}
+
+// Digest of a resource that no longer exists
+const MISSING = "missing";
+
+function digestOf(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export class ResourceWatcher {
+  private subscriptions = new Map<string, Watched>();
+  private list: Watched | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private checking = false;
+
+  constructor(
+    private source: ResourceSource,
+    private listener: ResourceListener,
+    private intervalMs: number
+  ) {}
+
+  async subscribe(uri: string, user: AuthIdentity | undefined): Promise<void> {
+    this.subscriptions.set(uri, { user, digest: await this.readDigest(uri, user) });
+    this.schedule();
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  // Start watching the list the client was just sent
+  watchList(entries: MCPResourceEntry[], user: AuthIdentity | undefined): void {
+    this.list = { user, digest: digestOf(JSON.stringify(entries)) };
+    this.schedule();
+  }
+
+  // Read everything watched again, notifying the client of each change
+  async check(): Promise<void> {
+    // Skip a round rather than overlap a slow one
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      if (this.list) {
+        await this.recheck(this.list, () => this.listDigest(this.list!.user), () =>
+          this.listener.sendResourceListChanged()
+        );
+      }
+      for (const [uri, watched] of this.subscriptions) {
+        await this.recheck(watched, () => this.readDigest(uri, watched.user), () =>
+          this.listener.sendResourceUpdated({ uri })
+        );
+      }
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async recheck(watched: Watched, read: () => Promise<string>, notify: () => Promise<void>): Promise<void> {
+    try {
+      const digest = await read();
+      if (digest !== watched.digest) {
+        watched.digest = digest;
+        await notify();
+      }
+    } catch (error: any) {
+      // Try again next round
+      console.error("Resource watch failed:", error.message);
+    }
+  }
+
+  private schedule(): void {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.check(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  private async listDigest(user: AuthIdentity | undefined): Promise<string> {
+    return digestOf(JSON.stringify(await runAsUser(user, () => this.source.listResources())));
+  }
+
+  private async readDigest(uri: string, user: AuthIdentity | undefined): Promise<string> {
+    try {
+      const contents = await runAsUser(user, () => this.source.readResource(uri));
+      return digestOf(contents.text);
+    } catch (error) {
+      // A deleted record is a change too; other failures aren't
+      if (error instanceof McpError && error.code === RESOURCE_NOT_FOUND) {
+        return MISSING;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// Wasteer resources: facilities, shipments and contracts for MCP clients to browse,
+// read through the API as the calling user
+import axios from "axios";
+import { MCPServer } from "./server.js";
+import { credentialHeaders } from "../shared/auth/credentials.js";
+import { getCurrentUser } from "../shared/auth/identity.js";
+
+const JSON_MIME = "application/json";
+
+// The API's largest page
+const PAGE_LIMIT = 1000;
+
+// GET a response body from the API; null when the record doesn't exist
+async function fetchBody(apiBaseUrl: string, endpoint: string, params?: Record<string, any>): Promise<any> {
+  try {
+    const response = await axios.get(`${apiBaseUrl}${endpoint}`, {
+      params,
+      headers: credentialHeaders(getCurrentUser()),
+    });
+    return response.data;
+  } catch (error: any) {
+    if (error.response?.status === 404) {
+      return null;
+    }
+    throw new Error(`Failed to read ${endpoint}: ${error.response?.data?.error?.message ?? error.message}`);
+  }
+}
+
+// GET a record from the API, unwrapped; null when it doesn't exist
+async function fetchData(apiBaseUrl: string, endpoint: string, params?: Record<string, any>): Promise<any> {
+  const body = await fetchBody(apiBaseUrl, endpoint, params);
+  return body?.success ? body.data : body;
+}
+
+// GET every record of a list, following next_cursor page by page
+async function fetchAll(apiBaseUrl: string, endpoint: string, params: Record<string, any>): Promise<any[]> {
+  const records: any[] = [];
+  let cursor: string | undefined;
+  do {
+    const body = await fetchBody(apiBaseUrl, endpoint, { ...params, limit: PAGE_LIMIT, ...(cursor && { cursor }) });
+    records.push(...(body?.data ?? []));
+    cursor = body?.next_cursor ?? undefined;
+  } while (cursor);
+  return records;
+}
+
+async function activeContracts(apiBaseUrl: string): Promise<any[]> {
+  return fetchAll(apiBaseUrl, "/contracts", { status: "active" });
+}
+
+export function registerAllResources(server: MCPServer, apiBaseUrl: string): void {
+  server.registerResourceTemplate({
+    uriTemplate: "wasteer://facilities/{id}",
+    name: "Facility",
+    description: "A waste facility: location, type, accepted and rejected waste types, capacity",
+    mimeType: JSON_MIME,
+    read: ({ id }) => fetchData(apiBaseUrl, `/facilities/${encodeURIComponent(id!)}`),
+  });
+
+  server.registerResourceTemplate({
+    uriTemplate: "wasteer://shipments/{id}",
+    name: "Shipment",
+    description: "A waste shipment: route, producer, waste type, weight, status and contamination",
+    mimeType: JSON_MIME,
+    read: ({ id }) => fetchData(apiBaseUrl, `/shipments/${encodeURIComponent(id!)}`),
+  });
+
+  // Active contracts are listed one by one as well as together
+  server.registerResourceTemplate({
+    uriTemplate: "wasteer://contracts/{id}",
+    name: "Contract",
+    description: "A producer's contract with a facility: declared waste types, dates, weight limit and status",
+    mimeType: JSON_MIME,
+    read: ({ id }) => fetchData(apiBaseUrl, `/contracts/${encodeURIComponent(id!)}`),
+    list: async () =>
+      (await activeContracts(apiBaseUrl)).map((contract) => ({
+        uri: `wasteer://contracts/${contract.id}`,
+        name: `Contract ${contract.id}`,
+        description: `${contract.producer_id} → ${contract.facility_id}, ${contract.start_date} to ${contract.end_date}`,
+        mimeType: JSON_MIME,
+      })),
+  });
+
+  server.registerResource({
+    uri: "wasteer://contracts/active",
+    name: "Active contracts",
+    description: "Every contract currently in force",
+    mimeType: JSON_MIME,
+    read: () => activeContracts(apiBaseUrl),
+  });
+}
@@ -1,49 +1,213 @@
 // MCP Server implementation
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { UriTemplate } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import { MCPTool, ToolSchema } from "../shared/types/tool.js";
+import { MCPTool, ToolParam, ToolSchema, ToolValueShape } from "../shared/types/tool.js";
+import {
+  MCPPrompt,
+  MCPResource,
+  MCPResourceContents,
+  MCPResourceEntry,
+  MCPResourceTemplate,
+} from "../shared/types/mcp.js";
+import { AuthIdentity, runAsUser } from "../shared/auth/identity.js";
+import { JSONSchema, JSONSchemaIssue, validateJSONSchema } from "../shared/validation/json-schema.js";
+import { MCPHttpOptions, MCPHttpServer, startMCPHttpServer } from "./http.js";
+import { RESOURCE_NOT_FOUND, ResourceWatcher } from "./resource-watcher.js";
+
+export interface MCPServerOptions {
+  resourcePollMs?: number; // How often subscribed resources are checked for changes (default: 30 seconds)
+}
+
+// The user an HTTP client signed in as (none over stdio)
+function requestUser(extra: { authInfo?: { extra?: Record<string, unknown> } }): AuthIdentity | undefined {
+  return extra.authInfo?.extra?.user as AuthIdentity | undefined;
+}
+
+// The keywords a parameter's min and max become, by its type
+const BOUND_KEYWORDS: Record<string, [string, string]> = {
+  number: ["minimum", "maximum"],
+  integer: ["minimum", "maximum"],
+  string: ["minLength", "maxLength"],
+  array: ["minItems", "maxItems"],
+};
+
+function objectSchema(fields: Record<string, ToolParam>): JSONSchema {
+  const properties: Record<string, JSONSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, field] of Object.entries(fields)) {
+    properties[key] = valueSchema(field);
+    if (field.default !== undefined) {
+      properties[key].default = field.default;
+    }
+    if (field.required) {
+      required.push(key);
+    }
+  }
+
+  return { type: "object", properties, required };
+}
+
+function valueSchema(shape: ToolValueShape): JSONSchema {
+  const schema: JSONSchema = { type: shape.type };
+  const bounds = BOUND_KEYWORDS[shape.type];
+
+  if (shape.description) {
+    schema.description = shape.description;
+  }
+  if (shape.enum) {
+    schema.enum = shape.enum;
+  }
+  if (bounds && shape.min !== undefined) {
+    schema[bounds[0]] = shape.min;
+  }
+  if (bounds && shape.max !== undefined) {
+    schema[bounds[1]] = shape.max;
+  }
+  if (shape.items) {
+    schema.items = valueSchema(shape.items);
+  }
+  if (shape.properties) {
+    Object.assign(schema, objectSchema(shape.properties));
+  }
+  return schema;
+}
+
+// One line per problem, naming the argument: "- status: must be one of ..."
+function describeIssues(issues: JSONSchemaIssue[]): string {
+  return issues.map((issue) => `- ${issue.path.replace(/^\$\.?/, "") || "arguments"}: ${issue.message}`).join("\n");
+}
 
 export class MCPServer {
-  private server: Server;
+  private name: string;
+  private version: string;
+  private resourcePollMs: number;
   private tools: Map<string, MCPTool>;
+  private resources: Map<string, MCPResource>;
+  private resourceTemplates: Map<string, { template: MCPResourceTemplate; matcher: UriTemplate }>;
+  private prompts: Map<string, MCPPrompt>;
 
-  constructor(name: string, version: string) {
-    this.server = new Server(
-      {
-        name,
-        version,
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
+  constructor(name: string, version: string, options: MCPServerOptions = {}) {
+    this.name = name;
+    this.version = version;
+    this.resourcePollMs = options.resourcePollMs ?? 30 * 1000;
     this.tools = new Map();
+    this.resources = new Map();
+    this.resourceTemplates = new Map();
+    this.prompts = new Map();
   }
 
   registerTool(tool: MCPTool): void {
     this.tools.set(tool.name, tool);
   }
 
-  async start(): Promise<void> {
-    // Setup tool handlers
-    this.setupHandlers();
+  registerResource(resource: MCPResource): void {
+    this.resources.set(resource.uri, resource);
+  }
+
+  registerResourceTemplate(template: MCPResourceTemplate): void {
+    this.resourceTemplates.set(template.uriTemplate, {
+      template,
+      matcher: new UriTemplate(template.uriTemplate),
+    });
+  }
+
+  registerPrompt(prompt: MCPPrompt): void {
+    this.prompts.set(prompt.name, prompt);
+  }
+
+  // Fixed resources, then those each template lists
+  async listResources(): Promise<MCPResourceEntry[]> {
+    const fixed = Array.from(this.resources.values()).map(({ read: _read, ...entry }) => entry);
+    const listed = await Promise.all(
+      Array.from(this.resourceTemplates.values()).map(({ template }) => template.list?.() ?? [])
+    );
+    return [...fixed, ...listed.flat()];
+  }
+
+  async readResource(uri: string): Promise<MCPResourceContents> {
+    const fixed = this.resources.get(uri);
+    if (fixed) {
+      return this.toContents(uri, fixed.mimeType, await fixed.read());
+    }
+
+    for (const { template, matcher } of this.resourceTemplates.values()) {
+      const variables = matcher.match(uri);
+      if (variables) {
+        const values = Object.fromEntries(
+          Object.entries(variables).map(([key, value]) => [key, Array.isArray(value) ? value.join(",") : value])
+        );
+        return this.toContents(uri, template.mimeType, await template.read(values));
+      }
+    }
+
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
+  }
 
-    // Start server with stdio transport
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  // Serve the tools over stdio
+  async start(): Promise<void> {
+    await this.connect(new StdioServerTransport());
 
     console.error(`MCP Server started with ${this.tools.size} tools`);
   }
 
-  private setupHandlers(): void {
+  // Serve the tools over Streamable HTTP, to any number of clients at once
+  async startHttp(options: MCPHttpOptions): Promise<MCPHttpServer> {
+    const http = await startMCPHttpServer(this, options);
+
+    console.error(`MCP Server started with ${this.tools.size} tools at ${http.url}`);
+    return http;
+  }
+
+  // Connect a transport to its own protocol server (one per HTTP session),
+  // all sharing the registered tools, resources and prompts
+  async connect(transport: Transport): Promise<Server> {
+    const hasResources = this.resources.size > 0 || this.resourceTemplates.size > 0;
+    const hasPrompts = this.prompts.size > 0;
+    const server = new Server(
+      {
+        name: this.name,
+        version: this.version,
+      },
+      {
+        capabilities: {
+          tools: {},
+          ...(hasResources && { resources: { subscribe: true, listChanged: true } }),
+          ...(hasPrompts && { prompts: {} }),
+        },
+      }
+    );
+    this.setupHandlers(server);
+    if (hasResources) {
+      const watcher = new ResourceWatcher(this, server, this.resourcePollMs);
+      this.setupResourceHandlers(server, watcher);
+      server.onclose = () => watcher.stop();
+    }
+    if (hasPrompts) {
+      this.setupPromptHandlers(server);
+    }
+    await server.connect(transport);
+    return server;
+  }
+
+  private setupHandlers(server: Server): void {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: Array.from(this.tools.values()).map((tool) => ({
           name: tool.name,
@@ -53,16 +217,31 @@ export class MCPServer {
       };
     });
 
-    // Execute tool
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    // Execute tool, as the HTTP client's user when there is one. Arguments that don't
+    // match the advertised schema, and tools that fail, come back as error results
+    // the client's model can read and correct
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      const { name, arguments: args = {} } = request.params;
       const tool = this.tools.get(name);
 
       if (!tool) {
-        throw new Error(`Tool not found: ${name}`);
+        throw new McpError(ErrorCode.InvalidParams, `Tool not found: ${name}`);
       }
 
-      const result = await tool.execute(args || {});
+      const issues = validateJSONSchema(args, this.convertSchemaToJSON(tool.schema));
+      if (issues.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Invalid arguments for ${name}:\n${describeIssues(issues)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      const result = await runAsUser(requestUser(extra), () => tool.execute(args));
 
       return {
         content: [
@@ -71,33 +250,86 @@ export class MCPServer {
             text: JSON.stringify(result, null, 2),
           },
         ],
+        ...(!result.success && { isError: true }),
       };
     });
   }
 
-  private convertSchemaToJSON(schema: ToolSchema): any {
-    // Convert internal schema to JSON Schema format
-    const properties: any = {};
-    const required: string[] = [];
+  private setupResourceHandlers(server: Server, watcher: ResourceWatcher): void {
+    // List resources, and from then on tell the client when the list changes
+    server.setRequestHandler(ListResourcesRequestSchema, async (_request, extra) => {
+      const user = requestUser(extra);
+      const resources = await runAsUser(user, () => this.listResources());
+      watcher.watchList(resources, user);
+      return { resources };
+    });
 
-    for (const [key, value] of Object.entries(schema.params)) {
-      properties[key] = {
-        type: value.type,
-        description: value.description,
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: Array.from(this.resourceTemplates.values()).map(({ template }) => ({
+          uriTemplate: template.uriTemplate,
+          name: template.name,
+          description: template.description,
+          mimeType: template.mimeType,
+        })),
+      };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      return { contents: [await runAsUser(requestUser(extra), () => this.readResource(request.params.uri))] };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      await watcher.subscribe(request.params.uri, requestUser(extra));
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      watcher.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: Array.from(this.prompts.values()).map(({ name, description, arguments: args }) => ({
+          name,
+          description,
+          arguments: args,
+        })),
       };
-      if (value.default !== undefined) {
-        properties[key].default = value.default;
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const { name, arguments: args = {} } = request.params;
+      const prompt = this.prompts.get(name);
+
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt not found: ${name}`);
       }
-      if (value.required) {
-        required.push(key);
+      const missing = prompt.arguments.filter((arg) => arg.required && !args[arg.name]).map((arg) => arg.name);
+      if (missing.length > 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Missing required arguments for ${name}: ${missing.join(", ")}`);
       }
+
+      const messages = await runAsUser(requestUser(extra), () =>
+        prompt.render(args, (uri) => this.readResource(uri))
+      );
+      return { description: prompt.description, messages };
+    });
+  }
+
+  private toContents(uri: string, mimeType: string, data: any): MCPResourceContents {
+    if (data === null || data === undefined) {
+      throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`, { uri });
     }
+    return { uri, mimeType, text: JSON.stringify(data, null, 2) };
+  }
 
-    return {
-      type: "object",
-      properties,
-      required,
-    };
+  // The tool's parameters as the JSON Schema clients are given and arguments are checked against
+  private convertSchemaToJSON(schema: ToolSchema): JSONSchema {
+    return objectSchema(schema.params);
   }
 
   // Helper method for testing
@@ -0,0 +1,27 @@
+/**
+ * Local webhook receiver - prints every delivery and whether its signature checks out
+ *
+ * WEBHOOK_RECEIVER_PORT (default 4100) and WEBHOOK_SECRET (the subscription's secret) configure it.
+ * Subscribe it with POST /api/webhooks { "url": "http://localhost:4100/hooks", "event_types": ["*"] }.
+ */
+
+import { createWebhookReceiver } from '../api/services/webhook-receiver.js';
+
+const port = parseInt(process.env.WEBHOOK_RECEIVER_PORT || '4100');
+const secret = process.env.WEBHOOK_SECRET;
+
+const receiver = createWebhookReceiver({
+  ...(secret && { secret }),
+  onDelivery: ({ delivery_id, signature_valid, message }) => {
+    const check = secret ? (signature_valid ? '✓ signed' : '✗ bad signature') : '- unchecked';
+    console.log(`📨 ${message.type} ${message.entity_id} (${delivery_id}, ${check})`);
+    console.log(JSON.stringify(message.data, null, 2));
+  },
+});
+
+receiver.listen(port, () => {
+  console.log(`🪝 Webhook receiver listening on http://localhost:${port}`);
+  if (!secret) {
+    console.log('   Set WEBHOOK_SECRET to check signatures');
+  }
+});
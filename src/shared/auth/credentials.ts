@@ -0,0 +1,95 @@
+/**
+ * Credential checks
+ * Resolves an API key or bearer token to the caller's identity
+ */
+
+import { AuthenticationError } from '../utils/errors.js';
+import { ANONYMOUS_IDENTITY, AuthIdentity, Role, isRole } from './identity.js';
+import { verifyJwt } from './jwt.js';
+
+export interface ApiKeyOwner {
+  id: string;
+  role: Role;
+}
+
+export interface RequestCredentials {
+  authorization?: string | undefined; // Authorization header, "Bearer <API key or JWT>"
+  apiKey?: string | undefined; // X-API-Key header
+}
+
+/**
+ * Authentication is on once any API key or a JWT secret is configured
+ */
+export function isAuthEnabled(): boolean {
+  return Boolean(process.env.API_KEYS || process.env.JWT_SECRET);
+}
+
+/**
+ * Parse API_KEYS ("key:role:owner,..."); entries without a known role are skipped
+ * and the owner defaults to the role
+ */
+export function parseApiKeys(value: string = process.env.API_KEYS || ''): Map<string, ApiKeyOwner> {
+  const keys = new Map<string, ApiKeyOwner>();
+  for (const entry of value.split(',')) {
+    const [key, role, id] = entry.split(':').map(part => part.trim());
+    if (key && isRole(role)) {
+      keys.set(key, { id: id || role, role });
+    }
+  }
+  return keys;
+}
+
+function identityFromToken(token: string): AuthIdentity {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new AuthenticationError('Invalid API key');
+  }
+
+  const claims = verifyJwt(token, secret);
+  if (!claims.sub) {
+    throw new AuthenticationError('Token has no subject');
+  }
+  if (!isRole(claims.role)) {
+    throw new AuthenticationError('Token has no valid role');
+  }
+  return { id: claims.sub, role: claims.role, method: 'jwt', credential: token };
+}
+
+/**
+ * The identity behind a request's credentials: an X-API-Key header, or a
+ * bearer API key or JWT. Everyone is the anonymous admin while authentication
+ * is off.
+ */
+export function authenticate({ authorization, apiKey }: RequestCredentials): AuthIdentity {
+  if (!isAuthEnabled()) {
+    return ANONYMOUS_IDENTITY;
+  }
+
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const credential = apiKey || bearer;
+  if (!credential) {
+    throw new AuthenticationError();
+  }
+
+  const owner = parseApiKeys().get(credential);
+  if (owner) {
+    return { ...owner, method: 'api-key', credential };
+  }
+  if (apiKey) {
+    throw new AuthenticationError('Invalid API key');
+  }
+  return identityFromToken(credential);
+}
+
+/**
+ * Headers that carry an identity's credential on outgoing API calls
+ */
+export function credentialHeaders(user: AuthIdentity | undefined): Record<string, string> {
+  if (user?.credential) {
+    return user.method === 'api-key' ? { 'X-API-Key': user.credential } : { Authorization: `Bearer ${user.credential}` };
+  }
+
+  // Runs without a signed-in user call the API with the agent's own key
+  const agentKey = process.env.AGENT_API_KEY;
+  return agentKey ? { 'X-API-Key': agentKey } : {};
+}
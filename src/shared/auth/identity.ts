@@ -0,0 +1,88 @@
+/**
+ * Caller identity and roles
+ * Who is making a request, and the ambient identity the agent's tool calls run as
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { PermissionDeniedError } from '../utils/errors.js';
+
+/**
+ * Roles from least to most privileged; each role can do everything the ones before it can
+ */
+export const ROLES = ['viewer', 'inspector', 'operator', 'admin'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface AuthIdentity {
+  id: string; // API key owner or token subject
+  role: Role;
+  method: 'api-key' | 'jwt' | 'anonymous';
+  credential?: string; // Raw API key or token, forwarded on the agent's API calls
+}
+
+/**
+ * Identity used while authentication is off (no API_KEYS or JWT_SECRET configured)
+ */
+export const ANONYMOUS_IDENTITY: AuthIdentity = { id: 'anonymous', role: 'admin', method: 'anonymous' };
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role is at or above the required one
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Ambient identity for the current async call chain, like the ambient abort signal.
+ * Tools pick it up to forward the user's credential and check their role.
+ */
+const identityStorage = new AsyncLocalStorage<AuthIdentity>();
+
+/**
+ * Run an operation as the given user
+ */
+export function runAsUser<T>(user: AuthIdentity | undefined, operation: () => Promise<T>): Promise<T> {
+  if (!user) {
+    return operation();
+  }
+  return identityStorage.run(user, operation);
+}
+
+/**
+ * Get the user the current async call chain runs as (if any)
+ */
+export function getCurrentUser(): AuthIdentity | undefined {
+  return identityStorage.getStore();
+}
+
+// Inspectors record inspections and contaminants; other writes need an operator
+const INSPECTOR_TOOLS = /^(inspections|contaminants)_/;
+
+/**
+ * The least role that may run a tool. Deletes and resets are admin-only, the
+ * same as the API routes they call.
+ */
+export function requiredToolRole(toolName: string): Role {
+  if (toolName.endsWith('_delete') || toolName === 'database_reset') {
+    return 'admin';
+  }
+  if (/_(create|update|transition)$/.test(toolName)) {
+    return INSPECTOR_TOOLS.test(toolName) ? 'inspector' : 'operator';
+  }
+  return 'viewer';
+}
+
+/**
+ * Throw a PermissionDeniedError if the user may not run the tool. Runs without
+ * a requesting user (the MCP server, scripts) use the agent's own credential.
+ */
+export function assertToolAllowed(toolName: string, user: AuthIdentity | undefined = getCurrentUser()): void {
+  const required = requiredToolRole(toolName);
+  if (user && !hasRole(user.role, required)) {
+    throw new PermissionDeniedError(`run ${toolName}`, user.role, required);
+  }
+}
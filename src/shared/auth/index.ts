@@ -0,0 +1,7 @@
+/**
+ * Barrel export for auth module
+ */
+
+export * from './identity.js';
+export * from './jwt.js';
+export * from './credentials.js';
@@ -0,0 +1,76 @@
+/**
+ * HS256 JSON Web Tokens
+ * Signing and verification with a shared secret
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthenticationError } from '../utils/errors.js';
+
+export interface JwtClaims {
+  sub?: string;
+  role?: string;
+  exp?: number; // Seconds since the epoch
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, any> {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    value = null;
+  }
+  if (!value || typeof value !== 'object') {
+    throw new AuthenticationError('Malformed token');
+  }
+  return value as Record<string, any>;
+}
+
+function signature(input: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(input).digest();
+}
+
+/**
+ * Sign claims into an HS256 token
+ */
+export function signJwt(claims: JwtClaims, secret: string): string {
+  const input = `${encodeSegment({ alg: 'HS256', typ: 'JWT' })}.${encodeSegment(claims)}`;
+  return `${input}.${signature(input, secret).toString('base64url')}`;
+}
+
+/**
+ * Verify an HS256 token's signature, exp and nbf and return its claims
+ */
+export function verifyJwt(token: string, secret: string, now: number = Date.now()): JwtClaims {
+  const [header, payload, signed, ...rest] = token.split('.');
+  if (!header || !payload || !signed || rest.length > 0) {
+    throw new AuthenticationError('Malformed token');
+  }
+
+  // Only HS256 is accepted, so a token can't pick a weaker algorithm (or "none")
+  if (decodeSegment(header).alg !== 'HS256') {
+    throw new AuthenticationError('Unsupported token algorithm');
+  }
+
+  const expected = signature(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signed, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthenticationError('Invalid token signature');
+  }
+
+  const claims: JwtClaims = decodeSegment(payload);
+  const seconds = Math.floor(now / 1000);
+  if (typeof claims.exp === 'number' && seconds >= claims.exp) {
+    throw new AuthenticationError('Token has expired');
+  }
+  if (typeof claims.nbf === 'number' && seconds < claims.nbf) {
+    throw new AuthenticationError('Token is not valid yet');
+  }
+  return claims;
+}
@@ -0,0 +1,5 @@
+/**
+ * Barrel export for cancellation module
+ */
+
+export * from './registry.js';
@@ -0,0 +1,209 @@
+/**
+ * Cancellation Registry
+ * Tracks in-flight requests and aborts them on demand
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { CancellationError } from '../utils/errors.js';
+
+/**
+ * Record of a cancelled request
+ */
+export interface CancellationRecord {
+  requestId: string;
+  reason: string;
+  cancelledAt: string;
+  wasRunning: boolean;
+}
+
+/**
+ * Ambient signal for the current async call chain.
+ * Lets tools and LLM adapters pick up cancellation without threading
+ * a signal through every call site.
+ */
+const signalStorage = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run an operation with the given signal as the ambient signal
+ */
+export function runWithSignal<T>(signal: AbortSignal | undefined, operation: () => Promise<T>): Promise<T> {
+  if (!signal) {
+    return operation();
+  }
+  return signalStorage.run(signal, operation);
+}
+
+/**
+ * Get the ambient signal for the current async call chain (if any)
+ */
+export function getCurrentSignal(): AbortSignal | undefined {
+  return signalStorage.getStore();
+}
+
+/**
+ * Throw a CancellationError if the signal has been aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, requestId?: string): void {
+  if (signal?.aborted) {
+    throw new CancellationError(requestId, signal.reason?.message);
+  }
+}
+
+/**
+ * Check whether an error was caused by an aborted request
+ * (our own CancellationError, axios CanceledError, OpenAI APIUserAbortError or DOM AbortError)
+ */
+export function isCancellationError(error: any): boolean {
+  if (!error) return false;
+  if (error instanceof CancellationError) return true;
+  return (
+    error.name === 'AbortError' ||
+    error.name === 'CanceledError' ||
+    error.name === 'APIUserAbortError' ||
+    error.code === 'ERR_CANCELED'
+  );
+}
+
+/**
+ * A request's controller, shared by every phase running under its ID
+ */
+interface TrackedRequest {
+  controller: AbortController;
+  holders: number; // Phases still running
+}
+
+/**
+ * Cancellation Registry
+ * One AbortController per in-flight request ID
+ */
+export class CancellationRegistry {
+  private controllers: Map<string, TrackedRequest> = new Map();
+  private cancelled: Map<string, CancellationRecord> = new Map();
+  private readonly maxRecords: number;
+
+  constructor(maxRecords: number = 1000) {
+    this.maxRecords = maxRecords;
+  }
+
+  /**
+   * Start tracking a request and return its signal.
+   * A request that was cancelled before it started gets an already-aborted signal.
+   */
+  begin(requestId: string): AbortSignal {
+    const existing = this.controllers.get(requestId);
+    if (existing) {
+      existing.holders++;
+      return existing.controller.signal;
+    }
+
+    const controller = new AbortController();
+    const record = this.cancelled.get(requestId);
+    if (record) {
+      controller.abort(new CancellationError(requestId, record.reason));
+    }
+
+    this.controllers.set(requestId, { controller, holders: 1 });
+    return controller.signal;
+  }
+
+  /**
+   * Release a phase's hold on a request (called when the phase finishes).
+   * The request stops being tracked once no phase holds it.
+   */
+  end(requestId: string): void {
+    const tracked = this.controllers.get(requestId);
+    if (tracked && --tracked.holders <= 0) {
+      this.controllers.delete(requestId);
+    }
+  }
+
+  /**
+   * Run an operation as a tracked request.
+   * The signal is passed in and also set as the ambient signal.
+   */
+  async run<T>(requestId: string, operation: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const signal = this.begin(requestId);
+    try {
+      throwIfCancelled(signal, requestId);
+      return await runWithSignal(signal, () => operation(signal));
+    } finally {
+      this.end(requestId);
+    }
+  }
+
+  /**
+   * Cancel a request. Aborts it if it is running and marks it so later
+   * phases for the same request ID are refused.
+   * Returns true if the request was in flight.
+   */
+  cancel(requestId: string, reason: string = 'Cancelled by user'): boolean {
+    const controller = this.controllers.get(requestId)?.controller;
+    const wasRunning = !!controller && !controller.signal.aborted;
+
+    this.recordCancellation({
+      requestId,
+      reason,
+      cancelledAt: new Date().toISOString(),
+      wasRunning,
+    });
+
+    if (controller && !controller.signal.aborted) {
+      controller.abort(new CancellationError(requestId, reason));
+    }
+
+    return wasRunning;
+  }
+
+  /**
+   * Check if a request has been cancelled
+   */
+  isCancelled(requestId: string): boolean {
+    return this.cancelled.has(requestId);
+  }
+
+  /**
+   * Get the cancellation record for a request
+   */
+  getCancellation(requestId: string): CancellationRecord | undefined {
+    return this.cancelled.get(requestId);
+  }
+
+  /**
+   * Check if a request is currently running
+   */
+  isRunning(requestId: string): boolean {
+    return this.controllers.has(requestId);
+  }
+
+  /**
+   * Get IDs of all running requests
+   */
+  getRunningRequests(): string[] {
+    return Array.from(this.controllers.keys());
+  }
+
+  /**
+   * Store a cancellation record, evicting the oldest when full
+   */
+  private recordCancellation(record: CancellationRecord): void {
+    this.cancelled.delete(record.requestId);
+    this.cancelled.set(record.requestId, record);
+
+    if (this.cancelled.size > this.maxRecords) {
+      const oldest = this.cancelled.keys().next().value;
+      if (oldest !== undefined) {
+        this.cancelled.delete(oldest);
+      }
+    }
+  }
+}
+
+// Singleton instance for global use
+let globalRegistry: CancellationRegistry | null = null;
+
+export function getGlobalCancellationRegistry(): CancellationRegistry {
+  if (!globalRegistry) {
+    globalRegistry = new CancellationRegistry();
+  }
+  return globalRegistry;
+}
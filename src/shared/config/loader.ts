@@ -5,6 +5,7 @@
 
 import { SystemConfig } from '../types/common.js';
 import { getLLMConfigs } from '../llm/config.js';
+import { loadMemoryBackendConfig } from '../memory/backends.js';
 import {
   DEFAULT_TIMEOUT,
   DEFAULT_RETRIES,
@@ -74,6 +75,7 @@ function loadLLMSystemConfig() {
  */
 function loadMemorySystemConfig() {
   return {
+    ...loadMemoryBackendConfig(),
     neo4j: {
       uri: process.env.NEO4J_URI || 'bolt://localhost:7687',
       user: process.env.NEO4J_USER || 'neo4j',
@@ -157,18 +159,20 @@ export function validateConfig(config: SystemConfig): void {
     errors.push('WASTEER_API_URL is required');
   }
   
-  // Validate memory config if memory is enabled
+  // Validate memory config if memory is enabled (only the hosted backends need credentials)
   if (config.features.enable_memory) {
-    if (!config.memory.neo4j.password) {
+    if ((config.memory.episodic_backend ?? 'neo4j') === 'neo4j' && !config.memory.neo4j.password) {
       errors.push('NEO4J_PASSWORD is required when memory is enabled');
     }
     
-    if (!config.memory.pinecone.api_key) {
-      errors.push('PINECONE_API_KEY is required when memory is enabled');
-    }
-    
-    if (!config.memory.pinecone.environment) {
-      errors.push('PINECONE_ENVIRONMENT is required when memory is enabled');
+    if ((config.memory.semantic_backend ?? 'pinecone') === 'pinecone') {
+      if (!config.memory.pinecone.api_key) {
+        errors.push('PINECONE_API_KEY is required when memory is enabled');
+      }
+      
+      if (!config.memory.pinecone.environment) {
+        errors.push('PINECONE_ENVIRONMENT is required when memory is enabled');
+      }
     }
   }
   
@@ -3,4 +3,4 @@
  */
 
 export * from './utilities.js';
-
+export * from './session.js';
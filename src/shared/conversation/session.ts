@@ -0,0 +1,97 @@
+/**
+ * Conversation Sessions
+ * Multi-turn conversation entities and their storage interface
+ */
+
+import { Message } from '../context/types.js';
+import { UserIntent } from '../intent/classifier.js';
+
+/**
+ * Trimmed tool result kept so follow-ups can refer to earlier answers
+ */
+export interface ResultSnapshot {
+  tool: string;
+  params: Record<string, any>;
+  success: boolean;
+  data: any;
+  totalItems?: number; // Item count before trimming (array results only)
+}
+
+/**
+ * One question/answer exchange in a conversation
+ */
+export interface ConversationTurn {
+  requestId: string;
+  query: string;
+  intent: UserIntent;
+  response: string;
+  toolsUsed: string[];
+  results: ResultSnapshot[];
+  error?: boolean;
+  timestamp: string;
+}
+
+/**
+ * A conversation session spanning multiple requests
+ */
+export interface Conversation {
+  conversationId: string;
+  userId?: string;
+  title?: string;
+  messages: Message[];
+  turns: ConversationTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Conversation context handed to the planner for one turn
+ */
+export interface ConversationTurnContext {
+  conversationId: string;
+  intent: UserIntent;
+  history: Message[]; // Earlier messages, compressed to the token budget
+  compressed: boolean;
+  previousQuery?: string;
+  previousResults?: ResultSnapshot[];
+}
+
+/**
+ * Conversation storage interface
+ */
+export interface ConversationStore {
+  create(conversation: Conversation): Promise<void>;
+  get(conversationId: string): Promise<Conversation | null>;
+  appendTurn(conversationId: string, turn: ConversationTurn, messages: Message[]): Promise<Conversation | null>;
+}
+
+/**
+ * In-memory conversation storage (default)
+ */
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, Conversation> = new Map();
+
+  async create(conversation: Conversation): Promise<void> {
+    this.conversations.set(conversation.conversationId, conversation);
+  }
+
+  async get(conversationId: string): Promise<Conversation | null> {
+    return this.conversations.get(conversationId) || null;
+  }
+
+  async appendTurn(conversationId: string, turn: ConversationTurn, messages: Message[]): Promise<Conversation | null> {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    const updated: Conversation = {
+      ...conversation,
+      messages: [...conversation.messages, ...messages],
+      turns: [...conversation.turns, turn],
+      updatedAt: new Date().toISOString(),
+    };
+    this.conversations.set(conversationId, updated);
+    return updated;
+  }
+}
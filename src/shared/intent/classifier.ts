@@ -171,7 +171,7 @@ export class IntentClassifier {
     const lower = message.toLowerCase();
     
     // Check for multi-word indicators (exact match)
-    const multiWordIndicators = ['what about', 'how about'];
+    const multiWordIndicators = ['what about', 'how about', 'only the', 'just the'];
     if (multiWordIndicators.some(phrase => lower.includes(phrase))) {
       return true;
     }
@@ -188,7 +188,7 @@ export class IntentClassifier {
     }
     
     // Check for pronouns (word boundary match to avoid false positives)
-    const pronouns = ['them', 'those', 'these', 'it', 'that'];
+    const pronouns = ['them', 'those', 'these', 'it', 'that', 'ones'];
     return pronouns.some(pronoun => {
       const regex = new RegExp(`\\b${pronoun}\\b`, 'i');
       return regex.test(lower);
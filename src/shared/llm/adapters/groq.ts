@@ -4,7 +4,7 @@
  */
 
 import OpenAI from 'openai';
-import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig } from '../../types/llm.js';
+import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig, LLMStreamHandler } from '../../types/llm.js';
 
 export class GroqAdapter implements LLMProviderAdapter {
   name: 'groq' = 'groq';
@@ -32,19 +32,12 @@ export class GroqAdapter implements LLMProviderAdapter {
   async generate(request: LLMRequest): Promise<LLMResponse> {
     const startTime = Date.now();
     
-    const params: any = {
-      model: this.config.model || 'llama-3.3-70b-versatile',
-      messages: request.messages,
-      temperature: request.config?.temperature ?? this.config.temperature ?? 0.7,
-      max_tokens: request.config?.max_tokens ?? this.config.max_tokens ?? 1000
-    };
+    const params = this.buildParams(request);
     
-    const topP = request.config?.top_p ?? this.config.top_p;
-    if (topP !== undefined) {
-      params.top_p = topP;
-    }
-    
-    const response = await this.client.chat.completions.create(params);
+    const response = await this.client.chat.completions.create(
+      params,
+      request.signal ? { signal: request.signal } : undefined
+    );
     
     const result: LLMResponse = {
       content: response.choices[0]?.message?.content || '',
@@ -66,5 +59,76 @@ export class GroqAdapter implements LLMProviderAdapter {
     
     return result;
   }
+  
+  async generateStream(request: LLMRequest, onChunk: LLMStreamHandler): Promise<LLMResponse> {
+    const startTime = Date.now();
+    
+    const params: OpenAI.ChatCompletionCreateParamsStreaming = {
+      ...this.buildParams(request),
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+    
+    const stream = await this.client.chat.completions.create(
+      params,
+      request.signal ? { signal: request.signal } : undefined
+    );
+    
+    let content = '';
+    let model = this.config.model || 'llama-3.3-70b-versatile';
+    let usage: LLMResponse['usage'];
+    
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onChunk(delta);
+      }
+      if (chunk.usage) {
+        usage = {
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+          total_tokens: chunk.usage.total_tokens
+        };
+      }
+    }
+    
+    const result: LLMResponse = {
+      content,
+      provider: 'groq',
+      model,
+      metadata: {
+        latency_ms: Date.now() - startTime,
+        retries: 0
+      }
+    };
+    
+    if (usage) {
+      result.usage = usage;
+    }
+    
+    return result;
+  }
+  
+  private buildParams(request: LLMRequest): any {
+    const params: any = {
+      model: this.config.model || 'llama-3.3-70b-versatile',
+      messages: request.messages,
+      temperature: request.config?.temperature ?? this.config.temperature ?? 0.7,
+      max_tokens: request.config?.max_tokens ?? this.config.max_tokens ?? 1000
+    };
+    
+    const topP = request.config?.top_p ?? this.config.top_p;
+    if (topP !== undefined) {
+      params.top_p = topP;
+    }
+    
+    // Groq's JSON mode guarantees valid JSON; the provider validates against the schema
+    if (request.response_format) {
+      params.response_format = { type: 'json_object' };
+    }
+    
+    return params;
+  }
 }
-
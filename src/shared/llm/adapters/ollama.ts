@@ -4,7 +4,7 @@
  */
 
 import axios from 'axios';
-import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig, LLMMessage } from '../../types/llm.js';
+import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig, LLMMessage, LLMStreamHandler } from '../../types/llm.js';
 
 export class OllamaAdapter implements LLMProviderAdapter {
   name: 'ollama' = 'ollama';
@@ -31,15 +31,11 @@ export class OllamaAdapter implements LLMProviderAdapter {
     // Format messages for Ollama
     const prompt = this.formatMessages(request.messages);
     
-    const response = await axios.post(`${this.baseUrl}/api/generate`, {
-      model: this.config.model || 'mistral:latest',
-      prompt,
-      stream: false,
-      options: {
-        temperature: request.config?.temperature ?? this.config.temperature ?? 0.7,
-        num_predict: request.config?.max_tokens ?? this.config.max_tokens ?? 1000
-      }
-    });
+    const response = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      this.buildBody(prompt, request, false),
+      request.signal ? { signal: request.signal } : undefined
+    );
     
     return {
       content: response.data.response,
@@ -52,6 +48,65 @@ export class OllamaAdapter implements LLMProviderAdapter {
     };
   }
   
+  async generateStream(request: LLMRequest, onChunk: LLMStreamHandler): Promise<LLMResponse> {
+    const startTime = Date.now();
+    
+    const prompt = this.formatMessages(request.messages);
+    
+    const response = await axios.post(
+      `${this.baseUrl}/api/generate`,
+      this.buildBody(prompt, request, true),
+      { responseType: 'stream', ...(request.signal && { signal: request.signal }) }
+    );
+    
+    // Ollama streams newline-delimited JSON objects
+    let content = '';
+    let model = this.config.model || 'mistral:latest';
+    let buffer = '';
+    
+    const handleLine = (line: string) => {
+      if (!line.trim()) return;
+      const data = JSON.parse(line);
+      model = data.model || model;
+      if (data.response) {
+        content += data.response;
+        onChunk(data.response);
+      }
+    };
+    
+    for await (const data of response.data) {
+      buffer += data.toString();
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(handleLine);
+    }
+    handleLine(buffer);
+    
+    return {
+      content,
+      provider: 'ollama',
+      model,
+      metadata: {
+        latency_ms: Date.now() - startTime,
+        retries: 0
+      }
+    };
+  }
+  
+  private buildBody(prompt: string, request: LLMRequest, stream: boolean): Record<string, any> {
+    return {
+      model: this.config.model || 'mistral:latest',
+      prompt,
+      stream,
+      // Ollama constrains generation to a JSON Schema passed as format
+      ...(request.response_format && { format: request.response_format.schema }),
+      options: {
+        temperature: request.config?.temperature ?? this.config.temperature ?? 0.7,
+        num_predict: request.config?.max_tokens ?? this.config.max_tokens ?? 1000
+      }
+    };
+  }
+  
   private formatMessages(messages: LLMMessage[]): string {
     return messages.map(m => {
       const roleLabel = m.role === 'system' ? 'System' : 
@@ -3,7 +3,7 @@
  */
 
 import OpenAI from 'openai';
-import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig } from '../../types/llm.js';
+import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig, LLMStreamHandler } from '../../types/llm.js';
 
 export class OpenAIAdapter implements LLMProviderAdapter {
   name: 'openai' = 'openai';
@@ -30,19 +30,12 @@ export class OpenAIAdapter implements LLMProviderAdapter {
   async generate(request: LLMRequest): Promise<LLMResponse> {
     const startTime = Date.now();
     
-    const params: any = {
-      model: this.config.model || 'gpt-4-turbo-preview',
-      messages: request.messages,
-      temperature: request.config?.temperature ?? this.config.temperature ?? 0.7,
-      max_tokens: request.config?.max_tokens ?? this.config.max_tokens ?? 1000
-    };
+    const params = this.buildParams(request);
     
-    const topP = request.config?.top_p ?? this.config.top_p;
-    if (topP !== undefined) {
-      params.top_p = topP;
-    }
-    
-    const response = await this.client.chat.completions.create(params);
+    const response = await this.client.chat.completions.create(
+      params,
+      request.signal ? { signal: request.signal } : undefined
+    );
     
     const result: LLMResponse = {
       content: response.choices[0]?.message?.content || '',
@@ -64,5 +57,90 @@ export class OpenAIAdapter implements LLMProviderAdapter {
     
     return result;
   }
+  
+  async generateStream(request: LLMRequest, onChunk: LLMStreamHandler): Promise<LLMResponse> {
+    const startTime = Date.now();
+    
+    const params: OpenAI.ChatCompletionCreateParamsStreaming = {
+      ...this.buildParams(request),
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+    
+    const stream = await this.client.chat.completions.create(
+      params,
+      request.signal ? { signal: request.signal } : undefined
+    );
+    
+    let content = '';
+    let model = this.config.model || 'gpt-4-turbo-preview';
+    let usage: LLMResponse['usage'];
+    
+    for await (const chunk of stream) {
+      model = chunk.model || model;
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        onChunk(delta);
+      }
+      if (chunk.usage) {
+        usage = {
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+          total_tokens: chunk.usage.total_tokens
+        };
+      }
+    }
+    
+    const result: LLMResponse = {
+      content,
+      provider: 'openai',
+      model,
+      metadata: {
+        latency_ms: Date.now() - startTime,
+        retries: 0
+      }
+    };
+    
+    if (usage) {
+      result.usage = usage;
+    }
+    
+    return result;
+  }
+  
+  private buildParams(request: LLMRequest): any {
+    const params: any = {
+      model: this.config.model || 'gpt-4-turbo-preview',
+      messages: request.messages,
+      temperature: request.config?.temperature ?? this.config.temperature ?? 0.7,
+      max_tokens: request.config?.max_tokens ?? this.config.max_tokens ?? 1000
+    };
+    
+    const topP = request.config?.top_p ?? this.config.top_p;
+    if (topP !== undefined) {
+      params.top_p = topP;
+    }
+    
+    const format = request.response_format;
+    if (format) {
+      // Older models only have JSON mode; the provider validates against the schema
+      params.response_format = JSON_SCHEMA_MODELS.test(params.model)
+        ? {
+          type: 'json_schema',
+          json_schema: {
+            name: format.name,
+            schema: format.schema,
+            strict: false,
+            ...(format.description && { description: format.description })
+          }
+        }
+        : { type: 'json_object' };
+    }
+    
+    return params;
+  }
 }
 
+// Models that accept response_format json_schema
+const JSON_SCHEMA_MODELS = /^(gpt-4o|gpt-4\.1|gpt-5|o\d)/;
@@ -8,9 +8,12 @@ export type {
   LLMRequest,
   LLMMessage,
   LLMResponse,
+  LLMResponseFormat,
   TokenUsage,
   LLMMetadata,
-  LLMProviderAdapter
+  LLMProviderAdapter,
+  LLMStreamHandler,
+  ProviderAttempt
 } from '../types/llm.js';
 
 export * from './provider.js';
@@ -19,3 +22,5 @@ export * from './adapters/openai.js';
 export * from './adapters/groq.js';
 export * from './adapters/ollama.js';
 
+export * from './token-stream.js';
+export * from './structured-output.js';
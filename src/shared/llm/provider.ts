@@ -1,18 +1,70 @@
 /**
- * Main LLM provider with automatic fallback
+ * Main LLM provider with an ordered fallback chain.
+ * Each adapter sits behind its own circuit breaker, so a provider that keeps
+ * failing (or whose health probe fails) is skipped until its reset timeout.
  */
 
-import { LLMProviderAdapter, LLMRequest, LLMResponse, LLMConfig } from '../types/llm.js';
+import {
+  LLMProviderAdapter,
+  LLMRequest,
+  LLMResponse,
+  LLMConfig,
+  LLMStreamHandler,
+  LLMProvider as ProviderName,
+  LLMResponseFormat,
+  ProviderAttempt,
+} from '../types/llm.js';
 import { OpenAIAdapter } from './adapters/openai.js';
 import { GroqAdapter } from './adapters/groq.js';
 import { OllamaAdapter } from './adapters/ollama.js';
-import { LLMProviderError } from '../utils/errors.js';
+import { LLMProviderError, StructuredOutputError } from '../utils/errors.js';
+import { CircuitBreaker, CircuitBreakerError, CircuitState } from '../utils/circuit-breaker.js';
+import { LangfuseTracer } from '../observability/langfuse.js';
+import { getCurrentSignal, isCancellationError, throwIfCancelled } from '../cancellation/registry.js';
+import { buildRepairMessages, parseStructuredOutput, toJSONSchema, withSchemaInstruction } from './structured-output.js';
+
+export interface LLMProviderOptions {
+  fallbackChain: ProviderName[]; // Order providers are tried in; unlisted providers go last
+  failureThreshold: number; // Consecutive failures before a provider's circuit opens
+  resetTimeout: number; // ms before an open circuit probes the provider again
+  maxRepairs: number; // Repair prompts sent when structured output fails validation
+  tracer?: LangfuseTracer;
+}
+
+/**
+ * Circuit state of one provider in the chain
+ */
+export interface ProviderHealth {
+  provider: ProviderName;
+  state: CircuitState;
+  failureCount: number;
+  timeUntilResetMs: number;
+}
+
+// Health probe failed - counts toward opening the circuit, but isn't an error worth reporting
+class ProviderUnavailableError extends Error {
+  constructor(provider: string) {
+    super(`${provider} is not available`);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+type Operation = 'generate' | 'stream';
 
 export class LLMProvider {
   private adapters: LLMProviderAdapter[];
+  private breakers: Map<LLMProviderAdapter, CircuitBreaker> = new Map();
+  private options: LLMProviderOptions;
   
-  constructor(configs: LLMConfig[]) {
-    this.adapters = configs.map(config => this.createAdapter(config));
+  constructor(configs: LLMConfig[], options?: Partial<LLMProviderOptions>) {
+    this.options = {
+      fallbackChain: parseChain(process.env.LLM_FALLBACK_CHAIN),
+      failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3'),
+      resetTimeout: parseInt(process.env.LLM_CIRCUIT_RESET_MS || '30000'),
+      maxRepairs: parseInt(process.env.LLM_STRUCTURED_MAX_REPAIRS || '2'),
+      ...options,
+    };
+    this.adapters = orderByChain(configs, this.options.fallbackChain).map(config => this.createAdapter(config));
   }
   
   private createAdapter(config: LLMConfig): LLMProviderAdapter {
@@ -29,29 +81,256 @@ export class LLMProvider {
   }
   
   async generate(request: LLMRequest): Promise<LLMResponse> {
+    if (request.response_format) {
+      return this.generateStructured(request, request.response_format);
+    }
+    return this.runChain(request, 'generate', (adapter, req) => adapter.generate(req));
+  }
+  
+  /**
+   * Generate JSON matching the response format. Adapters use their native
+   * JSON mode where they have one; the output is validated either way and
+   * sent back with a repair prompt when it doesn't match.
+   */
+  private async generateStructured(request: LLMRequest, format: LLMResponseFormat): Promise<LLMResponse> {
+    const schema = toJSONSchema(format.schema);
+    let attempt: LLMRequest = {
+      ...request,
+      messages: withSchemaInstruction(request.messages, format.name, schema),
+      response_format: { ...format, schema },
+    };
+    let issues: string[] = [];
+    
+    for (let repairs = 0; repairs <= this.options.maxRepairs; repairs++) {
+      const response = await this.runChain(attempt, 'generate', (adapter, req) => adapter.generate(req));
+      const result = parseStructuredOutput(response.content, format);
+      
+      if (result.success) {
+        return {
+          ...response,
+          parsed: result.data,
+          metadata: { ...response.metadata, repairs },
+        };
+      }
+      
+      issues = result.issues;
+      console.warn(`[LLMProvider] ${format.name} output from ${response.provider} failed validation:`, issues.join('; '));
+      attempt = { ...attempt, messages: [...attempt.messages, ...buildRepairMessages(response.content, issues)] };
+    }
+    
+    throw new StructuredOutputError(format.name, issues, { repairs: this.options.maxRepairs });
+  }
+  
+  /**
+   * Generate with incremental output. Adapters without streaming deliver
+   * the full response as one chunk. Falls back to the next provider only
+   * until the first chunk was delivered.
+   */
+  async generateStream(request: LLMRequest, onChunk: LLMStreamHandler): Promise<LLMResponse> {
+    let streamed = false;
+    const handler: LLMStreamHandler = (chunk) => {
+      streamed = true;
+      onChunk(chunk);
+    };
+    
+    return this.runChain(
+      request,
+      'stream',
+      async (adapter, req) => {
+        if (!adapter.generateStream) {
+          const response = await adapter.generate(req);
+          handler(response.content);
+          return response;
+        }
+        return adapter.generateStream(req, handler);
+      },
+      // Part of the answer already went out - another provider would repeat it
+      () => !streamed
+    );
+  }
+  
+  /**
+   * Circuit state of every provider, in fallback order
+   */
+  getProviderHealth(): ProviderHealth[] {
+    return this.adapters.map(adapter => {
+      const breaker = this.getBreaker(adapter);
+      return {
+        provider: adapter.name,
+        state: breaker.getState(),
+        failureCount: breaker.getFailureCount(),
+        timeUntilResetMs: breaker.getTimeUntilReset(),
+      };
+    });
+  }
+  
+  /**
+   * Try each provider in order until one answers
+   */
+  private async runChain(
+    request: LLMRequest,
+    operation: Operation,
+    call: (adapter: LLMProviderAdapter, request: LLMRequest) => Promise<LLMResponse>,
+    canFallBack: () => boolean = () => true
+  ): Promise<LLMResponse> {
     const errors: Error[] = [];
+    const attempts: ProviderAttempt[] = [];
+    
+    // Pick up the ambient cancellation signal if the caller didn't pass one
+    const signal = request.signal ?? getCurrentSignal();
+    if (signal && !request.signal) {
+      request = { ...request, signal };
+    }
     
     for (const adapter of this.adapters) {
+      throwIfCancelled(signal);
+      
+      const startTime = Date.now();
+      const record = (outcome: ProviderAttempt['outcome'], error?: string) => {
+        attempts.push({
+          provider: adapter.name,
+          outcome,
+          latency_ms: Date.now() - startTime,
+          ...(error && { error }),
+        });
+      };
+      
       try {
-        const available = await adapter.isAvailable();
-        if (!available) {
+        const response = await this.getBreaker(adapter).execute(async () => {
+          if (!(await adapter.isAvailable())) {
+            throw new ProviderUnavailableError(adapter.name);
+          }
+          console.log(`[LLMProvider] Using ${adapter.name} provider`);
+          return call(adapter, request);
+        });
+        
+        record('success');
+        const served: LLMResponse = {
+          ...response,
+          metadata: { ...response.metadata, served_by: adapter.name, attempts },
+        };
+        this.trace(operation, request, served);
+        return served;
+      } catch (error: any) {
+        // A cancelled request must not fall through to the next provider
+        if (signal?.aborted || isCancellationError(error)) {
+          console.log(`[LLMProvider] ${adapter.name} request cancelled`);
+          throwIfCancelled(signal);
+          throw error;
+        }
+        
+        if (error instanceof CircuitBreakerError) {
+          console.log(`[LLMProvider] ${adapter.name} circuit is open, skipping...`);
+          record('circuit_open');
+          continue;
+        }
+        
+        if (error instanceof ProviderUnavailableError) {
           console.log(`[LLMProvider] ${adapter.name} is not available, skipping...`);
+          record('unavailable');
           continue;
         }
         
-        console.log(`[LLMProvider] Using ${adapter.name} provider`);
-        return await adapter.generate(request);
-      } catch (error: any) {
         console.error(`[LLMProvider] ${adapter.name} failed:`, error.message);
+        record('failed', error.message);
         errors.push(error);
+        
+        if (!canFallBack()) {
+          this.traceFailure(operation, request, attempts);
+          throw new LLMProviderError(adapter.name, `Stream interrupted: ${error.message}`, { attempts });
+        }
       }
     }
     
+    this.traceFailure(operation, request, attempts);
     throw new LLMProviderError(
       'all',
       `All LLM providers failed. Errors: ${errors.map(e => e.message).join(', ')}`,
-      { errors: errors.map(e => e.message) }
+      { errors: errors.map(e => e.message), attempts }
     );
   }
+  
+  private getBreaker(adapter: LLMProviderAdapter): CircuitBreaker {
+    let breaker = this.breakers.get(adapter);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: this.options.failureThreshold,
+        resetTimeout: this.options.resetTimeout,
+        // Cancelled requests say nothing about the provider's health
+        isFailure: (error) => !isCancellationError(error),
+        onOpen: () => console.warn(`⚡ [LLMProvider] ${adapter.name} circuit opened, skipping for ${this.options.resetTimeout}ms`),
+        onHalfOpen: () => console.log(`🔌 [LLMProvider] Probing ${adapter.name} again`),
+        onClose: () => console.log(`✅ [LLMProvider] ${adapter.name} circuit closed`),
+      });
+      this.breakers.set(adapter, breaker);
+    }
+    return breaker;
+  }
+  
+  /**
+   * Record which provider served a call
+   */
+  private trace(operation: Operation, request: LLMRequest, response: LLMResponse): void {
+    const tracer = this.options.tracer;
+    if (!tracer) return;
+    
+    try {
+      const metadata = {
+        served_by: response.metadata.served_by,
+        attempts: response.metadata.attempts,
+      };
+      const trace = tracer.startTrace(`llm.${operation}`, { messages: request.messages }, metadata);
+      tracer.trackGeneration(trace, `${response.provider}.${operation}`, {
+        model: response.model,
+        prompt: formatPrompt(request),
+        completion: response.content,
+        ...(response.usage && {
+          usage: {
+            input: response.usage.prompt_tokens,
+            output: response.usage.completion_tokens,
+            total: response.usage.total_tokens,
+          },
+        }),
+        metadata,
+      });
+      tracer.endTrace(trace, { provider: response.provider, model: response.model });
+    } catch (error: any) {
+      console.warn('[LLMProvider] Failed to trace generation:', error.message);
+    }
+  }
+  
+  private traceFailure(operation: Operation, request: LLMRequest, attempts: ProviderAttempt[]): void {
+    const tracer = this.options.tracer;
+    if (!tracer) return;
+    
+    try {
+      const trace = tracer.startTrace(`llm.${operation}`, { messages: request.messages }, { served_by: null, attempts });
+      tracer.endTrace(trace, { error: 'All LLM providers failed' });
+    } catch (error: any) {
+      console.warn('[LLMProvider] Failed to trace generation:', error.message);
+    }
+  }
 }
 
+function parseChain(value: string | undefined): ProviderName[] {
+  if (!value) return [];
+  return value.split(',').map(v => v.trim()).filter(v => v.length > 0) as ProviderName[];
+}
+
+/**
+ * Order configs by the fallback chain, keeping config order for the rest
+ */
+function orderByChain(configs: LLMConfig[], chain: ProviderName[]): LLMConfig[] {
+  const rank = (config: LLMConfig) => {
+    const index = chain.indexOf(config.provider);
+    return index === -1 ? chain.length : index;
+  };
+  return configs
+    .map((config, index) => ({ config, index }))
+    .sort((a, b) => rank(a.config) - rank(b.config) || a.index - b.index)
+    .map(entry => entry.config);
+}
+
+function formatPrompt(request: LLMRequest): string {
+  return request.messages.map(m => `${m.role}: ${m.content}`).join('\n\n');
+}
@@ -0,0 +1,128 @@
+/**
+ * Structured Output
+ * Schema handling for LLM calls that must return JSON: converting zod schemas,
+ * pulling JSON out of replies, validating it and prompting for repairs
+ */
+
+import { z, ZodType } from 'zod';
+import { LLMMessage, LLMResponseFormat } from '../types/llm.js';
+import { JSONSchema, formatJSONSchemaIssues, validateJSONSchema } from '../validation/json-schema.js';
+
+export type StructuredOutputResult<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+export function isZodSchema(schema: unknown): schema is ZodType {
+  return typeof (schema as ZodType)?.safeParse === 'function';
+}
+
+/**
+ * JSON Schema for a response format (what adapters pass to native JSON modes)
+ */
+export function toJSONSchema(schema: JSONSchema | ZodType): JSONSchema {
+  if (!isZodSchema(schema)) {
+    return schema;
+  }
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { unrepresentable: 'any' }) as JSONSchema;
+  return jsonSchema;
+}
+
+/**
+ * Parse JSON from an LLM reply, tolerating code fences and prose around it
+ */
+export function extractJSON(content: string): any {
+  const trimmed = content.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall through to the lenient forms
+  }
+
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  if (fenced?.[1]) {
+    try {
+      return JSON.parse(fenced[1]);
+    } catch {
+      // Fall through
+    }
+  }
+
+  // Outermost object or array, whichever starts first
+  const objectStart = trimmed.indexOf('{');
+  const arrayStart = trimmed.indexOf('[');
+  const candidates = [
+    { start: objectStart, end: trimmed.lastIndexOf('}') },
+    { start: arrayStart, end: trimmed.lastIndexOf(']') },
+  ]
+    .filter(c => c.start >= 0 && c.end > c.start)
+    .sort((a, b) => a.start - b.start);
+
+  for (const { start, end } of candidates) {
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error('Could not extract valid JSON from response');
+}
+
+/**
+ * Extract and validate structured output against its schema
+ */
+export function parseStructuredOutput<T = unknown>(content: string, format: LLMResponseFormat): StructuredOutputResult<T> {
+  let value: unknown;
+  try {
+    value = extractJSON(content);
+  } catch (error: any) {
+    return { success: false, issues: [error.message] };
+  }
+
+  if (isZodSchema(format.schema)) {
+    const result = format.schema.safeParse(value);
+    if (result.success) {
+      return { success: true, data: result.data as T };
+    }
+    return {
+      success: false,
+      issues: result.error.issues.map(issue => `${['$', ...issue.path].join('.')} ${issue.message}`),
+    };
+  }
+
+  const issues = validateJSONSchema(value, format.schema);
+  if (issues.length > 0) {
+    return { success: false, issues: formatJSONSchemaIssues(issues) };
+  }
+  return { success: true, data: value as T };
+}
+
+/**
+ * Add the schema to the system prompt. Native JSON modes still need it:
+ * OpenAI's json_object mode rejects prompts that don't mention JSON.
+ */
+export function withSchemaInstruction(messages: LLMMessage[], name: string, schema: JSONSchema): LLMMessage[] {
+  const instruction = `Respond with only a JSON value for "${name}" matching this JSON Schema - no prose and no code fences:\n${JSON.stringify(schema)}`;
+
+  const systemIndex = messages.findIndex(m => m.role === 'system');
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: instruction }, ...messages];
+  }
+
+  return messages.map((message, index) =>
+    index === systemIndex ? { ...message, content: `${message.content}\n\n${instruction}` } : message
+  );
+}
+
+/**
+ * Follow-up turn asking the model to fix output that failed validation
+ */
+export function buildRepairMessages(content: string, issues: string[]): LLMMessage[] {
+  return [
+    { role: 'assistant', content },
+    {
+      role: 'user',
+      content: `That response did not match the required JSON Schema:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReturn the corrected JSON only.`,
+    },
+  ];
+}
@@ -0,0 +1,85 @@
+/**
+ * Token Stream
+ * Ambient handler for streamed summary text, so summarizers can stream their
+ * answer without a handler being threaded through the pipeline
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { FinalResponse } from '../types/agent.js';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../types/llm.js';
+import { LLMProvider } from './provider.js';
+
+/**
+ * One piece of a streamed summary (done is set on the last one, which carries the full text)
+ */
+export interface SummaryChunk {
+  requestId: string;
+  chunk: string;
+  index: number;
+  done: boolean;
+  text?: string;
+  error?: boolean;
+  timestamp: string;
+}
+
+const streamStorage = new AsyncLocalStorage<LLMStreamHandler | undefined>();
+
+/**
+ * Run an operation with the given handler as the ambient token stream.
+ * Passing undefined turns streaming off for the operation.
+ */
+export function runWithTokenStream<T>(handler: LLMStreamHandler | undefined, operation: () => Promise<T>): Promise<T> {
+  return streamStorage.run(handler, operation);
+}
+
+/**
+ * Get the ambient token stream for the current async call chain (if any)
+ */
+export function getCurrentTokenStream(): LLMStreamHandler | undefined {
+  return streamStorage.getStore();
+}
+
+/**
+ * Generate the text the user will read - streamed when a token stream is active
+ */
+export function generateStreamed(llm: Pick<LLMProvider, 'generate' | 'generateStream'>, request: LLMRequest): Promise<LLMResponse> {
+  const onChunk = getCurrentTokenStream();
+  return onChunk ? llm.generateStream(request, onChunk) : llm.generate(request);
+}
+
+/**
+ * Run a summarizer with its output published as numbered chunks.
+ * Summaries that didn't stream (templates, fallbacks) go out as one chunk.
+ */
+export async function streamSummary(
+  requestId: string,
+  publish: (chunk: SummaryChunk) => void,
+  summarize: () => Promise<FinalResponse>
+): Promise<FinalResponse> {
+  let index = 0;
+  const emit = (chunk: string, extra?: Partial<SummaryChunk>) => {
+    publish({
+      requestId,
+      chunk,
+      index: index++,
+      done: false,
+      timestamp: new Date().toISOString(),
+      ...extra,
+    });
+  };
+
+  let response: FinalResponse;
+  try {
+    response = await runWithTokenStream((chunk) => emit(chunk), summarize);
+  } catch (error) {
+    emit('', { done: true, error: true });
+    throw error;
+  }
+
+  if (index === 0 && response.message) {
+    emit(response.message);
+  }
+  emit('', { done: true, text: response.message });
+
+  return response;
+}
@@ -0,0 +1,80 @@
+/**
+ * Memory backend interfaces
+ * What MemoryManager needs from an episodic store and a semantic (vector) store, and which ones to use
+ */
+
+import {
+  EpisodicBackendType,
+  EpisodicEvent,
+  EpisodicQuery,
+  MemoryBackendConfig,
+  MongoEpisodicConfig,
+  SemanticBackendType,
+  SemanticQuery,
+  SemanticResult,
+} from '../types/memory.js';
+
+/**
+ * Episodic memory: events with their relationships, queried by type and time
+ * (Neo4jMemory, MongoEpisodicMemory)
+ */
+export interface EpisodicMemoryBackend {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  isConnected(): boolean;
+  storeEvent(event: EpisodicEvent): Promise<void>;
+  queryEvents(query: EpisodicQuery): Promise<EpisodicEvent[]>;
+  getEvent(id: string): Promise<EpisodicEvent | null>;
+  deleteEvent(id: string): Promise<void>;
+  deleteEvents(ids: string[]): Promise<void>;
+}
+
+/**
+ * Semantic memory: text stored with its embedding, searched by similarity
+ * (PineconeMemory, LocalVectorMemory)
+ */
+export interface SemanticMemoryBackend {
+  connect(): Promise<void>;
+  close(): Promise<void>;
+  isConnected(): boolean;
+  store(text: string, metadata: Record<string, any>, id?: string): Promise<string>;
+  search(query: SemanticQuery): Promise<SemanticResult[]>;
+  get(id: string): Promise<SemanticResult | null>;
+  delete(id: string): Promise<void>;
+  deleteMany(ids: string[]): Promise<void>;
+  findIds(filter: Record<string, any>, limit: number): Promise<string[]>; // Records whose metadata matches, in no particular order
+  getStats(): Promise<any>;
+}
+
+const EPISODIC_BACKENDS: EpisodicBackendType[] = ['neo4j', 'mongodb'];
+const SEMANTIC_BACKENDS: SemanticBackendType[] = ['pinecone', 'local'];
+
+/**
+ * Load backend choices from environment. MEMORY_BACKEND=local picks the
+ * MongoDB episodic store and the local vector store together.
+ */
+export function loadMemoryBackendConfig(): MemoryBackendConfig {
+  const allLocal = process.env.MEMORY_BACKEND === 'local';
+  const episodic = process.env.MEMORY_EPISODIC_BACKEND || (allLocal ? 'mongodb' : 'neo4j');
+  const semantic = process.env.MEMORY_SEMANTIC_BACKEND || (allLocal ? 'local' : 'pinecone');
+  
+  if (!EPISODIC_BACKENDS.includes(episodic as EpisodicBackendType)) {
+    throw new Error(`Unknown episodic memory backend: ${episodic} (use ${EPISODIC_BACKENDS.join(' or ')})`);
+  }
+  if (!SEMANTIC_BACKENDS.includes(semantic as SemanticBackendType)) {
+    throw new Error(`Unknown semantic memory backend: ${semantic} (use ${SEMANTIC_BACKENDS.join(' or ')})`);
+  }
+  
+  const mongodb: MongoEpisodicConfig = {};
+  if (process.env.MEMORY_MONGODB_URI) mongodb.uri = process.env.MEMORY_MONGODB_URI;
+  if (process.env.MEMORY_MONGODB_COLLECTION) mongodb.collection = process.env.MEMORY_MONGODB_COLLECTION;
+  
+  return {
+    episodic_backend: episodic as EpisodicBackendType,
+    semantic_backend: semantic as SemanticBackendType,
+    mongodb,
+    local: {
+      path: process.env.MEMORY_VECTOR_STORE_PATH || './data/memory-vectors.json',
+    },
+  };
+}
@@ -1,6 +1,6 @@
 /**
  * Embedding service abstraction
- * Supports multiple embedding providers (Ollama, OpenAI)
+ * Supports multiple embedding providers (Ollama, OpenAI, local hashing)
  */
 
 import axios from 'axios';
@@ -98,6 +98,52 @@ export class OpenAIEmbeddingService implements EmbeddingService {
   }
 }
 
+/**
+ * Hashing embedding service
+ * Hashes words and word pairs into a fixed-size vector. No model or service is
+ * needed, so it works offline; similarity is lexical rather than semantic.
+ */
+export class HashingEmbeddingService implements EmbeddingService {
+  private config: EmbeddingConfig;
+  
+  constructor(config: EmbeddingConfig) {
+    this.config = config;
+  }
+  
+  async generate(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.config.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+    
+    for (const feature of features) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign, so unrelated features tend to cancel out
+      vector[hash % vector.length]! += hash & 0x80000000 ? -1 : 1;
+    }
+    
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+  
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+  
+  getProvider(): EmbeddingProvider {
+    return 'hash';
+  }
+}
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 /**
  * Create embedding service based on configuration
  */
@@ -107,6 +153,8 @@ export function createEmbeddingService(config: EmbeddingConfig): EmbeddingServic
       return new OllamaEmbeddingService(config);
     case 'openai':
       return new OpenAIEmbeddingService(config);
+    case 'hash':
+      return new HashingEmbeddingService(config);
     default:
       throw new Error(`Unknown embedding provider: ${config.provider}`);
   }
@@ -124,6 +172,14 @@ export function loadEmbeddingConfig(): EmbeddingConfig {
     provider = 'openai';
   }
   
+  if (provider === 'hash') {
+    return {
+      provider: 'hash',
+      model: 'hashing',
+      dimensions: parseInt(process.env.MEMORY_EMBEDDING_DIMENSIONS || '512'),
+    };
+  }
+  
   if (provider === 'ollama') {
     return {
       provider: 'ollama',
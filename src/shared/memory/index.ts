@@ -2,8 +2,12 @@
  * Barrel export for memory system
  */
 
+export * from './backends.js';
 export * from './neo4j.js';
+export * from './mongo.js';
 export * from './pinecone.js';
+export * from './local-vector.js';
 export * from './manager.js';
 export * from './embeddings.js';
+export * from './retention.js';
 
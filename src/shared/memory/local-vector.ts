@@ -0,0 +1,330 @@
+/**
+ * Local Semantic Memory Implementation
+ * An embedded vector store with cosine search, persisted to a JSON file, for running without Pinecone
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LocalVectorConfig, SemanticQuery, SemanticResult } from '../types/memory.js';
+import { MemoryError } from '../utils/errors.js';
+import { EmbeddingService } from './embeddings.js';
+import { SemanticMemoryBackend } from './backends.js';
+
+interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata: Record<string, any>;
+}
+
+interface VectorFile {
+  version: 1;
+  records: VectorRecord[];
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when their lengths differ (embeddings
+ * from another model) or either is all zeros
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// A field matches a value when it equals it, or, for list fields, contains it
+function fieldEquals(field: any, value: any): boolean {
+  return Array.isArray(field) ? field.includes(value) : field === value;
+}
+
+function matchesCondition(field: any, condition: any): boolean {
+  if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) {
+    return fieldEquals(field, condition);
+  }
+
+  return Object.entries(condition).every(([operator, value]: [string, any]) => {
+    switch (operator) {
+      case '$eq': return fieldEquals(field, value);
+      case '$ne': return !fieldEquals(field, value);
+      case '$in': return (value as any[]).some(v => fieldEquals(field, v));
+      case '$nin': return !(value as any[]).some(v => fieldEquals(field, v));
+      case '$gt': return field > value;
+      case '$gte': return field >= value;
+      case '$lt': return field < value;
+      case '$lte': return field <= value;
+      case '$exists': return (field !== undefined) === value;
+      default: throw new Error(`Unsupported filter operator: ${operator}`);
+    }
+  });
+}
+
+/**
+ * Whether metadata matches a Pinecone-style filter: field values or
+ * $eq/$ne/$in/$nin/$gt/$gte/$lt/$lte/$exists conditions, combined with $and/$or
+ */
+export function matchesMetadataFilter(metadata: Record<string, any>, filter: Record<string, any>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') return (condition as any[]).every(f => matchesMetadataFilter(metadata, f));
+    if (key === '$or') return (condition as any[]).some(f => matchesMetadataFilter(metadata, f));
+    return matchesCondition(metadata[key], condition);
+  });
+}
+
+export class LocalVectorMemory implements SemanticMemoryBackend {
+  private records: Map<string, VectorRecord> | null = null;
+  private embeddingService: EmbeddingService;
+  private config: LocalVectorConfig;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param config - Where to persist the vectors (in memory only without a path)
+   * @param embeddingService - Service for generating embeddings
+   */
+  constructor(config: LocalVectorConfig, embeddingService: EmbeddingService) {
+    this.config = config;
+    this.embeddingService = embeddingService;
+  }
+
+  /**
+   * Load the stored vectors (none yet when the file doesn't exist)
+   */
+  async connect(): Promise<void> {
+    if (this.records) {
+      return;
+    }
+
+    const records = new Map<string, VectorRecord>();
+    if (this.config.path) {
+      try {
+        const file: VectorFile = JSON.parse(await fs.readFile(this.config.path, 'utf8'));
+        for (const record of file.records) {
+          records.set(record.id, record);
+        }
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw new MemoryError(
+            'connect',
+            `Failed to load vector store: ${error.message}`,
+            { path: this.config.path, error: error.message }
+          );
+        }
+      }
+    }
+    this.records = records;
+  }
+
+  /**
+   * Wait for pending writes, then drop the in-memory copy
+   */
+  async close(): Promise<void> {
+    await this.writing;
+    this.records = null;
+  }
+
+  /**
+   * Store a semantic record with vector embedding
+   */
+  async store(
+    text: string,
+    metadata: Record<string, any>,
+    id?: string
+  ): Promise<string> {
+    this.ensureConnected();
+
+    try {
+      const embedding = await this.generateEmbedding(text);
+      const recordId = id || this.generateId();
+
+      this.records!.set(recordId, {
+        id: recordId,
+        values: embedding,
+        metadata: {
+          text,
+          ...metadata,
+          timestamp: new Date().toISOString(),
+        },
+      });
+      await this.persist();
+
+      return recordId;
+    } catch (error: any) {
+      throw new MemoryError(
+        'store',
+        `Failed to store semantic record: ${error.message}`,
+        { text: text.substring(0, 100), error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Search for the records most similar to the query, best first
+   */
+  async search(query: SemanticQuery): Promise<SemanticResult[]> {
+    this.ensureConnected();
+
+    try {
+      const queryEmbedding = await this.generateEmbedding(query.query);
+
+      return Array.from(this.records!.values())
+        .filter(record => !query.filter || matchesMetadataFilter(record.metadata, query.filter))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(queryEmbedding, record.values),
+          text: record.metadata.text || '',
+          metadata: record.metadata,
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.floor(query.top_k || 5));
+    } catch (error: any) {
+      throw new MemoryError(
+        'search',
+        `Failed to search semantic records: ${error.message}`,
+        { query: query.query, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Get a semantic record by ID
+   */
+  async get(id: string): Promise<SemanticResult | null> {
+    this.ensureConnected();
+
+    const record = this.records!.get(id);
+    if (!record) {
+      return null;
+    }
+
+    return {
+      id: record.id,
+      score: 1.0, // Full match
+      text: record.metadata.text || '',
+      metadata: record.metadata,
+    };
+  }
+
+  /**
+   * Delete a semantic record
+   */
+  async delete(id: string): Promise<void> {
+    return this.deleteMany([id]);
+  }
+
+  /**
+   * Delete multiple semantic records
+   */
+  async deleteMany(ids: string[]): Promise<void> {
+    this.ensureConnected();
+
+    try {
+      for (const id of ids) {
+        this.records!.delete(id);
+      }
+      await this.persist();
+    } catch (error: any) {
+      throw new MemoryError(
+        'deleteMany',
+        `Failed to delete semantic records: ${error.message}`,
+        { count: ids.length, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Find the ids of records whose metadata matches a filter
+   */
+  async findIds(filter: Record<string, any>, limit: number): Promise<string[]> {
+    this.ensureConnected();
+
+    return Array.from(this.records!.values())
+      .filter(record => matchesMetadataFilter(record.metadata, filter))
+      .slice(0, Math.floor(limit))
+      .map(record => record.id);
+  }
+
+  /**
+   * Check if connected
+   */
+  isConnected(): boolean {
+    return this.records !== null;
+  }
+
+  /**
+   * Get store stats, shaped like Pinecone's index stats
+   */
+  async getStats(): Promise<any> {
+    this.ensureConnected();
+
+    return {
+      dimension: this.embeddingService.getDimensions(),
+      totalRecordCount: this.records!.size,
+      path: this.config.path ?? null,
+    };
+  }
+
+  /**
+   * Write every record to the file. Writes go one at a time, through a temporary
+   * file, so a crash mid-write leaves the previous copy intact.
+   */
+  private async persist(): Promise<void> {
+    const filePath = this.config.path;
+    if (!filePath) {
+      return;
+    }
+
+    const file: VectorFile = { version: 1, records: Array.from(this.records!.values()) };
+    const write = this.writing.catch(() => {}).then(async () => {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      const tmp = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify(file));
+      await fs.rename(tmp, filePath);
+    });
+    this.writing = write;
+    await write;
+  }
+
+  /**
+   * Generate embedding for text using configured embedding service
+   */
+  private async generateEmbedding(text: string): Promise<number[]> {
+    try {
+      return await this.embeddingService.generate(text);
+    } catch (error: any) {
+      throw new MemoryError(
+        'embedding',
+        `Failed to generate embedding: ${error.message}`,
+        { text: text.substring(0, 50), error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Generate a unique ID
+   */
+  private generateId(): string {
+    return `sem_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  /**
+   * Ensure the store is loaded
+   */
+  private ensureConnected(): void {
+    if (!this.isConnected()) {
+      throw new MemoryError(
+        'connection',
+        'Vector store not loaded. Call connect() first.',
+        {}
+      );
+    }
+  }
+}
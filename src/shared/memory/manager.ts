@@ -1,54 +1,130 @@
 /**
  * Memory Manager
- * Unified interface for both episodic (Neo4j) and semantic (Pinecone) memory
+ * Unified interface for episodic (Neo4j or MongoDB) and semantic (Pinecone or local) memory
  */
 
 import { Neo4jMemory } from './neo4j.js';
 import { PineconeMemory } from './pinecone.js';
-import { EpisodicEvent, EpisodicQuery, SemanticQuery, SemanticResult } from '../types/memory.js';
+import { MongoEpisodicMemory } from './mongo.js';
+import { LocalVectorMemory } from './local-vector.js';
+import { EpisodicMemoryBackend, SemanticMemoryBackend } from './backends.js';
+import {
+  EpisodicEvent,
+  EpisodicQuery,
+  EventType,
+  MemoryBackendConfig,
+  MemoryDeletionReport,
+  RetentionPolicy,
+  RetentionReport,
+  SemanticQuery,
+  SemanticResult,
+} from '../types/memory.js';
+import { getCurrentUser } from '../auth/identity.js';
+import { digestId, summarizeEpisodes } from './retention.js';
+import { Neo4jConfig, PineconeConfig } from '../types/common.js';
 import { MemoryError } from '../utils/errors.js';
 import { createEmbeddingService, loadEmbeddingConfig, EmbeddingService } from './embeddings.js';
 
-export interface MemoryManagerConfig {
-  neo4j: {
-    uri: string;
-    user: string;
-    password: string;
-  };
-  pinecone: {
-    api_key: string;
-    environment: string;
-    index_name: string;
-  };
+export interface MemoryManagerConfig extends MemoryBackendConfig {
+  neo4j?: Neo4jConfig; // Required for the neo4j backend
+  pinecone?: PineconeConfig; // Required for the pinecone backend
   autoConnect?: boolean;
 }
 
+function createEpisodicBackend(config: MemoryManagerConfig): EpisodicMemoryBackend {
+  const backend = config.episodic_backend || 'neo4j';
+  switch (backend) {
+    case 'neo4j':
+      if (!config.neo4j) {
+        throw new MemoryError('config', 'Neo4j configuration is required for the neo4j episodic backend', { backend });
+      }
+      return new Neo4jMemory(config.neo4j);
+    case 'mongodb':
+      return new MongoEpisodicMemory(config.mongodb);
+    default:
+      throw new MemoryError('config', `Unknown episodic memory backend: ${backend}`, { backend });
+  }
+}
+
+function createSemanticBackend(config: MemoryManagerConfig, embeddingService: EmbeddingService): SemanticMemoryBackend {
+  const backend = config.semantic_backend || 'pinecone';
+  switch (backend) {
+    case 'pinecone':
+      if (!config.pinecone) {
+        throw new MemoryError('config', 'Pinecone configuration is required for the pinecone semantic backend', { backend });
+      }
+      return new PineconeMemory(config.pinecone, embeddingService);
+    case 'local':
+      return new LocalVectorMemory(config.local || {}, embeddingService);
+    default:
+      throw new MemoryError('config', `Unknown semantic memory backend: ${backend}`, { backend });
+  }
+}
+
+// Records looked up and removed per round by retention and forget operations
+const PURGE_BATCH_SIZE = 500;
+
+// Semantic record type stored alongside each episodic event type
+const SEMANTIC_TYPES: Partial<Record<EventType, string>> = { request: 'summary', insight: 'insight' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Fetch and remove records in rounds until none are left. Stops when a
+ * round only finds records already removed, so a store that's slow to
+ * reflect deletes can't loop forever.
+ */
+async function drain(
+  find: () => Promise<string[]>,
+  remove: (ids: string[]) => Promise<void>,
+  removed: Set<string> = new Set()
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (;;) {
+    const found = (await find()).filter(id => !removed.has(id));
+    if (found.length === 0) {
+      return ids;
+    }
+    await remove(found);
+    for (const id of found) {
+      removed.add(id);
+      ids.push(id);
+    }
+  }
+}
+
+// The signed-in user memory is being recorded for, if any
+function currentUserId(): string | undefined {
+  const user = getCurrentUser();
+  return user && user.method !== 'anonymous' ? user.id : undefined;
+}
+
 export class MemoryManager {
-  private neo4j: Neo4jMemory;
-  private pinecone: PineconeMemory;
+  private episodic: EpisodicMemoryBackend;
+  private semantic: SemanticMemoryBackend;
   private connected: boolean = false;
   
   /**
-   * @param config - Memory system configuration
-   * @param mockNeo4j - Optional mock Neo4j instance for testing
-   * @param mockPinecone - Optional mock Pinecone instance for testing
+   * @param config - Memory system configuration (backends default to Neo4j and Pinecone)
+   * @param episodicBackend - Optional episodic backend, used instead of the configured one (e.g. a mock for testing)
+   * @param semanticBackend - Optional semantic backend, used instead of the configured one (e.g. a mock for testing)
    * @param embeddingService - Optional embedding service (created from config if not provided)
    */
   constructor(
     config: MemoryManagerConfig,
-    mockNeo4j?: Neo4jMemory,
-    mockPinecone?: PineconeMemory,
+    episodicBackend?: EpisodicMemoryBackend,
+    semanticBackend?: SemanticMemoryBackend,
     embeddingService?: EmbeddingService
   ) {
-    this.neo4j = mockNeo4j || new Neo4jMemory(config.neo4j);
+    this.episodic = episodicBackend || createEpisodicBackend(config);
     
     // Create embedding service if not provided
-    if (!embeddingService && !mockPinecone) {
+    if (!embeddingService && !semanticBackend) {
       const embeddingConfig = loadEmbeddingConfig();
       embeddingService = createEmbeddingService(embeddingConfig);
     }
     
-    this.pinecone = mockPinecone || new PineconeMemory(config.pinecone, embeddingService!);
+    this.semantic = semanticBackend || createSemanticBackend(config, embeddingService!);
     
     if (config.autoConnect) {
       this.connect().catch(error => {
@@ -63,8 +139,8 @@ export class MemoryManager {
   async connect(): Promise<void> {
     try {
       await Promise.all([
-        this.neo4j.connect(),
-        this.pinecone.connect(),
+        this.episodic.connect(),
+        this.semantic.connect(),
       ]);
       this.connected = true;
     } catch (error: any) {
@@ -81,8 +157,8 @@ export class MemoryManager {
    */
   async close(): Promise<void> {
     await Promise.all([
-      this.neo4j.close(),
-      this.pinecone.close(),
+      this.episodic.close(),
+      this.semantic.close(),
     ]);
     this.connected = false;
   }
@@ -91,71 +167,73 @@ export class MemoryManager {
    * Check if connected
    */
   isConnected(): boolean {
-    return this.connected && this.neo4j.isConnected() && this.pinecone.isConnected();
+    return this.connected && this.episodic.isConnected() && this.semantic.isConnected();
   }
   
   // ===== Episodic Memory Methods =====
   
   /**
-   * Store an episodic event
+   * Store an episodic event, recorded for the signed-in user when there is one
    */
   async storeEpisodic(event: EpisodicEvent): Promise<void> {
-    return this.neo4j.storeEvent(event);
+    const userId = event.user_id ?? currentUserId();
+    return this.episodic.storeEvent(userId ? { ...event, user_id: userId } : event);
   }
   
   /**
    * Query episodic events
    */
   async queryEpisodic(query: EpisodicQuery): Promise<EpisodicEvent[]> {
-    return this.neo4j.queryEvents(query);
+    return this.episodic.queryEvents(query);
   }
   
   /**
    * Get episodic event by ID
    */
   async getEpisodicEvent(id: string): Promise<EpisodicEvent | null> {
-    return this.neo4j.getEvent(id);
+    return this.episodic.getEvent(id);
   }
   
   /**
    * Delete episodic event
    */
   async deleteEpisodicEvent(id: string): Promise<void> {
-    return this.neo4j.deleteEvent(id);
+    return this.episodic.deleteEvent(id);
   }
   
   // ===== Semantic Memory Methods =====
   
   /**
-   * Store semantic memory with text and metadata
+   * Store semantic memory with text and metadata, recorded for the signed-in user when there is one
    */
   async storeSemantic(
     text: string,
     metadata: Record<string, any>,
     id?: string
   ): Promise<string> {
-    return this.pinecone.store(text, metadata, id);
+    const userId = metadata.user_id ?? currentUserId();
+    return this.semantic.store(text, userId ? { ...metadata, user_id: userId } : metadata, id);
   }
   
   /**
    * Search semantic memory
    */
   async querySemantic(query: SemanticQuery): Promise<SemanticResult[]> {
-    return this.pinecone.search(query);
+    return this.semantic.search(query);
   }
   
   /**
    * Get semantic record by ID
    */
   async getSemanticRecord(id: string): Promise<SemanticResult | null> {
-    return this.pinecone.get(id);
+    return this.semantic.get(id);
   }
   
   /**
    * Delete semantic record
    */
   async deleteSemanticRecord(id: string): Promise<void> {
-    return this.pinecone.delete(id);
+    return this.semantic.delete(id);
   }
   
   // ===== Combined Operations =====
@@ -300,6 +378,146 @@ export class MemoryManager {
     return insightId;
   }
   
+  // ===== Retention and Right to Forget =====
+  
+  /**
+   * Remove episodic events older than their type's max age, compacting them
+   * into per-day digests first where the policy says so. Semantic records
+   * stored with the events go with them.
+   */
+  async applyRetention(policy: RetentionPolicy, now: Date = new Date()): Promise<RetentionReport> {
+    const report: RetentionReport = { ran_at: now.toISOString(), expired: {}, digests: 0, semantic_deleted: 0 };
+    const removed = new Set<string>();
+    
+    for (const [type, rule] of Object.entries(policy) as Array<[EventType, NonNullable<RetentionPolicy[EventType]>]>) {
+      const cutoff = new Date(now.getTime() - rule.max_age_days * DAY_MS).toISOString();
+      const digests = new Set<string>();
+      
+      const expired = await drain(
+        async () => (await this.episodic.queryEvents({ type, date_to: cutoff, limit: PURGE_BATCH_SIZE })).map(event => event.id),
+        async ids => {
+          if (rule.compact && type !== 'digest') {
+            for (const id of await this.compact(type, ids)) digests.add(id);
+          }
+          await this.episodic.deleteEvents(ids);
+          report.semantic_deleted += (await this.deleteSemanticFor(ids, SEMANTIC_TYPES[type])).length;
+        },
+        removed
+      );
+      
+      if (expired.length > 0) {
+        report.expired[type] = expired.length;
+      }
+      report.digests += digests.size;
+    }
+    
+    return report;
+  }
+  
+  /**
+   * Remove everything stored for a user: events and semantic records recorded
+   * for them, and the semantic records stored with those events
+   */
+  async forgetUser(userId: string): Promise<MemoryDeletionReport> {
+    return this.forget({ type: 'user', id: userId }, { user_id: userId }, { user_id: userId });
+  }
+  
+  /**
+   * Remove everything about an entity (a shipment, facility or producer id, say):
+   * events whose data holds the id anywhere, semantic records listing it among
+   * their entities, and the semantic records stored with those events
+   */
+  async forgetEntity(entityId: string): Promise<MemoryDeletionReport> {
+    return this.forget({ type: 'entity', id: entityId }, { mentions: entityId }, { entities: { $in: [entityId] } });
+  }
+  
+  private async forget(
+    subject: MemoryDeletionReport['subject'],
+    episodicQuery: EpisodicQuery,
+    semanticFilter: Record<string, any>
+  ): Promise<MemoryDeletionReport> {
+    const startedAt = new Date().toISOString();
+    const byType: Partial<Record<EventType, number>> = {};
+    const semanticRemoved = new Set<string>();
+    
+    const eventIds = await drain(
+      async () => {
+        const events = await this.episodic.queryEvents({ ...episodicQuery, limit: PURGE_BATCH_SIZE });
+        for (const event of events) byType[event.type] = (byType[event.type] ?? 0) + 1;
+        return events.map(event => event.id);
+      },
+      async ids => {
+        await this.episodic.deleteEvents(ids);
+        await this.deleteSemanticFor(ids, undefined, semanticRemoved);
+      }
+    );
+    
+    await drain(
+      () => this.semantic.findIds(semanticFilter, PURGE_BATCH_SIZE),
+      ids => this.semantic.deleteMany(ids),
+      semanticRemoved
+    );
+    
+    return {
+      subject,
+      episodic: { deleted: eventIds.length, by_type: byType, ids: eventIds },
+      semantic: { deleted: semanticRemoved.size, ids: Array.from(semanticRemoved) },
+      started_at: startedAt,
+      completed_at: new Date().toISOString(),
+    };
+  }
+  
+  /**
+   * Write the given events into their days' digests
+   */
+  private async compact(type: EventType, ids: string[]): Promise<string[]> {
+    const events = (await Promise.all(ids.map(id => this.episodic.getEvent(id)))).filter(
+      (event): event is EpisodicEvent => event !== null
+    );
+    
+    const byDay = new Map<string, EpisodicEvent[]>();
+    for (const event of events) {
+      const day = event.timestamp.slice(0, 10);
+      byDay.set(day, [...(byDay.get(day) ?? []), event]);
+    }
+    
+    const digestIds: string[] = [];
+    for (const [day, dayEvents] of byDay) {
+      const digest = summarizeEpisodes(type, day, dayEvents, await this.episodic.getEvent(digestId(type, day)));
+      await this.episodic.storeEvent(digest);
+      digestIds.push(digest.id);
+    }
+    return digestIds;
+  }
+  
+  /**
+   * Remove the semantic records stored with episodic events: sem_<event id>
+   * (storeRequestMemory, storeInsight) and records whose requestId is one of
+   * the events, optionally only of one type. Returns the ids removed.
+   */
+  private async deleteSemanticFor(
+    eventIds: string[],
+    semanticType?: string,
+    removed: Set<string> = new Set()
+  ): Promise<string[]> {
+    if (eventIds.length === 0) {
+      return [];
+    }
+    
+    const derived = (
+      await Promise.all(eventIds.map(async id => ((await this.semantic.get(`sem_${id}`)) ? `sem_${id}` : null)))
+    ).filter((id): id is string => id !== null && !removed.has(id));
+    if (derived.length > 0) {
+      await this.semantic.deleteMany(derived);
+      for (const id of derived) removed.add(id);
+    }
+    
+    const filter = { requestId: { $in: eventIds }, ...(semanticType ? { type: semanticType } : {}) };
+    const linked = await drain(() => this.semantic.findIds(filter, PURGE_BATCH_SIZE), ids => this.semantic.deleteMany(ids), removed);
+    
+    return [...derived, ...linked];
+  }
+  
   /**
    * Get memory statistics
    */
@@ -308,12 +526,12 @@ export class MemoryManager {
     semantic: any;
   }> {
     const [semanticStats] = await Promise.all([
-      this.pinecone.getStats().catch(() => null),
+      this.semantic.getStats().catch(() => null),
     ]);
     
     return {
       episodic: {
-        connected: this.neo4j.isConnected(),
+        connected: this.episodic.isConnected(),
       },
       semantic: semanticStats,
     };
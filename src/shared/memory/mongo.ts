@@ -0,0 +1,270 @@
+/**
+ * MongoDB Episodic Memory Implementation
+ * Stores events and their relationships in a collection, for running without Neo4j
+ */
+
+import mongoose, { Model, Schema } from 'mongoose';
+import { EpisodicEvent, EpisodicQuery, EventRelationships, MongoEpisodicConfig } from '../types/memory.js';
+import { MemoryError } from '../utils/errors.js';
+import { EpisodicMemoryBackend } from './backends.js';
+
+const DEFAULT_COLLECTION = 'memory_events';
+
+const RELATIONSHIP_TYPES = ['caused_by', 'led_to', 'relates_to'] as const;
+
+const memoryEventSchema = new Schema(
+  {
+    id: { type: String, required: true, unique: true },
+    type: { type: String, required: true, index: true },
+    timestamp: { type: Date, required: true, index: true },
+    data: { type: String }, // JSON, as in Neo4j, so entity ids can be found anywhere in it
+    user_id: { type: String, index: true },
+    caused_by: { type: [String], default: undefined },
+    led_to: { type: [String], default: undefined },
+    relates_to: { type: [String], default: undefined },
+  },
+  { versionKey: false }
+);
+
+// One model per collection, so several stores can share a connection
+function eventModel(collection: string): Model<any> {
+  const name = `MemoryEvent_${collection}`;
+  return mongoose.models[name] ?? mongoose.model(name, memoryEventSchema, collection);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function toEvent(doc: any): EpisodicEvent {
+  const event: EpisodicEvent = {
+    id: doc.id,
+    type: doc.type,
+    timestamp: new Date(doc.timestamp).toISOString(),
+    data: doc.data === undefined ? undefined : JSON.parse(doc.data),
+    ...(doc.user_id ? { user_id: doc.user_id } : {}),
+  };
+
+  const relationships: EventRelationships = {};
+  for (const type of RELATIONSHIP_TYPES) {
+    if (doc[type]?.length > 0) relationships[type] = doc[type];
+  }
+  if (Object.keys(relationships).length > 0) {
+    event.relationships = relationships;
+  }
+
+  return event;
+}
+
+export class MongoEpisodicMemory implements EpisodicMemoryBackend {
+  private model: Model<any> | null = null;
+  private config: MongoEpisodicConfig;
+
+  /**
+   * @param config - Connection URI and collection name
+   * @param mockModel - Optional mock model for testing (dependency injection)
+   */
+  constructor(config: MongoEpisodicConfig = {}, mockModel?: any) {
+    this.config = config;
+    if (mockModel) {
+      this.model = mockModel;
+    }
+  }
+
+  /**
+   * Connect to MongoDB, reusing Mongoose's connection when it's already open
+   */
+  async connect(): Promise<void> {
+    // Skip if mock model already injected
+    if (this.model) {
+      return;
+    }
+
+    try {
+      if (mongoose.connection.readyState !== 1) {
+        await mongoose.connect(
+          this.config.uri || process.env.MONGODB_LOCAL_URI || 'mongodb://localhost:27017/wasteer'
+        );
+      }
+      this.model = eventModel(this.config.collection || DEFAULT_COLLECTION);
+    } catch (error: any) {
+      throw new MemoryError(
+        'connect',
+        `Failed to connect to MongoDB: ${error.message}`,
+        { collection: this.config.collection || DEFAULT_COLLECTION, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Stop using the collection. The Mongoose connection is shared, so it stays open.
+   */
+  async close(): Promise<void> {
+    this.model = null;
+  }
+
+  /**
+   * Store an episodic event (storing an id again replaces the event)
+   */
+  async storeEvent(event: EpisodicEvent): Promise<void> {
+    this.ensureConnected();
+
+    try {
+      await this.model!.updateOne(
+        { id: event.id },
+        {
+          $set: {
+            type: event.type,
+            timestamp: new Date(event.timestamp),
+            data: JSON.stringify(event.data),
+            ...(event.user_id ? { user_id: event.user_id } : {}),
+            ...event.relationships,
+          },
+        },
+        { upsert: true }
+      );
+    } catch (error: any) {
+      throw new MemoryError(
+        'storeEvent',
+        `Failed to store event: ${error.message}`,
+        { eventId: event.id, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Query episodic events, newest first
+   */
+  async queryEvents(query: EpisodicQuery): Promise<EpisodicEvent[]> {
+    this.ensureConnected();
+
+    try {
+      const filter: Record<string, any> = {};
+
+      if (query.type) {
+        filter.type = query.type;
+      }
+
+      if (query.date_from || query.date_to) {
+        filter.timestamp = {};
+        if (query.date_from) filter.timestamp.$gte = new Date(query.date_from);
+        if (query.date_to) filter.timestamp.$lte = new Date(query.date_to);
+      }
+
+      if (query.entity_ids && query.entity_ids.length > 0) {
+        filter.id = { $in: query.entity_ids };
+      }
+
+      if (query.user_id) {
+        filter.user_id = query.user_id;
+      }
+
+      // data is stored as JSON, so an exact string value appears quoted
+      if (query.mentions) {
+        filter.data = { $regex: escapeRegExp(JSON.stringify(query.mentions)) };
+      }
+
+      if (query.relationship_type) {
+        filter[query.relationship_type] = { $exists: true, $ne: [] };
+      }
+
+      const docs = await this.model!
+        .find(filter)
+        .sort({ timestamp: -1 })
+        .limit(Math.floor(query.limit || 10))
+        .lean();
+
+      return docs.map(toEvent);
+    } catch (error: any) {
+      throw new MemoryError(
+        'queryEvents',
+        `Failed to query events: ${error.message}`,
+        { query, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Get event by ID
+   */
+  async getEvent(id: string): Promise<EpisodicEvent | null> {
+    this.ensureConnected();
+
+    try {
+      const doc = await this.model!.findOne({ id }).lean();
+      return doc ? toEvent(doc) : null;
+    } catch (error: any) {
+      throw new MemoryError(
+        'getEvent',
+        `Failed to get event: ${error.message}`,
+        { id, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Delete an event, along with other events' relationships to it
+   */
+  async deleteEvent(id: string): Promise<void> {
+    this.ensureConnected();
+
+    try {
+      await this.model!.deleteOne({ id });
+      await this.model!.updateMany(
+        { $or: RELATIONSHIP_TYPES.map(type => ({ [type]: id })) },
+        { $pull: Object.fromEntries(RELATIONSHIP_TYPES.map(type => [type, id])) }
+      );
+    } catch (error: any) {
+      throw new MemoryError(
+        'deleteEvent',
+        `Failed to delete event: ${error.message}`,
+        { id, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Delete several events at once, along with other events' relationships to them
+   */
+  async deleteEvents(ids: string[]): Promise<void> {
+    this.ensureConnected();
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      await this.model!.deleteMany({ id: { $in: ids } });
+      await this.model!.updateMany(
+        { $or: RELATIONSHIP_TYPES.map(type => ({ [type]: { $in: ids } })) },
+        { $pull: Object.fromEntries(RELATIONSHIP_TYPES.map(type => [type, { $in: ids }])) }
+      );
+    } catch (error: any) {
+      throw new MemoryError(
+        'deleteEvents',
+        `Failed to delete events: ${error.message}`,
+        { count: ids.length, error: error.message }
+      );
+    }
+  }
+
+  /**
+   * Check if connected
+   */
+  isConnected(): boolean {
+    return this.model !== null;
+  }
+
+  /**
+   * Ensure connection is established
+   */
+  private ensureConnected(): void {
+    if (!this.model) {
+      throw new MemoryError(
+        'connection',
+        'Not connected to MongoDB. Call connect() first.',
+        {}
+      );
+    }
+  }
+}
@@ -7,8 +7,9 @@ import neo4j, { Driver, Session, auth } from 'neo4j-driver';
 import { EpisodicEvent, EpisodicQuery } from '../types/memory.js';
 import { Neo4jConfig } from '../types/common.js';
 import { MemoryError } from '../utils/errors.js';
+import { EpisodicMemoryBackend } from './backends.js';
 
-export class Neo4jMemory {
+export class Neo4jMemory implements EpisodicMemoryBackend {
   private driver: Driver | null = null;
   private config: Neo4jConfig;
   
@@ -75,7 +76,8 @@ export class Neo4jMemory {
           id: $id,
           type: $type,
           timestamp: datetime($timestamp),
-          data: $data
+          data: $data,
+          user_id: $user_id
         })
         `,
         {
@@ -83,6 +85,7 @@ export class Neo4jMemory {
           type: event.type,
           timestamp: event.timestamp,
           data: JSON.stringify(event.data),
+          user_id: event.user_id ?? null,
         }
       );
       
@@ -171,6 +174,17 @@ export class Neo4jMemory {
         params.entity_ids = query.entity_ids;
       }
       
+      if (query.user_id) {
+        conditions.push('e.user_id = $user_id');
+        params.user_id = query.user_id;
+      }
+      
+      // data is stored as JSON, so an exact string value appears quoted
+      if (query.mentions) {
+        conditions.push('e.data CONTAINS $mentions');
+        params.mentions = JSON.stringify(query.mentions);
+      }
+      
       const whereClause = conditions.length > 0 
         ? `WHERE ${conditions.join(' AND ')}` 
         : '';
@@ -190,15 +204,7 @@ export class Neo4jMemory {
       );
       
       // Parse results
-      const events: EpisodicEvent[] = result.records.map(record => {
-        const node = record.get('e').properties;
-        return {
-          id: node.id,
-          type: node.type,
-          timestamp: node.timestamp.toString(),
-          data: JSON.parse(node.data),
-        };
-      });
+      const events: EpisodicEvent[] = result.records.map(record => this.toEvent(record.get('e').properties));
       
       // Fetch relationships for each event
       for (const event of events) {
@@ -241,13 +247,7 @@ export class Neo4jMemory {
         return null;
       }
       
-      const node = result.records[0]!.get('e').properties;
-      const event: EpisodicEvent = {
-        id: node.id,
-        type: node.type,
-        timestamp: node.timestamp.toString(),
-        data: JSON.parse(node.data),
-      };
+      const event = this.toEvent(result.records[0]!.get('e').properties);
       
       // Get relationships
       const relationships = await this.getEventRelationships(session, id);
@@ -267,6 +267,19 @@ export class Neo4jMemory {
     }
   }
   
+  /**
+   * Convert an Event node's properties to an event
+   */
+  private toEvent(node: any): EpisodicEvent {
+    return {
+      id: node.id,
+      type: node.type,
+      timestamp: node.timestamp.toString(),
+      data: JSON.parse(node.data),
+      ...(node.user_id ? { user_id: node.user_id } : {}),
+    };
+  }
+  
   /**
    * Get relationships for an event
    */
@@ -337,6 +350,38 @@ export class Neo4jMemory {
     }
   }
   
+  /**
+   * Delete several events at once
+   */
+  async deleteEvents(ids: string[]): Promise<void> {
+    this.ensureConnected();
+    
+    if (ids.length === 0) {
+      return;
+    }
+    
+    const session: Session = this.driver!.session();
+    
+    try {
+      await session.run(
+        `
+        MATCH (e:Event)
+        WHERE e.id IN $ids
+        DETACH DELETE e
+        `,
+        { ids }
+      );
+    } catch (error: any) {
+      throw new MemoryError(
+        'deleteEvents',
+        `Failed to delete events: ${error.message}`,
+        { count: ids.length, error: error.message }
+      );
+    } finally {
+      await session.close();
+    }
+  }
+  
   /**
    * Check if connected
    */
@@ -7,9 +7,10 @@ import { Pinecone, Index, RecordMetadata } from '@pinecone-database/pinecone';
 import { SemanticQuery, SemanticResult } from '../types/memory.js';
 import { PineconeConfig } from '../types/common.js';
 import { MemoryError } from '../utils/errors.js';
+import { SemanticMemoryBackend } from './backends.js';
 import { EmbeddingService } from './embeddings.js';
 
-export class PineconeMemory {
+export class PineconeMemory implements SemanticMemoryBackend {
   private pinecone: Pinecone | null = null;
   private embeddingService: EmbeddingService;
   private index: Index<RecordMetadata> | null = null;
@@ -219,6 +220,35 @@ export class PineconeMemory {
     }
   }
   
+  /**
+   * Find the ids of records whose metadata matches a filter. Pinecone only
+   * finds records by similarity, so this queries with a fixed vector and a
+   * topK large enough for the batch; call again after deleting for more.
+   */
+  async findIds(filter: Record<string, any>, limit: number): Promise<string[]> {
+    this.ensureConnected();
+    
+    try {
+      const vector = new Array<number>(this.embeddingService.getDimensions()).fill(0);
+      vector[0] = 1; // Pinecone rejects all-zero vectors
+      
+      const results = await this.index!.query({
+        vector,
+        topK: Math.min(Math.floor(limit), 10000),
+        filter,
+        includeMetadata: false,
+      });
+      
+      return (results.matches || []).map(match => match.id);
+    } catch (error: any) {
+      throw new MemoryError(
+        'findIds',
+        `Failed to find semantic records: ${error.message}`,
+        { filter, error: error.message }
+      );
+    }
+  }
+  
   /**
    * Generate embedding for text using configured embedding service
    */
@@ -0,0 +1,175 @@
+/**
+ * Memory retention
+ * Retention policy from environment, digests of compacted events, and the background job that applies the policy
+ */
+
+import { EpisodicEvent, EventType, RetentionPolicy, RetentionReport } from '../types/memory.js';
+import { getMemoryEnvConfig } from '../utils/env.js';
+import type { MemoryManager } from './manager.js';
+
+export interface MemoryRetentionOptions {
+  enabled: boolean;
+  intervalMs: number;
+  policy: RetentionPolicy;
+}
+
+const RETAINED_TYPES: EventType[] = ['request', 'tool_call', 'insight', 'error', 'digest'];
+
+// The request wording for tool calls
+const TYPE_ALIASES: Record<string, EventType> = { tool_execution: 'tool_call' };
+
+function parseEventType(value: string): EventType {
+  const type = TYPE_ALIASES[value] ?? value;
+  if (!RETAINED_TYPES.includes(type as EventType)) {
+    throw new Error(`Unknown memory type in retention settings: ${value} (use ${RETAINED_TYPES.join(', ')})`);
+  }
+  return type as EventType;
+}
+
+/**
+ * Build the retention policy. Every type but digests is kept MEMORY_MAX_AGE_DAYS
+ * unless MEMORY_RETENTION_DAYS ("request:90,tool_call:30,...") says otherwise;
+ * 0 days keeps a type forever. Types in MEMORY_RETENTION_COMPACT are compacted
+ * into digests when they expire rather than just removed.
+ */
+export function loadRetentionPolicy(): RetentionPolicy {
+  const maxAgeDays = getMemoryEnvConfig().cleanup.maxAgeDays;
+  const days = new Map<EventType, number>(
+    (['request', 'tool_call', 'insight', 'error'] as EventType[]).map(type => [type, maxAgeDays])
+  );
+
+  for (const entry of (process.env.MEMORY_RETENTION_DAYS || '').split(',').filter(e => e.trim())) {
+    const [type, value] = entry.split(':').map(part => part.trim());
+    const parsed = Number(value);
+    if (!type || !Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`Invalid MEMORY_RETENTION_DAYS entry: ${entry} (use <type>:<days>)`);
+    }
+    days.set(parseEventType(type), parsed);
+  }
+
+  const compact = new Set(
+    (process.env.MEMORY_RETENTION_COMPACT ?? 'request,tool_call')
+      .split(',')
+      .map(type => type.trim())
+      .filter(Boolean)
+      .map(parseEventType)
+  );
+
+  const policy: RetentionPolicy = {};
+  for (const [type, maxAge] of days) {
+    if (maxAge > 0) {
+      policy[type] = { max_age_days: maxAge, compact: type !== 'digest' && compact.has(type) };
+    }
+  }
+  return policy;
+}
+
+export function getMemoryRetentionOptions(): MemoryRetentionOptions {
+  const cleanup = getMemoryEnvConfig().cleanup;
+  return {
+    enabled: cleanup.enabled,
+    intervalMs: cleanup.intervalHours * 60 * 60 * 1000,
+    policy: loadRetentionPolicy(),
+  };
+}
+
+/**
+ * Id of the digest holding one day's compacted events of a type
+ */
+export function digestId(type: EventType, day: string): string {
+  return `digest_${type}_${day}`;
+}
+
+function increment(counts: Record<string, number>, key: string | undefined): void {
+  if (key) counts[key] = (counts[key] ?? 0) + 1;
+}
+
+// Tools an event used, wherever its type keeps them
+function toolsOf(event: EpisodicEvent): string[] {
+  const data = event.data ?? {};
+  return [
+    data.tool,
+    ...(Array.isArray(data.toolResults) ? data.toolResults.map((r: any) => r?.tool) : []),
+    ...(Array.isArray(data.plan?.steps) ? data.plan.steps.map((s: any) => s?.tool) : []),
+  ].filter((tool): tool is string => typeof tool === 'string');
+}
+
+/**
+ * Summarize one day's events of a type into a digest, adding to an earlier
+ * digest for the same day. Digests keep counts, tool and error tallies and
+ * entity ids, but no query text, results or user ids.
+ */
+export function summarizeEpisodes(
+  type: EventType,
+  day: string,
+  events: EpisodicEvent[],
+  previous?: EpisodicEvent | null
+): EpisodicEvent {
+  const data = {
+    event_type: type,
+    day,
+    count: 0,
+    first_at: null as string | null,
+    last_at: null as string | null,
+    tools: {} as Record<string, number>,
+    errors: {} as Record<string, number>,
+    entities: [] as string[],
+    ...previous?.data,
+  };
+  const entities = new Set<string>(data.entities);
+
+  for (const event of events) {
+    data.count++;
+    if (!data.first_at || event.timestamp < data.first_at) data.first_at = event.timestamp;
+    if (!data.last_at || event.timestamp > data.last_at) data.last_at = event.timestamp;
+    for (const tool of toolsOf(event)) increment(data.tools, tool);
+    if (type === 'error') increment(data.errors, event.data?.error?.phase ?? 'unknown');
+    for (const entity of event.data?.entities ?? []) {
+      if (typeof entity === 'string') entities.add(entity);
+    }
+  }
+  data.entities = Array.from(entities).sort();
+
+  return {
+    id: digestId(type, day),
+    type: 'digest',
+    timestamp: `${day}T23:59:59.999Z`,
+    data,
+  };
+}
+
+/**
+ * Apply the retention policy now and then on an interval. Returns a function that stops it.
+ */
+export function startMemoryRetention(
+  memory: Pick<MemoryManager, 'applyRetention'>,
+  options: MemoryRetentionOptions = getMemoryRetentionOptions()
+): () => void {
+  if (!options.enabled || Object.keys(options.policy).length === 0) {
+    return () => {};
+  }
+
+  let running = false;
+  const tick = async () => {
+    // Skip a tick rather than overlap a slow run
+    if (running) return;
+    running = true;
+    try {
+      const report: RetentionReport = await memory.applyRetention(options.policy);
+      const expired = Object.values(report.expired).reduce((sum, n) => sum + (n ?? 0), 0);
+      if (expired > 0) {
+        console.log(`✓ Memory retention: ${expired} events expired, ${report.digests} digests, ${report.semantic_deleted} semantic records removed`);
+      }
+    } catch (error: any) {
+      console.error('Memory retention failed:', error.message);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(tick, options.intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -250,6 +250,27 @@ export class PerformanceTracker {
     return breakdown;
   }
 
+  /**
+   * Get the average duration of a tool across all recorded steps
+   * (step names are recorded as `${tool}_${stepIndex}`)
+   */
+  getToolAverageDuration(toolName: string): number | null {
+    const prefix = `${toolName}_`;
+    let total = 0;
+    let count = 0;
+
+    for (const metric of this.metrics) {
+      for (const [stepName, duration] of Object.entries(metric.stepDurations)) {
+        if (stepName.startsWith(prefix) && /^\d+$/.test(stepName.slice(prefix.length))) {
+          total += duration;
+          count += 1;
+        }
+      }
+    }
+
+    return count > 0 ? Math.round(total / count) : null;
+  }
+
   /**
    * Clear all metrics
    */
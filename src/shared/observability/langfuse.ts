@@ -43,6 +43,7 @@ export interface GenerationData {
     output: number;
     total: number;
   };
+  metadata?: Record<string, any>;
 }
 
 /**
@@ -126,6 +127,7 @@ export class LangfuseTracer {
       input: data.prompt,
       output: data.completion,
       usage: data.usage,
+      metadata: data.metadata,
     });
     
     return generation;
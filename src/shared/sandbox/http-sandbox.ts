@@ -0,0 +1,64 @@
+/**
+ * HTTP Sandbox
+ * Records the write calls a tool would make instead of sending them (dry-run mode)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { AxiosResponse } from 'axios';
+import { DryRunRequest } from '../types/agent.js';
+
+/**
+ * Ambient sandbox for the current async call chain.
+ * Tools pick it up in their HTTP helpers, like the ambient abort signal.
+ */
+const sandboxStorage = new AsyncLocalStorage<HttpSandbox>();
+
+/**
+ * Run an operation with all write calls captured by the sandbox
+ */
+export function runInSandbox<T>(sandbox: HttpSandbox, operation: () => Promise<T>): Promise<T> {
+  return sandboxStorage.run(sandbox, operation);
+}
+
+/**
+ * Get the sandbox for the current async call chain (if any)
+ */
+export function getCurrentSandbox(): HttpSandbox | undefined {
+  return sandboxStorage.getStore();
+}
+
+export class HttpSandbox {
+  private requests: DryRunRequest[] = [];
+
+  /**
+   * Record a write call and return a synthetic response shaped like the API's.
+   * Reads are never sandboxed - they don't touch production data and their
+   * results feed step references.
+   */
+  record<T = any>(method: DryRunRequest['method'], url: string, body?: any): AxiosResponse<T> {
+    const request: DryRunRequest = { method, url };
+    if (body !== undefined) {
+      request.body = body;
+    }
+    this.requests.push(request);
+
+    console.log(`🧪 [HttpSandbox] Recorded ${method} ${url} (not sent)`);
+
+    return {
+      data: {
+        success: true,
+        dryRun: true,
+        data: body ?? null,
+        message: `Dry run: ${method} ${url} was not sent`,
+      } as T,
+      status: 200,
+      statusText: 'OK (dry run)',
+      headers: {},
+      config: { headers: {} } as AxiosResponse['config'],
+    };
+  }
+
+  getRequests(): DryRunRequest[] {
+    return [...this.requests];
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Barrel export for sandbox module
+ */
+
+export * from './http-sandbox.js';
@@ -3,6 +3,8 @@
  * Core types used by Planner, Executor, Analyzer, and Summarizer agents
  */
 
+import type { AgentResponse } from '../response/builder.js';
+
 /**
  * Plan generated by Planner Agent
  */
@@ -19,6 +21,29 @@ export interface PlanStep {
   optional?: boolean | undefined; // Step can fail without stopping execution
   retry_count?: number | undefined; // Number of retries attempted
   timeout?: number | undefined; // Step timeout in milliseconds
+  requires_approval?: boolean | undefined; // Pause for human approval before running
+}
+
+/**
+ * A step that failed during execution (sent back to the planner for repair)
+ */
+export interface FailedStep {
+  step_index: number;
+  tool: string;
+  params: Record<string, any>;
+  error: ErrorDetails;
+}
+
+/**
+ * One round of adaptive replanning after failed steps
+ */
+export interface ReplanRound {
+  round: number;
+  failed_steps: FailedStep[];
+  repair_plan: Plan;
+  succeeded: number; // Repair steps that succeeded
+  failed: number; // Repair steps that failed
+  timestamp: string;
 }
 
 export interface PlanMetadata {
@@ -47,12 +72,37 @@ export interface ToolResult {
   metadata: ToolResultMetadata;
   step_index?: number | undefined; // Index of step in plan
   resolved_params?: Record<string, any> | undefined; // Parameters after reference resolution
+  dry_run?: DryRunDetails | undefined; // Set when the step was simulated
+}
+
+/**
+ * HTTP call a tool would have made (recorded instead of sent in dry-run mode)
+ */
+export interface DryRunRequest {
+  method: 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  body?: any;
+}
+
+export interface DryRunDetails {
+  requests: DryRunRequest[];
+  estimated_duration_ms: number;
 }
 
 export interface ToolResultMetadata {
   executionTime: number;
   timestamp: string;
   retries?: number;
+  pagination?: ToolPagination; // Set by list tools
+}
+
+/**
+ * Where a list tool's page sits in the full result set
+ */
+export interface ToolPagination {
+  count: number;
+  total: number;
+  next_cursor: string | null; // Pass back as cursor for the next page; null on the last page
 }
 
 export interface ErrorDetails {
@@ -118,6 +168,7 @@ export interface FinalResponse {
   tools_used: string[];
   data?: any;
   analysis?: Analysis;
+  clarification?: AgentResponse; // Set when the query needs clarification before planning
   metadata: ResponseMetadata;
 }
 
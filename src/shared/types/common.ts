@@ -4,6 +4,7 @@
  */
 
 import { LLMConfig } from './llm.js';
+import { MemoryBackendConfig } from './memory.js';
 
 /**
  * Generic result type for operations
@@ -77,7 +78,7 @@ export interface LLMSystemConfig {
   fallbacks: LLMConfig[];
 }
 
-export interface MemorySystemConfig {
+export interface MemorySystemConfig extends MemoryBackendConfig {
   neo4j: Neo4jConfig;
   pinecone: PineconeConfig;
 }
@@ -7,4 +7,5 @@ export * from './llm.js';
 export * from './memory.js';
 export * from './common.js';
 export * from './tool.js';
+export * from './mcp.js';
 
@@ -3,6 +3,9 @@
  * Types for OpenAI, Groq, and Ollama integrations
  */
 
+import type { ZodType } from 'zod';
+import type { JSONSchema } from '../validation/json-schema.js';
+
 export type LLMProvider = 'openai' | 'groq' | 'ollama';
 
 export interface LLMConfig {
@@ -19,6 +22,18 @@ export interface LLMRequest {
   messages: LLMMessage[];
   config?: Partial<LLMConfig>;
   system_prompt?: string;
+  signal?: AbortSignal; // Aborts the in-flight request when cancelled
+  response_format?: LLMResponseFormat; // Ask for JSON matching a schema
+}
+
+/**
+ * Structured output request. Zod schemas are converted to JSON Schema
+ * before they reach an adapter, so adapters only ever see JSON Schema.
+ */
+export interface LLMResponseFormat {
+  name: string;
+  schema: JSONSchema | ZodType;
+  description?: string;
 }
 
 export interface LLMMessage {
@@ -32,6 +47,7 @@ export interface LLMResponse {
   model: string;
   usage?: TokenUsage;
   metadata: LLMMetadata;
+  parsed?: unknown; // Validated output when the request had a response_format
 }
 
 export interface TokenUsage {
@@ -43,11 +59,31 @@ export interface TokenUsage {
 export interface LLMMetadata {
   latency_ms: number;
   retries: number;
+  served_by?: LLMProvider; // Provider in the fallback chain that answered
+  attempts?: ProviderAttempt[]; // Every provider tried, in order
+  repairs?: number; // Repair prompts needed before structured output validated
+}
+
+/**
+ * One provider tried for a call
+ */
+export interface ProviderAttempt {
+  provider: LLMProvider;
+  outcome: 'success' | 'failed' | 'unavailable' | 'circuit_open';
+  latency_ms: number;
+  error?: string;
 }
 
+/**
+ * Receives generated text as it arrives
+ */
+export type LLMStreamHandler = (chunk: string) => void;
+
 export interface LLMProviderAdapter {
   name: LLMProvider;
   isAvailable(): Promise<boolean>;
   generate(request: LLMRequest): Promise<LLMResponse>;
+  // Calls onChunk for each piece of text and resolves with the full response
+  generateStream?(request: LLMRequest, onChunk: LLMStreamHandler): Promise<LLMResponse>;
 }
 
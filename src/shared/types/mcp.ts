@@ -0,0 +1,70 @@
+/**
+ * MCP resource and prompt type definitions
+ * What the MCP server offers besides tools: domain records to browse, and prompts for common workflows
+ */
+
+/**
+ * A resource's contents as read
+ */
+export interface MCPResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * A resource as listed, without its contents
+ */
+export interface MCPResourceEntry {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+/**
+ * A resource at a fixed URI, e.g. wasteer://contracts/active
+ */
+export interface MCPResource extends MCPResourceEntry {
+  read(): Promise<any>; // JSON data, or null when there's nothing there
+}
+
+/**
+ * A kind of resource addressed by a URI template, e.g. wasteer://facilities/{id}
+ */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read(variables: Record<string, string>): Promise<any>; // JSON data, or null when the record doesn't exist
+  list?(): Promise<MCPResourceEntry[]>; // Resources of this kind to include in resources/list
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export type MCPPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'resource'; resource: MCPResourceContents };
+
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPPromptContent;
+}
+
+/**
+ * A prompt template for a common workflow, filled in from its arguments
+ */
+export interface MCPPrompt {
+  name: string;
+  description: string;
+  arguments: MCPPromptArgument[];
+  render(
+    args: Record<string, string>,
+    readResource: (uri: string) => Promise<MCPResourceContents>
+  ): Promise<MCPPromptMessage[]>;
+}
@@ -1,12 +1,12 @@
 /**
  * Memory system type definitions
- * Types for Episodic (Neo4j) and Semantic (Pinecone) memory
+ * Types for Episodic (Neo4j, MongoDB) and Semantic (Pinecone, local) memory
  */
 
 /**
  * Embedding configuration
  */
-export type EmbeddingProvider = 'ollama' | 'openai';
+export type EmbeddingProvider = 'ollama' | 'openai' | 'hash';
 
 export interface EmbeddingConfig {
   provider: EmbeddingProvider;
@@ -17,7 +17,29 @@ export interface EmbeddingConfig {
 }
 
 /**
- * Episodic Memory (Neo4j)
+ * Memory backends, chosen by MEMORY_EPISODIC_BACKEND and MEMORY_SEMANTIC_BACKEND
+ */
+export type EpisodicBackendType = 'neo4j' | 'mongodb';
+export type SemanticBackendType = 'pinecone' | 'local';
+
+export interface MongoEpisodicConfig {
+  uri?: string; // Connects here unless Mongoose is already connected
+  collection?: string;
+}
+
+export interface LocalVectorConfig {
+  path?: string; // JSON file the vectors persist to; kept in memory only when unset
+}
+
+export interface MemoryBackendConfig {
+  episodic_backend?: EpisodicBackendType; // Default: neo4j
+  semantic_backend?: SemanticBackendType; // Default: pinecone
+  mongodb?: MongoEpisodicConfig;
+  local?: LocalVectorConfig;
+}
+
+/**
+ * Episodic Memory
  */
 export interface EpisodicEvent {
   id: string;
@@ -25,9 +47,11 @@ export interface EpisodicEvent {
   timestamp: string;
   data: any;
   relationships?: EventRelationships;
+  user_id?: string; // The signed-in user the event was recorded for
 }
 
-export type EventType = 'request' | 'tool_call' | 'insight' | 'error';
+// digest events summarize older events removed by compaction
+export type EventType = 'request' | 'tool_call' | 'insight' | 'error' | 'digest';
 
 export interface EventRelationships {
   caused_by?: string[];
@@ -41,11 +65,13 @@ export interface EpisodicQuery {
   date_to?: string;
   entity_ids?: string[];
   relationship_type?: string;
+  user_id?: string;
+  mentions?: string; // Events whose data holds this exact string (an entity id, say)
   limit?: number;
 }
 
 /**
- * Semantic Memory (Pinecone)
+ * Semantic Memory
  */
 export interface SemanticRecord {
   id: string;
@@ -76,3 +102,31 @@ export interface SemanticResult {
   metadata: any;
 }
 
+/**
+ * Retention: how long each type of episodic event is kept, and whether
+ * expired events are compacted into digests instead of just dropped
+ */
+export interface RetentionRule {
+  max_age_days: number;
+  compact: boolean;
+}
+
+export type RetentionPolicy = Partial<Record<EventType, RetentionRule>>;
+
+export interface RetentionReport {
+  ran_at: string;
+  expired: Partial<Record<EventType, number>>; // Episodic events removed, per type
+  digests: number; // Digest events written in their place
+  semantic_deleted: number; // Semantic records removed with their events
+}
+
+/**
+ * What a right-to-forget request removed
+ */
+export interface MemoryDeletionReport {
+  subject: { type: 'user' | 'entity'; id: string };
+  episodic: { deleted: number; by_type: Partial<Record<EventType, number>>; ids: string[] };
+  semantic: { deleted: number; ids: string[] };
+  started_at: string;
+  completed_at: string;
+}
@@ -26,14 +26,23 @@ export interface ToolSchema {
   };
 }
 
-export interface ToolParam {
-  type: string;
+export interface ToolParam extends ToolValueShape {
   description: string;
   required: boolean;
   default?: any;
+}
+
+/**
+ * What a parameter (or an array item or object field within one) holds
+ */
+export interface ToolValueShape {
+  type: string;
+  description?: string;
   enum?: string[];
-  min?: number;
+  min?: number; // Minimum for numbers, length for strings, item count for arrays
   max?: number;
+  items?: ToolValueShape; // Array items
+  properties?: Record<string, ToolParam>; // Object fields
 }
 
 // Note: ToolResult is defined in agent.ts and re-exported from there
@@ -46,6 +55,7 @@ export interface ToolParam {
 export interface Shipment {
   id: string;
   facility_id: string;
+  producer_id?: string;
   date: string;
   status: ShipmentStatus;
   weight_kg: number;
@@ -30,6 +30,12 @@ export interface CircuitBreakerOptions {
    * Optional callback when circuit enters half-open state
    */
   onHalfOpen?: () => void;
+  
+  /**
+   * Decide whether an error counts toward opening the circuit
+   * @default every error counts
+   */
+  isFailure?: (error: unknown) => boolean;
 }
 
 export enum CircuitState {
@@ -49,6 +55,7 @@ export class CircuitBreaker {
   private readonly onOpen: (() => void) | undefined;
   private readonly onClose: (() => void) | undefined;
   private readonly onHalfOpen: (() => void) | undefined;
+  private readonly isFailure: (error: unknown) => boolean;
   
   constructor(options: CircuitBreakerOptions = {}) {
     this.failureThreshold = options.failureThreshold ?? 5;
@@ -56,6 +63,7 @@ export class CircuitBreaker {
     this.onOpen = options.onOpen;
     this.onClose = options.onClose;
     this.onHalfOpen = options.onHalfOpen;
+    this.isFailure = options.isFailure ?? (() => true);
   }
   
   /**
@@ -81,7 +89,9 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      if (this.isFailure(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -0,0 +1,70 @@
+/**
+ * CSV utility functions (RFC 4180: comma-separated, double-quoted fields, "" escapes a quote)
+ */
+
+/**
+ * Parse CSV text into rows of cells. Quoted cells may contain commas, quotes and line breaks.
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines aren't rows
+  return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+/**
+ * Format one CSV line, quoting cells that need it
+ */
+export function formatCSVRow(cells: Array<string | number | boolean | null | undefined>): string {
+  return cells
+    .map(cell => {
+      const value = cell === null || cell === undefined ? '' : String(cell);
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    })
+    .join(',');
+}
@@ -2,6 +2,8 @@
  * Custom error classes
  */
 
+import type { AgentResponse } from '../response/builder.js';
+
 /**
  * Base error class for Clear AI
  */
@@ -64,6 +66,20 @@ export class LLMProviderError extends ClearAIError {
   }
 }
 
+/**
+ * Structured output error (LLM output never matched the requested schema)
+ */
+export class StructuredOutputError extends ClearAIError {
+  constructor(schemaName: string, public issues: string[], details?: any) {
+    super(`LLM output did not match schema: ${schemaName}`, 'STRUCTURED_OUTPUT_ERROR', {
+      schemaName,
+      issues,
+      ...details
+    });
+    this.name = 'StructuredOutputError';
+  }
+}
+
 /**
  * Memory operation error
  */
@@ -88,6 +104,58 @@ export class ValidationError extends ClearAIError {
   }
 }
 
+/**
+ * Cancellation error (request aborted by the user)
+ */
+export class CancellationError extends ClearAIError {
+  constructor(requestId?: string, reason?: string) {
+    super(
+      requestId ? `Request ${requestId} was cancelled` : 'Request was cancelled',
+      'CANCELLED',
+      { requestId, reason: reason || 'Cancelled by user' }
+    );
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * Clarification needed (query too vague to plan)
+ */
+export class ClarificationNeededError extends ClearAIError {
+  constructor(public clarification: AgentResponse) {
+    super(clarification.content, 'CLARIFICATION_NEEDED', clarification.metadata);
+    this.name = 'ClarificationNeededError';
+  }
+}
+
+/**
+ * Authentication error (missing, unknown or expired credentials)
+ */
+export class AuthenticationError extends ClearAIError {
+  statusCode = 401;
+
+  constructor(message: string = 'Authentication required') {
+    super(message, 'UNAUTHENTICATED');
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * Permission error (the caller's role is below what the action needs)
+ */
+export class PermissionDeniedError extends ClearAIError {
+  statusCode = 403;
+
+  constructor(action: string, role: string, requiredRole: string) {
+    super(`Role ${role} may not ${action} (requires ${requiredRole})`, 'FORBIDDEN', {
+      action,
+      role,
+      requiredRole
+    });
+    this.name = 'PermissionDeniedError';
+  }
+}
+
 /**
  * Wrap unknown error into ClearAIError
  */
@@ -12,4 +12,5 @@ export * from './template.js';
 export * from './circuit-breaker.js';
 export * from './logger.js';
 export * from './statistics.js';
+export * from './csv.js';
 
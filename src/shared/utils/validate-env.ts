@@ -1,13 +1,17 @@
+import { loadMemoryBackendConfig } from '../memory/backends.js';
+
 /**
  * Validates required environment variables for production deployment
  */
 export function validateProductionEnv(): void {
+  const memoryBackends = loadMemoryBackendConfig();
   const required = [
     'OPENAI_API_KEY',
-    'NEO4J_CLOUD_URI',
-    'NEO4J_CLOUD_USERNAME',
-    'NEO4J_CLOUD_PASSWORD',
-    'PINECONE_API_KEY',
+    // Credentials for the hosted memory backends, when they're the ones in use
+    ...(memoryBackends.episodic_backend === 'neo4j'
+      ? ['NEO4J_CLOUD_URI', 'NEO4J_CLOUD_USERNAME', 'NEO4J_CLOUD_PASSWORD']
+      : []),
+    ...(memoryBackends.semantic_backend === 'pinecone' ? ['PINECONE_API_KEY'] : []),
     'MONGODB_CLOUD_URI',
   ];
 
@@ -4,3 +4,4 @@
 
 export * from './schemas.js';
 
+export * from './json-schema.js';
@@ -0,0 +1,168 @@
+/**
+ * JSON Schema validation
+ * Checks values against the JSON Schema keywords LLM output schemas use
+ * (types, properties, items, enums, bounds and combinators)
+ */
+
+export type JSONSchema = Record<string, any>;
+
+/**
+ * One problem found while validating, with the path to the offending value
+ */
+export interface JSONSchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validate a value against a schema. Returns an empty array when it matches.
+ */
+export function validateJSONSchema(value: unknown, schema: JSONSchema, path = '$'): JSONSchemaIssue[] {
+  const issues: JSONSchemaIssue[] = [];
+  const fail = (message: string) => issues.push({ path, message });
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    fail(`must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(value, option))) {
+    fail(`must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (schema.nullable === true) {
+      types.push('null');
+    }
+    if (!types.some(type => matchesType(value, type))) {
+      fail(`must be ${types.join(' or ')}, got ${typeOf(value)}`);
+      // Keywords below assume the right type
+      return issues;
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const sub of schema.allOf) {
+      issues.push(...validateJSONSchema(value, sub, path));
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some((sub: JSONSchema) => validateJSONSchema(value, sub, path).length === 0)) {
+    fail('must match at least one of the allowed schemas');
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter((sub: JSONSchema) => validateJSONSchema(value, sub, path).length === 0).length;
+    if (matches !== 1) {
+      fail(`must match exactly one of the allowed schemas (matched ${matches})`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match pattern ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items && typeof schema.items === 'object' && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => {
+        issues.push(...validateJSONSchema(item, schema.items, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required) {
+        if (value[key] === undefined) {
+          issues.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        issues.push(...validateJSONSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}.${key}`, message: 'is not an allowed property' });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        issues.push(...validateJSONSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Format issues as one line each (for error messages and repair prompts)
+ */
+export function formatJSONSchemaIssues(issues: JSONSchemaIssue[]): string[] {
+  return issues.map(issue => `${issue.path} ${issue.message}`);
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    case 'null':
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
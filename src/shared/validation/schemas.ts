@@ -48,12 +48,27 @@ export const ToolResultSchema = z.object({
 });
 
 export const InsightSchema = z.object({
-  type: z.enum(['trend', 'pattern', 'correlation', 'comparison']),
+  type: z.enum([
+    'trend',
+    'pattern',
+    'correlation',
+    'comparison',
+    'contamination_pattern',
+    'capacity_risk',
+    'data_quality',
+    'compliance_risk',
+    'operational_efficiency',
+  ]),
   description: z.string(),
   confidence: z.number().min(0).max(1),
   supporting_data: z.array(z.any()),
 });
 
+// Structured output for LLM insight generation (JSON modes need an object at the top)
+export const InsightListSchema = z.object({
+  insights: z.array(InsightSchema),
+});
+
 export const RelationshipSchema = z.object({
   type: z.string(),
   target_entity_id: z.string(),
@@ -91,6 +106,18 @@ export const AnalysisSchema = z.object({
   metadata: AnalysisMetadataSchema,
 });
 
+// Structured output for the summarizer's extraction step
+export const KeyFindingSchema = z.object({
+  finding: z.string(),
+  priority: z.enum(['critical', 'high', 'medium', 'low']),
+  entities: z.array(z.string()).optional(),
+  metrics: z.record(z.string(), z.any()).optional(),
+});
+
+export const KeyFindingsSchema = z.object({
+  findings: z.array(KeyFindingSchema),
+});
+
 export const ResponseMetadataSchema = z.object({
   request_id: z.string(),
   total_duration_ms: z.number(),
@@ -189,6 +216,19 @@ export const InspectionSchema = z.object({
   photos: z.array(z.string()).optional(),
 });
 
+export const ProducerTypeSchema = z.enum(['industrial', 'commercial', 'municipal']);
+export const ContractStatusSchema = z.enum(['active', 'expired', 'suspended']);
+export const ContractViolationTypeSchema = z.enum([
+  'no_contract',
+  'contract_suspended',
+  'contract_expired',
+  'outside_contract_period',
+  'undeclared_waste_type',
+  'weight_limit_exceeded',
+]);
+export const ContractViolationActionSchema = z.enum(['rejected', 'flagged']);
+export const DetectionMethodSchema = z.enum(['camera', 'manual', 'sensor']);
+
 /**
  * Memory Schemas
  */
@@ -17,6 +17,7 @@ export interface ExecutionError {
   message: string;
   node: string;
   state: any;
+  cause: unknown; // What the node threw
 }
 
 /**
@@ -40,12 +41,24 @@ export interface ExecutionResult<TState> {
   metadata: ExecutionMetadata;
 }
 
+/**
+ * Called after each node completes, with the node that will run next
+ * (null when the workflow is finished). Used for checkpointing.
+ */
+export type NodeCompleteHook<TState> = (
+  node: string,
+  state: TState,
+  nextNode: string | null
+) => Promise<void>;
+
 /**
  * Execution options
  */
-export interface ExecutionOptions {
+export interface ExecutionOptions<TState = any> {
   maxSteps?: number;
   timeout?: number;
+  startNode?: string; // Resume from this node instead of the entry point
+  onNodeComplete?: NodeCompleteHook<TState>;
 }
 
 /**
@@ -59,12 +72,12 @@ export class WorkflowExecutor<TState> {
   async execute(
     graph: WorkflowGraph<TState>,
     initialState: TState,
-    options?: ExecutionOptions
+    options?: ExecutionOptions<TState>
   ): Promise<ExecutionResult<TState>> {
     const startTime = new Date();
     const executedNodes: string[] = [];
     let currentState = initialState;
-    let currentNode: string | null = graph.entryPoint;
+    let currentNode: string | null = options?.startNode || graph.entryPoint;
     const maxSteps = options?.maxSteps || 100;
     
     try {
@@ -80,28 +93,13 @@ export class WorkflowExecutor<TState> {
         currentState = await node.handler(currentState);
         
         // Find next node
-        const edges = graph.edges.get(currentNode);
+        const nextNode = this.resolveNextNode(graph, currentNode, currentState);
         
-        if (!edges || edges.length === 0) {
-          // No more edges, we're done
-          currentNode = null;
-          break;
+        if (options?.onNodeComplete) {
+          await options.onNodeComplete(currentNode, currentState, nextNode);
         }
         
-        // Get next node from edges
-        const edge = edges[0];
-        
-        if (edge && edge.condition && edge.conditionMap) {
-          // Conditional edge
-          const conditionResult = edge.condition(currentState);
-          const nextNode: string | undefined = edge.conditionMap[conditionResult];
-          currentNode = nextNode || null;
-        } else if (edge) {
-          // Simple edge
-          currentNode = edge.target || null;
-        } else {
-          currentNode = null;
-        }
+        currentNode = nextNode;
       }
       
       const endTime = new Date();
@@ -131,6 +129,7 @@ export class WorkflowExecutor<TState> {
           message: error.message,
           node: executedNodes[executedNodes.length - 1] || 'unknown',
           state: currentState,
+          cause: error,
         },
         metadata: {
           executionTime: endTime.getTime() - startTime.getTime(),
@@ -141,5 +140,34 @@ export class WorkflowExecutor<TState> {
       };
     }
   }
+  
+  /**
+   * Determine the node that follows the given node (null at the end)
+   */
+  private resolveNextNode(
+    graph: WorkflowGraph<TState>,
+    currentNode: string,
+    state: TState
+  ): string | null {
+    const edges = graph.edges.get(currentNode);
+    
+    if (!edges || edges.length === 0) {
+      // No more edges, we're done
+      return null;
+    }
+    
+    // Get next node from edges
+    const edge = edges[0];
+    
+    if (edge && edge.condition && edge.conditionMap) {
+      // Conditional edge
+      const conditionResult = edge.condition(state);
+      return edge.conditionMap[conditionResult] || null;
+    } else if (edge) {
+      // Simple edge
+      return edge.target || null;
+    }
+    
+    return null;
+  }
 }
-
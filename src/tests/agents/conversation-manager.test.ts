@@ -0,0 +1,116 @@
+/**
+ * Unit tests for ConversationManager
+ */
+
+import { ConversationManager } from '../../agents/conversation-manager.js';
+import { FinalResponse, ToolResult } from '../../shared/types/agent.js';
+import { ConversationTurnContext, InMemoryConversationStore } from '../../shared/conversation/session.js';
+
+function makeResponse(requestId: string, message: string): FinalResponse {
+  return {
+    message,
+    tools_used: ['shipments_list'],
+    metadata: {
+      request_id: requestId,
+      total_duration_ms: 10,
+      timestamp: new Date().toISOString(),
+    },
+  };
+}
+
+function makeResult(data: any): ToolResult {
+  return {
+    success: true,
+    tool: 'shipments_list',
+    step_index: 0,
+    resolved_params: { has_contaminants: true },
+    data,
+    metadata: { executionTime: 5, timestamp: new Date().toISOString() },
+  };
+}
+
+describe('ConversationManager', () => {
+  let contexts: ConversationTurnContext[];
+  let orchestrator: { handleConversationTurn: jest.Mock };
+  let store: InMemoryConversationStore;
+
+  beforeEach(() => {
+    contexts = [];
+    let turn = 0;
+    orchestrator = {
+      handleConversationTurn: jest.fn(async (_query: string, context: ConversationTurnContext) => {
+        contexts.push(context);
+        turn++;
+        const shipments = Array.from({ length: 5 }, (_, i) => ({ id: `S${i}`, facility_id: `F${i % 2}` }));
+        return {
+          response: makeResponse(`req-${turn}`, `Found ${shipments.length} shipments`),
+          results: [makeResult(shipments)],
+        };
+      }),
+    };
+    store = new InMemoryConversationStore();
+  });
+
+  it('should start and persist a conversation', async () => {
+    const manager = new ConversationManager(orchestrator, store);
+
+    const conversation = await manager.startConversation('user-1', 'Contaminants');
+
+    expect(conversation.userId).toBe('user-1');
+    expect(conversation.title).toBe('Contaminants');
+    expect(await manager.getConversation(conversation.conversationId)).toEqual(conversation);
+  });
+
+  it('should pass the previous query and results to follow-up turns', async () => {
+    const manager = new ConversationManager(orchestrator, store);
+    const { conversationId } = await manager.startConversation();
+
+    await manager.sendMessage(conversationId, 'Show shipments with contaminants');
+    const reply = await manager.sendMessage(conversationId, 'Only the ones from facility F1');
+
+    expect(reply.intent.intent).toBe('followup');
+    expect(contexts[0]!.previousQuery).toBeUndefined();
+    expect(contexts[1]!.previousQuery).toBe('Show shipments with contaminants');
+    expect(contexts[1]!.previousResults![0]!.params).toEqual({ has_contaminants: true });
+    expect(contexts[1]!.history).toHaveLength(2);
+
+    expect(reply.conversation.turns).toHaveLength(2);
+    expect(reply.conversation.messages).toHaveLength(4);
+    expect(reply.conversation.turns[1]!.requestId).toBe('req-2');
+  });
+
+  it('should trim array results kept for follow-ups', async () => {
+    const manager = new ConversationManager(orchestrator, store, undefined, { maxResultItems: 2 });
+    const { conversationId } = await manager.startConversation();
+
+    const reply = await manager.sendMessage(conversationId, 'Show shipments with contaminants');
+
+    const snapshot = reply.conversation.turns[0]!.results[0]!;
+    expect(snapshot.totalItems).toBe(5);
+    expect(snapshot.data).toHaveLength(2);
+  });
+
+  it('should compress history that exceeds the token budget', async () => {
+    const manager = new ConversationManager(orchestrator, store, undefined, { tokenBudget: 20 });
+    const { conversationId } = await manager.startConversation();
+
+    await manager.sendMessage(conversationId, 'Show all shipments with contaminants detected this week at every facility');
+    await manager.sendMessage(conversationId, 'Which of those were rejected?');
+    await manager.sendMessage(conversationId, 'Only the ones from facility F1');
+
+    const last = contexts[2]!;
+    expect(last.compressed).toBe(true);
+    expect(last.history.length).toBeLessThan(4);
+
+    // Persisted history is never compressed
+    const conversation = await manager.getConversation(conversationId);
+    expect(conversation!.messages).toHaveLength(6);
+  });
+
+  it('should throw for an unknown conversation', async () => {
+    const manager = new ConversationManager(orchestrator, store);
+
+    await expect(manager.sendMessage('missing', 'hello')).rejects.toThrow('Conversation not found: missing');
+    expect(orchestrator.handleConversationTurn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for ApprovalGate and its use by ExecutorAgent
+ */
+
+import { ApprovalGate, ApprovalRequest, InMemoryApprovalAuditStore } from '../../../agents/executor/approval-gate.js';
+import { ApprovalPolicy } from '../../../agents/executor/approval-policy.js';
+import { ExecutorAgent } from '../../../agents/executor.js';
+import { CancellationError, PermissionDeniedError } from '../../../shared/utils/errors.js';
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('ApprovalGate', () => {
+  let gate: ApprovalGate;
+  let auditStore: InMemoryApprovalAuditStore;
+  let requested: ApprovalRequest[];
+
+  beforeEach(() => {
+    requested = [];
+    auditStore = new InMemoryApprovalAuditStore();
+    gate = new ApprovalGate({
+      policy: new ApprovalPolicy({ categories: ['delete', 'update'], tools: [], exemptTools: [] }),
+      auditStore,
+      timeoutMs: 5000,
+      onApprovalRequired: (request) => requested.push(request),
+    });
+  });
+
+  it('should pause until the step is approved', async () => {
+    const pending = gate.requestApproval('req_1', 2, { tool: 'shipments_delete', params: { id: 'S1' } });
+    await flush();
+
+    expect(requested).toHaveLength(1);
+    expect(requested[0]).toMatchObject({ requestId: 'req_1', stepIndex: 2, category: 'delete' });
+    expect(gate.getPending('req_1')).toHaveLength(1);
+
+    await gate.approve('req_1', 2, 'alice', 'Verified duplicate');
+    const decision = await pending;
+
+    expect(decision.approved).toBe(true);
+    expect(decision.actor).toBe('alice');
+    expect(gate.getPending('req_1')).toHaveLength(0);
+  });
+
+  it('should record every decision in the audit trail', async () => {
+    const first = gate.requestApproval('req_1', 0, { tool: 'shipments_delete', params: {} });
+    const second = gate.requestApproval('req_1', 1, { tool: 'facilities_update', params: {} });
+    await flush();
+
+    await gate.approve('req_1', 0, 'alice');
+    await gate.reject('req_1', 1, 'bob', 'Wrong facility');
+    await Promise.all([first, second]);
+
+    const trail = await gate.getAuditTrail('req_1');
+    expect(trail).toHaveLength(2);
+    expect(trail[0]).toMatchObject({ stepIndex: 0, decision: 'approved', actor: 'alice' });
+    expect(trail[1]).toMatchObject({ stepIndex: 1, decision: 'rejected', actor: 'bob', decisionReason: 'Wrong facility' });
+  });
+
+  it('should time out undecided approvals', async () => {
+    const shortGate = new ApprovalGate({ auditStore, timeoutMs: 10 });
+
+    const decision = await shortGate.requestApproval('req_1', 0, { tool: 'shipments_delete', params: {} });
+
+    expect(decision.approved).toBe(false);
+    expect(decision.decision).toBe('timed_out');
+    expect((await auditStore.listByRequest('req_1'))[0]!.actor).toBe('system');
+  });
+
+  it('should stop waiting when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const pending = gate.requestApproval('req_1', 0, { tool: 'shipments_delete', params: {} }, controller.signal);
+    await flush();
+
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CancellationError);
+    expect(gate.getPending()).toHaveLength(0);
+  });
+
+  it('should only let roles allowed to run the step decide on it', async () => {
+    const deletion = gate.requestApproval('req_1', 0, { tool: 'shipments_delete', params: {} });
+    const update = gate.requestApproval('req_1', 1, { tool: 'facilities_update', params: {} });
+    await flush();
+
+    await expect(gate.approve('req_1', 0, 'vic', undefined, 'viewer')).rejects.toThrow(PermissionDeniedError);
+    await expect(gate.approve('req_1', 0, 'olga', undefined, 'operator')).rejects.toThrow('(requires admin)');
+    await expect(gate.reject('req_1', 1, 'ines', undefined, 'inspector')).rejects.toThrow('(requires operator)');
+    expect(gate.getPending('req_1')).toHaveLength(2);
+
+    await gate.approve('req_1', 0, 'ada', undefined, 'admin');
+    await gate.reject('req_1', 1, 'olga', undefined, 'operator');
+
+    expect(await deletion).toMatchObject({ approved: true, actor: 'ada', actorRole: 'admin' });
+    expect(await update).toMatchObject({ approved: false, actor: 'olga', actorRole: 'operator' });
+    const trail = await gate.getAuditTrail('req_1');
+    expect(trail.map(entry => entry.actorRole)).toEqual(['admin', 'operator']);
+  });
+
+  it('should reject decisions for steps that are not pending', async () => {
+    await expect(gate.approve('req_1', 0, 'alice')).rejects.toThrow('No pending approval');
+  });
+});
+
+describe('ExecutorAgent with approval gate', () => {
+  const toolResult = (tool: string) => ({
+    success: true,
+    tool,
+    data: { ok: true },
+    metadata: { executionTime: 1, timestamp: new Date().toISOString() },
+  });
+
+  let tools: Record<string, { execute: jest.Mock }>;
+  let registry: any;
+  let gate: ApprovalGate;
+  let requested: ApprovalRequest[];
+
+  beforeEach(() => {
+    tools = {
+      shipments_list: { execute: jest.fn().mockResolvedValue(toolResult('shipments_list')) },
+      shipments_delete: { execute: jest.fn().mockResolvedValue(toolResult('shipments_delete')) },
+    };
+    registry = {
+      getToolInstance: (name: string) => tools[name],
+      getToolSchema: () => undefined,
+      validateParameters: () => ({ valid: true, errors: [] }),
+    };
+    requested = [];
+    gate = new ApprovalGate({
+      policy: new ApprovalPolicy({ categories: ['delete'], tools: [], exemptTools: [] }),
+      timeoutMs: 5000,
+      onApprovalRequired: (request) => requested.push(request),
+    });
+  });
+
+  const plan = {
+    steps: [
+      { tool: 'shipments_list', params: {} },
+      { tool: 'shipments_delete', params: { id: 'S1' }, depends_on: [0] },
+    ],
+  };
+
+  it('should run a gated step only after approval', async () => {
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 }, gate);
+
+    const execution = executor.execute(plan, undefined, { requestId: 'req_1' });
+    while (requested.length === 0) {
+      await flush();
+    }
+
+    expect(tools.shipments_list!.execute).toHaveBeenCalled();
+    expect(tools.shipments_delete!.execute).not.toHaveBeenCalled();
+
+    await gate.approve('req_1', 1, 'alice');
+    const results = await execution;
+
+    expect(tools.shipments_delete!.execute).toHaveBeenCalledWith({ id: 'S1' });
+    expect(results.every(r => r.success)).toBe(true);
+  });
+
+  it('should skip a rejected step and report it as failed', async () => {
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 }, gate);
+
+    const execution = executor.execute(plan, undefined, { requestId: 'req_1' });
+    while (requested.length === 0) {
+      await flush();
+    }
+
+    await gate.reject('req_1', 1, 'bob', 'Not a duplicate');
+    const results = await execution;
+
+    expect(tools.shipments_delete!.execute).not.toHaveBeenCalled();
+    expect(results[1]!.success).toBe(false);
+    expect(results[1]!.error?.code).toBe('APPROVAL_REJECTED');
+    expect(results[1]!.error?.message).toContain('Not a duplicate');
+  });
+
+  it('should run every step without a gate', async () => {
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 });
+
+    const results = await executor.execute(plan);
+
+    expect(tools.shipments_delete!.execute).toHaveBeenCalled();
+    expect(results).toHaveLength(2);
+  });
+});
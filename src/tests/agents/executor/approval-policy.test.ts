@@ -0,0 +1,74 @@
+/**
+ * Unit tests for ApprovalPolicy
+ */
+
+import { ApprovalPolicy } from '../../../agents/executor/approval-policy.js';
+
+describe('ApprovalPolicy', () => {
+  describe('getCategory', () => {
+    const policy = new ApprovalPolicy({ categories: [] });
+
+    it('should categorize tools by name suffix', () => {
+      expect(policy.getCategory('shipments_delete')).toBe('delete');
+      expect(policy.getCategory('contracts_update')).toBe('update');
+      expect(policy.getCategory('facilities_create')).toBe('create');
+      expect(policy.getCategory('shipments_list')).toBe('read');
+      expect(policy.getCategory('analytics_risk_trends')).toBe('read');
+    });
+
+    it('should treat database_reset as destructive', () => {
+      expect(policy.getCategory('database_reset')).toBe('delete');
+    });
+  });
+
+  describe('requiresApproval', () => {
+    it('should gate configured categories', () => {
+      const policy = new ApprovalPolicy({ categories: ['delete', 'update'], tools: [], exemptTools: [] });
+
+      expect(policy.requiresApproval({ tool: 'shipments_delete', params: {} })).toBe(true);
+      expect(policy.requiresApproval({ tool: 'facilities_update', params: {} })).toBe(true);
+      expect(policy.requiresApproval({ tool: 'facilities_create', params: {} })).toBe(false);
+      expect(policy.requiresApproval({ tool: 'shipments_list', params: {} })).toBe(false);
+    });
+
+    it('should gate individually listed tools', () => {
+      const policy = new ApprovalPolicy({ categories: [], tools: ['contracts_create'], exemptTools: [] });
+
+      expect(policy.requiresApproval({ tool: 'contracts_create', params: {} })).toBe(true);
+      expect(policy.requiresApproval({ tool: 'shipments_create', params: {} })).toBe(false);
+    });
+
+    it('should never gate exempt tools', () => {
+      const policy = new ApprovalPolicy({
+        categories: ['update'],
+        tools: [],
+        exemptTools: ['shipment_loads_update'],
+      });
+
+      expect(policy.requiresApproval({ tool: 'shipment_loads_update', params: {} })).toBe(false);
+    });
+
+    it('should respect steps already marked by the planner', () => {
+      const policy = new ApprovalPolicy({ categories: [], tools: [], exemptTools: [] });
+
+      expect(policy.requiresApproval({ tool: 'shipments_list', params: {}, requires_approval: true })).toBe(true);
+    });
+  });
+
+  describe('applyToPlan', () => {
+    it('should mark only gated steps', () => {
+      const policy = new ApprovalPolicy({ categories: ['delete'], tools: [], exemptTools: [] });
+
+      const plan = policy.applyToPlan({
+        steps: [
+          { tool: 'shipments_list', params: {} },
+          { tool: 'shipments_delete', params: { id: 'S1' }, depends_on: [0] },
+        ],
+      });
+
+      expect(plan.steps[0]!.requires_approval).toBeUndefined();
+      expect(plan.steps[1]!.requires_approval).toBe(true);
+      expect(plan.steps[1]!.depends_on).toEqual([0]);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Unit tests for ExecutorAgent dry-run mode and DurationEstimator
+ */
+
+import nock from 'nock';
+import { ExecutorAgent } from '../../../agents/executor.js';
+import { ApprovalGate } from '../../../agents/executor/approval-gate.js';
+import { DurationEstimator } from '../../../agents/executor/duration-estimator.js';
+import { PerformanceTracker } from '../../../shared/metrics/performance-tracker.js';
+import { ShipmentsListTool } from '../../../tools/shipments/list.js';
+import { ShipmentsUpdateTool } from '../../../tools/shipments/update.js';
+
+describe('ExecutorAgent dry run', () => {
+  const apiUrl = 'http://localhost:4000';
+  let registry: any;
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+  });
+
+  beforeEach(() => {
+    const tools: Record<string, any> = {
+      shipments_list: new ShipmentsListTool(apiUrl),
+      shipments_update: new ShipmentsUpdateTool(apiUrl),
+    };
+    registry = {
+      getToolInstance: (name: string) => tools[name],
+      getToolSchema: () => undefined,
+      validateParameters: () => ({ valid: true, errors: [] }),
+    };
+  });
+
+  const plan = {
+    steps: [
+      { tool: 'shipments_list', params: { status: 'pending' } },
+      {
+        tool: 'shipments_update',
+        params: { id: '${step[0].data[0].id}', status: 'in_transit' },
+        depends_on: [0],
+      },
+    ],
+  };
+
+  it('should run reads, resolve references and record writes', async () => {
+    nock(apiUrl)
+      .get('/api/shipments')
+      .query(true)
+      .reply(200, { success: true, data: [{ id: 'S7', status: 'pending' }] });
+
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 });
+    const results = await executor.execute(plan, undefined, { dryRun: true });
+
+    expect(results[0]!.success).toBe(true);
+    expect(results[0]!.dry_run?.requests).toEqual([]);
+
+    expect(results[1]!.resolved_params).toEqual({ id: 'S7', status: 'in_transit' });
+    expect(results[1]!.dry_run?.requests).toEqual([
+      { method: 'PUT', url: `${apiUrl}/shipments/S7`, body: { status: 'in_transit' } },
+    ]);
+    expect(results[1]!.dry_run?.estimated_duration_ms).toBeGreaterThan(0);
+  });
+
+  it('should not wait for approval of gated steps', async () => {
+    nock(apiUrl)
+      .get('/api/shipments')
+      .query(true)
+      .reply(200, { success: true, data: [{ id: 'S7' }] });
+
+    const gate = new ApprovalGate({ timeoutMs: 5000 });
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 }, gate);
+
+    const results = await executor.execute(plan, undefined, { requestId: 'req_1', dryRun: true });
+
+    expect(results[1]!.success).toBe(true);
+    expect(gate.getPending()).toHaveLength(0);
+  });
+
+  it('should estimate the plan duration along its critical path', async () => {
+    nock(apiUrl)
+      .get('/api/shipments')
+      .query(true)
+      .reply(200, { success: true, data: [{ id: 'S7' }] });
+
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 });
+    const results = await executor.execute(plan, undefined, { dryRun: true });
+
+    const total = executor.estimatePlanDuration(plan, results);
+    expect(total).toBe(
+      results[0]!.dry_run!.estimated_duration_ms + results[1]!.dry_run!.estimated_duration_ms
+    );
+  });
+});
+
+describe('DurationEstimator', () => {
+  it('should use measured time for reads', () => {
+    const estimator = new DurationEstimator(new PerformanceTracker(), 250);
+
+    expect(estimator.estimateStep('shipments_list', 42, false)).toBe(42);
+  });
+
+  it('should use tool history for sandboxed writes', () => {
+    const tracker = new PerformanceTracker();
+    tracker.trackRequest({
+      requestId: 'r1',
+      totalDuration: 1000,
+      planningDuration: 0,
+      executionDuration: 0,
+      analysisDuration: 0,
+      summarizationDuration: 0,
+      stepDurations: { shipments_update_1: 300, shipments_update_3: 500, shipments_list_0: 90 },
+      cacheHits: 0,
+      cacheMisses: 0,
+      parallelSteps: 0,
+      sequentialSteps: 0,
+      timeoutSteps: 0,
+      failedSteps: 0,
+      success: true,
+      timestamp: new Date(),
+    });
+    const estimator = new DurationEstimator(tracker, 250);
+
+    expect(estimator.estimateStep('shipments_update', 1, true)).toBe(400);
+    expect(estimator.estimateStep('facilities_update', 1, true)).toBe(250);
+  });
+
+  it('should sum along dependencies and overlap independent steps', () => {
+    const estimator = new DurationEstimator(new PerformanceTracker(), 250);
+    const steps = [
+      { tool: 'a', params: {} },
+      { tool: 'b', params: {} },
+      { tool: 'c', params: {}, depends_on: [0, 1] },
+    ];
+
+    expect(estimator.estimatePlan(steps, [100, 300, 50])).toBe(350);
+  });
+});
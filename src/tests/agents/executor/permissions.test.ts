@@ -0,0 +1,81 @@
+/**
+ * Unit tests for running tools with the requesting user's permissions
+ */
+
+import nock from 'nock';
+import { ExecutorAgent } from '../../../agents/executor.js';
+import { AuthIdentity, runAsUser } from '../../../shared/auth/identity.js';
+import { ShipmentsListTool } from '../../../tools/shipments/list.js';
+import { ShipmentsDeleteTool } from '../../../tools/shipments/delete.js';
+
+describe('ExecutorAgent permissions', () => {
+  const apiUrl = 'http://localhost:4000';
+  const viewer: AuthIdentity = { id: 'dana', role: 'viewer', method: 'jwt', credential: 'viewer.jwt.token' };
+  const admin: AuthIdentity = { id: 'root', role: 'admin', method: 'api-key', credential: 'admin-key' };
+  let registry: any;
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+  });
+
+  beforeEach(() => {
+    const tools: Record<string, any> = {
+      shipments_list: new ShipmentsListTool(apiUrl),
+      shipments_delete: new ShipmentsDeleteTool(apiUrl),
+    };
+    registry = {
+      getToolInstance: (name: string) => tools[name],
+      getToolSchema: () => undefined,
+      validateParameters: () => ({ valid: true, errors: [] }),
+    };
+  });
+
+  it("should call the API with the user's credential", async () => {
+    const scope = nock(apiUrl)
+      .get('/api/shipments')
+      .query(true)
+      .matchHeader('authorization', 'Bearer viewer.jwt.token')
+      .reply(200, { success: true, data: [] });
+
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 });
+    const results = await runAsUser(viewer, () =>
+      executor.execute({ steps: [{ tool: 'shipments_list', params: {} }] })
+    );
+
+    expect(results[0]!.success).toBe(true);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  it("should refuse tools above the user's role without calling the API", async () => {
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 });
+    const results = await runAsUser(viewer, () =>
+      executor.execute({ steps: [{ tool: 'shipments_delete', params: { id: 'S1' } }] })
+    );
+
+    expect(results[0]!.success).toBe(false);
+    expect(results[0]!.error?.code).toBe('FORBIDDEN');
+    expect(results[0]!.error?.message).toBe('Role viewer may not run shipments_delete (requires admin)');
+  });
+
+  it('should run them for a user with the role', async () => {
+    nock(apiUrl)
+      .delete('/shipments/S1')
+      .matchHeader('x-api-key', 'admin-key')
+      .reply(200, { success: true, data: { id: 'S1' } });
+
+    const executor = new ExecutorAgent(registry, { maxRetries: 1 });
+    const results = await runAsUser(admin, () =>
+      executor.execute({ steps: [{ tool: 'shipments_delete', params: { id: 'S1' } }] })
+    );
+
+    expect(results[0]!.success).toBe(true);
+  });
+});
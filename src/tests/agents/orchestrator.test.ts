@@ -9,6 +9,9 @@ import { ExecutorAgent } from '../../agents/executor.js';
 import { AnalyzerAgent } from '../../agents/analyzer.js';
 import { SummarizerAgent } from '../../agents/summarizer.js';
 import { MemoryManager } from '../../shared/memory/manager.js';
+import { CancellationError, ClarificationNeededError } from '../../shared/utils/errors.js';
+import { CancellationRegistry, getCurrentSignal } from '../../shared/cancellation/registry.js';
+import { ResponseBuilder } from '../../shared/response/builder.js';
 
 jest.mock('../../agents/planner.js');
 jest.mock('../../agents/executor.js');
@@ -294,6 +297,23 @@ describe('OrchestratorAgent', () => {
       );
     });
 
+    it('should pass a cancelled run to the caller without storing an error', async () => {
+      const cancellation = new CancellationRegistry();
+      mockPlanner.plan.mockImplementation(async () => {
+        const signal = getCurrentSignal()!;
+        cancellation.cancel('req-cancelled');
+        throw signal.reason;
+      });
+
+      const error = await cancellation
+        .run('req-cancelled', () => orchestrator.handleQuery('test', undefined, 'req-cancelled'))
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(CancellationError);
+      expect(error.message).toBe('Request req-cancelled was cancelled');
+      expect(mockMemory.storeEpisodic).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'error' }));
+    });
+
     it('should continue on memory query failure', async () => {
       mockMemory.querySemantic.mockRejectedValue(new Error('Memory failed'));
 
@@ -318,6 +338,326 @@ describe('OrchestratorAgent', () => {
     });
   });
 
+  describe('Resumable Runs', () => {
+    const analysis = {
+      summary: 'Test',
+      insights: [],
+      entities: [],
+      anomalies: [],
+      metadata: { tool_results_count: 1, analysis_time_ms: 0 },
+    };
+
+    it('should resume from the last completed phase', async () => {
+      mockPlanner.plan.mockResolvedValue({ steps: [{ tool: 'shipments_list', params: {} }] });
+      mockExecutor.execute.mockResolvedValue([
+        { success: true, tool: 'shipments_list', data: [], metadata: { executionTime: 1, timestamp: '' } },
+      ]);
+      mockAnalyzer.analyze.mockResolvedValue(analysis as any);
+      mockSummarizer.summarize
+        .mockRejectedValueOnce(new Error('Summarizer crashed'))
+        .mockResolvedValueOnce({
+          message: 'Recovered response',
+          tools_used: ['shipments_list'],
+          metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+        });
+
+      const failed = await orchestrator.handleQuery('test query');
+      expect(failed.metadata.error).toBe(true);
+
+      const resumed = await orchestrator.resumeQuery(failed.metadata.request_id);
+
+      expect(resumed.message).toBe('Recovered response');
+      expect(resumed.metadata.request_id).toBe(failed.metadata.request_id);
+      expect(mockPlanner.plan).toHaveBeenCalledTimes(1);
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(mockAnalyzer.analyze).toHaveBeenCalledTimes(1);
+      expect(mockSummarizer.summarize).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resume a request that failed in its first phase', async () => {
+      mockPlanner.plan
+        .mockRejectedValueOnce(new Error('Planning failed'))
+        .mockResolvedValueOnce({ steps: [] });
+      mockExecutor.execute.mockResolvedValue([]);
+      mockAnalyzer.analyze.mockResolvedValue(analysis as any);
+      mockSummarizer.summarize.mockResolvedValue({
+        message: 'test',
+        tools_used: [],
+        metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+      });
+
+      const failed = await orchestrator.handleQuery('test');
+      const resumed = await orchestrator.resumeQuery(failed.metadata.request_id);
+
+      expect(resumed.message).toBe('test');
+      expect(mockPlanner.plan).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return the stored response for a completed request', async () => {
+      mockPlanner.plan.mockResolvedValue({ steps: [] });
+      mockExecutor.execute.mockResolvedValue([]);
+      mockAnalyzer.analyze.mockResolvedValue(analysis as any);
+      mockSummarizer.summarize.mockResolvedValue({
+        message: 'done',
+        tools_used: [],
+        metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+      });
+
+      const response = await orchestrator.handleQuery('test');
+      const resumed = await orchestrator.resumeQuery(response.metadata.request_id);
+
+      expect(resumed).toEqual(response);
+      expect(mockSummarizer.summarize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw for an unknown request', async () => {
+      await expect(orchestrator.resumeQuery('unknown-request')).rejects.toThrow(
+        'No checkpoint found'
+      );
+    });
+  });
+
+  describe('Adaptive Replanning', () => {
+    const analysis = {
+      summary: 'Test',
+      insights: [],
+      entities: [],
+      anomalies: [],
+      metadata: { tool_results_count: 1, analysis_time_ms: 0 },
+    };
+    const ok = (tool: string, step_index: number) => ({
+      success: true, tool, data: [{ id: 'F1' }], step_index,
+      metadata: { executionTime: 1, timestamp: '' },
+    });
+    const failure = (tool: string, step_index: number) => ({
+      success: false, tool, step_index, resolved_params: { facility_id: 'bad' },
+      error: { code: '404', message: 'Facility not found' },
+      metadata: { executionTime: 1, timestamp: '' },
+    });
+
+    let mockRecorder: { savePlan: jest.Mock; appendReplanRound: jest.Mock };
+
+    beforeEach(() => {
+      (mockPlanner as any).replan = jest.fn();
+      mockRecorder = {
+        savePlan: jest.fn().mockResolvedValue(undefined),
+        appendReplanRound: jest.fn().mockResolvedValue(undefined),
+      };
+      orchestrator = new OrchestratorAgent(
+        mockPlanner,
+        mockExecutor,
+        mockAnalyzer,
+        mockSummarizer,
+        mockMemory,
+        { maxReplanRounds: 2 },
+        undefined,
+        mockRecorder
+      );
+      mockPlanner.plan.mockResolvedValue({
+        steps: [
+          { tool: 'facilities_list', params: {} },
+          { tool: 'shipments_list', params: { facility_id: 'bad' } },
+        ],
+      });
+      mockAnalyzer.analyze.mockResolvedValue(analysis as any);
+      mockSummarizer.summarize.mockResolvedValue({
+        message: 'done',
+        tools_used: [],
+        metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+      });
+    });
+
+    it('should execute a repair plan for failed steps', async () => {
+      mockExecutor.execute
+        .mockResolvedValueOnce([ok('facilities_list', 0), failure('shipments_list', 1)] as any)
+        .mockResolvedValueOnce([ok('shipments_list', 0)] as any);
+      mockPlanner.replan.mockResolvedValueOnce({
+        steps: [{ tool: 'shipments_list', params: { facility_id: 'F1' } }],
+      });
+
+      const response = await orchestrator.handleQuery('shipments for my facility');
+
+      expect(response.metadata.error).toBeUndefined();
+      expect(mockPlanner.replan).toHaveBeenCalledTimes(1);
+      const [, , resultsSent] = mockPlanner.replan.mock.calls[0]!;
+      expect(resultsSent.filter((r: any) => !r.success)).toHaveLength(1);
+
+      // Analysis sees the successful original step plus the repaired one
+      const analyzed = mockAnalyzer.analyze.mock.calls[0]![0];
+      expect(analyzed).toHaveLength(2);
+      expect(analyzed.every((r: any) => r.success)).toBe(true);
+
+      expect(mockRecorder.savePlan).toHaveBeenCalledTimes(1);
+      expect(mockRecorder.appendReplanRound).toHaveBeenCalledWith(
+        response.metadata.request_id,
+        expect.objectContaining({
+          round: 1,
+          succeeded: 1,
+          failed: 0,
+          failed_steps: [
+            expect.objectContaining({ step_index: 1, tool: 'shipments_list', error: { code: '404', message: 'Facility not found' } }),
+          ],
+        })
+      );
+    });
+
+    it('should stop after the configured number of rounds', async () => {
+      mockExecutor.execute
+        .mockResolvedValueOnce([ok('facilities_list', 0), failure('shipments_list', 1)] as any)
+        .mockResolvedValue([failure('shipments_list', 0)] as any);
+      mockPlanner.replan.mockResolvedValue({
+        steps: [{ tool: 'shipments_list', params: { facility_id: 'still-bad' } }],
+      });
+
+      const response = await orchestrator.handleQuery('shipments for my facility');
+
+      expect(response.metadata.error).toBeUndefined();
+      expect(mockPlanner.replan).toHaveBeenCalledTimes(2);
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(3);
+      expect(mockRecorder.appendReplanRound).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop when the planner returns no repair', async () => {
+      mockExecutor.execute.mockResolvedValueOnce([ok('facilities_list', 0), failure('shipments_list', 1)] as any);
+      mockPlanner.replan.mockResolvedValueOnce({ steps: [] });
+
+      await orchestrator.handleQuery('shipments for my facility');
+
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+      expect(mockAnalyzer.analyze.mock.calls[0]![0]).toHaveLength(2);
+      expect(mockRecorder.appendReplanRound).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ round: 1, repair_plan: { steps: [] } })
+      );
+    });
+
+    it('should analyze partial results when replanning fails', async () => {
+      mockExecutor.execute.mockResolvedValueOnce([ok('facilities_list', 0), failure('shipments_list', 1)] as any);
+      mockPlanner.replan.mockRejectedValueOnce(new Error('LLM unavailable'));
+
+      const response = await orchestrator.handleQuery('shipments for my facility');
+
+      expect(response.metadata.error).toBeUndefined();
+      expect(mockAnalyzer.analyze).toHaveBeenCalledTimes(1);
+      expect(mockRecorder.appendReplanRound).not.toHaveBeenCalled();
+    });
+
+    it('should not replan when every step succeeds', async () => {
+      mockExecutor.execute.mockResolvedValueOnce([ok('facilities_list', 0), ok('shipments_list', 1)] as any);
+
+      await orchestrator.handleQuery('shipments for my facility');
+
+      expect(mockPlanner.replan).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Clarification', () => {
+    const question = () => {
+      const clarification = ResponseBuilder.question(
+        'To answer that I need to know which facility you mean.',
+        ['Central Sorting', 'North Processing']
+      );
+      clarification.metadata = { reason: 'missing_params', missing: ['facility'], originalQuery: 'capacity of the facility' };
+      return new ClarificationNeededError(clarification);
+    };
+
+    beforeEach(() => {
+      mockExecutor.execute.mockResolvedValue([]);
+      mockAnalyzer.analyze.mockResolvedValue({
+        summary: 'Test',
+        insights: [],
+        entities: [],
+        anomalies: [],
+        metadata: { tool_results_count: 0, analysis_time_ms: 0 },
+      } as any);
+      mockSummarizer.summarize.mockResolvedValue({
+        message: 'North Processing is at 80% capacity',
+        tools_used: ['facilities_list'],
+        metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+      });
+    });
+
+    it('should return the question instead of executing', async () => {
+      mockPlanner.plan.mockRejectedValueOnce(question());
+
+      const response = await orchestrator.handleQuery('capacity of the facility');
+
+      expect(response.metadata.error).toBeUndefined();
+      expect(response.message).toContain('which facility');
+      expect(response.clarification?.options).toEqual(['Central Sorting', 'North Processing']);
+      expect(mockExecutor.execute).not.toHaveBeenCalled();
+    });
+
+    it('should plan the original query with the answer', async () => {
+      mockPlanner.plan
+        .mockRejectedValueOnce(question())
+        .mockResolvedValueOnce({ steps: [{ tool: 'facilities_list', params: {} }] });
+
+      const asked = await orchestrator.handleQuery('capacity of the facility');
+      const answered = await orchestrator.answerClarification(asked.metadata.request_id, 'North Processing');
+
+      expect(answered.message).toBe('North Processing is at 80% capacity');
+      expect(answered.metadata.request_id).toBe(asked.metadata.request_id);
+      expect(mockPlanner.plan).toHaveBeenLastCalledWith(
+        'capacity of the facility',
+        expect.objectContaining({
+          clarification: {
+            question: 'To answer that I need to know which facility you mean.',
+            answer: 'North Processing',
+          },
+        })
+      );
+      expect(mockExecutor.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject answers for requests that are not waiting', async () => {
+      mockPlanner.plan.mockResolvedValueOnce({ steps: [] });
+
+      const response = await orchestrator.handleQuery('list facilities');
+
+      await expect(
+        orchestrator.answerClarification(response.metadata.request_id, 'North Processing')
+      ).rejects.toThrow('is not awaiting clarification');
+    });
+  });
+
+  describe('Summary Streaming', () => {
+    it('should publish the summary through onSummaryChunk', async () => {
+      const chunks: any[] = [];
+      const streaming = new OrchestratorAgent(
+        mockPlanner,
+        mockExecutor,
+        mockAnalyzer,
+        mockSummarizer,
+        mockMemory,
+        { onSummaryChunk: (chunk) => chunks.push(chunk) }
+      );
+      mockPlanner.plan.mockResolvedValue({ steps: [] });
+      mockExecutor.execute.mockResolvedValue([]);
+      mockAnalyzer.analyze.mockResolvedValue({
+        summary: 'Test',
+        insights: [],
+        entities: [],
+        anomalies: [],
+        metadata: { tool_results_count: 0, analysis_time_ms: 0 },
+      } as any);
+      mockSummarizer.summarize.mockResolvedValue({
+        message: 'All shipments accepted',
+        tools_used: [],
+        metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+      });
+
+      const response = await streaming.handleQuery('test');
+
+      expect(chunks.map(c => c.chunk)).toEqual(['All shipments accepted', '']);
+      expect(chunks[1]).toMatchObject({
+        requestId: response.metadata.request_id,
+        done: true,
+        text: 'All shipments accepted',
+      });
+    });
+  });
+
   describe('Configuration', () => {
     it('should use custom configuration', () => {
       const customOrchestrator = new OrchestratorAgent(
@@ -0,0 +1,109 @@
+/**
+ * Unit tests for ClarificationChecker
+ */
+
+import {
+  ClarificationChecker,
+  ClarificationOptionsSource,
+  ToolRegistryOptionsSource,
+} from '../../../agents/planner/clarification-checker.js';
+import { IntentRecognizer } from '../../../agents/planner/intent-recognizer.js';
+
+describe('ClarificationChecker', () => {
+  let source: jest.Mocked<ClarificationOptionsSource>;
+  let checker: ClarificationChecker;
+  const recognizer = new IntentRecognizer();
+
+  const check = async (query: string, context?: any) =>
+    checker.check(query, await recognizer.recognizeIntent(query), context);
+
+  beforeEach(() => {
+    source = {
+      getFacilityNames: jest.fn().mockResolvedValue(['Central Sorting', 'North Processing', 'East Disposal']),
+      getProducerNames: jest.fn().mockResolvedValue(['Acme Industrial', 'City Municipal']),
+    };
+    checker = new ClarificationChecker(source, { confidenceThreshold: 0.4, maxOptions: 2 });
+  });
+
+  it('should not ask about clear queries', async () => {
+    expect(await check('Show me all shipments with contaminants')).toBeNull();
+    expect(await check('list facilities')).toBeNull();
+  });
+
+  it('should ask which facility when the query refers to one without naming it', async () => {
+    const clarification = await check('Check the capacity of the facility');
+
+    expect(clarification?.type).toBe('question');
+    expect(clarification?.requiresInput).toBe(true);
+    expect(clarification?.content).toContain('which facility');
+    expect(clarification?.options).toEqual(['Central Sorting', 'North Processing']);
+    expect(clarification?.metadata).toMatchObject({
+      reason: 'missing_params',
+      missing: ['facility'],
+      originalQuery: 'Check the capacity of the facility',
+    });
+  });
+
+  it('should not ask when the facility is named', async () => {
+    expect(await check('Check the capacity of the facility North Processing')).toBeNull();
+    expect(await check('Check the capacity of the facility F2')).toBeNull();
+  });
+
+  it('should ask for a date range on period queries without one', async () => {
+    const clarification = await check('Show contamination trends for shipments');
+
+    expect(clarification?.metadata?.missing).toEqual(['date_range']);
+    expect(clarification?.options).toContain('last 30 days');
+    expect(await check('Show contamination trends for shipments over the last 30 days')).toBeNull();
+  });
+
+  it('should ask to rephrase low-confidence queries with real names as options', async () => {
+    const clarification = await check("What's going on?");
+
+    expect(clarification?.metadata?.reason).toBe('low_confidence');
+    expect(clarification?.options).toEqual([
+      'Show recent shipments to Central Sorting',
+      'Show recent shipments to North Processing',
+    ]);
+  });
+
+  it('should not ask again once the question was answered', async () => {
+    const context = { clarification: { question: 'Which facility?', answer: 'North Processing' } };
+
+    expect(await check('Check the capacity of the facility', context)).toBeNull();
+  });
+
+  it('should not ask about follow-ups in a conversation', async () => {
+    const context = { conversation: { previousQuery: 'Show shipments', intent: 'followup' } };
+
+    expect(await check("What's going on with those?", context)).toBeNull();
+  });
+
+  it('should disable the low-confidence check with a zero threshold', async () => {
+    checker = new ClarificationChecker(source, { confidenceThreshold: 0 });
+
+    expect(await check("What's going on?")).toBeNull();
+  });
+});
+
+describe('ToolRegistryOptionsSource', () => {
+  it('should read names from the list tools', async () => {
+    const execute = jest.fn().mockResolvedValue({
+      success: true,
+      tool: 'facilities_list',
+      data: [{ name: 'Central Sorting' }, { name: 'North Processing' }, { id: 'no-name' }],
+      metadata: { executionTime: 1, timestamp: '' },
+    });
+    const source = new ToolRegistryOptionsSource({ getToolInstance: jest.fn().mockReturnValue({ execute }) } as any);
+
+    expect(await source.getFacilityNames(5)).toEqual(['Central Sorting', 'North Processing']);
+    expect(execute).toHaveBeenCalledWith({ limit: 5 });
+  });
+
+  it('should return no names when the tool fails', async () => {
+    const execute = jest.fn().mockRejectedValue(new Error('API down'));
+    const source = new ToolRegistryOptionsSource({ getToolInstance: jest.fn().mockReturnValue({ execute }) } as any);
+
+    expect(await source.getProducerNames(5)).toEqual([]);
+  });
+});
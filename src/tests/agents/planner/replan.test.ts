@@ -0,0 +1,99 @@
+/**
+ * Unit tests for PlannerAgent.replan
+ */
+
+import { PlannerAgent } from '../../../agents/planner.js';
+import { LLMProvider } from '../../../shared/llm/provider.js';
+
+describe('PlannerAgent.replan', () => {
+  let planner: PlannerAgent;
+  let mockLLM: jest.Mocked<LLMProvider>;
+
+  const results = [
+    {
+      success: true, tool: 'facilities_list', step_index: 0,
+      resolved_params: {}, data: [{ id: 'F1' }],
+      metadata: { executionTime: 1, timestamp: '' },
+    },
+    {
+      success: false, tool: 'shipments_list', step_index: 1,
+      resolved_params: { facility_id: 'bad' },
+      error: { code: '404', message: 'Facility bad not found' },
+      metadata: { executionTime: 1, timestamp: '' },
+    },
+  ];
+  const plan = {
+    steps: [
+      { tool: 'facilities_list', params: {} },
+      { tool: 'shipments_list', params: { facility_id: 'bad' } },
+    ],
+  };
+  const llmResponse = (content: any) => ({
+    content: JSON.stringify(content),
+    provider: 'openai',
+    model: 'gpt-4',
+    metadata: { latency_ms: 100, retries: 0 },
+  });
+
+  beforeEach(() => {
+    mockLLM = {
+      generate: jest.fn(),
+    } as any;
+
+    const registry = {
+      getAllToolSchemas: () => [
+        { name: 'facilities_list', description: 'List facilities', parameters: [] },
+        {
+          name: 'shipments_list',
+          description: 'List shipments',
+          parameters: [{ name: 'facility_id', description: 'Facility ID', required: false }],
+        },
+      ],
+    } as any;
+
+    planner = new PlannerAgent(mockLLM, registry, { maxRetries: 2 });
+  });
+
+  it('should send failed steps, their errors and successful results to the LLM', async () => {
+    mockLLM.generate.mockResolvedValue(llmResponse({
+      steps: [{ tool: 'shipments_list', params: { facility_id: 'F1' } }],
+    }) as any);
+
+    const repairPlan = await planner.replan('Shipments for my facility', plan, results as any);
+
+    expect(repairPlan.steps).toEqual([{ tool: 'shipments_list', params: { facility_id: 'F1' } }]);
+    const prompt = mockLLM.generate.mock.calls[0]![0].messages[1]!.content;
+    expect(prompt).toContain('Facility bad not found');
+    expect(prompt).toContain('"F1"');
+    expect(prompt).toContain('REPAIR plan');
+  });
+
+  it('should return an empty plan when the failures cannot be repaired', async () => {
+    mockLLM.generate.mockResolvedValue(llmResponse({ steps: [] }) as any);
+
+    const repairPlan = await planner.replan('Shipments for my facility', plan, results as any);
+
+    expect(repairPlan.steps).toHaveLength(0);
+  });
+
+  it('should request repair plans as structured output and use the parsed plan', async () => {
+    const parsed = { steps: [{ tool: 'shipments_list', params: { facility_id: 'F1' } }] };
+    mockLLM.generate.mockResolvedValue({ ...llmResponse('ignored'), parsed } as any);
+
+    const repairPlan = await planner.replan('Shipments for my facility', plan, results as any);
+
+    expect(repairPlan.steps).toEqual(parsed.steps);
+    expect(mockLLM.generate.mock.calls[0]![0].response_format?.name).toBe('repair_plan');
+  });
+
+  it('should reject repair plans that use unknown tools', async () => {
+    mockLLM.generate.mockResolvedValue(llmResponse({
+      steps: [{ tool: 'unknown_tool', params: {} }],
+    }) as any);
+
+    await expect(
+      planner.replan('Shipments for my facility', plan, results as any)
+    ).rejects.toThrow('Failed to generate repair plan after 2 attempts');
+    expect(mockLLM.generate).toHaveBeenCalledTimes(2);
+  });
+});
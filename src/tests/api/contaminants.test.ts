@@ -2,6 +2,7 @@
 import request from "supertest";
 import { connectDB, disconnectDB } from "../../api/db/connection.js";
 import { ContaminantModel } from "../../api/models/Contaminant.js";
+import { ShipmentModel } from "../../api/models/Shipment.js";
 import app from "../../api/server.js";
 
 const testDbUri = process.env.MONGODB_TEST_URI || "mongodb://localhost:27017/wasteer-test";
@@ -162,6 +163,19 @@ describe("Contaminants API", () => {
   });
 
   describe("POST /api/contaminants-detected", () => {
+    // Detections must point at an existing shipment
+    beforeEach(async () => {
+      await ShipmentModel.deleteMany({});
+      await ShipmentModel.create({
+        id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "delivered",
+        weight_kg: 1500,
+        has_contaminants: true,
+      });
+    });
+
     it("should create a new contaminant detection", async () => {
       const newContaminant = {
         id: "C1",
@@ -194,6 +208,20 @@ describe("Contaminants API", () => {
 
       expect(response.status).toBe(409);
     });
+
+    it("should return 422 for a shipment that doesn't exist", async () => {
+      const response = await request(app).post("/api/contaminants-detected").send({
+        id: "C1",
+        shipment_id: "S9",
+        type: "Lead",
+        concentration_ppm: 150,
+        risk_level: "high",
+        detected_at: "2025-10-06T10:30:00Z",
+      });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe("INVALID_REFERENCE");
+    });
   });
 
   describe("PUT /api/contaminants-detected/:id", () => {
@@ -0,0 +1,136 @@
+// API tests for contract usage and alerts endpoints
+import request from "supertest";
+import { connectDB, disconnectDB } from "../../api/db/connection.js";
+import { ContractModel } from "../../api/models/Contract.js";
+import { ContractAlertModel } from "../../api/models/ContractAlert.js";
+import { ShipmentModel } from "../../api/models/Shipment.js";
+import app from "../../api/server.js";
+
+const testDbUri = process.env.MONGODB_TEST_URI || "mongodb://localhost:27017/wasteer-test";
+
+const daysFromNow = (days: number) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+describe("Contracts API", () => {
+  beforeAll(async () => {
+    await connectDB(testDbUri);
+  });
+
+  afterAll(async () => {
+    await disconnectDB();
+  });
+
+  beforeEach(async () => {
+    // Clear data before each test
+    await ContractModel.deleteMany({});
+    await ContractAlertModel.deleteMany({});
+    await ShipmentModel.deleteMany({});
+    await ContractModel.create({
+      id: "C1",
+      producer_id: "P1",
+      facility_id: "F1",
+      waste_types_declared: ["150101"],
+      start_date: "2025-01-01",
+      end_date: "2025-12-31",
+      max_weight_kg: 10000,
+      status: "active",
+      terms: "Standard terms",
+    });
+  });
+
+  describe("GET /api/contracts/:id/usage", () => {
+    it("should build usage from delivered shipments only", async () => {
+      await ShipmentModel.create([
+        { id: "S1", facility_id: "F1", producer_id: "P1", date: "2025-01-02", status: "delivered", weight_kg: 1000, has_contaminants: false },
+        { id: "S2", facility_id: "F1", producer_id: "P1", date: "2025-01-06", status: "delivered", weight_kg: 3000, has_contaminants: false },
+        { id: "S3", facility_id: "F1", producer_id: "P1", date: "2025-01-07", status: "pending", weight_kg: 5000, has_contaminants: false },
+        { id: "S4", facility_id: "F2", producer_id: "P1", date: "2025-01-07", status: "delivered", weight_kg: 5000, has_contaminants: false },
+      ]);
+
+      const response = await request(app).get("/api/contracts/C1/usage").query({ as_of: "2025-01-10" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        contract_id: "C1",
+        used_kg: 4000,
+        remaining_kg: 6000,
+        burn_rate_kg_per_day: 400,
+        projected_exhaustion_date: "2025-01-25",
+      });
+      expect(response.body.data.ledger.map((entry: any) => entry.shipment_id)).toEqual(["S1", "S2"]);
+    });
+
+    it("should leave out deliveries after as_of", async () => {
+      await ShipmentModel.create([
+        { id: "S1", facility_id: "F1", producer_id: "P1", date: "2025-01-02", status: "delivered", weight_kg: 1000, has_contaminants: false },
+        { id: "S2", facility_id: "F1", producer_id: "P1", date: "2025-01-12", status: "delivered", weight_kg: 9000, has_contaminants: false },
+      ]);
+
+      const response = await request(app).get("/api/contracts/C1/usage").query({ as_of: "2025-01-10" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ used_kg: 1000, shipment_count: 1, remaining_kg: 9000 });
+      expect(response.body.data.exhausted_on).toBeUndefined();
+      expect(response.body.data.ledger.map((entry: any) => entry.shipment_id)).toEqual(["S1"]);
+    });
+
+    it("should return 404 for non-existent contract", async () => {
+      const response = await request(app).get("/api/contracts/NONEXISTENT/usage");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject an invalid as_of date", async () => {
+      const response = await request(app).get("/api/contracts/C1/usage").query({ as_of: "soon" });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe("Contract monitor", () => {
+    it("should expire past-end contracts and alert on upcoming end dates", async () => {
+      await ContractModel.create({
+        id: "C2",
+        producer_id: "P1",
+        facility_id: "F1",
+        waste_types_declared: ["150101"],
+        start_date: daysFromNow(-300),
+        end_date: daysFromNow(10),
+        max_weight_kg: 10000,
+        status: "active",
+        terms: "Standard terms",
+      });
+
+      const run = await request(app).post("/api/contracts/monitor");
+
+      expect(run.status).toBe(200);
+      expect(run.body.data.expired).toEqual(["C1"]);
+      expect((await ContractModel.findOne({ id: "C1" }))?.status).toBe("expired");
+
+      const alerts = await request(app).get("/api/contracts/alerts");
+      expect(alerts.body.data.map((alert: any) => [alert.contract_id, alert.type]).sort()).toEqual([
+        ["C1", "auto_expired"],
+        ["C2", "end_date_nearing"],
+      ]);
+    });
+
+    it("should resolve alerts whose condition has cleared", async () => {
+      await ContractAlertModel.create({
+        contract_id: "C9",
+        producer_id: "P1",
+        facility_id: "F1",
+        type: "quota_nearing",
+        message: "Contract C9 has used 95% of its quota",
+        active: true,
+        raised_at: "2025-01-01T00:00:00.000Z",
+        last_checked_at: "2025-01-01T00:00:00.000Z",
+      });
+
+      await request(app).post("/api/contracts/monitor");
+
+      const active = await request(app).get("/api/contracts/alerts").query({ contract_id: "C9" });
+      const resolved = await request(app).get("/api/contracts/alerts").query({ contract_id: "C9", active: "false" });
+      expect(active.body.count).toBe(0);
+      expect(resolved.body.data[0].resolved_at).toBeDefined();
+    });
+  });
+});
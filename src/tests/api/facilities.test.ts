@@ -1,7 +1,10 @@
 // API tests for facilities endpoints
 import request from "supertest";
-import { connectDB, disconnectDB } from "../../api/db/connection.js";
+import { connectDB, disconnectDB, supportsTransactions } from "../../api/db/connection.js";
 import { FacilityModel } from "../../api/models/Facility.js";
+import { FacilityOutflowModel } from "../../api/models/FacilityOutflow.js";
+import { ShipmentModel } from "../../api/models/Shipment.js";
+import { getRelations } from "../../api/services/referential-integrity.js";
 import app from "../../api/server.js";
 
 const testDbUri = process.env.MONGODB_TEST_URI || "mongodb://localhost:27017/wasteer-test";
@@ -204,6 +207,20 @@ describe("Facilities API", () => {
       expect(response.body.data.capacity_tons).toBe(700);
     });
 
+    it("should apply concurrent updates to the same facility", async () => {
+      await FacilityModel.create({ id: "F1", name: "Old Name", location: "Hannover", type: "sorting", capacity_tons: 500 });
+
+      const responses = await Promise.all([
+        request(app).put("/api/facilities/F1").send({ name: "New Name" }),
+        request(app).put("/api/facilities/F1").send({ capacity_tons: 700 }),
+      ]);
+
+      expect(responses.map(response => response.status)).toEqual([200, 200]);
+      expect(await FacilityModel.findOne({ id: "F1" })).toMatchObject({ name: "New Name", capacity_tons: 700 });
+      const versions = (await request(app).get("/api/facilities/F1/versions")).body.data.map((entry: any) => entry.version);
+      expect(new Set(versions).size).toBe(versions.length);
+    });
+
     it("should return 404 for non-existent facility", async () => {
       const response = await request(app).put("/api/facilities/NONEXISTENT").send({ name: "New Name" });
 
@@ -212,6 +229,13 @@ describe("Facilities API", () => {
   });
 
   describe("DELETE /api/facilities/:id", () => {
+    // Nothing left over from other suites may reference the facility
+    beforeEach(async () => {
+      for (const relation of getRelations()) {
+        await relation.model.deleteMany({});
+      }
+    });
+
     it("should delete a facility", async () => {
       await FacilityModel.create({
         id: "F1",
@@ -230,11 +254,210 @@ describe("Facilities API", () => {
       expect(facility).toBeNull();
     });
 
+    it("should delete the facility's outflows with it", async () => {
+      await FacilityModel.create({
+        id: "F1",
+        name: "Test Facility",
+        location: "Test City",
+        type: "sorting",
+        capacity_tons: 500,
+      });
+      await FacilityOutflowModel.create({ id: "O1", facility_id: "F1", date: "2025-10-02", weight_kg: 1000 });
+
+      const response = await request(app).delete("/api/facilities/F1");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.cascaded).toEqual([{ model: "FacilityOutflow", count: 1 }]);
+      expect(await FacilityOutflowModel.countDocuments({ facility_id: "F1" })).toBe(0);
+    });
+
     it("should return 404 for non-existent facility", async () => {
       const response = await request(app).delete("/api/facilities/NONEXISTENT");
 
       expect(response.status).toBe(404);
     });
   });
-});
 
+  describe("Capacity", () => {
+    const shipment = (id: string, status: string, weight_kg: number, date = "2025-10-01") => ({
+      id,
+      facility_id: "F1",
+      date,
+      status,
+      weight_kg,
+      has_contaminants: false,
+    });
+
+    beforeEach(async () => {
+      await ShipmentModel.deleteMany({});
+      await FacilityOutflowModel.deleteMany({});
+      await FacilityModel.create({
+        id: "F1",
+        name: "Test Facility",
+        location: "Test City",
+        type: "sorting",
+        capacity_tons: 10,
+      });
+    });
+
+    it("should reject a delivered shipment that would exceed capacity", async () => {
+      await ShipmentModel.create(shipment("S1", "delivered", 8000));
+
+      const response = await request(app).post("/api/shipments").send(shipment("S2", "delivered", 3000));
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe("CAPACITY_EXCEEDED");
+      expect(response.body.error.details).toMatchObject({
+        facility_id: "F1",
+        capacity_tons: 10,
+        current_load_tons: 8,
+        requested_tons: 3,
+        fits: false,
+      });
+      expect(await ShipmentModel.findOne({ id: "S2" })).toBeNull();
+    });
+
+    it("should let only one of two concurrent deliveries take the last of the capacity", async () => {
+      if (!supportsTransactions()) {
+        return; // A standalone server checks before writing only
+      }
+      await ShipmentModel.create(shipment("S1", "delivered", 8000));
+
+      const responses = await Promise.all([
+        request(app).post("/api/shipments").send(shipment("S2", "delivered", 1500)),
+        request(app).post("/api/shipments").send(shipment("S3", "delivered", 1500)),
+      ]);
+
+      expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+      expect((await FacilityModel.findOne({ id: "F1" }))?.current_load_tons).toBe(9.5);
+    });
+
+    it("should count pending and in-transit shipments when booking", async () => {
+      await ShipmentModel.create([shipment("S1", "delivered", 4000), shipment("S2", "in_transit", 5000)]);
+
+      const response = await request(app).post("/api/shipments").send(shipment("S3", "pending", 2000));
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.details).toMatchObject({ mode: "booking", inbound_tons: 5, projected_load_tons: 11 });
+    });
+
+    it("should reject delivering a shipment into a full facility", async () => {
+      await ShipmentModel.create([shipment("S1", "delivered", 9000), shipment("S2", "in_transit", 2000)]);
+
+      const response = await request(app).post("/api/shipments/S2/transition").send({ status: "delivered" });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe("CAPACITY_EXCEEDED");
+      expect((await ShipmentModel.findOne({ id: "S2" }))?.status).toBe("in_transit");
+    });
+
+    it("should check the extra weight when a delivered shipment gets heavier", async () => {
+      await ShipmentModel.create([shipment("S1", "delivered", 6000), shipment("S2", "delivered", 3000)]);
+
+      const fits = await request(app).put("/api/shipments/S2").send({ weight_kg: 4000 });
+      const overfills = await request(app).put("/api/shipments/S2").send({ weight_kg: 5000 });
+
+      expect(fits.status).toBe(200);
+      expect(overfills.status).toBe(409);
+      expect(overfills.body.error.details).toMatchObject({ mode: "delivery", current_load_tons: 10, requested_tons: 1 });
+      expect((await ShipmentModel.findOne({ id: "S2" }))?.weight_kg).toBe(4000);
+      expect((await FacilityModel.findOne({ id: "F1" }))?.current_load_tons).toBe(10);
+    });
+
+    it("should check a booked shipment that gets heavier against what's on its way", async () => {
+      await ShipmentModel.create([shipment("S1", "delivered", 4000), shipment("S2", "pending", 3000)]);
+
+      const response = await request(app).put("/api/shipments/S2").send({ weight_kg: 7000 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.details).toMatchObject({ mode: "booking", inbound_tons: 0, requested_tons: 7 });
+    });
+
+    it("should check the facility a delivered shipment moves to", async () => {
+      await FacilityModel.create({ id: "F2", name: "Small Facility", location: "Test City", type: "sorting", capacity_tons: 2 });
+      await ShipmentModel.create(shipment("S1", "delivered", 3000));
+
+      const response = await request(app).put("/api/shipments/S1").send({ facility_id: "F2" });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.details).toMatchObject({ facility_id: "F2", requested_tons: 3 });
+      expect((await ShipmentModel.findOne({ id: "S1" }))?.facility_id).toBe("F1");
+    });
+
+    it("should update the facility load when a shipment is delivered", async () => {
+      await ShipmentModel.create(shipment("S1", "in_transit", 2500));
+
+      const response = await request(app).post("/api/shipments/S1/transition").send({ status: "delivered" });
+
+      expect(response.status).toBe(200);
+      expect((await FacilityModel.findOne({ id: "F1" }))?.current_load_tons).toBe(2.5);
+    });
+
+    it("should subtract outflows from the load", async () => {
+      await ShipmentModel.create(shipment("S1", "delivered", 6000));
+
+      const response = await request(app)
+        .post("/api/facilities/F1/outflows")
+        .send({ id: "O1", date: "2025-10-02", weight_kg: 4000 });
+
+      expect(response.status).toBe(201);
+      expect(response.body.data.load).toMatchObject({ delivered_tons: 6, outflow_tons: 4, current_load_tons: 2 });
+
+      const outflows = await request(app).get("/api/facilities/F1/outflows");
+      expect(outflows.body.count).toBe(1);
+    });
+
+    it("should reject outflows larger than the current load", async () => {
+      await ShipmentModel.create(shipment("S1", "delivered", 1000));
+
+      const response = await request(app)
+        .post("/api/facilities/F1/outflows")
+        .send({ id: "O1", date: "2025-10-02", weight_kg: 2000 });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe("OUTFLOW_EXCEEDS_LOAD");
+    });
+
+    it("should reconcile a stale current load", async () => {
+      await ShipmentModel.create(shipment("S1", "delivered", 3000));
+      await FacilityModel.updateOne({ id: "F1" }, { current_load_tons: 9 });
+
+      const response = await request(app).post("/api/facilities/F1/reconcile");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.current_load_tons).toBe(3);
+      expect((await FacilityModel.findOne({ id: "F1" }))?.current_load_tons).toBe(3);
+    });
+
+    it("should forecast when inbound shipments push the facility over capacity", async () => {
+      await ShipmentModel.create([
+        shipment("S1", "delivered", 5000),
+        shipment("S2", "in_transit", 3000, "2025-10-02"),
+        shipment("S3", "pending", 4000, "2025-10-05"),
+        shipment("S4", "rejected", 9000, "2025-10-03"),
+      ]);
+
+      const response = await request(app).get("/api/facilities/F1/capacity-forecast");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({
+        current_load_tons: 5,
+        utilization_pct: 50,
+        inbound: { pending_tons: 4, in_transit_tons: 3, shipment_count: 2 },
+        projected_load_tons: 12,
+        will_exceed_capacity: true,
+        exceeds_on: "2025-10-05",
+      });
+      expect(response.body.data.timeline).toEqual([
+        { date: "2025-10-02", inbound_tons: 3, projected_load_tons: 8, utilization_pct: 80 },
+        { date: "2025-10-05", inbound_tons: 4, projected_load_tons: 12, utilization_pct: 120 },
+      ]);
+    });
+
+    it("should return 404 forecasting a non-existent facility", async () => {
+      const response = await request(app).get("/api/facilities/NONEXISTENT/capacity-forecast");
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -2,6 +2,8 @@
 import request from "supertest";
 import { connectDB, disconnectDB } from "../../api/db/connection.js";
 import { InspectionModel } from "../../api/models/Inspection.js";
+import { ShipmentModel } from "../../api/models/Shipment.js";
+import { FacilityModel } from "../../api/models/Facility.js";
 import app from "../../api/server.js";
 
 const testDbUri = process.env.MONGODB_TEST_URI || "mongodb://localhost:27017/wasteer-test";
@@ -163,6 +165,21 @@ describe("Inspections API", () => {
   });
 
   describe("POST /api/inspections", () => {
+    // Inspections must point at an existing shipment and facility
+    beforeEach(async () => {
+      await ShipmentModel.deleteMany({});
+      await FacilityModel.deleteMany({});
+      await FacilityModel.create({ id: "F1", name: "Test Facility", location: "Test City", type: "sorting", capacity_tons: 500 });
+      await ShipmentModel.create({
+        id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "delivered",
+        weight_kg: 1500,
+        has_contaminants: false,
+      });
+    });
+
     it("should create a new inspection", async () => {
       const newInspection = {
         id: "I1",
@@ -195,6 +212,20 @@ describe("Inspections API", () => {
 
       expect(response.status).toBe(409);
     });
+
+    it("should return 422 for a facility that doesn't exist", async () => {
+      const response = await request(app).post("/api/inspections").send({
+        id: "I1",
+        shipment_id: "S1",
+        facility_id: "F9",
+        date: "2025-10-05",
+        status: "accepted",
+        inspector: "John Doe",
+      });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.details).toEqual([{ field: "facility_id", value: "F9", references: "Facility" }]);
+    });
   });
 
   describe("PUT /api/inspections/:id", () => {
@@ -0,0 +1,94 @@
+// API tests for authentication and role checks (rejected requests never reach the database)
+import request from "supertest";
+import express from "express";
+import shipmentsRouter from "../../../api/routes/shipments.js";
+import { authenticate, requireRole } from "../../../api/middleware/auth.js";
+import { getActor } from "../../../api/middleware/actor.js";
+import { errorHandler } from "../../../api/middleware/errorHandler.js";
+import { signJwt } from "../../../shared/auth/jwt.js";
+
+describe("API authentication", () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.API_KEYS = "viewer-key:viewer:dana,admin-key:admin:root";
+    process.env.JWT_SECRET = "secret";
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  // Mounted the way server.ts mounts the API routes
+  const app = express();
+  app.use(express.json());
+  app.use("/api", authenticate);
+  app.use("/api/shipments", shipmentsRouter);
+  app.use(errorHandler);
+
+  it("should reject requests without credentials", async () => {
+    const response = await request(app).get("/api/shipments");
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe("UNAUTHENTICATED");
+  });
+
+  it("should reject an expired token", async () => {
+    const token = signJwt({ sub: "dana", role: "admin", exp: 1 }, "secret");
+
+    const response = await request(app).get("/api/shipments").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.message).toBe("Token has expired");
+  });
+
+  it("should refuse writes above the caller's role", async () => {
+    const response = await request(app).delete("/api/shipments/S1").set("X-API-Key", "viewer-key");
+
+    expect(response.status).toBe(403);
+    expect(response.body.error.code).toBe("FORBIDDEN");
+    expect(response.body.error.details).toEqual({
+      action: "DELETE /api/shipments/S1",
+      role: "viewer",
+      requiredRole: "admin",
+    });
+  });
+
+  it("should let inspectors record inspections but not shipments", async () => {
+    const token = signJwt({ sub: "lee", role: "inspector" }, "secret");
+
+    const response = await request(app)
+      .post("/api/shipments")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ id: "S1" });
+
+    expect(response.status).toBe(403);
+    expect(response.body.error.details.requiredRole).toBe("operator");
+  });
+
+  describe("requireRole", () => {
+    const probe = express();
+    probe.use(express.json());
+    probe.post("/probe", authenticate, requireRole("operator"), (req, res) => {
+      res.json({ success: true, data: { user: req.user?.id, actor: getActor(req) } });
+    });
+    probe.use(errorHandler);
+
+    it("should let the role and above through and attribute changes to the caller", async () => {
+      const response = await request(probe).post("/probe").set("X-API-Key", "admin-key").send({ actor: "someone-else" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ user: "root", actor: "root" });
+    });
+
+    it("should let everyone through while authentication is off", async () => {
+      delete process.env.API_KEYS;
+      delete process.env.JWT_SECRET;
+
+      const response = await request(probe).post("/probe").send({ actor: "ops-team" });
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toEqual({ user: "anonymous", actor: "ops-team" });
+    });
+  });
+});
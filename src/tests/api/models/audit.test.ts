@@ -0,0 +1,61 @@
+// Unit tests for the audit plugin's diffs and the append-only audit log
+import mongoose from "mongoose";
+import { auditSnapshot, diffRecords } from "../../../api/models/audit.js";
+import { AuditEntryModel } from "../../../api/models/AuditEntry.js";
+
+describe("Audit log", () => {
+  describe("auditSnapshot", () => {
+    it("should drop internals, timestamps and unset fields", () => {
+      const snapshot = auditSnapshot({
+        _id: "abc",
+        __v: 0,
+        id: "S1",
+        status: "pending",
+        notes: undefined,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(snapshot).toEqual({ id: "S1", status: "pending" });
+    });
+  });
+
+  describe("diffRecords", () => {
+    it("should list changed, added and removed fields", () => {
+      const changes = diffRecords(
+        { id: "S1", status: "pending", weight_kg: 1000, notes: "fragile" },
+        { id: "S1", status: "delivered", weight_kg: 1000, producer_id: "P1" }
+      );
+
+      expect(changes).toEqual([
+        { field: "status", from: "pending", to: "delivered" },
+        { field: "notes", from: "fragile", to: undefined },
+        { field: "producer_id", from: undefined, to: "P1" },
+      ]);
+    });
+
+    it("should compare nested objects and arrays by value", () => {
+      const before = { coordinates: { lat: 1, lon: 2 }, accepted_waste_types: ["plastic"] };
+
+      expect(diffRecords(before, { coordinates: { lat: 1, lon: 2 }, accepted_waste_types: ["plastic"] })).toEqual([]);
+      expect(diffRecords(before, { ...before, accepted_waste_types: ["plastic", "glass"] })).toEqual([
+        { field: "accepted_waste_types", from: ["plastic"], to: ["plastic", "glass"] },
+      ]);
+    });
+  });
+
+  describe("AuditEntryModel", () => {
+    beforeAll(() => {
+      mongoose.set("bufferCommands", false);
+    });
+
+    afterAll(() => {
+      mongoose.set("bufferCommands", true);
+    });
+
+    it("should refuse to change or remove entries", async () => {
+      await expect(AuditEntryModel.updateOne({}, { $set: { actor: "someone" } })).rejects.toThrow("append-only");
+      await expect(AuditEntryModel.findOneAndDelete({})).rejects.toThrow("append-only");
+    });
+  });
+});
@@ -0,0 +1,96 @@
+// Unit tests for deriving domain events from record changes
+import { deriveDomainEvents } from "../../../api/models/domain-events.js";
+
+const shipment = {
+  id: "S1",
+  facility_id: "F1",
+  producer_id: "P1",
+  status: "pending",
+  weight_kg: 1200,
+};
+
+describe("Domain events", () => {
+  describe("Shipment", () => {
+    it("should raise shipment.created for a new shipment", () => {
+      const events = deriveDomainEvents("Shipment", null, shipment);
+
+      expect(events).toEqual([
+        {
+          type: "shipment.created",
+          entity_id: "S1",
+          payload: { shipment_id: "S1", facility_id: "F1", producer_id: "P1", status: "pending", weight_kg: 1200 },
+        },
+      ]);
+    });
+
+    it("should raise shipment.status_changed with the old and new status", () => {
+      const events = deriveDomainEvents("Shipment", shipment, { ...shipment, status: "in_transit" });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: "shipment.status_changed",
+        payload: { from: "pending", to: "in_transit" },
+      });
+    });
+
+    it("should also raise shipment.rejected when a shipment is rejected", () => {
+      const events = deriveDomainEvents("Shipment", shipment, { ...shipment, status: "rejected" });
+
+      expect(events.map(event => event.type)).toEqual(["shipment.status_changed", "shipment.rejected"]);
+    });
+
+    it("should raise nothing for changes to other fields or deletes", () => {
+      expect(deriveDomainEvents("Shipment", shipment, { ...shipment, weight_kg: 1300 })).toEqual([]);
+      expect(deriveDomainEvents("Shipment", shipment, { ...shipment, deleted_at: "2025-06-01T00:00:00.000Z" })).toEqual([]);
+      expect(deriveDomainEvents("Shipment", shipment, null)).toEqual([]);
+    });
+  });
+
+  describe("Contaminant", () => {
+    it("should raise contaminant.detected with the risk level", () => {
+      const events = deriveDomainEvents("Contaminant", null, {
+        id: "CT1",
+        shipment_id: "S1",
+        facility_id: "F1",
+        type: "Lead",
+        risk_level: "critical",
+        concentration_ppm: 450,
+        detected_at: "2025-06-01T10:00:00.000Z",
+      });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: "contaminant.detected",
+        entity_id: "CT1",
+        payload: { risk_level: "critical", concentration_ppm: 450, shipment_id: "S1" },
+      });
+    });
+
+    it("should raise nothing when a contaminant is updated", () => {
+      const contaminant = { id: "CT1", risk_level: "low" };
+
+      expect(deriveDomainEvents("Contaminant", contaminant, { ...contaminant, risk_level: "high" })).toEqual([]);
+    });
+  });
+
+  describe("Inspection", () => {
+    const inspection = { id: "I1", shipment_id: "S1", status: "accepted", follow_up_required: false };
+
+    it("should raise inspection.follow_up_required when follow-up becomes required", () => {
+      expect(deriveDomainEvents("Inspection", inspection, { ...inspection, follow_up_required: true })).toMatchObject([
+        { type: "inspection.follow_up_required", entity_id: "I1" },
+      ]);
+      expect(deriveDomainEvents("Inspection", null, { ...inspection, follow_up_required: true })).toHaveLength(1);
+    });
+
+    it("should raise nothing once follow-up is already required", () => {
+      const flagged = { ...inspection, follow_up_required: true };
+
+      expect(deriveDomainEvents("Inspection", flagged, { ...flagged, notes: "Called the producer" })).toEqual([]);
+    });
+  });
+
+  it("should raise nothing for models without events", () => {
+    expect(deriveDomainEvents("Facility", null, { id: "F1" })).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+// Unit tests for the soft delete plugin (queries fail without a connection, after their hooks have run)
+import mongoose from "mongoose";
+import { ShipmentModel } from "../../../api/models/Shipment.js";
+import { ShipmentStatusHistoryModel } from "../../../api/models/ShipmentStatusHistory.js";
+
+describe("softDeletePlugin", () => {
+  beforeAll(() => {
+    mongoose.set("bufferCommands", false);
+  });
+
+  afterAll(() => {
+    mongoose.set("bufferCommands", true);
+  });
+
+  // Queries are thenables, so run() can't hand them back from an async function
+  async function run(...queries: Array<{ exec(): Promise<unknown> }>): Promise<void> {
+    await Promise.all(queries.map(query => query.exec().catch(() => undefined)));
+  }
+
+  it("should add deleted_at to the schema", () => {
+    expect(ShipmentModel.schema.path("deleted_at")).toBeDefined();
+    expect(ShipmentStatusHistoryModel.schema.path("deleted_at")).toBeUndefined();
+  });
+
+  it("should hide soft-deleted records from reads and updates", async () => {
+    const find = ShipmentModel.find({ status: "pending" });
+    const update = ShipmentModel.updateMany({ status: "pending" }, { $set: { status: "in_transit" } });
+    const count = ShipmentModel.countDocuments({});
+    await run(find, update, count);
+
+    expect(find.getFilter()).toEqual({ status: "pending", deleted_at: null });
+    expect(update.getFilter()).toEqual({ status: "pending", deleted_at: null });
+    expect(count.getFilter()).toEqual({ deleted_at: null });
+  });
+
+  it("should include them with withDeleted or an explicit deleted_at filter", async () => {
+    const withDeleted = ShipmentModel.find({ status: "pending" }).setOptions({ withDeleted: true });
+    const onlyDeleted = ShipmentModel.find({ deleted_at: { $ne: null } });
+    await run(withDeleted, onlyDeleted);
+
+    expect(withDeleted.getFilter()).toEqual({ status: "pending" });
+    expect(onlyDeleted.getFilter()).toEqual({ deleted_at: { $ne: null } });
+  });
+
+  it("should leave deleteMany alone", async () => {
+    const query = ShipmentModel.deleteMany({});
+    await run(query);
+
+    expect(query.getFilter()).toEqual({});
+  });
+
+  it("should filter aggregations unless withDeleted is set", async () => {
+    const aggregate = ShipmentModel.aggregate([{ $match: { status: "pending" } }]);
+    const withDeleted = ShipmentModel.aggregate([{ $match: { status: "pending" } }]).option({ withDeleted: true } as any);
+    await run(aggregate, withDeleted);
+
+    expect(aggregate.pipeline()).toEqual([{ $match: { deleted_at: null } }, { $match: { status: "pending" } }]);
+    expect(withDeleted.pipeline()).toEqual([{ $match: { status: "pending" } }]);
+  });
+});
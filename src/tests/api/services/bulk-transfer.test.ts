@@ -0,0 +1,233 @@
+// Unit tests for bulk import parsing and validation
+import { z } from "zod";
+import {
+  BulkTransferError,
+  detectImportFormat,
+  exportColumns,
+  importDocuments,
+  parseImportRows,
+} from "../../../api/services/bulk-transfer.js";
+import { FacilityModel } from "../../../api/models/Facility.js";
+import { ShipmentModel } from "../../../api/models/Shipment.js";
+
+const shipmentRow = z.object({
+  id: z.string().min(1),
+  facility_id: z.string().min(1),
+  date: z.string(),
+  status: z.enum(["pending", "in_transit", "delivered", "rejected"]),
+  weight_kg: z.number().positive(),
+  has_contaminants: z.boolean(),
+});
+
+const row = (id: string, overrides: Record<string, any> = {}) => ({
+  id,
+  facility_id: "F1",
+  date: "2025-10-01",
+  status: "pending",
+  weight_kg: 1000,
+  has_contaminants: false,
+  ...overrides,
+});
+
+describe("detectImportFormat", () => {
+  it("should use ?format= over the Content-Type", () => {
+    expect(detectImportFormat("text/csv", "ndjson")).toBe("ndjson");
+  });
+
+  it("should fall back to the Content-Type", () => {
+    expect(detectImportFormat("text/csv; charset=utf-8")).toBe("csv");
+    expect(detectImportFormat("application/x-ndjson")).toBe("ndjson");
+  });
+
+  it("should reject unknown formats", () => {
+    expect(() => detectImportFormat("application/json")).toThrow(BulkTransferError);
+    expect(() => detectImportFormat("text/csv", "xlsx")).toThrow("format must be one of: csv, ndjson");
+  });
+});
+
+describe("exportColumns", () => {
+  it("should list data fields with nested fields as dotted paths", () => {
+    const columns = exportColumns(FacilityModel);
+
+    expect(columns).toEqual(expect.arrayContaining(["id", "capacity_tons", "coordinates.lat", "accepted_waste_types"]));
+    expect(columns).not.toContain("_id");
+    expect(columns).not.toContain("createdAt");
+  });
+});
+
+describe("parseImportRows", () => {
+  it("should convert CSV cells to the model's types", () => {
+    const csv = [
+      "id,capacity_tons,coordinates.lat,coordinates.lon,accepted_waste_types,operating_hours",
+      "F1,500,52.5,13.4,plastic;paper,",
+    ].join("\n");
+
+    expect(parseImportRows(FacilityModel, csv, "csv")).toEqual([
+      {
+        row: 1,
+        value: {
+          id: "F1",
+          capacity_tons: 500,
+          coordinates: { lat: 52.5, lon: 13.4 },
+          accepted_waste_types: ["plastic", "paper"],
+        },
+      },
+    ]);
+  });
+
+  it("should parse booleans and leave bad numbers for validation to report", () => {
+    const csv = "id,has_contaminants,weight_kg\nS1,TRUE,heavy";
+
+    expect(parseImportRows(ShipmentModel, csv, "csv")[0]!.value).toEqual({
+      id: "S1",
+      has_contaminants: true,
+      weight_kg: "heavy",
+    });
+  });
+
+  it("should report rows with the wrong number of cells", () => {
+    const rows = parseImportRows(ShipmentModel, "id,weight_kg\nS1", "csv");
+
+    expect(rows).toEqual([{ row: 1, errors: ["Expected 2 cells, got 1"] }]);
+  });
+
+  it("should reject unknown columns", () => {
+    expect(() => parseImportRows(ShipmentModel, "id,colour\nS1,red", "csv")).toThrow("Unknown columns: colour");
+  });
+
+  it("should parse NDJSON lines and report bad ones", () => {
+    const ndjson = '{"id":"S1"}\n\nnot json\n[1,2]\n';
+
+    expect(parseImportRows(ShipmentModel, ndjson, "ndjson")).toEqual([
+      { row: 1, value: { id: "S1" } },
+      { row: 2, errors: ["Invalid JSON"] },
+      { row: 3, errors: ["Each line must be a JSON object"] },
+    ]);
+  });
+});
+
+describe("importDocuments", () => {
+  const mockExisting = (ids: string[]) =>
+    jest.spyOn(ShipmentModel, "find").mockReturnValue({
+      lean: jest.fn().mockResolvedValue(ids.map(id => ({ id }))),
+    } as any);
+
+  // Facilities F1 and F2 exist
+  beforeEach(() => {
+    jest
+      .spyOn(FacilityModel, "exists")
+      .mockImplementation(((filter: any) => Promise.resolve(["F1", "F2"].includes(filter.id) ? { _id: filter.id } : null)) as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should import valid rows and report the others", async () => {
+    mockExisting(["S3"]);
+    const create = jest.fn().mockResolvedValue({});
+
+    const report = await importDocuments(
+      [
+        { row: 1, value: row("S1") },
+        { row: 2, value: row("S2", { weight_kg: -5 }) },
+        { row: 3, value: row("S3") },
+        { row: 4, value: row("S1") },
+        { row: 5, errors: ["Invalid JSON"] },
+      ],
+      { model: ShipmentModel, schema: shipmentRow, format: "ndjson", dryRun: false, create }
+    );
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(create).toHaveBeenCalledWith(row("S1"));
+    expect(report).toMatchObject({ dry_run: false, format: "ndjson", total_rows: 5, valid_rows: 1, imported: 1, failed: 4 });
+    expect(report.errors).toEqual([
+      { row: 2, id: "S2", errors: [expect.stringContaining("weight_kg:")] },
+      { row: 3, id: "S3", errors: ["id S3 already exists"] },
+      { row: 4, id: "S1", errors: ["Duplicate id S1 (first used on row 1)"] },
+      { row: 5, errors: ["Invalid JSON"] },
+    ]);
+  });
+
+  it("should report rows that create rejects", async () => {
+    mockExisting([]);
+    const create = jest
+      .fn()
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error("Facility F1 would exceed capacity"));
+
+    const report = await importDocuments([{ row: 1, value: row("S1") }, { row: 2, value: row("S2") }], {
+      model: ShipmentModel,
+      schema: shipmentRow,
+      format: "csv",
+      dryRun: false,
+      create,
+    });
+
+    expect(report.imported).toBe(1);
+    expect(report.errors).toEqual([{ row: 2, id: "S2", errors: ["Facility F1 would exceed capacity"] }]);
+  });
+
+  it("should only validate and preview on dry runs", async () => {
+    mockExisting([]);
+    const create = jest.fn();
+    const preview = jest.fn().mockImplementation(async (data: any) => (data.id === "S2" ? ["Over capacity"] : []));
+
+    const report = await importDocuments([{ row: 1, value: row("S1") }, { row: 2, value: row("S2") }], {
+      model: ShipmentModel,
+      schema: shipmentRow,
+      format: "csv",
+      dryRun: true,
+      create,
+      preview,
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ dry_run: true, valid_rows: 1, imported: 0, failed: 1 });
+    expect(report.errors).toEqual([{ row: 2, id: "S2", errors: ["Over capacity"] }]);
+  });
+
+  it("should preview each row after the rows accepted before it", async () => {
+    mockExisting([]);
+    const seen: string[][] = [];
+    const preview = jest.fn().mockImplementation(async (data: any, accepted: any[]) => {
+      seen.push(accepted.map(row => row.id));
+      return accepted.reduce((total, row) => total + row.weight_kg, data.weight_kg) > 2500 ? ["Over quota"] : [];
+    });
+
+    const report = await importDocuments(
+      [
+        { row: 1, value: row("S1") },
+        { row: 2, value: row("S2", { weight_kg: 2000 }) },
+        { row: 3, value: row("S3") },
+      ],
+      { model: ShipmentModel, schema: shipmentRow, format: "csv", dryRun: true, preview }
+    );
+
+    expect(seen).toEqual([[], ["S1"], ["S1"]]);
+    expect(report).toMatchObject({ valid_rows: 2, failed: 1 });
+    expect(report.errors).toEqual([{ row: 2, id: "S2", errors: ["Over quota"] }]);
+  });
+
+  it("should report rows whose foreign keys match nothing", async () => {
+    mockExisting([]);
+    const create = jest.fn().mockResolvedValue({});
+
+    const report = await importDocuments(
+      [
+        { row: 1, value: row("S1") },
+        { row: 2, value: row("S2", { facility_id: "F9" }) },
+      ],
+      { model: ShipmentModel, schema: shipmentRow, format: "csv", dryRun: false, create }
+    );
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(report.errors).toEqual([{ row: 2, id: "S2", errors: ["facility_id: F9 does not match any Facility"] }]);
+  });
+
+  it("should reject empty imports", async () => {
+    await expect(
+      importDocuments([], { model: ShipmentModel, schema: shipmentRow, format: "csv", dryRun: true })
+    ).rejects.toThrow("No rows to import");
+  });
+});
@@ -0,0 +1,151 @@
+// Unit tests for contract enforcement checks
+import {
+  ContractViolationError,
+  findContractViolations,
+  getContractEnforcementMode,
+  selectContract,
+} from "../../../api/services/contract-enforcement.js";
+import { IContract } from "../../../api/models/Contract.js";
+
+const contract = (overrides: Partial<IContract> = {}): IContract => ({
+  id: "C1",
+  producer_id: "P1",
+  facility_id: "F1",
+  waste_types_declared: ["150101", "plastic"],
+  start_date: "2025-01-01",
+  end_date: "2025-12-31",
+  max_weight_kg: 10000,
+  status: "active",
+  terms: "Standard terms",
+  ...overrides,
+});
+
+const shipment = {
+  id: "S1",
+  facility_id: "F1",
+  producer_id: "P1",
+  date: "2025-06-15",
+  weight_kg: 2000,
+  waste_type: "plastic",
+};
+
+describe("Contract enforcement", () => {
+  describe("findContractViolations", () => {
+    it("should pass a shipment within its contract", () => {
+      expect(findContractViolations(shipment, contract(), 5000)).toEqual([]);
+    });
+
+    it("should report a producer without a contract", () => {
+      const violations = findContractViolations(shipment, null, 0);
+
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({ type: "no_contract" });
+    });
+
+    it("should report suspended and expired contracts", () => {
+      expect(findContractViolations(shipment, contract({ status: "suspended" }), 0).map(v => v.type)).toEqual([
+        "contract_suspended",
+      ]);
+      expect(findContractViolations(shipment, contract({ status: "expired" }), 0).map(v => v.type)).toEqual([
+        "contract_expired",
+      ]);
+    });
+
+    it("should report shipments outside the contract period", () => {
+      const violations = findContractViolations({ ...shipment, date: "2026-01-02" }, contract(), 0);
+
+      expect(violations.map(v => v.type)).toEqual(["outside_contract_period"]);
+    });
+
+    it("should compare dates by day", () => {
+      expect(findContractViolations({ ...shipment, date: "2025-12-31T18:00:00.000Z" }, contract(), 0)).toEqual([]);
+    });
+
+    it("should accept a declared waste code or waste type", () => {
+      expect(findContractViolations({ ...shipment, waste_type: "metal", waste_code: "150101" }, contract(), 0)).toEqual(
+        []
+      );
+
+      const violations = findContractViolations({ ...shipment, waste_type: "metal" }, contract(), 0);
+      expect(violations[0]).toMatchObject({
+        type: "undeclared_waste_type",
+        details: { stated: ["metal"], declared: ["150101", "plastic"] },
+      });
+    });
+
+    it("should skip the waste type check when the shipment states none", () => {
+      const { waste_type: _ignored, ...untyped } = shipment;
+
+      expect(findContractViolations(untyped, contract(), 0)).toEqual([]);
+    });
+
+    it("should report shipments that take the contract over its weight limit", () => {
+      expect(findContractViolations(shipment, contract(), 8000)).toEqual([]);
+
+      const violations = findContractViolations(shipment, contract(), 8001);
+      expect(violations[0]).toMatchObject({
+        type: "weight_limit_exceeded",
+        details: { used_kg: 8001, shipment_kg: 2000, projected_kg: 10001, max_weight_kg: 10000 },
+      });
+    });
+  });
+
+  describe("selectContract", () => {
+    it("should prefer an active contract covering the date", () => {
+      const contracts = [
+        contract({ id: "old", start_date: "2024-01-01", end_date: "2024-12-31" }),
+        contract({ id: "suspended", status: "suspended" }),
+        contract({ id: "current" }),
+      ];
+
+      expect(selectContract(contracts, "2025-06-15")?.id).toBe("current");
+    });
+
+    it("should fall back to an inactive contract covering the date, then the latest one", () => {
+      const contracts = [
+        contract({ id: "older", start_date: "2023-01-01", end_date: "2023-12-31" }),
+        contract({ id: "suspended", status: "suspended" }),
+        contract({ id: "old", start_date: "2024-01-01", end_date: "2024-12-31" }),
+      ];
+
+      expect(selectContract(contracts, "2025-06-15")?.id).toBe("suspended");
+      expect(selectContract(contracts, "2026-06-15")?.id).toBe("suspended");
+      expect(selectContract(contracts.filter(c => c.id !== "suspended"), "2026-06-15")?.id).toBe("old");
+      expect(selectContract([], "2025-06-15")).toBeNull();
+    });
+  });
+
+  describe("getContractEnforcementMode", () => {
+    const original = process.env.CONTRACT_ENFORCEMENT_MODE;
+
+    afterEach(() => {
+      if (original === undefined) delete process.env.CONTRACT_ENFORCEMENT_MODE;
+      else process.env.CONTRACT_ENFORCEMENT_MODE = original;
+    });
+
+    it("should default to reject", () => {
+      delete process.env.CONTRACT_ENFORCEMENT_MODE;
+      expect(getContractEnforcementMode()).toBe("reject");
+    });
+
+    it("should read flag mode from the environment", () => {
+      process.env.CONTRACT_ENFORCEMENT_MODE = "flag";
+      expect(getContractEnforcementMode()).toBe("flag");
+    });
+  });
+
+  it("should describe violations in a structured 422 error", () => {
+    const error = new ContractViolationError({
+      shipment_id: "S1",
+      producer_id: "P1",
+      facility_id: "F1",
+      contract_id: "C1",
+      violations: [{ type: "contract_suspended", message: "Contract C1 is suspended" }],
+    });
+
+    expect(error.statusCode).toBe(422);
+    expect(error.code).toBe("CONTRACT_VIOLATION");
+    expect(error.message).toBe("Shipment S1 violates contract C1: Contract C1 is suspended");
+    expect(error.details.violations).toHaveLength(1);
+  });
+});
@@ -0,0 +1,162 @@
+// Unit tests for contract usage and the contract monitor
+import { buildContractUsage } from "../../../api/services/contract-usage.js";
+import { evaluateContractAlerts, runContractMonitor } from "../../../api/services/contract-monitor.js";
+import { ContractModel, IContract } from "../../../api/models/Contract.js";
+import { ContractAlertModel } from "../../../api/models/ContractAlert.js";
+import { ShipmentModel } from "../../../api/models/Shipment.js";
+
+const contract = (overrides: Partial<IContract> = {}): IContract => ({
+  id: "C1",
+  producer_id: "P1",
+  facility_id: "F1",
+  waste_types_declared: ["150101"],
+  start_date: "2025-01-01",
+  end_date: "2025-12-31",
+  max_weight_kg: 10000,
+  status: "active",
+  terms: "Standard terms",
+  ...overrides,
+});
+
+const deliveries = [
+  { id: "S2", date: "2025-01-06", weight_kg: 3000 },
+  { id: "S1", date: "2025-01-02", weight_kg: 1000 },
+];
+
+describe("buildContractUsage", () => {
+  it("should build a ledger in date order with running totals", () => {
+    const usage = buildContractUsage(contract(), deliveries, new Date("2025-01-10T12:00:00Z"));
+
+    expect(usage.ledger).toEqual([
+      { shipment_id: "S1", date: "2025-01-02", weight_kg: 1000, cumulative_kg: 1000 },
+      { shipment_id: "S2", date: "2025-01-06", weight_kg: 3000, cumulative_kg: 4000 },
+    ]);
+    expect(usage).toMatchObject({
+      used_kg: 4000,
+      remaining_kg: 6000,
+      used_pct: 40,
+      shipment_count: 2,
+      as_of: "2025-01-10",
+    });
+  });
+
+  it("should project exhaustion from the average daily burn rate", () => {
+    const usage = buildContractUsage(contract(), deliveries, new Date("2025-01-10T12:00:00Z"));
+
+    // 4000kg over 10 days is 400kg/day, so the remaining 6000kg lasts 15 more days
+    expect(usage.days_elapsed).toBe(10);
+    expect(usage.burn_rate_kg_per_day).toBe(400);
+    expect(usage.projected_exhaustion_date).toBe("2025-01-25");
+    expect(usage.exhausts_before_end).toBe(true);
+    expect(usage.days_remaining).toBe(355);
+  });
+
+  it("should report when the quota was used up", () => {
+    const usage = buildContractUsage(
+      contract({ max_weight_kg: 3500 }),
+      deliveries,
+      new Date("2025-02-01T00:00:00Z")
+    );
+
+    expect(usage.remaining_kg).toBe(0);
+    expect(usage.exhausted_on).toBe("2025-01-06");
+    expect(usage.projected_exhaustion_date).toBe("2025-01-06");
+  });
+
+  it("should leave out deliveries after the as-of day", () => {
+    const later = [...deliveries, { id: "S3", date: "2025-01-12", weight_kg: 6000 }];
+    const usage = buildContractUsage(contract({ max_weight_kg: 5000 }), later, new Date("2025-01-10T12:00:00Z"));
+
+    expect(usage.ledger.map(entry => entry.shipment_id)).toEqual(["S1", "S2"]);
+    expect(usage).toMatchObject({ used_kg: 4000, shipment_count: 2, burn_rate_kg_per_day: 400 });
+    expect(usage.exhausted_on).toBeUndefined();
+  });
+
+  it("should not project anything before the first delivery", () => {
+    const usage = buildContractUsage(contract(), [], new Date("2024-12-15T00:00:00Z"));
+
+    expect(usage.days_elapsed).toBe(0);
+    expect(usage.burn_rate_kg_per_day).toBe(0);
+    expect(usage.projected_exhaustion_date).toBeNull();
+    expect(usage.exhausts_before_end).toBe(false);
+  });
+
+  it("should flag projections past the end date", () => {
+    const usage = buildContractUsage(
+      contract({ end_date: "2025-01-20" }),
+      deliveries,
+      new Date("2025-01-10T00:00:00Z")
+    );
+
+    expect(usage.projected_exhaustion_date).toBe("2025-01-25");
+    expect(usage.exhausts_before_end).toBe(false);
+  });
+});
+
+describe("evaluateContractAlerts", () => {
+  const options = { quotaAlertPct: 90, expiryAlertDays: 30 };
+
+  it("should raise nothing for a contract with room and time left", () => {
+    const usage = buildContractUsage(contract(), deliveries, new Date("2025-01-10T00:00:00Z"));
+
+    expect(evaluateContractAlerts(usage, options)).toEqual([]);
+  });
+
+  it("should alert when the quota is nearly or fully used", () => {
+    const nearing = buildContractUsage(contract({ max_weight_kg: 4400 }), deliveries, new Date("2025-01-10T00:00:00Z"));
+    const exhausted = buildContractUsage(contract({ max_weight_kg: 4000 }), deliveries, new Date("2025-01-10T00:00:00Z"));
+
+    expect(evaluateContractAlerts(nearing, options).map(a => a.type)).toEqual(["quota_nearing"]);
+    expect(evaluateContractAlerts(exhausted, options).map(a => a.type)).toEqual(["quota_exhausted"]);
+  });
+
+  it("should alert when the end date is close", () => {
+    const usage = buildContractUsage(contract(), deliveries, new Date("2025-12-10T00:00:00Z"));
+    const [alert] = evaluateContractAlerts(usage, options);
+
+    expect(alert).toMatchObject({
+      contract_id: "C1",
+      type: "end_date_nearing",
+      details: { end_date: "2025-12-31", days_remaining: 21 },
+    });
+  });
+});
+
+describe("runContractMonitor", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should expire past-end contracts, raise alerts and resolve stale ones", async () => {
+    const pastEnd = contract({ id: "C0", end_date: "2025-01-31" });
+    const nearlyUsed = contract({ id: "C1", max_weight_kg: 4200 });
+
+    jest
+      .spyOn(ContractModel, "find")
+      .mockResolvedValueOnce([pastEnd] as any)
+      .mockResolvedValueOnce([nearlyUsed] as any);
+    const expire = jest.spyOn(ContractModel, "updateMany").mockResolvedValue({} as any);
+    jest.spyOn(ShipmentModel, "find").mockReturnValue({ lean: jest.fn().mockResolvedValue(deliveries) } as any);
+    jest.spyOn(ContractAlertModel, "findOne").mockResolvedValue(null);
+    const save = jest.spyOn(ContractAlertModel, "updateOne").mockResolvedValue({} as any);
+    const resolve = jest.spyOn(ContractAlertModel, "updateMany").mockResolvedValue({ modifiedCount: 2 } as any);
+
+    const result = await runContractMonitor(new Date("2025-02-01T08:00:00Z"), { quotaAlertPct: 90, expiryAlertDays: 30 });
+
+    expect(result.expired).toEqual(["C0"]);
+    expect(result.alerts.map(a => [a.contract_id, a.type])).toEqual([
+      ["C0", "auto_expired"],
+      ["C1", "quota_nearing"],
+    ]);
+    expect(result.resolved).toBe(2);
+    expect(expire).toHaveBeenCalledWith({ id: { $in: ["C0"] } }, { $set: { status: "expired" } });
+    expect(save).toHaveBeenCalledTimes(2);
+    expect(save.mock.calls[1]?.[1]).toMatchObject({
+      $set: { type: "quota_nearing", active: true, raised_at: "2025-02-01T08:00:00.000Z" },
+    });
+    expect(resolve).toHaveBeenCalledWith(
+      { active: true, type: { $ne: "auto_expired" }, last_checked_at: { $ne: "2025-02-01T08:00:00.000Z" } },
+      { $set: { active: false, resolved_at: "2025-02-01T08:00:00.000Z" } }
+    );
+  });
+});
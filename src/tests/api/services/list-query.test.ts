@@ -0,0 +1,174 @@
+// Unit tests for list query parsing, cursors and paging
+import mongoose from "mongoose";
+import {
+  ListQueryError,
+  cursorFilter,
+  decodeCursor,
+  encodeCursor,
+  listDocuments,
+  numericRangeFilter,
+  parseFields,
+  parseLimit,
+  parseSort,
+} from "../../../api/services/list-query.js";
+import { ShipmentModel } from "../../../api/models/Shipment.js";
+
+describe("parseLimit", () => {
+  it("should default to 100 and accept up to 1000", () => {
+    expect(parseLimit(undefined)).toBe(100);
+    expect(parseLimit("1000")).toBe(1000);
+  });
+
+  it("should reject limits outside 1 to 1000", () => {
+    expect(() => parseLimit("0")).toThrow(ListQueryError);
+    expect(() => parseLimit("1001")).toThrow(ListQueryError);
+    expect(() => parseLimit("ten")).toThrow(ListQueryError);
+  });
+});
+
+describe("parseSort", () => {
+  it("should parse multiple fields and add _id as a tiebreaker", () => {
+    expect(parseSort(ShipmentModel, "-date,weight_kg")).toEqual([
+      ["date", -1],
+      ["weight_kg", 1],
+      ["_id", 1],
+    ]);
+  });
+
+  it("should fall back to the default sort", () => {
+    expect(parseSort(ShipmentModel, undefined, "-date")).toEqual([
+      ["date", -1],
+      ["_id", 1],
+    ]);
+    expect(parseSort(ShipmentModel, undefined)).toEqual([["_id", 1]]);
+  });
+
+  it("should reject unknown fields", () => {
+    expect(() => parseSort(ShipmentModel, "-colour")).toThrow("Cannot sort by unknown field: colour");
+  });
+});
+
+describe("parseFields", () => {
+  it("should return null when no fields are requested", () => {
+    expect(parseFields(ShipmentModel, undefined)).toBeNull();
+  });
+
+  it("should parse a comma-separated list", () => {
+    expect(parseFields(ShipmentModel, "id, date,status")).toEqual(["id", "date", "status"]);
+  });
+
+  it("should reject unknown and internal fields", () => {
+    expect(() => parseFields(ShipmentModel, "id,colour,_id")).toThrow("Unknown fields: colour, _id");
+  });
+});
+
+describe("numericRangeFilter", () => {
+  it("should build $gte/$lte filters for numeric fields", () => {
+    expect(numericRangeFilter(ShipmentModel, { weight_kg_min: "1000", weight_kg_max: "5000", status: "pending" })).toEqual({
+      weight_kg: { $gte: 1000, $lte: 5000 },
+    });
+  });
+
+  it("should ignore _min/_max on non-numeric fields", () => {
+    expect(numericRangeFilter(ShipmentModel, { carrier_min: "A" })).toEqual({});
+  });
+
+  it("should reject bounds that aren't numbers", () => {
+    expect(() => numericRangeFilter(ShipmentModel, { weight_kg_min: "heavy" })).toThrow("weight_kg_min must be a number");
+  });
+});
+
+describe("cursors", () => {
+  const sort = parseSort(ShipmentModel, "-date");
+  const objectId = new mongoose.Types.ObjectId();
+
+  it("should round-trip sort values", () => {
+    const cursor = encodeCursor(["2025-01-02", objectId.toString()]);
+
+    expect(decodeCursor(ShipmentModel, cursor, sort)).toEqual(["2025-01-02", objectId]);
+  });
+
+  it("should reject malformed cursors and cursors from another sort", () => {
+    expect(() => decodeCursor(ShipmentModel, "not-a-cursor", sort)).toThrow(ListQueryError);
+    expect(() => decodeCursor(ShipmentModel, encodeCursor([objectId.toString()]), sort)).toThrow(
+      "it must come from a request with the same sort"
+    );
+  });
+
+  it("should match items after the cursor position", () => {
+    expect(cursorFilter(sort, ["2025-01-02", objectId])).toEqual({
+      $or: [
+        { $or: [{ date: { $lt: "2025-01-02" } }, { date: null }] },
+        { date: "2025-01-02", _id: { $gt: objectId } },
+      ],
+    });
+  });
+
+  it("should place null and missing values before everything else", () => {
+    const ascending = parseSort(ShipmentModel, "carrier");
+
+    expect(cursorFilter(ascending, [null, objectId])).toEqual({
+      $or: [{ carrier: { $ne: null } }, { carrier: null, _id: { $gt: objectId } }],
+    });
+    expect(cursorFilter(parseSort(ShipmentModel, "-carrier"), [null, objectId])).toEqual({
+      $or: [{ carrier: null, _id: { $gt: objectId } }],
+    });
+  });
+});
+
+describe("listDocuments", () => {
+  const doc = (id: string) => new ShipmentModel({ id, facility_id: "F1", date: "2025-01-01", status: "pending", weight_kg: 100 });
+
+  const mockFind = (docs: any[]) => {
+    const query = { sort: jest.fn().mockReturnThis(), limit: jest.fn().mockResolvedValue(docs) };
+    const find = jest.spyOn(ShipmentModel, "find").mockReturnValue(query as any);
+    return { find, query };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("should return a cursor when there are more items than the limit", async () => {
+    const docs = [doc("S1"), doc("S2"), doc("S3")];
+    const { query } = mockFind(docs);
+    jest.spyOn(ShipmentModel, "countDocuments").mockResolvedValue(3 as any);
+
+    const page = await listDocuments(ShipmentModel, {}, { limit: "2" });
+
+    expect(query.limit).toHaveBeenCalledWith(3);
+    expect(page.count).toBe(2);
+    expect(page.total).toBe(3);
+    expect(page.next_cursor).toBe(encodeCursor([docs[1]!._id.toString()]));
+  });
+
+  it("should return no cursor on the last page", async () => {
+    mockFind([doc("S1")]);
+    jest.spyOn(ShipmentModel, "countDocuments").mockResolvedValue(1 as any);
+
+    const page = await listDocuments(ShipmentModel, {}, {});
+
+    expect(page.next_cursor).toBeNull();
+  });
+
+  it("should project the requested fields plus id", async () => {
+    const { find } = mockFind([doc("S1")]);
+    jest.spyOn(ShipmentModel, "countDocuments").mockResolvedValue(1 as any);
+
+    const page = await listDocuments(ShipmentModel, { status: "pending" }, { fields: "status", sort: "-weight_kg" });
+
+    expect(find).toHaveBeenCalledWith({ status: "pending" }, "id status weight_kg _id");
+    expect(page.data).toEqual([{ id: "S1", status: "pending" }]);
+  });
+
+  it("should combine range filters with the route's filters", async () => {
+    const { find } = mockFind([]);
+    const count = jest.spyOn(ShipmentModel, "countDocuments").mockResolvedValue(0 as any);
+
+    await listDocuments(ShipmentModel, { status: "pending" }, { weight_kg_min: "500" });
+
+    const expected = { $and: [{ status: "pending" }, { weight_kg: { $gte: 500 } }] };
+    expect(find).toHaveBeenCalledWith(expected, undefined);
+    expect(count).toHaveBeenCalledWith(expected);
+  });
+});
@@ -0,0 +1,205 @@
+// Unit tests for foreign key checks and delete policies
+import { Model } from "mongoose";
+import {
+  InvalidReferenceError,
+  ReferenceConstraintError,
+  assertReferences,
+  deleteWithPolicies,
+  findMissingReferences,
+  getDeletePolicyOverrides,
+  getRelations,
+  restoreWithPolicies,
+} from "../../../api/services/referential-integrity.js";
+import { ShipmentModel } from "../../../api/models/Shipment.js";
+import { FacilityModel } from "../../../api/models/Facility.js";
+import { ContaminantModel } from "../../../api/models/Contaminant.js";
+import { InspectionModel } from "../../../api/models/Inspection.js";
+
+describe("Referential integrity", () => {
+  const original = process.env.REFERENTIAL_DELETE_POLICIES;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    if (original === undefined) delete process.env.REFERENTIAL_DELETE_POLICIES;
+    else process.env.REFERENTIAL_DELETE_POLICIES = original;
+  });
+
+  describe("getDeletePolicyOverrides", () => {
+    it("should parse model.field=policy pairs, with soft-delete as another name for cascade", () => {
+      const overrides = getDeletePolicyOverrides("Shipment.facility_id=cascade, Inspection.shipment_id = soft-delete,Contract.producer_id=restrict");
+
+      expect([...overrides]).toEqual([
+        ["Shipment.facility_id", "cascade"],
+        ["Inspection.shipment_id", "cascade"],
+        ["Contract.producer_id", "restrict"],
+      ]);
+    });
+
+    it("should throw on unknown policies, unknown relations and malformed entries", () => {
+      expect(() => getDeletePolicyOverrides("Contract.producer_id=nuke")).toThrow(
+        "Unknown delete policy in REFERENTIAL_DELETE_POLICIES: nuke"
+      );
+      expect(() => getDeletePolicyOverrides("Shipment.facility=cascade")).toThrow(
+        "Unknown relation in REFERENTIAL_DELETE_POLICIES: Shipment.facility"
+      );
+      expect(() => getDeletePolicyOverrides("Shipment.facility_id")).toThrow(
+        "Invalid REFERENTIAL_DELETE_POLICIES entry: Shipment.facility_id"
+      );
+      expect(() => getDeletePolicyOverrides("Shipment.facility_id=cascade=restrict")).toThrow(
+        "Invalid REFERENTIAL_DELETE_POLICIES entry"
+      );
+    });
+
+    it("should apply overrides to the relations", () => {
+      process.env.REFERENTIAL_DELETE_POLICIES = "Shipment.facility_id=cascade";
+
+      const relation = getRelations().find(r => r.model === ShipmentModel && r.field === "facility_id");
+
+      expect(relation?.policy).toBe("cascade");
+    });
+  });
+
+  describe("findMissingReferences", () => {
+    beforeEach(() => {
+      jest.spyOn(ShipmentModel, "exists").mockResolvedValue({ _id: "s" } as any);
+      jest.spyOn(FacilityModel, "exists").mockResolvedValue(null);
+    });
+
+    it("should report foreign keys that match nothing", async () => {
+      const missing = await findMissingReferences(ContaminantModel, { shipment_id: "S1", facility_id: "F9" });
+
+      expect(missing).toEqual([{ field: "facility_id", value: "F9", references: "Facility" }]);
+    });
+
+    it("should skip fields that aren't set", async () => {
+      const missing = await findMissingReferences(ContaminantModel, { shipment_id: "S1", facility_id: "" });
+
+      expect(missing).toEqual([]);
+      expect(FacilityModel.exists).not.toHaveBeenCalled();
+    });
+
+    it("should throw a 422 from assertReferences", async () => {
+      const error = await assertReferences(InspectionModel, { facility_id: "F9" }).catch(e => e);
+
+      expect(error).toBeInstanceOf(InvalidReferenceError);
+      expect(error.statusCode).toBe(422);
+      expect(error.code).toBe("INVALID_REFERENCE");
+      expect(error.message).toBe("facility_id F9 does not match any Facility");
+    });
+  });
+
+  describe("deleteWithPolicies", () => {
+    // Every relation's model finds nothing unless a test says otherwise
+    const mockDependents = (model: Model<any>, docs: any[]) =>
+      jest.spyOn(model, "find").mockReturnValue({ lean: jest.fn().mockResolvedValue(docs) } as any);
+
+    beforeEach(() => {
+      for (const relation of getRelations()) {
+        mockDependents(relation.model, []);
+        jest.spyOn(relation.model, "updateMany").mockReturnValue({ setOptions: jest.fn().mockResolvedValue({}) } as any);
+      }
+      jest.spyOn(ShipmentModel, "findOne").mockResolvedValue({ id: "S1" } as any);
+      jest.spyOn(ShipmentModel, "findOneAndUpdate").mockResolvedValue({ id: "S1", status: "delivered" } as any);
+      jest.spyOn(FacilityModel, "findOne").mockResolvedValue({ id: "F1" } as any);
+      jest.spyOn(FacilityModel, "findOneAndUpdate").mockResolvedValue({ id: "F1" } as any);
+    });
+
+    it("should return null when there's no such record", async () => {
+      jest.spyOn(ShipmentModel, "findOne").mockResolvedValue(null);
+
+      expect(await deleteWithPolicies(ShipmentModel, "S9")).toBeNull();
+    });
+
+    it("should refuse while a restrict relation has records", async () => {
+      mockDependents(ShipmentModel, [{ _id: "a", id: "S1" }, { _id: "b", id: "S2" }]);
+
+      const error = await deleteWithPolicies(FacilityModel, "F1").catch(e => e);
+
+      expect(error).toBeInstanceOf(ReferenceConstraintError);
+      expect(error.statusCode).toBe(409);
+      expect(error.details).toEqual([{ model: "Shipment", field: "facility_id", count: 2 }]);
+      expect(FacilityModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it("should soft-delete the record and cascade to its dependents", async () => {
+      mockDependents(ContaminantModel, [{ _id: "a", id: "CD1" }]);
+
+      const result = await deleteWithPolicies(ShipmentModel, "S1", "auditor");
+
+      const deletedAt = (ShipmentModel.findOneAndUpdate as jest.Mock).mock.calls[0][1].$set.deleted_at;
+      expect(ShipmentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { id: "S1" },
+        { $set: { deleted_at: expect.any(Date) } },
+        { new: true, actor: "auditor" }
+      );
+      expect(ContaminantModel.updateMany).toHaveBeenCalledWith({ _id: { $in: ["a"] } }, { $set: { deleted_at: deletedAt } });
+      expect(result?.deleted).toMatchObject({ id: "S1", status: "delivered" });
+      expect(result?.cascaded).toEqual([{ model: "Contaminant", count: 1 }]);
+    });
+
+    it("should delete dependents under a soft-delete policy as under cascade", async () => {
+      process.env.REFERENTIAL_DELETE_POLICIES = "Inspection.shipment_id=soft-delete";
+      mockDependents(InspectionModel, [{ _id: "i", id: "I1" }]);
+
+      const result = await deleteWithPolicies(ShipmentModel, "S1");
+
+      expect(InspectionModel.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: ["i"] } },
+        { $set: { deleted_at: expect.any(Date) } }
+      );
+      expect(result?.cascaded).toEqual([{ model: "Inspection", count: 1 }]);
+    });
+  });
+
+  describe("restoreWithPolicies", () => {
+    const deletedAt = new Date("2025-10-01T12:00:00Z");
+
+    beforeEach(() => {
+      jest.spyOn(FacilityModel, "exists").mockResolvedValue({ _id: "f" } as any);
+      jest.spyOn(ShipmentModel, "findOneAndUpdate").mockResolvedValue({ id: "S1" } as any);
+      for (const relation of getRelations()) {
+        jest.spyOn(relation.model, "find").mockReturnValue({ lean: jest.fn().mockResolvedValue([]) } as any);
+        jest.spyOn(relation.model, "updateMany").mockReturnValue({ setOptions: jest.fn().mockResolvedValue({}) } as any);
+      }
+    });
+
+    const mockDeleted = (record: Record<string, any> | null) =>
+      jest.spyOn(ShipmentModel, "findOne").mockReturnValue({ lean: jest.fn().mockResolvedValue(record) } as any);
+
+    it("should return null when there's no deleted record", async () => {
+      mockDeleted(null);
+
+      expect(await restoreWithPolicies(ShipmentModel, "S1")).toBeNull();
+      expect(ShipmentModel.findOne).toHaveBeenCalledWith({ id: "S1", deleted_at: { $ne: null } });
+    });
+
+    it("should restore the record and what was deleted with it", async () => {
+      mockDeleted({ id: "S1", facility_id: "F1", deleted_at: deletedAt });
+      jest
+        .spyOn(InspectionModel, "find")
+        .mockReturnValue({ lean: jest.fn().mockResolvedValue([{ _id: "i", id: "I1" }]) } as any);
+
+      const result = await restoreWithPolicies(ShipmentModel, "S1", "auditor");
+
+      expect(InspectionModel.find).toHaveBeenCalledWith({ shipment_id: { $in: ["S1"] }, deleted_at: deletedAt }, "_id id");
+      expect(InspectionModel.updateMany).toHaveBeenCalledWith(
+        { shipment_id: { $in: ["S1"] }, deleted_at: deletedAt },
+        { $unset: { deleted_at: 1 } }
+      );
+      expect(ShipmentModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { id: "S1", deleted_at: deletedAt },
+        { $unset: { deleted_at: 1 } },
+        { new: true, actor: "auditor" }
+      );
+      expect(result).toEqual({ restored: { id: "S1" }, dependents: [{ model: "Inspection", count: 1 }] });
+    });
+
+    it("should refuse while a record it references is gone", async () => {
+      mockDeleted({ id: "S1", facility_id: "F1", deleted_at: deletedAt });
+      jest.spyOn(FacilityModel, "exists").mockResolvedValue(null);
+
+      await expect(restoreWithPolicies(ShipmentModel, "S1")).rejects.toThrow(InvalidReferenceError);
+      expect(ShipmentModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+// Unit tests for webhook matching, signing, sending and the dispatcher's retry handling
+import { AddressInfo } from "net";
+import { request as httpRequest, Server } from "http";
+import {
+  deliverDueWebhooks,
+  isEventTypePattern,
+  matchesEventType,
+  queueDeliveries,
+  retryDelayMs,
+  sendWebhook,
+  WebhookMessage,
+} from "../../../api/services/webhooks.js";
+import { signWebhookPayload, verifyWebhookSignature } from "../../../api/services/webhook-signing.js";
+import { createWebhookReceiver, ReceivedWebhook } from "../../../api/services/webhook-receiver.js";
+import { OutboxEventModel } from "../../../api/models/OutboxEvent.js";
+import { WebhookSubscriptionModel } from "../../../api/models/WebhookSubscription.js";
+import { WebhookDeliveryModel } from "../../../api/models/WebhookDelivery.js";
+
+const SECRET = "0123456789abcdef0123456789abcdef";
+
+const event = {
+  id: "evt_1",
+  type: "contaminant.detected",
+  entity: "Contaminant",
+  entity_id: "CT1",
+  actor: "inspector-1",
+  payload: { contaminant_id: "CT1", risk_level: "critical" },
+  occurred_at: "2025-06-01T10:00:00.000Z",
+};
+
+const message: WebhookMessage = {
+  id: event.id,
+  type: event.type,
+  entity: event.entity,
+  entity_id: event.entity_id,
+  actor: event.actor,
+  occurred_at: event.occurred_at,
+  data: event.payload,
+};
+
+const lean = (value: any) => ({ lean: jest.fn().mockResolvedValue(value) }) as any;
+
+describe("Webhooks", () => {
+  describe("event type patterns", () => {
+    it("should accept event types, entity wildcards and *", () => {
+      expect(isEventTypePattern("shipment.rejected")).toBe(true);
+      expect(isEventTypePattern("shipment.*")).toBe(true);
+      expect(isEventTypePattern("*")).toBe(true);
+      expect(isEventTypePattern("shipment.deleted")).toBe(false);
+      expect(isEventTypePattern("facility.*")).toBe(false);
+    });
+
+    it("should match events against a subscription's patterns", () => {
+      expect(matchesEventType(["shipment.*"], "shipment.status_changed")).toBe(true);
+      expect(matchesEventType(["contaminant.detected"], "contaminant.detected")).toBe(true);
+      expect(matchesEventType(["*"], "inspection.follow_up_required")).toBe(true);
+      expect(matchesEventType(["shipment.*", "contaminant.detected"], "inspection.follow_up_required")).toBe(false);
+    });
+  });
+
+  describe("retryDelayMs", () => {
+    it("should double the wait after each attempt, up to six hours", () => {
+      expect(retryDelayMs(1, 30000)).toBe(30000);
+      expect(retryDelayMs(2, 30000)).toBe(60000);
+      expect(retryDelayMs(4, 30000)).toBe(240000);
+      expect(retryDelayMs(20, 30000)).toBe(6 * 60 * 60 * 1000);
+    });
+  });
+
+  describe("signatures", () => {
+    it("should verify a signature made with the same secret, timestamp and body", () => {
+      const signature = signWebhookPayload(SECRET, "2025-06-01T10:00:00.000Z", '{"a":1}');
+
+      expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(verifyWebhookSignature(SECRET, "2025-06-01T10:00:00.000Z", '{"a":1}', signature)).toBe(true);
+      expect(verifyWebhookSignature(SECRET, "2025-06-01T10:00:01.000Z", '{"a":1}', signature)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, "2025-06-01T10:00:00.000Z", '{"a":2}', signature)).toBe(false);
+      expect(verifyWebhookSignature("another-secret-value", "2025-06-01T10:00:00.000Z", '{"a":1}', signature)).toBe(false);
+      expect(verifyWebhookSignature(SECRET, "2025-06-01T10:00:00.000Z", '{"a":1}', "sha256=nope")).toBe(false);
+    });
+  });
+
+  describe("sendWebhook", () => {
+    let server: Server;
+    let url: string;
+    let received: ReceivedWebhook[];
+    let status: number;
+
+    beforeEach(async () => {
+      received = [];
+      status = 200;
+      server = createWebhookReceiver({
+        secret: SECRET,
+        status: () => status,
+        onDelivery: delivery => received.push(delivery),
+      });
+      await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it("should deliver a signed message the receiver can verify", async () => {
+      const attempt = await sendWebhook({ url, secret: SECRET }, message, "whd_1", 5000);
+
+      expect(attempt).toMatchObject({ status_code: 200 });
+      expect(attempt.error).toBeUndefined();
+      expect(received).toEqual([{ delivery_id: "whd_1", signature_valid: true, message }]);
+    });
+
+    it("should be refused by a receiver with a different secret", async () => {
+      const attempt = await sendWebhook({ url, secret: "not-the-receivers-secret" }, message, "whd_1", 5000);
+
+      expect(attempt).toMatchObject({ status_code: 401, error: "Receiver answered 401" });
+    });
+
+    it("should report non-2xx answers and unreachable receivers as errors", async () => {
+      status = 503;
+      expect(await sendWebhook({ url, secret: SECRET }, message, "whd_1", 5000)).toMatchObject({
+        status_code: 503,
+        error: "Receiver answered 503",
+      });
+
+      await new Promise(resolve => server.close(resolve));
+      server = createWebhookReceiver();
+      const attempt = await sendWebhook({ url, secret: SECRET }, message, "whd_1", 5000);
+
+      expect(attempt.status_code).toBeUndefined();
+      expect(attempt.error).toBeDefined();
+    });
+
+    it("should keep serving after a request breaks off mid-body", async () => {
+      const broken = httpRequest(url, { method: "POST", headers: { "Content-Length": "1000" } });
+      broken.on("error", () => {});
+      broken.write("{\"id\":");
+      await new Promise(resolve => setTimeout(resolve, 50));
+      broken.destroy();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const attempt = await sendWebhook({ url, secret: SECRET }, message, "whd_2", 5000);
+
+      expect(attempt).toMatchObject({ status_code: 200 });
+      expect(received.map(delivery => delivery.delivery_id)).toEqual(["whd_2"]);
+    });
+  });
+
+  describe("queueDeliveries", () => {
+    it("should queue one delivery per matching active subscription and mark events dispatched", async () => {
+      jest.spyOn(OutboxEventModel, "find").mockReturnValue({
+        sort: () => ({ limit: () => lean([event, { ...event, id: "evt_2", type: "shipment.created" }]) }),
+      } as any);
+      jest.spyOn(WebhookSubscriptionModel, "find").mockReturnValue(
+        lean([
+          { id: "wh_1", event_types: ["contaminant.*"] },
+          { id: "wh_2", event_types: ["*"] },
+        ])
+      );
+      const insertMany = jest.spyOn(WebhookDeliveryModel, "insertMany").mockResolvedValue([] as any);
+      const updateMany = jest.spyOn(OutboxEventModel, "updateMany").mockResolvedValue({} as any);
+
+      const now = new Date("2025-06-01T10:00:05.000Z");
+      const queued = await queueDeliveries(now);
+
+      expect(queued).toBe(3);
+      const deliveries = insertMany.mock.calls[0]![0] as any[];
+      expect(deliveries.map(d => [d.event_id, d.subscription_id])).toEqual([
+        ["evt_1", "wh_1"],
+        ["evt_1", "wh_2"],
+        ["evt_2", "wh_2"],
+      ]);
+      expect(deliveries[0]).toMatchObject({ status: "pending", attempts: [], next_attempt_at: now.toISOString() });
+      expect(updateMany).toHaveBeenCalledWith(
+        { id: { $in: ["evt_1", "evt_2"] } },
+        { $set: { dispatched_at: now.toISOString() } }
+      );
+    });
+  });
+
+  describe("deliverDueWebhooks", () => {
+    const options = { maxAttempts: 3, backoffBaseMs: 30000, timeoutMs: 1000, batchSize: 100 };
+    const now = new Date("2025-06-01T10:00:00.000Z");
+    // Nothing listens on port 9 locally, so every attempt fails
+    const subscription = { id: "wh_1", url: "http://127.0.0.1:9/hooks", secret: SECRET, active: true, event_types: ["*"] };
+
+    const mockDue = (deliveries: any[], subscriptions: any[] = [subscription]) => {
+      jest.spyOn(WebhookDeliveryModel, "find").mockReturnValue({
+        sort: () => ({ limit: () => lean(deliveries) }),
+      } as any);
+      jest.spyOn(WebhookSubscriptionModel, "find").mockReturnValue(lean(subscriptions));
+      jest.spyOn(OutboxEventModel, "find").mockReturnValue(lean([event]));
+      return jest.spyOn(WebhookDeliveryModel, "updateOne").mockResolvedValue({} as any);
+    };
+
+    it("should schedule a retry with backoff after a failed attempt", async () => {
+      const updateOne = mockDue([{ id: "whd_1", subscription_id: "wh_1", event_id: "evt_1", attempts: [{}] }]);
+
+      const result = await deliverDueWebhooks(now, options);
+
+      expect(result).toEqual({ delivered: 0, retrying: 1, failed: 0 });
+      const update = updateOne.mock.calls[0]![1] as any;
+      // Stamped when the attempt is made, not when the run started
+      const attemptedAt = Date.parse(update.$push.attempts.attempted_at);
+      expect(attemptedAt).toBeGreaterThan(now.getTime());
+      expect(update.$set).toEqual({ next_attempt_at: new Date(attemptedAt + 60000).toISOString() });
+      expect(update.$push.attempts.error).toBeDefined();
+    });
+
+    it("should fail a delivery once every attempt has been used", async () => {
+      const updateOne = mockDue([{ id: "whd_1", subscription_id: "wh_1", event_id: "evt_1", attempts: [{}, {}] }]);
+
+      const result = await deliverDueWebhooks(now, options);
+
+      expect(result).toEqual({ delivered: 0, retrying: 0, failed: 1 });
+      expect((updateOne.mock.calls[0]![1] as any).$set).toEqual({ status: "failed", failure_reason: "Every attempt failed" });
+    });
+
+    it("should fail deliveries for removed or inactive subscriptions without an attempt", async () => {
+      const updateOne = mockDue(
+        [
+          { id: "whd_1", subscription_id: "wh_gone", event_id: "evt_1", attempts: [] },
+          { id: "whd_2", subscription_id: "wh_1", event_id: "evt_1", attempts: [] },
+        ],
+        [{ ...subscription, active: false }]
+      );
+
+      const result = await deliverDueWebhooks(now, options);
+
+      expect(result).toEqual({ delivered: 0, retrying: 0, failed: 2 });
+      expect(updateOne.mock.calls.map(call => (call[1] as any).$set.failure_reason)).toEqual([
+        "Subscription was removed",
+        "Subscription is inactive",
+      ]);
+    });
+  });
+});
@@ -2,6 +2,13 @@
 import request from "supertest";
 import { connectDB, disconnectDB } from "../../api/db/connection.js";
 import { ShipmentModel } from "../../api/models/Shipment.js";
+import { ShipmentStatusHistoryModel } from "../../api/models/ShipmentStatusHistory.js";
+import { ContractModel } from "../../api/models/Contract.js";
+import { ContractViolationModel } from "../../api/models/ContractViolation.js";
+import { FacilityModel } from "../../api/models/Facility.js";
+import { WasteProducerModel } from "../../api/models/WasteProducer.js";
+import { InspectionModel } from "../../api/models/Inspection.js";
+import { AuditEntryModel } from "../../api/models/AuditEntry.js";
 import app from "../../api/server.js";
 
 const testDbUri = process.env.MONGODB_TEST_URI || "mongodb://localhost:27017/wasteer-test";
@@ -18,6 +25,25 @@ describe("Shipments API", () => {
   beforeEach(async () => {
     // Clear data before each test
     await ShipmentModel.deleteMany({});
+    await ShipmentStatusHistoryModel.deleteMany({});
+    await FacilityModel.deleteMany({});
+    await WasteProducerModel.deleteMany({});
+
+    // Shipments must point at a facility (and producer) that exists
+    await FacilityModel.create(
+      ["F1", "F2"].map(id => ({ id, name: `Facility ${id}`, location: "Test City", type: "sorting", capacity_tons: 100000 }))
+    );
+    await WasteProducerModel.create(
+      ["P1", "P2"].map(id => ({
+        id,
+        name: `Producer ${id}`,
+        type: "industrial",
+        location: "Test City",
+        contact_email: `${id.toLowerCase()}@example.com`,
+        contact_phone: "555-0100",
+        license_number: `LIC-${id}`,
+      }))
+    );
   });
 
   describe("GET /api/shipments", () => {
@@ -114,6 +140,185 @@ describe("Shipments API", () => {
     });
   });
 
+  describe("Paging, sorting and fields", () => {
+    beforeEach(async () => {
+      await ShipmentModel.create(
+        [1, 2, 3, 4, 5].map(n => ({
+          id: `S${n}`,
+          facility_id: "F1",
+          date: `2025-10-0${n}`,
+          status: "delivered",
+          weight_kg: n * 1000,
+          has_contaminants: false,
+        }))
+      );
+    });
+
+    it("should page through results with next_cursor", async () => {
+      const first = await request(app).get("/api/shipments?limit=2&sort=-date");
+
+      expect(first.status).toBe(200);
+      expect(first.body.data.map((s: any) => s.id)).toEqual(["S5", "S4"]);
+      expect(first.body.count).toBe(2);
+      expect(first.body.total).toBe(5);
+      expect(first.body.next_cursor).toEqual(expect.any(String));
+
+      // Records added mid-way don't shift the pages
+      await ShipmentModel.create({
+        id: "S6",
+        facility_id: "F1",
+        date: "2025-10-06",
+        status: "delivered",
+        weight_kg: 6000,
+        has_contaminants: false,
+      });
+
+      const second = await request(app).get(`/api/shipments?limit=2&sort=-date&cursor=${first.body.next_cursor}`);
+      expect(second.body.data.map((s: any) => s.id)).toEqual(["S3", "S2"]);
+
+      const last = await request(app).get(`/api/shipments?limit=2&sort=-date&cursor=${second.body.next_cursor}`);
+      expect(last.body.data.map((s: any) => s.id)).toEqual(["S1"]);
+      expect(last.body.next_cursor).toBeNull();
+    });
+
+    it("should page past documents missing the sort field", async () => {
+      await ShipmentModel.updateMany({ id: { $in: ["S2", "S4"] } }, { carrier: "Acme" });
+
+      const pageThrough = async (sort: string) => {
+        const ids: string[] = [];
+        let cursor: string | null = null;
+        do {
+          const response: any = await request(app).get(`/api/shipments?limit=2&sort=${sort}${cursor ? `&cursor=${cursor}` : ""}`);
+          expect(response.status).toBe(200);
+          ids.push(...response.body.data.map((s: any) => s.id));
+          cursor = response.body.next_cursor;
+        } while (cursor);
+        return ids;
+      };
+
+      const ascending = await pageThrough("carrier");
+      const descending = await pageThrough("-carrier");
+
+      expect(ascending).toHaveLength(5);
+      expect(ascending.slice(0, 3).sort()).toEqual(["S1", "S3", "S5"]);
+      expect(ascending.slice(3).sort()).toEqual(["S2", "S4"]);
+      expect(descending).toHaveLength(5);
+      expect(descending.slice(0, 2).sort()).toEqual(["S2", "S4"]);
+      expect(descending.slice(2).sort()).toEqual(["S1", "S3", "S5"]);
+    });
+
+    it("should sort by multiple fields", async () => {
+      const response = await request(app).get("/api/shipments?sort=facility_id,-weight_kg");
+
+      expect(response.body.data.map((s: any) => s.id)).toEqual(["S5", "S4", "S3", "S2", "S1"]);
+    });
+
+    it("should return only the requested fields", async () => {
+      const response = await request(app).get("/api/shipments?fields=date,weight_kg&limit=1&sort=date");
+
+      expect(response.body.data).toEqual([{ id: "S1", date: "2025-10-01", weight_kg: 1000 }]);
+    });
+
+    it("should filter numeric ranges", async () => {
+      const response = await request(app).get("/api/shipments?weight_kg_min=2000&weight_kg_max=4000");
+
+      expect(response.body.data.map((s: any) => s.id).sort()).toEqual(["S2", "S3", "S4"]);
+      expect(response.body.total).toBe(3);
+    });
+
+    it("should return 400 for unknown sort fields and bad limits", async () => {
+      const badSort = await request(app).get("/api/shipments?sort=colour");
+      const badLimit = await request(app).get("/api/shipments?limit=5000");
+
+      expect(badSort.status).toBe(400);
+      expect(badSort.body.error.code).toBe("INVALID_LIST_QUERY");
+      expect(badLimit.status).toBe(400);
+    });
+  });
+
+  describe("Import and export", () => {
+    const csv = [
+      "id,facility_id,date,status,weight_kg,has_contaminants",
+      "S1,F1,2025-10-01,rejected,1500,true",
+      "S2,F1,2025-10-02,pending,-10,false",
+      "S1,F1,2025-10-03,pending,900,false",
+    ].join("\n");
+
+    it("should report row errors on a dry run without creating anything", async () => {
+      const response = await request(app)
+        .post("/api/shipments/import?dry_run=true")
+        .set("Content-Type", "text/csv")
+        .send(csv);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data).toMatchObject({ dry_run: true, total_rows: 3, valid_rows: 1, imported: 0, failed: 2 });
+      expect(response.body.data.errors.map((e: any) => e.row)).toEqual([2, 3]);
+      expect(await ShipmentModel.countDocuments()).toBe(0);
+    });
+
+    it("should import the valid rows", async () => {
+      const response = await request(app).post("/api/shipments/import").set("Content-Type", "text/csv").send(csv);
+
+      expect(response.body.data).toMatchObject({ imported: 1, failed: 2 });
+      expect(await ShipmentModel.findOne({ id: "S1" })).toMatchObject({ weight_kg: 1500, has_contaminants: true });
+      expect(await ShipmentStatusHistoryModel.countDocuments({ shipment_id: "S1" })).toBe(1);
+    });
+
+    it("should import NDJSON", async () => {
+      const ndjson = JSON.stringify({
+        id: "S9",
+        facility_id: "F1",
+        date: "2025-10-01",
+        status: "rejected",
+        weight_kg: 500,
+        has_contaminants: false,
+      });
+
+      const response = await request(app)
+        .post("/api/shipments/import")
+        .set("Content-Type", "application/x-ndjson")
+        .send(ndjson);
+
+      expect(response.body.data.imported).toBe(1);
+    });
+
+    it("should report rows whose facility doesn't exist", async () => {
+      const response = await request(app)
+        .post("/api/shipments/import")
+        .set("Content-Type", "text/csv")
+        .send("id,facility_id,date,status,weight_kg,has_contaminants\nS1,F9,2025-10-01,pending,100,false");
+
+      expect(response.body.data).toMatchObject({ imported: 0, failed: 1 });
+      expect(response.body.data.errors[0].errors).toEqual(["facility_id: F9 does not match any Facility"]);
+    });
+
+    it("should return 400 for unknown columns", async () => {
+      const response = await request(app)
+        .post("/api/shipments/import")
+        .set("Content-Type", "text/csv")
+        .send("id,colour\nS1,red");
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe("INVALID_IMPORT");
+    });
+
+    it("should export filtered shipments as CSV and NDJSON", async () => {
+      await ShipmentModel.create([
+        { id: "S1", facility_id: "F1", date: "2025-10-01", status: "rejected", weight_kg: 1500, has_contaminants: true },
+        { id: "S2", facility_id: "F1", date: "2025-10-02", status: "delivered", weight_kg: 800, has_contaminants: false },
+      ]);
+
+      const csvResponse = await request(app).get("/api/shipments/export?status=rejected&fields=date,weight_kg");
+      expect(csvResponse.status).toBe(200);
+      expect(csvResponse.headers["content-type"]).toContain("text/csv");
+      expect(csvResponse.text).toBe("id,date,weight_kg\nS1,2025-10-01,1500\n");
+
+      const ndjsonResponse = await request(app).get("/api/shipments/export?format=ndjson&sort=-date");
+      const lines = ndjsonResponse.text.trim().split("\n").map(line => JSON.parse(line));
+      expect(lines.map(line => line.id)).toEqual(["S2", "S1"]);
+    });
+  });
+
   describe("GET /api/shipments/:id", () => {
     it("should return a single shipment by id", async () => {
       await ShipmentModel.create({
@@ -189,6 +394,59 @@ describe("Shipments API", () => {
     });
   });
 
+  describe("Referential integrity", () => {
+    it("should return 422 when the facility doesn't exist", async () => {
+      const response = await request(app).post("/api/shipments").send({
+        id: "S1",
+        facility_id: "F9",
+        date: "2025-10-05",
+        status: "pending",
+        weight_kg: 1500,
+        has_contaminants: false,
+      });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe("INVALID_REFERENCE");
+      expect(response.body.error.details).toEqual([{ field: "facility_id", value: "F9", references: "Facility" }]);
+    });
+
+    it("should return 422 when an update points at a missing producer", async () => {
+      await ShipmentModel.create({
+        id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "pending",
+        weight_kg: 1500,
+        has_contaminants: false,
+      });
+
+      const response = await request(app).put("/api/shipments/S1").send({ producer_id: "P9" });
+
+      expect(response.status).toBe(422);
+      expect((await ShipmentModel.findOne({ id: "S1" }))?.producer_id).toBeUndefined();
+    });
+
+    it("should refuse to delete a facility that still has shipments", async () => {
+      await ShipmentModel.create({
+        id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "pending",
+        weight_kg: 1500,
+        has_contaminants: false,
+      });
+
+      const response = await request(app).delete("/api/facilities/F1");
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.code).toBe("REFERENCE_CONSTRAINT");
+      expect(response.body.error.details).toEqual(
+        expect.arrayContaining([{ model: "Shipment", field: "facility_id", count: 1 }])
+      );
+      expect(await FacilityModel.findOne({ id: "F1" })).not.toBeNull();
+    });
+  });
+
   describe("PUT /api/shipments/:id", () => {
     it("should update a shipment", async () => {
       await ShipmentModel.create({
@@ -218,6 +476,311 @@ describe("Shipments API", () => {
     });
   });
 
+  describe("Status lifecycle", () => {
+    const createPending = () =>
+      request(app).post("/api/shipments").set("X-Actor", "dispatch").send({
+        id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "pending",
+        weight_kg: 1500,
+        has_contaminants: false,
+      });
+
+    it("should move a shipment through its lifecycle and record each transition", async () => {
+      await createPending();
+
+      const moved = await request(app)
+        .post("/api/shipments/S1/transition")
+        .send({ status: "in_transit", reason: "Picked up", actor: "driver-7" });
+      await request(app).post("/api/shipments/S1/transition").send({ status: "delivered" });
+
+      expect(moved.status).toBe(200);
+      expect(moved.body.data.status).toBe("in_transit");
+
+      const history = await request(app).get("/api/shipments/S1/history");
+
+      expect(history.status).toBe(200);
+      expect(history.body.data.map((h: any) => [h.from_status, h.to_status])).toEqual([
+        [null, "pending"],
+        ["pending", "in_transit"],
+        ["in_transit", "delivered"],
+      ]);
+      expect(history.body.data[0].actor).toBe("dispatch");
+      expect(history.body.data[1]).toMatchObject({ actor: "driver-7", reason: "Picked up" });
+      expect(history.body.allowed_transitions).toEqual(["rejected"]);
+    });
+
+    it("should refuse illegal transitions", async () => {
+      await createPending();
+      await request(app).post("/api/shipments/S1/transition").send({ status: "in_transit" });
+      await request(app).post("/api/shipments/S1/transition").send({ status: "delivered" });
+
+      const response = await request(app).post("/api/shipments/S1/transition").send({ status: "pending" });
+
+      expect(response.status).toBe(409);
+      expect(response.body.error.message).toBe("Invalid status transition: delivered -> pending");
+      expect(response.body.error.details.allowed).toEqual(["rejected"]);
+      expect((await ShipmentModel.findOne({ id: "S1" }))!.status).toBe("delivered");
+    });
+
+    it("should apply the lifecycle to status changes through PUT", async () => {
+      await createPending();
+
+      const response = await request(app).put("/api/shipments/S1").send({ status: "delivered" });
+
+      expect(response.status).toBe(409);
+      expect(await ShipmentStatusHistoryModel.countDocuments({ shipment_id: "S1" })).toBe(1);
+    });
+
+    it("should return 404 for the history of a non-existent shipment", async () => {
+      const response = await request(app).get("/api/shipments/NONEXISTENT/history");
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("Contract enforcement", () => {
+    const originalMode = process.env.CONTRACT_ENFORCEMENT_MODE;
+    const newShipment = {
+      id: "S10",
+      facility_id: "F1",
+      producer_id: "P1",
+      date: "2025-06-15",
+      status: "pending",
+      weight_kg: 3000,
+      has_contaminants: false,
+      waste_code: "150101",
+    };
+
+    beforeEach(async () => {
+      await ContractModel.deleteMany({});
+      await ContractViolationModel.deleteMany({});
+      await ContractModel.create({
+        id: "C1",
+        producer_id: "P1",
+        facility_id: "F1",
+        waste_types_declared: ["150101"],
+        start_date: "2025-01-01",
+        end_date: "2025-12-31",
+        max_weight_kg: 5000,
+        status: "active",
+        terms: "Standard terms",
+      });
+    });
+
+    afterEach(() => {
+      if (originalMode === undefined) delete process.env.CONTRACT_ENFORCEMENT_MODE;
+      else process.env.CONTRACT_ENFORCEMENT_MODE = originalMode;
+    });
+
+    it("should accept shipments within the producer's contract", async () => {
+      const response = await request(app).post("/api/shipments").send(newShipment);
+
+      expect(response.status).toBe(201);
+      expect(response.body.contract_violations).toBeUndefined();
+      expect(await ContractViolationModel.countDocuments()).toBe(0);
+    });
+
+    it("should reject shipments that break the contract and record why", async () => {
+      await ShipmentModel.create({ ...newShipment, id: "S9", weight_kg: 2500 });
+
+      const response = await request(app)
+        .post("/api/shipments")
+        .send({ ...newShipment, waste_code: "200301" });
+
+      expect(response.status).toBe(422);
+      expect(response.body.error.code).toBe("CONTRACT_VIOLATION");
+      expect(response.body.error.details.violations.map((v: any) => v.type)).toEqual([
+        "undeclared_waste_type",
+        "weight_limit_exceeded",
+      ]);
+      expect(await ShipmentModel.findOne({ id: "S10" })).toBeNull();
+
+      const violations = await request(app).get("/api/contract-violations").query({ shipment_id: "S10" });
+      expect(violations.body.count).toBe(2);
+      expect(violations.body.data[0]).toMatchObject({ contract_id: "C1", producer_id: "P1", action: "rejected" });
+    });
+
+    it("should count earlier rows against the contract's limit on import dry runs", async () => {
+      const ndjson = [{ ...newShipment, id: "S10" }, { ...newShipment, id: "S11" }].map(row => JSON.stringify(row)).join("\n");
+
+      const response = await request(app)
+        .post("/api/shipments/import?dry_run=true")
+        .set("Content-Type", "application/x-ndjson")
+        .send(ndjson);
+
+      expect(response.body.data).toMatchObject({ dry_run: true, valid_rows: 1, failed: 1 });
+      expect(response.body.data.errors).toEqual([
+        { row: 2, id: "S11", errors: [expect.stringContaining("to 6000kg, over its 5000kg limit")] },
+      ]);
+      expect(await ShipmentModel.countDocuments({ producer_id: "P1" })).toBe(0);
+    });
+
+    it("should reject shipments under a suspended contract or without one", async () => {
+      await ContractModel.updateOne({ id: "C1" }, { status: "suspended" });
+
+      const suspended = await request(app).post("/api/shipments").send(newShipment);
+      const noContract = await request(app)
+        .post("/api/shipments")
+        .send({ ...newShipment, id: "S11", producer_id: "P2" });
+
+      expect(suspended.status).toBe(422);
+      expect(suspended.body.error.details.violations[0].type).toBe("contract_suspended");
+      expect(noContract.status).toBe(422);
+      expect(noContract.body.error.details).toMatchObject({ contract_id: null });
+    });
+
+    it("should accept and flag violations in flag mode", async () => {
+      process.env.CONTRACT_ENFORCEMENT_MODE = "flag";
+
+      const response = await request(app)
+        .post("/api/shipments")
+        .send({ ...newShipment, date: "2026-02-01" });
+
+      expect(response.status).toBe(201);
+      expect(response.body.contract_violations.map((v: any) => v.type)).toEqual(["outside_contract_period"]);
+
+      const violations = await request(app).get("/api/contract-violations").query({ action: "flagged" });
+      expect(violations.body.data).toHaveLength(1);
+      expect(violations.body.data[0].shipment_id).toBe("S10");
+    });
+
+    it("should not check shipments without a producer", async () => {
+      const { producer_id: _ignored, ...withoutProducer } = newShipment;
+
+      const response = await request(app)
+        .post("/api/shipments")
+        .send({ ...withoutProducer, weight_kg: 9000 });
+
+      expect(response.status).toBe(201);
+    });
+  });
+
+  describe("Soft delete and audit log", () => {
+    const newShipment = {
+      id: "S1",
+      facility_id: "F1",
+      date: "2025-10-05",
+      status: "pending",
+      weight_kg: 1500,
+      has_contaminants: false,
+    };
+
+    beforeEach(async () => {
+      await AuditEntryModel.deleteMany({});
+      await InspectionModel.deleteMany({});
+    });
+
+    it("should record creates and updates with field diffs and actor", async () => {
+      await request(app).post("/api/shipments").set("X-Actor", "dispatch").send(newShipment);
+      await request(app).put("/api/shipments/S1").set("X-Actor", "yard").send({ status: "in_transit", carrier: "EcoHaul" });
+
+      const response = await request(app).get("/api/shipments/S1/versions");
+
+      expect(response.status).toBe(200);
+      expect(response.body.count).toBe(2);
+      expect(response.body.data[0]).toMatchObject({ version: 1, action: "create", actor: "dispatch" });
+      expect(response.body.data[1]).toMatchObject({
+        version: 2,
+        action: "update",
+        actor: "yard",
+        changes: [
+          { field: "status", from: "pending", to: "in_transit" },
+          { field: "carrier", to: "EcoHaul" },
+        ],
+        snapshot: { id: "S1", status: "in_transit", carrier: "EcoHaul" },
+      });
+    });
+
+    it("should give concurrent changes to a record their own versions", async () => {
+      await request(app).post("/api/shipments").send(newShipment);
+      await Promise.all(
+        [1600, 1700, 1800, 1900].map(weight_kg => request(app).put("/api/shipments/S1").send({ weight_kg }))
+      );
+
+      const response = await request(app).get("/api/shipments/S1/versions");
+
+      expect(response.body.data.map((entry: any) => entry.version)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("should soft-delete and restore a shipment with what was deleted along with it", async () => {
+      await request(app).post("/api/shipments").send(newShipment);
+      await InspectionModel.create({
+        id: "I1",
+        shipment_id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "accepted",
+        inspector: "John Doe",
+      });
+
+      await request(app).delete("/api/shipments/S1").set("X-Actor", "clerk");
+      expect((await request(app).get("/api/shipments/S1")).status).toBe(404);
+      expect(await ShipmentModel.findOne({ id: "S1" }).setOptions({ withDeleted: true })).toMatchObject({
+        deleted_at: expect.any(Date),
+      });
+
+      const restore = await request(app).post("/api/shipments/S1/restore").set("X-Actor", "clerk");
+
+      expect(restore.status).toBe(200);
+      expect(restore.body.restored).toEqual([{ model: "Inspection", count: 1 }]);
+      expect((await request(app).get("/api/shipments/S1")).status).toBe(200);
+      expect(await InspectionModel.findOne({ id: "I1" })).not.toBeNull();
+
+      const versions = await request(app).get("/api/shipments/S1/versions");
+      expect(versions.body.data.map((entry: any) => [entry.action, entry.actor])).toEqual([
+        ["create", "api"],
+        ["delete", "clerk"],
+        ["restore", "clerk"],
+      ]);
+    });
+
+    it("should check capacity and reconcile the load when restoring a delivered shipment", async () => {
+      await FacilityModel.updateOne({ id: "F1" }, { $set: { capacity_tons: 2 } });
+      await request(app).post("/api/shipments").send({ ...newShipment, status: "delivered" });
+      await request(app).delete("/api/shipments/S1");
+      expect(await FacilityModel.findOne({ id: "F1" })).toMatchObject({ current_load_tons: 0 });
+
+      await request(app).post("/api/shipments").send({ ...newShipment, id: "S2", status: "delivered" });
+      const full = await request(app).post("/api/shipments/S1/restore");
+
+      expect(full.status).toBe(409);
+      expect(full.body.error.code).toBe("CAPACITY_EXCEEDED");
+      expect((await request(app).get("/api/shipments/S1")).status).toBe(404);
+
+      await request(app).delete("/api/shipments/S2");
+      const restore = await request(app).post("/api/shipments/S1/restore");
+
+      expect(restore.status).toBe(200);
+      expect(await FacilityModel.findOne({ id: "F1" })).toMatchObject({ current_load_tons: 1.5 });
+    });
+
+    it("should return 404 when restoring a shipment that isn't deleted", async () => {
+      await request(app).post("/api/shipments").send(newShipment);
+
+      const response = await request(app).post("/api/shipments/S1/restore");
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reconstruct a shipment as of a past date", async () => {
+      await request(app).post("/api/shipments").send(newShipment);
+      const [created] = (await request(app).get("/api/shipments/S1/versions")).body.data;
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await request(app).put("/api/shipments/S1").send({ status: "in_transit" });
+
+      const past = await request(app).get("/api/shipments/S1").query({ as_of: created.timestamp });
+      const beforeCreated = await request(app).get("/api/shipments/S1").query({ as_of: "2000-01-01" });
+      const invalid = await request(app).get("/api/shipments/S1").query({ as_of: "last week" });
+
+      expect(past.status).toBe(200);
+      expect(past.body.data).toMatchObject({ id: "S1", status: "pending" });
+      expect(beforeCreated.status).toBe(404);
+      expect(invalid.status).toBe(400);
+    });
+  });
+
   describe("DELETE /api/shipments/:id", () => {
     it("should delete a shipment", async () => {
       await ShipmentModel.create({
@@ -240,6 +803,32 @@ describe("Shipments API", () => {
       expect(shipment).toBeNull();
     });
 
+    it("should cascade to the shipment's inspections", async () => {
+      await InspectionModel.deleteMany({});
+      await ShipmentModel.create({
+        id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "pending",
+        weight_kg: 1500,
+        has_contaminants: false,
+      });
+      await InspectionModel.create({
+        id: "I1",
+        shipment_id: "S1",
+        facility_id: "F1",
+        date: "2025-10-05",
+        status: "accepted",
+        inspector: "John Doe",
+      });
+
+      const response = await request(app).delete("/api/shipments/S1");
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.cascaded).toEqual(expect.arrayContaining([{ model: "Inspection", count: 1 }]));
+      expect(await InspectionModel.findOne({ id: "I1" })).toBeNull();
+    });
+
     it("should return 404 for non-existent shipment", async () => {
       const response = await request(app).delete("/api/shipments/NONEXISTENT");
 
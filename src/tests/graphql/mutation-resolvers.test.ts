@@ -5,6 +5,9 @@
 
 import { resolvers, pubsub } from '../../graphql/resolvers.js';
 import { OrchestratorAgent } from '../../agents/orchestrator.js';
+import { ApprovalGate } from '../../agents/executor/approval-gate.js';
+import { getCurrentUser } from '../../shared/auth/identity.js';
+import { CancellationRegistry, getCurrentSignal } from '../../shared/cancellation/registry.js';
 
 describe('GraphQL Mutation Resolvers', () => {
   let mockOrchestrator: jest.Mocked<OrchestratorAgent>;
@@ -90,7 +93,7 @@ describe('GraphQL Mutation Resolvers', () => {
         context
       );
 
-      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith('Test query');
+      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith('Test query', undefined, expect.any(String));
       expect(result).toBeDefined();
       expect(result.requestId).toMatch(/^test-req-\d+$/);
       expect(result.message).toBe('Test response');
@@ -116,6 +119,34 @@ describe('GraphQL Mutation Resolvers', () => {
       }
     });
 
+    it('should record the signed-in user and run the query as them', async () => {
+      const user = { id: 'dana', role: 'viewer', method: 'jwt', credential: 'token' };
+      let runningAs: any;
+      mockOrchestrator.handleQuery.mockImplementationOnce(async () => {
+        runningAs = getCurrentUser();
+        return {
+          message: 'Test response',
+          tools_used: [],
+          metadata: {
+            request_id: 'test-req-auth',
+            total_duration_ms: 10,
+            timestamp: new Date().toISOString(),
+            error: false,
+          },
+        };
+      });
+
+      await resolvers.Mutation.executeQuery(
+        null,
+        { query: 'Whose query', userId: 'someone-else' },
+        { ...context, user }
+      );
+
+      const history = await resolvers.Query.getRequestHistory(null, { limit: 100, userId: 'dana' });
+      expect(history.map((r: any) => r.requestId)).toContain('test-req-auth');
+      expect(runningAs).toEqual(user);
+    });
+
     it('should publish progress updates', async () => {
       await resolvers.Mutation.executeQuery(
         null,
@@ -273,7 +304,7 @@ describe('GraphQL Mutation Resolvers', () => {
       );
 
       expect(result).toBeDefined();
-      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith(longQuery);
+      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith(longQuery, undefined, expect.any(String));
     });
 
     it('should handle special characters in query', async () => {
@@ -286,7 +317,7 @@ describe('GraphQL Mutation Resolvers', () => {
       );
 
       expect(result).toBeDefined();
-      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith(specialQuery);
+      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith(specialQuery, undefined, expect.any(String));
     });
   });
 
@@ -307,6 +338,37 @@ describe('GraphQL Mutation Resolvers', () => {
       expect(result).toBe(true);
     });
 
+    it('should stop an executeQuery that is running', async () => {
+      const cancellation = new CancellationRegistry();
+      let started: () => void;
+      const running = new Promise<void>((resolve) => (started = resolve));
+      // The pipeline waits on the ambient signal, as tools and LLM calls do
+      mockOrchestrator.handleQuery.mockImplementationOnce(async () => {
+        const signal = getCurrentSignal()!;
+        started();
+        await new Promise((_resolve, reject) =>
+          signal.addEventListener('abort', () => reject(signal.reason))
+        );
+        throw new Error('unreachable');
+      });
+
+      const pending = resolvers.Mutation.executeQuery(
+        null,
+        { query: 'Test query', requestId: 'req-running' },
+        { ...context, cancellation }
+      );
+      await running;
+
+      expect(cancellation.isRunning('req-running')).toBe(true);
+      expect(await resolvers.Mutation.cancelQuery(null, { requestId: 'req-running' }, { ...context, cancellation })).toBe(true);
+
+      const result = await pending;
+      expect(result.requestId).toBe('req-running');
+      expect(result.metadata.error).toBe(true);
+      expect(result.message).toContain('cancelled');
+      expect(cancellation.isRunning('req-running')).toBe(false);
+    });
+
     it('should work with any request ID format', async () => {
       const testIds = ['uuid-format', '123', 'test-id-with-dashes'];
 
@@ -319,6 +381,181 @@ describe('GraphQL Mutation Resolvers', () => {
     });
   });
 
+  describe('forgetUserMemory', () => {
+    const report = {
+      subject: { type: 'user', id: 'user-1' },
+      episodic: { deleted: 2, by_type: { request: 2 }, ids: ['req_1', 'req_2'] },
+      semantic: { deleted: 1, ids: ['sem_req_1'] },
+      started_at: '2025-10-20T12:00:00.000Z',
+      completed_at: '2025-10-20T12:00:01.000Z',
+    };
+
+    it('should return the deletion report', async () => {
+      const forgetUser = jest.fn().mockResolvedValue(report);
+      const admin = { id: 'root', role: 'admin', method: 'api-key' };
+
+      const result = await resolvers.Mutation.forgetUserMemory(
+        null,
+        { userId: 'user-1' },
+        { ...context, memory: { forgetUser }, user: admin }
+      );
+
+      expect(forgetUser).toHaveBeenCalledWith('user-1');
+      expect(result).toEqual({
+        subject: { type: 'user', id: 'user-1' },
+        episodic: { deleted: 2, byType: { request: 2 }, ids: ['req_1', 'req_2'] },
+        semantic: { deleted: 1, ids: ['sem_req_1'] },
+        startedAt: '2025-10-20T12:00:00.000Z',
+        completedAt: '2025-10-20T12:00:01.000Z',
+      });
+    });
+
+    it('should refuse callers below admin', async () => {
+      const forgetUser = jest.fn().mockResolvedValue(report);
+      const operator = { id: 'dana', role: 'operator', method: 'jwt' };
+
+      await expect(
+        resolvers.Mutation.forgetUserMemory(null, { userId: 'user-1' }, { ...context, memory: { forgetUser }, user: operator })
+      ).rejects.toThrow('Role operator may not forget memory (requires admin)');
+      expect(forgetUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conversations', () => {
+    const conversation = {
+      conversationId: 'conv-1',
+      userId: 'dana',
+      messages: [],
+      turns: [],
+      createdAt: '2025-10-20T12:00:00.000Z',
+      updatedAt: '2025-10-20T12:00:00.000Z',
+    };
+    const dana = { id: 'dana', role: 'viewer', method: 'jwt' };
+    const erin = { id: 'erin', role: 'operator', method: 'jwt' };
+    const admin = { id: 'root', role: 'admin', method: 'api_key' };
+    let conversations: any;
+
+    beforeEach(() => {
+      conversations = {
+        getConversation: jest.fn().mockResolvedValue(conversation),
+        sendMessage: jest.fn(),
+      };
+    });
+
+    it('should let the owner and admins read a conversation', async () => {
+      const asDana = await resolvers.Query.getConversation(null, { conversationId: 'conv-1' }, { ...context, conversations, user: dana });
+      const asAdmin = await resolvers.Query.getConversation(null, { conversationId: 'conv-1' }, { ...context, conversations, user: admin });
+
+      expect(asDana?.conversationId).toBe('conv-1');
+      expect(asAdmin?.conversationId).toBe('conv-1');
+    });
+
+    it("should refuse another user's conversation", async () => {
+      await expect(
+        resolvers.Query.getConversation(null, { conversationId: 'conv-1' }, { ...context, conversations, user: erin })
+      ).rejects.toThrow('Role operator may not access conversation conv-1');
+      await expect(
+        resolvers.Mutation.sendMessage(null, { conversationId: 'conv-1', text: 'And now?' }, { ...context, conversations, user: erin })
+      ).rejects.toThrow('Role operator may not access conversation conv-1');
+      expect(conversations.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request ownership', () => {
+    const dana = { id: 'dana', role: 'viewer', method: 'jwt' };
+    const erin = { id: 'erin', role: 'operator', method: 'jwt' };
+    const admin = { id: 'root', role: 'admin', method: 'api_key' };
+
+    beforeEach(() => {
+      (mockOrchestrator as any).resumeQuery = jest.fn().mockImplementation(async (requestId: string) => ({
+        message: 'Resumed',
+        tools_used: [],
+        metadata: { request_id: requestId, total_duration_ms: 5, timestamp: new Date().toISOString(), error: false },
+      }));
+      (mockOrchestrator as any).answerClarification = jest.fn();
+    });
+
+    it('should let the owner and admins resume a request', async () => {
+      await resolvers.Mutation.executeQuery(null, { query: 'Mine', requestId: 'req-dana' }, { ...context, user: dana });
+
+      const asDana = await resolvers.Mutation.resumeQuery(null, { requestId: 'req-dana' }, { ...context, user: dana });
+      const asAdmin = await resolvers.Mutation.resumeQuery(null, { requestId: 'req-dana' }, { ...context, user: admin });
+
+      expect(asDana.message).toBe('Resumed');
+      expect(asAdmin.message).toBe('Resumed');
+    });
+
+    it("should refuse to resume, answer or cancel another user's request", async () => {
+      const cancellation = new CancellationRegistry();
+      await resolvers.Mutation.executeQuery(null, { query: 'Mine', requestId: 'req-dana-2' }, { ...context, user: dana });
+
+      await expect(
+        resolvers.Mutation.resumeQuery(null, { requestId: 'req-dana-2' }, { ...context, user: erin })
+      ).rejects.toThrow('Role operator may not access request req-dana-2');
+      await expect(
+        resolvers.Mutation.answerClarification(null, { requestId: 'req-dana-2', answer: 'Yes' }, { ...context, user: erin })
+      ).rejects.toThrow('Role operator may not access request req-dana-2');
+      await expect(
+        resolvers.Mutation.cancelQuery(null, { requestId: 'req-dana-2' }, { ...context, cancellation, user: erin })
+      ).rejects.toThrow('Role operator may not access request req-dana-2');
+
+      expect((mockOrchestrator as any).resumeQuery).not.toHaveBeenCalled();
+      expect((mockOrchestrator as any).answerClarification).not.toHaveBeenCalled();
+      expect(cancellation.isCancelled('req-dana-2')).toBe(false);
+    });
+
+    it('should refuse to resume a request with no recorded owner', async () => {
+      await expect(
+        resolvers.Mutation.resumeQuery(null, { requestId: 'req-unknown' }, { ...context, user: dana })
+      ).rejects.toThrow('Role viewer may not access request req-unknown');
+    });
+
+    it('should keep a request cancelled ahead of time for the user who cancelled it', async () => {
+      const cancellation = new CancellationRegistry();
+      await resolvers.Mutation.cancelQuery(null, { requestId: 'req-precancelled' }, { ...context, cancellation, user: erin });
+
+      await expect(
+        resolvers.Mutation.executeQuery(null, { query: 'Mine', requestId: 'req-precancelled' }, { ...context, cancellation, user: dana })
+      ).rejects.toThrow('Role viewer may not access request req-precancelled');
+      expect(mockOrchestrator.handleQuery).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to stream another user's request", async () => {
+      await resolvers.Mutation.executeQuery(null, { query: 'Mine', requestId: 'req-dana-3' }, { ...context, user: dana });
+
+      expect(() =>
+        resolvers.Subscription.summaryStream.subscribe(null, { requestId: 'req-dana-3' }, { ...context, user: erin })
+      ).toThrow('Role operator may not access request req-dana-3');
+      expect(() =>
+        resolvers.Subscription.approvalRequired.subscribe(null, { requestId: 'req-dana-3' }, { ...context, user: erin })
+      ).toThrow('Role operator may not access request req-dana-3');
+      expect(
+        resolvers.Subscription.summaryStream.subscribe(null, { requestId: 'req-dana-3' }, { ...context, user: dana })
+      ).toBeDefined();
+    });
+  });
+
+  describe('approveStep', () => {
+    it("should refuse callers below the role the step's tool needs", async () => {
+      const approvalGate = new ApprovalGate({ timeoutMs: 5000 });
+      const pending = approvalGate.requestApproval('req-gated', 0, { tool: 'shipments_delete', params: { id: 'S1' } });
+      const viewer = { id: 'vic', role: 'viewer', method: 'jwt' };
+      const admin = { id: 'root', role: 'admin', method: 'api_key' };
+
+      await expect(
+        resolvers.Mutation.approveStep(null, { requestId: 'req-gated', stepIndex: 0 }, { ...context, approvalGate, user: viewer })
+      ).rejects.toThrow('Role viewer may not decide on shipments_delete (requires admin)');
+
+      const decision = await resolvers.Mutation.approveStep(
+        null,
+        { requestId: 'req-gated', stepIndex: 0 },
+        { ...context, approvalGate, user: admin }
+      );
+      expect(decision).toMatchObject({ approved: true, actor: 'root', actorRole: 'admin' });
+      await expect(pending).resolves.toMatchObject({ approved: true });
+    });
+  });
+
   describe('Concurrent Mutations', () => {
     it('should handle multiple concurrent executeQuery calls', async () => {
       const queries = ['Query 1', 'Query 2', 'Query 3'];
@@ -183,7 +183,7 @@ describe('GraphQL Server Integration', () => {
         });
 
       expect(response.status).toBe(200);
-      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith('Test context');
+      expect(mockOrchestrator.handleQuery).toHaveBeenCalledWith('Test context', undefined, expect.any(String));
     });
 
     it('should allow memory context queries', async () => {
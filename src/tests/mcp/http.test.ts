@@ -0,0 +1,125 @@
+// Tests for the MCP Streamable HTTP transport, driven by the SDK's own client
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { MCPServer } from "../../mcp/server.js";
+import { MCPHttpServer } from "../../mcp/http.js";
+import { getCurrentUser } from "../../shared/auth/identity.js";
+import { MCPTool } from "../../shared/types/tool.js";
+
+// Echoes its params and the user it ran as
+const whoamiTool: MCPTool = {
+  name: "whoami",
+  description: "Report the calling user",
+  schema: {
+    params: { note: { type: "string", description: "Anything", required: false } },
+    returns: { type: "object", description: "The caller" },
+  },
+  execute: async (params) => ({
+    success: true,
+    tool: "whoami",
+    data: { user: getCurrentUser()?.id ?? null, note: params.note },
+    metadata: { executionTime: 0, timestamp: new Date().toISOString() },
+  }),
+};
+
+function connectClient(url: string, token?: string): Promise<Client> & { transport: StreamableHTTPClientTransport } {
+  const transport = new StreamableHTTPClientTransport(new URL(url), {
+    requestInit: token ? { headers: { Authorization: `Bearer ${token}` } } : {},
+  });
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  return Object.assign(client.connect(transport).then(() => client), { transport });
+}
+
+describe("MCP HTTP transport", () => {
+  const originalEnv = process.env;
+  let http: MCPHttpServer;
+  let clients: Client[];
+
+  beforeEach(async () => {
+    process.env = { ...originalEnv, API_KEYS: "key-dana:viewer:dana,key-sam:operator:sam" };
+    delete process.env.JWT_SECRET;
+
+    const server = new MCPServer("clear-ai-v2", "1.0.0");
+    server.registerTool(whoamiTool);
+    http = await server.startHttp({ port: 0 });
+    clients = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await http.close();
+    process.env = originalEnv;
+  });
+
+  async function connect(token?: string): Promise<Client> {
+    const client = await connectClient(http.url, token);
+    clients.push(client);
+    return client;
+  }
+
+  it("should list and call the registered tools as the signed-in user", async () => {
+    const client = await connect("key-dana");
+
+    const { tools } = await client.listTools();
+    expect(tools.map((tool) => tool.name)).toEqual(["whoami"]);
+
+    const result: any = await client.callTool({ name: "whoami", arguments: { note: "hi" } });
+    expect(JSON.parse(result.content[0].text).data).toEqual({ user: "dana", note: "hi" });
+  });
+
+  it("should keep concurrent clients in separate sessions", async () => {
+    const [dana, sam] = await Promise.all([connect("key-dana"), connect("key-sam")]);
+
+    const [forDana, forSam]: any[] = await Promise.all([
+      dana.callTool({ name: "whoami", arguments: {} }),
+      sam.callTool({ name: "whoami", arguments: {} }),
+    ]);
+
+    expect(JSON.parse(forDana.content[0].text).data.user).toBe("dana");
+    expect(JSON.parse(forSam.content[0].text).data.user).toBe("sam");
+    expect(http.sessionCount()).toBe(2);
+  });
+
+  it("should refuse requests without a valid bearer token", async () => {
+    await expect(connectClient(http.url)).rejects.toThrow();
+    await expect(connectClient(http.url, "wrong-key")).rejects.toThrow();
+    expect(http.sessionCount()).toBe(0);
+  });
+
+  it("should not let another user use a session", async () => {
+    const pending = connectClient(http.url, "key-dana");
+    clients.push(await pending);
+
+    const res = await fetch(http.url, {
+      method: "POST",
+      headers: {
+        Authorization: "Bearer key-sam",
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "Mcp-Session-Id": pending.transport.sessionId!,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(res.status).toBe(403);
+  });
+
+  it("should end a session when the client terminates it", async () => {
+    const pending = connectClient(http.url, "key-dana");
+    clients.push(await pending);
+    expect(http.sessionCount()).toBe(1);
+
+    await pending.transport.terminateSession();
+
+    expect(http.sessionCount()).toBe(0);
+  });
+
+  it("should report health without authentication", async () => {
+    await connect("key-dana");
+
+    const res = await fetch(http.url.replace(/\/mcp$/, "/health"));
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: "ok", transport: "streamable-http", sessions: 1, tools: 1 });
+  });
+});
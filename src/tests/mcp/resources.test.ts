@@ -0,0 +1,165 @@
+// Tests for MCP resources, resource change notifications and prompts
+import nock from "nock";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import {
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MCPServer } from "../../mcp/server.js";
+import { registerAllResources } from "../../mcp/resources.js";
+import { registerAllPrompts } from "../../mcp/prompts.js";
+
+const apiUrl = "http://localhost:4000";
+
+const facility = { id: "F1", name: "Hannover Sorting", type: "sorting", capacity_tons: 500 };
+const contract = {
+  id: "C1",
+  producer_id: "P1",
+  facility_id: "F1",
+  start_date: "2025-01-01",
+  end_date: "2025-12-31",
+  status: "active",
+};
+
+describe("MCP resources and prompts", () => {
+  let client: Client;
+
+  async function connect(resourcePollMs = 60 * 1000): Promise<void> {
+    const server = new MCPServer("clear-ai-v2", "1.0.0", { resourcePollMs });
+    registerAllResources(server, apiUrl);
+    registerAllPrompts(server);
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  }
+
+  afterEach(async () => {
+    await client?.close();
+    nock.cleanAll();
+  });
+
+  it("should advertise resources with subscriptions, and prompts", async () => {
+    await connect();
+
+    expect(client.getServerCapabilities()).toMatchObject({
+      tools: {},
+      resources: { subscribe: true, listChanged: true },
+      prompts: {},
+    });
+  });
+
+  it("should list the active contracts and the entity templates", async () => {
+    nock(apiUrl).get("/contracts").query({ status: "active", limit: "1000" }).reply(200, { success: true, data: [contract] });
+    await connect();
+
+    const { resources } = await client.listResources();
+    const { resourceTemplates } = await client.listResourceTemplates();
+
+    expect(resources.map((resource) => resource.uri)).toEqual(["wasteer://contracts/active", "wasteer://contracts/C1"]);
+    expect(resources[1]).toMatchObject({ name: "Contract C1", description: "P1 → F1, 2025-01-01 to 2025-12-31" });
+    expect(resourceTemplates.map((template) => template.uriTemplate)).toEqual([
+      "wasteer://facilities/{id}",
+      "wasteer://shipments/{id}",
+      "wasteer://contracts/{id}",
+    ]);
+  });
+
+  it("should read every page of the active contracts", async () => {
+    nock(apiUrl)
+      .get("/contracts")
+      .query({ status: "active", limit: "1000" })
+      .reply(200, { success: true, data: [contract], next_cursor: "page2" });
+    nock(apiUrl)
+      .get("/contracts")
+      .query({ status: "active", limit: "1000", cursor: "page2" })
+      .reply(200, { success: true, data: [{ ...contract, id: "C2" }], next_cursor: null });
+    await connect();
+
+    const { contents } = await client.readResource({ uri: "wasteer://contracts/active" });
+
+    expect(JSON.parse((contents[0] as any).text).map((c: any) => c.id)).toEqual(["C1", "C2"]);
+  });
+
+  it("should read a facility as JSON", async () => {
+    nock(apiUrl).get("/facilities/F1").reply(200, { success: true, data: facility });
+    await connect();
+
+    const { contents } = await client.readResource({ uri: "wasteer://facilities/F1" });
+
+    expect(contents).toEqual([
+      { uri: "wasteer://facilities/F1", mimeType: "application/json", text: JSON.stringify(facility, null, 2) },
+    ]);
+  });
+
+  it("should report unknown records and URIs as not found", async () => {
+    nock(apiUrl).get("/shipments/NOPE").reply(404, { success: false, error: { message: "Shipment not found" } });
+    await connect();
+
+    await expect(client.readResource({ uri: "wasteer://shipments/NOPE" })).rejects.toMatchObject({ code: -32002 });
+    await expect(client.readResource({ uri: "wasteer://producers/P1" })).rejects.toMatchObject({ code: -32002 });
+  });
+
+  it("should notify subscribers when a resource changes", async () => {
+    nock(apiUrl).get("/facilities/F1").reply(200, { success: true, data: facility });
+    nock(apiUrl).get("/facilities/F1").reply(200, { success: true, data: { ...facility, capacity_tons: 650 } });
+    await connect(20);
+
+    const updated = new Promise((resolve) =>
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => resolve(notification.params))
+    );
+    await client.subscribeResource({ uri: "wasteer://facilities/F1" });
+
+    expect(await updated).toEqual({ uri: "wasteer://facilities/F1" });
+  });
+
+  it("should notify clients that listed resources when the list changes", async () => {
+    const active = () => nock(apiUrl).get("/contracts").query({ status: "active", limit: "1000" });
+    active().reply(200, { success: true, data: [contract] });
+    active().reply(200, { success: true, data: [] });
+    await connect(20);
+
+    const changed = new Promise<void>((resolve) =>
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve())
+    );
+    await client.listResources();
+
+    await expect(changed).resolves.toBeUndefined();
+  });
+
+  it("should list the workflow prompts", async () => {
+    await connect();
+
+    const { prompts } = await client.listPrompts();
+
+    expect(prompts.map((prompt) => prompt.name)).toEqual(["facility_compliance_review", "contamination_incident_report"]);
+    expect(prompts[0]!.arguments).toEqual([
+      { name: "facility_id", description: "Facility to review", required: true },
+      { name: "period_days", description: "How many days back to look (default 30)" },
+    ]);
+  });
+
+  it("should render a prompt with its record attached", async () => {
+    nock(apiUrl).get("/facilities/F1").reply(200, { success: true, data: facility });
+    await connect();
+
+    const { messages } = await client.getPrompt({
+      name: "facility_compliance_review",
+      arguments: { facility_id: "F1", period_days: "7" },
+    });
+
+    expect(messages[0]!.content).toMatchObject({ type: "resource", resource: { uri: "wasteer://facilities/F1" } });
+    expect(messages[1]!.content).toMatchObject({ type: "text" });
+    expect((messages[1]!.content as any).text).toContain("facility F1 over the last 7 days");
+  });
+
+  it("should refuse a prompt without its required arguments", async () => {
+    await connect();
+
+    await expect(client.getPrompt({ name: "contamination_incident_report", arguments: {} })).rejects.toThrow(
+      "Missing required arguments for contamination_incident_report: shipment_id"
+    );
+  });
+});
@@ -0,0 +1,127 @@
+// Tests for tool input schemas and argument validation over MCP
+import nock from "nock";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { MCPServer } from "../../mcp/server.js";
+import { ShipmentsListTool } from "../../tools/shipments/list.js";
+import { FacilitiesCreateTool } from "../../tools/facilities/create.js";
+import { FacilitiesDetailedTool } from "../../tools/relationships/facilities-detailed.js";
+
+const apiUrl = "http://localhost:4000";
+
+describe("MCP tools", () => {
+  let client: Client;
+
+  beforeEach(async () => {
+    const server = new MCPServer("clear-ai-v2", "1.0.0");
+    server.registerTool(new ShipmentsListTool(apiUrl));
+    server.registerTool(new FacilitiesCreateTool(apiUrl));
+    server.registerTool(new FacilitiesDetailedTool(apiUrl));
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    nock.cleanAll();
+  });
+
+  async function inputSchema(name: string): Promise<any> {
+    const { tools } = await client.listTools();
+    return tools.find((tool) => tool.name === name)!.inputSchema;
+  }
+
+  it("should advertise enums and bounds", async () => {
+    const schema = await inputSchema("shipments_list");
+
+    expect(schema.properties.status).toEqual({
+      type: "string",
+      description: "Shipment status (pending, in_transit, delivered, rejected)",
+      enum: ["pending", "in_transit", "delivered", "rejected"],
+    });
+    expect(schema.properties.limit).toMatchObject({ type: "number", minimum: 1, maximum: 500 });
+  });
+
+  it("should advertise array items and nested objects", async () => {
+    const facility = await inputSchema("facilities_create");
+    const detailed = await inputSchema("facilities_get_detailed");
+
+    expect(facility.properties.accepted_waste_types.items).toEqual({ type: "string" });
+    expect(facility.properties.coordinates).toMatchObject({
+      type: "object",
+      properties: {
+        lat: { type: "number", minimum: -90, maximum: 90 },
+        lon: { type: "number", minimum: -180, maximum: 180 },
+      },
+      required: ["lat", "lon"],
+    });
+    expect(facility.required).toEqual(["id", "name", "location", "type", "capacity_tons"]);
+    expect(detailed.properties.include.items).toEqual({
+      type: "string",
+      enum: ["shipments", "inspections", "contaminants"],
+    });
+  });
+
+  it("should return invalid arguments as an error result, field by field", async () => {
+    const result = await client.callTool({
+      name: "shipments_list",
+      arguments: { status: "lost", limit: 1000, has_contaminants: "yes" },
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as any)[0].text).toBe(
+      [
+        "Invalid arguments for shipments_list:",
+        '- status: must be one of "pending", "in_transit", "delivered", "rejected"',
+        "- limit: must be <= 500",
+        "- has_contaminants: must be boolean, got string",
+      ].join("\n")
+    );
+  });
+
+  it("should check required fields and nested values", async () => {
+    const result = await client.callTool({
+      name: "facilities_create",
+      arguments: { name: "Hannover Sorting", type: "sorting", capacity_tons: 500, coordinates: { lat: 95 } },
+    });
+
+    expect(result.isError).toBe(true);
+    const text = (result.content as any)[0].text;
+    expect(text).toContain("- location: is required");
+    expect(text).toContain("- coordinates.lon: is required");
+    expect(text).toContain("- coordinates.lat: must be <= 90");
+  });
+
+  it("should run the tool when the arguments are valid", async () => {
+    nock(apiUrl)
+      .get("/api/shipments")
+      .query({ status: "delivered", limit: "10" })
+      .reply(200, { success: true, data: [{ id: "S1", status: "delivered" }] });
+
+    const result = await client.callTool({ name: "shipments_list", arguments: { status: "delivered", limit: 10 } });
+
+    expect(result.isError).toBeUndefined();
+    expect(JSON.parse((result.content as any)[0].text)).toMatchObject({
+      success: true,
+      data: [{ id: "S1", status: "delivered" }],
+    });
+  });
+
+  it("should flag a failed tool run as an error result", async () => {
+    nock(apiUrl).get("/api/shipments").query(true).reply(500, { success: false, error: { message: "Database down" } });
+
+    const result = await client.callTool({ name: "shipments_list", arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as any)[0].text)).toMatchObject({ success: false });
+  });
+
+  it("should refuse an unknown tool", async () => {
+    await expect(client.callTool({ name: "shipments_delete", arguments: {} })).rejects.toThrow(
+      "Tool not found: shipments_delete"
+    );
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for resolving credentials to identities and roles
+ */
+
+import { authenticate, credentialHeaders, isAuthEnabled, parseApiKeys } from '../../../shared/auth/credentials.js';
+import { assertToolAllowed, hasRole, requiredToolRole } from '../../../shared/auth/identity.js';
+import { signJwt } from '../../../shared/auth/jwt.js';
+import { PermissionDeniedError } from '../../../shared/utils/errors.js';
+
+describe('Auth credentials', () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.API_KEYS;
+    delete process.env.JWT_SECRET;
+    delete process.env.AGENT_API_KEY;
+  });
+
+  afterAll(() => {
+    process.env = original;
+  });
+
+  describe('parseApiKeys', () => {
+    it('should parse key:role:owner entries and skip unknown roles', () => {
+      const keys = parseApiKeys('k1:admin:root, k2:viewer ,k3:superuser:eve');
+
+      expect([...keys]).toEqual([
+        ['k1', { id: 'root', role: 'admin' }],
+        ['k2', { id: 'viewer', role: 'viewer' }],
+      ]);
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should treat everyone as the anonymous admin while authentication is off', () => {
+      expect(isAuthEnabled()).toBe(false);
+      expect(authenticate({})).toMatchObject({ id: 'anonymous', role: 'admin', method: 'anonymous' });
+    });
+
+    it('should accept an API key in X-API-Key or as a bearer token', () => {
+      process.env.API_KEYS = 'k1:inspector:lee';
+
+      expect(authenticate({ apiKey: 'k1' })).toEqual({ id: 'lee', role: 'inspector', method: 'api-key', credential: 'k1' });
+      expect(authenticate({ authorization: 'Bearer k1' })).toMatchObject({ id: 'lee', role: 'inspector' });
+    });
+
+    it('should accept a JWT with a subject and role', () => {
+      process.env.JWT_SECRET = 'secret';
+      const token = signJwt({ sub: 'dana', role: 'operator' }, 'secret');
+
+      expect(authenticate({ authorization: `Bearer ${token}` })).toEqual({
+        id: 'dana',
+        role: 'operator',
+        method: 'jwt',
+        credential: token,
+      });
+    });
+
+    it('should reject missing and unknown credentials', () => {
+      process.env.API_KEYS = 'k1:admin:root';
+
+      expect(() => authenticate({})).toThrow('Authentication required');
+      expect(() => authenticate({ apiKey: 'nope' })).toThrow('Invalid API key');
+      expect(() => authenticate({ authorization: 'Bearer nope' })).toThrow('Invalid API key');
+    });
+
+    it('should reject tokens without a valid role', () => {
+      process.env.JWT_SECRET = 'secret';
+      const token = signJwt({ sub: 'dana', role: 'superuser' }, 'secret');
+
+      expect(() => authenticate({ authorization: `Bearer ${token}` })).toThrow('Token has no valid role');
+    });
+  });
+
+  describe('credentialHeaders', () => {
+    it("should forward the user's credential the way it came in", () => {
+      expect(credentialHeaders({ id: 'lee', role: 'inspector', method: 'api-key', credential: 'k1' })).toEqual({
+        'X-API-Key': 'k1',
+      });
+      expect(credentialHeaders({ id: 'dana', role: 'viewer', method: 'jwt', credential: 't' })).toEqual({
+        Authorization: 'Bearer t',
+      });
+    });
+
+    it("should fall back to the agent's own key", () => {
+      expect(credentialHeaders(undefined)).toEqual({});
+
+      process.env.AGENT_API_KEY = 'agent-key';
+
+      expect(credentialHeaders(undefined)).toEqual({ 'X-API-Key': 'agent-key' });
+    });
+  });
+
+  describe('roles', () => {
+    it('should rank roles from viewer to admin', () => {
+      expect(hasRole('admin', 'operator')).toBe(true);
+      expect(hasRole('inspector', 'inspector')).toBe(true);
+      expect(hasRole('inspector', 'operator')).toBe(false);
+    });
+
+    it('should map tools to the role their API routes need', () => {
+      expect(requiredToolRole('shipments_list')).toBe('viewer');
+      expect(requiredToolRole('inspections_create')).toBe('inspector');
+      expect(requiredToolRole('shipments_transition')).toBe('operator');
+      expect(requiredToolRole('contracts_delete')).toBe('admin');
+      expect(requiredToolRole('database_reset')).toBe('admin');
+    });
+
+    it('should only check tools when there is a requesting user', () => {
+      expect(() => assertToolAllowed('shipments_delete', undefined)).not.toThrow();
+      expect(() =>
+        assertToolAllowed('shipments_delete', { id: 'dana', role: 'operator', method: 'jwt' })
+      ).toThrow(PermissionDeniedError);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Unit tests for HS256 token signing and verification
+ */
+
+import { signJwt, verifyJwt } from '../../../shared/auth/jwt.js';
+import { AuthenticationError } from '../../../shared/utils/errors.js';
+
+describe('JWT', () => {
+  const secret = 'test-secret';
+  const now = Date.parse('2025-10-01T12:00:00Z');
+  const seconds = now / 1000;
+
+  it('should verify a token it signed and return the claims', () => {
+    const token = signJwt({ sub: 'dana', role: 'viewer', exp: seconds + 60 }, secret);
+
+    expect(verifyJwt(token, secret, now)).toEqual({ sub: 'dana', role: 'viewer', exp: seconds + 60 });
+  });
+
+  it('should reject a token signed with another secret', () => {
+    const token = signJwt({ sub: 'dana', role: 'admin' }, 'other-secret');
+
+    expect(() => verifyJwt(token, secret, now)).toThrow('Invalid token signature');
+  });
+
+  it('should reject a token whose claims were changed', () => {
+    const [header, , signature] = signJwt({ sub: 'dana', role: 'viewer' }, secret).split('.');
+    const payload = Buffer.from(JSON.stringify({ sub: 'dana', role: 'admin' })).toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${payload}.${signature}`, secret, now)).toThrow('Invalid token signature');
+  });
+
+  it('should reject algorithms other than HS256', () => {
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify({ sub: 'dana', role: 'admin' })).toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${payload}.`, secret, now)).toThrow(AuthenticationError);
+  });
+
+  it('should check exp and nbf', () => {
+    const expired = signJwt({ sub: 'dana', exp: seconds }, secret);
+    const early = signJwt({ sub: 'dana', nbf: seconds + 60 }, secret);
+
+    expect(() => verifyJwt(expired, secret, now)).toThrow('Token has expired');
+    expect(() => verifyJwt(early, secret, now)).toThrow('Token is not valid yet');
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(() => verifyJwt('not-a-token', secret, now)).toThrow('Malformed token');
+    expect(() => verifyJwt('a.b.c', secret, now)).toThrow('Malformed token');
+  });
+});
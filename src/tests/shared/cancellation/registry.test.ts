@@ -0,0 +1,162 @@
+/**
+ * Cancellation Registry Tests
+ * Testing request cancellation and ambient abort signals
+ */
+
+import {
+  CancellationRegistry,
+  getCurrentSignal,
+  isCancellationError,
+  runWithSignal,
+  throwIfCancelled,
+} from '../../../shared/cancellation/registry.js';
+import { CancellationError } from '../../../shared/utils/errors.js';
+
+describe('CancellationRegistry', () => {
+  let registry: CancellationRegistry;
+
+  beforeEach(() => {
+    registry = new CancellationRegistry();
+  });
+
+  describe('begin / end', () => {
+    it('should track a running request', () => {
+      const signal = registry.begin('req_1');
+
+      expect(signal.aborted).toBe(false);
+      expect(registry.isRunning('req_1')).toBe(true);
+      expect(registry.getRunningRequests()).toEqual(['req_1']);
+
+      registry.end('req_1');
+      expect(registry.isRunning('req_1')).toBe(false);
+    });
+
+    it('should return the same signal for concurrent phases', () => {
+      const first = registry.begin('req_1');
+      const second = registry.begin('req_1');
+
+      expect(second).toBe(first);
+    });
+
+    it('should keep tracking a request until every phase has ended', () => {
+      const signal = registry.begin('req_1');
+      registry.begin('req_1');
+
+      registry.end('req_1');
+      expect(registry.isRunning('req_1')).toBe(true);
+      expect(registry.cancel('req_1')).toBe(true);
+      expect(signal.aborted).toBe(true);
+
+      registry.end('req_1');
+      expect(registry.isRunning('req_1')).toBe(false);
+    });
+  });
+
+  describe('cancel', () => {
+    it('should abort a running request', () => {
+      const signal = registry.begin('req_1');
+
+      const wasRunning = registry.cancel('req_1');
+
+      expect(wasRunning).toBe(true);
+      expect(signal.aborted).toBe(true);
+      expect(signal.reason).toBeInstanceOf(CancellationError);
+      expect(registry.isCancelled('req_1')).toBe(true);
+    });
+
+    it('should record cancellation of a request that is not running', () => {
+      const wasRunning = registry.cancel('req_1', 'User navigated away');
+
+      expect(wasRunning).toBe(false);
+      expect(registry.getCancellation('req_1')).toMatchObject({
+        requestId: 'req_1',
+        reason: 'User navigated away',
+        wasRunning: false,
+      });
+    });
+
+    it('should refuse later phases of a cancelled request', () => {
+      registry.cancel('req_1');
+
+      const signal = registry.begin('req_1');
+
+      expect(signal.aborted).toBe(true);
+    });
+
+    it('should evict the oldest records when full', () => {
+      const small = new CancellationRegistry(2);
+      small.cancel('req_1');
+      small.cancel('req_2');
+      small.cancel('req_3');
+
+      expect(small.isCancelled('req_1')).toBe(false);
+      expect(small.isCancelled('req_3')).toBe(true);
+    });
+  });
+
+  describe('run', () => {
+    it('should expose the signal as the ambient signal', async () => {
+      let ambient: AbortSignal | undefined;
+
+      await registry.run('req_1', async (signal) => {
+        ambient = getCurrentSignal();
+        expect(ambient).toBe(signal);
+      });
+
+      expect(ambient).toBeDefined();
+      expect(registry.isRunning('req_1')).toBe(false);
+    });
+
+    it('should reject immediately if already cancelled', async () => {
+      registry.cancel('req_1');
+      const operation = jest.fn();
+
+      await expect(registry.run('req_1', operation)).rejects.toBeInstanceOf(CancellationError);
+      expect(operation).not.toHaveBeenCalled();
+    });
+
+    it('should stop tracking after the operation fails', async () => {
+      await expect(
+        registry.run('req_1', async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(registry.isRunning('req_1')).toBe(false);
+    });
+  });
+});
+
+describe('cancellation helpers', () => {
+  it('should have no ambient signal outside runWithSignal', () => {
+    expect(getCurrentSignal()).toBeUndefined();
+  });
+
+  it('should propagate the ambient signal across awaits', async () => {
+    const controller = new AbortController();
+
+    await runWithSignal(controller.signal, async () => {
+      await new Promise(resolve => setTimeout(resolve, 1));
+      expect(getCurrentSignal()).toBe(controller.signal);
+    });
+  });
+
+  it('should throw only when the signal is aborted', () => {
+    const controller = new AbortController();
+
+    expect(() => throwIfCancelled(controller.signal, 'req_1')).not.toThrow();
+    expect(() => throwIfCancelled(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal, 'req_1')).toThrow(CancellationError);
+  });
+
+  it('should recognise abort errors from axios and the OpenAI SDK', () => {
+    expect(isCancellationError(new CancellationError('req_1'))).toBe(true);
+    expect(isCancellationError({ name: 'CanceledError', code: 'ERR_CANCELED' })).toBe(true);
+    expect(isCancellationError({ name: 'APIUserAbortError' })).toBe(true);
+    expect(isCancellationError({ name: 'AbortError' })).toBe(true);
+    expect(isCancellationError(new Error('Network error'))).toBe(false);
+    expect(isCancellationError(undefined)).toBe(false);
+  });
+});
@@ -166,6 +166,21 @@ describe('Configuration Loader', () => {
       expect(() => validateConfig(config)).toThrow('PINECONE_API_KEY');
     });
     
+    it('should not require Neo4j or Pinecone config for the local backends', () => {
+      process.env.OPENAI_API_KEY = 'test-key';
+      process.env.WASTEER_API_URL = 'http://localhost:4000';
+      process.env.ENABLE_MEMORY = 'true';
+      process.env.MEMORY_BACKEND = 'local';
+      process.env.NEO4J_PASSWORD = '';
+      process.env.PINECONE_API_KEY = '';
+      
+      const config = loadConfig();
+      
+      expect(config.memory.episodic_backend).toBe('mongodb');
+      expect(config.memory.semantic_backend).toBe('local');
+      expect(() => validateConfig(config)).not.toThrow();
+    });
+    
     it('should not require memory config when memory disabled', () => {
       process.env.OPENAI_API_KEY = 'test-key';
       process.env.WASTEER_API_URL = 'http://localhost:4000';
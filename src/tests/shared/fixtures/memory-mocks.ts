@@ -53,6 +53,7 @@ export class MockNeo4jSession {
         type: params.type,
         timestamp: params.timestamp,
         data: params.data,
+        user_id: params.user_id,
       });
       return { records: [] };
     }
@@ -62,6 +63,9 @@ export class MockNeo4jSession {
       const records = Array.from(this.events.values())
         .filter(event => {
           if (params.type && event.type !== params.type) return false;
+          if (params.date_to && event.timestamp > params.date_to) return false;
+          if (params.user_id && event.user_id !== params.user_id) return false;
+          if (params.mentions && !event.data.includes(params.mentions)) return false;
           return true;
         })
         .slice(0, params.limit || 10)
@@ -91,8 +95,10 @@ export class MockNeo4jSession {
     }
     
     if (query.includes('DETACH DELETE')) {
-      // Delete event
-      this.events.delete(params.id);
+      // Delete event(s)
+      for (const id of params.ids ?? [params.id]) {
+        this.events.delete(id);
+      }
       return { records: [] };
     }
     
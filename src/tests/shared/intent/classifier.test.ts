@@ -121,6 +121,11 @@ describe('IntentClassifier', () => {
       expect(classifier.isFollowUp('Show me those')).toBe(true);
       expect(classifier.isFollowUp('Tell me more about it')).toBe(true);
     });
+
+    it('should detect refinements of previous results', () => {
+      expect(classifier.isFollowUp('Only the ones from FacilityA')).toBe(true);
+      expect(classifier.isFollowUp('Just the rejected shipments')).toBe(true);
+    });
   });
   
   describe('extractTimeframe', () => {
@@ -51,6 +51,74 @@ describe('LLM Adapters', () => {
       
       expect(adapter.name).toBe('openai');
     });
+    
+    it('should stream chunks from server-sent events', async () => {
+      const events = [
+        { model: 'gpt-4', choices: [{ index: 0, delta: { content: 'Hello' } }] },
+        { model: 'gpt-4', choices: [{ index: 0, delta: { content: ' there' } }] },
+        { model: 'gpt-4', choices: [], usage: { prompt_tokens: 5, completion_tokens: 2, total_tokens: 7 } },
+      ];
+      nock('https://api.openai.com')
+        .post('/v1/chat/completions', (body) => body.stream === true)
+        .reply(
+          200,
+          events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n',
+          { 'Content-Type': 'text/event-stream' }
+        );
+      
+      const adapter = new OpenAIAdapter({
+        provider: 'openai',
+        model: 'gpt-4',
+        api_key: 'test-key'
+      });
+      
+      const chunks: string[] = [];
+      const result = await adapter.generateStream(mockRequest, (chunk) => chunks.push(chunk));
+      
+      expect(chunks).toEqual(['Hello', ' there']);
+      expect(result.content).toBe('Hello there');
+      expect(result.usage?.total_tokens).toBe(7);
+    });
+    
+    it('should request json_schema output from models that support it', async () => {
+      const schema = { type: 'object', properties: { answer: { type: 'string' } } };
+      let sentFormat: any;
+      nock('https://api.openai.com')
+        .post('/v1/chat/completions', (body) => {
+          sentFormat = body.response_format;
+          return true;
+        })
+        .reply(200, {
+          model: 'gpt-4o',
+          choices: [{ index: 0, message: { role: 'assistant', content: '{"answer":"hi"}' } }]
+        });
+      
+      const adapter = new OpenAIAdapter({ provider: 'openai', model: 'gpt-4o', api_key: 'test-key' });
+      await adapter.generate({ ...mockRequest, response_format: { name: 'reply', schema } });
+      
+      expect(sentFormat).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'reply', schema, strict: false }
+      });
+    });
+    
+    it('should fall back to JSON mode for older models', async () => {
+      let sentFormat: any;
+      nock('https://api.openai.com')
+        .post('/v1/chat/completions', (body) => {
+          sentFormat = body.response_format;
+          return true;
+        })
+        .reply(200, {
+          model: 'gpt-3.5-turbo',
+          choices: [{ index: 0, message: { role: 'assistant', content: '{}' } }]
+        });
+      
+      const adapter = new OpenAIAdapter({ provider: 'openai', model: 'gpt-3.5-turbo', api_key: 'test-key' });
+      await adapter.generate({ ...mockRequest, response_format: { name: 'reply', schema: { type: 'object' } } });
+      
+      expect(sentFormat).toEqual({ type: 'json_object' });
+    });
   });
   
   describe('GroqAdapter', () => {
@@ -141,6 +209,46 @@ describe('LLM Adapters', () => {
       expect(result.metadata.latency_ms).toBeGreaterThan(0);
     });
     
+    it('should pass the response schema as format', async () => {
+      const schema = { type: 'object', properties: { answer: { type: 'string' } } };
+      let sentFormat: any;
+      nock('http://localhost:11434')
+        .post('/api/generate', (body) => {
+          sentFormat = body.format;
+          return true;
+        })
+        .reply(200, { response: '{"answer":"hi"}', model: 'mistral:latest' });
+      
+      const adapter = new OllamaAdapter({ provider: 'ollama', model: 'mistral:latest' });
+      await adapter.generate({ ...mockRequest, response_format: { name: 'reply', schema } });
+      
+      expect(sentFormat).toEqual(schema);
+    });
+    
+    it('should stream chunks from newline-delimited JSON', async () => {
+      nock('http://localhost:11434')
+        .post('/api/generate', (body) => body.stream === true)
+        .reply(200, [
+          JSON.stringify({ model: 'mistral:latest', response: 'Hello', done: false }),
+          JSON.stringify({ model: 'mistral:latest', response: '! How', done: false }),
+          JSON.stringify({ model: 'mistral:latest', response: ' can I help?', done: false }),
+          JSON.stringify({ model: 'mistral:latest', response: '', done: true }),
+        ].join('\n'));
+      
+      const adapter = new OllamaAdapter({
+        provider: 'ollama',
+        model: 'mistral:latest',
+        base_url: 'http://localhost:11434'
+      });
+      
+      const chunks: string[] = [];
+      const result = await adapter.generateStream(mockRequest, (chunk) => chunks.push(chunk));
+      
+      expect(chunks).toEqual(['Hello', '! How', ' can I help?']);
+      expect(result.content).toBe('Hello! How can I help?');
+      expect(result.model).toBe('mistral:latest');
+    });
+    
     it('should have correct name', () => {
       const adapter = new OllamaAdapter({
         provider: 'ollama',
@@ -4,6 +4,8 @@
 
 import { LLMProvider } from '../../../shared/llm/provider.js';
 import { LLMProviderAdapter, LLMRequest, LLMResponse } from '../../../shared/types/llm.js';
+import { StructuredOutputError } from '../../../shared/utils/errors.js';
+import { z } from 'zod';
 
 describe('LLMProvider', () => {
   const mockRequest: LLMRequest = {
@@ -45,7 +47,14 @@ describe('LLMProvider', () => {
     
     const result = await provider.generate(mockRequest);
     
-    expect(result).toEqual(mockResponse);
+    expect(result).toEqual({
+      ...mockResponse,
+      metadata: {
+        ...mockResponse.metadata,
+        served_by: 'openai',
+        attempts: [expect.objectContaining({ provider: 'openai', outcome: 'success' })]
+      }
+    });
     expect(mockAdapter1.generate).toHaveBeenCalledWith(mockRequest);
     expect(mockAdapter2.generate).not.toHaveBeenCalled();
   });
@@ -155,5 +164,324 @@ describe('LLMProvider', () => {
     
     await expect(provider.generate(mockRequest)).rejects.toThrow('LLM provider error');
   });
+  
+  it('should not fall back to next provider when request is cancelled', async () => {
+    const controller = new AbortController();
+    
+    const mockAdapter1: LLMProviderAdapter = {
+      name: 'openai',
+      isAvailable: jest.fn().mockResolvedValue(true),
+      generate: jest.fn().mockImplementation(async () => {
+        controller.abort();
+        throw Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' });
+      })
+    };
+    
+    const mockAdapter2: LLMProviderAdapter = {
+      name: 'groq',
+      isAvailable: jest.fn().mockResolvedValue(true),
+      generate: jest.fn().mockResolvedValue(mockResponse)
+    };
+    
+    const provider = new LLMProvider([
+      { provider: 'openai', model: 'gpt-4', api_key: 'test' },
+      { provider: 'groq', model: 'llama-3.3-70b-versatile', api_key: 'test' }
+    ]);
+    
+    (provider as any).adapters = [mockAdapter1, mockAdapter2];
+    
+    await expect(
+      provider.generate({ ...mockRequest, signal: controller.signal })
+    ).rejects.toThrow('was cancelled');
+    expect(mockAdapter2.generate).not.toHaveBeenCalled();
+  });
+  
+  describe('generateStream', () => {
+    const createProvider = (adapters: LLMProviderAdapter[]) => {
+      const provider = new LLMProvider([
+        { provider: 'openai', model: 'gpt-4', api_key: 'test' },
+        { provider: 'groq', model: 'llama-3.3-70b-versatile', api_key: 'test' }
+      ]);
+      (provider as any).adapters = adapters;
+      return provider;
+    };
+    
+    const streamingAdapter = (name: 'openai' | 'groq', chunks: string[], failAfter?: number): LLMProviderAdapter => ({
+      name,
+      isAvailable: jest.fn().mockResolvedValue(true),
+      generate: jest.fn().mockResolvedValue(mockResponse),
+      generateStream: jest.fn().mockImplementation(async (_request, onChunk) => {
+        chunks.forEach((chunk, i) => {
+          if (failAfter !== undefined && i === failAfter) {
+            throw new Error('Connection reset');
+          }
+          onChunk(chunk);
+        });
+        return { ...mockResponse, provider: name, content: chunks.join('') };
+      })
+    });
+    
+    it('should pass chunks through from the adapter', async () => {
+      const provider = createProvider([streamingAdapter('openai', ['Hi', ' there!'])]);
+      
+      const chunks: string[] = [];
+      const result = await provider.generateStream(mockRequest, (chunk) => chunks.push(chunk));
+      
+      expect(chunks).toEqual(['Hi', ' there!']);
+      expect(result.content).toBe('Hi there!');
+    });
+    
+    it('should deliver adapters without streaming as one chunk', async () => {
+      const adapter: LLMProviderAdapter = {
+        name: 'openai',
+        isAvailable: jest.fn().mockResolvedValue(true),
+        generate: jest.fn().mockResolvedValue(mockResponse)
+      };
+      const provider = createProvider([adapter]);
+      
+      const chunks: string[] = [];
+      await provider.generateStream(mockRequest, (chunk) => chunks.push(chunk));
+      
+      expect(chunks).toEqual(['Hi there!']);
+    });
+    
+    it('should fall back when a provider fails before streaming', async () => {
+      const failing = streamingAdapter('openai', ['never'], 0);
+      const provider = createProvider([failing, streamingAdapter('groq', ['From', ' groq'])]);
+      
+      const chunks: string[] = [];
+      const result = await provider.generateStream(mockRequest, (chunk) => chunks.push(chunk));
+      
+      expect(chunks).toEqual(['From', ' groq']);
+      expect(result.provider).toBe('groq');
+    });
+    
+    it('should not fall back once chunks were delivered', async () => {
+      const fallback = streamingAdapter('groq', ['From', ' groq']);
+      const provider = createProvider([streamingAdapter('openai', ['Half', ' an answer'], 1), fallback]);
+      
+      const chunks: string[] = [];
+      await expect(
+        provider.generateStream(mockRequest, (chunk) => chunks.push(chunk))
+      ).rejects.toThrow('LLM provider error: openai');
+      
+      expect(chunks).toEqual(['Half']);
+      expect(fallback.generateStream).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('fallback chain', () => {
+    const configs = [
+      { provider: 'openai' as const, model: 'gpt-4', api_key: 'test' },
+      { provider: 'groq' as const, model: 'llama-3.3-70b-versatile', api_key: 'test' },
+      { provider: 'ollama' as const, model: 'mistral:latest' }
+    ];
+    
+    const adapter = (name: 'openai' | 'groq', generate: jest.Mock): LLMProviderAdapter => ({
+      name,
+      isAvailable: jest.fn().mockResolvedValue(true),
+      generate
+    });
+    
+    it('should order providers by the fallback chain', () => {
+      const provider = new LLMProvider(configs, { fallbackChain: ['ollama', 'groq'] });
+      
+      expect(provider.getProviderHealth().map(h => h.provider)).toEqual(['ollama', 'groq', 'openai']);
+    });
+    
+    it('should record failed attempts and the serving provider', async () => {
+      const provider = new LLMProvider(configs);
+      (provider as any).adapters = [
+        adapter('openai', jest.fn().mockRejectedValue(new Error('Rate limited'))),
+        adapter('groq', jest.fn().mockResolvedValue({ ...mockResponse, provider: 'groq' }))
+      ];
+      
+      const result = await provider.generate(mockRequest);
+      
+      expect(result.metadata.served_by).toBe('groq');
+      expect(result.metadata.attempts).toEqual([
+        expect.objectContaining({ provider: 'openai', outcome: 'failed', error: 'Rate limited' }),
+        expect.objectContaining({ provider: 'groq', outcome: 'success' })
+      ]);
+    });
+    
+    it('should skip a provider once its circuit opens', async () => {
+      const failing = adapter('openai', jest.fn().mockRejectedValue(new Error('Timeout')));
+      const provider = new LLMProvider(configs, { failureThreshold: 2, resetTimeout: 60000 });
+      (provider as any).adapters = [
+        failing,
+        adapter('groq', jest.fn().mockResolvedValue({ ...mockResponse, provider: 'groq' }))
+      ];
+      
+      await provider.generate(mockRequest);
+      await provider.generate(mockRequest);
+      const result = await provider.generate(mockRequest);
+      
+      expect(failing.generate).toHaveBeenCalledTimes(2);
+      expect(failing.isAvailable).toHaveBeenCalledTimes(2);
+      expect(result.metadata.attempts![0]).toMatchObject({ provider: 'openai', outcome: 'circuit_open' });
+      expect(provider.getProviderHealth()[0]).toMatchObject({ provider: 'openai', state: 'OPEN' });
+    });
+    
+    it('should try the provider again after the reset timeout', async () => {
+      const generate = jest.fn()
+        .mockRejectedValueOnce(new Error('Timeout'))
+        .mockResolvedValue(mockResponse);
+      const provider = new LLMProvider(configs, { failureThreshold: 1, resetTimeout: 10 });
+      (provider as any).adapters = [
+        adapter('openai', generate),
+        adapter('groq', jest.fn().mockResolvedValue({ ...mockResponse, provider: 'groq' }))
+      ];
+      
+      expect((await provider.generate(mockRequest)).metadata.served_by).toBe('groq');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      
+      expect((await provider.generate(mockRequest)).metadata.served_by).toBe('openai');
+      expect(provider.getProviderHealth()[0]!.state).toBe('CLOSED');
+    });
+    
+    it('should count failed health probes toward opening the circuit', async () => {
+      const unavailable: LLMProviderAdapter = {
+        name: 'openai',
+        isAvailable: jest.fn().mockResolvedValue(false),
+        generate: jest.fn()
+      };
+      const provider = new LLMProvider(configs, { failureThreshold: 1 });
+      (provider as any).adapters = [
+        unavailable,
+        adapter('groq', jest.fn().mockResolvedValue({ ...mockResponse, provider: 'groq' }))
+      ];
+      
+      const first = await provider.generate(mockRequest);
+      const second = await provider.generate(mockRequest);
+      
+      expect(first.metadata.attempts![0]!.outcome).toBe('unavailable');
+      expect(second.metadata.attempts![0]!.outcome).toBe('circuit_open');
+      expect(unavailable.isAvailable).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should not count cancelled requests as provider failures', async () => {
+      const provider = new LLMProvider(configs, { failureThreshold: 1 });
+      (provider as any).adapters = [
+        adapter('openai', jest.fn().mockRejectedValue(
+          Object.assign(new Error('Request was aborted.'), { name: 'APIUserAbortError' })
+        ))
+      ];
+      
+      await expect(provider.generate(mockRequest)).rejects.toThrow('Request was aborted.');
+      expect(provider.getProviderHealth()[0]).toMatchObject({ state: 'CLOSED', failureCount: 0 });
+    });
+    
+    it('should trace the serving provider', async () => {
+      const trace = { id: 'trace-1', _internal: {} };
+      const tracer = {
+        startTrace: jest.fn().mockReturnValue(trace),
+        trackGeneration: jest.fn(),
+        endTrace: jest.fn()
+      };
+      const provider = new LLMProvider(configs, { tracer: tracer as any });
+      (provider as any).adapters = [
+        adapter('openai', jest.fn().mockRejectedValue(new Error('Down'))),
+        adapter('groq', jest.fn().mockResolvedValue({ ...mockResponse, provider: 'groq' }))
+      ];
+      
+      await provider.generate(mockRequest);
+      
+      expect(tracer.startTrace).toHaveBeenCalledWith(
+        'llm.generate',
+        { messages: mockRequest.messages },
+        expect.objectContaining({ served_by: 'groq' })
+      );
+      expect(tracer.trackGeneration).toHaveBeenCalledWith(
+        trace,
+        'groq.generate',
+        expect.objectContaining({ completion: 'Hi there!', metadata: expect.objectContaining({ served_by: 'groq' }) })
+      );
+      expect(tracer.endTrace).toHaveBeenCalled();
+    });
+  });
+  
+  describe('structured output', () => {
+    const AnswerSchema = z.object({ answer: z.string(), confidence: z.number().min(0).max(1) });
+    const format = { name: 'answer', schema: AnswerSchema };
+    
+    const createProvider = (generate: jest.Mock, maxRepairs = 2) => {
+      const provider = new LLMProvider([{ provider: 'openai', model: 'gpt-4o', api_key: 'test' }], { maxRepairs });
+      (provider as any).adapters = [{ name: 'openai', isAvailable: jest.fn().mockResolvedValue(true), generate }];
+      return provider;
+    };
+    
+    const reply = (content: string): LLMResponse => ({ ...mockResponse, content });
+    
+    it('should return validated output as parsed', async () => {
+      const generate = jest.fn().mockResolvedValue(reply('{"answer":"42","confidence":0.9}'));
+      const provider = createProvider(generate);
+      
+      const result = await provider.generate({ ...mockRequest, response_format: format });
+      
+      expect(result.parsed).toEqual({ answer: '42', confidence: 0.9 });
+      expect(result.metadata.repairs).toBe(0);
+    });
+    
+    it('should hand adapters a JSON Schema and describe it in the prompt', async () => {
+      const generate = jest.fn().mockResolvedValue(reply('{"answer":"42","confidence":0.9}'));
+      const provider = createProvider(generate);
+      
+      await provider.generate({ ...mockRequest, response_format: format });
+      
+      const sent: LLMRequest = generate.mock.calls[0][0];
+      expect(sent.response_format!.schema).toMatchObject({
+        type: 'object',
+        required: ['answer', 'confidence']
+      });
+      expect(sent.messages[0]!.role).toBe('system');
+      expect(sent.messages[0]!.content).toContain('JSON Schema');
+    });
+    
+    it('should send a repair prompt when output fails validation', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce(reply('Sure! {"answer": 42}'))
+        .mockResolvedValueOnce(reply('{"answer":"42","confidence":0.9}'));
+      const provider = createProvider(generate);
+      
+      const result = await provider.generate({ ...mockRequest, response_format: format });
+      
+      expect(result.parsed).toEqual({ answer: '42', confidence: 0.9 });
+      expect(result.metadata.repairs).toBe(1);
+      
+      const repair: LLMRequest = generate.mock.calls[1][0];
+      const [assistant, user] = repair.messages.slice(-2);
+      expect(assistant).toEqual({ role: 'assistant', content: 'Sure! {"answer": 42}' });
+      expect(user!.content).toContain('$.answer');
+      expect(user!.content).toContain('$.confidence');
+    });
+    
+    it('should throw once repairs are exhausted', async () => {
+      const generate = jest.fn().mockResolvedValue(reply('not json'));
+      const provider = createProvider(generate, 1);
+      
+      await expect(
+        provider.generate({ ...mockRequest, response_format: format })
+      ).rejects.toThrow(StructuredOutputError);
+      expect(generate).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should validate plain JSON Schemas', async () => {
+      const generate = jest.fn()
+        .mockResolvedValueOnce(reply('{"count":"three"}'))
+        .mockResolvedValueOnce(reply('{"count":3}'));
+      const provider = createProvider(generate);
+      
+      const result = await provider.generate({
+        ...mockRequest,
+        response_format: {
+          name: 'count',
+          schema: { type: 'object', properties: { count: { type: 'integer' } }, required: ['count'] }
+        }
+      });
+      
+      expect(result.parsed).toEqual({ count: 3 });
+      expect(result.metadata.repairs).toBe(1);
+    });
+  });
 });
-
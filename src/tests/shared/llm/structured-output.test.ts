@@ -0,0 +1,93 @@
+/**
+ * Tests for structured output helpers
+ */
+
+import { z } from 'zod';
+import {
+  extractJSON,
+  parseStructuredOutput,
+  toJSONSchema,
+  withSchemaInstruction,
+} from '../../../shared/llm/structured-output.js';
+import { PlanSchema } from '../../../shared/validation/schemas.js';
+
+describe('structured output', () => {
+  describe('extractJSON', () => {
+    it('should parse plain JSON', () => {
+      expect(extractJSON('{"a":1}')).toEqual({ a: 1 });
+    });
+
+    it('should parse JSON inside code fences', () => {
+      expect(extractJSON('Here you go:\n```json\n{"a":[1,2]}\n```')).toEqual({ a: [1, 2] });
+    });
+
+    it('should parse JSON surrounded by prose', () => {
+      expect(extractJSON('The plan is {"steps":[]} as requested.')).toEqual({ steps: [] });
+      expect(extractJSON('Insights: [{"a":1}]')).toEqual([{ a: 1 }]);
+    });
+
+    it('should throw when there is no JSON', () => {
+      expect(() => extractJSON('no json here')).toThrow('Could not extract valid JSON');
+    });
+  });
+
+  describe('toJSONSchema', () => {
+    it('should convert zod schemas', () => {
+      const schema = toJSONSchema(PlanSchema);
+
+      expect(schema.$schema).toBeUndefined();
+      expect(schema.type).toBe('object');
+      expect(schema.required).toEqual(['steps']);
+      expect(schema.properties.steps.minItems).toBe(1);
+    });
+
+    it('should pass JSON Schemas through', () => {
+      const schema = { type: 'object' };
+
+      expect(toJSONSchema(schema)).toBe(schema);
+    });
+  });
+
+  describe('parseStructuredOutput', () => {
+    const format = { name: 'plan', schema: PlanSchema };
+
+    it('should return parsed data for valid output', () => {
+      const result = parseStructuredOutput('{"steps":[{"tool":"shipments_list","params":{}}]}', format);
+
+      expect(result).toEqual({ success: true, data: { steps: [{ tool: 'shipments_list', params: {} }] } });
+    });
+
+    it('should list zod issues with their paths', () => {
+      const result = parseStructuredOutput('{"steps":[{"params":{}}]}', format);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.issues[0]).toContain('$.steps.0.tool');
+    });
+
+    it('should report unparseable output', () => {
+      const result = parseStructuredOutput('I cannot help with that', { name: 'x', schema: z.object({}) });
+
+      expect(result).toEqual({ success: false, issues: ['Could not extract valid JSON from response'] });
+    });
+  });
+
+  describe('withSchemaInstruction', () => {
+    it('should append the schema to the system prompt', () => {
+      const messages = withSchemaInstruction(
+        [{ role: 'system', content: 'You plan.' }, { role: 'user', content: 'Go' }],
+        'plan',
+        { type: 'object' }
+      );
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]!.content).toMatch(/^You plan\.\n\nRespond with only a JSON value for "plan"/);
+      expect(messages[0]!.content).toContain('{"type":"object"}');
+    });
+
+    it('should add a system prompt when there is none', () => {
+      const messages = withSchemaInstruction([{ role: 'user', content: 'Go' }], 'plan', { type: 'object' });
+
+      expect(messages.map(m => m.role)).toEqual(['system', 'user']);
+    });
+  });
+});
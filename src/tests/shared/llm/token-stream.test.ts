@@ -0,0 +1,111 @@
+/**
+ * Tests for the ambient token stream and summary streaming
+ */
+
+import {
+  SummaryChunk,
+  generateStreamed,
+  getCurrentTokenStream,
+  runWithTokenStream,
+  streamSummary,
+} from '../../../shared/llm/token-stream.js';
+import { FinalResponse } from '../../../shared/types/agent.js';
+import { LLMRequest, LLMResponse } from '../../../shared/types/llm.js';
+
+describe('Token Stream', () => {
+  const request: LLMRequest = { messages: [{ role: 'user', content: 'Summarize' }] };
+  const llmResponse: LLMResponse = {
+    content: 'Three shipments were rejected.',
+    provider: 'openai',
+    model: 'gpt-4',
+    metadata: { latency_ms: 1, retries: 0 },
+  };
+
+  const summary = (message: string): FinalResponse => ({
+    message,
+    tools_used: [],
+    metadata: { request_id: '', total_duration_ms: 0, timestamp: '' },
+  });
+
+  const mockLLM = () => ({
+    generate: jest.fn().mockResolvedValue(llmResponse),
+    generateStream: jest.fn().mockImplementation(async (_request: LLMRequest, onChunk: (chunk: string) => void) => {
+      ['Three shipments', ' were rejected.'].forEach(onChunk);
+      return llmResponse;
+    }),
+  });
+
+  describe('generateStreamed', () => {
+    it('should generate normally without a token stream', async () => {
+      const llm = mockLLM();
+
+      await generateStreamed(llm as any, request);
+
+      expect(llm.generate).toHaveBeenCalledWith(request);
+      expect(llm.generateStream).not.toHaveBeenCalled();
+    });
+
+    it('should stream to the ambient handler', async () => {
+      const llm = mockLLM();
+      const chunks: string[] = [];
+
+      await runWithTokenStream((chunk) => chunks.push(chunk), () => generateStreamed(llm as any, request));
+
+      expect(chunks).toEqual(['Three shipments', ' were rejected.']);
+      expect(llm.generate).not.toHaveBeenCalled();
+    });
+
+    it('should not stream when turned off for a nested operation', async () => {
+      const handler = jest.fn();
+
+      const nested = await runWithTokenStream(handler, () =>
+        runWithTokenStream(undefined, async () => getCurrentTokenStream())
+      );
+
+      expect(nested).toBeUndefined();
+    });
+  });
+
+  describe('streamSummary', () => {
+    it('should publish numbered chunks and a final chunk with the full text', async () => {
+      const llm = mockLLM();
+      const published: SummaryChunk[] = [];
+
+      const response = await streamSummary('req-1', (chunk) => published.push(chunk), async () => {
+        const result = await generateStreamed(llm as any, request);
+        return summary(result.content);
+      });
+
+      expect(response.message).toBe('Three shipments were rejected.');
+      expect(published.map(c => [c.index, c.chunk, c.done])).toEqual([
+        [0, 'Three shipments', false],
+        [1, ' were rejected.', false],
+        [2, '', true],
+      ]);
+      expect(published[2]!.text).toBe('Three shipments were rejected.');
+      expect(published.every(c => c.requestId === 'req-1')).toBe(true);
+    });
+
+    it('should publish summaries that did not stream as one chunk', async () => {
+      const published: SummaryChunk[] = [];
+
+      await streamSummary('req-1', (chunk) => published.push(chunk), async () => summary('Template summary'));
+
+      expect(published.map(c => c.chunk)).toEqual(['Template summary', '']);
+      expect(published[1]!.done).toBe(true);
+    });
+
+    it('should close the stream when summarization fails', async () => {
+      const published: SummaryChunk[] = [];
+
+      await expect(
+        streamSummary('req-1', (chunk) => published.push(chunk), async () => {
+          throw new Error('Summarizer crashed');
+        })
+      ).rejects.toThrow('Summarizer crashed');
+
+      expect(published).toHaveLength(1);
+      expect(published[0]).toMatchObject({ done: true, error: true });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Local vector memory tests
+ *
+ * Uses the hashing embedding service, so nothing outside the process is needed
+ */
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  LocalVectorMemory,
+  cosineSimilarity,
+  matchesMetadataFilter,
+} from '../../../shared/memory/local-vector.js';
+import { HashingEmbeddingService } from '../../../shared/memory/embeddings.js';
+import { MemoryManager } from '../../../shared/memory/manager.js';
+import { MongoEpisodicMemory } from '../../../shared/memory/mongo.js';
+import { MemoryError } from '../../../shared/utils/errors.js';
+
+const embeddings = new HashingEmbeddingService({ provider: 'hash', model: 'hashing', dimensions: 256 });
+
+describe('LocalVectorMemory', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-vectors-'));
+    filePath = path.join(dir, 'vectors.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('cosineSimilarity', () => {
+    it('should score identical directions 1 and orthogonal ones 0', () => {
+      expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+      expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    });
+
+    it('should score mismatched or zero vectors 0', () => {
+      expect(cosineSimilarity([1, 2], [1, 2, 3])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+    });
+  });
+
+  describe('matchesMetadataFilter', () => {
+    const metadata = { type: 'summary', confidence: 0.8, entities: ['S1', 'F2'] };
+
+    it('should match field values, including values in list fields', () => {
+      expect(matchesMetadataFilter(metadata, { type: 'summary' })).toBe(true);
+      expect(matchesMetadataFilter(metadata, { type: 'insight' })).toBe(false);
+      expect(matchesMetadataFilter(metadata, { entities: 'F2' })).toBe(true);
+    });
+
+    it('should support comparison operators and $and/$or', () => {
+      expect(matchesMetadataFilter(metadata, { confidence: { $gte: 0.8, $lt: 1 } })).toBe(true);
+      expect(matchesMetadataFilter(metadata, { type: { $in: ['insight', 'summary'] } })).toBe(true);
+      expect(matchesMetadataFilter(metadata, { type: { $nin: ['summary'] } })).toBe(false);
+      expect(matchesMetadataFilter(metadata, { $or: [{ type: 'insight' }, { entities: { $in: ['S1'] } }] })).toBe(true);
+      expect(matchesMetadataFilter(metadata, { $and: [{ type: 'summary' }, { confidence: { $gt: 0.9 } }] })).toBe(false);
+    });
+  });
+
+  describe('store and search', () => {
+    it('should rank the most similar text first', async () => {
+      const memory = new LocalVectorMemory({}, embeddings);
+      await memory.connect();
+
+      await memory.store('Contaminated plastic shipments rejected at Berlin facility', { type: 'summary' }, 'a');
+      await memory.store('Facility capacity forecast for Hamburg', { type: 'summary' }, 'b');
+      await memory.store('Lead contamination detected in plastic shipment', { type: 'insight' }, 'c');
+
+      const results = await memory.search({ query: 'rejected plastic shipments in Berlin', top_k: 2 });
+
+      expect(results).toHaveLength(2);
+      expect(results[0]!.id).toBe('a');
+      expect(results[0]!.score).toBeGreaterThan(results[1]!.score);
+      expect(results[0]!.text).toBe('Contaminated plastic shipments rejected at Berlin facility');
+    });
+
+    it('should apply metadata filters', async () => {
+      const memory = new LocalVectorMemory({}, embeddings);
+      await memory.connect();
+
+      await memory.store('Lead contamination in plastic', { type: 'insight' }, 'insight_1');
+      await memory.store('Plastic shipments this week', { type: 'summary' }, 'summary_1');
+
+      const results = await memory.search({ query: 'lead contamination plastic', filter: { type: 'summary' } });
+
+      expect(results.map(r => r.id)).toEqual(['summary_1']);
+    });
+
+    it('should get and delete records', async () => {
+      const memory = new LocalVectorMemory({}, embeddings);
+      await memory.connect();
+
+      const id = await memory.store('Some insight', { type: 'insight' });
+
+      expect(id).toMatch(/^sem_/);
+      expect(await memory.get(id)).toMatchObject({ id, score: 1, text: 'Some insight' });
+
+      await memory.delete(id);
+
+      expect(await memory.get(id)).toBeNull();
+    });
+
+    it('should refuse to work before connect', async () => {
+      const memory = new LocalVectorMemory({}, embeddings);
+
+      await expect(memory.search({ query: 'anything' })).rejects.toThrow(MemoryError);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should reload records stored by an earlier instance', async () => {
+      const first = new LocalVectorMemory({ path: filePath }, embeddings);
+      await first.connect();
+      await first.store('Critical lead contamination at facility F1', { type: 'insight' }, 'keep');
+      await first.store('Temporary note', { type: 'summary' }, 'drop');
+      await first.delete('drop');
+      await first.close();
+
+      const second = new LocalVectorMemory({ path: filePath }, embeddings);
+      await second.connect();
+
+      expect(await second.getStats()).toMatchObject({ dimension: 256, totalRecordCount: 1 });
+      const results = await second.search({ query: 'lead contamination', top_k: 1 });
+      expect(results[0]).toMatchObject({ id: 'keep', metadata: { type: 'insight' } });
+    });
+
+    it('should start empty when the file does not exist yet', async () => {
+      const memory = new LocalVectorMemory({ path: path.join(dir, 'nested', 'vectors.json') }, embeddings);
+      await memory.connect();
+
+      expect((await memory.getStats()).totalRecordCount).toBe(0);
+
+      await memory.store('First record', { type: 'summary' });
+
+      await expect(fs.stat(path.join(dir, 'nested', 'vectors.json'))).resolves.toBeDefined();
+    });
+
+    it('should fail to connect to an unreadable file', async () => {
+      await fs.writeFile(filePath, 'not json');
+      const memory = new LocalVectorMemory({ path: filePath }, embeddings);
+
+      await expect(memory.connect()).rejects.toThrow(MemoryError);
+    });
+  });
+
+  describe('with MemoryManager', () => {
+    it('should find similar past requests without any external service', async () => {
+      const events = new Map<string, any>();
+      const mockModel = {
+        updateOne: jest.fn(async (filter: any, update: any) => {
+          events.set(filter.id, { id: filter.id, ...update.$set });
+        }),
+        findOne: jest.fn((filter: any) => ({ lean: async () => events.get(filter.id) ?? null })),
+      };
+      const manager = new MemoryManager(
+        { semantic_backend: 'local', local: {} },
+        new MongoEpisodicMemory({}, mockModel),
+        undefined,
+        embeddings
+      );
+      await manager.connect();
+
+      await manager.storeRequestMemory('req_1', 'Show rejected shipments', [{ tool: 'shipments_list' }], 'Rejected shipments from Berlin facility last week');
+      await manager.storeRequestMemory('req_2', 'Facility capacity', [{ tool: 'facilities_list' }], 'Facility capacity utilisation in Hamburg');
+      await manager.storeInsight('Rejected shipments correlate with lead contamination', ['S1'], 0.7);
+
+      const similar = await manager.findSimilarRequests('rejected shipments Berlin', 5);
+
+      expect(similar.map(r => r.metadata.requestId)).toEqual(['req_1', 'req_2']);
+      const context = await manager.getRequestContext('req_1');
+      expect(context.episodic).toMatchObject({ id: 'req_1', type: 'request' });
+      expect(context.semantic).toMatchObject({ id: 'sem_req_1' });
+    });
+  });
+});
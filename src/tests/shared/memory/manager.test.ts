@@ -7,6 +7,9 @@
 import { MemoryManager } from '../../../shared/memory/manager.js';
 import { Neo4jMemory } from '../../../shared/memory/neo4j.js';
 import { PineconeMemory } from '../../../shared/memory/pinecone.js';
+import { MongoEpisodicMemory } from '../../../shared/memory/mongo.js';
+import { LocalVectorMemory } from '../../../shared/memory/local-vector.js';
+import { loadMemoryBackendConfig } from '../../../shared/memory/backends.js';
 import { mockEpisodicEvent, mockToolResults } from '../fixtures/shared-test-data.js';
 import {
   MockNeo4jDriver,
@@ -283,5 +286,72 @@ describe('MemoryManager', () => {
       expect(stats).toBeDefined();
     });
   });
+  
+  describe('backend selection', () => {
+    const originalEnv = process.env;
+    
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.MEMORY_BACKEND;
+      delete process.env.MEMORY_EPISODIC_BACKEND;
+      delete process.env.MEMORY_SEMANTIC_BACKEND;
+      delete process.env.MEMORY_VECTOR_STORE_PATH;
+    });
+    
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+    
+    it('should default to Neo4j and Pinecone', () => {
+      expect(loadMemoryBackendConfig()).toMatchObject({
+        episodic_backend: 'neo4j',
+        semantic_backend: 'pinecone',
+      });
+    });
+    
+    it('should pick both local backends with MEMORY_BACKEND=local', () => {
+      process.env.MEMORY_BACKEND = 'local';
+      process.env.MEMORY_VECTOR_STORE_PATH = '/tmp/vectors.json';
+      
+      expect(loadMemoryBackendConfig()).toMatchObject({
+        episodic_backend: 'mongodb',
+        semantic_backend: 'local',
+        local: { path: '/tmp/vectors.json' },
+      });
+    });
+    
+    it('should let each backend be chosen separately', () => {
+      process.env.MEMORY_BACKEND = 'local';
+      process.env.MEMORY_EPISODIC_BACKEND = 'neo4j';
+      
+      expect(loadMemoryBackendConfig()).toMatchObject({
+        episodic_backend: 'neo4j',
+        semantic_backend: 'local',
+      });
+    });
+    
+    it('should reject unknown backends', () => {
+      process.env.MEMORY_SEMANTIC_BACKEND = 'qdrant';
+      
+      expect(() => loadMemoryBackendConfig()).toThrow('Unknown semantic memory backend: qdrant');
+    });
+    
+    it('should build the configured backends', () => {
+      const local = new MemoryManager(
+        { episodic_backend: 'mongodb', semantic_backend: 'local' },
+        undefined,
+        undefined,
+        new MockEmbeddingService()
+      );
+      
+      expect((local as any).episodic).toBeInstanceOf(MongoEpisodicMemory);
+      expect((local as any).semantic).toBeInstanceOf(LocalVectorMemory);
+    });
+    
+    it('should require the config of the hosted backends', () => {
+      expect(() => new MemoryManager({ semantic_backend: 'local' }, undefined, undefined, new MockEmbeddingService())).toThrow(
+        'Memory operation failed: config'
+      );
+    });
+  });
 });
-
@@ -0,0 +1,177 @@
+/**
+ * MongoDB episodic memory tests
+ *
+ * Uses a mock model via dependency injection
+ */
+
+import { MongoEpisodicMemory } from '../../../shared/memory/mongo.js';
+import { MemoryError } from '../../../shared/utils/errors.js';
+
+function createMockModel(docs: any[] = []) {
+  const query = {
+    sort: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    lean: jest.fn().mockResolvedValue(docs),
+  };
+  return {
+    query,
+    updateOne: jest.fn().mockResolvedValue({}),
+    updateMany: jest.fn().mockResolvedValue({}),
+    deleteOne: jest.fn().mockResolvedValue({}),
+    deleteMany: jest.fn().mockResolvedValue({}),
+    find: jest.fn().mockReturnValue(query),
+    findOne: jest.fn().mockReturnValue({ lean: jest.fn().mockResolvedValue(docs[0] ?? null) }),
+  };
+}
+
+describe('MongoEpisodicMemory', () => {
+  it('should upsert events with their relationships', async () => {
+    const model = createMockModel();
+    const memory = new MongoEpisodicMemory({}, model);
+    await memory.connect();
+
+    await memory.storeEvent({
+      id: 'tool_1',
+      type: 'tool_call',
+      timestamp: '2025-10-01T10:00:00.000Z',
+      data: { tool: 'shipments_list' },
+      relationships: { caused_by: ['req_1'] },
+    });
+
+    expect(model.updateOne).toHaveBeenCalledWith(
+      { id: 'tool_1' },
+      {
+        $set: {
+          type: 'tool_call',
+          timestamp: new Date('2025-10-01T10:00:00.000Z'),
+          data: '{"tool":"shipments_list"}',
+          caused_by: ['req_1'],
+        },
+      },
+      { upsert: true }
+    );
+  });
+
+  it('should query by type, dates and ids, newest first', async () => {
+    const model = createMockModel([
+      {
+        id: 'req_2',
+        type: 'request',
+        timestamp: new Date('2025-10-02T00:00:00.000Z'),
+        data: '{"query":"b"}',
+        led_to: ['tool_9'],
+        caused_by: [],
+      },
+    ]);
+    const memory = new MongoEpisodicMemory({}, model);
+    await memory.connect();
+
+    const events = await memory.queryEvents({
+      type: 'request',
+      date_from: '2025-10-01',
+      date_to: '2025-10-31',
+      entity_ids: ['req_1', 'req_2'],
+      limit: 5,
+    });
+
+    expect(model.find).toHaveBeenCalledWith({
+      type: 'request',
+      timestamp: { $gte: new Date('2025-10-01'), $lte: new Date('2025-10-31') },
+      id: { $in: ['req_1', 'req_2'] },
+    });
+    expect(model.query.sort).toHaveBeenCalledWith({ timestamp: -1 });
+    expect(model.query.limit).toHaveBeenCalledWith(5);
+    expect(events).toEqual([
+      {
+        id: 'req_2',
+        type: 'request',
+        timestamp: '2025-10-02T00:00:00.000Z',
+        data: { query: 'b' },
+        relationships: { led_to: ['tool_9'] },
+      },
+    ]);
+  });
+
+  it('should find events by user and by a value anywhere in their data', async () => {
+    const model = createMockModel();
+    const memory = new MongoEpisodicMemory({}, model);
+    await memory.connect();
+
+    await memory.queryEvents({ user_id: 'user-1', mentions: 'producer:P1.2', limit: 500 });
+
+    expect(model.find).toHaveBeenCalledWith({
+      user_id: 'user-1',
+      data: { $regex: '"producer:P1\\.2"' },
+    });
+    expect(model.query.limit).toHaveBeenCalledWith(500);
+  });
+
+  it('should return null for an unknown event', async () => {
+    const memory = new MongoEpisodicMemory({}, createMockModel());
+    await memory.connect();
+
+    expect(await memory.getEvent('missing')).toBeNull();
+  });
+
+  it('should remove other events\' relationships to a deleted event', async () => {
+    const model = createMockModel();
+    const memory = new MongoEpisodicMemory({}, model);
+    await memory.connect();
+
+    await memory.deleteEvent('req_1');
+
+    expect(model.deleteOne).toHaveBeenCalledWith({ id: 'req_1' });
+    expect(model.updateMany).toHaveBeenCalledWith(
+      { $or: [{ caused_by: 'req_1' }, { led_to: 'req_1' }, { relates_to: 'req_1' }] },
+      { $pull: { caused_by: 'req_1', led_to: 'req_1', relates_to: 'req_1' } }
+    );
+  });
+
+  it('should delete several events and relationships to them at once', async () => {
+    const model = createMockModel();
+    const memory = new MongoEpisodicMemory({}, model);
+    await memory.connect();
+
+    await memory.deleteEvents(['req_1', 'req_2']);
+    await memory.deleteEvents([]);
+
+    expect(model.deleteMany).toHaveBeenCalledTimes(1);
+    expect(model.deleteMany).toHaveBeenCalledWith({ id: { $in: ['req_1', 'req_2'] } });
+    expect(model.updateMany).toHaveBeenCalledWith(
+      {
+        $or: [
+          { caused_by: { $in: ['req_1', 'req_2'] } },
+          { led_to: { $in: ['req_1', 'req_2'] } },
+          { relates_to: { $in: ['req_1', 'req_2'] } },
+        ],
+      },
+      {
+        $pull: {
+          caused_by: { $in: ['req_1', 'req_2'] },
+          led_to: { $in: ['req_1', 'req_2'] },
+          relates_to: { $in: ['req_1', 'req_2'] },
+        },
+      }
+    );
+  });
+
+  it('should wrap failures in MemoryError', async () => {
+    const model = createMockModel();
+    model.updateOne.mockRejectedValue(new Error('write failed'));
+    const memory = new MongoEpisodicMemory({}, model);
+    await memory.connect();
+
+    await expect(
+      memory.storeEvent({ id: 'e1', type: 'error', timestamp: '2025-10-01T00:00:00.000Z', data: {} })
+    ).rejects.toThrow(MemoryError);
+  });
+
+  it('should refuse to work after close', async () => {
+    const memory = new MongoEpisodicMemory({}, createMockModel());
+    await memory.connect();
+    await memory.close();
+
+    expect(memory.isConnected()).toBe(false);
+    await expect(memory.getEvent('e1')).rejects.toThrow(MemoryError);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Memory retention and right-to-forget tests
+ *
+ * Runs MemoryManager over the mock Neo4j driver and an in-memory local vector store
+ */
+
+import { MemoryManager } from '../../../shared/memory/manager.js';
+import { Neo4jMemory } from '../../../shared/memory/neo4j.js';
+import { LocalVectorMemory } from '../../../shared/memory/local-vector.js';
+import { HashingEmbeddingService } from '../../../shared/memory/embeddings.js';
+import {
+  digestId,
+  loadRetentionPolicy,
+  summarizeEpisodes,
+} from '../../../shared/memory/retention.js';
+import { runAsUser } from '../../../shared/auth/identity.js';
+import { EpisodicEvent } from '../../../shared/types/memory.js';
+import { MockNeo4jDriver } from '../fixtures/memory-mocks.js';
+
+const NOW = new Date('2025-10-20T12:00:00.000Z');
+
+function event(id: string, type: EpisodicEvent['type'], timestamp: string, data: any, userId?: string): EpisodicEvent {
+  return { id, type, timestamp, data, ...(userId ? { user_id: userId } : {}) };
+}
+
+describe('Memory retention', () => {
+  describe('loadRetentionPolicy', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+      process.env = { ...originalEnv };
+      delete process.env.MEMORY_MAX_AGE_DAYS;
+      delete process.env.MEMORY_RETENTION_DAYS;
+      delete process.env.MEMORY_RETENTION_COMPACT;
+    });
+
+    afterEach(() => {
+      process.env = originalEnv;
+    });
+
+    it('should keep every type but digests for the max age, compacting requests and tool calls', () => {
+      expect(loadRetentionPolicy()).toEqual({
+        request: { max_age_days: 90, compact: true },
+        tool_call: { max_age_days: 90, compact: true },
+        insight: { max_age_days: 90, compact: false },
+        error: { max_age_days: 90, compact: false },
+      });
+    });
+
+    it('should apply per-type overrides, with 0 keeping a type forever', () => {
+      process.env.MEMORY_RETENTION_DAYS = 'tool_execution:7, insight:0, digest:365';
+      process.env.MEMORY_RETENTION_COMPACT = 'error';
+
+      expect(loadRetentionPolicy()).toEqual({
+        request: { max_age_days: 90, compact: false },
+        tool_call: { max_age_days: 7, compact: false },
+        error: { max_age_days: 90, compact: true },
+        digest: { max_age_days: 365, compact: false },
+      });
+    });
+
+    it('should reject unknown types and malformed entries', () => {
+      process.env.MEMORY_RETENTION_DAYS = 'shipments:30';
+      expect(() => loadRetentionPolicy()).toThrow('Unknown memory type');
+
+      process.env.MEMORY_RETENTION_DAYS = 'request:soon';
+      expect(() => loadRetentionPolicy()).toThrow('MEMORY_RETENTION_DAYS');
+    });
+  });
+
+  describe('summarizeEpisodes', () => {
+    it('should tally a day of events without keeping their text or users', () => {
+      const digest = summarizeEpisodes('request', '2025-06-01', [
+        event('req_1', 'request', '2025-06-01T09:00:00.000Z', {
+          query: 'Shipments from producer Jane Doe',
+          toolResults: [{ tool: 'shipments_list' }, { tool: 'facilities_list' }],
+          entities: ['shipment:S1'],
+        }, 'user-1'),
+        event('req_2', 'request', '2025-06-01T17:00:00.000Z', {
+          query: 'Contaminants today',
+          toolResults: [{ tool: 'contaminants_list' }, { tool: 'shipments_list' }],
+          entities: ['facility:F1'],
+        }, 'user-2'),
+      ]);
+
+      expect(digest).toEqual({
+        id: 'digest_request_2025-06-01',
+        type: 'digest',
+        timestamp: '2025-06-01T23:59:59.999Z',
+        data: {
+          event_type: 'request',
+          day: '2025-06-01',
+          count: 2,
+          first_at: '2025-06-01T09:00:00.000Z',
+          last_at: '2025-06-01T17:00:00.000Z',
+          tools: { shipments_list: 2, facilities_list: 1, contaminants_list: 1 },
+          errors: {},
+          entities: ['facility:F1', 'shipment:S1'],
+        },
+      });
+      expect(JSON.stringify(digest)).not.toContain('Jane Doe');
+      expect(JSON.stringify(digest)).not.toContain('user-1');
+    });
+
+    it('should add to an earlier digest for the same day', () => {
+      const first = summarizeEpisodes('tool_call', '2025-06-01', [
+        event('tool_1', 'tool_call', '2025-06-01T09:00:00.000Z', { tool: 'shipments_list' }),
+      ]);
+      const second = summarizeEpisodes('tool_call', '2025-06-01', [
+        event('tool_2', 'tool_call', '2025-06-01T08:00:00.000Z', { tool: 'shipments_list' }),
+      ], first);
+
+      expect(second.data).toMatchObject({
+        count: 2,
+        first_at: '2025-06-01T08:00:00.000Z',
+        last_at: '2025-06-01T09:00:00.000Z',
+        tools: { shipments_list: 2 },
+      });
+    });
+  });
+
+  describe('MemoryManager', () => {
+    let driver: MockNeo4jDriver;
+    let manager: MemoryManager;
+
+    beforeEach(async () => {
+      driver = new MockNeo4jDriver();
+      const neo4jConfig = { uri: 'bolt://localhost:7687', user: 'neo4j', password: 'password' };
+      manager = new MemoryManager(
+        { episodic_backend: 'neo4j', semantic_backend: 'local', neo4j: neo4jConfig },
+        new Neo4jMemory(neo4jConfig, driver),
+        new LocalVectorMemory({}, new HashingEmbeddingService({ provider: 'hash', model: 'fnv1a', dimensions: 64 }))
+      );
+      await manager.connect();
+    });
+
+    afterEach(async () => {
+      await manager.close();
+    });
+
+    async function storeRequest(id: string, timestamp: string, entities: string[], userId: string) {
+      await manager.storeEpisodic(event(id, 'request', timestamp, { query: `query ${id}`, entities }, userId));
+      await manager.storeSemantic(`summary ${id}`, { type: 'summary', requestId: id, entities, user_id: userId }, `sem_${id}`);
+    }
+
+    it('should record memory for the signed-in user', async () => {
+      await runAsUser({ id: 'user-7', role: 'operator', method: 'api-key' }, async () => {
+        await manager.storeRequestMemory('req_1', 'Where is S1?', [], 'S1 is at F1', ['shipment:S1']);
+      });
+      await runAsUser({ id: 'anonymous', role: 'admin', method: 'anonymous' }, async () => {
+        await manager.storeRequestMemory('req_2', 'Where is S2?', [], 'S2 is at F1', ['shipment:S2']);
+      });
+
+      expect((await manager.getEpisodicEvent('req_1'))?.user_id).toBe('user-7');
+      expect((await manager.getSemanticRecord('sem_req_1'))?.metadata.user_id).toBe('user-7');
+      expect((await manager.getEpisodicEvent('req_2'))?.user_id).toBeUndefined();
+    });
+
+    it('should compact and remove expired events with their semantic records', async () => {
+      await storeRequest('req_old_1', '2025-06-01T09:00:00.000Z', ['shipment:S1'], 'user-1');
+      await storeRequest('req_old_2', '2025-06-01T10:00:00.000Z', ['shipment:S2'], 'user-2');
+      await storeRequest('req_new', '2025-10-19T10:00:00.000Z', ['shipment:S3'], 'user-1');
+      await manager.storeEpisodic(event('err_old', 'error', '2025-06-01T11:00:00.000Z', { error: { phase: 'plan' } }));
+
+      const report = await manager.applyRetention(
+        { request: { max_age_days: 30, compact: true }, error: { max_age_days: 30, compact: false } },
+        NOW
+      );
+
+      expect(report).toEqual({
+        ran_at: NOW.toISOString(),
+        expired: { request: 2, error: 1 },
+        digests: 1,
+        semantic_deleted: 2,
+      });
+      expect(await manager.getEpisodicEvent('req_old_1')).toBeNull();
+      expect(await manager.getEpisodicEvent('err_old')).toBeNull();
+      expect(await manager.getEpisodicEvent('req_new')).not.toBeNull();
+      expect(await manager.getSemanticRecord('sem_req_old_1')).toBeNull();
+      expect(await manager.getSemanticRecord('sem_req_new')).not.toBeNull();
+      expect((await manager.getEpisodicEvent(digestId('request', '2025-06-01')))?.data).toMatchObject({
+        count: 2,
+        entities: ['shipment:S1', 'shipment:S2'],
+      });
+    });
+
+    it('should forget everything recorded for a user', async () => {
+      await storeRequest('req_1', '2025-10-01T09:00:00.000Z', ['shipment:S1'], 'user-1');
+      await storeRequest('req_2', '2025-10-02T09:00:00.000Z', ['shipment:S2'], 'user-2');
+      await manager.storeInsight('S1 is often late', ['shipment:S1'], 0.8, 'req_1');
+      await manager.storeSemantic('note', { type: 'note', user_id: 'user-1' }, 'note_1');
+
+      const report = await manager.forgetUser('user-1');
+
+      expect(report.subject).toEqual({ type: 'user', id: 'user-1' });
+      expect(report.episodic).toEqual({ deleted: 1, by_type: { request: 1 }, ids: ['req_1'] });
+      // The insight drawn from the user's request goes with it
+      expect(report.semantic).toEqual({
+        deleted: 3,
+        ids: ['sem_req_1', expect.stringMatching(/^sem_insight_/), 'note_1'],
+      });
+      expect(await manager.getEpisodicEvent('req_2')).not.toBeNull();
+      expect(await manager.getSemanticRecord('sem_req_2')).not.toBeNull();
+    });
+
+    it('should forget every record mentioning an entity', async () => {
+      await storeRequest('req_1', '2025-10-01T09:00:00.000Z', ['producer:P1'], 'user-1');
+      await storeRequest('req_2', '2025-10-02T09:00:00.000Z', ['producer:P10'], 'user-1');
+      await manager.storeEpisodic(
+        event('tool_1', 'tool_call', '2025-10-01T09:00:01.000Z', { tool: 'producers_get', params: { id: 'producer:P1' } })
+      );
+
+      const report = await manager.forgetEntity('producer:P1');
+
+      expect(report.subject).toEqual({ type: 'entity', id: 'producer:P1' });
+      expect(report.episodic.by_type).toEqual({ request: 1, tool_call: 1 });
+      expect(report.semantic.ids).toEqual(['sem_req_1']);
+      expect(await manager.getEpisodicEvent('req_2')).not.toBeNull();
+      expect(await manager.getSemanticRecord('sem_req_2')).not.toBeNull();
+    });
+  });
+});
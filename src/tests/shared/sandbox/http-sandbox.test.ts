@@ -0,0 +1,82 @@
+/**
+ * Unit tests for HttpSandbox
+ */
+
+import nock from 'nock';
+import { HttpSandbox, getCurrentSandbox, runInSandbox } from '../../../shared/sandbox/http-sandbox.js';
+import { ShipmentsCreateTool } from '../../../tools/shipments/create.js';
+import { ShipmentsDeleteTool } from '../../../tools/shipments/delete.js';
+import { ShipmentsGetTool } from '../../../tools/shipments/get.js';
+
+describe('HttpSandbox', () => {
+  const apiUrl = 'http://localhost:4000/api';
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+  });
+
+  it('should only be ambient inside runInSandbox', async () => {
+    const sandbox = new HttpSandbox();
+
+    expect(getCurrentSandbox()).toBeUndefined();
+    await runInSandbox(sandbox, async () => {
+      expect(getCurrentSandbox()).toBe(sandbox);
+    });
+    expect(getCurrentSandbox()).toBeUndefined();
+  });
+
+  it('should record write calls instead of sending them', async () => {
+    const sandbox = new HttpSandbox();
+    const tool = new ShipmentsCreateTool(apiUrl);
+    const params = {
+      id: 'S100',
+      facility_id: 'F1',
+      date: '2025-10-01',
+      status: 'pending',
+      weight_kg: 1200,
+      has_contaminants: true,
+    };
+
+    const result = await runInSandbox(sandbox, () => tool.execute(params));
+
+    expect(result.success).toBe(true);
+    expect(result.data.dryRun).toBe(true);
+    expect(result.data.data).toEqual(params);
+    expect(sandbox.getRequests()).toEqual([
+      { method: 'POST', url: `${apiUrl}/shipments`, body: params },
+    ]);
+  });
+
+  it('should record deletes without a body', async () => {
+    const sandbox = new HttpSandbox();
+    const tool = new ShipmentsDeleteTool(apiUrl);
+
+    await runInSandbox(sandbox, () => tool.execute({ id: 'S1' }));
+
+    expect(sandbox.getRequests()).toEqual([
+      { method: 'DELETE', url: `${apiUrl}/shipments/S1` },
+    ]);
+  });
+
+  it('should still send reads', async () => {
+    const sandbox = new HttpSandbox();
+    const tool = new ShipmentsGetTool(apiUrl);
+    const scope = nock(apiUrl)
+      .get('/shipments/S1')
+      .reply(200, { success: true, data: { id: 'S1' } });
+
+    const result = await runInSandbox(sandbox, () => tool.execute({ id: 'S1' }));
+
+    expect(scope.isDone()).toBe(true);
+    expect(result.success).toBe(true);
+    expect(sandbox.getRequests()).toHaveLength(0);
+  });
+});
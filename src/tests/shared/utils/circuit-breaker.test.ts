@@ -86,6 +86,20 @@ describe('CircuitBreaker', () => {
       
       expect(onOpen).toHaveBeenCalled();
     });
+    
+    it('should not count errors rejected by isFailure', async () => {
+      const breaker = new CircuitBreaker({
+        failureThreshold: 1,
+        isFailure: (error) => (error as Error).message !== 'ignored',
+      });
+      
+      await expect(
+        breaker.execute(() => Promise.reject(new Error('ignored')))
+      ).rejects.toThrow('ignored');
+      
+      expect(breaker.getState()).toBe(CircuitState.CLOSED);
+      expect(breaker.getFailureCount()).toBe(0);
+    });
   });
   
   describe('circuit closing', () => {
@@ -0,0 +1,50 @@
+/**
+ * Tests for CSV utilities
+ */
+
+import { parseCSV, formatCSVRow } from '../../../shared/utils/csv.js';
+
+describe('CSV Utilities', () => {
+  describe('parseCSV', () => {
+    it('should split rows and cells', () => {
+      expect(parseCSV('id,weight_kg\nS1,1500\nS2,800\n')).toEqual([
+        ['id', 'weight_kg'],
+        ['S1', '1500'],
+        ['S2', '800'],
+      ]);
+    });
+
+    it('should handle quoted cells with commas, quotes and line breaks', () => {
+      expect(parseCSV('notes,carrier\r\n"Wet, ""heavy""\nload",Acme')).toEqual([
+        ['notes', 'carrier'],
+        ['Wet, "heavy"\nload', 'Acme'],
+      ]);
+    });
+
+    it('should keep empty cells and skip blank lines', () => {
+      expect(parseCSV('a,b,c\n\n1,,3\n')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '', '3'],
+      ]);
+    });
+
+    it('should strip a byte order mark', () => {
+      expect(parseCSV('\uFEFFid\nS1')).toEqual([['id'], ['S1']]);
+    });
+
+    it('should reject unterminated quotes', () => {
+      expect(() => parseCSV('id\n"S1')).toThrow('Unterminated quoted field');
+    });
+  });
+
+  describe('formatCSVRow', () => {
+    it('should quote cells that need it', () => {
+      expect(formatCSVRow(['S1', 'Wet, "heavy"', 1500, true, null])).toBe('S1,"Wet, ""heavy""",1500,true,');
+    });
+
+    it('should round-trip through parseCSV', () => {
+      const cells = ['a,b', 'line\nbreak', '"quoted"', ''];
+      expect(parseCSV(formatCSVRow(cells))).toEqual([cells]);
+    });
+  });
+});
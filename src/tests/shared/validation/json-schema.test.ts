@@ -0,0 +1,56 @@
+/**
+ * JSON Schema validation tests
+ */
+
+import { formatJSONSchemaIssues, validateJSONSchema } from '../../../shared/validation/json-schema.js';
+
+describe('validateJSONSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1 },
+      count: { type: 'integer', minimum: 0 },
+      status: { enum: ['pending', 'delivered'] },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    },
+    required: ['name', 'count'],
+    additionalProperties: false,
+  };
+
+  it('should accept matching values', () => {
+    expect(validateJSONSchema({ name: 'a', count: 1, status: 'pending', tags: ['x'] }, schema)).toEqual([]);
+  });
+
+  it('should report missing and unknown properties', () => {
+    const issues = formatJSONSchemaIssues(validateJSONSchema({ name: 'a', extra: true }, schema));
+
+    expect(issues).toEqual(['$.count is required', '$.extra is not an allowed property']);
+  });
+
+  it('should report type, bound and enum issues with paths', () => {
+    const issues = formatJSONSchemaIssues(
+      validateJSONSchema({ name: '', count: 1.5, status: 'lost', tags: ['x', 2, 'z'] }, schema)
+    );
+
+    expect(issues).toEqual([
+      '$.name must be at least 1 characters',
+      '$.count must be integer, got number',
+      '$.status must be one of "pending", "delivered"',
+      '$.tags must have at most 2 items',
+      '$.tags[1] must be string, got number',
+    ]);
+  });
+
+  it('should support nullable and union types', () => {
+    expect(validateJSONSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    expect(validateJSONSchema(null, { type: 'string', nullable: true })).toEqual([]);
+    expect(validateJSONSchema(3, { anyOf: [{ type: 'string' }, { type: 'number' }] })).toEqual([]);
+    expect(validateJSONSchema(true, { oneOf: [{ type: 'string' }, { type: 'number' }] })).toHaveLength(1);
+  });
+
+  it('should validate additionalProperties schemas', () => {
+    const issues = validateJSONSchema({ a: 1, b: 'x' }, { type: 'object', additionalProperties: { type: 'number' } });
+
+    expect(formatJSONSchemaIssues(issues)).toEqual(['$.b must be number, got string']);
+  });
+});
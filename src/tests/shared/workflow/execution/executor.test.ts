@@ -151,6 +151,68 @@ describe('WorkflowExecutor', () => {
       expect(result.executedNodes.length).toBeLessThanOrEqual(2);
       expect(result.status).toBe('max_steps_reached');
     });
+    
+    it('should start from the given node', async () => {
+      const builder = new GraphBuilder<TestState>();
+      
+      builder
+        .addNode('a', async (s) => ({ ...s, visited: [...s.visited, 'a'] }))
+        .addNode('b', async (s) => ({ ...s, visited: [...s.visited, 'b'] }))
+        .addNode('c', async (s) => ({ ...s, visited: [...s.visited, 'c'] }))
+        .addEdge('a', 'b')
+        .addEdge('b', 'c')
+        .setEntryPoint('a');
+      
+      const result = await executor.execute(
+        builder.build(),
+        { value: 0, visited: ['a'] },
+        { startNode: 'b' }
+      );
+      
+      expect(result.status).toBe('completed');
+      expect(result.executedNodes).toEqual(['b', 'c']);
+      expect(result.finalState.visited).toEqual(['a', 'b', 'c']);
+    });
+    
+    it('should call onNodeComplete with the next node', async () => {
+      const builder = new GraphBuilder<TestState>();
+      const completions: Array<[string, string | null]> = [];
+      
+      builder
+        .addNode('a', async (s) => ({ ...s, value: s.value + 1 }))
+        .addNode('b', async (s) => ({ ...s, value: s.value + 1 }))
+        .addEdge('a', 'b')
+        .setEntryPoint('a');
+      
+      await executor.execute(builder.build(), { value: 0, visited: [] }, {
+        onNodeComplete: async (node, _state, nextNode) => {
+          completions.push([node, nextNode]);
+        },
+      });
+      
+      expect(completions).toEqual([['a', 'b'], ['b', null]]);
+    });
+    
+    it('should not call onNodeComplete for a failed node', async () => {
+      const builder = new GraphBuilder<TestState>();
+      const onNodeComplete = jest.fn().mockResolvedValue(undefined);
+      
+      builder
+        .addNode('a', async (s) => s)
+        .addNode('b', async () => {
+          throw new Error('Node b failed');
+        })
+        .addEdge('a', 'b')
+        .setEntryPoint('a');
+      
+      const result = await executor.execute(builder.build(), { value: 0, visited: [] }, {
+        onNodeComplete,
+      });
+      
+      expect(result.status).toBe('failed');
+      expect(onNodeComplete).toHaveBeenCalledTimes(1);
+      expect(onNodeComplete).toHaveBeenCalledWith('a', expect.any(Object), 'b');
+    });
   });
   
   describe('execution metadata', () => {
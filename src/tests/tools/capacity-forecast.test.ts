@@ -0,0 +1,55 @@
+// Unit tests for the facility capacity forecast tool
+import nock from "nock";
+import { FacilitiesCapacityForecastTool } from "../../tools/facilities/capacity-forecast.js";
+
+describe("FacilitiesCapacityForecastTool", () => {
+  const apiUrl = "http://localhost:4000";
+  const tool = new FacilitiesCapacityForecastTool(apiUrl);
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should fetch the forecast for a facility", async () => {
+    const forecast = {
+      facility_id: "F1",
+      capacity_tons: 100,
+      current_load_tons: 60,
+      utilization_pct: 60,
+      inbound: { pending_tons: 30, in_transit_tons: 20, shipment_count: 2 },
+      projected_load_tons: 110,
+      projected_utilization_pct: 110,
+      available_tons: 0,
+      will_exceed_capacity: true,
+      exceeds_on: "2025-10-03",
+      timeline: [
+        { date: "2025-10-02", inbound_tons: 20, projected_load_tons: 80, utilization_pct: 80 },
+        { date: "2025-10-03", inbound_tons: 30, projected_load_tons: 110, utilization_pct: 110 },
+      ],
+    };
+    nock(apiUrl).get("/facilities/F1/capacity-forecast").reply(200, { success: true, data: forecast });
+
+    const result = await tool.execute({ id: "F1" });
+
+    expect(result.success).toBe(true);
+    expect(result.data.data).toEqual(forecast);
+  });
+
+  it("should surface unknown facilities", async () => {
+    nock(apiUrl)
+      .get("/facilities/NOPE/capacity-forecast")
+      .reply(404, { success: false, error: { message: "Facility not found" } });
+
+    const result = await tool.execute({ id: "NOPE" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("404");
+  });
+
+  it("should require an id", async () => {
+    const result = await tool.execute({});
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Missing required fields: id");
+  });
+});
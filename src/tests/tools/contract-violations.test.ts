@@ -0,0 +1,50 @@
+// Unit tests for the contract violations list tool
+import nock from "nock";
+import { ContractViolationsListTool } from "../../tools/contract-violations/list.js";
+
+describe("ContractViolationsListTool", () => {
+  const apiUrl = "http://localhost:4000";
+  const tool = new ContractViolationsListTool(apiUrl);
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should query violations with filters", async () => {
+    const violations = [
+      {
+        shipment_id: "S1",
+        producer_id: "P1",
+        facility_id: "F1",
+        contract_id: "C1",
+        type: "weight_limit_exceeded",
+        message: "Shipment would bring contract C1 to 12000kg, over its 10000kg limit",
+        action: "rejected",
+        timestamp: "2025-10-01T00:00:00.000Z",
+      },
+    ];
+    nock(apiUrl)
+      .get("/api/contract-violations")
+      .query({ producer_id: "P1", type: "weight_limit_exceeded", limit: "50" })
+      .reply(200, { success: true, data: violations, count: 1 });
+
+    const result = await tool.execute({ producer_id: "P1", type: "weight_limit_exceeded" });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(violations);
+  });
+
+  it("should reject unknown violation types without calling the API", async () => {
+    const result = await tool.execute({ type: "late_delivery" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Invalid type");
+  });
+
+  it("should reject unknown actions", async () => {
+    const result = await tool.execute({ action: "ignored" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("Invalid action");
+  });
+});
@@ -0,0 +1,40 @@
+// Unit tests for the contract usage tool
+import nock from "nock";
+import { ContractsUsageTool } from "../../tools/contracts/usage.js";
+
+describe("ContractsUsageTool", () => {
+  const apiUrl = "http://localhost:4000";
+  const tool = new ContractsUsageTool(apiUrl);
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should fetch usage and unwrap the response", async () => {
+    const usage = { contract_id: "C1", used_kg: 4000, remaining_kg: 6000, projected_exhaustion_date: "2025-01-25" };
+    nock(apiUrl).get("/contracts/C1/usage").reply(200, { success: true, data: usage });
+
+    const result = await tool.execute({ id: "C1" });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(usage);
+  });
+
+  it("should pass as_of through", async () => {
+    nock(apiUrl)
+      .get("/contracts/C1/usage")
+      .query({ as_of: "2025-06-30" })
+      .reply(200, { success: true, data: { contract_id: "C1", as_of: "2025-06-30" } });
+
+    const result = await tool.execute({ id: "C1", as_of: "2025-06-30" });
+
+    expect(result.data.as_of).toBe("2025-06-30");
+  });
+
+  it("should require an id", async () => {
+    const result = await tool.execute({});
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe("Contract ID is required");
+  });
+});
@@ -0,0 +1,63 @@
+// Unit tests for the data export tool
+import nock from "nock";
+import { DataExportTool } from "../../tools/exports/export.js";
+
+describe("DataExportTool", () => {
+  const apiUrl = "http://localhost:4000";
+  const tool = new DataExportTool(apiUrl);
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should export with filters and count the rows", async () => {
+    const csv = 'id,status,notes\nS1,rejected,"Leaking\ndrums"\nS2,rejected,\n';
+    nock(apiUrl)
+      .get("/api/shipments/export")
+      .query({ format: "csv", date_from: "2025-09-01", date_to: "2025-09-30", status: "rejected" })
+      .reply(200, csv, { "Content-Type": "text/csv" });
+
+    const result = await tool.execute({
+      entity: "shipments",
+      date_from: "2025-09-01",
+      date_to: "2025-09-30",
+      status: "rejected",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      entity: "shipments",
+      format: "csv",
+      row_count: 2,
+      content: csv,
+      truncated: false,
+    });
+    expect(result.data.download_url).toBe(
+      `${apiUrl}/api/shipments/export?format=csv&date_from=2025-09-01&date_to=2025-09-30&status=rejected`
+    );
+  });
+
+  it("should pass extra filters and export NDJSON", async () => {
+    const ndjson = '{"id":"I1"}\n{"id":"I2"}\n';
+    nock(apiUrl)
+      .get("/api/inspections/export")
+      .query({ format: "ndjson", has_risk_contaminants: "true" })
+      .reply(200, ndjson, { "Content-Type": "application/x-ndjson" });
+
+    const result = await tool.execute({
+      entity: "inspections",
+      format: "ndjson",
+      filters: { has_risk_contaminants: true },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.row_count).toBe(2);
+  });
+
+  it("should reject unknown entities without calling the API", async () => {
+    const result = await tool.execute({ entity: "trucks" });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toContain("entity");
+  });
+});
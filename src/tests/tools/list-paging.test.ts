@@ -0,0 +1,62 @@
+// Unit tests for paging, sorting and range filters on the list tools
+import nock from "nock";
+import { ShipmentsListTool } from "../../tools/shipments/list.js";
+import { FacilitiesListTool } from "../../tools/facilities/list.js";
+
+describe("List tool paging", () => {
+  const apiUrl = "http://localhost:4000";
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("should pass paging parameters and return pagination metadata", async () => {
+    const tool = new ShipmentsListTool(apiUrl);
+    const shipments = [{ id: "S3", date: "2025-01-03" }];
+    nock(apiUrl)
+      .get("/api/shipments")
+      .query({ cursor: "abc", sort: "-date", fields: "id,date", limit: "50" })
+      .reply(200, { success: true, data: shipments, count: 1, total: 12, next_cursor: "def" });
+
+    const result = await tool.execute({ cursor: "abc", sort: "-date", fields: "id,date" });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual(shipments);
+    expect(result.metadata.pagination).toEqual({ count: 1, total: 12, next_cursor: "def" });
+  });
+
+  it("should pass numeric range filters", async () => {
+    const tool = new ShipmentsListTool(apiUrl);
+    nock(apiUrl)
+      .get("/api/shipments")
+      .query({ weight_kg_min: "1000", weight_kg_max: "5000", limit: "50" })
+      .reply(200, { success: true, data: [], count: 0, total: 0, next_cursor: null });
+
+    const result = await tool.execute({ weight_kg_min: 1000, weight_kg_max: 5000 });
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.pagination).toEqual({ count: 0, total: 0, next_cursor: null });
+  });
+
+  it("should declare range parameters for each numeric field", () => {
+    const tool = new FacilitiesListTool(apiUrl);
+
+    expect(tool.schema.params.capacity_tons_min).toBeDefined();
+    expect(tool.schema.params.current_load_tons_max).toBeDefined();
+    expect(tool.schema.params.cursor).toBeDefined();
+  });
+
+  it("should leave pagination out for responses without paging info", async () => {
+    const tool = new ShipmentsListTool(apiUrl);
+    const shipments = [{ id: "S1" }];
+    nock(apiUrl)
+      .get("/api/shipments")
+      .query({ carrier: "Acme", limit: "50" })
+      .reply(200, { success: true, data: shipments, count: 1 });
+
+    const result = await tool.execute({ carrier: "Acme" });
+
+    expect(result.data).toEqual(shipments);
+    expect(result.metadata.pagination).toBeUndefined();
+  });
+});
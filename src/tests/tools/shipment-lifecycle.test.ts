@@ -0,0 +1,75 @@
+// Unit tests for the shipment lifecycle tools
+import nock from "nock";
+import { ShipmentsTransitionTool } from "../../tools/shipments/transition.js";
+import { ShipmentsHistoryTool } from "../../tools/shipments/history.js";
+
+describe("Shipment lifecycle tools", () => {
+  const apiUrl = "http://localhost:4000";
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  describe("ShipmentsTransitionTool", () => {
+    const tool = new ShipmentsTransitionTool(apiUrl);
+
+    it("should post the new status with reason and actor", async () => {
+      nock(apiUrl)
+        .post("/shipments/S1/transition", { status: "in_transit", reason: "Picked up", actor: "dispatch" })
+        .reply(200, { success: true, data: { id: "S1", status: "in_transit" } });
+
+      const result = await tool.execute({ id: "S1", status: "in_transit", reason: "Picked up", actor: "dispatch" });
+
+      expect(result.success).toBe(true);
+      expect(result.data.data.status).toBe("in_transit");
+    });
+
+    it("should reject unknown statuses without calling the API", async () => {
+      const result = await tool.execute({ id: "S1", status: "lost" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("Invalid status");
+    });
+
+    it("should surface illegal transitions refused by the API", async () => {
+      nock(apiUrl)
+        .post("/shipments/S1/transition")
+        .reply(409, {
+          success: false,
+          error: { message: "Invalid status transition: delivered -> pending" },
+        });
+
+      const result = await tool.execute({ id: "S1", status: "pending" });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe("409");
+      expect(result.error?.message).toBe("Invalid status transition: delivered -> pending");
+    });
+  });
+
+  describe("ShipmentsHistoryTool", () => {
+    const tool = new ShipmentsHistoryTool(apiUrl);
+
+    it("should fetch the status history", async () => {
+      const history = [
+        { shipment_id: "S1", from_status: null, to_status: "pending", actor: "api", timestamp: "2025-10-01T00:00:00.000Z" },
+        { shipment_id: "S1", from_status: "pending", to_status: "in_transit", actor: "dispatch", timestamp: "2025-10-02T00:00:00.000Z" },
+      ];
+      nock(apiUrl)
+        .get("/shipments/S1/history")
+        .reply(200, { success: true, data: history, count: 2, allowed_transitions: ["delivered", "rejected"] });
+
+      const result = await tool.execute({ id: "S1" });
+
+      expect(result.success).toBe(true);
+      expect(result.data.data).toEqual(history);
+    });
+
+    it("should require an id", async () => {
+      const result = await tool.execute({});
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain("Missing required fields: id");
+    });
+  });
+});
@@ -1,8 +1,52 @@
 // Base Tool Class - Common functionality for all tools
-import axios, { AxiosResponse } from "axios";
-import { MCPTool, ToolResult } from "../shared/types/tool.js";
+import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { MCPTool, ToolParam, ToolResult } from "../shared/types/tool.js";
+import { ToolPagination } from "../shared/types/agent.js";
 import { ToolSchema as RegistryToolSchema } from "../shared/types/tool-registry.js";
 import { QueryCache, getGlobalCache } from "../shared/cache/query-cache.js";
+import { getCurrentSignal } from "../shared/cancellation/registry.js";
+import { getCurrentSandbox } from "../shared/sandbox/http-sandbox.js";
+import { credentialHeaders } from "../shared/auth/credentials.js";
+import { getCurrentUser } from "../shared/auth/identity.js";
+
+/**
+ * Paging parameters shared by the *_list tools
+ */
+export const LIST_PAGING_PARAMS: Record<string, ToolParam> = {
+  cursor: {
+    type: "string",
+    description: "next_cursor from the previous page (metadata.pagination) to fetch the page after it",
+    required: false,
+  },
+  sort: {
+    type: "string",
+    description: "Comma-separated fields to sort by, '-' prefix for descending (e.g. '-date,weight_kg')",
+    required: false,
+  },
+  fields: {
+    type: "string",
+    description: "Comma-separated fields to return (e.g. 'id,date,status'); id is always included",
+    required: false,
+  },
+};
+
+/**
+ * <field>_min and <field>_max parameters for a numeric field
+ */
+export function rangeParams(field: string, label: string): Record<string, ToolParam> {
+  return {
+    [`${field}_min`]: { type: "number", description: `Minimum ${label}`, required: false },
+    [`${field}_max`]: { type: "number", description: `Maximum ${label}`, required: false },
+  };
+}
+
+/**
+ * A page from a list endpoint
+ */
+export interface ListPage {
+  items: any;
+  pagination?: ToolPagination;
+}
 
 export abstract class BaseTool implements MCPTool {
   abstract name: string;
@@ -66,6 +110,8 @@ export abstract class BaseTool implements MCPTool {
    */
   protected invalidateCache(): void {
     if (!this.shouldUseCache()) return;
+    // Nothing was written in a dry run
+    if (getCurrentSandbox()) return;
 
     const pattern = `${this.name}:.*`;
     this.getCache().invalidate(pattern);
@@ -101,6 +147,21 @@ export abstract class BaseTool implements MCPTool {
   }
 
   // HTTP Methods (only available if apiBaseUrl is provided)
+
+  /**
+   * Request config carrying the ambient abort signal, so a cancelled
+   * request also aborts its pending HTTP calls, and the requesting user's
+   * credential, so the API applies their role
+   */
+  protected requestConfig(): AxiosRequestConfig | undefined {
+    const signal = getCurrentSignal();
+    const headers = credentialHeaders(getCurrentUser());
+    if (!signal && Object.keys(headers).length === 0) {
+      return undefined;
+    }
+    return { ...(signal && { signal }), ...(Object.keys(headers).length > 0 && { headers }) };
+  }
+
   protected async get<T = any>(
     endpoint: string,
     params?: Record<string, any>
@@ -108,7 +169,7 @@ export abstract class BaseTool implements MCPTool {
     this.validateApiUrl();
     const queryParams = params ? new URLSearchParams(params).toString() : "";
     const url = `${this.apiBaseUrl}${endpoint}${queryParams ? `?${queryParams}` : ""}`;
-    return axios.get<T>(url);
+    return axios.get<T>(url, this.requestConfig());
   }
 
   protected async post<T = any>(
@@ -116,7 +177,11 @@ export abstract class BaseTool implements MCPTool {
     data: any
   ): Promise<AxiosResponse<T>> {
     this.validateApiUrl();
-    return axios.post<T>(`${this.apiBaseUrl}${endpoint}`, data);
+    const sandbox = getCurrentSandbox();
+    if (sandbox) {
+      return sandbox.record<T>("POST", `${this.apiBaseUrl}${endpoint}`, data);
+    }
+    return axios.post<T>(`${this.apiBaseUrl}${endpoint}`, data, this.requestConfig());
   }
 
   protected async put<T = any>(
@@ -124,14 +189,22 @@ export abstract class BaseTool implements MCPTool {
     data: any
   ): Promise<AxiosResponse<T>> {
     this.validateApiUrl();
-    return axios.put<T>(`${this.apiBaseUrl}${endpoint}`, data);
+    const sandbox = getCurrentSandbox();
+    if (sandbox) {
+      return sandbox.record<T>("PUT", `${this.apiBaseUrl}${endpoint}`, data);
+    }
+    return axios.put<T>(`${this.apiBaseUrl}${endpoint}`, data, this.requestConfig());
   }
 
   protected async delete<T = any>(
     endpoint: string
   ): Promise<AxiosResponse<T>> {
     this.validateApiUrl();
-    return axios.delete<T>(`${this.apiBaseUrl}${endpoint}`);
+    const sandbox = getCurrentSandbox();
+    if (sandbox) {
+      return sandbox.record<T>("DELETE", `${this.apiBaseUrl}${endpoint}`);
+    }
+    return axios.delete<T>(`${this.apiBaseUrl}${endpoint}`, this.requestConfig());
   }
 
   // Response Formatting
@@ -177,6 +250,54 @@ export abstract class BaseTool implements MCPTool {
     };
   }
 
+  // List Helpers
+
+  /**
+   * Query parameters for paging and range filters (<field>_min/<field>_max)
+   */
+  protected pagingQueryParams(params: Record<string, any>, rangeFields: string[] = []): Record<string, string> {
+    const queryParams: Record<string, string> = {};
+    const keys = [
+      ...Object.keys(LIST_PAGING_PARAMS),
+      ...rangeFields.flatMap((field) => [`${field}_min`, `${field}_max`]),
+    ];
+    for (const key of keys) {
+      if (params[key] !== undefined && params[key] !== "") {
+        queryParams[key] = String(params[key]);
+      }
+    }
+    return queryParams;
+  }
+
+  /**
+   * Split a list endpoint's response into its items and paging info
+   */
+  protected unwrapPage(apiData: any): ListPage {
+    if (!apiData?.success) {
+      return { items: apiData };
+    }
+    const page: ListPage = { items: apiData.data };
+    if (typeof apiData.total === "number") {
+      page.pagination = {
+        count: apiData.count ?? apiData.data?.length ?? 0,
+        total: apiData.total,
+        next_cursor: apiData.next_cursor ?? null,
+      };
+    }
+    return page;
+  }
+
+  /**
+   * Success result for a page, with the paging info in metadata.pagination
+   */
+  protected pageResult(page: ListPage, executionTime: number): ToolResult {
+    const result = this.success(page.items, executionTime);
+    if (page.pagination) {
+      result.metadata.pagination = page.pagination;
+    }
+    return result;
+  }
+
   // Validation Helpers
   protected validateRequired(
     params: Record<string, any>,
@@ -1,6 +1,7 @@
 // Contaminants Tool - Query detected contaminants
 import { MCPTool, ToolResult, Contaminant } from "../shared/types/tool.js";
 import axios from "axios";
+import { RiskLevelSchema } from "../shared/validation/schemas.js";
 
 export class ContaminantsTool implements MCPTool {
   name = "contaminants-detected";
@@ -12,6 +13,7 @@ export class ContaminantsTool implements MCPTool {
         type: "array",
         description: "List of shipment IDs to check",
         required: false,
+        items: { type: "string" },
       },
       facility_id: {
         type: "string",
@@ -38,6 +40,7 @@ export class ContaminantsTool implements MCPTool {
         type: "string",
         description: "Filter by risk level (low, medium, high, critical)",
         required: false,
+        enum: RiskLevelSchema.options,
       },
     },
     returns: {
@@ -1,6 +1,7 @@
 // Contaminants Create Tool - Create new contaminant record
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ChemicalLevelSchema, RiskLevelSchema } from "../../shared/validation/schemas.js";
 
 export class ContaminantsCreateTool extends BaseTool {
   name = "contaminants_create";
@@ -37,6 +38,7 @@ export class ContaminantsCreateTool extends BaseTool {
         type: "string",
         description: "Risk level (low, medium, high, critical)",
         required: true,
+        enum: RiskLevelSchema.options,
       },
       detected_at: {
         type: "string",
@@ -62,16 +64,19 @@ export class ContaminantsCreateTool extends BaseTool {
         type: "string",
         description: "Explosive level (low, medium, high)",
         required: false,
+        enum: ChemicalLevelSchema.options,
       },
       so2_level: {
         type: "string",
         description: "SO2 level (low, medium, high)",
         required: false,
+        enum: ChemicalLevelSchema.options,
       },
       hcl_level: {
         type: "string",
         description: "HCl level (low, medium, high)",
         required: false,
+        enum: ChemicalLevelSchema.options,
       },
       estimated_size: {
         type: "number",
@@ -103,7 +108,7 @@ export class ContaminantsCreateTool extends BaseTool {
 
       const riskValidation = this.validateEnum(
         params.risk_level,
-        ["low", "medium", "high", "critical"],
+        RiskLevelSchema.options,
         "risk_level"
       );
       if (!riskValidation.valid) {
@@ -1,6 +1,7 @@
 // Contaminants List Tool - Query contaminants with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { RiskLevelSchema } from "../../shared/validation/schemas.js";
 
 export class ContaminantsListTool extends BaseTool {
   name = "contaminants_list";
@@ -37,6 +38,7 @@ export class ContaminantsListTool extends BaseTool {
         type: "string",
         description: "Risk level (low, medium, high, critical)",
         required: false,
+        enum: RiskLevelSchema.options,
       },
       limit: {
         type: "number",
@@ -45,6 +47,8 @@ export class ContaminantsListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("concentration_ppm", "concentration in ppm"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -59,12 +63,12 @@ export class ContaminantsListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
       if (params.risk_level) {
         const riskValidation = this.validateEnum(
           params.risk_level,
-          ["low", "medium", "high", "critical"],
+          RiskLevelSchema.options,
           "risk_level"
         );
         if (!riskValidation.valid) {
@@ -85,18 +89,18 @@ export class ContaminantsListTool extends BaseTool {
       if (params.date_to) queryParams.date_to = params.date_to;
       if (params.type) queryParams.type = params.type;
       if (params.risk_level) queryParams.risk_level = params.risk_level;
+      Object.assign(queryParams, this.pagingQueryParams(params, ["concentration_ppm"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/contaminants-detected", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const contaminants = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, contaminants);
+      this.cacheResult(params, page);
 
-      return this.success(contaminants, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
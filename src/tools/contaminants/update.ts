@@ -1,6 +1,7 @@
 // Contaminants Update Tool - Update existing contaminant
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ChemicalLevelSchema, RiskLevelSchema } from "../../shared/validation/schemas.js";
 
 export class ContaminantsUpdateTool extends BaseTool {
   name = "contaminants_update";
@@ -37,6 +38,7 @@ export class ContaminantsUpdateTool extends BaseTool {
         type: "string",
         description: "Risk level (low, medium, high, critical)",
         required: false,
+        enum: RiskLevelSchema.options,
       },
       detected_at: {
         type: "string",
@@ -62,16 +64,19 @@ export class ContaminantsUpdateTool extends BaseTool {
         type: "string",
         description: "Explosive level",
         required: false,
+        enum: ChemicalLevelSchema.options,
       },
       so2_level: {
         type: "string",
         description: "SO2 level",
         required: false,
+        enum: ChemicalLevelSchema.options,
       },
       hcl_level: {
         type: "string",
         description: "HCl level",
         required: false,
+        enum: ChemicalLevelSchema.options,
       },
       estimated_size: {
         type: "number",
@@ -97,7 +102,7 @@ export class ContaminantsUpdateTool extends BaseTool {
       if (params.risk_level) {
         const riskValidation = this.validateEnum(
           params.risk_level,
-          ["low", "medium", "high", "critical"],
+          RiskLevelSchema.options,
           "risk_level"
         );
         if (!riskValidation.valid) {
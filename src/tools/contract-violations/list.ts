@@ -0,0 +1,125 @@
+// Contract Violations List Tool - Query violations recorded when shipments were checked against contracts
+import { BaseTool, LIST_PAGING_PARAMS } from "../base-tool.js";
+import { ToolResult } from "../../shared/types/tool.js";
+import { ContractViolationActionSchema, ContractViolationTypeSchema } from "../../shared/validation/schemas.js";
+
+export class ContractViolationsListTool extends BaseTool {
+  name = "contract_violations_list";
+  description =
+    "Query contract violations recorded at shipment creation (no contract, suspended or expired contract, outside contract period, undeclared waste type, weight limit exceeded), filtered by shipment, producer, facility, contract, type or action";
+
+  schema = {
+    params: {
+      shipment_id: {
+        type: "string",
+        description: "Filter by shipment ID",
+        required: false,
+      },
+      producer_id: {
+        type: "string",
+        description: "Filter by producer ID",
+        required: false,
+      },
+      facility_id: {
+        type: "string",
+        description: "Filter by facility ID",
+        required: false,
+      },
+      contract_id: {
+        type: "string",
+        description: "Filter by contract ID",
+        required: false,
+      },
+      type: {
+        type: "string",
+        description:
+          "Violation type (no_contract, contract_suspended, contract_expired, outside_contract_period, undeclared_waste_type, weight_limit_exceeded)",
+        required: false,
+        enum: ContractViolationTypeSchema.options,
+      },
+      action: {
+        type: "string",
+        description: "What happened to the shipment (rejected, flagged)",
+        required: false,
+        enum: ContractViolationActionSchema.options,
+      },
+      date_from: {
+        type: "string",
+        description: "Recorded on or after this time (ISO 8601)",
+        required: false,
+      },
+      date_to: {
+        type: "string",
+        description: "Recorded on or before this time (ISO 8601)",
+        required: false,
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of results (default: 50, max: 500)",
+        required: false,
+        min: 1,
+        max: 500,
+      },
+      ...LIST_PAGING_PARAMS,
+    },
+    returns: {
+      type: "array",
+      description: "Violations matching the criteria, newest first",
+    },
+  };
+
+  async execute(params: Record<string, any>): Promise<ToolResult> {
+    const startTime = Date.now();
+
+    try {
+      // Validate enum values
+      if (params.type) {
+        const typeValidation = this.validateEnum(
+          params.type,
+          [
+            "no_contract",
+            "contract_suspended",
+            "contract_expired",
+            "outside_contract_period",
+            "undeclared_waste_type",
+            "weight_limit_exceeded",
+          ],
+          "type"
+        );
+        if (!typeValidation.valid) {
+          throw new Error(typeValidation.error);
+        }
+      }
+      if (params.action) {
+        const actionValidation = this.validateEnum(params.action, ["rejected", "flagged"], "action");
+        if (!actionValidation.valid) {
+          throw new Error(actionValidation.error);
+        }
+      }
+
+      // Apply default limit
+      const limit = params.limit || parseInt(process.env.DEFAULT_LIST_LIMIT || '50');
+      if (limit > 500) {
+        throw new Error('Limit cannot exceed 500');
+      }
+
+      // Build query parameters
+      const queryParams: Record<string, string> = {};
+
+      for (const key of ["shipment_id", "producer_id", "facility_id", "contract_id", "type", "action", "date_from", "date_to"]) {
+        if (params[key]) queryParams[key] = params[key];
+      }
+      Object.assign(queryParams, this.pagingQueryParams(params));
+      queryParams.limit = limit.toString();
+
+      const response = await this.get("/api/contract-violations", queryParams);
+
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
+
+      return this.pageResult(page, Date.now() - startTime);
+    } catch (error: any) {
+      return this.error(error, Date.now() - startTime);
+    }
+  }
+}
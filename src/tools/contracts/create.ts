@@ -1,6 +1,7 @@
 // Contracts Create Tool - Create new contract
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ContractStatusSchema } from "../../shared/validation/schemas.js";
 
 export class ContractsCreateTool extends BaseTool {
   name = "contracts_create";
@@ -27,6 +28,7 @@ export class ContractsCreateTool extends BaseTool {
         type: "array",
         description: "Array of waste type codes (e.g., [\"191212\", \"150101\"])",
         required: true,
+        items: { type: "string" },
       },
       start_date: {
         type: "string",
@@ -47,6 +49,7 @@ export class ContractsCreateTool extends BaseTool {
         type: "string",
         description: "Contract status (active, expired, suspended)",
         required: true,
+        enum: ContractStatusSchema.options,
       },
       terms: {
         type: "string",
@@ -67,7 +70,7 @@ export class ContractsCreateTool extends BaseTool {
       // Validate enum values
       const statusValidation = this.validateEnum(
         params.status,
-        ["active", "expired", "suspended"],
+        ContractStatusSchema.options,
         "status"
       );
       if (!statusValidation.valid) {
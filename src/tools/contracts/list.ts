@@ -1,6 +1,7 @@
 // Contracts List Tool - Query contracts with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ContractStatusSchema } from "../../shared/validation/schemas.js";
 
 export class ContractsListTool extends BaseTool {
   name = "contracts_list";
@@ -22,6 +23,7 @@ export class ContractsListTool extends BaseTool {
         type: "string",
         description: "Contract status (active, expired, suspended)",
         required: false,
+        enum: ContractStatusSchema.options,
       },
       start_date: {
         type: "string",
@@ -45,6 +47,8 @@ export class ContractsListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("max_weight_kg", "contract weight limit in kilograms"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -59,13 +63,13 @@ export class ContractsListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
       // Validate enum values
       if (params.status) {
         const statusValidation = this.validateEnum(
           params.status,
-          ["active", "expired", "suspended"],
+          ContractStatusSchema.options,
           "status"
         );
         if (!statusValidation.valid) {
@@ -88,18 +92,18 @@ export class ContractsListTool extends BaseTool {
       if (params.start_date) queryParams.start_date = params.start_date;
       if (params.end_date) queryParams.end_date = params.end_date;
       if (params.waste_type) queryParams.waste_type = params.waste_type;
+      Object.assign(queryParams, this.pagingQueryParams(params, ["max_weight_kg"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/contracts", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const contracts = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, contracts);
+      this.cacheResult(params, page);
 
-      return this.success(contracts, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
@@ -1,6 +1,7 @@
 // Contracts Update Tool - Update existing contract
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ContractStatusSchema } from "../../shared/validation/schemas.js";
 
 export class ContractsUpdateTool extends BaseTool {
   name = "contracts_update";
@@ -27,6 +28,7 @@ export class ContractsUpdateTool extends BaseTool {
         type: "array",
         description: "Array of waste type codes (e.g., [\"191212\", \"150101\"])",
         required: false,
+        items: { type: "string" },
       },
       start_date: {
         type: "string",
@@ -47,6 +49,7 @@ export class ContractsUpdateTool extends BaseTool {
         type: "string",
         description: "Contract status (active, expired, suspended)",
         required: false,
+        enum: ContractStatusSchema.options,
       },
       terms: {
         type: "string",
@@ -72,7 +75,7 @@ export class ContractsUpdateTool extends BaseTool {
       if (params.status) {
         const statusValidation = this.validateEnum(
           params.status,
-          ["active", "expired", "suspended"],
+          ContractStatusSchema.options,
           "status"
         );
         if (!statusValidation.valid) {
@@ -0,0 +1,48 @@
+// Contracts Usage Tool - Quota consumption for a contract
+import { BaseTool } from "../base-tool.js";
+import { ToolResult } from "../../shared/types/tool.js";
+
+export class ContractsUsageTool extends BaseTool {
+  name = "contracts_usage";
+  description =
+    "Get a contract's quota usage from delivered shipments: used and remaining weight, burn rate, projected exhaustion date and the consumption ledger";
+
+  schema = {
+    params: {
+      id: {
+        type: "string",
+        description: "Contract ID",
+        required: true,
+      },
+      as_of: {
+        type: "string",
+        description: "Compute usage as of this date (ISO 8601, default: today)",
+        required: false,
+      },
+    },
+    returns: {
+      type: "object",
+      description: "Contract usage with ledger and projections",
+    },
+  };
+
+  async execute(params: Record<string, any>): Promise<ToolResult> {
+    const startTime = Date.now();
+
+    try {
+      if (!params.id) {
+        throw new Error("Contract ID is required");
+      }
+
+      const response = await this.get(`/contracts/${params.id}/usage`, params.as_of ? { as_of: params.as_of } : undefined);
+
+      // Unwrap API response to get just the usage object
+      const apiData = response.data as any;
+      const usage = apiData.success ? apiData.data : apiData;
+
+      return this.success(usage, Date.now() - startTime);
+    } catch (error: any) {
+      return this.error(error, Date.now() - startTime);
+    }
+  }
+}
@@ -0,0 +1,140 @@
+// Data Export Tool - Export an entity's records as CSV or NDJSON
+import { BaseTool } from "../base-tool.js";
+import { ToolResult } from "../../shared/types/tool.js";
+import { formatCSVRow, parseCSV } from "../../shared/utils/csv.js";
+
+const EXPORT_ENTITIES = [
+  "shipments",
+  "facilities",
+  "contaminants-detected",
+  "inspections",
+  "contracts",
+  "waste-producers",
+  "shipment-compositions",
+  "shipment-loads",
+];
+
+// Rows returned inline; the download URL has the whole export
+const MAX_INLINE_ROWS = 1000;
+
+export class DataExportTool extends BaseTool {
+  name = "data_export";
+  description =
+    "Export records as a CSV or NDJSON file, e.g. last month's rejected shipments. Takes the same filters as the matching list tool and returns the file content with a download URL";
+
+  schema = {
+    params: {
+      entity: {
+        type: "string",
+        description: "What to export",
+        required: true,
+        enum: EXPORT_ENTITIES,
+      },
+      format: {
+        type: "string",
+        description: "File format (default: csv)",
+        required: false,
+        enum: ["csv", "ndjson"],
+      },
+      date_from: {
+        type: "string",
+        description: "Start date (ISO 8601) for entities with a date filter, e.g. shipments and inspections",
+        required: false,
+      },
+      date_to: {
+        type: "string",
+        description: "End date (ISO 8601)",
+        required: false,
+      },
+      status: {
+        type: "string",
+        description: "Filter by status (e.g. rejected)",
+        required: false,
+      },
+      facility_id: {
+        type: "string",
+        description: "Filter by facility ID",
+        required: false,
+      },
+      filters: {
+        type: "object",
+        description: "Any other filters the entity's list endpoint takes, e.g. { \"has_contaminants\": true }",
+        required: false,
+      },
+      sort: {
+        type: "string",
+        description: "Comma-separated fields to sort by, '-' prefix for descending",
+        required: false,
+      },
+      fields: {
+        type: "string",
+        description: "Comma-separated fields to include (default: all)",
+        required: false,
+      },
+    },
+    returns: {
+      type: "object",
+      description: "Export with entity, format, row count, download URL and file content",
+    },
+  };
+
+  async execute(params: Record<string, any>): Promise<ToolResult> {
+    const startTime = Date.now();
+
+    try {
+      // Validate required fields
+      const validation = this.validateRequired(params, ["entity"]);
+      if (!validation.valid) {
+        throw new Error(`Missing required fields: ${validation.missing?.join(", ")}`);
+      }
+
+      // Validate enum values
+      const entityValidation = this.validateEnum(params.entity, EXPORT_ENTITIES, "entity");
+      if (!entityValidation.valid) {
+        throw new Error(entityValidation.error);
+      }
+
+      const format = params.format || "csv";
+      const formatValidation = this.validateEnum(format, ["csv", "ndjson"], "format");
+      if (!formatValidation.valid) {
+        throw new Error(formatValidation.error);
+      }
+
+      // Build query parameters
+      const queryParams: Record<string, string> = { format };
+      for (const [key, value] of Object.entries(params.filters ?? {})) {
+        if (value !== undefined && value !== null && value !== "") {
+          queryParams[key] = String(value);
+        }
+      }
+      for (const key of ["date_from", "date_to", "status", "facility_id", "sort", "fields"]) {
+        if (params[key]) queryParams[key] = String(params[key]);
+      }
+
+      const endpoint = `/api/${params.entity}/export`;
+      const response = await this.get(endpoint, queryParams);
+
+      // Exports aren't JSON, but a one-line NDJSON export still gets parsed as one
+      const content = typeof response.data === "string" ? response.data : `${JSON.stringify(response.data)}\n`;
+      // CSV cells can hold line breaks, so count records rather than lines
+      const records = format === "csv" ? parseCSV(content).map((cells) => formatCSVRow(cells)) : content.split("\n");
+      const header = format === "csv" ? records.slice(0, 1) : [];
+      const rows = (format === "csv" ? records.slice(1) : records).filter((row) => row !== "");
+      const truncated = rows.length > MAX_INLINE_ROWS;
+
+      return this.success(
+        {
+          entity: params.entity,
+          format,
+          row_count: rows.length,
+          download_url: `${this.apiBaseUrl}${endpoint}?${new URLSearchParams(queryParams).toString()}`,
+          content: truncated ? [...header, ...rows.slice(0, MAX_INLINE_ROWS)].join("\n") + "\n" : content,
+          truncated,
+        },
+        Date.now() - startTime
+      );
+    } catch (error: any) {
+      return this.error(error, Date.now() - startTime);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 // Facilities Tool - Query waste management facilities
 import { MCPTool, ToolResult, Facility } from "../shared/types/tool.js";
 import axios from "axios";
+import { FacilityTypeSchema } from "../shared/validation/schemas.js";
 
 export class FacilitiesTool implements MCPTool {
   name = "facilities";
@@ -18,6 +19,7 @@ export class FacilitiesTool implements MCPTool {
         type: "string",
         description: "Facility type (sorting, processing, disposal)",
         required: false,
+        enum: FacilityTypeSchema.options,
       },
       min_capacity: {
         type: "number",
@@ -28,6 +30,7 @@ export class FacilitiesTool implements MCPTool {
         type: "array",
         description: "Specific facility IDs to retrieve",
         required: false,
+        items: { type: "string" },
       },
     },
     returns: {
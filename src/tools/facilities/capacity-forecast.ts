@@ -0,0 +1,41 @@
+// Facilities Capacity Forecast Tool - Project utilization from inbound shipments
+import { BaseTool } from "../base-tool.js";
+import { ToolResult } from "../../shared/types/tool.js";
+
+export class FacilitiesCapacityForecastTool extends BaseTool {
+  name = "facilities_capacity_forecast";
+  description =
+    "Forecast a facility's capacity utilization: current load (delivered shipments minus processing outflows) plus pending and in-transit shipments by date, and whether and when it would exceed capacity";
+
+  schema = {
+    params: {
+      id: {
+        type: "string",
+        description: "Facility ID",
+        required: true,
+      },
+    },
+    returns: {
+      type: "object",
+      description: "Current and projected load and utilization, inbound totals and a per-date timeline",
+    },
+  };
+
+  async execute(params: Record<string, any>): Promise<ToolResult> {
+    const startTime = Date.now();
+
+    try {
+      // Validate required fields
+      const validation = this.validateRequired(params, ["id"]);
+      if (!validation.valid) {
+        throw new Error(`Missing required fields: ${validation.missing?.join(", ")}`);
+      }
+
+      const response = await this.get(`/facilities/${params.id}/capacity-forecast`);
+
+      return this.success(response.data, Date.now() - startTime);
+    } catch (error: any) {
+      return this.error(error, Date.now() - startTime);
+    }
+  }
+}
@@ -1,6 +1,7 @@
 // Facilities Create Tool - Create new facility
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { FacilityTypeSchema } from "../../shared/validation/schemas.js";
 
 export class FacilitiesCreateTool extends BaseTool {
   name = "facilities_create";
@@ -27,6 +28,7 @@ export class FacilitiesCreateTool extends BaseTool {
         type: "string",
         description: "Facility type (sorting, processing, disposal)",
         required: true,
+        enum: FacilityTypeSchema.options,
       },
       capacity_tons: {
         type: "number",
@@ -42,16 +44,22 @@ export class FacilitiesCreateTool extends BaseTool {
         type: "object",
         description: "Lat/lon coordinates {lat, lon}",
         required: false,
+        properties: {
+          lat: { type: "number", description: "Latitude", required: true, min: -90, max: 90 },
+          lon: { type: "number", description: "Longitude", required: true, min: -180, max: 180 },
+        },
       },
       accepted_waste_types: {
         type: "array",
         description: "Array of accepted waste types",
         required: false,
+        items: { type: "string" },
       },
       rejected_waste_types: {
         type: "array",
         description: "Array of rejected waste types",
         required: false,
+        items: { type: "string" },
       },
       contact_email: {
         type: "string",
@@ -92,7 +100,7 @@ export class FacilitiesCreateTool extends BaseTool {
 
       const typeValidation = this.validateEnum(
         params.type,
-        ["sorting", "processing", "disposal"],
+        FacilityTypeSchema.options,
         "type"
       );
       if (!typeValidation.valid) {
@@ -1,6 +1,7 @@
 // Facilities List Tool - Query facilities with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { FacilityTypeSchema } from "../../shared/validation/schemas.js";
 
 export class FacilitiesListTool extends BaseTool {
   name = "facilities_list";
@@ -17,6 +18,7 @@ export class FacilitiesListTool extends BaseTool {
         type: "string",
         description: "Facility type (sorting, processing, disposal)",
         required: false,
+        enum: FacilityTypeSchema.options,
       },
       min_capacity: {
         type: "number",
@@ -35,6 +37,9 @@ export class FacilitiesListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("capacity_tons", "capacity in tons"),
+      ...rangeParams("current_load_tons", "current load in tons"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -49,14 +54,14 @@ export class FacilitiesListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
 
       // Validate enum values
       if (params.type) {
         const typeValidation = this.validateEnum(
           params.type,
-          ["sorting", "processing", "disposal"],
+          FacilityTypeSchema.options,
           "type"
         );
         if (!typeValidation.valid) {
@@ -75,18 +80,18 @@ export class FacilitiesListTool extends BaseTool {
       if (params.type) queryParams.type = params.type;
       if (params.min_capacity) queryParams.min_capacity = params.min_capacity.toString();
       if (params.ids) queryParams.ids = params.ids;
+      Object.assign(queryParams, this.pagingQueryParams(params, ["capacity_tons", "current_load_tons"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/facilities", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const facilities = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, facilities);
+      this.cacheResult(params, page);
 
-      return this.success(facilities, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
@@ -1,6 +1,7 @@
 // Facilities Update Tool - Update existing facility
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { FacilityTypeSchema } from "../../shared/validation/schemas.js";
 
 export class FacilitiesUpdateTool extends BaseTool {
   name = "facilities_update";
@@ -27,6 +28,7 @@ export class FacilitiesUpdateTool extends BaseTool {
         type: "string",
         description: "Facility type (sorting, processing, disposal)",
         required: false,
+        enum: FacilityTypeSchema.options,
       },
       capacity_tons: {
         type: "number",
@@ -42,16 +44,22 @@ export class FacilitiesUpdateTool extends BaseTool {
         type: "object",
         description: "Lat/lon coordinates {lat, lon}",
         required: false,
+        properties: {
+          lat: { type: "number", description: "Latitude", required: true, min: -90, max: 90 },
+          lon: { type: "number", description: "Longitude", required: true, min: -180, max: 180 },
+        },
       },
       accepted_waste_types: {
         type: "array",
         description: "Array of accepted waste types",
         required: false,
+        items: { type: "string" },
       },
       rejected_waste_types: {
         type: "array",
         description: "Array of rejected waste types",
         required: false,
+        items: { type: "string" },
       },
       contact_email: {
         type: "string",
@@ -87,7 +95,7 @@ export class FacilitiesUpdateTool extends BaseTool {
       if (params.type) {
         const typeValidation = this.validateEnum(
           params.type,
-          ["sorting", "processing", "disposal"],
+          FacilityTypeSchema.options,
           "type"
         );
         if (!typeValidation.valid) {
@@ -7,6 +7,8 @@ import { ShipmentsGetTool } from "./shipments/get.js";
 import { ShipmentsCreateTool } from "./shipments/create.js";
 import { ShipmentsUpdateTool } from "./shipments/update.js";
 import { ShipmentsDeleteTool } from "./shipments/delete.js";
+import { ShipmentsTransitionTool } from "./shipments/transition.js";
+import { ShipmentsHistoryTool } from "./shipments/history.js";
 
 // Import all Facilities tools
 import { FacilitiesListTool } from "./facilities/list.js";
@@ -14,6 +16,7 @@ import { FacilitiesGetTool } from "./facilities/get.js";
 import { FacilitiesCreateTool } from "./facilities/create.js";
 import { FacilitiesUpdateTool } from "./facilities/update.js";
 import { FacilitiesDeleteTool } from "./facilities/delete.js";
+import { FacilitiesCapacityForecastTool } from "./facilities/capacity-forecast.js";
 
 // Import all Contaminants tools
 import { ContaminantsListTool } from "./contaminants/list.js";
@@ -42,6 +45,9 @@ import { FacilitiesWithActivityTool } from "./relationships/facilities-with-acti
 import { FacilitiesDetailedTool } from "./relationships/facilities-detailed.js";
 import { InspectionsDetailedTool } from "./relationships/inspections-detailed.js";
 
+// Import Export tools
+import { DataExportTool } from "./exports/export.js";
+
 // Import Database tools
 import { DatabaseResetTool } from "./reset.js";
 
@@ -49,19 +55,22 @@ export function registerAllTools(
   server: MCPServer,
   apiBaseUrl: string
 ): void {
-  // Register Shipments tools (5)
+  // Register Shipments tools (7)
   server.registerTool(new ShipmentsListTool(apiBaseUrl));
   server.registerTool(new ShipmentsGetTool(apiBaseUrl));
   server.registerTool(new ShipmentsCreateTool(apiBaseUrl));
   server.registerTool(new ShipmentsUpdateTool(apiBaseUrl));
   server.registerTool(new ShipmentsDeleteTool(apiBaseUrl));
+  server.registerTool(new ShipmentsTransitionTool(apiBaseUrl));
+  server.registerTool(new ShipmentsHistoryTool(apiBaseUrl));
 
-  // Register Facilities tools (5)
+  // Register Facilities tools (6)
   server.registerTool(new FacilitiesListTool(apiBaseUrl));
   server.registerTool(new FacilitiesGetTool(apiBaseUrl));
   server.registerTool(new FacilitiesCreateTool(apiBaseUrl));
   server.registerTool(new FacilitiesUpdateTool(apiBaseUrl));
   server.registerTool(new FacilitiesDeleteTool(apiBaseUrl));
+  server.registerTool(new FacilitiesCapacityForecastTool(apiBaseUrl));
 
   // Register Contaminants tools (5)
   server.registerTool(new ContaminantsListTool(apiBaseUrl));
@@ -90,13 +99,19 @@ export function registerAllTools(
   server.registerTool(new FacilitiesDetailedTool(apiBaseUrl));
   server.registerTool(new InspectionsDetailedTool(apiBaseUrl));
 
+  // Register Export tools (1)
+  server.registerTool(new DataExportTool(apiBaseUrl));
+
   // Register Database tools (1)
   server.registerTool(new DatabaseResetTool(apiBaseUrl));
 
-  console.error("✓ Registered 30 comprehensive waste management tools:");
+  console.error("✓ Registered 34 comprehensive waste management tools:");
   console.error("  - 20 CRUD operations (list/get/create/update/delete for 4 resources)");
+  console.error("  - 2 Shipment lifecycle tools (transition/history)");
+  console.error("  - 1 Facility capacity forecast tool");
   console.error("  - 4 Analytics tools");
   console.error("  - 5 Relationship tools");
+  console.error("  - 1 Data export tool");
   console.error("  - 1 Database management tool");
 }
 
@@ -108,12 +123,15 @@ export {
   ShipmentsCreateTool,
   ShipmentsUpdateTool,
   ShipmentsDeleteTool,
+  ShipmentsTransitionTool,
+  ShipmentsHistoryTool,
   // Facilities
   FacilitiesListTool,
   FacilitiesGetTool,
   FacilitiesCreateTool,
   FacilitiesUpdateTool,
   FacilitiesDeleteTool,
+  FacilitiesCapacityForecastTool,
   // Contaminants
   ContaminantsListTool,
   ContaminantsGetTool,
@@ -137,6 +155,8 @@ export {
   FacilitiesWithActivityTool,
   FacilitiesDetailedTool,
   InspectionsDetailedTool,
+  // Exports
+  DataExportTool,
   // Database
   DatabaseResetTool,
 };
@@ -1,6 +1,7 @@
 // Inspections Tool - Query shipment inspections
 import { MCPTool, ToolResult, Inspection } from "../shared/types/tool.js";
 import axios from "axios";
+import { InspectionStatusSchema } from "../shared/validation/schemas.js";
 
 export class InspectionsTool implements MCPTool {
   name = "inspections";
@@ -23,6 +24,7 @@ export class InspectionsTool implements MCPTool {
         type: "string",
         description: "Inspection status (accepted, rejected, pending)",
         required: false,
+        enum: InspectionStatusSchema.options,
       },
       facility_id: {
         type: "string",
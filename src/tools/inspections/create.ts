@@ -1,6 +1,7 @@
 // Inspections Create Tool - Create new inspection
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { InspectionStatusSchema, InspectionTypeSchema } from "../../shared/validation/schemas.js";
 
 export class InspectionsCreateTool extends BaseTool {
   name = "inspections_create";
@@ -32,6 +33,7 @@ export class InspectionsCreateTool extends BaseTool {
         type: "string",
         description: "Inspection status (accepted, rejected, pending)",
         required: true,
+        enum: InspectionStatusSchema.options,
       },
       inspector: {
         type: "string",
@@ -47,6 +49,7 @@ export class InspectionsCreateTool extends BaseTool {
         type: "array",
         description: "Array of contaminant types detected",
         required: false,
+        items: { type: "string" },
       },
       risk_assessment: {
         type: "string",
@@ -57,6 +60,7 @@ export class InspectionsCreateTool extends BaseTool {
         type: "string",
         description: "Type of inspection (arrival, processing, departure, random)",
         required: false,
+        enum: InspectionTypeSchema.options,
       },
       duration_minutes: {
         type: "number",
@@ -77,6 +81,7 @@ export class InspectionsCreateTool extends BaseTool {
         type: "array",
         description: "Array of photo URLs",
         required: false,
+        items: { type: "string" },
       },
     },
     returns: {
@@ -103,7 +108,7 @@ export class InspectionsCreateTool extends BaseTool {
 
       const statusValidation = this.validateEnum(
         params.status,
-        ["accepted", "rejected", "pending"],
+        InspectionStatusSchema.options,
         "status"
       );
       if (!statusValidation.valid) {
@@ -113,7 +118,7 @@ export class InspectionsCreateTool extends BaseTool {
       if (params.inspection_type) {
         const typeValidation = this.validateEnum(
           params.inspection_type,
-          ["arrival", "processing", "departure", "random"],
+          InspectionTypeSchema.options,
           "inspection_type"
         );
         if (!typeValidation.valid) {
@@ -1,6 +1,7 @@
 // Inspections List Tool - Query inspections with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { InspectionStatusSchema } from "../../shared/validation/schemas.js";
 
 export class InspectionsListTool extends BaseTool {
   name = "inspections_list";
@@ -22,6 +23,7 @@ export class InspectionsListTool extends BaseTool {
         type: "string",
         description: "Inspection status (accepted, rejected, pending)",
         required: false,
+        enum: InspectionStatusSchema.options,
       },
       facility_id: {
         type: "string",
@@ -45,6 +47,8 @@ export class InspectionsListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("duration_minutes", "inspection duration in minutes"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -59,12 +63,12 @@ export class InspectionsListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
       if (params.status) {
         const statusValidation = this.validateEnum(
           params.status,
-          ["accepted", "rejected", "pending"],
+          InspectionStatusSchema.options,
           "status"
         );
         if (!statusValidation.valid) {
@@ -87,18 +91,18 @@ export class InspectionsListTool extends BaseTool {
       if (params.has_risk_contaminants !== undefined) {
         queryParams.has_risk_contaminants = params.has_risk_contaminants.toString();
       }
+      Object.assign(queryParams, this.pagingQueryParams(params, ["duration_minutes"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/inspections", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const inspections = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, inspections);
+      this.cacheResult(params, page);
 
-      return this.success(inspections, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
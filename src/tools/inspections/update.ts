@@ -1,6 +1,7 @@
 // Inspections Update Tool - Update existing inspection
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { InspectionStatusSchema, InspectionTypeSchema } from "../../shared/validation/schemas.js";
 
 export class InspectionsUpdateTool extends BaseTool {
   name = "inspections_update";
@@ -32,6 +33,7 @@ export class InspectionsUpdateTool extends BaseTool {
         type: "string",
         description: "Inspection status",
         required: false,
+        enum: InspectionStatusSchema.options,
       },
       inspector: {
         type: "string",
@@ -47,6 +49,7 @@ export class InspectionsUpdateTool extends BaseTool {
         type: "array",
         description: "Contaminants detected",
         required: false,
+        items: { type: "string" },
       },
       risk_assessment: {
         type: "string",
@@ -57,6 +60,7 @@ export class InspectionsUpdateTool extends BaseTool {
         type: "string",
         description: "Inspection type",
         required: false,
+        enum: InspectionTypeSchema.options,
       },
       duration_minutes: {
         type: "number",
@@ -77,6 +81,7 @@ export class InspectionsUpdateTool extends BaseTool {
         type: "array",
         description: "Photo URLs",
         required: false,
+        items: { type: "string" },
       },
     },
     returns: {
@@ -97,7 +102,7 @@ export class InspectionsUpdateTool extends BaseTool {
       if (params.status) {
         const statusValidation = this.validateEnum(
           params.status,
-          ["accepted", "rejected", "pending"],
+          InspectionStatusSchema.options,
           "status"
         );
         if (!statusValidation.valid) {
@@ -108,7 +113,7 @@ export class InspectionsUpdateTool extends BaseTool {
       if (params.inspection_type) {
         const typeValidation = this.validateEnum(
           params.inspection_type,
-          ["arrival", "processing", "departure", "random"],
+          InspectionTypeSchema.options,
           "inspection_type"
         );
         if (!typeValidation.valid) {
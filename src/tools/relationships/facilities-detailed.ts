@@ -17,6 +17,7 @@ export class FacilitiesDetailedTool extends BaseTool {
         type: "array",
         description: "Array of relations: 'shipments', 'inspections', 'contaminants'",
         required: false,
+        items: { type: "string", enum: ["shipments", "inspections", "contaminants"] },
       },
     },
     returns: {
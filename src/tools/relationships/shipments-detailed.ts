@@ -17,6 +17,7 @@ export class ShipmentsDetailedTool extends BaseTool {
         type: "array",
         description: "Array of relations to include: 'contaminants', 'inspection', 'facility'",
         required: false,
+        items: { type: "string", enum: ["contaminants", "inspection", "facility"] },
       },
     },
     returns: {
@@ -1,6 +1,7 @@
 // Shipment Compositions Create Tool - Create new shipment composition
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { DetectionMethodSchema } from "../../shared/validation/schemas.js";
 
 export class ShipmentCompositionsCreateTool extends BaseTool {
   name = "shipment_compositions_create";
@@ -42,6 +43,7 @@ export class ShipmentCompositionsCreateTool extends BaseTool {
         type: "string",
         description: "Detection method (camera, manual, sensor)",
         required: true,
+        enum: DetectionMethodSchema.options,
       },
       confidence: {
         type: "number",
@@ -62,7 +64,7 @@ export class ShipmentCompositionsCreateTool extends BaseTool {
       // Validate enum values
       const detectedByValidation = this.validateEnum(
         params.detected_by,
-        ["camera", "manual", "sensor"],
+        DetectionMethodSchema.options,
         "detected_by"
       );
       if (!detectedByValidation.valid) {
@@ -1,6 +1,7 @@
 // Shipment Compositions List Tool - Query shipment compositions with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { DetectionMethodSchema } from "../../shared/validation/schemas.js";
 
 export class ShipmentCompositionsListTool extends BaseTool {
   name = "shipment_compositions_list";
@@ -22,6 +23,7 @@ export class ShipmentCompositionsListTool extends BaseTool {
         type: "string",
         description: "Detection method (camera, manual, sensor)",
         required: false,
+        enum: DetectionMethodSchema.options,
       },
       min_confidence: {
         type: "number",
@@ -40,6 +42,9 @@ export class ShipmentCompositionsListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("percentage", "share of the shipment in percent"),
+      ...rangeParams("weight_kg", "weight in kilograms"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -54,13 +59,13 @@ export class ShipmentCompositionsListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
       // Validate enum values
       if (params.detected_by) {
         const detectedByValidation = this.validateEnum(
           params.detected_by,
-          ["camera", "manual", "sensor"],
+          DetectionMethodSchema.options,
           "detected_by"
         );
         if (!detectedByValidation.valid) {
@@ -90,18 +95,18 @@ export class ShipmentCompositionsListTool extends BaseTool {
       if (params.detected_by) queryParams.detected_by = params.detected_by;
       if (params.min_confidence !== undefined) queryParams.min_confidence = params.min_confidence.toString();
       if (params.max_confidence !== undefined) queryParams.max_confidence = params.max_confidence.toString();
+      Object.assign(queryParams, this.pagingQueryParams(params, ["percentage", "weight_kg"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/shipment-compositions", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const compositions = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, compositions);
+      this.cacheResult(params, page);
 
-      return this.success(compositions, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
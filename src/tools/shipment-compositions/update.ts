@@ -1,6 +1,7 @@
 // Shipment Compositions Update Tool - Update existing shipment composition
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { DetectionMethodSchema } from "../../shared/validation/schemas.js";
 
 export class ShipmentCompositionsUpdateTool extends BaseTool {
   name = "shipment_compositions_update";
@@ -42,6 +43,7 @@ export class ShipmentCompositionsUpdateTool extends BaseTool {
         type: "string",
         description: "Detection method (camera, manual, sensor)",
         required: false,
+        enum: DetectionMethodSchema.options,
       },
       confidence: {
         type: "number",
@@ -67,7 +69,7 @@ export class ShipmentCompositionsUpdateTool extends BaseTool {
       if (params.detected_by) {
         const detectedByValidation = this.validateEnum(
           params.detected_by,
-          ["camera", "manual", "sensor"],
+          DetectionMethodSchema.options,
           "detected_by"
         );
         if (!detectedByValidation.valid) {
@@ -1,5 +1,5 @@
 // Shipment Loads List Tool - Query shipment loads with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
 
 export class ShipmentLoadsListTool extends BaseTool {
@@ -55,6 +55,8 @@ export class ShipmentLoadsListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("total_weight_kg", "total load weight in kilograms"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -69,7 +71,7 @@ export class ShipmentLoadsListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
       // Validate confidence range
       if (params.min_confidence !== undefined && (params.min_confidence < 0 || params.min_confidence > 1)) {
@@ -96,18 +98,18 @@ export class ShipmentLoadsListTool extends BaseTool {
       if (params.matches_contract !== undefined) queryParams.matches_contract = params.matches_contract.toString();
       if (params.min_confidence !== undefined) queryParams.min_confidence = params.min_confidence.toString();
       if (params.max_confidence !== undefined) queryParams.max_confidence = params.max_confidence.toString();
+      Object.assign(queryParams, this.pagingQueryParams(params, ["total_weight_kg"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/shipment-loads", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const loads = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, loads);
+      this.cacheResult(params, page);
 
-      return this.success(loads, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
@@ -32,6 +32,7 @@ export class ShipmentLoadsUpdateTool extends BaseTool {
         type: "array",
         description: "Array of detected waste codes (e.g., [\"191212\", \"150101\"])",
         required: false,
+        items: { type: "string" },
       },
       total_weight_kg: {
         type: "number",
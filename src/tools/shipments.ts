@@ -1,6 +1,7 @@
 // Shipments Tool - Query shipments with various filters
 import { MCPTool, ToolResult, Shipment } from "../shared/types/tool.js";
 import axios from "axios";
+import { ShipmentStatusSchema } from "../shared/validation/schemas.js";
 
 export class ShipmentsTool implements MCPTool {
   name = "shipments";
@@ -29,6 +30,7 @@ export class ShipmentsTool implements MCPTool {
         description:
           "Shipment status (pending, in_transit, delivered, rejected)",
         required: false,
+        enum: ShipmentStatusSchema.options,
       },
       has_contaminants: {
         type: "boolean",
@@ -1,6 +1,7 @@
 // Shipments Create Tool - Create new shipment
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ShipmentStatusSchema } from "../../shared/validation/schemas.js";
 
 export class ShipmentsCreateTool extends BaseTool {
   name = "shipments_create";
@@ -18,6 +19,11 @@ export class ShipmentsCreateTool extends BaseTool {
         description: "Destination facility ID",
         required: true,
       },
+      producer_id: {
+        type: "string",
+        description: "Waste producer ID (checks the shipment against the producer's contract)",
+        required: false,
+      },
       date: {
         type: "string",
         description: "Shipment date (ISO 8601 format)",
@@ -27,6 +33,7 @@ export class ShipmentsCreateTool extends BaseTool {
         type: "string",
         description: "Shipment status (pending, in_transit, delivered, rejected)",
         required: true,
+        enum: ShipmentStatusSchema.options,
       },
       weight_kg: {
         type: "number",
@@ -95,7 +102,7 @@ export class ShipmentsCreateTool extends BaseTool {
       // Validate enum values
       const statusValidation = this.validateEnum(
         params.status,
-        ["pending", "in_transit", "delivered", "rejected"],
+        ShipmentStatusSchema.options,
         "status"
       );
       if (!statusValidation.valid) {
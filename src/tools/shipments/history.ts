@@ -0,0 +1,41 @@
+// Shipments History Tool - Get a shipment's status history
+import { BaseTool } from "../base-tool.js";
+import { ToolResult } from "../../shared/types/tool.js";
+
+export class ShipmentsHistoryTool extends BaseTool {
+  name = "shipments_history";
+  description =
+    "Get the status history of a shipment: every status change with actor, timestamp and reason, oldest first, plus the statuses it can move to next";
+
+  schema = {
+    params: {
+      id: {
+        type: "string",
+        description: "Shipment ID",
+        required: true,
+      },
+    },
+    returns: {
+      type: "array",
+      description: "Status transitions with from_status, to_status, actor, reason and timestamp",
+    },
+  };
+
+  async execute(params: Record<string, any>): Promise<ToolResult> {
+    const startTime = Date.now();
+
+    try {
+      // Validate required fields
+      const validation = this.validateRequired(params, ["id"]);
+      if (!validation.valid) {
+        throw new Error(`Missing required fields: ${validation.missing?.join(", ")}`);
+      }
+
+      const response = await this.get(`/shipments/${params.id}/history`);
+
+      return this.success(response.data, Date.now() - startTime);
+    } catch (error: any) {
+      return this.error(error, Date.now() - startTime);
+    }
+  }
+}
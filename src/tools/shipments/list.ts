@@ -1,6 +1,7 @@
 // Shipments List Tool - Query shipments with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS, rangeParams } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ShipmentStatusSchema } from "../../shared/validation/schemas.js";
 
 export class ShipmentsListTool extends BaseTool {
   name = "shipments_list";
@@ -28,6 +29,7 @@ export class ShipmentsListTool extends BaseTool {
         type: "string",
         description: "Shipment status (pending, in_transit, delivered, rejected)",
         required: false,
+        enum: ShipmentStatusSchema.options,
       },
       has_contaminants: {
         type: "boolean",
@@ -51,6 +53,8 @@ export class ShipmentsListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...rangeParams("weight_kg", "weight in kilograms"),
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -66,14 +70,14 @@ export class ShipmentsListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
 
       // Validate enum values
       if (params.status) {
         const statusValidation = this.validateEnum(
           params.status,
-          ["pending", "in_transit", "delivered", "rejected"],
+          ShipmentStatusSchema.options,
           "status"
         );
         if (!statusValidation.valid) {
@@ -99,18 +103,18 @@ export class ShipmentsListTool extends BaseTool {
       }
       if (params.waste_type) queryParams.waste_type = params.waste_type;
       if (params.carrier) queryParams.carrier = params.carrier;
+      Object.assign(queryParams, this.pagingQueryParams(params, ["weight_kg"]));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/shipments", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const shipments = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, shipments);
+      this.cacheResult(params, page);
 
-      return this.success(shipments, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
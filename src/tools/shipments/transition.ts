@@ -0,0 +1,68 @@
+// Shipments Transition Tool - Move a shipment along its lifecycle
+import { BaseTool } from "../base-tool.js";
+import { ToolResult } from "../../shared/types/tool.js";
+import { ShipmentStatusSchema } from "../../shared/validation/schemas.js";
+
+export class ShipmentsTransitionTool extends BaseTool {
+  name = "shipments_transition";
+  description =
+    "Change a shipment's status along its lifecycle (pending -> in_transit -> delivered; rejected from any earlier status). Illegal transitions such as delivered -> pending are refused. Each change is recorded in the shipment's status history.";
+
+  schema = {
+    params: {
+      id: {
+        type: "string",
+        description: "Shipment ID",
+        required: true,
+      },
+      status: {
+        type: "string",
+        description: "New status (pending, in_transit, delivered, rejected)",
+        required: true,
+        enum: ShipmentStatusSchema.options,
+      },
+      reason: {
+        type: "string",
+        description: "Why the status is changing",
+        required: false,
+      },
+      actor: {
+        type: "string",
+        description: "Who is making the change",
+        required: false,
+      },
+    },
+    returns: {
+      type: "object",
+      description: "Updated shipment details",
+    },
+  };
+
+  async execute(params: Record<string, any>): Promise<ToolResult> {
+    const startTime = Date.now();
+
+    try {
+      // Validate required fields
+      const validation = this.validateRequired(params, ["id", "status"]);
+      if (!validation.valid) {
+        throw new Error(`Missing required fields: ${validation.missing?.join(", ")}`);
+      }
+
+      const statusValidation = this.validateEnum(
+        params.status,
+        ShipmentStatusSchema.options,
+        "status"
+      );
+      if (!statusValidation.valid) {
+        throw new Error(statusValidation.error);
+      }
+
+      const { id, ...transition } = params;
+      const response = await this.post(`/shipments/${id}/transition`, transition);
+
+      return this.success(response.data, Date.now() - startTime);
+    } catch (error: any) {
+      return this.error(error, Date.now() - startTime);
+    }
+  }
+}
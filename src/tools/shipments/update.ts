@@ -1,6 +1,7 @@
 // Shipments Update Tool - Update existing shipment
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ShipmentStatusSchema } from "../../shared/validation/schemas.js";
 
 export class ShipmentsUpdateTool extends BaseTool {
   name = "shipments_update";
@@ -27,6 +28,7 @@ export class ShipmentsUpdateTool extends BaseTool {
         type: "string",
         description: "Shipment status (pending, in_transit, delivered, rejected)",
         required: false,
+        enum: ShipmentStatusSchema.options,
       },
       weight_kg: {
         type: "number",
@@ -89,7 +91,7 @@ export class ShipmentsUpdateTool extends BaseTool {
       if (params.status) {
         const statusValidation = this.validateEnum(
           params.status,
-          ["pending", "in_transit", "delivered", "rejected"],
+          ShipmentStatusSchema.options,
           "status"
         );
         if (!statusValidation.valid) {
@@ -1,6 +1,7 @@
 // Waste Producers Create Tool - Create new waste producer
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ProducerTypeSchema } from "../../shared/validation/schemas.js";
 
 export class WasteProducersCreateTool extends BaseTool {
   name = "waste_producers_create";
@@ -22,6 +23,7 @@ export class WasteProducersCreateTool extends BaseTool {
         type: "string",
         description: "Producer type (industrial, commercial, municipal)",
         required: true,
+        enum: ProducerTypeSchema.options,
       },
       location: {
         type: "string",
@@ -63,7 +65,7 @@ export class WasteProducersCreateTool extends BaseTool {
       // Validate enum values
       const typeValidation = this.validateEnum(
         params.type,
-        ["industrial", "commercial", "municipal"],
+        ProducerTypeSchema.options,
         "type"
       );
       if (!typeValidation.valid) {
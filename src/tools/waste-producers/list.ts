@@ -1,6 +1,7 @@
 // Waste Producers List Tool - Query waste producers with filters
-import { BaseTool } from "../base-tool.js";
+import { BaseTool, LIST_PAGING_PARAMS } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ProducerTypeSchema } from "../../shared/validation/schemas.js";
 
 export class WasteProducersListTool extends BaseTool {
   name = "waste_producers_list";
@@ -12,6 +13,7 @@ export class WasteProducersListTool extends BaseTool {
         type: "string",
         description: "Producer type (industrial, commercial, municipal)",
         required: false,
+        enum: ProducerTypeSchema.options,
       },
       location: {
         type: "string",
@@ -40,6 +42,7 @@ export class WasteProducersListTool extends BaseTool {
         min: 1,
         max: 500,
       },
+      ...LIST_PAGING_PARAMS,
     },
     returns: {
       type: "array",
@@ -54,13 +57,13 @@ export class WasteProducersListTool extends BaseTool {
       // Check cache first
       const cachedResult = this.getCachedResult(params);
       if (cachedResult) {
-        return this.success(cachedResult, Date.now() - startTime);
+        return this.pageResult(cachedResult, Date.now() - startTime);
       }
       // Validate enum values
       if (params.type) {
         const typeValidation = this.validateEnum(
           params.type,
-          ["industrial", "commercial", "municipal"],
+          ProducerTypeSchema.options,
           "type"
         );
         if (!typeValidation.valid) {
@@ -82,18 +85,18 @@ export class WasteProducersListTool extends BaseTool {
       if (params.license_number) queryParams.license_number = params.license_number;
       if (params.min_contracts !== undefined) queryParams.min_contracts = params.min_contracts.toString();
       if (params.max_contracts !== undefined) queryParams.max_contracts = params.max_contracts.toString();
+      Object.assign(queryParams, this.pagingQueryParams(params));
       queryParams.limit = limit.toString();
 
       const response = await this.get("/api/waste-producers", queryParams);
 
-      // Unwrap API response to get just the data array
-      const apiData = response.data as any;
-      const producers = apiData.success ? apiData.data : apiData;
+      // Unwrap API response to get the data array and paging info
+      const page = this.unwrapPage(response.data);
 
       // Cache the result
-      this.cacheResult(params, producers);
+      this.cacheResult(params, page);
 
-      return this.success(producers, Date.now() - startTime);
+      return this.pageResult(page, Date.now() - startTime);
     } catch (error: any) {
       return this.error(error, Date.now() - startTime);
     }
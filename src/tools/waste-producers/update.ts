@@ -1,6 +1,7 @@
 // Waste Producers Update Tool - Update existing waste producer
 import { BaseTool } from "../base-tool.js";
 import { ToolResult } from "../../shared/types/tool.js";
+import { ProducerTypeSchema } from "../../shared/validation/schemas.js";
 
 export class WasteProducersUpdateTool extends BaseTool {
   name = "waste_producers_update";
@@ -22,6 +23,7 @@ export class WasteProducersUpdateTool extends BaseTool {
         type: "string",
         description: "Producer type (industrial, commercial, municipal)",
         required: false,
+        enum: ProducerTypeSchema.options,
       },
       location: {
         type: "string",
@@ -67,7 +69,7 @@ export class WasteProducersUpdateTool extends BaseTool {
       if (params.type) {
         const typeValidation = this.validateEnum(
           params.type,
-          ["industrial", "commercial", "municipal"],
+          ProducerTypeSchema.options,
           "type"
         );
         if (!typeValidation.valid) {